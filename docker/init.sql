@@ -5,4 +5,7 @@
 -- Note: This is handled by POSTGRES_DB environment variable in docker-compose.yml
 
 -- Set up any initial data or configurations here
--- For now, we'll let Prisma handle the schema creation via migrations
\ No newline at end of file
+-- For now, we'll let Prisma handle the schema creation via migrations
+
+-- Enable pgvector for knowledge base embeddings (knowledge_chunks.embedding)
+CREATE EXTENSION IF NOT EXISTS vector;
@@ -0,0 +1,48 @@
+/**
+ * Encrypts rows written before field-level encryption was enabled, and fills in blind indexes.
+ *
+ *   npm run db:encrypt-fields -- [--dry-run] [--batch-size=500] [--field=Message.content]
+ *
+ * Needs the same ENCRYPTION_MASTER_KEY as the app. Safe to re-run; rows already encrypted are skipped.
+ */
+import { prisma } from '@/lib/prisma';
+import {
+  ENCRYPTED_FIELDS,
+  backfillEncryptedFields,
+  fieldContext,
+  getEncryptedFieldStore,
+  getFieldEncryption,
+} from '@/services/security/field-encryption';
+
+function option(name: string): string | undefined {
+  const arg = process.argv.find(candidate => candidate.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const batchSize = Number(option('batch-size') ?? 500);
+  const field = option('field');
+
+  const fields = field ? ENCRYPTED_FIELDS.filter(spec => fieldContext(spec) === field) : ENCRYPTED_FIELDS;
+  if (fields.length === 0) {
+    throw new Error(`Unknown field ${field}; expected one of ${ENCRYPTED_FIELDS.map(fieldContext).join(', ')}`);
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+
+  const results = await backfillEncryptedFields(getEncryptedFieldStore(), getFieldEncryption(), { fields, batchSize, dryRun });
+  console.table(results);
+
+  if (results.some(result => result.failed > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
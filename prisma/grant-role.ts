@@ -0,0 +1,39 @@
+/**
+ * Grants or revokes a role from the command line, e.g. to make the first admin.
+ *
+ *   npm run db:grant-role -- <email> <role> [--revoke]
+ *
+ * Roles: professional, moderator, content_reviewer, admin. The change is recorded in the audit log
+ * and reaches the user's session within a few minutes.
+ */
+import { prisma } from '@/lib/prisma';
+import { GRANTABLE_ROLES, Role } from '@/lib/permissions';
+import { getRoleService } from '@/services/security/roles';
+
+async function main() {
+  const [email, role] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const revoke = process.argv.includes('--revoke');
+
+  if (!email || !GRANTABLE_ROLES.includes(role as Role)) {
+    throw new Error(`Usage: npm run db:grant-role -- <email> <${GRANTABLE_ROLES.join('|')}> [--revoke]`);
+  }
+
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  const roles = getRoleService();
+  const current = (await roles.listGrants(user.id)).map(grant => grant.role);
+  const next = revoke ? current.filter(existing => existing !== role) : [...new Set([...current, role as Role])];
+
+  const change = await roles.setRoles(user.id, next);
+  console.table([{ email, userId: user.id, granted: change.granted.join(','), revoked: change.revoked.join(',') }]);
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,26 @@
+/**
+ * Re-encrypts stored provider API keys from the old CryptoJS passphrase format into envelopes.
+ *
+ *   npm run db:migrate-api-keys -- [--dry-run]
+ *
+ * Needs ENCRYPTION_MASTER_KEY, and ENCRYPTION_KEY if the old keys were encrypted with one. Safe to
+ * re-run; rows already migrated are skipped.
+ */
+import { prisma } from '@/lib/prisma';
+import { migrateLegacyApiKeys } from '@/lib/encryption';
+
+async function main() {
+  const result = await migrateLegacyApiKeys({ dryRun: process.argv.includes('--dry-run') });
+  console.table([result]);
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
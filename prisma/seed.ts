@@ -0,0 +1,31 @@
+/**
+ * Seeds the data every deployment starts with. Safe to run again: seeded rows are updated in place.
+ *
+ *   npm run db:seed
+ */
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_SUPPORT_GROUPS } from '@/services/community/defaultGroups';
+
+async function seedSupportGroups() {
+  // Moderators are assigned after seeding, so a rerun leaves them alone
+  for (const { id, moderators, ...details } of DEFAULT_SUPPORT_GROUPS) {
+    await prisma.supportGroup.upsert({
+      where: { id },
+      create: { id, ...details, moderators },
+      update: details,
+    });
+  }
+  return DEFAULT_SUPPORT_GROUPS.length;
+}
+
+async function main() {
+  const groups = await seedSupportGroups();
+  console.table([{ supportGroups: groups }]);
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,240 @@
+/**
+ * Community REST resources: request and response schemas, event RSVPs, and which groups and posts a
+ * member may read
+ */
+
+import { communityErrorResponse, parseRequest } from '@/app/api/community/errors';
+import { CommunityError, CommunityService } from '@/services/community/CommunityService';
+import {
+  createEventSchema,
+  createPostSchema,
+  eventQuerySchema,
+  postPageResponseSchema,
+  toCommentResource,
+  toEventResource,
+  toPostResource,
+} from '@/services/community/api';
+import { commentEventData, postEventData } from '@/services/community/realtime';
+import { ContentClassifier, InMemoryModerationStore, ModerationService } from '@/services/community/moderation';
+import { InMemoryCommunityStore } from '@/services/community/store';
+
+const engine = { assess: jest.fn().mockResolvedValue(null) };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const newPost = (authorId: string, content: string, groupId?: string) => ({
+  authorId,
+  groupId,
+  content,
+  contentType: 'text' as const,
+  tags: [],
+  triggerWarnings: [],
+  isAnonymous: false,
+  isPinned: false,
+  metadata: {},
+});
+
+const newGroup = (name: string, privacyLevel: 'public' | 'private') => ({
+  name,
+  description: `${name} group`,
+  category: 'anxiety' as const,
+  privacyLevel,
+  rules: [],
+  moderators: [],
+  createdBy: 'host',
+  isActive: true,
+  tags: [],
+});
+
+const newEvent = (overrides: { maxParticipants?: number; status?: 'draft' | 'published'; startTime?: Date } = {}) => ({
+  title: 'Evening check-in',
+  description: 'An hour to talk through the week',
+  eventType: 'support_group' as const,
+  startTime: overrides.startTime ?? new Date(Date.now() + DAY),
+  endTime: new Date((overrides.startTime?.getTime() ?? Date.now() + DAY) + 60 * 60 * 1000),
+  maxParticipants: overrides.maxParticipants,
+  hostId: 'host',
+  coHosts: [],
+  location: 'virtual' as const,
+  tags: [],
+  prerequisites: [],
+  isPublic: true,
+  status: overrides.status ?? 'published' as const,
+});
+
+const expectCommunityError = async (promise: Promise<unknown>, code: CommunityError['code']) => {
+  await expect(promise).rejects.toBeInstanceOf(CommunityError);
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+describe('Community API', () => {
+  let store: InMemoryCommunityStore;
+  let service: CommunityService;
+
+  beforeEach(() => {
+    store = new InMemoryCommunityStore();
+    const moderation = new ModerationService(
+      store,
+      new InMemoryModerationStore(),
+      new ContentClassifier(engine),
+      { evaluateEscalation: jest.fn() }
+    );
+    service = new CommunityService(store, moderation);
+  });
+
+  describe('schemas', () => {
+    it('leave identity out of request bodies and apply defaults', () => {
+      const input = createPostSchema.parse({ content: 'Hello', authorId: 'someone-else' });
+
+      expect(input).not.toHaveProperty('authorId');
+      expect(input).toMatchObject({ contentType: 'text', tags: [], isAnonymous: false });
+    });
+
+    it('reject events that end before they start', () => {
+      const result = createEventSchema.safeParse({
+        title: 'Backwards',
+        description: 'Ends first',
+        startTime: '2026-06-01T18:00:00.000Z',
+        endTime: '2026-06-01T17:00:00.000Z',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['endTime']);
+    });
+
+    it('read boolean query parameters from strings', () => {
+      expect(eventQuerySchema.parse({}).upcomingOnly).toBe(true);
+      expect(eventQuerySchema.parse({ upcomingOnly: 'false' }).upcomingOnly).toBe(false);
+      expect(eventQuerySchema.safeParse({ upcomingOnly: 'no' }).success).toBe(false);
+    });
+
+    it('turn dates back into Dates when a client parses a response', async () => {
+      const { post } = await service.createPost(newPost('author', 'x'.repeat(800)));
+      const body = JSON.parse(JSON.stringify({
+        success: true,
+        posts: [toPostResource(post, null, true)],
+        nextCursor: null
+      }));
+
+      const page = postPageResponseSchema.parse(body);
+
+      expect(page.posts[0].createdAt).toBeInstanceOf(Date);
+      expect(page.posts[0].createdAt.getTime()).toBe(post.createdAt.getTime());
+      expect(page.posts[0].content).toHaveLength(500);
+      expect(page.posts[0]).not.toHaveProperty('metadata');
+    });
+
+    it('name the author of anonymous content only to the author and moderators', async () => {
+      const { post } = await service.createPost({ ...newPost('author', 'Nobody knows'), isAnonymous: true });
+      const { comment } = await service.createComment({ postId: post.id, authorId: 'author', content: 'Me again', isAnonymous: true });
+      const { post: signed } = await service.createPost(newPost('author', 'Signed'));
+
+      expect(toPostResource(post, { id: 'author', roles: ['user'] }).authorId).toBe('author');
+      expect(toPostResource(post, { id: 'mod', roles: ['user', 'moderator'] }).authorId).toBe('author');
+      expect(toPostResource(post, { id: 'other', roles: ['user'] })).not.toHaveProperty('authorId');
+      expect(toCommentResource(comment, { id: 'other', roles: ['user'] })).not.toHaveProperty('authorId');
+      expect(toPostResource(signed, { id: 'other', roles: ['user'] }).authorId).toBe('author');
+
+      // Realtime events go to everyone on the channel
+      expect(postEventData(post)).not.toHaveProperty('authorId');
+      expect(commentEventData(comment)).not.toHaveProperty('authorId');
+      expect(postEventData(signed).authorId).toBe('author');
+    });
+  });
+
+  describe('errors', () => {
+    const responseFor = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        return communityErrorResponse(error, 'do the thing');
+      }
+      throw new Error('Expected a failure');
+    };
+
+    it('answer an invalid request with a 400 naming the problem', async () => {
+      const response = responseFor(() => parseRequest(createPostSchema, { content: '' }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'Validation failed', details: [expect.objectContaining({ path: ['content'] })] });
+    });
+
+    it('treat a response that fails its own schema as a server error', async () => {
+      const response = responseFor(() => postPageResponseSchema.parse({ success: true, posts: [{}], nextCursor: null }));
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Internal server error', message: 'Failed to do the thing' });
+    });
+  });
+
+  describe('event RSVPs', () => {
+    it('adds the member once and shows them as attending', async () => {
+      const event = await service.createCommunityEvent(newEvent());
+
+      await service.rsvpEvent(event.id, 'member');
+      const updated = await service.rsvpEvent(event.id, 'member');
+
+      expect(updated.currentParticipants).toBe(1);
+      expect(toEventResource(updated, 'member').attending).toBe(true);
+      expect(toEventResource(updated, 'other')).toMatchObject({ attending: false });
+      expect(toEventResource(updated, 'other')).not.toHaveProperty('participants');
+    });
+
+    it('refuses full, started and unpublished events', async () => {
+      const full = await service.createCommunityEvent(newEvent({ maxParticipants: 1 }));
+      const started = await service.createCommunityEvent(newEvent({ startTime: new Date(Date.now() - 1000) }));
+      const draft = await service.createCommunityEvent(newEvent({ status: 'draft' }));
+      await service.rsvpEvent(full.id, 'first');
+
+      await expectCommunityError(service.rsvpEvent(full.id, 'second'), 'conflict');
+      await expectCommunityError(service.rsvpEvent(started.id, 'member'), 'conflict');
+      await expectCommunityError(service.rsvpEvent(draft.id, 'member'), 'not_found');
+      await expectCommunityError(service.rsvpEvent('missing', 'member'), 'not_found');
+    });
+
+    it('cancels an RSVP and frees the place', async () => {
+      const event = await service.createCommunityEvent(newEvent({ maxParticipants: 1 }));
+      await service.rsvpEvent(event.id, 'first');
+
+      const cancelled = await service.cancelRsvp(event.id, 'first');
+      await service.rsvpEvent(event.id, 'second');
+
+      expect(cancelled.currentParticipants).toBe(0);
+      await expectCommunityError(service.cancelRsvp(event.id, 'first'), 'not_found');
+    });
+  });
+
+  describe('access', () => {
+    it('keeps posts in private groups off the feed', async () => {
+      const open = await service.createSupportGroup(newGroup('Open', 'public'));
+      const closed = await service.createSupportGroup(newGroup('Closed', 'private'));
+      await service.createPost(newPost('author', 'No group'));
+      await service.createPost(newPost('author', 'Open group', open.id));
+      await service.createPost(newPost('author', 'Closed group', closed.id));
+
+      const feed = await service.getFeed();
+
+      expect(feed.items.map(post => post.content).sort()).toEqual(['No group', 'Open group']);
+    });
+
+    it('lets only members, moderators and the creator into private groups and their posts', async () => {
+      const closed = await service.createSupportGroup({ ...newGroup('Closed', 'private'), moderators: ['mod'] });
+      await store.addGroupMember(closed.id, 'member');
+      const { post } = await service.createPost(newPost('member', 'Inside', closed.id));
+
+      for (const userId of ['member', 'mod', 'host']) {
+        await expect(service.getAccessibleGroup(closed.id, userId)).resolves.toMatchObject({ id: closed.id });
+      }
+      await expectCommunityError(service.getAccessibleGroup(closed.id, 'outsider'), 'forbidden');
+      await expectCommunityError(service.getAccessiblePost(post.id, 'outsider'), 'forbidden');
+      await expectCommunityError(service.getAccessiblePost('missing', 'member'), 'not_found');
+    });
+
+    it('reports comments on missing posts as not found', async () => {
+      await expectCommunityError(
+        service.createComment({ postId: 'missing', authorId: 'member', content: 'Hi', isAnonymous: false }),
+        'not_found'
+      );
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Community state behind the store: what survives a new service instance, cursor pagination of posts
+ * and comments, group membership and connections
+ */
+
+import { CommunityPost, CommunityService } from '@/services/community/CommunityService';
+import { PeerSupportService } from '@/services/community/PeerSupportService';
+import { DEFAULT_SUPPORT_GROUPS } from '@/services/community/defaultGroups';
+import { ConnectionExistsError, InMemoryCommunityStore } from '@/services/community/store';
+
+const post = (id: string, minute: number, groupId?: string): CommunityPost => ({
+  id,
+  authorId: 'user-1',
+  groupId,
+  content: `Post ${id}`,
+  contentType: 'text',
+  tags: [],
+  triggerWarnings: [],
+  isAnonymous: false,
+  createdAt: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  updatedAt: new Date(Date.UTC(2026, 0, 1, 12, minute)),
+  likes: 0,
+  replies: 0,
+  isPinned: false,
+  isModerated: false,
+  moderationStatus: 'approved',
+  metadata: {},
+});
+
+const profile = (userId: string, supportAreas: string[]) => ({
+  userId,
+  displayName: userId,
+  interests: ['mindfulness'],
+  supportAreas,
+  anonymityLevel: 'pseudonymous' as const,
+});
+
+describe('CommunityService on the community store', () => {
+  let store: InMemoryCommunityStore;
+  let service: CommunityService;
+
+  beforeEach(() => {
+    store = new InMemoryCommunityStore();
+    service = new CommunityService(store);
+  });
+
+  it('starts empty and keeps what is created for the next service instance', async () => {
+    expect(await service.getSupportGroups()).toEqual([]);
+    expect(await service.getUserProfile('user_demo')).toBeNull();
+
+    await service.createUserProfile(profile('user-1', ['anxiety']));
+    const group = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[0], moderators: ['mod-1'] });
+    await service.joinSupportGroup('user-1', group.id);
+    await service.createPost({ ...post('unused', 0), groupId: group.id, isPinned: false, metadata: {} });
+
+    const restarted = new CommunityService(store);
+    expect(await restarted.getUserProfile('user-1')).toMatchObject({ displayName: 'user-1', isActive: true });
+    expect(await restarted.getSupportGroup(group.id)).toMatchObject({ memberCount: 1, moderators: ['mod-1'] });
+    expect((await restarted.getCommunityPosts({ groupId: group.id })).items).toHaveLength(1);
+    expect(await restarted.getCommunityStats()).toMatchObject({ totalUsers: 1, totalGroups: 1, totalPosts: 1 });
+  });
+
+  it('pages posts newest first and comments oldest first by cursor', async () => {
+    for (let minute = 0; minute < 5; minute++) {
+      await store.createPost(post(`post-${minute}`, minute, minute % 2 === 0 ? 'group-even' : undefined));
+    }
+
+    const first = await service.getCommunityPosts({ limit: 2 });
+    expect(first.items.map(p => p.id)).toEqual(['post-4', 'post-3']);
+
+    const second = await service.getCommunityPosts({ limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map(p => p.id)).toEqual(['post-2', 'post-1']);
+
+    const last = await service.getCommunityPosts({ limit: 2, cursor: second.nextCursor! });
+    expect(last).toEqual({ items: [expect.objectContaining({ id: 'post-0' })], nextCursor: null });
+
+    const even = await service.getCommunityPosts({ groupId: 'group-even', limit: 10 });
+    expect(even.items.map(p => p.id)).toEqual(['post-4', 'post-2', 'post-0']);
+    expect(even.nextCursor).toBeNull();
+
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 13) });
+    for (const content of ['First reply', 'Second reply', 'Third reply']) {
+      await service.createComment({ postId: 'post-4', authorId: 'user-2', content, isAnonymous: false });
+      jest.advanceTimersByTime(1000);
+    }
+    jest.useRealTimers();
+
+    const comments = await service.getPostComments('post-4', { limit: 2 });
+    const rest = await service.getPostComments('post-4', { limit: 2, cursor: comments.nextCursor! });
+
+    expect([...comments.items, ...rest.items].map(c => c.content)).toEqual(['First reply', 'Second reply', 'Third reply']);
+    expect(rest.nextCursor).toBeNull();
+    expect((await service.getCommunityPosts({ limit: 1 })).items[0].replies).toBe(3);
+    await expect(service.createComment({ postId: 'missing', authorId: 'user-2', content: 'Hello', isAnonymous: false }))
+      .rejects.toThrow('Post not found');
+  });
+
+  it('counts each member once and stops at the group limit', async () => {
+    const group = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[1], maxMembers: 2 });
+    const closed = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[2], privacyLevel: 'private' });
+
+    expect(await service.joinSupportGroup('user-1', group.id)).toBe(true);
+    expect(await service.joinSupportGroup('user-1', group.id)).toBe(true);
+    expect(await service.joinSupportGroup('user-2', group.id)).toBe(true);
+    expect(await service.joinSupportGroup('user-3', group.id)).toBe(false);
+    expect(await service.joinSupportGroup('user-1', closed.id)).toBe(false);
+
+    expect((await service.getSupportGroup(group.id))!.memberCount).toBe(2);
+  });
+
+  it('stores both sides of a connection and rejects a duplicate', async () => {
+    const connection = {
+      userId: 'user-1',
+      connectedUserId: 'user-2',
+      connectionType: 'peer_support' as const,
+      status: 'accepted' as const,
+      initiatedBy: 'user-1',
+      trustLevel: 0.8,
+      sharedGoals: [],
+      mutualInterests: [],
+    };
+    await service.createUserConnection(connection);
+
+    expect(await service.getUserConnections('user-2')).toEqual([
+      expect.objectContaining({ connectedUserId: 'user-1', status: 'pending' }),
+    ]);
+    await expect(service.createUserConnection(connection)).rejects.toBeInstanceOf(ConnectionExistsError);
+  });
+
+  it('matches peer supporters from stored profiles', async () => {
+    await service.createUserProfile(profile('seeker', ['anxiety']));
+    await service.createUserProfile(profile('supporter', ['anxiety']));
+    await service.createUserProfile(profile('elsewhere', ['grief']));
+
+    const peerSupport = new PeerSupportService(new CommunityService(store));
+    const matches = await peerSupport.findSupportMatches('seeker', { topics: ['anxiety'] });
+
+    expect(matches.map(match => match.matchedUserId)).toEqual(['supporter']);
+    expect((await peerSupport.getPeerSupportStats()).totalUsers).toBe(3);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Community moderation: screening new content (crisis disclosures go to safety escalation and the
+ * urgent queue instead of being rejected), member reports, queue decisions, temporary bans and appeals
+ */
+
+import { CommunityService } from '@/services/community/CommunityService';
+import { DEFAULT_SUPPORT_GROUPS } from '@/services/community/defaultGroups';
+import {
+  ContentClassifier,
+  ContentRejectedError,
+  InMemoryModerationStore,
+  ModerationService,
+  UserBannedError,
+} from '@/services/community/moderation';
+import { InMemoryCommunityStore } from '@/services/community/store';
+import { CrisisAssessment, emptyIndicators } from '@/services/crisis-detection';
+
+// Stands in for the detection engine: "end my life" reads as suicidal ideation, "panic" as anxiety
+const engine = {
+  assess: jest.fn(async ({ userId, sessionId, message }: { userId: string; sessionId: string; message: string }) => {
+    const indicators = emptyIndicators();
+    if (/end my life/i.test(message)) indicators.suicideIdeation = true;
+    else if (/panic/i.test(message)) indicators.acuteAnxiety = true;
+    else return null;
+
+    return {
+      userId,
+      sessionId,
+      language: 'en',
+      severity: indicators.suicideIdeation ? 'critical' : 'medium',
+      confidence: 0.9,
+      indicators,
+      signals: [],
+      riskFactors: [],
+      adjustments: [],
+      recommendedActions: [],
+      immediate: indicators.suicideIdeation,
+      context: message,
+      detectedAt: new Date(),
+    } as CrisisAssessment;
+  }),
+};
+
+const newPost = (authorId: string, content: string) => ({
+  authorId,
+  content,
+  contentType: 'text' as const,
+  tags: [],
+  triggerWarnings: [],
+  isAnonymous: false,
+  isPinned: false,
+  metadata: {},
+});
+
+describe('Community moderation', () => {
+  let store: InMemoryCommunityStore;
+  let moderationStore: InMemoryModerationStore;
+  let escalator: { evaluateEscalation: jest.Mock };
+  let moderation: ModerationService;
+  let service: CommunityService;
+
+  beforeEach(() => {
+    engine.assess.mockClear();
+    store = new InMemoryCommunityStore();
+    moderationStore = new InMemoryModerationStore();
+    escalator = { evaluateEscalation: jest.fn().mockResolvedValue({ id: 'escalation-1' }) };
+    moderation = new ModerationService(store, moderationStore, new ContentClassifier(engine), escalator, {
+      hideAfterReports: 2,
+    });
+    service = new CommunityService(store, moderation);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('publishes ordinary posts and holds crisis disclosures for urgent review with an escalation', async () => {
+    const everyday = await service.createPost(newPost('user-1', 'A walk does no harm when the day feels heavy'));
+    const anxious = await service.createPost(newPost('user-1', 'Another panic attack at work today'));
+    expect(everyday.post.moderationStatus).toBe('approved');
+    expect(anxious.screening).toMatchObject({ status: 'approved', crisis: false, labels: ['acuteAnxiety'] });
+
+    const disclosure = await service.createPost(newPost('user-2', 'I keep thinking I want to end my life'));
+    expect(disclosure.screening).toEqual({
+      status: 'pending',
+      labels: ['suicideIdeation'],
+      crisis: true,
+      language: 'en',
+      escalationId: 'escalation-1',
+    });
+    expect(escalator.evaluateEscalation).toHaveBeenCalledWith(
+      'user-2',
+      `community-post-${disclosure.post.id}`,
+      expect.objectContaining({ severity: 'critical' })
+    );
+
+    // Hidden from members until a moderator approves it
+    expect((await service.getCommunityPosts()).items.map(post => post.id)).not.toContain(disclosure.post.id);
+
+    const queue = await moderation.listQueue();
+    expect(queue.pending).toBe(1);
+    expect(queue.items[0]).toMatchObject({
+      targetId: disclosure.post.id,
+      source: 'crisis',
+      urgent: true,
+      escalationId: 'escalation-1',
+      content: { text: 'I keep thinking I want to end my life', moderationStatus: 'pending' },
+    });
+  });
+
+  it('holds abuse aimed at other members without escalating, and rejects oversized content', async () => {
+    const { post } = await service.createPost(newPost('user-1', 'Welcome everyone'));
+    const { comment, screening } = await service.createComment({
+      postId: post.id,
+      authorId: 'user-3',
+      content: 'nobody would miss you',
+      isAnonymous: false,
+    });
+
+    expect(screening).toEqual({ status: 'pending', labels: ['harassment'], crisis: false });
+    expect((await service.getPostComments(post.id)).items).toEqual([]);
+    expect(escalator.evaluateEscalation).not.toHaveBeenCalled();
+    expect((await moderation.listQueue()).items[0]).toMatchObject({ targetType: 'comment', targetId: comment.id, source: 'classifier' });
+
+    await expect(service.createPost(newPost('user-1', 'x'.repeat(10001)))).rejects.toBeInstanceOf(ContentRejectedError);
+  });
+
+  it('flags reported content, hides it at the threshold and escalates self-harm reports', async () => {
+    const { post } = await service.createPost(newPost('user-1', 'Nothing is working and I feel stuck'));
+    const { post: other } = await service.createPost(newPost('user-4', 'Buy followers here'));
+
+    await moderation.report('reporter-1', { targetType: 'post', targetId: other.id, reason: 'spam' });
+    expect((await store.getPost(other.id))!.moderationStatus).toBe('flagged');
+    await expect(moderation.report('reporter-1', { targetType: 'post', targetId: other.id, reason: 'spam' }))
+      .rejects.toMatchObject({ code: 'conflict' });
+
+    const second = await moderation.report('reporter-2', { targetType: 'post', targetId: other.id, reason: 'spam' });
+    expect(second.hidden).toBe(true);
+    expect((await store.getPost(other.id))!.moderationStatus).toBe('pending');
+
+    // The engine doesn't see a crisis here, so a self-harm report is queued without an escalation
+    await moderation.report('reporter-3', { targetType: 'post', targetId: post.id, reason: 'self_harm' });
+    expect(escalator.evaluateEscalation).not.toHaveBeenCalled();
+
+    await store.createPost({ ...post, id: 'post-crisis', content: 'Tonight I will end my life' });
+    await moderation.report('reporter-3', { targetType: 'post', targetId: 'post-crisis', reason: 'self_harm' });
+    expect(escalator.evaluateEscalation).toHaveBeenCalledTimes(1);
+
+    const queue = await moderation.listQueue();
+    expect(queue.items.map(item => item.targetId)).toEqual(['post-crisis', other.id, post.id]);
+    expect(queue.items[1]).toMatchObject({ reportCount: 2, labels: ['spam'] });
+  });
+
+  it('bans the author for the given hours when a queue item is resolved, then lets them back', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) });
+    const group = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[0] });
+    const { post } = await service.createPost(newPost('user-1', 'Welcome everyone'));
+    const { comment } = await service.createComment({ postId: post.id, authorId: 'troll', content: 'kys', isAnonymous: false });
+    const [item] = (await moderation.listQueue()).items;
+
+    const { item: resolved, actions } = await moderation.resolve(item.id, 'mod-1', {
+      decision: 'delete',
+      reason: 'Abuse',
+      banHours: 24,
+    });
+
+    expect(resolved).toMatchObject({ status: 'resolved', resolution: 'delete', resolvedBy: 'mod-1' });
+    expect((await store.getComment(comment.id))!.moderationStatus).toBe('rejected');
+    expect(actions[1]).toMatchObject({
+      targetType: 'user',
+      targetId: 'troll',
+      action: 'ban',
+      duration: 24,
+      expiresAt: new Date(Date.UTC(2026, 0, 2, 12)),
+    });
+    await expect(service.createPost(newPost('troll', 'Hello again'))).rejects.toBeInstanceOf(UserBannedError);
+    expect(await service.joinSupportGroup('troll', group.id)).toBe(false);
+
+    jest.advanceTimersByTime(25 * 60 * 60 * 1000);
+    expect(await moderation.getActiveBan('troll')).toBeNull();
+    expect((await service.createPost(newPost('troll', 'Sorry about before'))).post.moderationStatus).toBe('approved');
+  });
+
+  it('takes appeals from the affected member only, decided by another moderator', async () => {
+    const ban = await moderation.takeAction({ moderatorId: 'mod-1', targetType: 'user', targetId: 'user-5', action: 'ban', reason: 'Spam' });
+    expect(ban.expiresAt).toBeUndefined(); // Permanent without a duration
+
+    await expect(moderation.fileAppeal('someone-else', ban.id, 'Please')).rejects.toMatchObject({ code: 'forbidden' });
+    const appeal = await moderation.fileAppeal('user-5', ban.id, 'That was my sister using my account');
+    await expect(moderation.fileAppeal('user-5', ban.id, 'Again')).rejects.toMatchObject({ code: 'conflict' });
+    expect(await store.getModerationAction(ban.id)).toMatchObject({ appealed: true, appealResolved: false });
+
+    await expect(moderation.decideAppeal(appeal.id, 'mod-1', { status: 'overturned' })).rejects.toMatchObject({ code: 'forbidden' });
+    const decided = await moderation.decideAppeal(appeal.id, 'mod-2', { status: 'overturned', note: 'Account secured' });
+
+    expect(decided).toMatchObject({ status: 'overturned', decidedBy: 'mod-2', decisionNote: 'Account secured' });
+    expect(await moderation.getActiveBan('user-5')).toBeNull();
+    expect(await store.getModerationAction(ban.id)).toMatchObject({ appealResolved: true });
+    await expect(moderation.decideAppeal(appeal.id, 'mod-3', { status: 'upheld' })).rejects.toMatchObject({ code: 'conflict' });
+  });
+
+  it('applies comment and group actions and refuses ones that do not fit the target', async () => {
+    const group = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[1] });
+    const { post } = await service.createPost(newPost('user-1', 'Checking in'));
+    const { comment } = await service.createComment({ postId: post.id, authorId: 'user-2', content: 'Same here', isAnonymous: false });
+
+    await service.performModerationAction({ moderatorId: 'mod-1', targetType: 'comment', targetId: comment.id, action: 'reject', reason: 'Off topic' });
+    expect((await service.getPostComments(post.id)).items).toEqual([]);
+
+    await service.performModerationAction({ moderatorId: 'mod-1', targetType: 'group', targetId: group.id, action: 'delete', reason: 'Inactive' });
+    expect((await service.getSupportGroup(group.id))!.isActive).toBe(false);
+
+    await expect(moderation.takeAction({ moderatorId: 'mod-1', targetType: 'post', targetId: post.id, action: 'ban', reason: 'No' }))
+      .rejects.toMatchObject({ code: 'invalid' });
+    await expect(moderation.takeAction({ moderatorId: 'mod-1', targetType: 'post', targetId: 'missing', action: 'reject', reason: 'No' }))
+      .rejects.toMatchObject({ code: 'not_found' });
+    expect(await service.getModerationActions('comment', comment.id)).toHaveLength(1);
+  });
+});
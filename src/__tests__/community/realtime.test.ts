@@ -0,0 +1,200 @@
+/**
+ * Real-time community delivery: new posts, comments and reactions published to the feed and group
+ * channels, authorized subscriptions, presence and typing, and peer session messages
+ */
+
+import { CommunityService } from '@/services/community/CommunityService';
+import { DEFAULT_SUPPORT_GROUPS } from '@/services/community/defaultGroups';
+import { ContentClassifier, InMemoryModerationStore, ModerationService } from '@/services/community/moderation';
+import {
+  ChannelAccessError,
+  FEED_CHANNEL,
+  InProcessBroker,
+  RealtimeEvent,
+  RealtimeGateway,
+  groupChannel,
+  sessionChannel,
+} from '@/services/community/realtime';
+import { InMemoryCommunityStore } from '@/services/community/store';
+
+// Nothing reads as a crisis except "hurt myself", which is held for review
+const engine = {
+  assess: jest.fn(async ({ message }: { message: string }) => /hurt myself/i.test(message)
+    ? { severity: 'high', indicators: { selfHarm: true }, language: 'en', immediate: false } as never
+    : null),
+};
+
+const newPost = (authorId: string, content: string, groupId?: string) => ({
+  authorId,
+  groupId,
+  content,
+  contentType: 'text' as const,
+  tags: [],
+  triggerWarnings: [],
+  isAnonymous: false,
+  isPinned: false,
+  metadata: {},
+});
+
+const newSession = (participants: string[], status: 'scheduled' | 'completed' = 'scheduled') => ({
+  participants,
+  sessionType: 'one-on-one' as const,
+  status,
+  scheduledAt: new Date(),
+  topics: [],
+  outcomes: [],
+  feedback: [],
+  isAnonymous: false,
+});
+
+describe('Community realtime', () => {
+  let store: InMemoryCommunityStore;
+  let broker: InProcessBroker;
+  let gateway: RealtimeGateway;
+  let service: CommunityService;
+
+  // Every event delivered to a subscription, in order
+  const listen = async (channel: string) => {
+    const events: RealtimeEvent[] = [];
+    await broker.subscribe(channel, event => events.push(event));
+    return events;
+  };
+
+  beforeEach(() => {
+    store = new InMemoryCommunityStore();
+    broker = new InProcessBroker();
+    gateway = new RealtimeGateway(store, broker, { touchIntervalMs: 60_000 });
+    const moderation = new ModerationService(
+      store,
+      new InMemoryModerationStore(),
+      new ContentClassifier(engine),
+      { evaluateEscalation: jest.fn().mockResolvedValue({ id: 'escalation-1' }) }
+    );
+    service = new CommunityService(store, moderation, broker);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('publishes approved posts and comments to the group and, for public groups, the feed', async () => {
+    const open = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[0] });
+    const closed = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[1], privacyLevel: 'private' });
+    const feed = await listen(FEED_CHANNEL);
+    const openGroup = await listen(groupChannel(open.id));
+    const closedGroup = await listen(groupChannel(closed.id));
+
+    const { post } = await service.createPost(newPost('user-1', 'Breathing exercises helped today', open.id));
+    await service.createPost(newPost('user-1', 'Just between us', closed.id));
+    await service.createPost(newPost('user-2', 'I want to hurt myself tonight'));
+
+    expect(feed.map(event => event.type)).toEqual(['post.created']);
+    expect(feed[0].data).toMatchObject({ id: post.id, groupId: open.id, content: 'Breathing exercises helped today' });
+    expect(openGroup).toHaveLength(1);
+    expect(closedGroup[0].data).toMatchObject({ content: 'Just between us' });
+
+    await service.createComment({ postId: post.id, authorId: 'user-3', content: 'Glad to hear it', isAnonymous: false });
+    expect(openGroup[1]).toMatchObject({ type: 'comment.created', data: { postId: post.id, content: 'Glad to hear it' } });
+    expect(feed[1].channel).toBe(FEED_CHANNEL);
+  });
+
+  it('counts one reaction per member and publishes the new total', async () => {
+    const feed = await listen(FEED_CHANNEL);
+    const { post } = await service.createPost(newPost('user-1', 'Small win: went outside'));
+    const { post: held } = await service.createPost(newPost('user-2', 'Some days I hurt myself'));
+    await service.createUserProfile({ userId: 'shy', displayName: 'Anon', interests: [], supportAreas: [], anonymityLevel: 'anonymous' });
+
+    expect(await service.react('user-2', 'post', post.id, 'hug')).toBe(1);
+    expect(await service.react('user-2', 'post', post.id, 'like')).toBeNull();
+    expect(await service.react('user-3', 'post', post.id, 'support')).toBe(2);
+    expect(await service.react('shy', 'post', post.id, 'hug')).toBe(3);
+
+    // Anonymous members' reactions count without saying who reacted
+    expect(feed.filter(event => event.type === 'reaction').map(event => event.data)).toEqual([
+      { targetType: 'post', targetId: post.id, postId: post.id, userId: 'user-2', kind: 'hug', likes: 1 },
+      { targetType: 'post', targetId: post.id, postId: post.id, userId: 'user-3', kind: 'support', likes: 2 },
+      { targetType: 'post', targetId: post.id, postId: post.id, kind: 'hug', likes: 3 },
+    ]);
+    expect((await store.getPost(post.id))!.likes).toBe(3);
+
+    // Content held for review can't be reacted to
+    await expect(service.react('user-3', 'post', held.id, 'like')).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('only subscribes members to private groups and participants to sessions', async () => {
+    const closed = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[1], privacyLevel: 'private' });
+    await store.addGroupMember(closed.id, 'member');
+    const session = await service.createPeerSupportSession({ ...newSession(['user-1', 'user-2']), moderatedBy: 'mod-1' });
+
+    expect(await gateway.authorize('anyone', FEED_CHANNEL)).toBe(true);
+    expect(await gateway.authorize('member', groupChannel(closed.id))).toBe(true);
+    expect(await gateway.authorize('outsider', groupChannel(closed.id))).toBe(false);
+    expect(await gateway.authorize('mod-1', sessionChannel(session.id))).toBe(true);
+    expect(await gateway.authorize('user-3', sessionChannel(session.id))).toBe(false);
+    expect(await gateway.authorize('user-1', 'everything')).toBe(false);
+
+    await expect(gateway.connect('outsider', [FEED_CHANNEL, groupChannel(closed.id)], jest.fn()))
+      .rejects.toBeInstanceOf(ChannelAccessError);
+    expect(broker.subscriberCount(FEED_CHANNEL)).toBe(0);
+  });
+
+  it('tracks presence across connections, hides anonymous members and keeps lastActive current', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) });
+    const group = await service.createSupportGroup({ ...DEFAULT_SUPPORT_GROUPS[0] });
+    const channel = groupChannel(group.id);
+    await service.createUserProfile({ userId: 'user-1', displayName: 'Sam', interests: [], supportAreas: [], anonymityLevel: 'pseudonymous' });
+    await service.createUserProfile({ userId: 'shy', displayName: 'Anon', interests: [], supportAreas: [], anonymityLevel: 'anonymous' });
+    const events = await listen(channel);
+
+    const first = await gateway.connect('user-1', [channel], jest.fn());
+    const second = await gateway.connect('user-1', [channel, FEED_CHANNEL], jest.fn());
+    const hidden = await gateway.connect('shy', [channel], jest.fn());
+    expect(hidden.online).toEqual({ [channel]: ['user-1'] });
+
+    expect(await gateway.typing('shy', channel, true)).toBe(true);
+    expect(await gateway.typing('user-1', channel, true)).toBe(true);
+    expect(await gateway.typing('user-1', FEED_CHANNEL, true)).toBe(false);
+
+    await first.close();
+    await second.close();
+    expect(events.map(event => [event.type, event.data])).toEqual([
+      ['presence', { userId: 'user-1', online: true }],
+      ['typing', { userId: 'user-1', typing: true }],
+      ['presence', { userId: 'user-1', online: false }],
+    ]);
+
+    jest.advanceTimersByTime(30_000);
+    await hidden.heartbeat();
+    jest.advanceTimersByTime(60_000);
+    await hidden.heartbeat();
+    expect((await store.getProfile('shy'))!.lastActive).toEqual(new Date(Date.UTC(2026, 0, 1, 12, 1, 30)));
+  });
+
+  it('delivers session messages to participants and keeps them for history', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) });
+    const session = await service.createPeerSupportSession(newSession(['user-1', 'user-2']));
+    const received: RealtimeEvent[] = [];
+    const connection = await gateway.connect('user-2', [sessionChannel(session.id)], event => received.push(event));
+
+    const hello = await service.sendSessionMessage(session.id, 'user-1', 'Hi, how are you holding up?');
+    jest.advanceTimersByTime(1000);
+    await service.sendSessionMessage(session.id, 'user-2', 'Better than yesterday');
+
+    expect(received.filter(event => event.type === 'session.message').map(event => event.data)).toEqual([
+      hello,
+      expect.objectContaining({ senderId: 'user-2', content: 'Better than yesterday' }),
+    ]);
+    expect((await service.getSessionMessages(session.id, 'user-1')).items.map(message => message.senderId))
+      .toEqual(['user-2', 'user-1']);
+
+    await expect(service.sendSessionMessage(session.id, 'user-3', 'Hello?')).rejects.toMatchObject({ code: 'forbidden' });
+    await expect(service.getSessionMessages(session.id, 'user-3')).rejects.toMatchObject({ code: 'forbidden' });
+    await expect(service.sendSessionMessage('missing', 'user-1', 'Hello?')).rejects.toMatchObject({ code: 'not_found' });
+
+    const ended = await service.createPeerSupportSession(newSession(['user-1', 'user-2'], 'completed'));
+    await expect(service.sendSessionMessage(ended.id, 'user-1', 'One more thing')).rejects.toMatchObject({ code: 'conflict' });
+
+    await connection.close();
+    expect(broker.subscriberCount(sessionChannel(session.id))).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Role-based access control: what each role may do, which content it may read, keeping session
+ * token roles current, audited role changes, and the guard on every admin route
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  canAccessContent,
+  hasPermission,
+  Permission,
+  permissionsFor,
+  readableAccessLevels,
+} from '@/lib/permissions';
+import { AuditLog, InMemoryAuditLogStore } from '@/services/compliance/audit';
+import {
+  InMemoryRoleStore,
+  loadUserRoles,
+  refreshTokenRoles,
+  ROLE_REFRESH_MS,
+  RoleChangeError,
+  RoleService,
+  RoleToken,
+} from '@/services/security/roles';
+
+describe('permissions', () => {
+  it('grants each role its own permissions and admins all of them', () => {
+    expect(permissionsFor(['user']).size).toBe(0);
+    expect(hasPermission(['user', 'professional'], 'escalations.manage')).toBe(true);
+    expect(hasPermission(['user', 'professional'], 'content.review')).toBe(false);
+    expect(hasPermission(['user', 'moderator'], 'community.moderate')).toBe(true);
+    expect(hasPermission(['user', 'content_reviewer'], 'content.publish')).toBe(true);
+    expect(hasPermission(['user', 'content_reviewer'], 'audit_log.read')).toBe(false);
+    expect(hasPermission(['user', 'admin'], 'roles.manage')).toBe(true);
+  });
+
+  it('grants nothing for unknown or missing roles', () => {
+    expect(hasPermission(['superuser'], 'roles.manage')).toBe(false);
+    expect(hasPermission(undefined, 'content.read_professional')).toBe(false);
+  });
+
+  it('limits professional content to roles that may read it, and its authors', () => {
+    const professionalContent = { accessLevel: 'professional', createdBy: 'author-1' };
+    const member = { id: 'user-1', roles: ['user'] };
+    const clinician = { id: 'user-2', roles: ['user', 'professional'] };
+
+    expect(readableAccessLevels(null)).toEqual(['public']);
+    expect(readableAccessLevels(member.roles)).toEqual(['public', 'authenticated']);
+    expect(readableAccessLevels(clinician.roles)).toEqual(['public', 'authenticated', 'professional']);
+
+    expect(canAccessContent(null, 'read', professionalContent)).toBe(false);
+    expect(canAccessContent(member, 'read', professionalContent)).toBe(false);
+    expect(canAccessContent(clinician, 'read', professionalContent)).toBe(true);
+    expect(canAccessContent({ id: 'author-1', roles: ['user'] }, 'read', professionalContent)).toBe(true);
+    expect(canAccessContent(null, 'read', { accessLevel: 'public' })).toBe(true);
+  });
+
+  it('lets authors edit their own content but leaves publishing to reviewers', () => {
+    const content = { accessLevel: 'authenticated', createdBy: 'author-1' };
+    const author = { id: 'author-1', roles: ['user'] };
+
+    expect(canAccessContent(author, 'update', content)).toBe(true);
+    expect(canAccessContent(author, 'publish', content)).toBe(false);
+    expect(canAccessContent({ id: 'user-2', roles: ['user'] }, 'delete', content)).toBe(false);
+    expect(canAccessContent({ id: 'reviewer-1', roles: ['user', 'content_reviewer'] }, 'publish', content)).toBe(true);
+    expect(canAccessContent({ id: 'admin-1', roles: ['user', 'admin'] }, 'delete', content)).toBe(true);
+  });
+});
+
+describe('session token roles', () => {
+  let store: InMemoryRoleStore;
+
+  beforeEach(async () => {
+    store = new InMemoryRoleStore();
+    await store.grant('user-1', 'professional', 'admin-1', new Date());
+  });
+
+  it('loads roles at sign-in and reloads them once stale', async () => {
+    const now = Date.now();
+    const token = await refreshTokenRoles<RoleToken>({ sub: 'user-1' }, true, now, store);
+    expect(token.roles).toEqual(['user', 'professional']);
+
+    await store.revoke('user-1', 'professional');
+    expect((await refreshTokenRoles(token, false, now + 60_000, store)).roles).toEqual(['user', 'professional']);
+    expect((await refreshTokenRoles(token, false, now + ROLE_REFRESH_MS, store)).roles).toEqual(['user']);
+  });
+
+  it('drops to the user role when roles cannot be read', async () => {
+    const failing = new (class extends InMemoryRoleStore {
+      async listGrants(): Promise<never> {
+        throw new Error('database unavailable');
+      }
+    })();
+    const token = { sub: 'user-1', roles: ['user' as const, 'admin' as const], rolesLoadedAt: 0 };
+
+    const refreshed = await refreshTokenRoles(token, false, Date.now(), failing);
+
+    expect(refreshed.roles).toEqual(['user']);
+    expect(refreshed.rolesLoadedAt).toBeUndefined();
+  });
+});
+
+describe('RoleService', () => {
+  let store: InMemoryRoleStore;
+  let auditLog: AuditLog;
+  let service: RoleService;
+
+  beforeEach(() => {
+    store = new InMemoryRoleStore();
+    auditLog = new AuditLog(new InMemoryAuditLogStore());
+    service = new RoleService(store, auditLog);
+  });
+
+  it('grants and revokes the difference and audits the change', async () => {
+    await service.setRoles('user-1', ['professional', 'moderator'], 'admin-1');
+    const change = await service.setRoles('user-1', ['professional', 'content_reviewer'], 'admin-1');
+
+    expect(change).toEqual({ granted: ['content_reviewer'], revoked: ['moderator'] });
+    expect(await loadUserRoles('user-1', store)).toEqual(['user', 'professional', 'content_reviewer']);
+
+    const [entry] = await auditLog.query({ action: 'roles.update' });
+    expect(entry).toMatchObject({
+      actorId: 'admin-1',
+      actorType: 'admin',
+      subjectId: 'user-1',
+      metadata: { granted: ['content_reviewer'], revoked: ['moderator'] },
+    });
+
+    await service.setRoles('user-1', ['professional', 'content_reviewer'], 'admin-1');
+    expect(await auditLog.count({ action: 'roles.update' })).toBe(2);
+  });
+
+  it('refuses roles that cannot be granted and admins revoking their own admin role', async () => {
+    await expect(service.setRoles('user-1', ['user'])).rejects.toThrow(RoleChangeError);
+
+    await service.setRoles('admin-1', ['admin']);
+    await expect(service.setRoles('admin-1', [], 'admin-1')).rejects.toThrow('cannot revoke their own admin role');
+    expect(await loadUserRoles('admin-1', store)).toEqual(['user', 'admin']);
+  });
+});
+
+// The permission each admin area asks for, by its directory under src/app/api/admin
+const ADMIN_AREA_PERMISSIONS: Record<string, Permission> = {
+  'audit-log': 'audit_log.read',
+  'encryption-keys': 'encryption_keys.manage',
+  'escalation-protocols': 'escalation_protocols.manage',
+  knowledge: 'knowledge.manage',
+  moderation: 'community.moderate',
+  retention: 'retention.manage',
+  users: 'roles.manage',
+};
+
+const ADMIN_API = join(__dirname, '../../app/api/admin');
+
+const routeFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? routeFiles(join(dir, entry.name)) : entry.name === 'route.ts' ? [join(dir, entry.name)] : []);
+
+describe('admin routes', () => {
+  const routes = routeFiles(ADMIN_API).map(file => [file.slice(ADMIN_API.length + 1), readFileSync(file, 'utf8')]);
+
+  it('covers every admin area', () => {
+    const areas = new Set(routes.map(([route]) => route.split('/')[0]));
+    expect([...areas].sort()).toEqual(Object.keys(ADMIN_AREA_PERMISSIONS).sort());
+  });
+
+  it.each(routes)('%s checks its permission in every handler before doing anything else', (route, source) => {
+    const permission = ADMIN_AREA_PERMISSIONS[route.split('/')[0]];
+    const handlers = source.split(/^export (?=(?:async function|const) (?:GET|POST|PUT|PATCH|DELETE)\b)/m).slice(1);
+
+    expect(source).not.toMatch(/TODO: Add admin role check/);
+    expect(handlers.length).toBeGreaterThan(0);
+    for (const handler of handlers) {
+      const guard = handler.indexOf(`await requirePermission('${permission}');\n    if (response) return response;`);
+      expect(guard).toBeGreaterThan(-1);
+      expect(handler.slice(0, guard)).not.toMatch(/await (?!requirePermission)/);
+    }
+  });
+});
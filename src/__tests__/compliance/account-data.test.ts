@@ -0,0 +1,163 @@
+/**
+ * Account data requests: exporting everything held about a user, and erasing their account across
+ * every data source once the deletion grace period ends
+ */
+
+import { ProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
+import { AuditLog, InMemoryAuditLogStore } from '@/services/compliance/audit';
+import {
+  ACCOUNT_EXPORT_FORMAT,
+  AccountDataService,
+  InMemoryAccountDeletionStore,
+  UserDataSource,
+} from '@/services/compliance/data-rights';
+import { EmotionDetectionService } from '@/services/emotion/EmotionDetectionService';
+import { EmotionalUXService } from '@/services/ux/EmotionalUXService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stands in for the database: rows per user, and a switch to make erasure fail
+class UserRows implements UserDataSource {
+  readonly name = 'database';
+  rows: Map<string, string[]> = new Map();
+  failErase = false;
+
+  async exportUserData(userId: string) {
+    return { messages: this.rows.get(userId) || [] };
+  }
+
+  async eraseUserData(userId: string) {
+    if (this.failErase) throw new Error('database unavailable');
+    const erased = this.rows.get(userId)?.length ?? 0;
+    this.rows.delete(userId);
+    return erased;
+  }
+}
+
+describe('AccountDataService', () => {
+  let rows: UserRows;
+  let progress: ProgressTrackingService;
+  let emotion: EmotionDetectionService;
+  let ux: EmotionalUXService;
+  let store: InMemoryAccountDeletionStore;
+  let auditLog: AuditLog;
+  let service: AccountDataService;
+
+  beforeEach(async () => {
+    rows = new UserRows();
+    progress = new ProgressTrackingService();
+    emotion = new EmotionDetectionService();
+    ux = new EmotionalUXService(emotion);
+    store = new InMemoryAccountDeletionStore();
+    auditLog = new AuditLog(new InMemoryAuditLogStore());
+    service = new AccountDataService([rows, progress, emotion, ux], store, auditLog, { gracePeriodMs: 7 * DAY_MS });
+
+    for (const userId of ['user-1', 'user-2']) {
+      rows.rows.set(userId, [`hello from ${userId}`, 'feeling better today']);
+      await progress.recordMetric({
+        userId,
+        metricType: 'emotional_wellbeing',
+        value: 0.6,
+        timestamp: new Date(),
+        context: { metadata: {} },
+        confidence: 0.8,
+        source: 'user_input',
+      });
+      await emotion.detectEmotion({
+        userId,
+        sessionId: `session-${userId}`,
+        interactionType: 'chat',
+        content: 'I feel anxious about tomorrow',
+        metadata: {},
+      });
+      await ux.updateUserPreferences(userId, { disableAnimations: true });
+    }
+  });
+
+  it('exports every data source for the user only', async () => {
+    const archive = await service.exportAccount('user-1');
+
+    expect(archive.format).toBe(ACCOUNT_EXPORT_FORMAT);
+    expect(Object.keys(archive.sources)).toEqual(['database', 'progress', 'emotion', 'emotional_ux']);
+    expect(archive.sources.database).toEqual({ messages: ['hello from user-1', 'feeling better today'] });
+    expect(archive.sources.progress).toMatchObject({ metrics: [{ userId: 'user-1', value: 0.6 }] });
+    expect(archive.sources.emotion).toMatchObject({ history: [expect.objectContaining({ primaryEmotion: expect.any(String) })] });
+    expect(archive.sources.emotional_ux).toMatchObject({ preferences: { userId: 'user-1', disableAnimations: true } });
+    expect(JSON.stringify(archive)).not.toContain('user-2');
+  });
+
+  it('schedules erasure after the grace period, once, and lets the user cancel', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    const request = await service.requestDeletion('user-1', 'Moving on', now);
+    expect(request).toMatchObject({ status: 'pending', reason: 'Moving on' });
+    expect(request.scheduledFor.getTime()).toBe(now.getTime() + 7 * DAY_MS);
+
+    const again = await service.requestDeletion('user-1', undefined, new Date(now.getTime() + DAY_MS));
+    expect(again.id).toBe(request.id);
+    expect(again.scheduledFor.getTime()).toBe(request.scheduledFor.getTime());
+
+    const cancelled = await service.cancelDeletion('user-1', new Date(now.getTime() + 2 * DAY_MS));
+    expect(cancelled).toMatchObject({ id: request.id, status: 'cancelled' });
+    expect(await service.cancelDeletion('user-1')).toBeNull();
+
+    expect(await service.processDueDeletions(new Date(now.getTime() + 8 * DAY_MS))).toBe(0);
+    expect(rows.rows.has('user-1')).toBe(true);
+  });
+
+  it('erases every source once the grace period ends and audits the completion', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const request = await service.requestDeletion('user-1', undefined, now);
+
+    expect(await service.processDueDeletions(new Date(now.getTime() + 6 * DAY_MS))).toBe(0);
+    expect(await service.processDueDeletions(new Date(now.getTime() + 7 * DAY_MS))).toBe(1);
+
+    expect(rows.rows.has('user-1')).toBe(false);
+    expect(progress.getUserMetrics('user-1')).toHaveLength(0);
+    expect(emotion.getEmotionHistory('user-1')).toHaveLength(0);
+    expect((await ux.exportUserData('user-1')).preferences).toBeNull();
+
+    // Other users are untouched
+    expect(rows.rows.get('user-2')).toHaveLength(2);
+    expect(progress.getUserMetrics('user-2')).toHaveLength(1);
+    expect(emotion.getEmotionHistory('user-2')).toHaveLength(1);
+
+    const status = await service.getDeletionStatus('user-1');
+    expect(status).toMatchObject({ id: request.id, status: 'completed', attempts: 1 });
+    expect(status!.summary).toMatchObject({ database: 2, progress: 1, emotion: 1 });
+
+    const [entry] = await auditLog.query({ action: 'account.deletion.complete' });
+    expect(entry).toMatchObject({
+      actorType: 'system',
+      resourceType: 'account',
+      resourceId: request.id,
+      subjectId: 'user-1',
+      outcome: 'success',
+    });
+    expect(entry.metadata?.erased).toEqual(status!.summary);
+    expect(await auditLog.verify()).toMatchObject({ valid: true, checked: 1 });
+  });
+
+  it('keeps a failed erasure pending and retries it once the claim expires', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    await service.requestDeletion('user-1', undefined, now);
+    rows.failErase = true;
+
+    const due = new Date(now.getTime() + 7 * DAY_MS);
+    expect(await service.processDueDeletions(due)).toBe(1);
+    expect(await service.getDeletionStatus('user-1')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'database unavailable',
+    });
+    expect(await auditLog.count({})).toBe(0);
+
+    // Still held by the failed attempt's claim
+    expect(await service.processDueDeletions(new Date(due.getTime() + 60_000))).toBe(0);
+
+    rows.failErase = false;
+    expect(await service.processDueDeletions(new Date(due.getTime() + DAY_MS))).toBe(1);
+    expect(await service.getDeletionStatus('user-1')).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(rows.rows.has('user-1')).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Provider API key encryption: envelopes in place of CryptoJS passphrases, startup validation and
+ * the migration of existing rows
+ */
+
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+import { EncryptionService, decryptLegacyApiKey, migrateLegacyApiKeys } from '@/lib/encryption';
+import { EnvValidationError, validateEncryptionEnv } from '@/lib/env-validation';
+import { isSerializedEnvelope, parseSerializedEnvelope, serializeEnvelope } from '@/services/security/EnvelopeEncryption';
+import { InMemoryKeyStore, Keyring } from '@/services/security/keyring';
+import { EncryptedFieldSpec, EncryptedFieldStore } from '@/services/security/field-encryption';
+
+const restoreEnv = (name: string, value: string | undefined) => {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+};
+
+const ANTHROPIC_KEY = `sk-ant-${'a1B2'.repeat(16)}`;
+const OPENAI_KEY = `sk-${'z9Y8'.repeat(13)}`;
+
+// Stands in for the api_keys.encryptedKey column
+class ApiKeyTable implements EncryptedFieldStore {
+  rows: Map<string, string> = new Map();
+
+  async findPlaintext(_spec: EncryptedFieldSpec, limit: number, afterId?: string) {
+    return Array.from(this.rows.entries())
+      .filter(([id, value]) => !isSerializedEnvelope(value) && (!afterId || id > afterId))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(0, limit)
+      .map(([id, value]) => ({ id, value }));
+  }
+
+  async countPlaintext(spec: EncryptedFieldSpec) {
+    return (await this.findPlaintext(spec, Infinity)).length;
+  }
+
+  async findStale() {
+    return [];
+  }
+
+  async countStale() {
+    return 0;
+  }
+
+  async replace(_spec: EncryptedFieldSpec, id: string, previous: unknown, value: string) {
+    if (this.rows.get(id) !== previous) return false;
+    this.rows.set(id, value);
+    return true;
+  }
+}
+
+describe('API key encryption', () => {
+  const originalPassphrase = process.env.ENCRYPTION_KEY;
+  let encryption: EncryptionService;
+
+  beforeEach(() => {
+    const keyring = new Keyring('credentials', new InMemoryKeyStore(), { id: 'master-test', key: crypto.randomBytes(32), status: 'active' });
+    encryption = new EncryptionService(keyring);
+  });
+
+  afterEach(() => {
+    restoreEnv('ENCRYPTION_KEY', originalPassphrase);
+  });
+
+  it('stores keys as versioned, authenticated envelopes', async () => {
+    const encrypted = await encryption.encrypt(ANTHROPIC_KEY);
+
+    expect(encrypted).toMatch(/^enc:v2:credentials-\d+-[0-9a-f]+:/);
+    expect(encrypted).not.toContain(ANTHROPIC_KEY);
+    expect(await encryption.decrypt(encrypted)).toBe(ANTHROPIC_KEY);
+    expect(await encryption.encrypt(ANTHROPIC_KEY)).not.toBe(encrypted);
+  });
+
+  it('rejects a tampered key instead of returning garbage', async () => {
+    const envelope = parseSerializedEnvelope(await encryption.encrypt(ANTHROPIC_KEY));
+    const tampered = serializeEnvelope({ ...envelope, ciphertext: Buffer.from('sk-ant-forged').toString('base64') });
+
+    await expect(encryption.decrypt(tampered)).rejects.toThrow('Envelope failed authentication');
+  });
+
+  it('still reads keys in the old CryptoJS format, under ENCRYPTION_KEY or the old fallback', async () => {
+    process.env.ENCRYPTION_KEY = 'an-old-passphrase';
+    const underPassphrase = CryptoJS.AES.encrypt(OPENAI_KEY, 'an-old-passphrase').toString();
+    const underFallback = CryptoJS.AES.encrypt(ANTHROPIC_KEY, 'fallback-key-change-in-production').toString();
+
+    expect(await encryption.decrypt(underPassphrase)).toBe(OPENAI_KEY);
+    expect(await encryption.decrypt(underFallback)).toBe(ANTHROPIC_KEY);
+    expect(decryptLegacyApiKey(CryptoJS.AES.encrypt(OPENAI_KEY, 'some-other-passphrase').toString())).toBeNull();
+  });
+
+  it('migrates legacy rows and leaves unreadable ones for another run', async () => {
+    process.env.ENCRYPTION_KEY = 'an-old-passphrase';
+    const table = new ApiKeyTable();
+    table.rows.set('key-1', CryptoJS.AES.encrypt(OPENAI_KEY, 'an-old-passphrase').toString());
+    table.rows.set('key-2', CryptoJS.AES.encrypt(ANTHROPIC_KEY, 'fallback-key-change-in-production').toString());
+    table.rows.set('key-3', CryptoJS.AES.encrypt(OPENAI_KEY, 'a-lost-passphrase').toString());
+    table.rows.set('key-4', await encryption.encrypt(ANTHROPIC_KEY));
+
+    expect(await migrateLegacyApiKeys({ dryRun: true }, table, encryption)).toEqual({ pending: 3, migrated: 0, skipped: 0, failed: 0 });
+    expect(await migrateLegacyApiKeys({ batchSize: 1 }, table, encryption)).toEqual({ pending: 3, migrated: 2, skipped: 0, failed: 1 });
+
+    expect(await encryption.decrypt(table.rows.get('key-1')!)).toBe(OPENAI_KEY);
+    expect(await encryption.decrypt(table.rows.get('key-2')!)).toBe(ANTHROPIC_KEY);
+    expect(isSerializedEnvelope(table.rows.get('key-3'))).toBe(false);
+  });
+});
+
+describe('validateEncryptionEnv', () => {
+  const original = { masterKey: process.env.ENCRYPTION_MASTER_KEY, nodeEnv: process.env.NODE_ENV };
+  const env = process.env as Record<string, string | undefined>;
+
+  afterEach(() => {
+    restoreEnv('ENCRYPTION_MASTER_KEY', original.masterKey);
+    env.NODE_ENV = original.nodeEnv;
+  });
+
+  it('fails startup in production without a master key', () => {
+    delete process.env.ENCRYPTION_MASTER_KEY;
+    env.NODE_ENV = 'production';
+
+    expect(() => validateEncryptionEnv()).toThrow(EnvValidationError);
+    expect(() => validateEncryptionEnv()).toThrow('ENCRYPTION_MASTER_KEY must be set in production');
+  });
+
+  it('rejects a malformed master key anywhere', () => {
+    process.env.ENCRYPTION_MASTER_KEY = 'change-me';
+
+    expect(() => validateEncryptionEnv()).toThrow('ENCRYPTION_MASTER_KEY must be a 32-byte key');
+  });
+
+  it('accepts a 32-byte key, or no key outside production', () => {
+    process.env.ENCRYPTION_MASTER_KEY = EncryptionService.generateEncryptionKey();
+    env.NODE_ENV = 'production';
+    expect(() => validateEncryptionEnv()).not.toThrow();
+
+    delete process.env.ENCRYPTION_MASTER_KEY;
+    env.NODE_ENV = 'test';
+    expect(() => validateEncryptionEnv()).not.toThrow();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * PHI access audit log: hash chaining, tamper detection, queries and exports, and the stores that
+ * write to it
+ */
+
+import crypto from 'crypto';
+import {
+  AuditEntry,
+  AuditEvent,
+  AuditLog,
+  AuditLogStore,
+  AuditQuery,
+  GENESIS_HASH,
+  hashAuditEntry,
+  InMemoryAuditLogStore,
+} from '@/services/compliance/audit';
+import { HIPAAComplianceService } from '@/services/compliance/HIPAAComplianceService';
+import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+import { InMemoryKeyStore, Keyring } from '@/services/security/keyring';
+
+// Stands in for the audit_log table, with rows open to tampering. Reads reverse metadata key order,
+// as jsonb is free to.
+class AuditTable implements AuditLogStore {
+  rows: AuditEntry[] = [];
+
+  async append(build: (last: AuditEntry | null) => AuditEntry) {
+    const entry = build(this.rows[this.rows.length - 1] ?? null);
+    this.rows.push(structuredClone(entry));
+    return entry;
+  }
+
+  async query(query: AuditQuery) {
+    return this.rows
+      .filter(row => !query.actorId || row.actorId === query.actorId)
+      .filter(row => query.before === undefined || row.sequence < query.before)
+      .reverse()
+      .slice(0, query.limit ?? 100)
+      .map(row => this.read(row));
+  }
+
+  async count() {
+    return this.rows.length;
+  }
+
+  async range(fromSequence: number, limit: number) {
+    return this.rows.filter(row => row.sequence >= fromSequence).slice(0, limit).map(row => this.read(row));
+  }
+
+  async last() {
+    const row = this.rows[this.rows.length - 1];
+    return row ? this.read(row) : null;
+  }
+
+  private read(row: AuditEntry): AuditEntry {
+    const copy = structuredClone(row);
+    if (copy.metadata) {
+      copy.metadata = Object.fromEntries(Object.entries(copy.metadata).reverse());
+    }
+    return copy;
+  }
+}
+
+const chatAccess = (actorId: string, subjectId: string = actorId): AuditEvent => ({
+  actorId,
+  actorType: 'user',
+  action: 'chat.message.create',
+  resourceType: 'conversation',
+  resourceId: `conversation-${subjectId}`,
+  subjectId,
+  purpose: 'treatment',
+  outcome: 'success',
+  metadata: { method: 'POST', path: '/api/chat' },
+});
+
+describe('AuditLog', () => {
+  let table: AuditTable;
+  let log: AuditLog;
+
+  beforeEach(async () => {
+    table = new AuditTable();
+    log = new AuditLog(table);
+
+    for (const user of ['user-1', 'user-2', 'user-3', 'user-4']) {
+      await log.record(chatAccess(user));
+    }
+  });
+
+  it('chains each entry to the one before it', async () => {
+    const [first, second] = table.rows;
+
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(second.sequence).toBe(2);
+    expect(second.previousHash).toBe(first.hash);
+
+    expect(await log.verify()).toEqual({
+      valid: true,
+      checked: 4,
+      fromSequence: 1,
+      headSequence: 4,
+      headHash: table.rows[3].hash,
+    });
+    expect(await log.verify(3)).toMatchObject({ valid: true, checked: 2, headSequence: 4 });
+  });
+
+  it('catches an edited entry', async () => {
+    table.rows[1].subjectId = 'someone-else';
+
+    expect(await log.verify()).toMatchObject({ valid: false, checked: 1, break: { sequence: 2, reason: 'hash_mismatch' } });
+  });
+
+  it('catches an edited entry whose hash was recomputed, at the entry after it', async () => {
+    const edited = { ...table.rows[1], outcome: 'denied' as const };
+    table.rows[1] = { ...edited, hash: hashAuditEntry(edited) };
+
+    expect(await log.verify()).toMatchObject({ valid: false, break: { sequence: 3, reason: 'previous_hash_mismatch' } });
+  });
+
+  it('catches a deleted entry', async () => {
+    table.rows.splice(2, 1);
+
+    expect(await log.verify()).toMatchObject({ valid: false, checked: 2, break: { sequence: 3, reason: 'sequence_gap' } });
+  });
+
+  it('keeps a valid chain when appends race', async () => {
+    const store = new InMemoryAuditLogStore();
+    const racing = new AuditLog(store);
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => racing.record(chatAccess(`user-${i}`))));
+
+    expect(await racing.verify()).toMatchObject({ valid: true, checked: 20 });
+  });
+
+  it('pages newest first and exports oldest first with hashes', async () => {
+    await log.record({ ...chatAccess('user-5'), userAgent: 'Browser "quoted", with comma' });
+
+    const page = await log.query({ limit: 2 });
+    expect(page.map(entry => entry.sequence)).toEqual([5, 4]);
+    expect((await log.query({ before: 4, limit: 2 })).map(entry => entry.sequence)).toEqual([3, 2]);
+
+    const csv = (await log.export({}, 'csv')).trim().split('\n');
+    expect(csv[0]).toBe('sequence,occurredAt,actorId,actorType,action,resourceType,resourceId,subjectId,purpose,outcome,ipAddress,userAgent,metadata,previousHash,hash');
+    expect(csv).toHaveLength(6);
+    expect(csv[1].startsWith(`1,${table.rows[0].occurredAt.toISOString()},user-1,user,chat.message.create`)).toBe(true);
+    expect(csv[5]).toContain('"Browser ""quoted"", with comma"');
+    expect(csv[5].endsWith(table.rows[4].hash)).toBe(true);
+
+    const json = JSON.parse(await log.export({ actorId: 'user-2' }, 'json'));
+    expect(json).toHaveLength(1);
+    expect(json[0]).toMatchObject({ sequence: 2, hash: table.rows[1].hash, previousHash: table.rows[0].hash });
+  });
+});
+
+describe('audit log consumers', () => {
+  let log: AuditLog;
+
+  beforeEach(() => {
+    log = new AuditLog(new InMemoryAuditLogStore());
+  });
+
+  it('persists secure communication audit entries beyond the service instance', async () => {
+    const keyring = new Keyring('communication', new InMemoryKeyStore(), {
+      id: 'master-test',
+      key: crypto.randomBytes(32),
+      status: 'active',
+    });
+    const service = new SecureCommunicationService(keyring, log);
+
+    const channel = await service.createCommunicationChannel('prof-1', 'user-1', 'crisis-1', 'escalation-1');
+    await service.sendMessage(channel.id, 'user-1', 'user', 'I need to talk to someone');
+
+    const restarted = new SecureCommunicationService(keyring, log);
+    const audit = await restarted.getChannelAudit(channel.id);
+
+    expect(audit.map(entry => entry.action)).toEqual(['channel_created', 'message_sent']);
+    expect(audit[1]).toMatchObject({ actorId: 'user-1', actorType: 'user' });
+    expect(await log.query({ resourceId: channel.id })).toEqual(
+      expect.arrayContaining([expect.objectContaining({ subjectId: 'user-1', purpose: 'crisis_response' })])
+    );
+  });
+
+  it('reports audit coverage and chain integrity in the compliance report', async () => {
+    const now = Date.now();
+    await log.record(chatAccess('user-1'), new Date(now - 60_000));
+    await log.record({ ...chatAccess('user-2', 'user-1'), outcome: 'denied' }, new Date(now - 30_000));
+
+    const report = await new HIPAAComplianceService(log)
+      .generateComplianceReport(new Date(now - 3_600_000), new Date(now), 'admin-1');
+    const audit = report.sections.find(section => section.category === 'audit')!;
+
+    expect(audit.findings.map(finding => [finding.rule, finding.status])).toEqual([
+      ['164.312(b)', 'pass'],
+      ['164.312(c)(1)', 'pass'],
+      ['164.308(a)(1)(ii)(D)', 'warning'],
+    ]);
+    expect(audit.findings[0].evidence).toBe('2 entries in the period, 1 denied and 0 failed');
+  });
+});
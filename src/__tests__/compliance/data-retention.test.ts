@@ -0,0 +1,218 @@
+/**
+ * Data retention: policy configuration, purging expired records in batches, legal holds on escalated
+ * crisis records, dry runs, and purge results in the compliance report
+ */
+
+import { AuditLog, InMemoryAuditLogStore } from '@/services/compliance/audit';
+import { HIPAAComplianceService } from '@/services/compliance/HIPAAComplianceService';
+import {
+  DEFAULT_RETENTION_POLICIES,
+  ExpiredRecordCount,
+  LegalHolds,
+  resolveRetentionPolicies,
+  RetentionJob,
+  RetentionModel,
+  RetentionPolicy,
+  RetentionStore,
+} from '@/services/compliance/retention';
+import { NotificationDispatcher } from '@/services/notifications';
+import { SafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { InMemoryEscalationStore } from '@/services/safety/escalation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+interface Row {
+  id: string;
+  model: RetentionModel;
+  at: Date;
+  assessmentId?: string; // The assessment itself, or one raised in the message's conversation
+  anonymized?: boolean;
+}
+
+const isHeld = (row: Row, holds: LegalHolds) =>
+  row.assessmentId !== undefined && holds.crisisAssessmentIds.includes(row.assessmentId);
+
+// Stands in for the tables, with a switch to make one model's purge fail
+class Tables implements RetentionStore {
+  rows: Row[] = [];
+  purgeCalls = 0;
+  failing?: RetentionModel;
+
+  add(model: RetentionModel, ageDays: number, count: number, extra: Partial<Row> = {}) {
+    for (let i = 0; i < count; i++) {
+      this.rows.push({ id: `${model}-${this.rows.length}`, model, at: new Date(NOW.getTime() - ageDays * DAY_MS), ...extra });
+    }
+  }
+
+  async countExpired(policy: RetentionPolicy, cutoff: Date, holds: LegalHolds): Promise<ExpiredRecordCount> {
+    const expired = this.expired(policy, cutoff);
+    const held = expired.filter(row => isHeld(row, holds)).length;
+    return { eligible: expired.length - held, held };
+  }
+
+  async purgeExpired(policy: RetentionPolicy, cutoff: Date, limit: number, holds: LegalHolds) {
+    this.purgeCalls++;
+    if (policy.model === this.failing) throw new Error(`${policy.model} table locked`);
+
+    const batch = this.expired(policy, cutoff).filter(row => !isHeld(row, holds)).slice(0, limit);
+    for (const row of batch) {
+      if (policy.action === 'anonymize') row.anonymized = true;
+      else this.rows.splice(this.rows.indexOf(row), 1);
+    }
+    return batch.length;
+  }
+
+  count(model: RetentionModel) {
+    return this.rows.filter(row => row.model === model).length;
+  }
+
+  private expired(policy: RetentionPolicy, cutoff: Date) {
+    return this.rows.filter(row => row.model === policy.model && row.at < cutoff && !row.anonymized);
+  }
+}
+
+describe('retention policies', () => {
+  it('applies overrides per model over the defaults', () => {
+    const policies = resolveRetentionPolicies('{"Message":{"retentionDays":365},"Session":{"enabled":false}}');
+
+    expect(policies).toHaveLength(DEFAULT_RETENTION_POLICIES.length);
+    expect(policies.find(policy => policy.model === 'Message')).toMatchObject({ retentionDays: 365, action: 'delete' });
+    expect(policies.find(policy => policy.model === 'Session')).toMatchObject({ enabled: false });
+    expect(resolveRetentionPolicies(undefined)).toEqual(DEFAULT_RETENTION_POLICIES);
+  });
+
+  it('rejects unknown models, bad periods and anonymizing what can only be deleted', () => {
+    expect(() => resolveRetentionPolicies('not json')).toThrow('JSON object');
+    expect(() => resolveRetentionPolicies('{"AuditLog":{"retentionDays":1}}')).toThrow('unknown model AuditLog');
+    expect(() => resolveRetentionPolicies('{"Message":{"retentionDays":-1}}')).toThrow('non-negative');
+    expect(() => resolveRetentionPolicies('{"Message":{"action":"anonymize"}}')).toThrow('can only be deleted');
+  });
+});
+
+describe('RetentionJob', () => {
+  let tables: Tables;
+  let escalations: InMemoryEscalationStore;
+  let auditLog: AuditLog;
+  let job: RetentionJob;
+
+  const escalate = (assessmentId: string) =>
+    new SafetyEscalationService(undefined, undefined, new NotificationDispatcher([]), {}, escalations)
+      .evaluateEscalation('user-1', 'session-1', {
+        id: assessmentId,
+        severity: 'critical',
+        confidence: 0.95,
+        indicators: { suicideIdeation: true },
+        riskFactors: [],
+      });
+
+  beforeEach(async () => {
+    tables = new Tables();
+    escalations = new InMemoryEscalationStore();
+    auditLog = new AuditLog(new InMemoryAuditLogStore());
+    job = new RetentionJob(resolveRetentionPolicies(undefined), tables, escalations, auditLog, { batchSize: 2 });
+
+    expect(await escalate('assessment-escalated')).not.toBeNull();
+
+    tables.add('Message', 800, 5, { assessmentId: 'assessment-calm' }); // Assessed, never escalated
+    tables.add('Message', 800, 2, { assessmentId: 'assessment-escalated' });
+    tables.add('Message', 10, 3);
+    tables.add('ContentAccess', 120, 3);
+    tables.add('ContentAccess', 30, 1);
+    tables.add('CrisisAssessment', 2500, 1, { assessmentId: 'assessment-calm' });
+    tables.add('CrisisAssessment', 2500, 1, { assessmentId: 'assessment-escalated' });
+    tables.add('Session', 1, 2);
+    tables.add('Session', -1, 1); // Not expired yet
+  });
+
+  it('reports what would be purged on a dry run without purging', async () => {
+    const run = await job.run({ dryRun: true }, NOW);
+
+    expect(tables.purgeCalls).toBe(0);
+    expect(run.dryRun).toBe(true);
+    expect(run.results.map(result => [result.model, result.eligible, result.held, result.purged])).toEqual([
+      ['Message', 5, 2, 0],
+      ['ContentAccess', 3, 0, 0],
+      ['CrisisAssessment', 1, 1, 0],
+      ['Session', 2, 0, 0],
+      ['VerificationToken', 0, 0, 0],
+    ]);
+    expect(run.results[0].cutoff.getTime()).toBe(NOW.getTime() - 730 * DAY_MS);
+
+    const [entry] = await auditLog.query({ action: 'retention.dry_run' });
+    expect(entry).toMatchObject({ actorType: 'system', purpose: 'compliance', outcome: 'success' });
+  });
+
+  it('purges expired records in batches and keeps those under legal hold', async () => {
+    const run = await job.run({ requestedBy: 'admin-1' }, NOW);
+
+    expect(run.results.find(result => result.model === 'Message')).toMatchObject({ purged: 5, held: 2 });
+    expect(tables.count('Message')).toBe(5); // Two held, three recent
+    expect(tables.rows.filter(row => row.model === 'Message' && row.assessmentId === 'assessment-escalated')).toHaveLength(2);
+
+    // Anonymized, not deleted
+    expect(tables.count('ContentAccess')).toBe(4);
+    expect(tables.rows.filter(row => row.anonymized)).toHaveLength(3);
+
+    expect(tables.rows.filter(row => row.model === 'CrisisAssessment'))
+      .toEqual([expect.objectContaining({ assessmentId: 'assessment-escalated' })]);
+    expect(tables.count('Session')).toBe(1);
+
+    const [entry] = await auditLog.query({ action: 'retention.purge' });
+    expect(entry).toMatchObject({ actorId: 'admin-1', actorType: 'user', outcome: 'success' });
+  });
+
+  it('keeps purging other models when one fails, and records the failure', async () => {
+    tables.failing = 'ContentAccess';
+
+    const run = await job.run({}, NOW);
+
+    expect(run.results.find(result => result.model === 'ContentAccess')).toMatchObject({
+      purged: 0,
+      error: 'ContentAccess table locked',
+    });
+    expect(tables.count('Session')).toBe(1);
+    expect((await auditLog.query({ action: 'retention.purge' }))[0].outcome).toBe('failure');
+  });
+
+  it('holds an assessment and its conversation once an escalation starts for it', async () => {
+    const before = await job.run({ dryRun: true }, NOW);
+    await escalate('assessment-calm');
+
+    const run = await job.run({}, NOW);
+
+    expect(before.results.find(result => result.model === 'Message')).toMatchObject({ eligible: 5, held: 2 });
+    expect(run.results.find(result => result.model === 'Message')).toMatchObject({ eligible: 0, held: 7, purged: 0 });
+    expect(run.results.find(result => result.model === 'CrisisAssessment')).toMatchObject({ held: 2, purged: 0 });
+    expect(tables.count('Message')).toBe(10);
+  });
+
+  it('skips disabled policies', async () => {
+    const policies = resolveRetentionPolicies('{"Message":{"enabled":false}}');
+    const run = await new RetentionJob(policies, tables, escalations, auditLog).run({}, NOW);
+
+    expect(run.results.map(result => result.model)).not.toContain('Message');
+    expect(tables.count('Message')).toBe(10);
+  });
+
+  it('feeds purge results into the compliance report', async () => {
+    const service = new HIPAAComplianceService(auditLog);
+    const period = [new Date(Date.now() - DAY_MS), new Date(Date.now() + DAY_MS)] as const;
+
+    const before = await service.generateComplianceReport(period[0], period[1], 'admin-1');
+    expect(before.sections.find(section => section.category === 'data_retention')!.findings[0])
+      .toMatchObject({ status: 'fail', description: 'No retention purge ran in the period' });
+
+    await job.run({}, NOW);
+
+    const report = await service.generateComplianceReport(period[0], period[1], 'admin-1');
+    const retention = report.sections.find(section => section.category === 'data_retention')!;
+
+    expect(retention.findings.map(finding => [finding.rule, finding.status])).toEqual([
+      ['164.310(d)(2)(i)', 'pass'],
+      ['164.316(b)(2)(i)', 'pass'],
+    ]);
+    expect(retention.findings[0].evidence).toBe('1 purge runs in the period, 11 records purged');
+    expect(retention.findings[1].evidence).toBe('3 expired records held back in the latest purge');
+  });
+});
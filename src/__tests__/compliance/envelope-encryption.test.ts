@@ -0,0 +1,212 @@
+/**
+ * Envelope encryption: per-record data keys, stored AAD, key wrapping and migration from createCipher
+ */
+
+import crypto from 'crypto';
+import {
+  EnvelopeDecryptionError,
+  EnvelopeEncryption,
+  KeyProvider,
+  WrappingKey,
+  getMasterKeyFromEnv,
+} from '@/services/security/EnvelopeEncryption';
+import { EncryptedData, EncryptionService } from '@/services/security/EncryptionService';
+import { InMemoryKeyStore, Keyring } from '@/services/security/keyring';
+import { CommunicationMessage, SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+
+class TestKeys implements KeyProvider {
+  keys = new Map<string, WrappingKey>();
+  activeId = '';
+
+  add(id: string): WrappingKey {
+    this.keys.forEach(key => { if (key.status === 'active') key.status = 'retired'; });
+    const key: WrappingKey = { id, key: crypto.randomBytes(32), status: 'active' };
+    this.keys.set(id, key);
+    this.activeId = id;
+    return key;
+  }
+
+  async activeKey() {
+    return this.keys.get(this.activeId)!;
+  }
+
+  async key(id: string) {
+    return this.keys.get(id) || null;
+  }
+}
+
+const restoreEnv = (name: string, value: string | undefined) => {
+  if (value === undefined) delete process.env[name];
+  else process.env[name] = value;
+};
+
+// What the old services wrote: createCipher derived its own key and nonce, so `iv` was never used
+const legacyEncrypt = (password: Buffer, data: string, aad?: string) => {
+  const cipher = crypto.createCipher('aes-256-gcm', password);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+  const ciphertext = cipher.update(data, 'utf8', 'hex') + cipher.final('hex');
+  return { ciphertext, iv: crypto.randomBytes(16).toString('hex'), tag: cipher.getAuthTag().toString('hex') };
+};
+
+describe('EnvelopeEncryption', () => {
+  let keys: TestKeys;
+  let envelopes: EnvelopeEncryption;
+
+  beforeEach(() => {
+    keys = new TestKeys();
+    keys.add('kek-1');
+    envelopes = new EnvelopeEncryption(keys);
+  });
+
+  it('encrypts each record under its own data key and nonce', async () => {
+    const first = await envelopes.encrypt('same plaintext', 'record:1');
+    const second = await envelopes.encrypt('same plaintext', 'record:1');
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first).toEqual(expect.objectContaining({ version: 2, keyId: 'kek-1', aad: 'record:1' }));
+    expect(await envelopes.decryptString(first, 'record:1')).toBe('same plaintext');
+  });
+
+  it('rejects tampered AAD, ciphertext and wrapped keys', async () => {
+    const envelope = await envelopes.encrypt('sensitive', 'record:1');
+    const flipped = (base64: string) => {
+      const bytes = Buffer.from(base64, 'base64');
+      bytes[bytes.length - 1] ^= 1;
+      return bytes.toString('base64');
+    };
+
+    await expect(envelopes.decrypt(envelope, 'record:2')).rejects.toBeInstanceOf(EnvelopeDecryptionError);
+    await expect(envelopes.decrypt({ ...envelope, aad: 'record:2' })).rejects.toThrow('Envelope failed authentication');
+    await expect(envelopes.decrypt({ ...envelope, ciphertext: flipped(envelope.ciphertext) })).rejects.toThrow('Envelope failed authentication');
+    await expect(envelopes.decrypt({ ...envelope, wrappedKey: flipped(envelope.wrappedKey) })).rejects.toThrow('Wrapped data key failed authentication');
+  });
+
+  it('re-wraps data keys after rotation and re-encrypts under a compromised key', async () => {
+    const envelope = await envelopes.encrypt('sensitive', 'record:1');
+    keys.add('kek-2');
+
+    const rewrapped = await envelopes.rewrap(envelope);
+    expect(rewrapped.keyId).toBe('kek-2');
+    expect(rewrapped.ciphertext).toBe(envelope.ciphertext);
+
+    keys.keys.get('kek-1')!.status = 'compromised';
+    await expect(envelopes.decrypt(envelope)).rejects.toThrow('has been compromised');
+
+    const reencrypted = await envelopes.rewrap(envelope);
+    expect(reencrypted.keyId).toBe('kek-2');
+    expect(reencrypted.ciphertext).not.toBe(envelope.ciphertext);
+    expect(await envelopes.decryptString(reencrypted, 'record:1')).toBe('sensitive');
+  });
+});
+
+describe('getMasterKeyFromEnv', () => {
+  const original = process.env.ENCRYPTION_MASTER_KEY;
+  afterEach(() => {
+    restoreEnv('ENCRYPTION_MASTER_KEY', original);
+  });
+
+  it('accepts base64 or hex and names the key by its fingerprint', () => {
+    const key = crypto.randomBytes(32);
+
+    process.env.ENCRYPTION_MASTER_KEY = key.toString('base64');
+    const fromBase64 = getMasterKeyFromEnv();
+    process.env.ENCRYPTION_MASTER_KEY = key.toString('hex');
+    const fromHex = getMasterKeyFromEnv();
+
+    expect(fromBase64.key.equals(key)).toBe(true);
+    expect(fromHex.id).toBe(fromBase64.id);
+    expect(fromHex.id).toMatch(/^master-[0-9a-f]{12}$/);
+  });
+
+  it('rejects keys of the wrong length', () => {
+    process.env.ENCRYPTION_MASTER_KEY = crypto.randomBytes(16).toString('base64');
+
+    expect(() => getMasterKeyFromEnv()).toThrow('ENCRYPTION_MASTER_KEY must be a 32-byte key');
+  });
+});
+
+const testKeyring = (domain: 'data' | 'communication') => new Keyring(
+  domain,
+  new InMemoryKeyStore(),
+  { id: 'master-test', key: crypto.randomBytes(32), status: 'active' }
+);
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+
+  beforeEach(() => {
+    service = new EncryptionService(testKeyring('data'));
+  });
+  afterEach(() => {
+    delete process.env.LEGACY_ENCRYPTION_KEYS;
+  });
+
+  it('decrypts every classification, not just PHI', async () => {
+    for (const dataType of ['medical_history', 'user_profile', 'audit_log']) {
+      const classification = await service.getDataClassification(dataType);
+      const encrypted = await service.encryptData(`${dataType} value`, classification);
+
+      expect(encrypted.aad).toBe(JSON.stringify({ classification: classification.level }));
+      expect(await service.decryptData(encrypted)).toBe(`${dataType} value`);
+    }
+  });
+
+  it('migrates records written with createCipher, keeping their classification', async () => {
+    const legacyKey = crypto.randomBytes(32);
+    process.env.LEGACY_ENCRYPTION_KEYS = JSON.stringify({ 'key-1700000000000': legacyKey.toString('hex') });
+
+    const encryptedAt = new Date();
+    const legacy: EncryptedData = {
+      ...legacyEncrypt(legacyKey, 'old record', JSON.stringify({ classification: 'restricted', timestamp: encryptedAt.getTime() - 3 })),
+      keyId: 'key-1700000000000',
+      algorithm: 'aes-256-gcm',
+      encryptedAt,
+    };
+
+    expect(await service.decryptData(legacy)).toBe('old record');
+
+    const migrated = await service.migrateLegacyData(legacy);
+    expect(migrated.wrappedKey).toBeDefined();
+    expect(migrated.aad).toBe(JSON.stringify({ classification: 'restricted' }));
+    expect(await service.decryptData(migrated)).toBe('old record');
+    expect(await service.migrateLegacyData(migrated)).toBe(migrated);
+  });
+});
+
+describe('SecureCommunicationService', () => {
+  afterEach(() => {
+    delete process.env.LEGACY_ENCRYPTION_KEYS;
+  });
+
+  it('binds messages to their channel', async () => {
+    const service = new SecureCommunicationService(testKeyring('communication'));
+    const channel = await service.createCommunicationChannel('prof-1', 'user-1', 'crisis-1', 'escalation-1');
+    const message = await service.sendMessage(channel.id, 'user-1', 'user', 'hello');
+
+    expect(await service.decryptMessage(message)).toBe('hello');
+    await expect(service.decryptMessage({ ...message, channelId: 'channel-other' })).rejects.toThrow('Failed to decrypt message content');
+  });
+
+  it('migrates messages written with createCipher', async () => {
+    const legacyKey = crypto.randomBytes(32);
+    process.env.LEGACY_ENCRYPTION_KEYS = JSON.stringify({ 'key-1700000000000': legacyKey.toString('base64') });
+    const service = new SecureCommunicationService(testKeyring('communication'));
+    const message: CommunicationMessage = {
+      id: 'msg-1',
+      channelId: 'channel-1',
+      senderId: 'user-1',
+      senderType: 'user',
+      content: { ...legacyEncrypt(legacyKey, 'old message'), keyId: 'key-1700000000000' },
+      timestamp: new Date(),
+      messageType: 'text',
+      metadata: { priority: 'normal', requiresAcknowledgment: false },
+    };
+
+    const migrated = await service.migrateLegacyMessage(message);
+
+    expect(migrated.content.wrappedKey).toBeDefined();
+    expect(await service.decryptMessage(migrated)).toBe('old message');
+  });
+});
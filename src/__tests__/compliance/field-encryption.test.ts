@@ -0,0 +1,249 @@
+/**
+ * Field-level encryption through the Prisma client extension, blind indexes and the backfill
+ */
+
+import crypto from 'crypto';
+import { WrappingKey, isSerializedEnvelope } from '@/services/security/EnvelopeEncryption';
+import { InMemoryKeyStore, Keyring, ReEncryptionJob } from '@/services/security/keyring';
+import {
+  ENCRYPTED_FIELDS,
+  EncryptedFieldQueryError,
+  EncryptedFieldRow,
+  EncryptedFieldSource,
+  EncryptedFieldSpec,
+  EncryptedFieldStore,
+  FieldEncryption,
+  backfillEncryptedFields,
+  fieldContext,
+} from '@/services/security/field-encryption';
+
+type Row = Record<string, unknown>;
+
+const spec = (name: string) => ENCRYPTED_FIELDS.find(candidate => fieldContext(candidate) === name)!;
+
+// Stands in for the encrypted columns, holding values exactly as stored
+class FieldTable implements EncryptedFieldStore {
+  rows: Map<string, Map<string, unknown>> = new Map();
+  indexes: Map<string, string> = new Map();
+
+  set(spec: EncryptedFieldSpec, id: string, value: unknown) {
+    if (!this.rows.has(fieldContext(spec))) this.rows.set(fieldContext(spec), new Map());
+    this.rows.get(fieldContext(spec))!.set(id, value);
+  }
+
+  get(spec: EncryptedFieldSpec, id: string): unknown {
+    return this.rows.get(fieldContext(spec))?.get(id);
+  }
+
+  private entries(spec: EncryptedFieldSpec): EncryptedFieldRow[] {
+    return Array.from(this.rows.get(fieldContext(spec))?.entries() ?? [])
+      .map(([id, value]) => ({ id, value }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async findPlaintext(spec: EncryptedFieldSpec, limit: number, afterId?: string) {
+    return this.entries(spec)
+      .filter(row => row.value !== null && !isSerializedEnvelope(row.value) && (!afterId || row.id > afterId))
+      .slice(0, limit);
+  }
+
+  async countPlaintext(spec: EncryptedFieldSpec) {
+    return (await this.findPlaintext(spec, Infinity)).length;
+  }
+
+  async findStale(spec: EncryptedFieldSpec, currentPrefix: string, limit: number) {
+    return this.entries(spec)
+      .filter(row => isSerializedEnvelope(row.value) && !row.value.startsWith(currentPrefix))
+      .slice(0, limit);
+  }
+
+  async countStale(spec: EncryptedFieldSpec, currentPrefix: string) {
+    return (await this.findStale(spec, currentPrefix, Infinity)).length;
+  }
+
+  async replace(spec: EncryptedFieldSpec, id: string, previous: unknown, value: string, blindIndex?: string) {
+    if (JSON.stringify(this.get(spec, id)) !== JSON.stringify(previous)) return false;
+    this.set(spec, id, value);
+    if (blindIndex) this.indexes.set(id, blindIndex);
+    return true;
+  }
+}
+
+describe('FieldEncryption', () => {
+  let master: WrappingKey;
+  let keyring: Keyring;
+  let encryption: FieldEncryption;
+
+  // Echoes a write back as the stored row, recording what reached the database
+  const written: Row[] = [];
+  const store = async (args: unknown) => {
+    const { data } = args as { data: Row };
+    written.push(data);
+    return { id: 'row-1', ...data };
+  };
+
+  beforeEach(() => {
+    written.length = 0;
+    master = { id: 'master-test', key: crypto.randomBytes(32), status: 'active' };
+    keyring = new Keyring('data', new InMemoryKeyStore(), master);
+    encryption = new FieldEncryption(keyring, crypto.randomBytes(32));
+  });
+
+  it('encrypts message content on write with a blind index, and decrypts it on read', async () => {
+    const message = await encryption.run('Message', 'create', {
+      data: { conversationId: 'conv-1', role: 'user', content: 'I have not been sleeping' },
+    }, store);
+
+    expect(written[0].content).toMatch(/^enc:v2:data-/);
+    expect(written[0].content).not.toContain('sleeping');
+    expect(written[0].contentIndex).toBe(encryption.blindIndex(spec('Message.content'), 'I have not been sleeping'));
+    expect(message).toEqual(expect.objectContaining({ content: 'I have not been sleeping', conversationId: 'conv-1' }));
+  });
+
+  it('follows nested writes and included relations', async () => {
+    await encryption.run('Conversation', 'create', {
+      data: {
+        userId: 'user-1',
+        messages: { create: [{ role: 'user', content: 'first' }, { role: 'assistant', content: 'second' }] },
+        crisisAssessments: { update: { where: { id: 'ca-1' }, data: { reviewNotes: 'Spoke with the user' } } },
+      },
+    }, store);
+
+    const { messages, crisisAssessments } = written[0] as { messages: { create: Row[] }; crisisAssessments: { update: { data: Row } } };
+    expect(messages.create.every(message => isSerializedEnvelope(message.content))).toBe(true);
+    expect(isSerializedEnvelope(crisisAssessments.update.data.reviewNotes)).toBe(true);
+
+    const stored = {
+      id: 'conv-1',
+      messages: messages.create.map((message, i) => ({ id: `msg-${i}`, ...message })),
+    };
+    const conversation = await encryption.run('Conversation', 'findFirst', {
+      where: { id: 'conv-1' },
+      include: { messages: true },
+    }, async () => stored) as { messages: Row[] };
+
+    expect(conversation.messages.map(message => message.content)).toEqual(['first', 'second']);
+  });
+
+  it('round-trips JSON fields and leaves nulls alone', async () => {
+    const patterns = { commonTopics: ['sleep', 'work'], emotionalTone: 'anxious' };
+
+    const preferences = await encryption.run('UserPreferences', 'update', {
+      where: { userId: 'user-1' },
+      data: { conversationPatterns: patterns },
+    }, store);
+    expect(isSerializedEnvelope(written[0].conversationPatterns)).toBe(true);
+    expect(preferences).toEqual(expect.objectContaining({ conversationPatterns: patterns }));
+
+    await encryption.run('CrisisAssessment', 'update', { where: { id: 'ca-1' }, data: { escalationNotes: null } }, store);
+    expect(written[1].escalationNotes).toBeNull();
+  });
+
+  it('reads rows written before encryption as they are', async () => {
+    const row = await encryption.run('Message', 'findUnique', { where: { id: 'msg-1' } }, async () => ({
+      id: 'msg-1',
+      content: 'written before the backfill',
+    }));
+
+    expect(row).toEqual({ id: 'msg-1', content: 'written before the backfill' });
+  });
+
+  it('rejects ciphertext copied into another column', async () => {
+    await encryption.run('CrisisAssessment', 'update', { where: { id: 'ca-1' }, data: { reviewNotes: 'review' } }, store);
+
+    await expect(encryption.run('CrisisAssessment', 'findUnique', { where: { id: 'ca-1' } }, async () => ({
+      id: 'ca-1',
+      escalationNotes: written[0].reviewNotes,
+    }))).rejects.toThrow('Failed to decrypt CrisisAssessment.escalationNotes');
+  });
+
+  it('rewrites equality filters onto the blind index, including through relations', async () => {
+    let seen: Row = {};
+    const capture = async (args: unknown) => {
+      seen = args as Row;
+      return [];
+    };
+    const index = (value: string) => encryption.blindIndex(spec('Message.content'), value);
+
+    await encryption.run('Conversation', 'findMany', {
+      where: { userId: 'user-1', messages: { some: { content: 'hello', role: 'user' } } },
+      include: { messages: { where: { content: { in: ['a', 'b'] } } } },
+    }, capture);
+
+    expect(seen.where).toEqual({ userId: 'user-1', messages: { some: { contentIndex: { equals: index('hello') }, role: 'user' } } });
+    expect(seen.include).toEqual({ messages: { where: { contentIndex: { in: [index('a'), index('b')] } } } });
+
+    await encryption.run('CrisisAssessment', 'findMany', { where: { reviewNotes: { not: null } } }, capture);
+    expect(seen.where).toEqual({ reviewNotes: { not: null } });
+  });
+
+  it('refuses filters that would match against ciphertext', async () => {
+    const query = async () => [];
+
+    await expect(encryption.run('Message', 'findMany', { where: { content: { contains: 'hello' } } }, query))
+      .rejects.toThrow(EncryptedFieldQueryError);
+    await expect(encryption.run('CrisisAssessment', 'findMany', { where: { OR: [{ reviewNotes: 'urgent' }] } }, query))
+      .rejects.toThrow('without a blind index');
+  });
+
+  it('leaves models without encrypted fields untouched', async () => {
+    const args = { where: { name: 'Content' } };
+    const query = jest.fn(async () => []);
+
+    await encryption.run('Content', 'findMany', args, query);
+
+    expect(query).toHaveBeenCalledWith(args);
+  });
+});
+
+describe('Encrypted field backfill', () => {
+  let keyring: Keyring;
+  let encryption: FieldEncryption;
+  let table: FieldTable;
+
+  beforeEach(() => {
+    keyring = new Keyring('data', new InMemoryKeyStore(), { id: 'master-test', key: crypto.randomBytes(32), status: 'active' });
+    encryption = new FieldEncryption(keyring, crypto.randomBytes(32));
+    table = new FieldTable();
+    for (let i = 0; i < 5; i++) {
+      table.set(spec('Message.content'), `msg-${i}`, `message ${i}`);
+    }
+    table.set(spec('UserPreferences.conversationPatterns'), 'prefs-1', { commonTopics: ['sleep'] });
+  });
+
+  it('counts plaintext rows without changing them on a dry run', async () => {
+    const results = await backfillEncryptedFields(table, encryption, { dryRun: true });
+
+    expect(results.find(result => result.field === 'Message.content')).toEqual(expect.objectContaining({ pending: 5, encrypted: 0 }));
+    expect(table.get(spec('Message.content'), 'msg-0')).toBe('message 0');
+  });
+
+  it('encrypts existing rows in batches and fills in the blind index', async () => {
+    const results = await backfillEncryptedFields(table, encryption, { batchSize: 2 });
+
+    expect(results).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'Message.content', pending: 5, encrypted: 5, failed: 0 }),
+      expect.objectContaining({ field: 'UserPreferences.conversationPatterns', pending: 1, encrypted: 1 }),
+    ]));
+    expect(await encryption.decryptValue(spec('Message.content'), table.get(spec('Message.content'), 'msg-3'))).toBe('message 3');
+    expect(table.indexes.get('msg-3')).toBe(encryption.blindIndex(spec('Message.content'), 'message 3'));
+    expect(await encryption.decryptValue(spec('UserPreferences.conversationPatterns'), table.get(spec('UserPreferences.conversationPatterns'), 'prefs-1')))
+      .toEqual({ commonTopics: ['sleep'] });
+
+    // A second run has nothing left to do
+    expect((await backfillEncryptedFields(table, encryption))[0]).toEqual(expect.objectContaining({ pending: 0, encrypted: 0 }));
+  });
+
+  it('hands encrypted columns to the re-encryption job after a rotation', async () => {
+    await backfillEncryptedFields(table, encryption);
+    const { id: activeKeyId } = await keyring.rotate();
+
+    const job = new ReEncryptionJob([keyring]);
+    job.registerSource(new EncryptedFieldSource(spec('Message.content'), table));
+    const run = await job.runDomain('data');
+
+    expect(run).toEqual(expect.objectContaining({ reEncrypted: 5, failed: 0 }));
+    expect(table.get(spec('Message.content'), 'msg-0')).toMatch(`enc:v2:${activeKeyId}:`);
+    expect(await encryption.decryptValue(spec('Message.content'), table.get(spec('Message.content'), 'msg-0'))).toBe('message 0');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Persisted keyrings: master-key wrapping, rotation, compromise and background re-encryption
+ */
+
+import crypto from 'crypto';
+import { Envelope, EnvelopeEncryption, WrappingKey } from '@/services/security/EnvelopeEncryption';
+import { EncryptionService } from '@/services/security/EncryptionService';
+import {
+  EncryptedRecord,
+  EncryptedRecordSource,
+  InMemoryKeyStore,
+  Keyring,
+  ReEncryptionJob,
+} from '@/services/security/keyring';
+
+const masterKey = (): WrappingKey => ({ id: 'master-test', key: crypto.randomBytes(32), status: 'active' });
+
+// Stands in for an encrypted column
+class RecordTable implements EncryptedRecordSource {
+  name = 'test-records';
+  domain = 'data' as const;
+  rows: Map<string, Envelope> = new Map();
+
+  async findStale(activeKeyId: string, limit: number): Promise<EncryptedRecord[]> {
+    return Array.from(this.rows.entries())
+      .filter(([, envelope]) => envelope.keyId !== activeKeyId)
+      .slice(0, limit)
+      .map(([id, envelope]) => ({ id, envelope }));
+  }
+
+  async countStale(activeKeyId: string): Promise<number> {
+    return (await this.findStale(activeKeyId, Infinity)).length;
+  }
+
+  async save(record: EncryptedRecord, envelope: Envelope): Promise<void> {
+    this.rows.set(record.id, envelope);
+  }
+}
+
+describe('Keyring', () => {
+  let store: InMemoryKeyStore;
+  let master: WrappingKey;
+  let keyring: Keyring;
+
+  beforeEach(() => {
+    store = new InMemoryKeyStore();
+    master = masterKey();
+    keyring = new Keyring('data', store, master);
+  });
+
+  it('persists keys wrapped by the master key, so data survives a restart', async () => {
+    const envelopes = new EnvelopeEncryption(keyring);
+    const first = await envelopes.encrypt('before rotation');
+    await keyring.rotate();
+    const second = await envelopes.encrypt('after rotation');
+
+    const [stored] = await store.listKeys('data');
+    expect(stored.masterKeyId).toBe('master-test');
+    expect(stored.wrappedKey).not.toContain((await keyring.key(stored.id))!.key.toString('base64'));
+
+    // A new process: same store and master key, nothing else carried over
+    const restarted = new EnvelopeEncryption(new Keyring('data', store, master));
+    expect(await restarted.decryptString(first)).toBe('before rotation');
+    expect(await restarted.decryptString(second)).toBe('after rotation');
+  });
+
+  it('retires the previous key on rotation and keeps one active key per domain', async () => {
+    const original = (await keyring.activeKey()).id;
+    const rotated = await keyring.rotate('admin-1');
+
+    expect(rotated.id).not.toBe(original);
+    expect((await store.listKeys('data')).map(key => [key.id, key.status])).toEqual([
+      [original, 'retired'],
+      [rotated.id, 'active'],
+    ]);
+    expect(keyring.getRotationStatus()).toEqual({
+      domain: 'data',
+      activeKeyId: rotated.id,
+      daysUntilExpiration: 365,
+      needsRotation: false,
+    });
+  });
+
+  it('adopts a concurrent rotation instead of activating a second key', async () => {
+    const other = new Keyring('data', store, master);
+    await keyring.load();
+    await other.load();
+
+    const rotated = await keyring.rotate();
+    await other.rotate();
+
+    expect((await other.activeKey()).id).toBe(rotated.id);
+    expect((await store.listKeys('data')).filter(key => key.status === 'active')).toHaveLength(1);
+  });
+
+  it('rotates away from a compromised active key', async () => {
+    const compromisedId = (await keyring.activeKey()).id;
+
+    const compromised = await keyring.compromise(compromisedId, 'Leaked in a backup', 'admin-1');
+
+    expect(compromised).toEqual(expect.objectContaining({ status: 'compromised', compromiseReason: 'Leaked in a backup' }));
+    expect((await keyring.activeKey()).id).not.toBe(compromisedId);
+    await expect(keyring.compromise('data-missing', 'Typo')).rejects.toThrow('Key not found');
+  });
+});
+
+describe('ReEncryptionJob', () => {
+  let keyring: Keyring;
+  let envelopes: EnvelopeEncryption;
+  let table: RecordTable;
+  let job: ReEncryptionJob;
+
+  beforeEach(() => {
+    keyring = new Keyring('data', new InMemoryKeyStore(), masterKey());
+    envelopes = new EnvelopeEncryption(keyring);
+    table = new RecordTable();
+    job = new ReEncryptionJob([keyring], { batchSize: 2 });
+    job.registerSource(table);
+  });
+
+  const fill = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      table.rows.set(`row-${i}`, await envelopes.encrypt(`secret ${i}`, `row-${i}`));
+    }
+  };
+
+  it('re-wraps records onto the new key after rotation without re-encrypting them', async () => {
+    await fill(5);
+    const before = new Map(table.rows);
+    const { id: activeKeyId } = await keyring.rotate();
+
+    expect((await job.getProgress('data')).pending).toBe(5);
+
+    const run = await job.runDomain('data');
+
+    expect(run).toEqual(expect.objectContaining({ activeKeyId, reEncrypted: 5, failed: 0 }));
+    expect((await job.getProgress('data')).pending).toBe(0);
+    for (const [id, envelope] of table.rows) {
+      expect(envelope.keyId).toBe(activeKeyId);
+      expect(envelope.ciphertext).toBe(before.get(id)!.ciphertext);
+      expect(await envelopes.decryptString(envelope, id)).toBe(`secret ${id.slice(4)}`);
+    }
+  });
+
+  it('re-encrypts records under a compromised key with fresh data keys', async () => {
+    await fill(3);
+    const compromisedId = (await keyring.activeKey()).id;
+    const before = table.rows.get('row-0')!;
+
+    await keyring.compromise(compromisedId, 'Key material exposed');
+    await expect(envelopes.decrypt(before)).rejects.toThrow('has been compromised');
+
+    await job.runDomain('data');
+
+    const after = table.rows.get('row-0')!;
+    expect(after.ciphertext).not.toBe(before.ciphertext);
+    expect(await envelopes.decryptString(after, 'row-0')).toBe('secret 0');
+  });
+
+  it('moves envelopes wrapped directly by the master key onto the keyring', async () => {
+    const master = masterKey();
+    const store = new InMemoryKeyStore();
+    const direct = await new EnvelopeEncryption({ activeKey: async () => master, key: async () => master }).encrypt('written before the keyring');
+    table.rows.set('row-legacy', direct);
+
+    const masterKeyring = new Keyring('data', store, master);
+    const masterJob = new ReEncryptionJob([masterKeyring]);
+    masterJob.registerSource(table);
+    await masterJob.runDomain('data');
+
+    const moved = table.rows.get('row-legacy')!;
+    expect(moved.keyId).toBe((await masterKeyring.activeKey()).id);
+    expect(await new EnvelopeEncryption(masterKeyring).decryptString(moved)).toBe('written before the keyring');
+  });
+
+  it('leaves records it cannot read for the next run', async () => {
+    await fill(1);
+    table.rows.set('row-orphan', { ...table.rows.get('row-0')!, keyId: 'data-deleted-key' });
+    await keyring.rotate();
+
+    const run = await job.runDomain('data');
+
+    expect(run).toEqual(expect.objectContaining({ reEncrypted: 1, failed: 1 }));
+    expect((await job.getProgress('data')).pending).toBe(1);
+  });
+});
+
+describe('EncryptionService key management', () => {
+  it('reports rotation status and statistics from the keyring', async () => {
+    const keyring = new Keyring('data', new InMemoryKeyStore(), masterKey());
+    const service = new EncryptionService(keyring);
+    const classification = await service.getDataClassification('medical_history');
+    const encrypted = await service.encryptData('phi', classification);
+
+    const newKeyId = await service.rotateEncryptionKey();
+    await service.compromiseKey(encrypted.keyId, 'Test compromise');
+
+    expect(service.getCurrentKeyStatus()).toEqual(expect.objectContaining({ keyId: newKeyId, status: 'active' }));
+    expect(service.getKeyRotationStatus()).toEqual({ daysUntilExpiration: 365, needsRotation: false });
+    expect(service.getEncryptionStats()).toEqual(expect.objectContaining({
+      totalKeys: 3, // The master key, the compromised key and the new one
+      activeKeys: 1,
+      retiredKeys: 1,
+      compromisedKeys: 1,
+      currentKeyId: newKeyId,
+    }));
+    await expect(service.decryptData(encrypted)).rejects.toThrow('Failed to decrypt data');
+  });
+});
@@ -0,0 +1,91 @@
+import { extractDocument, DocumentBuilder } from '@/services/knowledge/extraction';
+import { StructuredChunker, estimateTokens } from '@/services/knowledge/chunking';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { InMemoryVectorStore } from '@/services/knowledge/stores';
+import { KnowledgeEmbedder } from '@/services/knowledge/KnowledgeEmbedder';
+
+const sentence = (n: number) => `Grounding exercise number ${n} helps you notice your surroundings.`;
+
+describe('Structured chunking', () => {
+  test('chunk offsets point at the exact source passage', async () => {
+    const markdown = [
+      '# Coping Skills',
+      '',
+      Array.from({ length: 12 }, (_, i) => sentence(i)).join(' '),
+      '',
+      '## Breathing',
+      '',
+      '- Inhale for four seconds.',
+      '- Exhale for six seconds.',
+    ].join('\n');
+    const document = await extractDocument(Buffer.from(markdown), 'md');
+
+    const chunks = new StructuredChunker({ strategy: 'section', maxTokens: 60, overlapTokens: 20 }).chunk(document);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(document.text.slice(chunk.startPosition, chunk.endPosition)).toBe(chunk.content);
+      expect(chunk.tokenCount).toBeLessThanOrEqual(60);
+    }
+
+    // Sentences keep their punctuation and the heading opens the first chunk of its section
+    expect(chunks[0].content.startsWith('Coping Skills\n\nGrounding exercise number 0')).toBe(true);
+    expect(chunks[0].content.endsWith('.')).toBe(true);
+
+    const breathing = chunks[chunks.length - 1];
+    expect(breathing.headingPath).toEqual(['Coping Skills', 'Breathing']);
+    expect(breathing.content).toBe('Breathing\n\nInhale for four seconds.\n\nExhale for six seconds.');
+  });
+
+  test('overlapping context is repeated within a section but never across sections', async () => {
+    const builder = new DocumentBuilder('md');
+    builder.addHeading('Sleep', 1);
+    for (let i = 0; i < 6; i++) builder.addBlock('paragraph', sentence(i));
+    builder.addHeading('Exercise', 1);
+    builder.addBlock('paragraph', 'Walk for twenty minutes a day.');
+    const document = builder.build();
+
+    const chunks = new StructuredChunker({ strategy: 'section', maxTokens: 40, overlapTokens: 20 }).chunk(document);
+    const sleepChunks = chunks.filter(chunk => chunk.headingPath[0] === 'Sleep');
+
+    expect(sleepChunks.length).toBeGreaterThan(1);
+    expect(sleepChunks[1].startPosition).toBeLessThan(sleepChunks[0].endPosition);
+    expect(chunks[chunks.length - 1].content).toBe('Exercise\n\nWalk for twenty minutes a day.');
+  });
+
+  test('page strategy keeps chunks on a single page', () => {
+    const builder = new DocumentBuilder('pdf');
+    builder.addBlock('paragraph', 'First page text.', 1);
+    builder.addBlock('paragraph', 'Second page text.', 2);
+
+    const chunks = new StructuredChunker({ strategy: 'page', maxTokens: 300, overlapTokens: 40 }).chunk(builder.build(2));
+
+    expect(chunks.map(chunk => [chunk.page, chunk.content])).toEqual([
+      [1, 'First page text.'],
+      [2, 'Second page text.'],
+    ]);
+  });
+
+  test('stores real offsets and heading paths with each chunk', async () => {
+    const store = new InMemoryVectorStore();
+    const service = new KnowledgeBaseService(store, new KnowledgeEmbedder({ provider: 'local' }), {});
+    const document = await extractDocument(Buffer.from('# Grounding\n\nName five things you can see.'), 'md');
+
+    const chunks = await service.chunkDocument(document);
+    await service.storeChunks('doc-1', chunks, await service.generateEmbeddings(chunks.map(c => c.content)), {
+      filename: 'grounding.md',
+      contentType: 'md',
+      categories: [],
+      uploadedBy: 'admin-1',
+      fileSize: 40,
+    });
+
+    const [stored] = await store.getChunks('doc-1');
+    expect(stored.metadata).toMatchObject({
+      startPosition: 0,
+      endPosition: document.text.length,
+      headingPath: ['Grounding'],
+      tokenCount: estimateTokens(document.text),
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { LocalEmbeddingProvider } from '@/services/ai/providers/LocalEmbeddingProvider';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { KnowledgeEmbedder } from '@/services/knowledge/KnowledgeEmbedder';
+import { InMemoryVectorStore, cosineSimilarity } from '@/services/knowledge/stores';
+import { estimateTokens } from '@/services/knowledge/chunking';
+
+describe('Knowledge embeddings', () => {
+  describe('LocalEmbeddingProvider', () => {
+    const provider = new LocalEmbeddingProvider({ dimensions: 256 });
+
+    test('produces deterministic, normalised vectors with dimension metadata', async () => {
+      const first = await provider.embed(['Grounding techniques for panic attacks']);
+      const second = await provider.embed(['Grounding techniques for panic attacks']);
+
+      expect(first.embeddings[0]).toEqual(second.embeddings[0]);
+      expect(first.metadata.dimensions).toBe(256);
+      expect(first.metadata.model).toBe('hashing-256');
+
+      const norm = Math.sqrt(first.embeddings[0].reduce((sum, v) => sum + v * v, 0));
+      expect(norm).toBeCloseTo(1);
+    });
+
+    test('ranks lexically related texts above unrelated ones', async () => {
+      const { embeddings } = await provider.embed([
+        'breathing exercises for panic attacks',
+        'panic attacks and breathing',
+        'quarterly budget spreadsheet',
+      ]);
+
+      expect(cosineSimilarity(embeddings[0], embeddings[1]))
+        .toBeGreaterThan(cosineSimilarity(embeddings[0], embeddings[2]));
+    });
+  });
+
+  describe('KnowledgeBaseService', () => {
+    const metadata = {
+      filename: 'coping.md',
+      contentType: 'md',
+      categories: ['Patient Resources'],
+      uploadedBy: 'admin-1',
+      fileSize: 512,
+    };
+
+    test('records the embedding model on stored chunks and searches within it', async () => {
+      const service = new KnowledgeBaseService(new InMemoryVectorStore(), new KnowledgeEmbedder({ provider: 'local' }));
+      const chunks = ['Box breathing calms panic attacks.', 'Sleep hygiene improves rest.'];
+
+      await service.registerDocument('doc-1', metadata);
+      await service.storeChunks(
+        'doc-1',
+        chunks.map(content => ({
+          content,
+          startPosition: 0,
+          endPosition: content.length,
+          tokenCount: estimateTokens(content),
+          headingPath: [],
+        })),
+        await service.generateEmbeddings(chunks),
+        metadata
+      );
+      await service.updateDocumentStatus('doc-1', 'ready', { chunkCount: chunks.length });
+
+      const document = await service.getDocumentStatus('doc-1');
+      expect(document?.embeddingModel).toBe('local:hashing-384');
+
+      const results = await service.searchSimilar('panic attacks breathing', 2);
+      expect(results[0].content).toBe(chunks[0]);
+      expect(results[0].embeddingModel).toBe('local:hashing-384');
+    });
+
+    test('re-embeds documents produced by a different model', async () => {
+      const store = new InMemoryVectorStore();
+      const service = new KnowledgeBaseService(store, new KnowledgeEmbedder({ provider: 'local' }));
+
+      await store.createDocument({ ...metadata, id: 'doc-2', status: 'ready', embeddingModel: 'openai:text-embedding-ada-002' });
+      await store.replaceChunks('doc-2', [{
+        id: 'doc-2-chunk-0',
+        documentId: 'doc-2',
+        content: 'Reach out to a crisis line.',
+        embedding: [0.1, 0.2],
+        embeddingModel: 'openai:text-embedding-ada-002',
+        metadata: { chunkIndex: 0, startPosition: 0, endPosition: 27 },
+      }]);
+
+      const result = await service.reembedStaleDocuments();
+
+      expect(result.reembedded).toEqual(['doc-2']);
+      const [chunk] = await store.getChunks('doc-2');
+      expect(chunk.embedding).toHaveLength(384);
+      expect(chunk.embeddingModel).toBe('local:hashing-384');
+      expect(chunk.metadata.endPosition).toBe(27);
+
+      expect((await service.reembedStaleDocuments()).reembedded).toEqual([]);
+    });
+  });
+});
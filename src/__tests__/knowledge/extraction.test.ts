@@ -0,0 +1,67 @@
+import { extractDocument, ExtractionError } from '@/services/knowledge/extraction';
+
+describe('Knowledge document extraction', () => {
+  test('converts HTML to text and keeps the heading hierarchy', async () => {
+    const html = `
+      <html><head><title>Guide</title><style>p { color: red; }</style></head>
+      <body>
+        <h1>Managing Anxiety</h1>
+        <p>Anxiety is a <strong>normal</strong> response &amp; can be managed.</p>
+        <h2>Breathing</h2>
+        <ul><li>Inhale for four seconds</li><li>Exhale for six seconds</li></ul>
+        <script>alert('x')</script>
+      </body></html>`;
+
+    const document = await extractDocument(Buffer.from(html), 'html');
+
+    expect(document.text).not.toContain('<');
+    expect(document.text).not.toContain('alert');
+    expect(document.text).toContain('Anxiety is a normal response & can be managed.');
+
+    const listItem = document.blocks.find(block => block.type === 'list_item');
+    expect(listItem?.text).toBe('Inhale for four seconds');
+    expect(listItem?.headingPath).toEqual(['Managing Anxiety', 'Breathing']);
+    expect(document.text.slice(listItem!.start, listItem!.end)).toBe(listItem!.text);
+  });
+
+  test('decodes numeric entities and leaves out-of-range ones as written', async () => {
+    const html = '<p>Caf&#233; &#x1F60A; &#99999999; &#x110000;</p>';
+
+    const document = await extractDocument(Buffer.from(html), 'html');
+
+    expect(document.text).toContain('Café 😊 &#99999999; &#x110000;');
+  });
+
+  test('parses Markdown headings, lists and code fences', async () => {
+    const markdown = [
+      '# Sleep',
+      '',
+      'Keep a **regular** schedule.',
+      '',
+      'Wind down',
+      '---------',
+      '',
+      '- Dim the [lights](https://example.com)',
+      '- Avoid screens',
+      '',
+      '```',
+      'bedtime = 22:30',
+      '```',
+    ].join('\n');
+
+    const document = await extractDocument(Buffer.from(markdown), 'md');
+
+    expect(document.blocks.map(block => block.type)).toEqual([
+      'heading', 'paragraph', 'heading', 'list_item', 'list_item', 'code',
+    ]);
+    expect(document.blocks[1].text).toBe('Keep a regular schedule.');
+    expect(document.blocks[3].text).toBe('Dim the lights');
+    expect(document.blocks[5].headingPath).toEqual(['Sleep', 'Wind down']);
+  });
+
+  test('rejects unsupported, corrupt and empty documents with error codes', async () => {
+    await expect(extractDocument(Buffer.from('x'), 'rtf')).rejects.toMatchObject({ code: 'unsupported_format' });
+    await expect(extractDocument(Buffer.from('not a zip'), 'docx')).rejects.toMatchObject({ code: 'corrupt_document' });
+    await expect(extractDocument(Buffer.from('<p>  </p>'), 'html')).rejects.toBeInstanceOf(ExtractionError);
+  });
+});
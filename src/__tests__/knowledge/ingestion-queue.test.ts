@@ -0,0 +1,135 @@
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { KnowledgeEmbedder } from '@/services/knowledge/KnowledgeEmbedder';
+import { InMemoryVectorStore } from '@/services/knowledge/stores';
+import { InMemoryIngestionQueue, IngestionWorker, computeBackoff } from '@/services/knowledge/jobs';
+
+class FlakyEmbedder extends KnowledgeEmbedder {
+  failuresLeft: number;
+
+  constructor(failures: number) {
+    super({ provider: 'local' });
+    this.failuresLeft = failures;
+  }
+
+  async embed(texts: string[]) {
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error('Embedding provider unavailable');
+    }
+    return super.embed(texts);
+  }
+}
+
+describe('Knowledge ingestion queue', () => {
+  let dir: string;
+  let queue: InMemoryIngestionQueue;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'knowledge-'));
+    queue = new InMemoryIngestionQueue();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function register(service: KnowledgeBaseService, id: string, filename: string, content: string, contentType = 'md') {
+    const filePath = join(dir, filename);
+    await writeFile(filePath, content);
+    await service.registerDocument(id, {
+      filename,
+      contentType,
+      categories: [],
+      uploadedBy: 'admin-1',
+      fileSize: content.length,
+    }, filePath);
+  }
+
+  test('processes a queued document to ready with full progress', async () => {
+    const service = new KnowledgeBaseService(new InMemoryVectorStore(), new KnowledgeEmbedder({ provider: 'local' }), {});
+    const worker = new IngestionWorker(queue, service);
+    await register(service, 'doc-1', 'coping.md', '# Coping\n\nTry box breathing.');
+
+    await worker.enqueue('doc-1');
+    expect((await service.getDocumentStatus('doc-1'))?.status).toBe('queued');
+
+    expect(await worker.processNext()).toBe(true);
+
+    const document = await service.getDocumentStatus('doc-1');
+    expect(document).toMatchObject({ status: 'ready', chunkCount: 1 });
+    expect(await queue.getLatestJob('doc-1')).toMatchObject({ status: 'completed', progress: 100, attempts: 1 });
+    expect(await worker.processNext()).toBe(false);
+  });
+
+  test('retries transient failures with backoff and gives up after maxAttempts', async () => {
+    const service = new KnowledgeBaseService(new InMemoryVectorStore(), new FlakyEmbedder(10), {});
+    const worker = new IngestionWorker(queue, service, { baseBackoffMs: 60_000 });
+    await register(service, 'doc-2', 'sleep.md', 'Keep a regular bedtime.');
+
+    const job = await queue.enqueue('doc-2', { maxAttempts: 2 });
+    await worker.processNext();
+
+    let latest = await queue.getLatestJob(job.documentId);
+    expect(latest).toMatchObject({ status: 'queued', attempts: 1, lastError: 'Embedding provider unavailable' });
+    expect(latest!.runAt.getTime()).toBeGreaterThan(Date.now() + 40_000);
+    expect((await service.getDocumentStatus('doc-2'))?.status).toBe('queued');
+
+    // Not due yet
+    expect(await worker.processNext()).toBe(false);
+
+    latest!.runAt.setTime(Date.now() - 1);
+    await worker.processNext();
+
+    latest = await queue.getLatestJob(job.documentId);
+    expect(latest).toMatchObject({ status: 'failed', attempts: 2 });
+    expect(await service.getDocumentStatus('doc-2')).toMatchObject({ status: 'error', errorCode: 'processing_failed' });
+  });
+
+  test('fails corrupt documents immediately without retrying', async () => {
+    const service = new KnowledgeBaseService(new InMemoryVectorStore(), new KnowledgeEmbedder({ provider: 'local' }), {});
+    const worker = new IngestionWorker(queue, service);
+    await register(service, 'doc-3', 'broken.docx', 'not a zip archive', 'docx');
+
+    await worker.enqueue('doc-3');
+    await worker.processNext();
+
+    expect(await queue.getLatestJob('doc-3')).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(await service.getDocumentStatus('doc-3')).toMatchObject({ status: 'error', errorCode: 'corrupt_document' });
+  });
+
+  test('a manual retry re-queues a failed document and clears its error', async () => {
+    const service = new KnowledgeBaseService(new InMemoryVectorStore(), new FlakyEmbedder(1), {});
+    const worker = new IngestionWorker(queue, service);
+    await register(service, 'doc-5', 'grounding.md', 'Name five things you can see.');
+
+    await queue.enqueue('doc-5', { maxAttempts: 1 });
+    await worker.processNext();
+    expect((await service.getDocumentStatus('doc-5'))?.status).toBe('error');
+
+    await worker.enqueue('doc-5');
+    expect(await service.getDocumentStatus('doc-5')).toMatchObject({ status: 'queued', error: undefined });
+
+    await worker.processNext();
+    expect((await service.getDocumentStatus('doc-5'))?.status).toBe('ready');
+  });
+
+  test('reclaims jobs whose lease expired', async () => {
+    await queue.enqueue('doc-4');
+
+    const first = await queue.lease('worker-a', -1); // Lease already expired
+    const second = await queue.lease('worker-b', 60_000);
+
+    expect(second).toMatchObject({ id: first!.id, attempts: 2, leasedBy: 'worker-b' });
+    expect(await queue.reportProgress(first!.id, 'worker-a', 50, 'embedding', 60_000)).toBe(false);
+    expect(await queue.reportProgress(first!.id, 'worker-b', 50, 'embedding', 60_000)).toBe(true);
+  });
+
+  test('backoff grows exponentially up to the cap', () => {
+    expect(computeBackoff(1, 1000, 10_000)).toBeLessThanOrEqual(1200);
+    expect(computeBackoff(3, 1000, 10_000)).toBeGreaterThanOrEqual(3200);
+    expect(computeBackoff(10, 1000, 10_000)).toBeLessThanOrEqual(12_000);
+  });
+});
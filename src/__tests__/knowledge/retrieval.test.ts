@@ -0,0 +1,61 @@
+import { extractDocument } from '@/services/knowledge/extraction';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { KnowledgeEmbedder } from '@/services/knowledge/KnowledgeEmbedder';
+import { KnowledgeRetriever } from '@/services/knowledge/KnowledgeRetriever';
+import { InMemoryVectorStore } from '@/services/knowledge/stores';
+
+async function ingest(service: KnowledgeBaseService, documentId: string, filename: string, markdown: string) {
+  const metadata = { filename, contentType: 'md', categories: [], uploadedBy: 'admin-1', fileSize: markdown.length };
+  await service.registerDocument(documentId, metadata);
+
+  const document = await extractDocument(Buffer.from(markdown), 'md');
+  const chunks = await service.chunkDocument(document);
+  await service.storeChunks(documentId, chunks, await service.generateEmbeddings(chunks.map(c => c.content)), metadata);
+  await service.updateDocumentStatus(documentId, 'ready', { chunkCount: chunks.length });
+}
+
+describe('KnowledgeRetriever', () => {
+  let service: KnowledgeBaseService;
+
+  beforeEach(async () => {
+    service = new KnowledgeBaseService(new InMemoryVectorStore(), new KnowledgeEmbedder({ provider: 'local' }), {});
+    await ingest(service, 'doc-panic', 'panic-attacks.md',
+      '# Panic Attacks\n\n## Breathing\n\nSlow box breathing during a panic attack calms the body.');
+    await ingest(service, 'doc-sleep', 'sleep.md',
+      '# Sleep Hygiene\n\nKeep a regular bedtime and avoid screens before sleep.');
+  });
+
+  test('returns cited excerpts with document title, heading path and offsets', async () => {
+    const retriever = new KnowledgeRetriever(service, { minSimilarity: 0.1 });
+
+    const knowledge = await retriever.retrieve('breathing for a panic attack');
+
+    const [first] = knowledge.citations;
+    expect(first).toMatchObject({
+      marker: 1,
+      documentId: 'doc-panic',
+      documentTitle: 'panic-attacks.md',
+      headingPath: ['Panic Attacks', 'Breathing'],
+      startPosition: 0,
+    });
+    expect(first.excerpt).toContain('Slow box breathing');
+    expect(knowledge.systemMessage).toContain('[1] panic-attacks.md — Panic Attacks › Breathing');
+  });
+
+  test('stops adding excerpts once the token budget is spent', async () => {
+    const retriever = new KnowledgeRetriever(service, { minSimilarity: -1, tokenBudget: 30 });
+
+    const knowledge = await retriever.retrieve('panic attack breathing sleep');
+
+    expect(knowledge.citations).toHaveLength(1);
+    expect(knowledge.tokenCount).toBeLessThanOrEqual(30);
+  });
+
+  test('returns no system message when nothing is relevant enough', async () => {
+    const retriever = new KnowledgeRetriever(service, { minSimilarity: 0.99 });
+
+    const knowledge = await retriever.retrieve('medication side effects');
+
+    expect(knowledge).toEqual({ systemMessage: null, citations: [], tokenCount: 0 });
+  });
+});
@@ -0,0 +1,79 @@
+import { InMemoryVectorStore, cosineSimilarity } from '@/services/knowledge/stores';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+
+const metadata = {
+  filename: 'guide.md',
+  contentType: 'md',
+  categories: ['Crisis Intervention'],
+  uploadedBy: 'admin-1',
+  fileSize: 1024,
+};
+
+function chunk(documentId: string, index: number, embedding: number[]) {
+  return {
+    id: `${documentId}-chunk-${index}`,
+    documentId,
+    content: `chunk ${index}`,
+    embedding,
+    metadata: { chunkIndex: index, startPosition: index * 10, endPosition: index * 10 + 9 },
+  };
+}
+
+describe('Knowledge vector store', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new InMemoryVectorStore();
+    await store.createDocument({ ...metadata, id: 'doc-1', status: 'ready' });
+    await store.replaceChunks('doc-1', [
+      chunk('doc-1', 0, [1, 0, 0]),
+      chunk('doc-1', 1, [0.7, 0.7, 0]),
+      chunk('doc-1', 2, [0, 0, 1]),
+    ]);
+  });
+
+  test('cosineSimilarity handles identical, orthogonal and mismatched vectors', () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+
+  test('ranks chunks by descending cosine similarity', async () => {
+    const results = await store.similaritySearch([1, 0.1, 0], { limit: 3 });
+
+    expect(results.map(r => r.id)).toEqual(['doc-1-chunk-0', 'doc-1-chunk-1', 'doc-1-chunk-2']);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+  });
+
+  test('applies limit, minimum similarity and document filters', async () => {
+    await store.createDocument({ ...metadata, id: 'doc-2', status: 'ready' });
+    await store.replaceChunks('doc-2', [chunk('doc-2', 0, [1, 0, 0])]);
+
+    expect(await store.similaritySearch([1, 0, 0], { limit: 1 })).toHaveLength(1);
+    expect(await store.similaritySearch([1, 0, 0], { limit: 10, minSimilarity: 0.5 })).toHaveLength(3);
+
+    const filtered = await store.similaritySearch([1, 0, 0], { limit: 10, documentIds: ['doc-2'] });
+    expect(filtered.map(r => r.documentId)).toEqual(['doc-2']);
+  });
+
+  test('excludes documents that are not ready', async () => {
+    await store.updateDocument('doc-1', { status: 'processing' });
+
+    expect(await store.similaritySearch([1, 0, 0], { limit: 5 })).toHaveLength(0);
+  });
+
+  test('KnowledgeBaseService persists document lifecycle through the store', async () => {
+    const service = new KnowledgeBaseService(new InMemoryVectorStore());
+
+    await service.registerDocument('doc-3', metadata, '/tmp/guide.md');
+    expect((await service.getDocumentStatus('doc-3'))?.status).toBe('uploaded');
+
+    await service.updateDocumentStatus('doc-3', 'ready', { chunkCount: 2 });
+    const document = await service.getDocumentStatus('doc-3');
+    expect(document?.status).toBe('ready');
+    expect(document?.chunkCount).toBe(2);
+
+    expect(await service.deleteDocument('doc-3')).not.toBeNull();
+    expect(await service.getAllDocuments()).toHaveLength(0);
+  });
+});
@@ -129,14 +129,14 @@ describe('Professional Escalation Integration', () => {
       expect(escalation!.status).toBe('initiated');
 
       // Resolve the escalation
-      const resolved = escalationService.resolveEscalation(
+      const resolved = await escalationService.resolveEscalation(
         escalation!.id,
         'Professional intervention completed successfully'
       );
 
       expect(resolved).toBe(true);
 
-      const resolvedEscalation = escalationService.getEscalationById(escalation!.id);
+      const resolvedEscalation = await escalationService.getEscalationById(escalation!.id);
       expect(resolvedEscalation!.status).toBe('resolved');
       expect(resolvedEscalation!.outcome).toBe('Professional intervention completed successfully');
     });
@@ -0,0 +1,171 @@
+/**
+ * Durable escalations: step timers, acknowledgement, history and resuming after a restart
+ */
+
+import {
+  SafetyEscalationService,
+  EscalationContacts,
+  EscalationRecord,
+} from '@/services/safety/SafetyEscalationService';
+import { InMemoryEscalationStore } from '@/services/safety/escalation';
+import { NotificationDispatcher, NotificationChannel } from '@/services/notifications';
+import { ProfessionalNetworkService } from '@/services/professional/ProfessionalNetworkService';
+import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+
+const sent: { channel: string; recipientId: string }[] = [];
+
+const channel = (type: NotificationChannel['type']): NotificationChannel => ({
+  type,
+  canDeliver: () => true,
+  send: async notification => {
+    sent.push({ channel: type, recipientId: notification.recipient.id });
+    return { providerMessageId: `${type}-${sent.length}` };
+  },
+});
+
+const contacts: EscalationContacts = {
+  crisis_team: [{ id: 'oncall', phone: '+15550100' }],
+  supervisor: [{ id: 'supervisor-1', userId: 'user-supervisor' }],
+  emergency_services: [{ id: 'dispatch', phone: '+15550199' }],
+};
+
+const createService = (store: InMemoryEscalationStore) => new SafetyEscalationService(
+  new ProfessionalNetworkService(),
+  new SecureCommunicationService(),
+  new NotificationDispatcher([channel('sms'), channel('in_app')], { retryBaseMs: 1, retryMaxMs: 5 }),
+  contacts,
+  store
+);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitFor = async (
+  service: SafetyEscalationService,
+  id: string,
+  predicate: (escalation: EscalationRecord) => boolean
+): Promise<EscalationRecord> => {
+  for (let i = 0; i < 100; i++) {
+    const escalation = await service.getEscalationById(id);
+    if (escalation && predicate(escalation)) return escalation;
+    await sleep(10);
+  }
+  throw new Error(`Escalation ${id} never reached the expected state`);
+};
+
+const awaitingAcknowledgement = (escalation: EscalationRecord) => escalation.stepState === 'awaiting_acknowledgement';
+
+const highRisk = { severity: 'high', confidence: 0.85, indicators: { acuteAnxiety: true }, riskFactors: [] };
+
+describe('Durable safety escalations', () => {
+  let store: InMemoryEscalationStore;
+  let service: SafetyEscalationService;
+
+  beforeEach(async () => {
+    sent.length = 0;
+    store = new InMemoryEscalationStore();
+    service = createService(store);
+
+    // Give the professional 60ms to acknowledge instead of 10 minutes
+    const protocol = (await service.getAllProtocols()).find(candidate => candidate.id === 'high-risk-protocol')!;
+    protocol.escalationPath[0].timeout = 0.001;
+    await service.updateProtocol(protocol);
+  });
+
+  it('waits for an acknowledgement, then runs the fallback when the step times out', async () => {
+    const started = await service.evaluateEscalation('user-1', 'session-1', highRisk);
+    const waiting = await waitFor(service, started!.id, awaitingAcknowledgement);
+
+    expect(waiting.currentStepId).toBe('professional-assignment');
+    expect(waiting.professionalId).toBeDefined();
+    expect(await service.processDueEscalations()).toBe(0);
+
+    await sleep(80);
+    expect(await service.processDueEscalations()).toBe(1);
+
+    const escalated = (await service.getEscalationById(started!.id))!;
+    expect(escalated.steps.map(step => [step.stepId, step.success, step.error])).toEqual([
+      ['professional-assignment', true, undefined],
+      ['professional-assignment', false, 'Not acknowledged within 0.001 minute(s)'],
+      ['supervisor-escalation', true, undefined],
+    ]);
+    expect(escalated.currentStepId).toBe('supervisor-escalation');
+    expect(sent.map(notification => notification.recipientId)).toContain('supervisor-1');
+  });
+
+  it('stops the protocol once someone acknowledges it', async () => {
+    const started = await service.evaluateEscalation('user-1', 'session-1', highRisk);
+    await waitFor(service, started!.id, awaitingAcknowledgement);
+
+    expect(await service.acknowledgeEscalation(started!.id, 'prof-1')).toBe(true);
+    await sleep(80);
+    expect(await service.processDueEscalations()).toBe(0);
+
+    const acknowledged = (await service.getEscalationById(started!.id))!;
+    expect(acknowledged).toEqual(expect.objectContaining({
+      status: 'escalated',
+      outcome: 'acknowledged',
+      acknowledgedBy: 'prof-1',
+    }));
+    expect(acknowledged.steps).toHaveLength(1);
+    expect(await service.acknowledgeEscalation(started!.id, 'prof-2')).toBe(false);
+  });
+
+  it('resumes an escalation a crashed process left mid-step', async () => {
+    await store.create({
+      id: 'escalation-orphaned',
+      userId: 'user-2',
+      sessionId: 'session-2',
+      crisisAssessmentId: 'assessment-2',
+      protocolId: 'critical-suicide-protocol',
+      status: 'in_progress',
+      priority: 'emergency',
+      startedAt: new Date(),
+      steps: [],
+      outcome: 'pending',
+      compliance: {
+        hipaaCompliant: true,
+        auditLogged: true,
+        dataEncrypted: true,
+        retentionPolicy: '7_years_crisis_data',
+        accessLogged: true,
+      },
+      assessment: { severity: 'critical', confidence: 0.95, indicators: { suicideIdeation: true }, riskFactors: [] },
+      currentStepId: 'immediate-professional-alert',
+      stepState: 'pending',
+      nextRunAt: new Date(),
+    });
+    // The worker that claimed it died before finishing the step
+    await store.claim('escalation-orphaned', 'crashed-worker', 20);
+    const restarted = createService(store);
+
+    expect(await restarted.processDueEscalations()).toBe(0);
+    await sleep(30);
+    expect(await restarted.processDueEscalations()).toBe(1);
+
+    const resumed = (await restarted.getEscalationById('escalation-orphaned'))!;
+    expect(resumed.steps[0]).toEqual(expect.objectContaining({ stepId: 'immediate-professional-alert', success: true }));
+    expect(resumed.stepState).toBe('awaiting_acknowledgement');
+    expect(sent).toEqual([{ channel: 'sms', recipientId: 'oncall' }]);
+  });
+
+  it('keeps protocol changes across restarts', async () => {
+    const restarted = createService(store);
+    const protocol = (await restarted.getAllProtocols()).find(candidate => candidate.id === 'high-risk-protocol')!;
+
+    expect(protocol.escalationPath[0].timeout).toBe(0.001);
+  });
+
+  it('serves escalation history newest first', async () => {
+    const first = await service.evaluateEscalation('user-3', 'session-3', highRisk);
+    await sleep(5);
+    const second = await service.evaluateEscalation('user-3', 'session-4', highRisk);
+    await service.evaluateEscalation('user-4', 'session-5', highRisk);
+    await waitFor(service, second!.id, awaitingAcknowledgement);
+
+    const history = await service.getEscalationHistory({ userId: 'user-3' });
+    expect(history.map(escalation => escalation.id)).toEqual([second!.id, first!.id]);
+
+    const older = await service.getEscalationHistory({ userId: 'user-3', before: history[0].startedAt });
+    expect(older.map(escalation => escalation.id)).toEqual([first!.id]);
+  });
+});
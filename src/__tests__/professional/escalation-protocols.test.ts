@@ -0,0 +1,295 @@
+/**
+ * Protocol administration: the condition DSL, validation, versioned drafts, audit trail and dry runs
+ */
+
+import {
+  SafetyEscalationService,
+  EscalationProtocol,
+  EscalationRecord,
+} from '@/services/safety/SafetyEscalationService';
+import {
+  InMemoryEscalationStore,
+  ProtocolSimulator,
+  ProtocolValidationError,
+  evaluateCondition,
+  formatConditionDsl,
+  parseConditionDsl,
+  validateProtocol,
+} from '@/services/safety/escalation';
+import { NotificationDispatcher, NotificationChannel } from '@/services/notifications';
+import { ProfessionalNetworkService } from '@/services/professional/ProfessionalNetworkService';
+import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+import { emptyIndicators } from '@/services/crisis-detection/CrisisAssessment';
+import type { StoredCrisisAssessment } from '@/services/crisis-detection/CrisisAssessmentRepository';
+
+const inApp: NotificationChannel = {
+  type: 'in_app',
+  canDeliver: () => true,
+  send: async () => ({}),
+};
+
+const createService = (store: InMemoryEscalationStore) => new SafetyEscalationService(
+  new ProfessionalNetworkService(),
+  new SecureCommunicationService(),
+  new NotificationDispatcher([inApp], { retryBaseMs: 1, retryMaxMs: 5 }),
+  { supervisor: [{ id: 'supervisor-1', userId: 'user-supervisor' }] },
+  store
+);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const waitFor = async (
+  service: SafetyEscalationService,
+  id: string,
+  predicate: (escalation: EscalationRecord) => boolean
+): Promise<EscalationRecord> => {
+  for (let i = 0; i < 100; i++) {
+    const escalation = await service.getEscalationById(id);
+    if (escalation && predicate(escalation)) return escalation;
+    await sleep(10);
+  }
+  throw new Error(`Escalation ${id} never reached the expected state`);
+};
+
+const wellbeingProtocol = (overrides: Partial<EscalationProtocol> = {}): EscalationProtocol => ({
+  id: 'eating-disorder-protocol',
+  name: 'Eating Disorder Protocol',
+  triggerConditions: parseConditionDsl('indicator contains eatingDisorders\nconfidence >= 0.5 weight 0.5').conditions,
+  priority: 'routine',
+  responseTime: 120,
+  escalationPath: [{
+    stepId: 'specialist-referral',
+    action: 'assign',
+    target: 'professional',
+    method: 'message',
+    timeout: 60,
+    fallback: null,
+    metadata: { channels: ['in_app'] },
+  }],
+  requiredApprovals: ['clinical_lead'],
+  complianceRequirements: ['hipaa'],
+  active: true,
+  version: 0,
+  ...overrides,
+});
+
+const stored = (id: string, overrides: Partial<StoredCrisisAssessment>): StoredCrisisAssessment => ({
+  id,
+  conversationId: 'conversation-1',
+  userId: 'user-1',
+  severity: 'medium',
+  confidence: 0.5,
+  indicators: emptyIndicators(),
+  signals: [],
+  riskFactors: [],
+  recommendedActions: [],
+  immediate: false,
+  flaggedAt: new Date('2026-01-01T00:00:00Z'),
+  reviewed: false,
+  escalated: false,
+  ...overrides,
+});
+
+describe('Condition DSL', () => {
+  it('parses conditions and formats them back', () => {
+    const source = [
+      '# Imminent risk',
+      'indicator contains suicideIdeation',
+      'severity >= high weight 0.9',
+      'pattern contains "recent loss" weight 0.5',
+    ].join('\n');
+
+    const { conditions, errors } = parseConditionDsl(source);
+
+    expect(errors).toEqual([]);
+    expect(conditions).toEqual([
+      { type: 'indicator', operator: 'contains', value: 'suicideIdeation', weight: 1 },
+      { type: 'severity', operator: 'gte', value: 'high', weight: 0.9 },
+      { type: 'pattern', operator: 'contains', value: 'recent loss', weight: 0.5 },
+    ]);
+    expect(parseConditionDsl(formatConditionDsl(conditions)).conditions).toEqual(conditions);
+  });
+
+  it('reports syntax errors by line', () => {
+    const { errors } = parseConditionDsl('confidence > high\n\nmood contains sad\nseverity ~ high');
+
+    expect(errors).toEqual([
+      { line: 1, message: '"high" is not a number' },
+      { line: 3, message: expect.stringContaining('Unknown condition type "mood"') },
+      { line: 4, message: 'Unknown operator "~"' },
+    ]);
+  });
+
+  it('compares severities by rank', () => {
+    const [atLeastHigh] = parseConditionDsl('severity >= high').conditions;
+    const subject = { confidence: 0.9, indicators: {}, riskFactors: [] };
+
+    expect(evaluateCondition(atLeastHigh, { ...subject, severity: 'critical' })).toBe(true);
+    expect(evaluateCondition(atLeastHigh, { ...subject, severity: 'medium' })).toBe(false);
+  });
+});
+
+describe('Protocol validation', () => {
+  it('rejects operators and values that do not suit the condition', () => {
+    const issues = validateProtocol(wellbeingProtocol({
+      triggerConditions: parseConditionDsl('severity contains high\nconfidence > 1.5\nindicator contains grief').conditions,
+    }));
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'triggerConditions[0].operator',
+      'triggerConditions[1].value',
+      'triggerConditions[2].value',
+    ]);
+  });
+
+  it('rejects duplicate step IDs across fallbacks and unknown channels', () => {
+    const protocol = wellbeingProtocol();
+    protocol.escalationPath[0].fallback = {
+      ...protocol.escalationPath[0],
+      target: 'supervisor',
+      action: 'escalate',
+      metadata: { channels: ['pager'] },
+    };
+
+    expect(validateProtocol(protocol)).toEqual([
+      { path: 'escalationPath[0].fallback.stepId', message: 'Step ID "specialist-referral" is used more than once' },
+      { path: 'escalationPath[0].fallback.metadata.channels', message: expect.stringContaining('Unknown channel "pager"') },
+    ]);
+  });
+});
+
+describe('Versioned protocols', () => {
+  let store: InMemoryEscalationStore;
+  let service: SafetyEscalationService;
+
+  beforeEach(() => {
+    store = new InMemoryEscalationStore();
+    service = createService(store);
+  });
+
+  it('keeps drafts out of live matching until they are published', async () => {
+    const assessment = { severity: 'low', confidence: 0.7, indicators: { eatingDisorders: true }, riskFactors: [] };
+
+    const draft = await service.saveProtocolDraft(wellbeingProtocol(), 'admin-1', 'New referral pathway');
+    expect(draft).toEqual(expect.objectContaining({ version: 1, status: 'draft', createdBy: 'admin-1' }));
+    expect(await service.evaluateEscalation('user-1', 'session-1', assessment)).toBeNull();
+
+    const published = await service.publishProtocolVersion('eating-disorder-protocol', 1, 'admin-2');
+    expect(published).toEqual(expect.objectContaining({ id: 'eating-disorder-protocol', version: 1 }));
+    expect((await service.evaluateEscalation('user-1', 'session-2', assessment))!.protocolId).toBe('eating-disorder-protocol');
+
+    // A draft can only be published once
+    expect(await service.publishProtocolVersion('eating-disorder-protocol', 1, 'admin-2')).toBeNull();
+  });
+
+  it('edits the open draft in place and supersedes the published version', async () => {
+    const live = (await service.getProtocol('medium-risk-protocol'))!;
+
+    await service.saveProtocolDraft({ ...live, responseTime: 45 }, 'admin-1');
+    const edited = await service.saveProtocolDraft({ ...live, responseTime: 30 }, 'admin-1');
+    expect(edited.version).toBe(2);
+
+    await service.publishProtocolVersion('medium-risk-protocol', 2, 'admin-1');
+    const versions = await service.getProtocolVersions('medium-risk-protocol');
+
+    expect(versions.map(version => [version.version, version.status])).toEqual([[2, 'published'], [1, 'superseded']]);
+    expect((await service.getProtocol('medium-risk-protocol'))!.responseTime).toBe(30);
+  });
+
+  it('refuses to save an invalid draft', async () => {
+    const invalid = wellbeingProtocol({ responseTime: -5 });
+
+    await expect(service.saveProtocolDraft(invalid, 'admin-1')).rejects.toBeInstanceOf(ProtocolValidationError);
+    expect(await service.getProtocolVersions(invalid.id)).toEqual([]);
+  });
+
+  it('records who changed which protocol and what changed', async () => {
+    const live = (await service.getProtocol('high-risk-protocol'))!;
+    const draft = await service.saveProtocolDraft({ ...live, responseTime: 10 }, 'admin-1');
+    await service.publishProtocolVersion(live.id, draft.version, 'admin-2');
+    await service.setProtocolActive(live.id, false, 'admin-3');
+
+    const trail = await service.getProtocolAuditTrail({ protocolId: live.id });
+
+    expect(trail.map(entry => [entry.action, entry.actorId, entry.version])).toEqual([
+      ['deactivated', 'admin-3', 3],
+      ['published', 'admin-2', 2],
+      ['draft_saved', 'admin-1', 2],
+    ]);
+    expect(trail[1].changes).toEqual({ responseTime: { from: 15, to: 10 } });
+    expect((await service.getProtocol(live.id))!.active).toBe(false);
+  });
+
+  it('finishes a running escalation on the version it started with', async () => {
+    const original = (await service.getProtocol('high-risk-protocol'))!;
+    original.escalationPath[0].timeout = 0.001;
+    await service.updateProtocol(original);
+
+    const started = await service.evaluateEscalation('user-1', 'session-1', {
+      severity: 'high', confidence: 0.85, indicators: { acuteAnxiety: true }, riskFactors: [],
+    });
+    await waitFor(service, started!.id, escalation => escalation.stepState === 'awaiting_acknowledgement');
+
+    // The new version renames every step the running escalation knows about
+    const renamed = structuredClone(original);
+    renamed.escalationPath[0].stepId = 'triage-assignment';
+    renamed.escalationPath[0].fallback!.stepId = 'duty-supervisor';
+    await service.updateProtocol(renamed, 'admin-1');
+
+    await sleep(80);
+    await service.processDueEscalations();
+
+    const escalation = (await service.getEscalationById(started!.id))!;
+    expect(escalation.protocolVersion).toBe(2);
+    expect(escalation.steps.map(step => step.stepId)).toEqual([
+      'professional-assignment',
+      'professional-assignment',
+      'supervisor-escalation',
+    ]);
+  });
+});
+
+describe('ProtocolSimulator', () => {
+  it('replays past assessments against a draft and reports what would change', async () => {
+    const service = createService(new InMemoryEscalationStore());
+    const history = [
+      stored('anxious-medium', { severity: 'medium', confidence: 0.6, indicators: { ...emptyIndicators(), acuteAnxiety: true } }),
+      stored('high', { severity: 'high', confidence: 0.7 }),
+      stored('critical', { severity: 'critical', confidence: 0.95, indicators: { ...emptyIndicators(), suicideIdeation: true } }),
+      stored('low', { severity: 'low', confidence: 0.2 }),
+    ];
+    const listAssessments = jest.fn(async () => history);
+    const simulator = new ProtocolSimulator({ listAssessments });
+
+    // Tighten high risk so it mostly rests on confidence of at least 0.8
+    const draft = structuredClone((await service.getProtocol('high-risk-protocol'))!);
+    draft.triggerConditions = parseConditionDsl('severity >= high weight 0.4\nconfidence >= 0.8 weight 0.6').conditions;
+
+    const since = new Date('2026-01-01T00:00:00Z');
+    const result = await simulator.simulate(draft, await service.getAllProtocols(), { since, limit: 10 });
+
+    expect(listAssessments).toHaveBeenCalledWith({ since, until: undefined, limit: 10 });
+    expect(result).toEqual(expect.objectContaining({
+      assessmentsReplayed: 4,
+      matchedByLive: 1,
+      matchedByDraft: 0,
+      newlyMatched: 0,
+      noLongerMatched: 1,
+    }));
+    // 'high' would no longer escalate; 'critical' ties and still goes to the critical protocol listed first
+    expect(result.changes).toEqual([expect.objectContaining({
+      assessmentId: 'high',
+      liveProtocolId: 'high-risk-protocol',
+      draftProtocolId: null,
+      draftScore: 0.4,
+    })]);
+    expect(result.bySeverity.high).toEqual({ assessments: 1, matchedByDraft: 0, matchedByLive: 1 });
+  });
+
+  it('refuses to simulate an invalid draft', async () => {
+    const simulator = new ProtocolSimulator({ listAssessments: async () => [] });
+
+    await expect(simulator.simulate(wellbeingProtocol({ escalationPath: [] }), []))
+      .rejects.toBeInstanceOf(ProtocolValidationError);
+  });
+});
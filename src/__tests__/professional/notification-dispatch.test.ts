@@ -0,0 +1,225 @@
+/**
+ * Notification dispatch: retries, timeouts, receipts and escalation fallbacks
+ */
+
+import { createServer, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import {
+  NotificationDispatcher,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDeliveryError,
+  Notification,
+  ChannelSendResult,
+  WebhookChannel,
+  InAppChannel,
+  InMemoryInboxStore,
+} from '@/services/notifications';
+import { SafetyEscalationService, EscalationRecord } from '@/services/safety/SafetyEscalationService';
+import { InMemoryEscalationStore } from '@/services/safety/escalation';
+import { ProfessionalNetworkService } from '@/services/professional/ProfessionalNetworkService';
+import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+
+class ScriptedChannel implements NotificationChannel {
+  calls: Notification[] = [];
+
+  constructor(
+    readonly type: NotificationChannelType,
+    private script: (notification: Notification, attempt: number) => Promise<ChannelSendResult>
+  ) {}
+
+  canDeliver(): boolean {
+    return true;
+  }
+
+  send(notification: Notification): Promise<ChannelSendResult> {
+    this.calls.push(notification);
+    return this.script(notification, this.calls.length);
+  }
+}
+
+const notification = (overrides: Partial<Notification> = {}): Notification => ({
+  id: 'notification-1',
+  recipient: { id: 'oncall', email: 'oncall@example.org', phone: '+15550100', userId: 'user-oncall' },
+  subject: 'Crisis escalation',
+  body: 'Please respond',
+  priority: 'critical',
+  ...overrides,
+});
+
+const fastRetries = { retryBaseMs: 1, retryMaxMs: 5 };
+
+describe('NotificationDispatcher', () => {
+  it('retries a transient failure and records a delivery receipt', async () => {
+    const sms = new ScriptedChannel('sms', async (_, attempt) => {
+      if (attempt < 3) throw new NotificationDeliveryError('gateway unavailable');
+      return { providerMessageId: 'sms-42' };
+    });
+    const dispatcher = new NotificationDispatcher([sms], fastRetries);
+
+    const result = await dispatcher.dispatch(notification(), { channels: ['sms'] });
+
+    expect(result.delivered).toBe(true);
+    expect(result.receipts).toEqual([expect.objectContaining({
+      channel: 'sms',
+      recipientId: 'oncall',
+      status: 'delivered',
+      attempts: 3,
+      providerMessageId: 'sms-42',
+    })]);
+  });
+
+  it('stops retrying on a permanent failure', async () => {
+    const email = new ScriptedChannel('email', async () => {
+      throw new NotificationDeliveryError('mailbox does not exist', false);
+    });
+    const dispatcher = new NotificationDispatcher([email], fastRetries);
+
+    const result = await dispatcher.dispatch(notification(), { channels: ['email'] });
+
+    expect(result.delivered).toBe(false);
+    expect(result.receipts[0]).toEqual(expect.objectContaining({ status: 'failed', attempts: 1 }));
+  });
+
+  it('times out a hung channel without holding up the others', async () => {
+    const push = new ScriptedChannel('push', () => new Promise(() => undefined));
+    const inApp = new ScriptedChannel('in_app', async () => ({ providerMessageId: 'inbox-1' }));
+    const dispatcher = new NotificationDispatcher([push, inApp], { ...fastRetries, maxAttempts: 1, attemptTimeoutMs: 20 });
+
+    const result = await dispatcher.dispatch(notification(), { channels: ['push', 'in_app'] });
+
+    expect(result.delivered).toBe(true);
+    expect(result.receipts.find(receipt => receipt.channel === 'push')).toEqual(
+      expect.objectContaining({ status: 'failed', error: 'push delivery timed out after 20ms' })
+    );
+  });
+
+  it('gives up when the dispatch deadline passes', async () => {
+    const sms = new ScriptedChannel('sms', () => new Promise(resolve => setTimeout(() => resolve({}), 100)));
+    const dispatcher = new NotificationDispatcher([sms], fastRetries);
+
+    const result = await dispatcher.dispatch(notification(), { channels: ['sms'], timeoutMs: 30 });
+
+    expect(result.delivered).toBe(false);
+    expect(result.receipts[0].error).toMatch(/timed out after \d+ms/);
+  });
+
+  it('skips channels that are not configured', async () => {
+    const dispatcher = new NotificationDispatcher([new InAppChannel(new InMemoryInboxStore())]);
+
+    const result = await dispatcher.dispatch(notification(), { channels: ['email', 'in_app'] });
+
+    expect(result.receipts.map(receipt => [receipt.channel, receipt.status])).toEqual([
+      ['email', 'skipped'],
+      ['in_app', 'delivered'],
+    ]);
+  });
+
+  it('posts signed JSON to a webhook gateway', async () => {
+    const requests: { headers: IncomingMessage['headers']; body: string }[] = [];
+    const server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        requests.push({ headers: request.headers, body });
+        response.writeHead(202, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ id: 'gateway-7' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const sms = new WebhookChannel('sms', { url: `http://127.0.0.1:${port}/sms`, secret: 'shh' });
+      const result = await new NotificationDispatcher([sms]).dispatch(notification(), { channels: ['sms'] });
+
+      expect(result.receipts[0]).toEqual(expect.objectContaining({ status: 'delivered', providerMessageId: 'gateway-7' }));
+      const [{ headers, body }] = requests;
+      expect(JSON.parse(body)).toEqual(expect.objectContaining({ channel: 'sms', to: '+15550100' }));
+      const expected = createHmac('sha256', 'shh').update(`${headers['x-notification-timestamp']}.${body}`).digest('hex');
+      expect(headers['x-notification-signature']).toBe(`sha256=${expected}`);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('SafetyEscalationService notification steps', () => {
+  // Polls until the first run of the escalation settles: finished, or waiting for an acknowledgement
+  const waitForSettled = async (service: SafetyEscalationService, id: string): Promise<EscalationRecord> => {
+    for (let i = 0; i < 100; i++) {
+      const escalation = await service.getEscalationById(id);
+      if (escalation && (escalation.stepState === 'awaiting_acknowledgement' || !escalation.nextRunAt)) {
+        return escalation;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Escalation ${id} never settled`);
+  };
+
+  const highRisk = {
+    severity: 'high',
+    confidence: 0.85,
+    indicators: { acuteAnxiety: true },
+    riskFactors: [],
+  };
+
+  it('runs the fallback when the assigned professional cannot be reached', async () => {
+    const inbox = new InMemoryInboxStore();
+    const unreachable = new ScriptedChannel('email', async () => {
+      throw new NotificationDeliveryError('relay refused', false);
+    });
+    const dispatcher = new NotificationDispatcher([unreachable, new InAppChannel(inbox)], fastRetries);
+    const service = new SafetyEscalationService(
+      new ProfessionalNetworkService(),
+      new SecureCommunicationService(),
+      dispatcher,
+      { supervisor: [{ id: 'supervisor-1', userId: 'user-supervisor' }] },
+      new InMemoryEscalationStore()
+    );
+    // The professional step only uses email, which fails
+    const protocol = (await service.getAllProtocols()).find(candidate => candidate.id === 'high-risk-protocol')!;
+    protocol.escalationPath[0].metadata.channels = ['email'];
+    await service.updateProtocol(protocol);
+
+    const started = await service.evaluateEscalation('user-1', 'session-1', highRisk);
+    const escalation = await waitForSettled(service, started!.id);
+
+    expect(escalation.steps.map(step => [step.stepId, step.success])).toEqual([
+      ['professional-assignment', false],
+      ['supervisor-escalation', true],
+    ]);
+    expect(escalation.steps[0].error).toContain('relay refused');
+    expect(escalation.steps[1].metadata.receipts).toContainEqual(
+      expect.objectContaining({ channel: 'in_app', recipientId: 'supervisor-1', status: 'delivered' })
+    );
+    expect(escalation.currentStepId).toBe('supervisor-escalation');
+
+    const [item] = await inbox.list('user-supervisor');
+    expect(item.escalationId).toBe(escalation.id);
+  });
+
+  it('fails the escalation when nobody could be contacted', async () => {
+    const service = new SafetyEscalationService(
+      new ProfessionalNetworkService(),
+      new SecureCommunicationService(),
+      new NotificationDispatcher([], fastRetries),
+      {},
+      new InMemoryEscalationStore()
+    );
+
+    const started = await service.evaluateEscalation('user-2', 'session-2', {
+      severity: 'critical',
+      confidence: 0.95,
+      indicators: { suicideIdeation: true },
+      riskFactors: [],
+    });
+    const escalation = await waitForSettled(service, started!.id);
+
+    expect(escalation.status).toBe('failed');
+    expect(escalation.outcome).toBe('no_contact_made');
+    expect(escalation.steps.every(step => !step.success)).toBe(true);
+    expect(escalation.steps[0].error).toBe('No crisis_team contacts configured');
+  });
+});
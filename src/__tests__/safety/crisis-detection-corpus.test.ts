@@ -0,0 +1,213 @@
+/**
+ * Labelled corpus for the linguistic preprocessing layer. Positives are first-person statements of
+ * current risk; negatives mention the same phrases negated, reported, quoted, hypothetically or about
+ * someone else, plus ordinary conversation. Precision and recall are measured over the whole corpus.
+ */
+
+import { CrisisDetectionEngine, createDefaultDetectors } from '@/services/crisis-detection';
+import { LexicalDetector } from '@/services/crisis-detection/detectors/LexicalDetector';
+
+interface LabelledMessage {
+  text: string;
+  crisis: boolean;
+}
+
+const CORPUS: LabelledMessage[] = [
+  // First-person risk
+  { text: 'I want to kill myself', crisis: true },
+  { text: "I'm going to end my life tonight", crisis: true },
+  { text: 'I have a plan to kill myself this weekend', crisis: true },
+  { text: "I don't want to live anymore", crisis: true },
+  { text: "I'm suicidal and I don't know what to do", crisis: true },
+  { text: 'I keep cutting myself to feel something', crisis: true },
+  { text: "Honestly I'd be better off dead", crisis: true },
+  { text: 'I feel worthless and hopeless', crisis: true },
+  { text: 'There is no reason to live anymore', crisis: true },
+  { text: 'I just want to die', crisis: true },
+  { text: "I can't take this anymore, I want to end it all", crisis: true },
+  { text: "I'm having a panic attack and I can't breathe", crisis: true },
+  { text: "I'm not okay. I want to die", crisis: true },
+  { text: "I don't know why but I want to die", crisis: true },
+  { text: 'My friend is worried about me because I keep saying I want to die', crisis: true },
+  { text: 'I told my sister I feel hopeless', crisis: true },
+  { text: "I'm not going to lie, I've been thinking about suicide a lot", crisis: true },
+  { text: 'Nobody cares and I want to kill myself', crisis: true },
+  { text: 'I have no energy and I want to die', crisis: true },
+  { text: "I'm tired of living like this", crisis: true },
+  { text: "I've been hurting myself again", crisis: true },
+  { text: "I'm going to overdose on my pills", crisis: true },
+  { text: 'I wish I was dead', crisis: true },
+  { text: 'Everything is hopeless and I give up', crisis: true },
+  { text: 'I started to starve myself again and feel worthless', crisis: true },
+  // First-person risk alongside clinical words, which must not discount it
+  { text: "I'm going to take all my medication tonight and end my life", crisis: true },
+  { text: "My therapist doesn't know but I want to kill myself", crisis: true },
+  { text: 'I stopped my medication and I keep cutting myself', crisis: true },
+  { text: 'After my diagnosis I just want to die', crisis: true },
+  { text: 'My doctor changed my treatment and I have a plan to kill myself', crisis: true },
+  // A negation in an earlier clause doesn't reach a new first-person one
+  { text: "I don't care I just want to die", crisis: true },
+  { text: "It doesn't matter I want to die", crisis: true },
+  { text: 'Nobody listens so I want to die', crisis: true },
+  { text: "Please don't be mad I cut myself again", crisis: true },
+  { text: "If things don't change I will kill myself", crisis: true },
+  { text: "I can't promise I won't hurt myself tonight", crisis: true },
+  { text: "I'm not joking, I want to kill myself", crisis: true },
+  // Discounted, but still surfaced: a joke can mask real intent
+  { text: 'I want to kill myself lol just kidding, this exam is hard', crisis: true },
+
+  // Negated
+  { text: 'I would never kill myself', crisis: false },
+  { text: "I don't want to kill myself, I just need to vent", crisis: false },
+  { text: "I'm not suicidal, just tired of work", crisis: false },
+  { text: "I'm not going to hurt myself, don't worry", crisis: false },
+  { text: "I don't feel hopeless anymore", crisis: false },
+  { text: 'I have no plan to kill myself', crisis: false },
+  { text: 'I no longer want to die, therapy really helped', crisis: false },
+  { text: "I'm not worthless, I know that now", crisis: false },
+
+  // Reported speech and third person
+  { text: 'My friend said she is suicidal', crisis: false },
+  { text: 'My brother told me he feels hopeless', crisis: false },
+  { text: 'She says she wants to end it all', crisis: false },
+  { text: 'My roommate keeps saying he wants to die', crisis: false },
+  { text: "I'm worried my sister is suicidal", crisis: false },
+  { text: 'My son feels worthless at school', crisis: false },
+  { text: 'He told me he was cutting himself', crisis: false },
+
+  // Quotation and lyrics
+  { text: 'The song goes "I want to die, I want to fly away"', crisis: false },
+  { text: 'Those lyrics about wanting to end my life are so dark', crisis: false },
+  { text: 'My favourite poem has the line "I am hopeless and worthless"', crisis: false },
+
+  // Hypothetical and fiction
+  { text: 'What if someone wanted to kill themselves in a movie?', crisis: false },
+  { text: 'In the movie the character says he wants to die', crisis: false },
+  { text: "Imagine feeling so hopeless you'd give up", crisis: false },
+  { text: 'In the book, the hero feels hopeless and worthless', crisis: false },
+
+  // Professional and educational
+  { text: 'My therapist says suicide prevention is important', crisis: false },
+  { text: "I'm writing an article about suicide prevention for my clinical course", crisis: false },
+
+  // Ordinary conversation
+  { text: "I'm feeling happy today and enjoying the weather", crisis: false },
+  { text: 'I killed it at my presentation today', crisis: false },
+  { text: 'This traffic is killing me', crisis: false },
+  { text: 'I need to pick up some drugstore items', crisis: false },
+  { text: 'The new recipe was to die for', crisis: false },
+  { text: "I'm dying to see the new movie", crisis: false },
+  { text: 'I had a good week and slept well', crisis: false },
+  { text: 'Can you recommend a book about mindfulness?', crisis: false },
+];
+
+function measure(predictions: boolean[]) {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  CORPUS.forEach((sample, i) => {
+    if (predictions[i] && sample.crisis) truePositives++;
+    if (predictions[i] && !sample.crisis) falsePositives++;
+    if (!predictions[i] && sample.crisis) falseNegatives++;
+  });
+
+  return {
+    precision: truePositives / (truePositives + falsePositives),
+    recall: truePositives / (truePositives + falseNegatives),
+  };
+}
+
+describe('Crisis detection corpus', () => {
+  const engine = new CrisisDetectionEngine(createDefaultDetectors());
+
+  // A message is flagged when the engine reports medium severity or above
+  async function flagged(text: string): Promise<boolean> {
+    const assessment = await engine.assess({ userId: 'corpus', sessionId: 'corpus', message: text });
+    return assessment !== null && assessment.severity !== 'low';
+  }
+
+  it('meets precision and recall targets on the labelled corpus', async () => {
+    const predictions = await Promise.all(CORPUS.map(sample => flagged(sample.text)));
+    const { precision, recall } = measure(predictions);
+
+    expect(precision).toBeGreaterThanOrEqual(0.9);
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('rates first-person suicide and self-harm disclosures critical despite clinical words', async () => {
+    const disclosures = [
+      "I'm going to take all my medication tonight and end my life",
+      'I stopped my medication and I keep cutting myself',
+      'After my diagnosis I just want to die',
+    ];
+
+    for (const message of disclosures) {
+      const assessment = await engine.assess({ userId: 'corpus', sessionId: 'corpus', message });
+      expect({ message, severity: assessment?.severity }).toEqual({ message, severity: 'critical' });
+      expect(assessment!.riskFactors).not.toContain('professional_context');
+    }
+
+    const discussion = await engine.assess({
+      userId: 'corpus',
+      sessionId: 'corpus',
+      message: 'My therapist says suicide prevention is important',
+    });
+    expect(discussion?.severity ?? 'low').toBe('low');
+  });
+
+  it('rates disclosures critical when an earlier clause is negated', async () => {
+    const disclosures = [
+      "I don't care I just want to die",
+      "I can't promise I won't hurt myself tonight",
+      "I'm not joking, I want to kill myself",
+    ];
+
+    for (const message of disclosures) {
+      const assessment = await engine.assess({ userId: 'corpus', sessionId: 'corpus', message });
+      expect({ message, severity: assessment?.severity }).toEqual({ message, severity: 'critical' });
+    }
+  });
+
+  it.each([
+    ['No me importa quiero morir', 'es'],
+    ['Não me importa quero morrer', 'pt'],
+    ['Je ne sais plus quoi faire je veux mourir', 'fr'],
+    ['Ich weiß nicht weiter ich will sterben', 'de'],
+  ])('keeps a negation out of the next first-person clause in "%s" (%s)', async (message, language) => {
+    const assessment = await engine.assess({ userId: 'corpus', sessionId: 'corpus', message });
+
+    expect(assessment).toMatchObject({ language, severity: 'critical' });
+    expect(assessment!.riskFactors).not.toContain('negation_detected');
+  });
+
+  it('still reports negated first-person disclosures, at low severity', async () => {
+    const assessment = await engine.assess({ userId: 'corpus', sessionId: 'corpus', message: 'I would never kill myself' });
+
+    expect(assessment).toMatchObject({ severity: 'low', indicators: { suicideIdeation: false } });
+    expect(assessment!.riskFactors).toContain('negation_detected');
+  });
+
+  it('exposes why a phrase was discounted', async () => {
+    const negated = new LexicalDetector().match('I would never kill myself');
+    expect(negated!.adjustments).toEqual([
+      expect.objectContaining({ term: 'kill myself', framings: ['negated'], cues: ['never'] }),
+    ]);
+    expect(negated!.categories).toEqual([]);
+
+    const assessment = await engine.assess({
+      userId: 'corpus',
+      sessionId: 'corpus',
+      message: "I'm so hopeless. My friend said she is suicidal too",
+    });
+
+    expect(assessment!.indicators.severeDepression).toBe(true);
+    expect(assessment!.indicators.suicideIdeation).toBe(false);
+    expect(assessment!.indicators.other).toContain('third_party_concern');
+    expect(assessment!.riskFactors).toEqual(expect.arrayContaining(['reported_speech', 'third_person_subject']));
+    expect(assessment!.adjustments).toContainEqual(expect.objectContaining({
+      term: 'suicidal',
+      framings: ['reported', 'third_person'],
+    }));
+  });
+});
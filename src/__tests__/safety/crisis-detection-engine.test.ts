@@ -0,0 +1,77 @@
+import {
+  CrisisDetectionEngine,
+  CrisisDetector,
+  DetectorResult,
+  createDefaultDetectors,
+} from '@/services/crisis-detection';
+import { CrisisDetectionService } from '@/services/safety/CrisisDetectionService';
+
+class FixedDetector implements CrisisDetector {
+  constructor(
+    readonly name: string,
+    readonly weight: number,
+    private result: DetectorResult | null | Error
+  ) {}
+
+  async detect(): Promise<DetectorResult | null> {
+    if (this.result instanceof Error) throw this.result;
+    return this.result;
+  }
+}
+
+const request = { userId: 'user1', sessionId: 'session1', message: 'Some message' };
+
+describe('CrisisDetectionEngine', () => {
+  it('gives the chat and safety API entry points the same verdict', async () => {
+    const engine = new CrisisDetectionEngine(createDefaultDetectors());
+    const message = "I feel worthless and I can't take this anymore";
+
+    const direct = await engine.assess({ userId: 'user1', sessionId: 'session1', conversationId: 'session1', message });
+    const adapted = await new CrisisDetectionService(engine).analyzeMessage('user1', 'session1', message);
+
+    expect(direct).not.toBeNull();
+    expect(adapted!.severity).toBe(direct!.severity);
+    expect(adapted!.confidence).toBe(direct!.confidence);
+    expect(adapted!.indicators).toEqual(direct!.indicators);
+  });
+
+  it('combines independent detectors so agreeing evidence reinforces', async () => {
+    const signal: DetectorResult = { score: 0.6, categories: ['acuteAnxiety'], evidence: ['x'], riskFactors: ['x'] };
+    const single = await new CrisisDetectionEngine([new FixedDetector('a', 1, signal)]).assess(request);
+    const both = await new CrisisDetectionEngine([
+      new FixedDetector('a', 1, signal),
+      new FixedDetector('b', 1, signal),
+    ]).assess(request);
+
+    expect(single!.confidence).toBeCloseTo(0.6);
+    expect(both!.confidence).toBeCloseTo(0.84);
+    expect(both!.signals.map(s => s.detector)).toEqual(['a', 'b']);
+    expect(both!.indicators.acuteAnxiety).toBe(true);
+  });
+
+  it('keeps assessing when one detector throws', async () => {
+    const engine = new CrisisDetectionEngine([
+      new FixedDetector('broken', 1, new Error('provider down')),
+      new FixedDetector('lexical', 1, { score: 0.95, categories: ['suicideIdeation'], evidence: [], riskFactors: [] }),
+    ]);
+
+    const assessment = await engine.assess(request);
+
+    expect(assessment!.severity).toBe('critical');
+    expect(assessment!.immediate).toBe(true);
+    expect(assessment!.signals.map(s => s.detector)).toEqual(['lexical']);
+  });
+
+  it('uses conversation history to read short messages in context', async () => {
+    const engine = new CrisisDetectionEngine(createDefaultDetectors());
+    const withoutHistory = await engine.assess({ ...request, message: 'I give up' });
+    const withHistory = await engine.assess({
+      ...request,
+      message: 'I give up',
+      conversationHistory: ['I feel hopeless', 'Everything feels worthless'],
+    });
+
+    expect(withHistory!.confidence).toBeGreaterThan(withoutHistory!.confidence);
+    expect(withHistory!.riskFactors).toContain('repeated_crisis_indicators');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Lexicon packs, language detection and locale-appropriate crisis resources
+ */
+
+import { CrisisDetectionEngine, LexicalDetector, createDefaultDetectors, detectLanguage } from '@/services/crisis-detection';
+import { CrisisResourceService } from '@/services/safety/CrisisResourceService';
+
+describe('Multilingual crisis detection', () => {
+  const engine = new CrisisDetectionEngine(createDefaultDetectors());
+
+  const assess = (message: string, language?: string) =>
+    engine.assess({ userId: 'user-1', sessionId: 'session-1', message, language });
+
+  describe('language detection', () => {
+    it.each([
+      ['Ya no aguanto más, estoy muy cansada de todo', 'es'],
+      ['Eu não aguento mais, estou muito cansado', 'pt'],
+      ["Je suis épuisé, je n'en peux plus", 'fr'],
+      ['Ich bin so müde und kann nicht mehr', 'de'],
+      ["I'm so tired and I can't do this anymore", 'en'],
+    ])('detects %s as %s', (text, language) => {
+      expect(detectLanguage(text)).toEqual(expect.objectContaining({ language, detected: true }));
+    });
+
+    it('keeps the preferred language when the message is inconclusive', () => {
+      expect(detectLanguage('ok...', 'pt')).toEqual({ language: 'pt', confidence: 0, detected: false });
+    });
+  });
+
+  it.each([
+    ['Quiero matarme, ya no puedo más', 'es'],
+    ['Eu quero me matar, não aguento mais', 'pt'],
+    ['Je veux me suicider ce soir', 'fr'],
+    ['Ich will mich umbringen', 'de'],
+  ])('flags "%s" as critical suicide ideation in %s', async (message, language) => {
+    const assessment = await assess(message);
+
+    expect(assessment).not.toBeNull();
+    expect(assessment!.language).toBe(language);
+    expect(assessment!.severity).toBe('critical');
+    expect(assessment!.indicators.suicideIdeation).toBe(true);
+  });
+
+  it('matches unaccented spelling against accented lexicon terms', async () => {
+    const assessment = await assess('estoy sin esperanza y no valgo nada, necesito ayuda');
+
+    expect(assessment!.language).toBe('es');
+    expect(assessment!.indicators.severeDepression).toBe(true);
+  });
+
+  it.each([
+    ['Nunca voy a matarme, tranquila', 'es', ['negated']],
+    ['Ich bin nicht suizidal', 'de', ['negated']],
+    ["Mon frère m'a dit qu'il est suicidaire", 'fr', ['reported', 'third_person']],
+  ])('discounts framed phrases in "%s" using %s cues', (message, language, framings) => {
+    const lexical = engine.getDetector<LexicalDetector>('lexical')!;
+    const result = lexical.match(message as string, language as string);
+
+    expect(result!.categories).toEqual([]);
+    expect(result!.adjustments).toEqual([expect.objectContaining({ framings })]);
+  });
+
+  it('still scans English phrases in a message written in another language', async () => {
+    const assessment = await assess('Estoy muy mal, honestly I want to kill myself', 'es');
+
+    expect(assessment!.indicators.suicideIdeation).toBe(true);
+  });
+
+  describe('locale-appropriate resources', () => {
+    const resources = new CrisisResourceService();
+
+    it('lists national services in the user language first', () => {
+      const brazil = resources.forLocale('pt-BR');
+      expect(brazil.resources[0].id).toBe('cvv-brazil');
+      expect(brazil.resources.every(resource => resource.languages.includes('Portuguese'))).toBe(true);
+      expect(brazil.disclaimer).toContain('192');
+
+      const austria = resources.forLocale('de-AT');
+      expect(austria.resources[0].id).toBe('telefonseelsorge-austria');
+      expect(austria.resources.map(resource => resource.id)).not.toContain('telefonseelsorge-germany');
+    });
+
+    it('localizes the disclaimer without a country', () => {
+      const french = resources.forLocale('fr');
+      expect(french.resources.map(resource => resource.id)).toContain('numero-national-prevention-suicide-france');
+      expect(french.disclaimer).toMatch(/numéro d'urgence/);
+    });
+
+    it('never returns an empty list for an unsupported locale', () => {
+      const japanese = resources.forLocale('ja-JP');
+      expect(japanese.resources.length).toBeGreaterThan(0);
+    });
+
+    it('accepts ISO codes as well as language names in the language filter', () => {
+      expect(resources.find({ language: 'es' })).toEqual(resources.find({ language: 'Spanish' }));
+    });
+  });
+});
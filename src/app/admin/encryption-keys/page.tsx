@@ -0,0 +1,17 @@
+import { EncryptionKeyManager } from "@/components/admin/EncryptionKeyManager";
+
+export default function AdminEncryptionKeysPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Encryption Keys</h1>
+        <p className="text-muted-foreground">
+          Rotation status for each key domain. Rotating or marking a key compromised starts a background
+          job that moves existing records onto the new key.
+        </p>
+      </div>
+
+      <EncryptionKeyManager />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { EscalationProtocolEditor } from "@/components/admin/EscalationProtocolEditor";
+
+export default function AdminEscalationProtocolsPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Escalation Protocols</h1>
+        <p className="text-muted-foreground">
+          Define when a crisis assessment escalates and who is contacted. Edits are versioned drafts
+          that can be dry-run against past assessments before they go live, and every change is audited.
+        </p>
+      </div>
+
+      <EscalationProtocolEditor />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { ModerationDashboard } from "@/components/admin/ModerationDashboard";
+
+export default function AdminModerationPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Community Moderation</h1>
+        <p className="text-muted-foreground">
+          Posts and comments held on posting or reported by members, with possible crisis disclosures first.
+          Crisis disclosures have already been passed to the safety team.
+        </p>
+      </div>
+
+      <ModerationDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
+import { getAccountDataService } from '@/services/compliance/data-rights';
+
+const requestDeletionSchema = z.object({
+  reason: z.string().max(1000).optional()
+});
+
+async function sessionUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id ?? null;
+}
+
+function errorResponse(error: unknown, message: string) {
+  logger.error({
+    error: error instanceof Error ? error.message : 'Unknown error'
+  }, `Account deletion API error: ${message}`);
+
+  return NextResponse.json({
+    error: message,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// The signed-in user's latest deletion request, if any
+export const GET = withPhiAudit({
+  action: 'account.deletion.read',
+  resourceType: 'account',
+  purpose: 'user_request'
+}, async (_request, access) => {
+  try {
+    const userId = await sessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    access.resourceId = userId;
+    access.subjectId = userId;
+
+    const deletion = await getAccountDataService().getDeletionStatus(userId);
+    return NextResponse.json({ success: true, data: deletion });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to get account deletion status');
+  }
+});
+
+// Schedule the account for erasure after the grace period; asking again returns the pending request
+export const POST = withPhiAudit({
+  action: 'account.deletion.request',
+  resourceType: 'account',
+  purpose: 'user_request'
+}, async (request: NextRequest, access) => {
+  try {
+    const userId = await sessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    access.resourceId = userId;
+    access.subjectId = userId;
+
+    const body = await request.json().catch(() => ({}));
+    const { reason } = requestDeletionSchema.parse(body);
+
+    const deletion = await getAccountDataService().requestDeletion(userId, reason);
+    access.metadata = { requestId: deletion.id, scheduledFor: deletion.scheduledFor.toISOString() };
+
+    return NextResponse.json({ success: true, data: deletion }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    return errorResponse(error, 'Failed to request account deletion');
+  }
+});
+
+// Cancel the pending request while the grace period lasts
+export const DELETE = withPhiAudit({
+  action: 'account.deletion.cancel',
+  resourceType: 'account',
+  purpose: 'user_request'
+}, async (_request, access) => {
+  try {
+    const userId = await sessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    access.resourceId = userId;
+    access.subjectId = userId;
+
+    const cancelled = await getAccountDataService().cancelDeletion(userId);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'No pending account deletion' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: cancelled });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel account deletion');
+  }
+});
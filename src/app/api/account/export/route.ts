@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
+import { getAccountDataService } from '@/services/compliance/data-rights';
+
+// Download everything held about the signed-in user as one JSON document
+export const GET = withPhiAudit({
+  action: 'account.export',
+  resourceType: 'account',
+  purpose: 'user_request'
+}, async (_request, access) => {
+  try {
+    const session = await getServerSession(authOptions);
+    const user = session?.user;
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    access.resourceId = user.id;
+    access.subjectId = user.id;
+
+    const archive = await getAccountDataService().exportAccount(user.id);
+    const filename = `account-export-${archive.exportedAt.toISOString().slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Account export API error');
+
+    return NextResponse.json({
+      error: 'Failed to export account data',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { parseAuditQuery, withPhiAudit } from '@/lib/phi-audit';
+import { AuditExportFormat, getAuditLog } from '@/services/compliance/audit';
+
+// Download every matching entry, oldest first, as ?format=csv (default) or json, with hashes included
+export const GET = withPhiAudit({
+  action: 'audit_log.export',
+  resourceType: 'audit_log',
+  purpose: 'compliance'
+}, async (request, access) => {
+  try {
+    const { response } = await requirePermission('audit_log.read');
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as AuditExportFormat;
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Invalid format, expected csv or json' }, { status: 400 });
+    }
+
+    const parsed = parseAuditQuery(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Paging is the export's own; any before or limit given is ignored
+    const { query } = parsed;
+    access.subjectId = query.subjectId;
+    access.metadata = { format };
+
+    const body = await getAuditLog().export(query, format);
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to export audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
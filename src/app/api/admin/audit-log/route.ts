@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { parseAuditQuery, withPhiAudit } from '@/lib/phi-audit';
+import { getAuditLog } from '@/services/compliance/audit';
+
+// PHI access audit log, newest first. Filters: see parseAuditQuery. Reading the log is itself audited.
+export const GET = withPhiAudit({
+  action: 'audit_log.read',
+  resourceType: 'audit_log',
+  purpose: 'compliance'
+}, async (request, access) => {
+  try {
+    const { response } = await requirePermission('audit_log.read');
+    if (response) return response;
+
+    const parsed = parseAuditQuery(new URL(request.url).searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { query } = parsed;
+    access.subjectId = query.subjectId;
+    const entries = await getAuditLog().query(query);
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      nextCursor: entries.length === query.limit ? entries[entries.length - 1].sequence : null
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { getAuditLog } from '@/services/compliance/audit';
+
+// Walk the hash chain, from ?from= (a sequence) or the start, and report where it breaks if it does
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('audit_log.read');
+    if (response) return response;
+
+    const from = new URL(request.url).searchParams.get('from');
+    if (from && !/^\d+$/.test(from)) {
+      return NextResponse.json({ error: 'Invalid from parameter, expected a sequence number' }, { status: 400 });
+    }
+
+    const verification = await getAuditLog().verify(from ? parseInt(from, 10) : 1);
+
+    return NextResponse.json({ success: true, verification });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to verify audit log',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { KEY_DOMAINS, KeyDomain, getKeyring } from '@/services/security/keyring';
+
+// Mark a key compromised: { keyId, reason }. Rotates first if it is the active key; the re-encryption
+// job then re-encrypts its records with fresh data keys.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('encryption_keys.manage');
+    if (response) return response;
+
+    const { domain } = await params;
+    if (!KEY_DOMAINS.includes(domain as KeyDomain)) {
+      return NextResponse.json({ error: `Unknown key domain: ${domain}` }, { status: 404 });
+    }
+
+    const { keyId, reason } = await request.json();
+    if (typeof keyId !== 'string' || typeof reason !== 'string' || reason.trim() === '') {
+      return NextResponse.json({ error: 'Missing required fields: keyId, reason' }, { status: 400 });
+    }
+
+    const keyring = getKeyring(domain as KeyDomain);
+    await keyring.load();
+    if (!keyring.listKeys().some(key => key.id === keyId)) {
+      return NextResponse.json({ error: 'Key not found' }, { status: 404 });
+    }
+
+    const key = await keyring.compromise(keyId, reason.trim(), user.id);
+
+    return NextResponse.json({ success: true, key, activeKeyId: keyring.getActiveKeyInfo().id });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to mark encryption key compromised',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
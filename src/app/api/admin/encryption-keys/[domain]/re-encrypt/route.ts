@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { KEY_DOMAINS, KeyDomain, getReEncryptionJob } from '@/services/security/keyring';
+
+// Move the domain's records onto its active key now instead of waiting for the next poll
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    const { response } = await requirePermission('encryption_keys.manage');
+    if (response) return response;
+
+    const { domain } = await params;
+    if (!KEY_DOMAINS.includes(domain as KeyDomain)) {
+      return NextResponse.json({ error: `Unknown key domain: ${domain}` }, { status: 404 });
+    }
+
+    const job = getReEncryptionJob();
+    const run = await job.runDomain(domain as KeyDomain);
+
+    return NextResponse.json({ success: true, run, progress: await job.getProgress(domain as KeyDomain) });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to re-encrypt records',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
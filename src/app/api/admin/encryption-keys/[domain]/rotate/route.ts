@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { KEY_DOMAINS, KeyDomain, getKeyring } from '@/services/security/keyring';
+
+// Activate a new key for the domain; the re-encryption job then moves existing records onto it
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('encryption_keys.manage');
+    if (response) return response;
+
+    const { domain } = await params;
+    if (!KEY_DOMAINS.includes(domain as KeyDomain)) {
+      return NextResponse.json({ error: `Unknown key domain: ${domain}` }, { status: 404 });
+    }
+
+    const key = await getKeyring(domain as KeyDomain).rotate(user.id);
+
+    return NextResponse.json({ success: true, key });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to rotate encryption key',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
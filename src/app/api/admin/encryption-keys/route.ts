@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { KEY_DOMAINS, getKeyring, getReEncryptionJob } from '@/services/security/keyring';
+
+// Rotation status, keys and re-encryption progress for every key domain. Never includes key material.
+export async function GET() {
+  try {
+    const { response } = await requirePermission('encryption_keys.manage');
+    if (response) return response;
+
+    const job = getReEncryptionJob();
+    const domains = await Promise.all(KEY_DOMAINS.map(async domain => {
+      const keyring = getKeyring(domain);
+      await keyring.load();
+
+      return {
+        domain,
+        rotation: keyring.getRotationStatus(),
+        keys: keyring.listKeys(),
+        reEncryption: await job.getProgress(domain)
+      };
+    }));
+
+    return NextResponse.json({ success: true, domains });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to load encryption keys',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
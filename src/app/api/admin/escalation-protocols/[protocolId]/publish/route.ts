@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { getSafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { ProtocolValidationError } from '@/services/safety/escalation';
+
+const escalationService = getSafetyEscalationService();
+
+// Make a draft version live: { version: number }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ protocolId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const { protocolId } = await params;
+    const { version } = await request.json();
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: 'Missing required field: version' }, { status: 400 });
+    }
+
+    const protocol = await escalationService.publishProtocolVersion(protocolId, version, user.id);
+    if (!protocol) {
+      return NextResponse.json({
+        error: 'No draft to publish',
+        message: `Protocol ${protocolId} has no draft version ${version}`
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, protocol });
+
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) {
+      return NextResponse.json({ error: 'Invalid escalation protocol', issues: error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      error: 'Failed to publish escalation protocol',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { getSafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { ProtocolValidationError, formatConditionDsl } from '@/services/safety/escalation';
+
+const escalationService = getSafetyEscalationService();
+
+// The live protocol and every version of it, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ protocolId: string }> }
+) {
+  try {
+    const { response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const { protocolId } = await params;
+    const [protocol, versions] = await Promise.all([
+      escalationService.getProtocol(protocolId),
+      escalationService.getProtocolVersions(protocolId)
+    ]);
+    if (!protocol && versions.length === 0) {
+      return NextResponse.json({ error: 'Protocol not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      protocol: protocol && { ...protocol, conditions: formatConditionDsl(protocol.triggerConditions) },
+      versions: versions.map(version => ({
+        ...version,
+        conditions: formatConditionDsl(version.definition.triggerConditions)
+      }))
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch escalation protocol',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Switch a live protocol on or off: { active: boolean }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ protocolId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const { protocolId } = await params;
+    const { active } = await request.json();
+    if (typeof active !== 'boolean') {
+      return NextResponse.json({ error: 'active must be true or false' }, { status: 400 });
+    }
+
+    const protocol = await escalationService.setProtocolActive(protocolId, active, user.id);
+    if (!protocol) {
+      return NextResponse.json({ error: 'Protocol not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, protocol });
+
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) {
+      return NextResponse.json({ error: 'Invalid escalation protocol', issues: error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      error: 'Failed to update escalation protocol',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { getSafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+
+const escalationService = getSafetyEscalationService();
+
+// Who changed which protocol, newest first. Filters: protocolId, actorId, before (cursor), limit.
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const before = searchParams.get('before');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+
+    const entries = await escalationService.getProtocolAuditTrail({
+      protocolId: searchParams.get('protocolId') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      before: before ? new Date(before) : undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      nextCursor: entries.length === limit ? entries[entries.length - 1].createdAt.toISOString() : null
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch protocol audit trail',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import {
+  EscalationProtocol,
+  getSafetyEscalationService
+} from '@/services/safety/SafetyEscalationService';
+import {
+  ProtocolValidationError,
+  formatConditionDsl,
+  readTriggerConditions
+} from '@/services/safety/escalation';
+
+const escalationService = getSafetyEscalationService();
+
+// Live protocols, with their conditions in the editor's DSL and any open draft
+export async function GET() {
+  try {
+    const { response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const protocols = await escalationService.getAllProtocols();
+    const summaries = await Promise.all(protocols.map(async protocol => {
+      const [latest] = await escalationService.getProtocolVersions(protocol.id);
+      return {
+        ...protocol,
+        conditions: formatConditionDsl(protocol.triggerConditions),
+        draftVersion: latest?.status === 'draft' ? latest.version : null
+      };
+    }));
+
+    return NextResponse.json({ success: true, protocols: summaries });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch escalation protocols',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Save a draft of a new or existing protocol. `protocol.triggerConditions` may be DSL text.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const { protocol, note } = await request.json();
+    if (!protocol || typeof protocol !== 'object') {
+      return NextResponse.json({ error: 'Missing required field: protocol' }, { status: 400 });
+    }
+
+    const { conditions, errors } = readTriggerConditions(protocol.triggerConditions);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid trigger conditions', errors }, { status: 400 });
+    }
+
+    const draft = await escalationService.saveProtocolDraft(
+      { ...protocol, triggerConditions: conditions } as EscalationProtocol,
+      user.id,
+      typeof note === 'string' ? note : undefined
+    );
+
+    return NextResponse.json({ success: true, draft }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) {
+      return NextResponse.json({ error: 'Invalid escalation protocol', issues: error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      error: 'Failed to save protocol draft',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import {
+  EscalationProtocol,
+  getSafetyEscalationService
+} from '@/services/safety/SafetyEscalationService';
+import {
+  ProtocolSimulator,
+  ProtocolValidationError,
+  readTriggerConditions
+} from '@/services/safety/escalation';
+import { CrisisAssessmentRepository } from '@/services/crisis-detection/CrisisAssessmentRepository';
+
+const escalationService = getSafetyEscalationService();
+const simulator = new ProtocolSimulator(new CrisisAssessmentRepository());
+
+/**
+ * Dry-run a protocol against past crisis assessments. Send either an unsaved `protocol`
+ * (conditions may be DSL text) or the `protocolId` and `version` of a saved one,
+ * plus an optional `since`/`until` window and `limit`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('escalation_protocols.manage');
+    if (response) return response;
+
+    const body = await request.json();
+    let draft: EscalationProtocol;
+
+    if (body.protocol && typeof body.protocol === 'object') {
+      const { conditions, errors } = readTriggerConditions(body.protocol.triggerConditions);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid trigger conditions', errors }, { status: 400 });
+      }
+      draft = { version: 0, ...body.protocol, triggerConditions: conditions };
+    } else if (body.protocolId && Number.isInteger(body.version)) {
+      const saved = await escalationService.getProtocolVersion(body.protocolId, body.version);
+      if (!saved) {
+        return NextResponse.json({ error: 'Protocol version not found' }, { status: 404 });
+      }
+      draft = saved.definition;
+    } else {
+      return NextResponse.json({
+        error: 'Missing required fields: protocol, or protocolId and version'
+      }, { status: 400 });
+    }
+
+    const since = body.since ? new Date(body.since) : undefined;
+    const until = body.until ? new Date(body.until) : undefined;
+    if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+      return NextResponse.json({ error: 'since and until must be ISO dates' }, { status: 400 });
+    }
+
+    const result = await simulator.simulate(draft, await escalationService.getAllProtocols(), {
+      since,
+      until,
+      limit: Number.isInteger(body.limit) && body.limit > 0 ? body.limit : undefined
+    });
+
+    return NextResponse.json({ success: true, simulation: result });
+
+  } catch (error) {
+    if (error instanceof ProtocolValidationError) {
+      return NextResponse.json({ error: 'Invalid escalation protocol', issues: error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      error: 'Failed to simulate escalation protocol',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
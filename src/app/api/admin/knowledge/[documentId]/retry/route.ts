@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { getIngestionWorker } from '@/services/knowledge/jobs';
+
+const knowledgeService = new KnowledgeBaseService();
+
+// Re-queue a document whose ingestion failed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('knowledge.manage');
+    if (response) return response;
+
+    const { documentId } = await params;
+    const document = await knowledgeService.getDocumentStatus(documentId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (document.status !== 'error') {
+      return NextResponse.json({
+        error: 'Document is not in a failed state',
+        message: `Only failed documents can be retried (current status: ${document.status})`
+      }, { status: 409 });
+    }
+
+    const job = await getIngestionWorker().enqueue(documentId);
+
+    logger.info({ userId: user.id, documentId, jobId: job.id }, 'Knowledge ingestion retry requested');
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      jobId: job.id,
+      status: 'queued'
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to retry document processing',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
 import { unlink } from 'fs/promises';
-import { join } from 'path';
 
 const knowledgeService = new KnowledgeBaseService();
 
@@ -12,26 +10,24 @@ export async function DELETE(
   { params }: { params: Promise<{ documentId: string }> }
 ) {
   try {
-    // Get user session and check admin role
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { response } = await requirePermission('knowledge.manage');
+    if (response) return response;
 
     const { documentId } = await params;
 
-    // Remove from knowledge base
-    // Note: In a real implementation, you'd also remove from vector database
-    // For now, we'll just remove from our in-memory store
+    // Remove the document record; its chunks and embeddings cascade with it
+    const document = await knowledgeService.deleteDocument(documentId);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
 
-    // Try to delete the file if it exists
-    try {
-      const uploadDir = join(process.cwd(), 'uploads', 'knowledge');
-      // Note: In production, you'd need to track the actual filename
-      // For now, this is a placeholder
-    } catch (error) {
-      // File might not exist or already deleted, continue
+    // Try to delete the original upload if it exists
+    if (document.filePath) {
+      try {
+        await unlink(document.filePath);
+      } catch {
+        // File might not exist or already deleted, continue
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+
+const knowledgeService = new KnowledgeBaseService();
+
+// Re-embed documents whose stored embeddings came from a different model than the configured one
+export async function POST() {
+  try {
+    const { user, response } = await requirePermission('knowledge.manage');
+    if (response) return response;
+
+    const result = await knowledgeService.reembedStaleDocuments();
+
+    logger.info({
+      userId: user.id,
+      model: result.model,
+      reembeddedCount: result.reembedded.length,
+      failedCount: result.failed.length
+    }, 'Knowledge re-embedding requested');
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to re-embed documents',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
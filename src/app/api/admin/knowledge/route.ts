@@ -1,20 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
 
 const knowledgeService = new KnowledgeBaseService();
 
 export async function GET(request: NextRequest) {
   try {
-    // Get user session and check admin role
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { response } = await requirePermission('knowledge.manage');
+    if (response) return response;
 
-    const documents = knowledgeService.getAllDocuments();
+    const documents = await knowledgeService.getAllDocuments();
 
     return NextResponse.json({
       success: true,
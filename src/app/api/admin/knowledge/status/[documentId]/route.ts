@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { getIngestionWorker } from '@/services/knowledge/jobs';
 
 const knowledgeService = new KnowledgeBaseService();
 
@@ -10,24 +10,36 @@ export async function GET(
   { params }: { params: Promise<{ documentId: string }> }
 ) {
   try {
-    // Get user session and check admin role
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { response } = await requirePermission('knowledge.manage');
+    if (response) return response;
 
     const { documentId } = await params;
-    const document = knowledgeService.getDocumentStatus(documentId);
+    const document = await knowledgeService.getDocumentStatus(documentId);
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
+    const job = await getIngestionWorker().getLatestJob(documentId);
+
     return NextResponse.json({
       documentId,
       status: document.status,
-      chunkCount: document.chunkCount
+      progress: document.status === 'ready' ? 100 : job?.progress ?? 0,
+      chunkCount: document.chunkCount,
+      pageCount: document.pageCount,
+      error: document.error,
+      errorCode: document.errorCode,
+      job: job ? {
+        id: job.id,
+        status: job.status,
+        stage: job.stage,
+        progress: job.progress,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextAttemptAt: job.status === 'queued' ? job.runAt.toISOString() : undefined,
+        lastError: job.lastError
+      } : null
     });
 
   } catch (error) {
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { KnowledgeBaseService } from '@/services/knowledge/KnowledgeBaseService';
+import { getIngestionWorker } from '@/services/knowledge/jobs';
 
 // Ensure upload directory exists
 const ensureUploadDir = async (dirPath: string) => {
@@ -17,17 +17,8 @@ const ensureUploadDir = async (dirPath: string) => {
 
 export async function POST(request: NextRequest) {
   try {
-    // Get user session and check admin role
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // TODO: Add admin role check
-    // if (!user.roles?.includes('admin')) {
-    //   return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
-    // }
+    const { user, response } = await requirePermission('knowledge.manage');
+    if (response) return response;
 
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -81,24 +72,24 @@ export async function POST(request: NextRequest) {
     // Initialize knowledge base service
     const knowledgeService = new KnowledgeBaseService();
 
-    // Start document processing (async)
-    processDocument(knowledgeService, documentId, filePath, {
+    const metadata = {
       filename: file.name,
       contentType,
       categories,
       uploadedBy: user.id,
       fileSize: file.size
-    }).catch(error => {
-      logger.error({
-        documentId,
-        error: error.message
-      }, 'Document processing failed');
-    });
+    };
+
+    // Persist the document record, then hand extraction, chunking and embedding to the ingestion queue
+    await knowledgeService.registerDocument(documentId, metadata, filePath);
+    const job = await getIngestionWorker().enqueue(documentId);
 
     return NextResponse.json({
       success: true,
       documentId,
-      message: 'Document uploaded successfully. Processing started.'
+      jobId: job.id,
+      status: 'queued',
+      message: 'Document uploaded successfully. Processing has been queued.'
     });
 
   } catch (error) {
@@ -112,50 +103,3 @@ export async function POST(request: NextRequest) {
     }, { status: 500 });
   }
 }
-
-// Async document processing function
-async function processDocument(
-  knowledgeService: KnowledgeBaseService,
-  documentId: string,
-  filePath: string,
-  metadata: any
-) {
-  try {
-    // Update document status to processing
-    await knowledgeService.updateDocumentStatus(documentId, 'processing');
-
-    // Extract text from document
-    const extractedText = await knowledgeService.extractText(filePath, metadata.contentType);
-
-    // Chunk the text
-    const chunks = await knowledgeService.chunkText(extractedText, {
-      chunkSize: 1000,
-      chunkOverlap: 200
-    });
-
-    // Generate embeddings for chunks
-    const embeddings = await knowledgeService.generateEmbeddings(chunks);
-
-    // Store chunks and embeddings in vector database
-    await knowledgeService.storeChunks(documentId, chunks, embeddings, metadata);
-
-    // Update document status to ready
-    await knowledgeService.updateDocumentStatus(documentId, 'ready', {
-      chunkCount: chunks.length
-    });
-
-    logger.info({
-      documentId,
-      chunkCount: chunks.length
-    }, 'Document processing completed');
-
-  } catch (error) {
-    // Update document status to error
-    await knowledgeService.updateDocumentStatus(documentId, 'error');
-
-    logger.error({
-      documentId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, 'Document processing failed');
-  }
-}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/authorization';
+import { MODERATION_ERROR_STATUS, ModerationError, getModerationService } from '@/services/community/moderation';
+import { getCommunityService } from '@/services/community/CommunityService';
+
+const actionSchema = z.object({
+  targetType: z.enum(['post', 'comment', 'user', 'group']),
+  targetId: z.string().min(1, 'Target ID is required'),
+  action: z.enum(['approve', 'reject', 'flag', 'ban', 'warn', 'delete']),
+  reason: z.string().min(1, 'Reason is required'),
+  duration: z.number().positive().optional() // Hours, for a temporary ban
+});
+
+// Actions taken on a target, oldest first: ?targetType=user&targetId=...
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const parsed = actionSchema.pick({ targetType: true, targetId: true }).safeParse({
+      targetType: searchParams.get('targetType'),
+      targetId: searchParams.get('targetId')
+    });
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: parsed.error.issues,
+      }, { status: 400 });
+    }
+
+    const { targetType, targetId } = parsed.data;
+    const [actions, activeBan] = await Promise.all([
+      getCommunityService().getModerationActions(targetType, targetId),
+      targetType === 'user' ? getModerationService().getActiveBan(targetId) : Promise.resolve(null)
+    ]);
+
+    return NextResponse.json({ success: true, actions, activeBan });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch moderation actions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Act on a post, comment, member or group directly, e.g. a 24 hour ban:
+// { targetType: 'user', targetId, action: 'ban', reason, duration: 24 }
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const input = actionSchema.parse(await request.json());
+    const action = await getModerationService().takeAction({ ...input, moderatorId: user.id });
+
+    return NextResponse.json({ success: true, action }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message }, { status: MODERATION_ERROR_STATUS[error.code] });
+    }
+    return NextResponse.json({
+      error: 'Failed to perform moderation action',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/authorization';
+import { MODERATION_ERROR_STATUS, ModerationError, getModerationService } from '@/services/community/moderation';
+
+const decisionSchema = z.object({
+  status: z.enum(['upheld', 'overturned']),
+  note: z.string().optional()
+});
+
+// Decide an appeal: { status: 'upheld' | 'overturned', note? }. Overturning lifts a ban or restores the content.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ appealId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const { appealId } = await params;
+    const decision = decisionSchema.parse(await request.json());
+    const appeal = await getModerationService().decideAppeal(appealId, user.id, decision);
+
+    return NextResponse.json({ success: true, appeal });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message }, { status: MODERATION_ERROR_STATUS[error.code] });
+    }
+    return NextResponse.json({
+      error: 'Failed to decide moderation appeal',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
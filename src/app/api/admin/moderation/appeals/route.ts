@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { AppealStatus, getModerationService } from '@/services/community/moderation';
+
+const APPEAL_STATUSES: AppealStatus[] = ['pending', 'upheld', 'overturned'];
+
+// Appeals with the action they contest, oldest first. Pending only unless ?status= says otherwise.
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const requested = new URL(request.url).searchParams.get('status') || 'pending';
+    if (requested !== 'all' && !APPEAL_STATUSES.includes(requested as AppealStatus)) {
+      return NextResponse.json({ error: `Unknown appeal status: ${requested}` }, { status: 400 });
+    }
+
+    const appeals = await getModerationService().listAppeals(
+      requested === 'all' ? undefined : requested as AppealStatus
+    );
+
+    return NextResponse.json({ success: true, appeals });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch moderation appeals',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
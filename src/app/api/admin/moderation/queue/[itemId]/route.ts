@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/authorization';
+import { MODERATION_ERROR_STATUS, ModerationError, getModerationService } from '@/services/community/moderation';
+
+const resolveSchema = z.object({
+  decision: z.enum(['approve', 'reject', 'delete']),
+  reason: z.string().min(1, 'Reason is required'),
+  banHours: z.number().int().min(0).optional() // Also ban the author; 0 bans permanently
+});
+
+// Decide a queue item: { decision, reason, banHours? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const { itemId } = await params;
+    const input = resolveSchema.parse(await request.json());
+    const result = await getModerationService().resolve(itemId, user.id, input);
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message }, { status: MODERATION_ERROR_STATUS[error.code] });
+    }
+    return NextResponse.json({
+      error: 'Failed to resolve moderation queue item',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { getModerationService } from '@/services/community/moderation';
+
+// Posts and comments awaiting review, urgent crisis disclosures first. ?status=resolved for the history.
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission('community.moderate');
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') === 'resolved' ? 'resolved' : 'pending';
+    const page = await getModerationService().listQueue({
+      status,
+      cursor: searchParams.get('cursor') || undefined,
+      limit: parseInt(searchParams.get('limit') || '20')
+    });
+
+    return NextResponse.json({ success: true, ...page });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch moderation queue',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
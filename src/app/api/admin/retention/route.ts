@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/authorization';
+import { getRetentionJob } from '@/services/compliance/retention';
+
+const runSchema = z.object({
+  dryRun: z.boolean().default(true)
+});
+
+// Retention policies and a dry run of what a purge would remove right now
+export async function GET() {
+  try {
+    const { user, response } = await requirePermission('retention.manage');
+    if (response) return response;
+
+    const job = getRetentionJob();
+    const run = await job.run({ dryRun: true, requestedBy: user.id });
+
+    return NextResponse.json({ success: true, policies: job.getPolicies(), run });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to load retention status',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Run the retention policies now. Dry runs unless `dryRun: false` is sent.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission('retention.manage');
+    if (response) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const { dryRun } = runSchema.parse(body);
+
+    const run = await getRetentionJob().run({ dryRun, requestedBy: user.id });
+
+    return NextResponse.json({ success: true, run });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    return NextResponse.json({
+      error: 'Failed to run retention policies',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/authorization';
+import { GRANTABLE_ROLES, Role } from '@/lib/permissions';
+import { getRoleService, RoleChangeError } from '@/services/security/roles';
+
+const setRolesSchema = z.object({
+  roles: z.array(z.enum(GRANTABLE_ROLES as [Role, ...Role[]]))
+});
+
+// The roles granted to a user, beyond the 'user' role everyone has
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { response } = await requirePermission('roles.manage');
+    if (response) return response;
+
+    const { userId } = await params;
+    const grants = await getRoleService().listGrants(userId);
+
+    return NextResponse.json({ success: true, userId, grants });
+
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Failed to fetch user roles',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Replace the user's granted roles: { roles: ['professional', ...] }. Takes effect within minutes.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { user, response } = await requirePermission('roles.manage');
+    if (response) return response;
+
+    const { userId } = await params;
+    const { roles } = setRolesSchema.parse(await request.json());
+
+    const change = await getRoleService().setRoles(userId, [...new Set(roles)], user.id);
+    const grants = await getRoleService().listGrants(userId);
+
+    return NextResponse.json({ success: true, userId, grants, ...change });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      error: 'Failed to update user roles',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
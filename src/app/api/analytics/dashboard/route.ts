@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AnalyticsDashboardService } from '@/services/analytics/AnalyticsDashboardService';
-import { ProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
+import { getProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
 import { logger } from '@/lib/logger';
 import { z } from 'zod';
 
@@ -23,7 +23,7 @@ const predictiveMetricsSchema = z.object({
   userId: z.string().min(1, 'User ID is required')
 });
 
-const progressService = new ProgressTrackingService();
+const progressService = getProgressTrackingService();
 const analyticsService = new AnalyticsDashboardService(progressService);
 
 export async function POST(request: NextRequest) {
@@ -1,28 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { AiService } from '@/services/ai/AiService';
-import { ConversationContext } from '@/services/ai/providers/IAiProvider';
-import { CrisisDetectionService, CrisisDetectionConfig } from '@/services/crisis-detection/CrisisDetectionService';
+import { AiResponse, ConversationContext } from '@/services/ai/providers/IAiProvider';
+import { CrisisAssessment, CrisisSeverity, getCrisisDetectionEngine } from '@/services/crisis-detection';
 import { PersonalizationService } from '@/services/personalization/PersonalizationService';
+import { KnowledgeRetriever, KnowledgeCitation } from '@/services/knowledge/KnowledgeRetriever';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
+import { encodeSseEvent, SSE_HEADERS } from '@/lib/sse';
+import { withPhiAudit } from '@/lib/phi-audit';
 
 // Cache for AiService instances per user
 const aiServiceCache = new Map<string, AiService>();
 
-// Crisis detection service (shared instance)
-const crisisDetectionConfig: CrisisDetectionConfig = {
-  enabled: true,
-  riskThresholds: { low: 2, medium: 4, high: 6 },
-  analysisFrequency: 'realtime',
-  aiModel: 'gpt-4', // Use GPT-4 for crisis analysis
-  alertChannels: ['email', 'inapp'],
-};
-
-let crisisDetectionService: CrisisDetectionService;
 let personalizationService: PersonalizationService;
 
+// Retrieves admin-curated knowledge base excerpts for each user message
+const knowledgeRetriever = new KnowledgeRetriever();
+
 // Simple rate limiting (in production, use Redis or similar)
 const userRequestCounts = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT = 50; // requests per hour
@@ -34,6 +30,7 @@ interface ChatRequest {
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  stream?: boolean; // Respond with server-sent events instead of a single JSON body
 }
 
 interface ChatMessage {
@@ -43,7 +40,11 @@ interface ChatMessage {
   timestamp: Date;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withPhiAudit({
+  action: 'chat.message.create',
+  resourceType: 'conversation',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     // Get user session
     const session = await getServerSession(authOptions);
@@ -53,6 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     const userId = user.id;
+    access.subjectId = userId;
 
     // Check rate limit
     if (!checkRateLimit(userId)) {
@@ -64,7 +66,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body: ChatRequest = await request.json();
-    const { message, conversationId, model, temperature, maxTokens } = body;
+    const { message, conversationId, model, temperature, maxTokens, stream } = body;
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
@@ -78,6 +80,7 @@ export async function POST(request: NextRequest) {
 
     // Get or create conversation
     let conversation = await getOrCreateConversation(userId, conversationId);
+    access.resourceId = conversation.id;
 
     // Get or create AiService for user
     let aiService = aiServiceCache.get(userId);
@@ -90,11 +93,6 @@ export async function POST(request: NextRequest) {
       await aiService.initialize();
       aiServiceCache.set(userId, aiService);
 
-      // Initialize crisis detection service if not already done
-      if (!crisisDetectionService) {
-        crisisDetectionService = new CrisisDetectionService(aiService, crisisDetectionConfig);
-      }
-
       // Initialize personalization service if not already done
       if (!personalizationService) {
         personalizationService = new PersonalizationService(aiService);
@@ -117,13 +115,40 @@ export async function POST(request: NextRequest) {
       content: sanitizedMessage,
     });
 
+    // Ground the reply in the knowledge base when relevant excerpts exist
+    const knowledge = await knowledgeRetriever.retrieve(sanitizedMessage);
+    if (knowledge.systemMessage) {
+      context.messages.unshift({
+        role: 'system',
+        content: knowledge.systemMessage,
+      });
+    }
+
     logger.info({
       userId,
       conversationId: conversation.id,
       messageLength: sanitizedMessage.length,
       model,
+      stream: !!stream,
+      citationCount: knowledge.citations.length,
+      knowledgeTokens: knowledge.tokenCount,
     }, 'Processing chat message');
 
+    if (stream) {
+      return streamChatResponse(request, {
+        aiService,
+        personalizationService,
+        userId,
+        conversation,
+        context,
+        citations: knowledge.citations,
+        message: sanitizedMessage,
+        model,
+        temperature,
+        maxTokens,
+      });
+    }
+
     // Generate AI response
     const aiResponse = await aiService.generateText({
       prompt: sanitizedMessage,
@@ -133,27 +158,15 @@ export async function POST(request: NextRequest) {
       context,
     });
 
-    // Check for crisis indicators using advanced detection service
-    const crisisAssessment = await crisisDetectionService.analyzeMessage(
-      sanitizedMessage,
-      conversation.id,
-      userId,
-      conversation.messages.map((msg: any) => msg.content)
-    );
+    // Check for crisis indicators with the shared detection engine
+    const crisisAssessment = await assessCrisis(userId, conversation, sanitizedMessage);
 
     let crisisDetected = null;
     if (crisisAssessment) {
-      crisisDetected = {
-        level: crisisAssessment.riskLevel,
-        flagged: true,
-      };
+      crisisDetected = toCrisisFlag(crisisAssessment);
 
       // Modify response for high-risk situations
-      if (crisisAssessment.riskLevel === 'high') {
-        aiResponse.text = "I'm here to support you. If you're experiencing a crisis, please reach out to a mental health professional or call emergency services immediately. " + aiResponse.text;
-      } else if (crisisAssessment.riskLevel === 'medium') {
-        aiResponse.text = "I'm here to support you. If you're feeling distressed, consider reaching out to a mental health professional. " + aiResponse.text;
-      }
+      aiResponse.text = getCrisisPreamble(crisisAssessment.severity) + aiResponse.text;
     }
 
     // Apply personalization to the response
@@ -169,7 +182,7 @@ export async function POST(request: NextRequest) {
     await saveMessageToConversation(conversation.id, 'assistant', aiResponse.text);
 
     // Update conversation last activity
-    await (prisma as any).conversation.update({
+    await prisma.conversation.update({
       where: { id: conversation.id },
       data: { lastActivity: new Date() },
     });
@@ -181,10 +194,8 @@ export async function POST(request: NextRequest) {
         conversationId: conversation.id,
         usage: aiResponse.usage,
         metadata: aiResponse.metadata,
-        crisisDetected: crisisDetected ? {
-          level: crisisDetected.level,
-          flagged: true,
-        } : null,
+        citations: knowledge.citations,
+        crisisDetected,
       },
     });
 
@@ -198,10 +209,209 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
   }
+});
+
+interface StreamChatOptions {
+  aiService: AiService;
+  personalizationService: PersonalizationService;
+  userId: string;
+  conversation: { id: string; messages: Array<{ role: string; content: string }> };
+  context: ConversationContext;
+  citations: KnowledgeCitation[];
+  message: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Stream the assistant reply as server-sent events.
+ *
+ * Events: `crisis` (only when flagged, always before the first token), `token` ({ delta }),
+ * `done` ({ messageId, conversationId, message, usage, metadata, citations, crisisDetected }) and `error`.
+ * Crisis detection runs on the user message before the provider is called, and the
+ * assistant `Message` row is only written once the provider stream has completed.
+ * The completed reply is personalized as in the non-streaming path; `done.message` is that final
+ * text, which is what gets saved and what the client should show.
+ * Disconnecting the client aborts the upstream provider request.
+ */
+async function streamChatResponse(request: NextRequest, options: StreamChatOptions): Promise<Response> {
+  const {
+    aiService,
+    personalizationService,
+    userId,
+    conversation,
+    context,
+    citations,
+    message,
+    model,
+    temperature,
+    maxTokens,
+  } = options;
+
+  // Persist the user message up front so it survives a cancelled stream
+  await saveMessageToConversation(conversation.id, 'user', message);
+
+  const crisisAssessment = await assessCrisis(userId, conversation, message);
+
+  const crisisDetected = crisisAssessment ? toCrisisFlag(crisisAssessment) : null;
+
+  const upstream = new AbortController();
+  const abortUpstream = () => upstream.abort();
+  request.signal.addEventListener('abort', abortUpstream);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!upstream.signal.aborted) {
+          controller.enqueue(encodeSseEvent(event, data));
+        }
+      };
+
+      const preamble = crisisAssessment ? getCrisisPreamble(crisisAssessment.severity) : '';
+      let streamedText = '';
+      let lastResponse: AiResponse | null = null;
+
+      try {
+        if (crisisDetected) {
+          send('crisis', crisisDetected);
+        }
+
+        if (preamble) {
+          send('token', { delta: preamble });
+        }
+
+        for await (const partial of aiService.generateStream({
+          prompt: message,
+          model,
+          temperature,
+          maxTokens,
+          context,
+          signal: upstream.signal,
+        })) {
+          if (upstream.signal.aborted) break;
+
+          // Providers yield the accumulated text so far; forward only the new suffix
+          const delta = partial.text.slice(streamedText.length);
+          streamedText = partial.text;
+          lastResponse = partial;
+
+          if (delta) {
+            send('token', { delta });
+          }
+        }
+
+        if (upstream.signal.aborted) {
+          logger.info({
+            userId,
+            conversationId: conversation.id,
+            streamedLength: streamedText.length,
+          }, 'Chat stream cancelled by client');
+          return;
+        }
+
+        const finalText = await personalizationService.personalizeResponse(
+          preamble + streamedText,
+          userId,
+          conversation.messages.map(msg => msg.content)
+        );
+        const savedMessage = await saveMessageToConversation(conversation.id, 'assistant', finalText);
+
+        await prisma.conversation.update({
+          where: { id: conversation.id },
+          data: { lastActivity: new Date() },
+        });
+
+        send('done', {
+          messageId: savedMessage.id,
+          conversationId: conversation.id,
+          message: finalText,
+          usage: lastResponse?.usage,
+          metadata: lastResponse?.metadata,
+          citations,
+          crisisDetected,
+        });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          logger.error({
+            userId,
+            conversationId: conversation.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }, 'Chat stream error');
+
+          send('error', {
+            error: 'Failed to process chat message',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      } finally {
+        request.signal.removeEventListener('abort', abortUpstream);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
 }
 
 // Helper functions
 
+/**
+ * Assess the user's message in light of their earlier messages in the conversation.
+ * Assistant turns are left out so our own safety wording never reads as user distress.
+ * The profile language is only a hint; the engine detects the language of the message itself.
+ */
+async function assessCrisis(
+  userId: string,
+  conversation: { id: string; messages: Array<{ role: string; content: string }> },
+  message: string
+): Promise<CrisisAssessment | null> {
+  const profile = await prisma.userProfile.findUnique({
+    where: { userId },
+    select: { language: true },
+  });
+
+  return getCrisisDetectionEngine().assess({
+    userId,
+    sessionId: conversation.id,
+    conversationId: conversation.id,
+    message,
+    language: profile?.language || undefined,
+    conversationHistory: conversation.messages
+      .filter(msg => msg.role === 'user')
+      .map(msg => msg.content),
+  });
+}
+
+/**
+ * What the client is told about a flagged message, including where to fetch resources in the user's language
+ */
+function toCrisisFlag(assessment: CrisisAssessment) {
+  return {
+    level: assessment.severity,
+    flagged: true,
+    language: assessment.language,
+    resourcesUrl: `/api/safety/resources/crisis?locale=${encodeURIComponent(assessment.language)}`,
+  };
+}
+
+function getCrisisPreamble(severity: CrisisSeverity): string {
+  if (severity === 'critical' || severity === 'high') {
+    return "I'm here to support you. If you're experiencing a crisis, please reach out to a mental health professional or call emergency services immediately. ";
+  }
+  if (severity === 'medium') {
+    return "I'm here to support you. If you're feeling distressed, consider reaching out to a mental health professional. ";
+  }
+  return '';
+}
+
 function checkRateLimit(userId: string): boolean {
   const now = Date.now();
   const userLimit = userRequestCounts.get(userId);
@@ -269,7 +479,7 @@ async function getOrCreateConversation(userId: string, conversationId?: string)
 }
 
 async function saveMessageToConversation(conversationId: string, role: 'user' | 'assistant', content: string) {
-  await (prisma as any).message.create({
+  return (prisma as any).message.create({
     data: {
       conversationId,
       role,
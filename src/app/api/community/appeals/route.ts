@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import { MODERATION_ERROR_STATUS, ModerationError, getModerationService } from '@/services/community/moderation';
+
+const appealSchema = z.object({
+  actionId: z.string().min(1, 'Action ID is required'),
+  statement: z.string().min(1, 'Statement is required').max(5000)
+});
+
+// The signed-in member's current ban, if any, so they know what to appeal
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ban = await getModerationService().getActiveBan(user.id);
+
+    return NextResponse.json({
+      success: true,
+      ban: ban && { actionId: ban.id, reason: ban.reason, expiresAt: ban.expiresAt ?? null, appealed: ban.appealed }
+    });
+
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to fetch community ban');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to fetch ban status'
+    }, { status: 500 });
+  }
+}
+
+// Appeal a moderation action taken against the member's own content or account: { actionId, statement }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { actionId, statement } = appealSchema.parse(await request.json());
+    const appeal = await getModerationService().fileAppeal(user.id, actionId, statement);
+
+    return NextResponse.json({
+      success: true,
+      appeal: { id: appeal.id, actionId: appeal.actionId, status: appeal.status, createdAt: appeal.createdAt }
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message }, { status: MODERATION_ERROR_STATUS[error.code] });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to file moderation appeal');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to file appeal'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  connectionListResponseSchema,
+  connectionResponseSchema,
+  createConnectionSchema,
+  toConnectionResource,
+} from '@/services/community/api';
+
+// The member's connections, pending ones included
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const connections = await getCommunityService().getUserConnections(user.id);
+
+    return NextResponse.json(connectionListResponseSchema.parse({
+      success: true,
+      connections: connections.map(toConnectionResource)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch connections');
+  }
+}
+
+// Ask another member to connect: { connectedUserId, connectionType?, message? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { connectedUserId, connectionType } = parseRequest(createConnectionSchema, await request.json());
+    if (connectedUserId === user.id) {
+      return communityError(400, 'You cannot connect with yourself');
+    }
+
+    const connection = await getCommunityService().createUserConnection({
+      userId: user.id,
+      connectedUserId,
+      connectionType,
+      status: 'pending',
+      initiatedBy: user.id,
+      trustLevel: 0.5,
+      sharedGoals: [],
+      mutualInterests: []
+    });
+
+    return NextResponse.json(
+      connectionResponseSchema.parse({ success: true, connection: toConnectionResource(connection) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create connection');
+  }
+}
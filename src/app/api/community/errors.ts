@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { COMMUNITY_ERROR_STATUS, CommunityError } from '@/services/community/CommunityService';
+import {
+  ContentRejectedError,
+  MODERATION_ERROR_STATUS,
+  ModerationError,
+  UserBannedError,
+} from '@/services/community/moderation';
+import { ConnectionExistsError } from '@/services/community/store';
+import type { ApiError } from '@/services/community/api';
+
+const STATUS_ERRORS: Record<number, string> = {
+  400: 'Bad request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not found',
+  409: 'Conflict',
+};
+
+/**
+ * Error body every community route returns: `error` names the kind of failure, `message` says what
+ * went wrong
+ */
+export function communityError(status: number, message: string, extra: Partial<ApiError> = {}): NextResponse {
+  return NextResponse.json({ error: STATUS_ERRORS[status] || 'Error', message, ...extra }, { status });
+}
+
+export function unauthorized(): NextResponse {
+  return communityError(401, 'Sign in to use the community');
+}
+
+/**
+ * A request body or query that doesn't match its schema. Only these are the client's fault; a
+ * ZodError from anywhere else, such as a response that doesn't match its own schema, is a 500.
+ */
+export class RequestValidationError extends Error {
+  constructor(public issues: z.ZodError['issues']) {
+    super(issues[0]?.message ?? 'Invalid request');
+    this.name = 'RequestValidationError';
+  }
+}
+
+export function parseRequest<S extends z.ZodType>(schema: S, input: unknown): z.output<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new RequestValidationError(result.error.issues);
+  }
+  return result.data;
+}
+
+/**
+ * The response for anything a community route throws. Unexpected errors are logged and returned as a
+ * 500 saying the route failed to `action`.
+ */
+export function communityErrorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof RequestValidationError) {
+    return NextResponse.json({
+      error: 'Validation failed',
+      message: error.message,
+      details: error.issues,
+    }, { status: 400 });
+  }
+  if (error instanceof SyntaxError) {
+    return communityError(400, 'Request body must be JSON');
+  }
+  if (error instanceof UserBannedError) {
+    return communityError(403, 'You are banned from the community', { until: error.until });
+  }
+  if (error instanceof ContentRejectedError) {
+    return communityError(400, error.reason);
+  }
+  if (error instanceof CommunityError) {
+    return communityError(COMMUNITY_ERROR_STATUS[error.code], error.message);
+  }
+  if (error instanceof ModerationError) {
+    return communityError(MODERATION_ERROR_STATUS[error.code], error.message);
+  }
+  if (error instanceof ConnectionExistsError) {
+    return communityError(409, 'Connection already exists');
+  }
+
+  logger.error({
+    error: error instanceof Error ? error.message : 'Unknown error',
+    ...(error instanceof z.ZodError && { issues: error.issues })
+  }, `Failed to ${action}`);
+
+  return NextResponse.json({
+    error: 'Internal server error',
+    message: `Failed to ${action}`
+  }, { status: 500 });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import { eventResponseSchema, toEventResource } from '@/services/community/api';
+
+// RSVP for an upcoming event. Repeating an RSVP is harmless; a full event is a 409.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { eventId } = await params;
+    const event = await getCommunityService().rsvpEvent(eventId, user.id);
+
+    return NextResponse.json(eventResponseSchema.parse({ success: true, event: toEventResource(event, user.id) }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'RSVP for event');
+  }
+}
+
+// Withdraw the member's RSVP
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { eventId } = await params;
+    const event = await getCommunityService().cancelRsvp(eventId, user.id);
+
+    return NextResponse.json(eventResponseSchema.parse({ success: true, event: toEventResource(event, user.id) }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'cancel RSVP');
+  }
+}
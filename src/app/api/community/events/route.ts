@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  createEventSchema,
+  eventListResponseSchema,
+  eventQuerySchema,
+  eventResponseSchema,
+  toEventResource,
+} from '@/services/community/api';
+
+// Community events, soonest first; only upcoming published ones unless ?upcomingOnly=false
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { upcomingOnly } = parseRequest(eventQuerySchema, Object.fromEntries(new URL(request.url).searchParams));
+    const events = await getCommunityService().getCommunityEvents(upcomingOnly);
+
+    return NextResponse.json(eventListResponseSchema.parse({
+      success: true,
+      events: events.map(event => toEventResource(event, user.id))
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch events');
+  }
+}
+
+// Publish an event hosted by the member
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const input = parseRequest(createEventSchema, await request.json());
+    const event = await getCommunityService().createCommunityEvent({
+      ...input,
+      hostId: user.id,
+      coHosts: [],
+      startTime: new Date(input.startTime),
+      endTime: new Date(input.endTime),
+      status: 'published'
+    });
+
+    return NextResponse.json(
+      eventResponseSchema.parse({ success: true, event: toEventResource(event, user.id) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create event');
+  }
+}
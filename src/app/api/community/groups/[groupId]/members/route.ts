@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import { membershipResponseSchema } from '@/services/community/api';
+
+// Join the group. Private and invite-only groups, full groups and banned members are refused.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { groupId } = await params;
+    const service = getCommunityService();
+    if (!await service.getSupportGroup(groupId)) {
+      return communityError(404, `Group ${groupId} not found`);
+    }
+    if (!await service.joinSupportGroup(user.id, groupId)) {
+      return communityError(409, 'Unable to join the group: it may be full, private or closed to you');
+    }
+
+    const group = await service.getSupportGroup(groupId);
+    return NextResponse.json(
+      membershipResponseSchema.parse({ success: true, groupId, memberCount: group!.memberCount }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'join group');
+  }
+}
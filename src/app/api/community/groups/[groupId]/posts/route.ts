@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  createPostSchema,
+  pageQuerySchema,
+  postPageResponseSchema,
+  postResponseSchema,
+  toModerationResult,
+  toPostResource,
+} from '@/services/community/api';
+import { parseLocale } from '@/services/safety/CrisisResourceService';
+
+// The group's posts, newest first: ?cursor=&limit=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { groupId } = await params;
+    const query = parseRequest(pageQuerySchema, Object.fromEntries(new URL(request.url).searchParams));
+    const service = getCommunityService();
+    await service.getAccessibleGroup(groupId, user.id);
+
+    const page = await service.getCommunityPosts({ ...query, groupId });
+
+    return NextResponse.json(postPageResponseSchema.parse({
+      success: true,
+      posts: page.items.map(post => toPostResource(post, user, true)),
+      nextCursor: page.nextCursor
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch group posts');
+  }
+}
+
+// Post in the group. Screened first: `moderation.status` says whether it is shown yet.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { groupId } = await params;
+    const { locale, ...input } = parseRequest(createPostSchema, await request.json());
+    const service = getCommunityService();
+    await service.getAccessibleGroup(groupId, user.id);
+
+    const { post, screening } = await service.createPost(
+      { ...input, groupId, authorId: user.id, isPinned: false, metadata: {} },
+      locale && parseLocale(locale).language
+    );
+
+    return NextResponse.json(postResponseSchema.parse({
+      success: true,
+      post: toPostResource(post, user),
+      moderation: toModerationResult(screening, locale)
+    }), { status: 201 });
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create post');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  createGroupSchema,
+  groupListResponseSchema,
+  groupQuerySchema,
+  groupResponseSchema,
+  toGroupResource,
+} from '@/services/community/api';
+
+// Support groups, optionally in one category: ?category=
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { category } = parseRequest(groupQuerySchema, Object.fromEntries(new URL(request.url).searchParams));
+    const groups = await getCommunityService().getSupportGroups(category);
+
+    return NextResponse.json(groupListResponseSchema.parse({
+      success: true,
+      groups: groups.filter(group => group.isActive).map(toGroupResource)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch groups');
+  }
+}
+
+// Start a group, with the member as its creator: { name, description, category, privacyLevel?, rules?, maxMembers?, tags? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const input = parseRequest(createGroupSchema, await request.json());
+    const group = await getCommunityService().createSupportGroup({
+      ...input,
+      createdBy: user.id,
+      moderators: [],
+      isActive: true
+    });
+
+    return NextResponse.json(
+      groupResponseSchema.parse({ success: true, group: toGroupResource(group) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create group');
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  commentPageResponseSchema,
+  commentResponseSchema,
+  createCommentSchema,
+  pageQuerySchema,
+  toCommentResource,
+  toModerationResult,
+} from '@/services/community/api';
+import { parseLocale } from '@/services/safety/CrisisResourceService';
+
+// The post's comments, oldest first: ?cursor=&limit=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { postId } = await params;
+    const query = parseRequest(pageQuerySchema, Object.fromEntries(new URL(request.url).searchParams));
+    const service = getCommunityService();
+    await service.getAccessiblePost(postId, user.id);
+
+    const page = await service.getPostComments(postId, query);
+
+    return NextResponse.json(commentPageResponseSchema.parse({
+      success: true,
+      comments: page.items.map(comment => toCommentResource(comment, user)),
+      nextCursor: page.nextCursor
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch comments');
+  }
+}
+
+// Comment on the post, or reply to one of its comments with `parentId`. Screened like a post.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ postId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { postId } = await params;
+    const { locale, ...input } = parseRequest(createCommentSchema, await request.json());
+    const service = getCommunityService();
+    await service.getAccessiblePost(postId, user.id);
+
+    const { comment, screening } = await service.createComment(
+      { ...input, postId, authorId: user.id },
+      locale && parseLocale(locale).language
+    );
+
+    return NextResponse.json(commentResponseSchema.parse({
+      success: true,
+      comment: toCommentResource(comment, user),
+      moderation: toModerationResult(screening, locale)
+    }), { status: 201 });
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create comment');
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  createPostSchema,
+  pageQuerySchema,
+  postPageResponseSchema,
+  postResponseSchema,
+  toModerationResult,
+  toPostResource,
+} from '@/services/community/api';
+import { parseLocale } from '@/services/safety/CrisisResourceService';
+
+// The community feed, newest first: posts outside groups and in public groups. ?cursor=&limit=
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const query = parseRequest(pageQuerySchema, Object.fromEntries(new URL(request.url).searchParams));
+    const page = await getCommunityService().getFeed(query);
+
+    return NextResponse.json(postPageResponseSchema.parse({
+      success: true,
+      posts: page.items.map(post => toPostResource(post, user, true)),
+      nextCursor: page.nextCursor
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch posts');
+  }
+}
+
+// Post to the feed outside any group; group posts go to /api/community/groups/<id>/posts
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { locale, ...input } = parseRequest(createPostSchema, await request.json());
+    const { post, screening } = await getCommunityService().createPost(
+      { ...input, authorId: user.id, isPinned: false, metadata: {} },
+      locale && parseLocale(locale).language
+    );
+
+    return NextResponse.json(postResponseSchema.parse({
+      success: true,
+      post: toPostResource(post, user),
+      moderation: toModerationResult(screening, locale)
+    }), { status: 201 });
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create post');
+  }
+}
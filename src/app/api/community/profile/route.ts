@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import {
+  createProfileSchema,
+  profileResponseSchema,
+  toProfileResource,
+  updateProfileSchema,
+} from '@/services/community/api';
+
+// The signed-in member's community profile
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const profile = await getCommunityService().getUserProfile(user.id);
+    if (!profile) {
+      return communityError(404, 'Create a community profile first');
+    }
+
+    return NextResponse.json(profileResponseSchema.parse({ success: true, profile: toProfileResource(profile) }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch profile');
+  }
+}
+
+// Create the member's profile: { displayName, avatar?, bio?, interests?, supportAreas?, anonymityLevel? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const input = parseRequest(createProfileSchema, await request.json());
+    const service = getCommunityService();
+    if (await service.getUserProfile(user.id)) {
+      return communityError(409, 'Profile already exists');
+    }
+
+    const profile = await service.createUserProfile({ ...input, userId: user.id });
+
+    return NextResponse.json(
+      profileResponseSchema.parse({ success: true, profile: toProfileResource(profile) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create profile');
+  }
+}
+
+// Change any of the profile's fields; the rest keep their values
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const updates = parseRequest(updateProfileSchema, await request.json());
+    const profile = await getCommunityService().updateUserProfile(user.id, updates);
+    if (!profile) {
+      return communityError(404, 'Create a community profile first');
+    }
+
+    return NextResponse.json(profileResponseSchema.parse({ success: true, profile: toProfileResource(profile) }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'update profile');
+  }
+}
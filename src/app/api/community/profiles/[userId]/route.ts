@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import { profileResponseSchema, toProfileResource } from '@/services/community/api';
+
+// Another member's profile
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { userId } = await params;
+    const profile = await getCommunityService().getUserProfile(userId);
+    if (!profile || !profile.isActive) {
+      return communityError(404, 'Profile not found');
+    }
+
+    return NextResponse.json(profileResponseSchema.parse({ success: true, profile: toProfileResource(profile) }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch profile');
+  }
+}
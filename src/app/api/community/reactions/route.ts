@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import {
+  COMMUNITY_ERROR_STATUS,
+  CommunityError,
+  REACTION_KINDS,
+  getCommunityService,
+} from '@/services/community/CommunityService';
+import { UserBannedError } from '@/services/community/moderation';
+
+const reactionSchema = z.object({
+  targetType: z.enum(['post', 'comment']),
+  targetId: z.string().min(1, 'Target ID is required'),
+  kind: z.enum(REACTION_KINDS).default('like')
+});
+
+// React to a post or comment once: { targetType, targetId, kind? }. Returns the target's likes.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { targetType, targetId, kind } = reactionSchema.parse(await request.json());
+    const likes = await getCommunityService().react(user.id, targetType, targetId, kind);
+
+    if (likes === null) {
+      return NextResponse.json({ error: 'Already reacted' }, { status: 409 });
+    }
+    return NextResponse.json({ success: true, likes }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof UserBannedError) {
+      return NextResponse.json(
+        { error: 'Banned', message: 'You are banned from the community', until: error.until },
+        { status: 403 }
+      );
+    }
+    if (error instanceof CommunityError) {
+      return NextResponse.json({ error: error.message }, { status: COMMUNITY_ERROR_STATUS[error.code] });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to add reaction');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to add reaction'
+    }, { status: 500 });
+  }
+}
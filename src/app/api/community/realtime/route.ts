@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import { encodeSseEvent, SSE_HEADERS } from '@/lib/sse';
+import { ChannelAccessError, RealtimeConnection, getRealtimeGateway, parseChannel } from '@/services/community/realtime';
+
+// Keeps idle connections open through proxies and refreshes the member's lastActive
+const HEARTBEAT_MS = 25_000;
+const MAX_CHANNELS = 20;
+
+const channelsSchema = z
+  .array(z.string().refine(channel => parseChannel(channel) !== null, 'Unknown channel'))
+  .min(1, 'At least one channel is required')
+  .max(MAX_CHANNELS);
+
+const typingSchema = z.object({
+  channel: z.string().refine(channel => parseChannel(channel) !== null, 'Unknown channel'),
+  typing: z.boolean()
+});
+
+/**
+ * Subscribe to community channels as server-sent events: `?channels=feed,group:<id>,session:<id>`.
+ *
+ * Events: `ready` ({ channels, online }) once subscribed, then `post.created`, `comment.created`,
+ * `reaction`, `typing`, `presence` and `session.message` as they happen ({ type, channel, data, at }),
+ * and `ping` every 25 seconds. Closing the connection unsubscribes and announces the member as offline.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const raw = new URL(request.url).searchParams.get('channels') || '';
+  const parsed = channelsSchema.safeParse(raw.split(',').map(channel => channel.trim()).filter(Boolean));
+  if (!parsed.success) {
+    return NextResponse.json({
+      error: 'Validation failed',
+      details: parsed.error.issues,
+    }, { status: 400 });
+  }
+  const channels = parsed.data;
+
+  let connection: RealtimeConnection | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const encodedEvents: Uint8Array[] = [];
+  let enqueue = (chunk: Uint8Array) => { encodedEvents.push(chunk); };
+
+  try {
+    // Subscribed before the stream starts so an unauthorized channel can still get a 403
+    connection = await getRealtimeGateway().connect(user.id, channels, event => {
+      enqueue(encodeSseEvent(event.type, event));
+    });
+  } catch (error) {
+    if (error instanceof ChannelAccessError) {
+      return NextResponse.json({ error: 'Forbidden', message: error.message }, { status: 403 });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: user.id
+    }, 'Failed to open realtime connection');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to subscribe'
+    }, { status: 500 });
+  }
+
+  const open = connection;
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    request.signal.removeEventListener('abort', close);
+    await open.close();
+  };
+  request.signal.addEventListener('abort', close);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      enqueue = (chunk: Uint8Array) => {
+        if (closed) return;
+        try {
+          controller.enqueue(chunk);
+        } catch {
+          // The reader went away between the abort and the cleanup
+          close();
+        }
+      };
+
+      enqueue(encodeSseEvent('ready', { channels, online: open.online }));
+      encodedEvents.splice(0).forEach(enqueue);
+
+      heartbeat = setInterval(() => {
+        enqueue(encodeSseEvent('ping', { at: new Date().toISOString() }));
+        open.heartbeat();
+      }, HEARTBEAT_MS);
+    },
+    async cancel() {
+      await close();
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
+
+// Typing indicator for a group or session the member is subscribed to: { channel, typing }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { channel, typing } = typingSchema.parse(await request.json());
+    if (!await getRealtimeGateway().typing(user.id, channel, typing)) {
+      return NextResponse.json({ error: 'Forbidden', message: `Not allowed to post to ${channel}` }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to send typing indicator');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to send typing indicator'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import {
+  MODERATION_ERROR_STATUS,
+  ModerationError,
+  REPORT_REASONS,
+  getModerationService,
+} from '@/services/community/moderation';
+
+const reportSchema = z.object({
+  targetType: z.enum(['post', 'comment']),
+  targetId: z.string().min(1, 'Target ID is required'),
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().max(2000).optional()
+});
+
+// Report a post or comment to the moderators: { targetType, targetId, reason, details? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = reportSchema.parse(await request.json());
+    const outcome = await getModerationService().report(user.id, input);
+
+    return NextResponse.json({ success: true, reportId: outcome.reportId, hidden: outcome.hidden }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof ModerationError) {
+      return NextResponse.json({ error: error.message }, { status: MODERATION_ERROR_STATUS[error.code] });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to report community content');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to submit report'
+    }, { status: 500 });
+  }
+}
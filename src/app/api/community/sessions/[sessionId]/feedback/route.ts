@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import { getPeerSupportService } from '@/services/community/PeerSupportService';
+import {
+  sessionFeedbackResponseSchema,
+  sessionFeedbackSchema,
+  toSessionFeedbackResource,
+} from '@/services/community/api';
+
+// Rate another participant's support in the session: { receiverId, rating, categories, comments?, wouldRecommend? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const { sessionId } = await params;
+    const input = parseRequest(sessionFeedbackSchema, await request.json());
+
+    const session = await getCommunityService().getPeerSupportSession(sessionId);
+    if (!session) {
+      return communityError(404, `Session ${sessionId} not found`);
+    }
+    if (!session.participants.includes(user.id) || !session.participants.includes(input.receiverId)) {
+      return communityError(403, 'Feedback is between participants in the session');
+    }
+    if (input.receiverId === user.id) {
+      return communityError(400, 'You cannot rate yourself');
+    }
+
+    const feedback = await getPeerSupportService().submitSessionFeedback({ ...input, sessionId, giverId: user.id });
+
+    return NextResponse.json(
+      sessionFeedbackResponseSchema.parse({ success: true, feedback: toSessionFeedbackResource(feedback) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'submit session feedback');
+  }
+}
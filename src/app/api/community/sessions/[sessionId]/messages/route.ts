@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import {
+  COMMUNITY_ERROR_STATUS,
+  CommunityError,
+  MAX_SESSION_MESSAGE_LENGTH,
+  getCommunityService,
+} from '@/services/community/CommunityService';
+
+const messageSchema = z.object({
+  content: z.string().trim().min(1, 'Message is required').max(MAX_SESSION_MESSAGE_LENGTH)
+});
+
+// Message history, newest first: ?cursor=&limit=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    const { searchParams } = new URL(request.url);
+    const page = await getCommunityService().getSessionMessages(sessionId, user.id, {
+      cursor: searchParams.get('cursor') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50')
+    });
+
+    return NextResponse.json({ success: true, messages: page.items, nextCursor: page.nextCursor });
+
+  } catch (error) {
+    if (error instanceof CommunityError) {
+      return NextResponse.json({ error: error.message }, { status: COMMUNITY_ERROR_STATUS[error.code] });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to fetch session messages');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to fetch messages'
+    }, { status: 500 });
+  }
+}
+
+// Send a message to the session; participants subscribed to `session:<id>` receive it live: { content }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+    const { content } = messageSchema.parse(await request.json());
+    const message = await getCommunityService().sendSessionMessage(sessionId, user.id, content);
+
+    return NextResponse.json({ success: true, message }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.issues,
+      }, { status: 400 });
+    }
+    if (error instanceof CommunityError) {
+      return NextResponse.json({ error: error.message }, { status: COMMUNITY_ERROR_STATUS[error.code] });
+    }
+
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to send session message');
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to send message'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, unauthorized } from '@/app/api/community/errors';
+import { getCommunityService } from '@/services/community/CommunityService';
+import { getPeerSupportService } from '@/services/community/PeerSupportService';
+import { statsResponseSchema } from '@/services/community/api';
+
+// Community and peer support totals
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const [community, peerSupport] = await Promise.all([
+      getCommunityService().getCommunityStats(),
+      getPeerSupportService().getPeerSupportStats()
+    ]);
+
+    return NextResponse.json(statsResponseSchema.parse({ success: true, stats: { community, peerSupport } }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch community stats');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { logger } from '@/lib/logger';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getPeerSupportService } from '@/services/community/PeerSupportService';
+import {
+  crisisRequestResponseSchema,
+  crisisRequestSchema,
+  toCrisisRequestResource,
+} from '@/services/community/api';
+
+// Ask for urgent peer support: { severity, crisisType, description, immediateNeeds?, preferredSupportType?, location? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const input = parseRequest(crisisRequestSchema, await request.json());
+    const crisisRequest = await getPeerSupportService().createCrisisSupportRequest({ ...input, userId: user.id });
+
+    logger.warn({
+      requestId: crisisRequest.id,
+      userId: crisisRequest.userId,
+      severity: crisisRequest.severity
+    }, 'Crisis support request created via API');
+
+    return NextResponse.json(
+      crisisRequestResponseSchema.parse({ success: true, crisisRequest: toCrisisRequestResource(crisisRequest) }),
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return communityErrorResponse(error, 'create crisis support request');
+  }
+}
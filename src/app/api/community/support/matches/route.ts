@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityErrorResponse, parseRequest, unauthorized } from '@/app/api/community/errors';
+import { getPeerSupportService } from '@/services/community/PeerSupportService';
+import {
+  supportMatchListResponseSchema,
+  supportMatchQuerySchema,
+  toSupportMatchResource,
+} from '@/services/community/api';
+
+// Matches found earlier that haven't expired
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const matches = getPeerSupportService().getSupportMatches(user.id);
+
+    return NextResponse.json(supportMatchListResponseSchema.parse({
+      success: true,
+      matches: matches.map(toSupportMatchResource)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch support matches');
+  }
+}
+
+// Look for peers to support the member: { supportType?, urgency?, topics?, maxMatches? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const criteria = parseRequest(supportMatchQuerySchema, await request.json());
+    const matches = await getPeerSupportService().findSupportMatches(user.id, criteria);
+
+    return NextResponse.json(supportMatchListResponseSchema.parse({
+      success: true,
+      matches: matches.map(toSupportMatchResource)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'find support matches');
+  }
+}
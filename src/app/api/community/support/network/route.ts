@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/authorization';
+import { communityError, communityErrorResponse, unauthorized } from '@/app/api/community/errors';
+import { getPeerSupportService } from '@/services/community/PeerSupportService';
+import { supportNetworkResponseSchema, toSupportNetworkResource } from '@/services/community/api';
+
+// The member's support network as last built
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const network = getPeerSupportService().getSupportNetwork(user.id);
+    if (!network) {
+      return communityError(404, 'Support network not built yet');
+    }
+
+    return NextResponse.json(supportNetworkResponseSchema.parse({
+      success: true,
+      network: toSupportNetworkResource(network)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'fetch support network');
+  }
+}
+
+// Build the network again from the member's accepted connections
+export async function POST() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorized();
+
+    const network = await getPeerSupportService().buildSupportNetwork(user.id);
+
+    return NextResponse.json(supportNetworkResponseSchema.parse({
+      success: true,
+      network: toSupportNetworkResource(network)
+    }));
+
+  } catch (error) {
+    return communityErrorResponse(error, 'build support network');
+  }
+}
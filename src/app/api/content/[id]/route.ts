@@ -1,40 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getSessionUser } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
+import { canAccessContent } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 
-// Helper function to check permissions
-async function checkContentPermissions(userId: string, action: 'read' | 'update' | 'delete' | 'publish', content: any) {
-  // Get user role (simplified - in production, this would check user roles/permissions)
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true }, // In production, check roles/permissions
-  });
-
-  if (!user) return false;
-
-  // Basic permission checks (expand based on your role system)
-  switch (action) {
-    case 'read':
-      // Check access level
-      if (content.accessLevel === 'public') return true;
-      if (content.accessLevel === 'authenticated' && userId) return true;
-      if (content.accessLevel === 'professional') {
-        // TODO: Check if user has professional role
-        return content.createdBy === userId; // For now, only creator can access professional content
-      }
-      return false;
-    case 'update':
-    case 'delete':
-      return content.createdBy === userId; // Only creator can edit/delete
-    case 'publish':
-      return content.createdBy === userId; // Only creator can publish (in production, check roles)
-    default:
-      return false;
-  }
-}
-
 // GET /api/content/[id] - Get specific content
 export async function GET(
   request: NextRequest,
@@ -43,8 +12,7 @@ export async function GET(
   const { id: contentId } = await params;
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
     // Get content
     const content = await (prisma as any).content.findUnique({
@@ -61,12 +29,12 @@ export async function GET(
     }
 
     // Check read permissions
-    if (!(await checkContentPermissions(user?.id, 'read', content))) {
+    if (!canAccessContent(user, 'read', content)) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
     // Log access
-    if (user?.id) {
+    if (user) {
       await (prisma as any).contentAccess.create({
         data: {
           contentId,
@@ -101,10 +69,9 @@ export async function PUT(
   const { id: contentId } = await params;
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
-    if (!user?.id) {
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -118,7 +85,7 @@ export async function PUT(
     }
 
     // Check update permissions
-    if (!(await checkContentPermissions(user.id, 'update', existingContent))) {
+    if (!canAccessContent(user, 'update', existingContent)) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
@@ -133,7 +100,7 @@ export async function PUT(
     if (body.status && body.status !== existingContent.status) {
       if (body.status === 'published') {
         // Check publish permissions
-        if (!(await checkContentPermissions(user.id, 'publish', existingContent))) {
+        if (!canAccessContent(user, 'publish', existingContent)) {
           return NextResponse.json({ error: 'Cannot publish content' }, { status: 403 });
         }
         body.publishedAt = new Date();
@@ -197,10 +164,9 @@ export async function DELETE(
   const { id: contentId } = await params;
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
-    if (!user?.id) {
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -214,7 +180,7 @@ export async function DELETE(
     }
 
     // Check delete permissions
-    if (!(await checkContentPermissions(user.id, 'delete', existingContent))) {
+    if (!canAccessContent(user, 'delete', existingContent)) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
 
@@ -122,15 +121,8 @@ export async function GET(request: NextRequest) {
 // POST /api/content/quality-checklist - Create or update quality checklist
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // TODO: Check if user has permission to create checklists
-    // For now, allow any authenticated user
+    const { user, response } = await requirePermission('content.review');
+    if (response) return response;
 
     const body = await request.json();
     const { name, description, items, contentTypes, requiredFor } = body;
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getSessionUser, requirePermission } from '@/lib/authorization';
+import { hasPermission } from '@/lib/permissions';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
 import { AiService } from '@/services/ai/AiService';
@@ -13,10 +13,9 @@ export async function GET(
   const { id: reviewId } = await params;
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
-    if (!user?.id) {
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -38,8 +37,8 @@ export async function GET(
     }
 
     // Check if user can access this review
-    if (review.assignedTo !== user.id && review.submittedBy !== user.id) {
-      // TODO: Add role-based access for admins/reviewers
+    const involved = review.assignedTo === user.id || review.submittedBy === user.id;
+    if (!involved && !hasPermission(user.roles, 'content.review')) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
@@ -68,12 +67,9 @@ export async function PUT(
   const { id: reviewId } = await params;
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const { user, response } = await requirePermission('content.review');
+    if (response) return response;
 
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
     const body = await request.json();
     const { decision, notes, qualityScore } = body;
 
@@ -1,31 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
 
 // GET /api/content/review - Get review queue
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check if user is a reviewer (simplified - in production, check user roles)
-    const userRecord = await prisma.user.findUnique({
-      where: { id: user.id },
-      select: { id: true, email: true },
-    });
-
-    if (!userRecord) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
-
-    // TODO: Add role-based access control for reviewers
-    // For now, allow any authenticated user to see reviews
+    const { user, response } = await requirePermission('content.review');
+    if (response) return response;
 
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status') || 'pending';
@@ -92,12 +74,8 @@ export async function GET(request: NextRequest) {
 // POST /api/content/review - Assign review or update status
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
-
-    if (!user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { user, response } = await requirePermission('content.review');
+    if (response) return response;
 
     const body = await request.json();
     const { action, reviewId, notes } = body;
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getSessionUser } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
+import { hasPermission, readableAccessLevels } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 
 // Basic validation functions (replace with zod in production)
@@ -28,36 +28,10 @@ function validateCreateContent(data: any) {
   return data;
 }
 
-// Helper function to check permissions
-async function checkContentPermissions(userId: string, action: 'create' | 'read' | 'update' | 'delete' | 'publish', content?: any) {
-  // Get user role (simplified - in production, this would check user roles/permissions)
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { email: true }, // In production, check roles/permissions
-  });
-
-  if (!user) return false;
-
-  // Basic permission checks (expand based on your role system)
-  switch (action) {
-    case 'create':
-    case 'read':
-      return true; // Allow authenticated users to create/read
-    case 'update':
-    case 'delete':
-      return content?.createdBy === userId; // Only creator can edit/delete
-    case 'publish':
-      return content?.createdBy === userId; // Only creator can publish (in production, check roles)
-    default:
-      return false;
-  }
-}
-
 // GET /api/content - List content with filtering and pagination
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -102,19 +76,10 @@ export async function GET(request: NextRequest) {
       ];
     }
 
-    // Access control - filter based on user permissions
+    // Access control - only the access levels the user's roles can read
+    where.accessLevel = { in: readableAccessLevels(user ? user.roles : null) };
     if (!user) {
-      // Anonymous users can only see public content
-      where.accessLevel = 'public';
       where.requiresAuth = false;
-    } else {
-      // Authenticated users can see public + authenticated content
-      where.OR = where.OR || [];
-      where.OR.push(
-        { accessLevel: 'public' },
-        { accessLevel: 'authenticated' }
-      );
-      // TODO: Add professional content access based on user roles
     }
 
     const [content, total] = await Promise.all([
@@ -159,21 +124,20 @@ export async function GET(request: NextRequest) {
 // POST /api/content - Create new content
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
-    if (!user?.id) {
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check create permissions
-    if (!(await checkContentPermissions(user.id, 'create'))) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
-    }
-
     const body = await request.json();
     const validatedData = validateCreateContent(body);
 
+    // Anyone signed in can write content; publishing it straight away takes a reviewer
+    if (validatedData.status === 'published' && !hasPermission(user.roles, 'content.publish')) {
+      return NextResponse.json({ error: 'Cannot publish content' }, { status: 403 });
+    }
+
     // Create content
     const content = await (prisma as any).content.create({
       data: {
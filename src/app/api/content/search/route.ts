@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getSessionUser } from '@/lib/authorization';
 import { logger } from '@/lib/logger';
+import { readableAccessLevels } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 import { AiService } from '@/services/ai/AiService';
 
@@ -28,8 +28,7 @@ export async function GET(request: NextRequest) {
   const startTime = Date.now();
 
   try {
-    const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = await getSessionUser();
 
     const { searchParams } = new URL(request.url);
 
@@ -53,15 +52,9 @@ export async function GET(request: NextRequest) {
     };
 
     // Add access control
+    where.accessLevel = { in: readableAccessLevels(user ? user.roles : null) };
     if (!user) {
-      where.accessLevel = 'public';
       where.requiresAuth = false;
-    } else {
-      where.OR = [
-        { accessLevel: 'public' },
-        { accessLevel: 'authenticated' },
-        // TODO: Add professional content access based on user roles
-      ];
     }
 
     // Add filters
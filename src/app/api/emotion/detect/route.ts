@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { EmotionDetectionService, EmotionContext } from '@/services/emotion/EmotionDetectionService';
-import { EmotionalUXService } from '@/services/ux/EmotionalUXService';
+import { NextResponse } from 'next/server';
+import { EmotionContext, getEmotionDetectionService } from '@/services/emotion/EmotionDetectionService';
+import { getEmotionalUXService } from '@/services/ux/EmotionalUXService';
 import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
 import { z } from 'zod';
 
 // Validation schema for emotion detection request
@@ -13,10 +14,14 @@ const emotionDetectionSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional()
 });
 
-const emotionService = new EmotionDetectionService();
-const uxService = new EmotionalUXService();
+const emotionService = getEmotionDetectionService();
+const uxService = getEmotionalUXService();
 
-export async function POST(request: NextRequest) {
+export const POST = withPhiAudit({
+  action: 'emotion.detection.create',
+  resourceType: 'emotion',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     const body = await request.json();
 
@@ -33,6 +38,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { userId, sessionId, interactionType, content, metadata } = validationResult.data;
+    access.subjectId = userId;
 
     // Create emotion context
     const context: EmotionContext = {
@@ -82,12 +88,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withPhiAudit({
+  action: 'emotion.history.read',
+  resourceType: 'emotion',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
+    access.subjectId = userId || undefined;
     const limit = parseInt(searchParams.get('limit') || '10');
 
     if (!userId) {
@@ -122,4 +133,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
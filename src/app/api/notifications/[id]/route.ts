@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getInboxStore } from '@/services/notifications';
+import { logger } from '@/lib/logger';
+
+// PATCH /api/notifications/[id] - Mark an inbox notification as read
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    const user = session?.user;
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.read !== true) {
+      return NextResponse.json({ error: 'Only { "read": true } is supported' }, { status: 400 });
+    }
+
+    const updated = await getInboxStore().markRead(user.id, id);
+    if (!updated) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({
+      notificationId: id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to update notification');
+
+    return NextResponse.json({ error: 'Failed to update notification' }, { status: 500 });
+  }
+}
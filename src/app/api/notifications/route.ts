@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getInboxStore } from '@/services/notifications';
+import { logger } from '@/lib/logger';
+
+// GET /api/notifications - In-app inbox for the current user, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const user = session?.user;
+
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+
+    const inbox = getInboxStore();
+    const [notifications, unreadCount] = await Promise.all([
+      inbox.list(user.id, { unreadOnly, limit }),
+      inbox.countUnread(user.id),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Failed to load notification inbox');
+
+    return NextResponse.json({ error: 'Failed to load notifications' }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { PersonalizationService } from '@/services/personalization/PersonalizationService';
 import { AiService } from '@/services/ai/AiService';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
 
 // Initialize services (shared instances)
 let personalizationService: PersonalizationService;
@@ -25,7 +26,11 @@ function getPersonalizationService(): PersonalizationService {
 }
 
 // GET /api/personalization - Get user preferences and recommendations
-export async function GET(request: NextRequest) {
+export const GET = withPhiAudit({
+  action: 'personalization.profile.read',
+  resourceType: 'user_preferences',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     const session = await getServerSession(authOptions);
     const user = session?.user as any;
@@ -34,6 +39,7 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = user.id;
+    access.subjectId = userId;
     const service = getPersonalizationService();
 
     // Get user preferences
@@ -79,10 +85,14 @@ export async function GET(request: NextRequest) {
       error: 'Failed to retrieve personalization data',
     }, { status: 500 });
   }
-}
+});
 
 // PUT /api/personalization - Update user preferences
-export async function PUT(request: NextRequest) {
+export const PUT = withPhiAudit({
+  action: 'personalization.profile.update',
+  resourceType: 'user_preferences',
+  purpose: 'user_request'
+}, async (request, access) => {
   try {
     const session = await getServerSession(authOptions);
     const user = session?.user as any;
@@ -91,6 +101,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const userId = user.id;
+    access.subjectId = userId;
     const body = await request.json();
 
     const service = getPersonalizationService();
@@ -149,4 +160,4 @@ export async function PUT(request: NextRequest) {
       error: 'Failed to update preferences',
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
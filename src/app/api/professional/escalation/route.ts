@@ -1,16 +1,28 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { SafetyEscalationService } from '@/services/safety/SafetyEscalationService';
-import { ProfessionalNetworkService } from '@/services/professional/ProfessionalNetworkService';
+import { randomUUID } from 'crypto';
+import {
+  EscalationRecord,
+  getSafetyEscalationService,
+  professionalRecipient
+} from '@/services/safety/SafetyEscalationService';
+import { ProfessionalNetworkService, Professional } from '@/services/professional/ProfessionalNetworkService';
 import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+import { getNotificationDispatcher } from '@/services/notifications';
 import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
+import { requirePermission } from '@/lib/authorization';
 
-const escalationService = new SafetyEscalationService();
+const escalationService = getSafetyEscalationService();
 const professionalService = new ProfessionalNetworkService();
 const communicationService = new SecureCommunicationService();
 
-export async function POST(request: NextRequest) {
+export const POST = withPhiAudit({
+  action: 'escalation.create',
+  resourceType: 'escalation',
+  purpose: 'crisis_response'
+}, async (request, access) => {
   try {
     const session = await getServerSession(authOptions);
     const body = await request.json();
@@ -23,6 +35,8 @@ export async function POST(request: NextRequest) {
       maxResponseTime = 15 // minutes
     } = body;
 
+    access.subjectId = userId;
+
     // Validate required fields
     if (!userId || !sessionId || !crisisAssessment) {
       return NextResponse.json({
@@ -98,6 +112,9 @@ export async function POST(request: NextRequest) {
       }
     );
 
+    access.resourceId = escalation?.id;
+    access.metadata = { professionalId: professional.id, channelId: communicationChannel.id };
+
     // Update professional workload
     await professionalService.updateProfessionalWorkload(professional.id, 1);
 
@@ -156,7 +173,7 @@ export async function POST(request: NextRequest) {
       status: 'service_error'
     }, { status: 500 });
   }
-}
+});
 
 function determineRequiredSpecialties(indicators: any): string[] {
   const specialties: string[] = [];
@@ -178,7 +195,7 @@ function determineRequiredSpecialties(indicators: any): string[] {
 }
 
 async function sendProfessionalNotification(
-  professional: any,
+  professional: Professional,
   notification: {
     type: string;
     priority: string;
@@ -190,35 +207,27 @@ async function sendProfessionalNotification(
   }
 ): Promise<void> {
   try {
-    // This would integrate with actual notification services
-    // For now, log the notification that would be sent
-
-    const notificationPayload = {
-      to: professional.contactMethods.email,
-      sms: professional.contactMethods.sms,
-      pushToken: professional.contactMethods.pushToken,
+    const result = await getNotificationDispatcher().dispatch({
+      id: randomUUID(),
+      recipient: professionalRecipient(professional),
+      priority: notification.priority === 'emergency' ? 'critical' : 'high',
       subject: `URGENT: Crisis Escalation - ${notification.priority.toUpperCase()}`,
-      message: `New crisis case requires immediate attention. User ID: ${notification.userId}. Severity: ${notification.crisisAssessment.severity}. Please join communication channel: ${notification.channelId}`,
-      data: {
+      body: `New crisis case requires immediate attention. User ID: ${notification.userId}. Severity: ${notification.crisisAssessment.severity}. Please join communication channel: ${notification.channelId}`,
+      metadata: {
         type: notification.type,
-        priority: notification.priority,
         channelId: notification.channelId,
-        userId: notification.userId,
         sessionId: notification.sessionId,
-        crisisAssessment: notification.crisisAssessment,
         estimatedResponseTime: notification.estimatedResponseTime
       }
-    };
+    }, { channels: ['push', 'sms', 'email', 'in_app'], timeoutMs: 60 * 1000 });
 
-    logger.info({
+    logger[result.delivered ? 'info' : 'error']({
       professionalId: professional.id,
       notificationType: notification.type,
       priority: notification.priority,
-      channelId: notification.channelId
-    }, 'Professional notification sent');
-
-    // Placeholder for actual notification sending
-    // In production, this would call SMS, email, and push notification services
+      channelId: notification.channelId,
+      receipts: result.receipts.map(({ channel, status }) => ({ channel, status }))
+    }, result.delivered ? 'Professional notification sent' : 'Professional notification not delivered');
 
   } catch (error) {
     logger.error({
@@ -228,36 +237,55 @@ async function sendProfessionalNotification(
   }
 }
 
-// GET endpoint for escalation status
-export async function GET(request: NextRequest) {
+// GET endpoint for escalation status (?escalationId=) or history (?userId=&professionalId=&status=&before=&limit=)
+export const GET = withPhiAudit({
+  action: 'escalation.read',
+  resourceType: 'escalation',
+  purpose: 'crisis_response'
+}, async (request, access) => {
   try {
+    const { response } = await requirePermission('escalations.manage');
+    if (response) return response;
+
     const { searchParams } = new URL(request.url);
     const escalationId = searchParams.get('escalationId');
 
-    if (!escalationId) {
-      return NextResponse.json({
-        error: 'Missing escalationId parameter'
-      }, { status: 400 });
-    }
+    if (escalationId) {
+      access.resourceId = escalationId;
+      const escalation = await escalationService.getEscalationById(escalationId);
 
-    const escalation = escalationService.getEscalationById(escalationId);
+      if (!escalation) {
+        return NextResponse.json({
+          error: 'Escalation not found'
+        }, { status: 404 });
+      }
 
-    if (!escalation) {
+      access.subjectId = escalation.userId;
+      return NextResponse.json({ escalation: formatEscalation(escalation) });
+    }
+
+    const before = searchParams.get('before');
+    if (before && isNaN(Date.parse(before))) {
       return NextResponse.json({
-        error: 'Escalation not found'
-      }, { status: 404 });
+        error: 'Invalid before parameter, expected an ISO timestamp'
+      }, { status: 400 });
     }
 
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, 100);
+    access.subjectId = searchParams.get('userId') || undefined;
+    const escalations = await escalationService.getEscalationHistory({
+      userId: searchParams.get('userId') || undefined,
+      professionalId: searchParams.get('professionalId') || undefined,
+      status: searchParams.get('status')?.split(',') as EscalationRecord['status'][] | undefined,
+      before: before ? new Date(before) : undefined,
+      limit
+    });
+
     return NextResponse.json({
-      escalation: {
-        id: escalation.id,
-        status: escalation.status,
-        priority: escalation.priority,
-        startedAt: escalation.startedAt,
-        resolvedAt: escalation.resolvedAt,
-        steps: escalation.steps.length,
-        outcome: escalation.outcome
-      }
+      escalations: escalations.map(formatEscalation),
+      nextCursor: escalations.length === limit
+        ? escalations[escalations.length - 1].startedAt.toISOString()
+        : null
     });
 
   } catch (error) {
@@ -269,4 +297,81 @@ export async function GET(request: NextRequest) {
       error: 'Failed to retrieve escalation status'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+});
+
+// PATCH endpoint to acknowledge (stops further steps) or resolve an escalation
+export const PATCH = withPhiAudit({
+  action: 'escalation.update',
+  resourceType: 'escalation',
+  purpose: 'crisis_response'
+}, async (request, access) => {
+  try {
+    const { user, response } = await requirePermission('escalations.manage');
+    if (response) return response;
+
+    const { escalationId, action, outcome } = await request.json();
+    access.resourceId = escalationId;
+    access.metadata = { operation: action };
+
+    if (!escalationId || !['acknowledge', 'resolve'].includes(action)) {
+      return NextResponse.json({
+        error: 'Missing required fields: escalationId and action ("acknowledge" or "resolve")'
+      }, { status: 400 });
+    }
+
+    const updated = action === 'acknowledge'
+      ? await escalationService.acknowledgeEscalation(escalationId, user.id)
+      : await escalationService.resolveEscalation(escalationId, outcome || 'resolved');
+
+    if (!updated) {
+      return NextResponse.json({
+        error: action === 'acknowledge'
+          ? 'Escalation not found or no longer awaiting acknowledgement'
+          : 'Escalation not found or already resolved'
+      }, { status: 409 });
+    }
+
+    const escalation = await escalationService.getEscalationById(escalationId);
+    access.subjectId = escalation?.userId;
+    return NextResponse.json({ escalation: formatEscalation(escalation!) });
+
+  } catch (error) {
+    logger.error({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'Escalation update failed');
+
+    return NextResponse.json({
+      error: 'Failed to update escalation'
+    }, { status: 500 });
+  }
+});
+
+function formatEscalation(escalation: EscalationRecord) {
+  return {
+    id: escalation.id,
+    userId: escalation.userId,
+    sessionId: escalation.sessionId,
+    protocolId: escalation.protocolId,
+    status: escalation.status,
+    priority: escalation.priority,
+    startedAt: escalation.startedAt,
+    resolvedAt: escalation.resolvedAt,
+    outcome: escalation.outcome,
+    professionalId: escalation.professionalId,
+    channelId: escalation.channelId,
+    currentStep: escalation.currentStepId ? {
+      stepId: escalation.currentStepId,
+      state: escalation.stepState,
+      dueAt: escalation.nextRunAt
+    } : null,
+    acknowledgedAt: escalation.acknowledgedAt,
+    acknowledgedBy: escalation.acknowledgedBy,
+    steps: escalation.steps.map(step => ({
+      stepId: step.stepId,
+      executedAt: step.executedAt,
+      success: step.success,
+      error: step.error,
+      receipts: step.metadata.receipts
+    }))
+  };
+}
@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { ProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
+import { NextResponse } from 'next/server';
+import { getProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
 import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
 import { z } from 'zod';
 
 // Validation schemas
@@ -62,12 +63,18 @@ const progressReportSchema = z.object({
   }).optional()
 });
 
-const progressService = new ProgressTrackingService();
+const progressService = getProgressTrackingService();
 
-export async function POST(request: NextRequest) {
+export const POST = withPhiAudit({
+  action: 'progress.record.write',
+  resourceType: 'progress',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     const body = await request.json();
     const { action, ...data } = body;
+    access.subjectId = typeof data.userId === 'string' ? data.userId : undefined;
+    access.metadata = { operation: action };
 
     switch (action) {
       case 'record_metric': {
@@ -276,13 +283,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withPhiAudit({
+  action: 'progress.record.read',
+  resourceType: 'progress',
+  purpose: 'treatment'
+}, async (request, access) => {
   try {
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
     const action = searchParams.get('action') || 'get_data';
+    access.subjectId = userId || undefined;
+    access.metadata = { operation: action };
 
     if (!userId) {
       return NextResponse.json(
@@ -395,4 +408,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
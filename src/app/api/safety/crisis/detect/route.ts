@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { CrisisDetectionService } from '@/services/safety/CrisisDetectionService';
-import { SafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { activeCategories, getCrisisDetectionEngine } from '@/services/crisis-detection';
+import { getSafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { CrisisResourceService, crisisLocale, parseLocale } from '@/services/safety/CrisisResourceService';
 import { logger } from '@/lib/logger';
+import { withPhiAudit } from '@/lib/phi-audit';
 
-const crisisService = new CrisisDetectionService();
-const escalationService = new SafetyEscalationService();
+const escalationService = getSafetyEscalationService();
+const resourceService = new CrisisResourceService();
 
-export async function POST(request: NextRequest) {
+export const POST = withPhiAudit({
+  action: 'crisis.assessment.create',
+  resourceType: 'crisis_session',
+  purpose: 'crisis_response'
+}, async (request, access) => {
   try {
     // Get user session - allow both authenticated and anonymous for crisis detection
     const session = await getServerSession(authOptions);
@@ -20,8 +26,8 @@ export async function POST(request: NextRequest) {
       sessionId,
       message,
       conversationHistory = [],
-      userHistory = {},
-      sessionMetadata = {}
+      sessionMetadata = {},
+      locale // Client locale such as "es-MX"; its language is a hint when the message is too short to tell
     } = body;
 
     // Validate required fields
@@ -33,6 +39,8 @@ export async function POST(request: NextRequest) {
 
     // Use provided userId or session userId or generate anonymous
     const effectiveUserId = userId || user?.id || `anonymous-${sessionId}`;
+    access.subjectId = effectiveUserId;
+    access.resourceId = sessionId;
 
     logger.info({
       effectiveUserId,
@@ -41,20 +49,19 @@ export async function POST(request: NextRequest) {
       hasHistory: conversationHistory.length > 0
     }, 'Crisis detection request received');
 
-    // Analyze message for crisis indicators with false positive reduction
-    const assessment = await crisisService.analyzeMessageWithFilters(
-      effectiveUserId,
+    // Same engine as the chat route, so both report the same verdict for a message
+    const assessment = await getCrisisDetectionEngine().assess({
+      userId: effectiveUserId,
       sessionId,
       message,
-      {
-        conversationHistory,
-        userHistory,
-        sessionMetadata
-      }
-    );
+      language: locale ? parseLocale(locale).language : undefined,
+      conversationHistory,
+      sessionMetadata
+    });
 
     if (!assessment) {
       // No crisis detected
+      access.metadata = { crisisDetected: false };
       return NextResponse.json({
         crisisDetected: false,
         confidence: 0,
@@ -69,26 +76,32 @@ export async function POST(request: NextRequest) {
       assessment
     );
 
+    access.metadata = { crisisDetected: true, severity: assessment.severity, escalationId: escalation?.id };
+
     // Log crisis detection for compliance
     logger.warn({
       userId: effectiveUserId,
       sessionId,
       severity: assessment.severity,
       confidence: assessment.confidence,
-      indicators: Object.keys(assessment.indicators).filter(k => assessment.indicators[k as keyof typeof assessment.indicators]),
+      indicators: activeCategories(assessment.indicators),
       riskFactors: assessment.riskFactors,
       escalationId: escalation?.id,
       immediate: assessment.immediate
     }, 'CRISIS DETECTED - ESCALATION INITIATED');
 
+    const resources = resourceService.forLocale(crisisLocale(assessment.language, locale));
+
     // Return crisis assessment with escalation info
     return NextResponse.json({
       crisisDetected: true,
       assessment: {
+        language: assessment.language,
         severity: assessment.severity,
         confidence: assessment.confidence,
         indicators: assessment.indicators,
         riskFactors: assessment.riskFactors,
+        signals: assessment.signals,
         recommendedActions: assessment.recommendedActions,
         immediate: assessment.immediate,
         detectedAt: assessment.detectedAt
@@ -99,6 +112,11 @@ export async function POST(request: NextRequest) {
         priority: escalation.priority,
         protocolId: escalation.protocolId
       } : null,
+      resources: {
+        locale: resources.locale,
+        items: resources.resources,
+        disclaimer: resources.disclaimer
+      },
       message: assessment.immediate
         ? 'Critical crisis detected. Immediate professional intervention initiated.'
         : 'Crisis indicators detected. Professional support recommended.'
@@ -117,7 +135,7 @@ export async function POST(request: NextRequest) {
       confidence: 0
     }, { status: 500 });
   }
-}
+});
 
 // GET endpoint for testing crisis detection patterns
 export async function GET(request: NextRequest) {
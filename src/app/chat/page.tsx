@@ -1,48 +1,36 @@
 'use client';
 
 import { useState } from 'react';
-import { ChatInterface, useChatMessages } from '@/components/chat/ChatInterface';
+import { ChatInterface, CrisisSignal } from '@/components/chat/ChatInterface';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { MessageSquare, Settings } from 'lucide-react';
+import { AlertTriangle, MessageSquare, Settings } from 'lucide-react';
 import { Layout } from '@/components/layout/Layout';
+import type { CrisisResource } from '@/services/safety/CrisisResourceService';
+
+interface CrisisSupport {
+  resources: CrisisResource[];
+  disclaimer: string;
+}
+
+const FALLBACK_DISCLAIMER = 'Please call emergency services (911) if you are in immediate danger.';
 
 export default function ChatPage() {
   const [isConnected, setIsConnected] = useState(false);
-  const { messages, addUserMessage, addAssistantMessage, updateMessage } = useChatMessages();
-
-  const handleSendMessage = async (message: string) => {
-    // Add user message immediately
-    addUserMessage(message);
+  const [crisisSupport, setCrisisSupport] = useState<CrisisSupport | null>(null);
 
+  // A message flagged mid-stream brings up resources in the language it was written in
+  const handleCrisisDetected = async (crisis: CrisisSignal) => {
+    setCrisisSupport(current => current ?? { resources: [], disclaimer: FALLBACK_DISCLAIMER });
     try {
-      // Call the chat API
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message,
-          // conversationId will be handled by the API
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to send message');
-      }
-
+      const response = await fetch(crisis.resourcesUrl);
       const data = await response.json();
-
-      if (data.success) {
-        // Add assistant message
-        addAssistantMessage(data.data.message);
-      } else {
-        throw new Error(data.error || 'Unknown error');
+      if (response.ok) {
+        setCrisisSupport({ resources: data.resources, disclaimer: data.disclaimer });
       }
     } catch (error) {
-      console.error('Chat error:', error);
-      addAssistantMessage('Sorry, I encountered an error. Please try again.');
+      console.error('Failed to load crisis resources:', error);
     }
   };
 
@@ -59,6 +47,24 @@ export default function ChatPage() {
           </p>
         </div>
 
+        {crisisSupport && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>You don&apos;t have to go through this alone</AlertTitle>
+            <AlertDescription>
+              <p className="mb-2">{crisisSupport.disclaimer}</p>
+              <ul className="space-y-1">
+                {crisisSupport.resources.slice(0, 3).map(resource => (
+                  <li key={resource.id}>
+                    <span className="font-medium">{resource.name}</span>: {resource.contact.primary}
+                    {resource.availability === '24/7' && ' (24/7)'}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Main Chat Area */}
           <div className="lg:col-span-3">
@@ -76,9 +82,9 @@ export default function ChatPage() {
               </CardHeader>
               <CardContent className="p-0">
                 <ChatInterface
-                  messages={messages}
-                  onSendMessage={handleSendMessage}
+                  streamUrl="/api/chat"
                   disabled={!isConnected}
+                  onCrisisDetected={handleCrisisDetected}
                   className="border-0 shadow-none"
                 />
               </CardContent>
@@ -131,7 +131,7 @@ export default function DashboardPage() {
               <Users className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{supportNetwork?.connections.length || 0}</div>
+              <div className="text-2xl font-bold">{supportNetwork?.connectionsCount || 0}</div>
               <p className="text-xs text-muted-foreground">
                 Active connections
               </p>
@@ -302,7 +302,7 @@ export default function DashboardPage() {
                     </div>
                     <div className="grid grid-cols-2 gap-4 text-center">
                       <div>
-                        <div className="text-lg font-semibold">{supportNetwork?.connections.length || 0}</div>
+                        <div className="text-lg font-semibold">{supportNetwork?.connectionsCount || 0}</div>
                         <div className="text-xs text-muted-foreground">Connections</div>
                       </div>
                       <div>
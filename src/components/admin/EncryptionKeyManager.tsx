@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, KeyRound, Loader2, RefreshCw, RotateCw, ShieldAlert } from "lucide-react";
+
+interface KeySummary {
+  id: string;
+  status: 'active' | 'retired' | 'compromised';
+  createdAt: string;
+  expiresAt: string;
+  retiredAt?: string;
+  compromisedAt?: string;
+  compromiseReason?: string;
+  master?: boolean;
+}
+
+interface DomainSummary {
+  domain: string;
+  rotation: {
+    activeKeyId: string | null;
+    daysUntilExpiration: number;
+    needsRotation: boolean;
+  };
+  keys: KeySummary[];
+  reEncryption: {
+    pending: number;
+    sources: string[];
+    running: boolean;
+    lastRun?: { finishedAt: string; reEncrypted: number; failed: number };
+  };
+}
+
+const STATUS_VARIANTS: Record<KeySummary['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  retired: 'secondary',
+  compromised: 'destructive',
+};
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+export function EncryptionKeyManager() {
+  const [domains, setDomains] = useState<DomainSummary[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const loadKeys = async () => {
+    try {
+      const response = await fetch('/api/admin/encryption-keys');
+      const result = await response.json();
+      if (response.ok) {
+        setDomains(result.domains);
+      } else {
+        setError(result.message || result.error);
+      }
+    } catch {
+      setError("Failed to load encryption keys");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (url: string, body?: object) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.message || result.error);
+        return;
+      }
+      await loadKeys();
+    } catch {
+      setError('Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = (domain: string) => {
+    if (!confirm(`Rotate the ${domain} key? Existing records will be re-wrapped under the new key in the background.`)) return;
+    submit(`/api/admin/encryption-keys/${domain}/rotate`);
+  };
+
+  const handleCompromise = (domain: string, key: KeySummary) => {
+    const reason = reasons[key.id]?.trim();
+    if (!reason) {
+      setError('Give a reason before marking a key compromised');
+      return;
+    }
+    if (!confirm(`Mark ${key.id} compromised? Its records will be re-encrypted with fresh data keys.`)) return;
+    submit(`/api/admin/encryption-keys/${domain}/compromise`, { keyId: key.id, reason });
+  };
+
+  if (loading) {
+    return <Loader2 className="h-6 w-6 animate-spin mx-auto" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {domains.map((domain) => (
+        <Card key={domain.domain}>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                {domain.domain}
+                {domain.rotation.needsRotation && <Badge variant="destructive">Rotation due</Badge>}
+              </span>
+              <span className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy || domain.reEncryption.running}
+                  onClick={() => submit(`/api/admin/encryption-keys/${domain.domain}/re-encrypt`)}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Re-encrypt now
+                </Button>
+                <Button size="sm" disabled={busy} onClick={() => handleRotate(domain.domain)}>
+                  <RotateCw className="h-4 w-4 mr-1" />
+                  Rotate
+                </Button>
+              </span>
+            </CardTitle>
+            <CardDescription>
+              Active key {domain.rotation.activeKeyId} expires in {domain.rotation.daysUntilExpiration} days.{' '}
+              {domain.reEncryption.sources.length === 0
+                ? 'No stores of encrypted records are registered for this domain.'
+                : `${domain.reEncryption.pending} records in ${domain.reEncryption.sources.join(', ')} are waiting to move to the active key.`}
+              {domain.reEncryption.lastRun && (
+                <> Last run {formatDate(domain.reEncryption.lastRun.finishedAt)}: {domain.reEncryption.lastRun.reEncrypted} moved, {domain.reEncryption.lastRun.failed} failed.</>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {domain.keys.map((key) => (
+              <div key={key.id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">{key.id}</span>
+                    <Badge variant={STATUS_VARIANTS[key.status]}>{key.status}</Badge>
+                    {key.master && <Badge variant="outline">master key</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    Created {formatDate(key.createdAt)} · Expires {formatDate(key.expiresAt)}
+                  </span>
+                </div>
+
+                {key.status === 'compromised' && (
+                  <p className="text-sm text-destructive mt-1">
+                    Compromised {formatDate(key.compromisedAt)}: {key.compromiseReason}
+                  </p>
+                )}
+
+                {key.status !== 'compromised' && !key.master && (
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      placeholder="Reason for marking compromised"
+                      value={reasons[key.id] || ''}
+                      onChange={(e) => setReasons({ ...reasons, [key.id]: e.target.value })}
+                    />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => handleCompromise(domain.domain, key)}
+                    >
+                      <ShieldAlert className="h-4 w-4 mr-1" />
+                      Compromised
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,524 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, FlaskConical, History, Loader2, Plus, Save, Upload } from "lucide-react";
+
+interface ProtocolSummary {
+  id: string;
+  name: string;
+  priority: 'routine' | 'urgent' | 'emergency';
+  responseTime: number;
+  escalationPath: unknown[];
+  requiredApprovals: string[];
+  complianceRequirements: string[];
+  active: boolean;
+  version: number;
+  conditions: string;
+  draftVersion: number | null;
+}
+
+interface ProtocolVersionSummary {
+  version: number;
+  status: 'draft' | 'published' | 'superseded';
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+  publishedBy?: string;
+  publishedAt?: string;
+  conditions: string;
+  definition: Omit<ProtocolSummary, 'conditions' | 'draftVersion'>;
+}
+
+interface AuditEntry {
+  id: string;
+  version?: number;
+  action: string;
+  actorId: string;
+  changes: Record<string, unknown>;
+  createdAt: string;
+}
+
+interface SimulationSummary {
+  assessmentsReplayed: number;
+  matchedByDraft: number;
+  matchedByLive: number;
+  newlyMatched: number;
+  noLongerMatched: number;
+  bySeverity: Record<string, { assessments: number; matchedByDraft: number; matchedByLive: number }>;
+  changes: { assessmentId: string; severity: string; confidence: number; liveProtocolId: string | null; draftProtocolId: string | null }[];
+  changesTruncated: boolean;
+}
+
+interface EditorState {
+  id: string;
+  name: string;
+  priority: ProtocolSummary['priority'];
+  responseTime: string;
+  conditions: string;
+  escalationPath: string;
+  requiredApprovals: string;
+  complianceRequirements: string;
+  active: boolean;
+  note: string;
+}
+
+const PRIORITIES: ProtocolSummary['priority'][] = ['routine', 'urgent', 'emergency'];
+
+const CONDITION_HELP = "One per line: <type> <operator> <value> [weight <n>], e.g. severity >= high weight 0.9";
+
+const EMPTY_EDITOR: EditorState = {
+  id: '',
+  name: '',
+  priority: 'routine',
+  responseTime: '60',
+  conditions: '',
+  escalationPath: '[]',
+  requiredApprovals: '',
+  complianceRequirements: 'hipaa',
+  active: true,
+  note: '',
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function EscalationProtocolEditor() {
+  const [protocols, setProtocols] = useState<ProtocolSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>(EMPTY_EDITOR);
+  const [versions, setVersions] = useState<ProtocolVersionSummary[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [simulation, setSimulation] = useState<SimulationSummary | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadProtocols();
+  }, []);
+
+  const loadProtocols = async () => {
+    try {
+      const response = await fetch('/api/admin/escalation-protocols');
+      const result = await response.json();
+      if (response.ok) {
+        setProtocols(result.protocols);
+      } else {
+        setError(result.message || result.error);
+      }
+    } catch {
+      setError("Failed to load escalation protocols");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectProtocol = async (protocolId: string) => {
+    setSelectedId(protocolId);
+    setSimulation(null);
+    setIssues([]);
+
+    try {
+      const [detailResponse, auditResponse] = await Promise.all([
+        fetch(`/api/admin/escalation-protocols/${protocolId}`),
+        fetch(`/api/admin/escalation-protocols/audit?protocolId=${encodeURIComponent(protocolId)}`),
+      ]);
+      const detail = await detailResponse.json();
+      const auditResult = await auditResponse.json();
+
+      const loadedVersions: ProtocolVersionSummary[] = detail.versions || [];
+      setVersions(loadedVersions);
+      setAudit(auditResult.entries || []);
+
+      // Open the draft if there is one, otherwise the live definition
+      const latest = loadedVersions[0];
+      const definition = latest?.status === 'draft' ? latest.definition : detail.protocol;
+      const conditions = latest?.status === 'draft' ? latest.conditions : detail.protocol.conditions;
+
+      setEditor({
+        id: definition.id,
+        name: definition.name,
+        priority: definition.priority,
+        responseTime: String(definition.responseTime),
+        conditions,
+        escalationPath: JSON.stringify(definition.escalationPath, null, 2),
+        requiredApprovals: definition.requiredApprovals.join(', '),
+        complianceRequirements: definition.complianceRequirements.join(', '),
+        active: definition.active,
+        note: '',
+      });
+    } catch {
+      setError("Failed to load protocol");
+    }
+  };
+
+  const newProtocol = () => {
+    setSelectedId(null);
+    setEditor(EMPTY_EDITOR);
+    setVersions([]);
+    setAudit([]);
+    setSimulation(null);
+    setIssues([]);
+  };
+
+  // The editor's fields as an API protocol body; conditions stay as DSL text for the server to parse
+  const buildProtocol = () => ({
+    id: editor.id.trim(),
+    name: editor.name.trim(),
+    priority: editor.priority,
+    responseTime: parseInt(editor.responseTime, 10),
+    triggerConditions: editor.conditions,
+    escalationPath: JSON.parse(editor.escalationPath),
+    requiredApprovals: splitList(editor.requiredApprovals),
+    complianceRequirements: splitList(editor.complianceRequirements),
+    active: editor.active,
+  });
+
+  const submit = async <T,>(url: string, body: () => object): Promise<T | null> => {
+    setBusy(true);
+    setError(null);
+    setIssues([]);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body()),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.issues) {
+          setIssues(result.issues.map((issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`));
+        } else if (result.errors) {
+          setIssues(result.errors.map((issue: { line: number; message: string }) => `Line ${issue.line}: ${issue.message}`));
+        }
+        setError(result.message || result.error);
+        return null;
+      }
+      return result;
+    } catch (error) {
+      setError(error instanceof SyntaxError ? 'Escalation path must be valid JSON' : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    const result = await submit<{ draft: { protocolId: string } }>('/api/admin/escalation-protocols', () => ({
+      protocol: buildProtocol(),
+      note: editor.note || undefined,
+    }));
+    if (result) {
+      await loadProtocols();
+      await selectProtocol(result.draft.protocolId);
+    }
+  };
+
+  const handleSimulate = async () => {
+    const result = await submit<{ simulation: SimulationSummary }>(
+      '/api/admin/escalation-protocols/simulate',
+      () => ({ protocol: buildProtocol() })
+    );
+    if (result) {
+      setSimulation(result.simulation);
+    }
+  };
+
+  const handlePublish = async (version: number) => {
+    if (!selectedId) return;
+    const result = await submit(`/api/admin/escalation-protocols/${selectedId}/publish`, () => ({ version }));
+    if (result) {
+      await loadProtocols();
+      await selectProtocol(selectedId);
+    }
+  };
+
+  const handleToggleActive = async (protocol: ProtocolSummary) => {
+    try {
+      const response = await fetch(`/api/admin/escalation-protocols/${protocol.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !protocol.active }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.message || result.error);
+      }
+      await loadProtocols();
+      if (selectedId === protocol.id) {
+        await selectProtocol(protocol.id);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update protocol');
+    }
+  };
+
+  const draft = versions.find(version => version.status === 'draft');
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {/* Protocol List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Protocols
+            <Button variant="outline" size="sm" onClick={newProtocol}>
+              <Plus className="h-4 w-4 mr-1" />
+              New
+            </Button>
+          </CardTitle>
+          <CardDescription>Live protocols and their published version.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : protocols.map((protocol) => (
+            <div
+              key={protocol.id}
+              className={`p-3 border rounded-lg cursor-pointer ${selectedId === protocol.id ? 'border-primary' : ''}`}
+              onClick={() => selectProtocol(protocol.id)}
+            >
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{protocol.name}</h4>
+                <Switch
+                  checked={protocol.active}
+                  onClick={(e) => e.stopPropagation()}
+                  onCheckedChange={() => handleToggleActive(protocol)}
+                  aria-label={protocol.active ? 'Deactivate protocol' : 'Activate protocol'}
+                />
+              </div>
+              <div className="flex gap-1 mt-1">
+                <Badge variant="secondary" className="text-xs">{protocol.priority}</Badge>
+                <Badge variant="outline" className="text-xs">v{protocol.version}</Badge>
+                {protocol.draftVersion && (
+                  <Badge variant="outline" className="text-xs">draft v{protocol.draftVersion}</Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Editor */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>{selectedId ? `Edit ${editor.name}` : 'New Protocol'}</CardTitle>
+          <CardDescription>
+            Changes are saved as a draft. Simulate a draft against past assessments before publishing it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="protocol-id">ID</Label>
+              <Input
+                id="protocol-id"
+                value={editor.id}
+                disabled={!!selectedId}
+                onChange={(e) => setEditor({ ...editor, id: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="protocol-name">Name</Label>
+              <Input id="protocol-name" value={editor.name} onChange={(e) => setEditor({ ...editor, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Priority</Label>
+              <Select
+                value={editor.priority}
+                onValueChange={(value) => setEditor({ ...editor, priority: value as ProtocolSummary['priority'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="protocol-response-time">Response time (minutes)</Label>
+              <Input
+                id="protocol-response-time"
+                type="number"
+                value={editor.responseTime}
+                onChange={(e) => setEditor({ ...editor, responseTime: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="protocol-conditions">Trigger conditions</Label>
+            <Textarea
+              id="protocol-conditions"
+              className="font-mono mt-2"
+              rows={5}
+              value={editor.conditions}
+              placeholder={CONDITION_HELP}
+              onChange={(e) => setEditor({ ...editor, conditions: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{CONDITION_HELP}</p>
+          </div>
+
+          <div>
+            <Label htmlFor="protocol-path">Escalation path (JSON, fallbacks nested in each step)</Label>
+            <Textarea
+              id="protocol-path"
+              className="font-mono mt-2"
+              rows={10}
+              value={editor.escalationPath}
+              onChange={(e) => setEditor({ ...editor, escalationPath: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="protocol-approvals">Required approvals (comma separated)</Label>
+              <Input
+                id="protocol-approvals"
+                value={editor.requiredApprovals}
+                onChange={(e) => setEditor({ ...editor, requiredApprovals: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="protocol-compliance">Compliance requirements (comma separated)</Label>
+              <Input
+                id="protocol-compliance"
+                value={editor.complianceRequirements}
+                onChange={(e) => setEditor({ ...editor, complianceRequirements: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="protocol-active"
+              checked={editor.active}
+              onCheckedChange={(checked) => setEditor({ ...editor, active: checked })}
+            />
+            <Label htmlFor="protocol-active">Active once published</Label>
+          </div>
+
+          <div>
+            <Label htmlFor="protocol-note">Change note</Label>
+            <Input id="protocol-note" value={editor.note} onChange={(e) => setEditor({ ...editor, note: e.target.value })} />
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {error}
+                {issues.length > 0 && (
+                  <ul className="list-disc ml-4 mt-2">
+                    {issues.map((issue) => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleSimulate} disabled={busy}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Simulate
+            </Button>
+            <Button variant="outline" onClick={handleSaveDraft} disabled={busy}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Draft
+            </Button>
+            {draft && (
+              <Button onClick={() => handlePublish(draft.version)} disabled={busy}>
+                <Upload className="h-4 w-4 mr-2" />
+                Publish v{draft.version}
+              </Button>
+            )}
+          </div>
+
+          {/* Simulation Results */}
+          {simulation && (
+            <div className="p-4 border rounded-lg space-y-2 text-sm">
+              <h4 className="font-medium">
+                Replayed {simulation.assessmentsReplayed} assessments
+              </h4>
+              <p>
+                This draft would trigger on {simulation.matchedByDraft} (live version: {simulation.matchedByLive}):
+                {' '}{simulation.newlyMatched} newly matched, {simulation.noLongerMatched} no longer matched.
+              </p>
+              <div className="flex gap-2">
+                {Object.entries(simulation.bySeverity).map(([severity, counts]) => (
+                  <Badge key={severity} variant="secondary">
+                    {severity}: {counts.matchedByDraft}/{counts.assessments}
+                  </Badge>
+                ))}
+              </div>
+              {simulation.changes.length > 0 && (
+                <ul className="text-xs text-muted-foreground">
+                  {simulation.changes.map((change) => (
+                    <li key={change.assessmentId}>
+                      {change.assessmentId} ({change.severity}, {change.confidence.toFixed(2)}):
+                      {' '}{change.liveProtocolId || 'none'} → {change.draftProtocolId || 'none'}
+                    </li>
+                  ))}
+                  {simulation.changesTruncated && <li>…and more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Versions and Audit Trail */}
+      {selectedId && (
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <h4 className="font-medium">Versions</h4>
+              {versions.map((version) => (
+                <div key={version.version} className="flex items-center justify-between text-sm">
+                  <span>
+                    v{version.version} by {version.createdBy}
+                    {version.note && ` — ${version.note}`}
+                  </span>
+                  <Badge variant={version.status === 'published' ? 'default' : 'outline'}>{version.status}</Badge>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium">Audit trail</h4>
+              {audit.map((entry) => (
+                <div key={entry.id} className="text-sm">
+                  <span className="font-medium">{entry.actorId}</span> {entry.action.replace('_', ' ')}
+                  {entry.version !== undefined && ` v${entry.version}`}
+                  <span className="text-muted-foreground">
+                    {' '}({Object.keys(entry.changes).join(', ') || 'no changes'}) {new Date(entry.createdAt).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, FileText, Trash2, Eye, Download, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
+import { Upload, FileText, Trash2, Eye, Download, Loader2, CheckCircle, AlertTriangle, Clock, RotateCcw } from "lucide-react";
 
 interface KnowledgeDocument {
   id: string;
@@ -16,8 +16,10 @@ interface KnowledgeDocument {
   filename: string;
   contentType: string;
   category: string[];
-  status: 'uploading' | 'processing' | 'ready' | 'error';
+  status: 'uploading' | 'uploaded' | 'queued' | 'processing' | 'ready' | 'error';
+  progress?: number; // Ingestion progress percentage while queued/processing
   chunkCount?: number;
+  error?: string;
   uploadedAt: string;
   fileSize: number;
 }
@@ -51,12 +53,22 @@ export function KnowledgeBaseManager() {
   const [contentType, setContentType] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const pollers = useRef<Map<string, ReturnType<typeof setInterval>>>(new Map());
 
   // Load documents on component mount
   useEffect(() => {
     loadDocuments();
   }, []);
 
+  // Stop polling when the component unmounts
+  useEffect(() => {
+    const activePollers = pollers.current;
+    return () => {
+      activePollers.forEach(interval => clearInterval(interval));
+      activePollers.clear();
+    };
+  }, []);
+
   const loadDocuments = async () => {
     try {
       const response = await fetch('/api/admin/knowledge');
@@ -72,9 +84,15 @@ export function KnowledgeBaseManager() {
           status: doc.status,
           uploadedAt: doc.uploadedAt || new Date().toISOString(),
           fileSize: doc.fileSize,
-          chunkCount: doc.chunkCount
+          chunkCount: doc.chunkCount,
+          error: doc.error
         }));
         setDocuments(docs);
+
+        // Track documents that are still being ingested
+        docs
+          .filter(doc => doc.status === 'uploaded' || doc.status === 'queued' || doc.status === 'processing')
+          .forEach(doc => pollDocumentStatus(doc.id));
       }
     } catch (error) {
       setError("Failed to load documents");
@@ -129,8 +147,6 @@ export function KnowledgeBaseManager() {
         throw new Error(errorData.error || 'Upload failed');
       }
 
-      const result = await response.json();
-
       // Reset form
       setUploadingFile(null);
       setSelectedCategories([]);
@@ -146,7 +162,14 @@ export function KnowledgeBaseManager() {
     }
   };
 
-  const pollDocumentStatus = async (documentId: string) => {
+  const pollDocumentStatus = (documentId: string) => {
+    if (pollers.current.has(documentId)) return;
+
+    const stopPolling = () => {
+      clearInterval(pollers.current.get(documentId));
+      pollers.current.delete(documentId);
+    };
+
     const pollInterval = setInterval(async () => {
       try {
         const response = await fetch(`/api/admin/knowledge/status/${documentId}`);
@@ -154,18 +177,48 @@ export function KnowledgeBaseManager() {
 
         setDocuments(prev => prev.map(doc =>
           doc.id === documentId
-            ? { ...doc, status: status.status, chunkCount: status.chunkCount }
+            ? {
+                ...doc,
+                status: status.status,
+                progress: status.progress,
+                chunkCount: status.chunkCount,
+                error: status.error
+              }
             : doc
         ));
 
-        if (status.status === 'ready' || status.status === 'error') {
-          clearInterval(pollInterval);
+        if (!response.ok || status.status === 'ready' || status.status === 'error') {
+          stopPolling();
         }
       } catch (error) {
         console.error('Failed to poll document status:', error);
-        clearInterval(pollInterval);
+        stopPolling();
       }
     }, 2000); // Poll every 2 seconds
+
+    pollers.current.set(documentId, pollInterval);
+  };
+
+  const handleRetry = async (documentId: string) => {
+    try {
+      const response = await fetch(`/api/admin/knowledge/${documentId}/retry`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Retry failed');
+      }
+
+      setDocuments(prev => prev.map(doc =>
+        doc.id === documentId
+          ? { ...doc, status: 'queued', progress: 0, error: undefined }
+          : doc
+      ));
+      pollDocumentStatus(documentId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Retry failed');
+    }
   };
 
   const handleDelete = async (documentId: string) => {
@@ -198,6 +251,8 @@ export function KnowledgeBaseManager() {
       case 'uploading':
       case 'processing':
         return <Loader2 className="h-4 w-4 animate-spin" />;
+      case 'queued':
+        return <Clock className="h-4 w-4 text-gray-600" />;
       case 'ready':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
       case 'error':
@@ -207,6 +262,17 @@ export function KnowledgeBaseManager() {
     }
   };
 
+  const getStatusLabel = (doc: KnowledgeDocument) => {
+    switch (doc.status) {
+      case 'error':
+        return 'Failed';
+      case 'processing':
+        return doc.progress !== undefined ? `Processing ${doc.progress}%` : 'Processing';
+      default:
+        return doc.status.charAt(0).toUpperCase() + doc.status.slice(1);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ready':
@@ -358,7 +424,7 @@ export function KnowledgeBaseManager() {
                         <span>{formatFileSize(doc.fileSize)}</span>
                         <span>•</span>
                         <span className={getStatusColor(doc.status)}>
-                          {doc.status.charAt(0).toUpperCase() + doc.status.slice(1)}
+                          {getStatusLabel(doc)}
                         </span>
                         {doc.chunkCount && (
                           <>
@@ -367,6 +433,9 @@ export function KnowledgeBaseManager() {
                           </>
                         )}
                       </div>
+                      {doc.status === 'error' && doc.error && (
+                        <p className="text-sm text-red-600 mt-1">{doc.error}</p>
+                      )}
                       <div className="flex gap-1 mt-1">
                         {doc.category.map((cat) => (
                           <Badge key={cat} variant="secondary" className="text-xs">
@@ -378,6 +447,16 @@ export function KnowledgeBaseManager() {
                   </div>
 
                   <div className="flex gap-2">
+                    {doc.status === 'error' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetry(doc.id)}
+                        aria-label="Retry processing"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button variant="outline" size="sm">
                       <Eye className="h-4 w-4" />
                     </Button>
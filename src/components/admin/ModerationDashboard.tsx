@@ -0,0 +1,318 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, Ban, Check, Gavel, LifeBuoy, Loader2, Trash2, X } from "lucide-react";
+
+interface QueueEntry {
+  id: string;
+  targetType: 'post' | 'comment';
+  targetId: string;
+  authorId: string;
+  source: 'classifier' | 'report' | 'crisis';
+  labels: string[];
+  reportCount: number;
+  urgent: boolean;
+  escalationId?: string;
+  createdAt: string;
+  content: {
+    text: string;
+    title?: string;
+    postId?: string;
+    groupId?: string;
+    moderationStatus: string;
+    createdAt: string;
+  } | null;
+}
+
+interface AppealEntry {
+  id: string;
+  actionId: string;
+  userId: string;
+  statement: string;
+  createdAt: string;
+  action: {
+    moderatorId: string;
+    targetType: string;
+    targetId: string;
+    action: string;
+    reason: string;
+    duration?: number;
+    expiresAt?: string;
+  } | null;
+}
+
+interface Decision {
+  reason: string;
+  banHours: string; // Empty for no ban, 0 for a permanent one
+}
+
+const SOURCE_LABELS: Record<QueueEntry['source'], string> = {
+  classifier: 'Held on posting',
+  report: 'Reported',
+  crisis: 'Possible crisis',
+};
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+export function ModerationDashboard() {
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [pending, setPending] = useState(0);
+  const [appeals, setAppeals] = useState<AppealEntry[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [ban, setBan] = useState({ userId: '', hours: '24', reason: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    try {
+      const [queueResponse, appealsResponse] = await Promise.all([
+        fetch('/api/admin/moderation/queue?limit=50'),
+        fetch('/api/admin/moderation/appeals'),
+      ]);
+      const [queueResult, appealsResult] = await Promise.all([queueResponse.json(), appealsResponse.json()]);
+
+      if (queueResponse.ok && appealsResponse.ok) {
+        setQueue(queueResult.items);
+        setPending(queueResult.pending);
+        setAppeals(appealsResult.appeals);
+      } else {
+        const failed = queueResponse.ok ? appealsResult : queueResult;
+        setError(failed.message || failed.error);
+      }
+    } catch {
+      setError("Failed to load the moderation queue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (url: string, body: object) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.message || result.error);
+        return false;
+      }
+      await loadAll();
+      return true;
+    } catch {
+      setError('Request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const decisionFor = (itemId: string): Decision => decisions[itemId] || { reason: '', banHours: '' };
+
+  const handleResolve = (item: QueueEntry, decision: 'approve' | 'reject' | 'delete') => {
+    const { reason, banHours } = decisionFor(item.id);
+    if (!reason.trim()) {
+      setError('Give a reason for the decision');
+      return;
+    }
+    submit(`/api/admin/moderation/queue/${item.id}`, {
+      decision,
+      reason: reason.trim(),
+      ...(banHours.trim() && { banHours: Number(banHours) }),
+    });
+  };
+
+  const handleAppeal = (appeal: AppealEntry, status: 'upheld' | 'overturned') => {
+    submit(`/api/admin/moderation/appeals/${appeal.id}`, { status, note: notes[appeal.id]?.trim() || undefined });
+  };
+
+  const handleBan = async () => {
+    if (!ban.userId.trim() || !ban.reason.trim()) {
+      setError('A ban needs a member and a reason');
+      return;
+    }
+    const hours = Number(ban.hours);
+    const banned = await submit('/api/admin/moderation/actions', {
+      targetType: 'user',
+      targetId: ban.userId.trim(),
+      action: 'ban',
+      reason: ban.reason.trim(),
+      ...(hours > 0 && { duration: hours }),
+    });
+    if (banned) {
+      setBan({ userId: '', hours: '24', reason: '' });
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-6 w-6 animate-spin mx-auto" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="queue">
+        <TabsList>
+          <TabsTrigger value="queue">Queue ({pending})</TabsTrigger>
+          <TabsTrigger value="appeals">Appeals ({appeals.length})</TabsTrigger>
+          <TabsTrigger value="bans">Bans</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="queue" className="space-y-4">
+          {queue.length === 0 && <p className="text-muted-foreground">Nothing is waiting for review.</p>}
+
+          {queue.map((item) => (
+            <Card key={item.id} className={item.urgent ? 'border-destructive' : undefined}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  {item.urgent && <LifeBuoy className="h-5 w-5 text-destructive" />}
+                  {item.content?.title || `${item.targetType} ${item.targetId}`}
+                  <Badge variant={item.urgent ? 'destructive' : 'secondary'}>{SOURCE_LABELS[item.source]}</Badge>
+                  {item.reportCount > 0 && <Badge variant="outline">{item.reportCount} reports</Badge>}
+                  {item.labels.map((label) => <Badge key={label} variant="outline">{label}</Badge>)}
+                </CardTitle>
+                <CardDescription>
+                  {item.targetType} by {item.authorId} · queued {formatDate(item.createdAt)}
+                  {item.escalationId && <> · safety escalation {item.escalationId}</>}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {item.content
+                  ? <p className="whitespace-pre-wrap text-sm p-3 bg-muted rounded-lg">{item.content.text}</p>
+                  : <p className="text-sm text-muted-foreground">The content has since been removed.</p>}
+
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Reason for the decision"
+                    value={decisionFor(item.id).reason}
+                    onChange={(e) => setDecisions({ ...decisions, [item.id]: { ...decisionFor(item.id), reason: e.target.value } })}
+                  />
+                  <Input
+                    className="w-48"
+                    type="number"
+                    min={0}
+                    placeholder="Ban author (hours, 0 = permanent)"
+                    value={decisionFor(item.id).banHours}
+                    onChange={(e) => setDecisions({ ...decisions, [item.id]: { ...decisionFor(item.id), banHours: e.target.value } })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" disabled={busy} onClick={() => handleResolve(item, 'approve')}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => handleResolve(item, 'reject')}>
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button variant="destructive" size="sm" disabled={busy} onClick={() => handleResolve(item, 'delete')}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="appeals" className="space-y-4">
+          {appeals.length === 0 && <p className="text-muted-foreground">No appeals are waiting for a decision.</p>}
+
+          {appeals.map((appeal) => (
+            <Card key={appeal.id}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Gavel className="h-5 w-5" />
+                  {appeal.action ? `${appeal.action.action} on ${appeal.action.targetType} ${appeal.action.targetId}` : appeal.actionId}
+                </CardTitle>
+                <CardDescription>
+                  Appealed by {appeal.userId} on {formatDate(appeal.createdAt)}
+                  {appeal.action && <> · decided by {appeal.action.moderatorId}: {appeal.action.reason}</>}
+                  {appeal.action?.expiresAt && <> · ban ends {formatDate(appeal.action.expiresAt)}</>}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="whitespace-pre-wrap text-sm p-3 bg-muted rounded-lg">{appeal.statement}</p>
+                <Input
+                  placeholder="Note to the member (optional)"
+                  value={notes[appeal.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                />
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => handleAppeal(appeal, 'upheld')}>
+                    Uphold
+                  </Button>
+                  <Button size="sm" disabled={busy} onClick={() => handleAppeal(appeal, 'overturned')}>
+                    Overturn
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="bans">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Ban className="h-5 w-5" />
+                Ban a member
+              </CardTitle>
+              <CardDescription>
+                A banned member can&apos;t post, comment or join groups until the ban ends. Leave hours at 0 for a
+                permanent ban.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="User ID"
+                  value={ban.userId}
+                  onChange={(e) => setBan({ ...ban, userId: e.target.value })}
+                />
+                <Input
+                  className="w-32"
+                  type="number"
+                  min={0}
+                  value={ban.hours}
+                  onChange={(e) => setBan({ ...ban, hours: e.target.value })}
+                />
+              </div>
+              <Input
+                placeholder="Reason"
+                value={ban.reason}
+                onChange={(e) => setBan({ ...ban, reason: e.target.value })}
+              />
+              <Button variant="destructive" size="sm" disabled={busy} onClick={handleBan}>
+                <Ban className="h-4 w-4 mr-1" />
+                Ban
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
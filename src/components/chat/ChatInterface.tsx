@@ -4,9 +4,11 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square } from 'lucide-react';
 import { ChatMessageComponent, ChatMessage } from './ChatMessage';
+import type { KnowledgeCitation } from '@/services/knowledge/KnowledgeRetriever';
 import { cn } from '@/lib/utils';
+import { readSseStream } from '@/lib/sse';
 
 interface ChatInterfaceProps {
   className?: string;
@@ -14,6 +16,15 @@ interface ChatInterfaceProps {
   messages?: ChatMessage[];
   isLoading?: boolean;
   disabled?: boolean;
+  streamUrl?: string; // When set, messages are sent here with `stream: true` and rendered token by token
+  onCrisisDetected?: (crisis: CrisisSignal) => void;
+}
+
+export interface CrisisSignal {
+  level: 'low' | 'medium' | 'high' | 'critical';
+  flagged: boolean;
+  language: string;
+  resourcesUrl: string; // Crisis resources for the language the user wrote in
 }
 
 export function ChatInterface({
@@ -22,10 +33,14 @@ export function ChatInterface({
   messages: externalMessages = [],
   isLoading = false,
   disabled = false,
+  streamUrl,
+  onCrisisDetected,
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<ChatMessage[]>(externalMessages);
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -39,6 +54,11 @@ export function ChatInterface({
     inputRef.current?.focus();
   }, []);
 
+  // Abort any in-flight stream when the component unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isSending || disabled) return;
 
@@ -54,7 +74,9 @@ export function ChatInterface({
     setIsSending(true);
 
     try {
-      if (onSendMessage) {
+      if (streamUrl) {
+        await streamAssistantReply(userMessage.content);
+      } else if (onSendMessage) {
         await onSendMessage(userMessage.content);
       }
     } catch (error) {
@@ -72,6 +94,76 @@ export function ChatInterface({
     }
   };
 
+  const streamAssistantReply = async (content: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let assistantId: string | null = null;
+    let text = '';
+
+    try {
+      const response = await fetch(streamUrl!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: content, conversationId, stream: true }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to send message');
+      }
+
+      assistantId = addAssistantMessage('', true);
+
+      await readSseStream(response, ({ event, data }) => {
+        switch (event) {
+          case 'crisis':
+            onCrisisDetected?.(data as CrisisSignal);
+            break;
+          case 'token':
+            text += (data as { delta: string }).delta;
+            updateMessage(assistantId!, text, true);
+            break;
+          case 'done': {
+            const { conversationId, message, citations } = data as {
+              conversationId: string;
+              message?: string;
+              citations?: KnowledgeCitation[];
+            };
+            setConversationId(conversationId);
+            // The saved reply, after personalization, replaces what was streamed
+            text = message ?? text;
+            updateMessage(assistantId!, text, false, citations);
+            break;
+          }
+          case 'error': {
+            const { message, error } = data as { message?: string; error?: string };
+            throw new Error(message || error);
+          }
+        }
+      });
+    } catch (error) {
+      // A user-initiated cancel keeps whatever was streamed so far
+      if (controller.signal.aborted) {
+        if (assistantId) {
+          updateMessage(assistantId, text, false);
+        }
+        return;
+      }
+
+      if (assistantId) {
+        setMessages(prev => prev.filter(msg => msg.id !== assistantId));
+      }
+      throw error;
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -91,11 +183,16 @@ export function ChatInterface({
     return assistantMessage.id;
   };
 
-  const updateMessage = (messageId: string, content: string, isStreaming = false) => {
+  const updateMessage = (
+    messageId: string,
+    content: string,
+    isStreaming = false,
+    citations?: KnowledgeCitation[]
+  ) => {
     setMessages(prev =>
       prev.map(msg =>
         msg.id === messageId
-          ? { ...msg, content, isStreaming }
+          ? { ...msg, content, isStreaming, ...(citations && { citations }) }
           : msg
       )
     );
@@ -141,18 +238,29 @@ export function ChatInterface({
             className="flex-1"
             aria-label="Chat message input"
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isSending || disabled}
-            size="icon"
-            aria-label="Send message"
-          >
-            {isSending ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <Send className="w-4 h-4" />
-            )}
-          </Button>
+          {isSending && streamUrl ? (
+            <Button
+              onClick={handleCancel}
+              variant="outline"
+              size="icon"
+              aria-label="Stop generating response"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim() || isSending || disabled}
+              size="icon"
+              aria-label="Send message"
+            >
+              {isSending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </Button>
+          )}
         </div>
 
         {disabled && (
@@ -1,7 +1,9 @@
 'use client';
 
+import { useState } from 'react';
 import { cn } from '@/lib/utils';
-import { MessageCircle, User } from 'lucide-react';
+import { MessageCircle, User, BookOpen, ChevronDown, ChevronRight } from 'lucide-react';
+import type { KnowledgeCitation } from '@/services/knowledge/KnowledgeRetriever';
 
 export interface ChatMessage {
   id: string;
@@ -9,6 +11,7 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   timestamp: Date;
   isStreaming?: boolean;
+  citations?: KnowledgeCitation[]; // Knowledge base sources the reply was grounded in
 }
 
 interface ChatMessageProps {
@@ -57,7 +60,59 @@ export function ChatMessageComponent({ message, className }: ChatMessageProps) {
             <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse ml-1" />
           )}
         </div>
+
+        {!message.isStreaming && message.citations && message.citations.length > 0 && (
+          <SourceFootnotes citations={message.citations} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SourceFootnotes({ citations }: { citations: KnowledgeCitation[] }) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200">
+      <div className="flex items-center gap-1 text-xs font-medium text-gray-600 mb-1">
+        <BookOpen className="w-3 h-3" />
+        Sources
       </div>
+      <ol className="space-y-1">
+        {citations.map((citation) => {
+          const isExpanded = expanded === citation.marker;
+          const location = [
+            citation.headingPath.join(' › '),
+            citation.page !== undefined ? `page ${citation.page}` : '',
+          ].filter(Boolean).join(' — ');
+
+          return (
+            <li key={citation.chunkId} className="text-xs text-gray-600">
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : citation.marker)}
+                className="flex items-start gap-1 text-left hover:text-gray-900"
+                aria-expanded={isExpanded}
+              >
+                {isExpanded ? (
+                  <ChevronDown className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                )}
+                <span>
+                  <span className="font-medium">[{citation.marker}]</span> {citation.documentTitle}
+                  {location && <span className="text-gray-500"> — {location}</span>}
+                </span>
+              </button>
+              {isExpanded && (
+                <blockquote className="mt-1 ml-4 pl-2 border-l-2 border-gray-300 text-gray-700 whitespace-pre-wrap">
+                  {citation.excerpt}
+                </blockquote>
+              )}
+            </li>
+          );
+        })}
+      </ol>
     </div>
   );
 }
\ No newline at end of file
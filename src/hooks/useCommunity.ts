@@ -1,113 +1,168 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { CommunityService, UserProfile, SupportGroup, CommunityPost, Comment, UserConnection, CommunityEvent } from '@/services/community/CommunityService';
-import { PeerSupportService, SupportMatch, CrisisSupportRequest, SupportNetwork } from '@/services/community/PeerSupportService';
+import { z } from 'zod';
+import {
+  ApiError,
+  CommentInput,
+  CommentResource,
+  ConnectionResource,
+  CrisisRequestInput,
+  CrisisSupportRequestResource,
+  EventInput,
+  EventResource,
+  GroupInput,
+  GroupResource,
+  ModerationResult,
+  PostInput,
+  PostResource,
+  ProfileInput,
+  ProfileResource,
+  ProfileUpdate,
+  SupportMatchQuery,
+  SupportMatchResource,
+  SupportNetworkResource,
+  commentPageResponseSchema,
+  commentResponseSchema,
+  commentSchema,
+  connectionListResponseSchema,
+  connectionResponseSchema,
+  crisisRequestResponseSchema,
+  eventListResponseSchema,
+  eventResponseSchema,
+  groupListResponseSchema,
+  groupResponseSchema,
+  membershipResponseSchema,
+  postPageResponseSchema,
+  postResponseSchema,
+  postSchema,
+  profileResponseSchema,
+  supportMatchListResponseSchema,
+  supportNetworkResponseSchema,
+} from '@/services/community/api/schemas';
+import type { ReactionKind } from '@/services/community/CommunityService';
+import type { RealtimeEvent, ReactionEventData } from '@/services/community/realtime';
 import { logger } from '@/lib/logger';
+import { useCommunityRealtime } from './useCommunityRealtime';
 
 interface UseCommunityOptions {
   userId?: string;
   enabled?: boolean;
   autoRefresh?: boolean;
   refreshInterval?: number; // minutes
+  realtime?: boolean; // Live feed updates; polling only runs while disconnected
 }
 
 interface UseCommunityReturn {
   // Data
-  profile: UserProfile | null;
-  groups: SupportGroup[];
-  posts: CommunityPost[];
-  connections: UserConnection[];
-  events: CommunityEvent[];
-  supportMatches: SupportMatch[];
-  supportNetwork: SupportNetwork | null;
+  profile: ProfileResource | null;
+  groups: GroupResource[];
+  posts: PostResource[];
+  connections: ConnectionResource[];
+  events: EventResource[];
+  supportMatches: SupportMatchResource[];
+  supportNetwork: SupportNetworkResource | null;
 
   // State
   isLoading: boolean;
   error: string | null;
   lastUpdated: Date | null;
+  connected: boolean; // Receiving live updates
 
   // Profile actions
-  createProfile: (profileData: Omit<UserProfile, 'userId' | 'joinedAt' | 'lastActive' | 'isActive'>) => Promise<UserProfile | null>;
-  updateProfile: (updates: Partial<UserProfile>) => Promise<UserProfile | null>;
+  createProfile: (profileData: ProfileInput) => Promise<ProfileResource | null>;
+  updateProfile: (updates: ProfileUpdate) => Promise<ProfileResource | null>;
 
   // Group actions
-  createGroup: (groupData: {
-    name: string;
-    description: string;
-    category: string;
-    privacyLevel?: 'public' | 'private' | 'invite-only';
-    rules?: string[];
-    maxMembers?: number;
-    tags?: string[];
-  }) => Promise<SupportGroup | null>;
+  createGroup: (groupData: GroupInput) => Promise<GroupResource | null>;
   joinGroup: (groupId: string) => Promise<boolean>;
 
   // Post actions
-  createPost: (postData: {
-    groupId?: string;
-    title?: string;
-    content: string;
-    contentType?: 'text' | 'image' | 'link' | 'poll';
-    tags?: string[];
-    mood?: string;
-    triggerWarnings?: string[];
-    isAnonymous?: boolean;
-  }) => Promise<CommunityPost | null>;
-  createComment: (commentData: {
-    postId: string;
-    content: string;
-    isAnonymous?: boolean;
-  }) => Promise<Comment | null>;
+  createPost: (postData: PostInput & { groupId?: string }) => Promise<PostSubmission | null>;
+  createComment: (commentData: CommentInput & { postId: string }) => Promise<CommentSubmission | null>;
+  loadComments: (postId: string, cursor?: string) => Promise<CommentPage | null>;
+  react: (targetType: 'post' | 'comment', targetId: string, kind?: ReactionKind) => Promise<number | null>;
 
   // Connection actions
-  createConnection: (connectedUserId: string, connectionType?: 'friend' | 'mentor' | 'mentee' | 'peer_support') => Promise<UserConnection | null>;
+  createConnection: (connectedUserId: string, connectionType?: 'friend' | 'mentor' | 'mentee' | 'peer_support') => Promise<ConnectionResource | null>;
 
   // Event actions
-  createEvent: (eventData: {
-    title: string;
-    description: string;
-    eventType?: 'workshop' | 'support_group' | 'social' | 'educational';
+  createEvent: (eventData: Omit<EventInput, 'startTime' | 'endTime'> & {
     startTime: Date;
     endTime: Date;
-    maxParticipants?: number;
-    location?: 'virtual' | 'in-person';
-    meetingLink?: string;
-    address?: string;
-    tags?: string[];
-    prerequisites?: string[];
-    isPublic?: boolean;
-  }) => Promise<CommunityEvent | null>;
+  }) => Promise<EventResource | null>;
+  rsvpEvent: (eventId: string) => Promise<EventResource | null>;
+  cancelRsvp: (eventId: string) => Promise<EventResource | null>;
 
   // Peer support actions
-  findSupportMatches: (criteria?: {
-    supportType?: string;
-    urgency?: 'low' | 'medium' | 'high';
-    topics?: string[];
-    maxMatches?: number;
-  }) => Promise<SupportMatch[]>;
-  createCrisisRequest: (requestData: {
-    severity: 'low' | 'medium' | 'high' | 'critical';
-    crisisType: string;
-    description: string;
-    immediateNeeds?: string[];
-    preferredSupportType?: 'chat' | 'call' | 'in-person' | 'professional';
-    location?: {
-      type: 'virtual' | 'physical';
-      details?: string;
-    };
-  }) => Promise<CrisisSupportRequest | null>;
-  buildSupportNetwork: () => Promise<SupportNetwork | null>;
+  findSupportMatches: (criteria?: SupportMatchQuery) => Promise<SupportMatchResource[]>;
+  createCrisisRequest: (requestData: CrisisRequestInput) => Promise<CrisisSupportRequestResource | null>;
+  buildSupportNetwork: () => Promise<SupportNetworkResource | null>;
 
   // Utility actions
   refreshData: () => Promise<void>;
   clearError: () => void;
 
   // Computed values
-  joinedGroups: SupportGroup[];
-  availableGroups: SupportGroup[];
-  recentPosts: CommunityPost[];
-  upcomingEvents: CommunityEvent[];
-  activeConnections: UserConnection[];
-  pendingConnections: UserConnection[];
+  joinedGroups: GroupResource[];
+  availableGroups: GroupResource[];
+  recentPosts: PostResource[];
+  upcomingEvents: EventResource[];
+  activeConnections: ConnectionResource[];
+  pendingConnections: ConnectionResource[];
+}
+
+// Screening outcome comes back with every new post and comment
+interface PostSubmission {
+  post: PostResource;
+  moderation: ModerationResult;
+}
+
+interface CommentSubmission {
+  comment: CommentResource;
+  moderation: ModerationResult;
+}
+
+interface CommentPage {
+  comments: CommentResource[];
+  nextCursor: string | null;
+}
+
+export class CommunityApiError extends Error {
+  constructor(public status: number, public body: Partial<ApiError>) {
+    super(body.message || body.error || `HTTP ${status}`);
+    this.name = 'CommunityApiError';
+  }
+}
+
+/**
+ * Calls a community route and parses the response with its schema, so dates arrive as Dates. Error
+ * bodies are thrown as CommunityApiError.
+ */
+async function communityRequest<T extends z.ZodType>(
+  schema: T,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<z.output<T>> {
+  const response = await fetch(`/api/community${path}`, {
+    method: init.method || 'GET',
+    headers: init.body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new CommunityApiError(response.status, result);
+  }
+  return schema.parse(result);
+}
+
+// Data the member may not have yet (a profile, a support network) comes back as a 404
+async function optional<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof CommunityApiError && error.status === 404) return null;
+    throw error;
+  }
 }
 
 export function useCommunity(options: UseCommunityOptions = {}): UseCommunityReturn {
@@ -115,31 +170,32 @@ export function useCommunity(options: UseCommunityOptions = {}): UseCommunityRet
     userId,
     enabled = true,
     autoRefresh = true,
-    refreshInterval = 30 // 30 minutes
+    refreshInterval = 30, // 30 minutes
+    realtime = true
   } = options;
 
   // State
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [groups, setGroups] = useState<SupportGroup[]>([]);
-  const [posts, setPosts] = useState<CommunityPost[]>([]);
-  const [connections, setConnections] = useState<UserConnection[]>([]);
-  const [events, setEvents] = useState<CommunityEvent[]>([]);
-  const [supportMatches, setSupportMatches] = useState<SupportMatch[]>([]);
-  const [supportNetwork, setSupportNetwork] = useState<SupportNetwork | null>(null);
+  const [profile, setProfile] = useState<ProfileResource | null>(null);
+  const [groups, setGroups] = useState<GroupResource[]>([]);
+  const [posts, setPosts] = useState<PostResource[]>([]);
+  const [connections, setConnections] = useState<ConnectionResource[]>([]);
+  const [events, setEvents] = useState<EventResource[]>([]);
+  const [supportMatches, setSupportMatches] = useState<SupportMatchResource[]>([]);
+  const [supportNetwork, setSupportNetwork] = useState<SupportNetworkResource | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-  // Service instances (client-side only)
-  const communityService = useMemo(() => {
-    if (typeof window === 'undefined') return null;
-    return new CommunityService();
-  }, []);
+  const fail = useCallback((err: unknown, message: string, context: Record<string, unknown> = {}) => {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    setError(errorMessage);
 
-  const peerSupportService = useMemo(() => {
-    if (typeof window === 'undefined' || !communityService) return null;
-    return new PeerSupportService(communityService);
-  }, [communityService]);
+    logger.error({
+      error: errorMessage,
+      userId,
+      ...context
+    }, message);
+  }, [userId]);
 
   // Fetch all community data
   const fetchData = useCallback(async () => {
@@ -151,28 +207,28 @@ export function useCommunity(options: UseCommunityOptions = {}): UseCommunityRet
 
       // Fetch data in parallel
       const [profileData, groupsData, postsData, connectionsData, eventsData] = await Promise.all([
-        fetch(`/api/community?action=get_profile&userId=${userId}`).then(r => r.json()).catch(() => ({ success: false })),
-        fetch('/api/community?action=get_groups').then(r => r.json()),
-        fetch('/api/community?action=get_posts&limit=50').then(r => r.json()),
-        fetch(`/api/community?action=get_connections&userId=${userId}`).then(r => r.json()).catch(() => ({ success: false })),
-        fetch('/api/community?action=get_events').then(r => r.json())
+        optional(communityRequest(profileResponseSchema, '/profile')),
+        communityRequest(groupListResponseSchema, '/groups'),
+        communityRequest(postPageResponseSchema, '/posts?limit=50'),
+        communityRequest(connectionListResponseSchema, '/connections'),
+        communityRequest(eventListResponseSchema, '/events')
       ]);
 
-      if (profileData.success) setProfile(profileData.profile);
-      if (groupsData.success) setGroups(groupsData.groups || []);
-      if (postsData.success) setPosts(postsData.posts || []);
-      if (connectionsData.success) setConnections(connectionsData.connections || []);
-      if (eventsData.success) setEvents(eventsData.events || []);
+      setProfile(profileData?.profile ?? null);
+      setGroups(groupsData.groups);
+      setPosts(postsData.posts);
+      setConnections(connectionsData.connections);
+      setEvents(eventsData.events);
 
       // Fetch peer support data
       try {
         const [matchesData, networkData] = await Promise.all([
-          fetch(`/api/community?action=get_support_matches&userId=${userId}`).then(r => r.json()).catch(() => ({ success: false })),
-          fetch(`/api/community?action=get_support_network&userId=${userId}`).then(r => r.json()).catch(() => ({ success: false }))
+          communityRequest(supportMatchListResponseSchema, '/support/matches'),
+          optional(communityRequest(supportNetworkResponseSchema, '/support/network'))
         ]);
 
-        if (matchesData.success) setSupportMatches(matchesData.matches || []);
-        if (networkData.success) setSupportNetwork(networkData.network);
+        setSupportMatches(matchesData.matches);
+        setSupportNetwork(networkData?.network ?? null);
       } catch (peerError) {
         // Peer support data is optional, don't fail the whole fetch
         logger.debug({ userId, error: peerError }, 'Failed to fetch peer support data');
@@ -182,469 +238,298 @@ export function useCommunity(options: UseCommunityOptions = {}): UseCommunityRet
 
       logger.debug({
         userId,
-        groupsCount: groupsData.groups?.length || 0,
-        postsCount: postsData.posts?.length || 0,
-        connectionsCount: connectionsData.connections?.length || 0
+        groupsCount: groupsData.groups.length,
+        postsCount: postsData.posts.length,
+        connectionsCount: connectionsData.connections.length
       }, 'Community data fetched');
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to fetch community data');
+      fail(err, 'Failed to fetch community data');
     } finally {
       setIsLoading(false);
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Create user profile
-  const createProfile = useCallback(async (
-    profileData: Omit<UserProfile, 'userId' | 'joinedAt' | 'lastActive' | 'isActive'>
-  ): Promise<UserProfile | null> => {
+  const createProfile = useCallback(async (profileData: ProfileInput): Promise<ProfileResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_profile',
-          userId,
-          ...profileData
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        setProfile(result.profile);
-        logger.info({ userId }, 'Profile created successfully');
-        return result.profile;
-      } else {
-        throw new Error(result.error || 'Failed to create profile');
-      }
+      const result = await communityRequest(profileResponseSchema, '/profile', { method: 'POST', body: profileData });
+      setProfile(result.profile);
+      logger.info({ userId }, 'Profile created successfully');
+      return result.profile;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create profile');
+      fail(err, 'Failed to create profile');
       return null;
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Update user profile
-  const updateProfile = useCallback(async (updates: Partial<UserProfile>): Promise<UserProfile | null> => {
+  const updateProfile = useCallback(async (updates: ProfileUpdate): Promise<ProfileResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'update_profile',
-          userId,
-          updates
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        setProfile(result.profile);
-        logger.debug({ userId }, 'Profile updated successfully');
-        return result.profile;
-      } else {
-        throw new Error(result.error || 'Failed to update profile');
-      }
+      const result = await communityRequest(profileResponseSchema, '/profile', { method: 'PATCH', body: updates });
+      setProfile(result.profile);
+      logger.debug({ userId }, 'Profile updated successfully');
+      return result.profile;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to update profile');
+      fail(err, 'Failed to update profile');
       return null;
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Create support group
-  const createGroup = useCallback(async (groupData: any): Promise<SupportGroup | null> => {
+  const createGroup = useCallback(async (groupData: GroupInput): Promise<GroupResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_group',
-          ...groupData,
-          createdBy: userId
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh groups
-        logger.info({ userId, groupId: result.group.id }, 'Group created successfully');
-        return result.group;
-      } else {
-        throw new Error(result.error || 'Failed to create group');
-      }
+      const result = await communityRequest(groupResponseSchema, '/groups', { method: 'POST', body: groupData });
+      setGroups(prev => [...prev, result.group]);
+      logger.info({ userId, groupId: result.group.id }, 'Group created successfully');
+      return result.group;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create group');
+      fail(err, 'Failed to create group');
       return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
 
   // Join support group
   const joinGroup = useCallback(async (groupId: string): Promise<boolean> => {
     if (!enabled || !userId) return false;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'join_group',
-          userId,
-          groupId
-        })
-      });
+      const result = await communityRequest(
+        membershipResponseSchema,
+        `/groups/${encodeURIComponent(groupId)}/members`,
+        { method: 'POST' }
+      );
+      setGroups(prev => prev.map(group => group.id === groupId ? { ...group, memberCount: result.memberCount } : group));
+      logger.info({ userId, groupId }, 'Joined group successfully');
+      return true;
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    } catch (err) {
+      fail(err, 'Failed to join group', { groupId });
+      return false;
+    }
+  }, [enabled, userId, fail]);
 
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh groups
-        logger.info({ userId, groupId }, 'Joined group successfully');
-        return true;
-      } else {
-        throw new Error(result.error || 'Failed to join group');
+  // Create post, in a group when groupId is given
+  const createPost = useCallback(async (
+    { groupId, ...postData }: PostInput & { groupId?: string }
+  ): Promise<PostSubmission | null> => {
+    if (!enabled || !userId) return null;
+
+    try {
+      const path = groupId ? `/groups/${encodeURIComponent(groupId)}/posts` : '/posts';
+      const result = await communityRequest(postResponseSchema, path, { method: 'POST', body: postData });
+      if (result.moderation.status === 'approved') {
+        setPosts(prev => prev.some(post => post.id === result.post.id) ? prev : [result.post, ...prev]);
       }
+      logger.debug({ userId, postId: result.post.id }, 'Post created successfully');
+      return { post: result.post, moderation: result.moderation };
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId,
-        groupId
-      }, 'Failed to join group');
-      return false;
+      fail(err, 'Failed to create post');
+      return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
 
-  // Create post
-  const createPost = useCallback(async (postData: any): Promise<CommunityPost | null> => {
+  // Create comment
+  const createComment = useCallback(async (
+    { postId, ...commentData }: CommentInput & { postId: string }
+  ): Promise<CommentSubmission | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_post',
-          authorId: userId,
-          ...postData
-        })
-      });
+      const result = await communityRequest(
+        commentResponseSchema,
+        `/posts/${encodeURIComponent(postId)}/comments`,
+        { method: 'POST', body: commentData }
+      );
+      logger.debug({ userId, commentId: result.comment.id }, 'Comment created successfully');
+      return { comment: result.comment, moderation: result.moderation };
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    } catch (err) {
+      fail(err, 'Failed to create comment', { postId });
+      return null;
+    }
+  }, [enabled, userId, fail]);
 
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh posts
-        logger.debug({ userId, postId: result.post.id }, 'Post created successfully');
-        return result.post;
-      } else {
-        throw new Error(result.error || 'Failed to create post');
-      }
+  // A page of a post's comments, oldest first
+  const loadComments = useCallback(async (postId: string, cursor?: string): Promise<CommentPage | null> => {
+    if (!enabled || !userId) return null;
 
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
+    try {
+      const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+      const result = await communityRequest(
+        commentPageResponseSchema,
+        `/posts/${encodeURIComponent(postId)}/comments${query}`
+      );
+      return { comments: result.comments, nextCursor: result.nextCursor };
 
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create post');
+    } catch (err) {
+      fail(err, 'Failed to load comments', { postId });
       return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
 
-  // Create comment
-  const createComment = useCallback(async (commentData: any): Promise<Comment | null> => {
+  // React to a post or comment; the new count arrives for everyone through the feed
+  const react = useCallback(async (
+    targetType: 'post' | 'comment',
+    targetId: string,
+    kind: ReactionKind = 'like'
+  ): Promise<number | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
+      const response = await fetch('/api/community/reactions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_comment',
-          authorId: userId,
-          ...commentData
-        })
+        body: JSON.stringify({ targetType, targetId, kind })
       });
 
+      // Already reacted
+      if (response.status === 409) return null;
+
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(result.message || result.error || `HTTP ${response.status}`);
       }
 
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh posts/comments
-        logger.debug({ userId, commentId: result.comment.id }, 'Comment created successfully');
-        return result.comment;
-      } else {
-        throw new Error(result.error || 'Failed to create comment');
+      if (targetType === 'post') {
+        setPosts(prev => prev.map(post => post.id === targetId ? { ...post, likes: result.likes } : post));
       }
+      return result.likes;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create comment');
+      fail(err, 'Failed to react', { targetId });
       return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
 
   // Create connection
   const createConnection = useCallback(async (
     connectedUserId: string,
     connectionType: 'friend' | 'mentor' | 'mentee' | 'peer_support' = 'peer_support'
-  ): Promise<UserConnection | null> => {
+  ): Promise<ConnectionResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
+      const result = await communityRequest(connectionResponseSchema, '/connections', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_connection',
-          userId,
-          connectedUserId,
-          connectionType
-        })
+        body: { connectedUserId, connectionType }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh connections
-        logger.info({ userId, connectedUserId, connectionType }, 'Connection created successfully');
-        return result.connection;
-      } else {
-        throw new Error(result.error || 'Failed to create connection');
-      }
+      setConnections(prev => [...prev, result.connection]);
+      logger.info({ userId, connectedUserId, connectionType }, 'Connection created successfully');
+      return result.connection;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId,
-        connectedUserId
-      }, 'Failed to create connection');
+      fail(err, 'Failed to create connection', { connectedUserId });
       return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
 
   // Create event
-  const createEvent = useCallback(async (eventData: any): Promise<CommunityEvent | null> => {
+  const createEvent = useCallback(async (
+    eventData: Omit<EventInput, 'startTime' | 'endTime'> & { startTime: Date; endTime: Date }
+  ): Promise<EventResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
+      const result = await communityRequest(eventResponseSchema, '/events', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_event',
-          hostId: userId,
-          ...eventData
-        })
+        body: { ...eventData, startTime: eventData.startTime.toISOString(), endTime: eventData.endTime.toISOString() }
       });
+      setEvents(prev => [...prev, result.event]);
+      logger.info({ userId, eventId: result.event.id }, 'Event created successfully');
+      return result.event;
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    } catch (err) {
+      fail(err, 'Failed to create event');
+      return null;
+    }
+  }, [enabled, userId, fail]);
 
-      const result = await response.json();
-      if (result.success) {
-        await fetchData(); // Refresh events
-        logger.info({ userId, eventId: result.event.id }, 'Event created successfully');
-        return result.event;
-      } else {
-        throw new Error(result.error || 'Failed to create event');
-      }
+  // RSVP for an event, or withdraw the RSVP
+  const updateRsvp = useCallback(async (eventId: string, attending: boolean): Promise<EventResource | null> => {
+    if (!enabled || !userId) return null;
 
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
+    try {
+      const result = await communityRequest(eventResponseSchema, `/events/${encodeURIComponent(eventId)}/rsvp`, {
+        method: attending ? 'POST' : 'DELETE'
+      });
+      setEvents(prev => prev.map(event => event.id === eventId ? result.event : event));
+      logger.info({ userId, eventId, attending }, 'Event RSVP updated');
+      return result.event;
 
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create event');
+    } catch (err) {
+      fail(err, attending ? 'Failed to RSVP for event' : 'Failed to cancel RSVP', { eventId });
       return null;
     }
-  }, [enabled, userId, fetchData]);
+  }, [enabled, userId, fail]);
+
+  const rsvpEvent = useCallback((eventId: string) => updateRsvp(eventId, true), [updateRsvp]);
+  const cancelRsvp = useCallback((eventId: string) => updateRsvp(eventId, false), [updateRsvp]);
 
   // Find support matches
-  const findSupportMatches = useCallback(async (criteria?: any): Promise<SupportMatch[]> => {
+  const findSupportMatches = useCallback(async (criteria: SupportMatchQuery = {}): Promise<SupportMatchResource[]> => {
     if (!enabled || !userId) return [];
 
     try {
-      const response = await fetch('/api/community', {
+      const result = await communityRequest(supportMatchListResponseSchema, '/support/matches', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'find_support_matches',
-          userId,
-          ...criteria
-        })
+        body: criteria
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        setSupportMatches(result.matches);
-        logger.info({ userId, matchesFound: result.matches.length }, 'Support matches found');
-        return result.matches;
-      } else {
-        throw new Error(result.error || 'Failed to find support matches');
-      }
+      setSupportMatches(result.matches);
+      logger.info({ userId, matchesFound: result.matches.length }, 'Support matches found');
+      return result.matches;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to find support matches');
+      fail(err, 'Failed to find support matches');
       return [];
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Create crisis request
-  const createCrisisRequest = useCallback(async (requestData: any): Promise<CrisisSupportRequest | null> => {
+  const createCrisisRequest = useCallback(async (
+    requestData: CrisisRequestInput
+  ): Promise<CrisisSupportRequestResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
+      const result = await communityRequest(crisisRequestResponseSchema, '/support/crisis-requests', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'create_crisis_request',
-          userId,
-          ...requestData
-        })
+        body: requestData
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        logger.warn({ userId, requestId: result.crisisRequest.id }, 'Crisis request created successfully');
-        return result.crisisRequest;
-      } else {
-        throw new Error(result.error || 'Failed to create crisis request');
-      }
+      logger.warn({ userId, requestId: result.crisisRequest.id }, 'Crisis request created successfully');
+      return result.crisisRequest;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to create crisis request');
+      fail(err, 'Failed to create crisis request');
       return null;
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Build support network
-  const buildSupportNetwork = useCallback(async (): Promise<SupportNetwork | null> => {
+  const buildSupportNetwork = useCallback(async (): Promise<SupportNetworkResource | null> => {
     if (!enabled || !userId) return null;
 
     try {
-      const response = await fetch('/api/community', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'build_support_network',
-          userId
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      if (result.success) {
-        setSupportNetwork(result.network);
-        logger.info({ userId, networkStrength: result.network.networkStrength }, 'Support network built');
-        return result.network;
-      } else {
-        throw new Error(result.error || 'Failed to build support network');
-      }
+      const result = await communityRequest(supportNetworkResponseSchema, '/support/network', { method: 'POST' });
+      setSupportNetwork(result.network);
+      logger.info({ userId, networkStrength: result.network.networkStrength }, 'Support network built');
+      return result.network;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
-
-      logger.error({
-        error: errorMessage,
-        userId
-      }, 'Failed to build support network');
+      fail(err, 'Failed to build support network');
       return null;
     }
-  }, [enabled, userId]);
+  }, [enabled, userId, fail]);
 
   // Refresh all data
   const refreshData = useCallback(async () => {
@@ -656,16 +541,45 @@ export function useCommunity(options: UseCommunityOptions = {}): UseCommunityRet
     setError(null);
   }, []);
 
-  // Auto-refresh timer
+  // Merge live feed events into what was fetched
+  const handleRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    switch (event.type) {
+      case 'post.created': {
+        const post = postSchema.parse(event.data);
+        setPosts(prev => prev.some(existing => existing.id === post.id) ? prev : [post, ...prev]);
+        break;
+      }
+      case 'comment.created': {
+        const { postId } = commentSchema.parse(event.data);
+        setPosts(prev => prev.map(post => post.id === postId ? { ...post, replies: post.replies + 1 } : post));
+        break;
+      }
+      case 'reaction': {
+        const { targetType, targetId, likes } = event.data as ReactionEventData;
+        if (targetType === 'post') {
+          setPosts(prev => prev.map(post => post.id === targetId ? { ...post, likes } : post));
+        }
+        break;
+      }
+    }
+  }, []);
+
+  const { connected } = useCommunityRealtime({
+    channels: ['feed'],
+    enabled: enabled && !!userId && realtime,
+    onEvent: handleRealtimeEvent
+  });
+
+  // Auto-refresh timer, only needed while live updates are unavailable
   useEffect(() => {
-    if (!enabled || !autoRefresh) return;
+    if (!enabled || !autoRefresh || connected) return;
 
     const interval = setInterval(() => {
       fetchData();
     }, refreshInterval * 60 * 1000); // Convert minutes to milliseconds
 
     return () => clearInterval(interval);
-  }, [enabled, autoRefresh, refreshInterval, fetchData]);
+  }, [enabled, autoRefresh, refreshInterval, fetchData, connected]);
 
   // Initial load
   useEffect(() => {
@@ -720,14 +634,19 @@ export function useCommunity(options: UseCommunityOptions = {}): UseCommunityRet
     isLoading,
     error,
     lastUpdated,
+    connected,
     createProfile,
     updateProfile,
     createGroup,
     joinGroup,
     createPost,
     createComment,
+    loadComments,
+    react,
     createConnection,
     createEvent,
+    rsvpEvent,
+    cancelRsvp,
     findSupportMatches,
     createCrisisRequest,
     buildSupportNetwork,
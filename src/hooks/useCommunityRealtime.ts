@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PresenceEventData, RealtimeEvent, RealtimeEventType, TypingEventData } from '@/services/community/realtime';
+import { logger } from '@/lib/logger';
+
+interface UseCommunityRealtimeOptions {
+  channels: string[]; // 'feed', 'group:<id>', 'session:<id>'
+  enabled?: boolean;
+  onEvent?: (event: RealtimeEvent) => void;
+}
+
+interface UseCommunityRealtimeReturn {
+  connected: boolean;
+  online: Record<string, string[]>; // Per group or session channel
+  typing: Record<string, string[]>;
+  sendTyping: (channel: string, typing: boolean) => Promise<void>;
+}
+
+const EVENT_TYPES: RealtimeEventType[] = ['post.created', 'comment.created', 'reaction', 'typing', 'presence', 'session.message'];
+
+// A typing indicator lapses if the member's client never says they stopped
+const TYPING_TIMEOUT_MS = 8000;
+
+const without = (users: string[] = [], userId: string) => users.filter(id => id !== userId);
+
+export function useCommunityRealtime(options: UseCommunityRealtimeOptions): UseCommunityRealtimeReturn {
+  const { channels, enabled = true, onEvent } = options;
+
+  const [connected, setConnected] = useState(false);
+  const [online, setOnline] = useState<Record<string, string[]>>({});
+  const [typing, setTyping] = useState<Record<string, string[]>>({});
+
+  // Latest handler without reconnecting every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+  const typingTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  const channelKey = channels.join(',');
+
+  useEffect(() => {
+    if (!enabled || !channelKey || typeof EventSource === 'undefined') return;
+
+    const timers = typingTimers.current;
+    const source = new EventSource(`/api/community/realtime?channels=${encodeURIComponent(channelKey)}`);
+
+    const stopTyping = (channel: string, userId: string) => {
+      setTyping(prev => ({ ...prev, [channel]: without(prev[channel], userId) }));
+    };
+
+    source.addEventListener('ready', (message) => {
+      const { online: snapshot } = JSON.parse((message as MessageEvent).data);
+      setOnline(snapshot);
+      setConnected(true);
+    });
+
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, (message) => {
+        const event: RealtimeEvent = JSON.parse((message as MessageEvent).data);
+
+        if (event.type === 'presence') {
+          const { userId, online: isOnline } = event.data as PresenceEventData;
+          setOnline(prev => ({
+            ...prev,
+            [event.channel]: isOnline ? [...without(prev[event.channel], userId), userId] : without(prev[event.channel], userId)
+          }));
+        } else if (event.type === 'typing') {
+          const { userId, typing: isTyping } = event.data as TypingEventData;
+          const key = `${event.channel}|${userId}`;
+          clearTimeout(timers.get(key));
+          timers.delete(key);
+
+          if (isTyping) {
+            setTyping(prev => ({ ...prev, [event.channel]: [...without(prev[event.channel], userId), userId] }));
+            timers.set(key, setTimeout(() => stopTyping(event.channel, userId), TYPING_TIMEOUT_MS));
+          } else {
+            stopTyping(event.channel, userId);
+          }
+        }
+
+        onEventRef.current?.(event);
+      });
+    }
+
+    // EventSource reconnects by itself; a refused subscription (401/403) closes it for good
+    source.onerror = () => {
+      setConnected(false);
+      if (source.readyState === EventSource.CLOSED) {
+        logger.warn({ channels: channelKey }, 'Realtime subscription closed');
+      }
+    };
+
+    return () => {
+      source.close();
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      setConnected(false);
+    };
+  }, [enabled, channelKey]);
+
+  const sendTyping = useCallback(async (channel: string, isTyping: boolean) => {
+    try {
+      await fetch('/api/community/realtime', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, typing: isTyping })
+      });
+    } catch (err) {
+      // Typing indicators are cosmetic; never surface a failure
+      logger.debug({ channel, error: err }, 'Failed to send typing indicator');
+    }
+  }, []);
+
+  return {
+    connected,
+    online,
+    typing,
+    sendTyping
+  };
+}
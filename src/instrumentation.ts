@@ -0,0 +1,38 @@
+// Runs once when a Next.js server instance boots
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on missing or malformed encryption keys rather than on the first encrypted write
+    const { validateEncryptionEnv } = await import('@/lib/env-validation');
+    validateEncryptionEnv();
+
+    // Resume queued and interrupted knowledge ingestion jobs left over from a previous run
+    const { getIngestionWorker } = await import('@/services/knowledge/jobs');
+    getIngestionWorker();
+
+    // Resume escalation step timers, and steps a previous process died in the middle of
+    if (process.env.ESCALATION_SCHEDULER !== 'false') {
+      const { getSafetyEscalationService } = await import('@/services/safety/SafetyEscalationService');
+      getSafetyEscalationService().start();
+    }
+
+    // Move records onto each domain's active key, including after rotations made while this process was down
+    if (process.env.ENCRYPTION_REENCRYPTION_JOB !== 'false') {
+      const { getReEncryptionJob } = await import('@/services/security/keyring');
+      const { registerEncryptedFieldSources } = await import('@/services/security/field-encryption');
+      registerEncryptedFieldSources(getReEncryptionJob());
+      getReEncryptionJob().start();
+    }
+
+    // Erase accounts whose deletion grace period has ended, including any a previous process failed on
+    if (process.env.ACCOUNT_DELETION_JOB !== 'false') {
+      const { getAccountDataService } = await import('@/services/compliance/data-rights');
+      getAccountDataService().start();
+    }
+
+    // Purge records past their retention period, daily
+    if (process.env.RETENTION_PURGE_JOB !== 'false') {
+      const { getRetentionJob } = await import('@/services/compliance/retention');
+      getRetentionJob().start();
+    }
+  }
+}
@@ -44,7 +44,7 @@ export class ApiKeyService {
       }
 
       // Encrypt the API key
-      const encryptedKey = this.encryption.encrypt(data.apiKey);
+      const encryptedKey = await this.encryption.encrypt(data.apiKey);
 
       // Create the API key record
       const apiKey = await prisma.apiKey.create({
@@ -114,7 +114,7 @@ export class ApiKeyService {
         if (!ApiKeyValidator.isValidApiKey(updates.provider || 'unknown', updates.apiKey)) {
           throw new Error(`Invalid API key format for provider: ${updates.provider}`);
         }
-        updateData.encryptedKey = this.encryption.encrypt(updates.apiKey);
+        updateData.encryptedKey = await this.encryption.encrypt(updates.apiKey);
       }
 
       const apiKey = await prisma.apiKey.update({
@@ -167,7 +167,7 @@ export class ApiKeyService {
       // Update usage statistics
       await this.incrementUsage(keyId);
 
-      return this.encryption.decrypt(apiKey.encryptedKey);
+      return await this.encryption.decrypt(apiKey.encryptedKey);
     } catch (error) {
       logError('Failed to get decrypted API key', error, { userId, keyId });
       return null;
@@ -4,6 +4,7 @@ import CredentialsProvider from 'next-auth/providers/credentials';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import { logInfo, logError } from '@/lib/logger';
+import { refreshTokenRoles } from '@/services/security/roles';
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma) as any,
@@ -69,12 +70,13 @@ export const authOptions: NextAuthOptions = {
       if (user) {
         token.profile = (user as any).profile;
       }
-      return token;
+      return refreshTokenRoles(token, Boolean(user));
     },
     async session({ session, token }) {
       if (token && session.user) {
         (session.user as any).id = token.sub!;
         (session.user as any).profile = token.profile;
+        session.user.roles = token.roles ?? ['user'];
       }
       return session;
     },
@@ -0,0 +1,45 @@
+// Role-based access checks for API routes
+
+import { NextResponse } from 'next/server';
+import { getServerSession, Session } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+export type SessionUser = Session['user'];
+
+export type PermissionCheck =
+  | { user: SessionUser; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+// The signed-in user, or null; for routes whose answer depends on who is asking
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions);
+  const user = session?.user;
+  return user?.id ? { ...user, roles: user.roles ?? ['user'] } : null;
+}
+
+/**
+ * The signed-in user if their roles grant `permission`; otherwise the 401 or 403 to return.
+ *
+ *   const { user, response } = await requirePermission('audit_log.read');
+ *   if (response) return response;
+ */
+export async function requirePermission(permission: Permission): Promise<PermissionCheck> {
+  const user = await getSessionUser();
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!hasPermission(user.roles, permission)) {
+    logger.warn({ userId: user.id, roles: user.roles, permission }, 'Permission denied');
+    return {
+      response: NextResponse.json({
+        error: 'Forbidden',
+        message: `Requires the ${permission} permission`
+      }, { status: 403 })
+    };
+  }
+
+  return { user };
+}
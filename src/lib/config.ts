@@ -42,6 +42,7 @@ export interface AppConfig {
   // Security
   security: {
     encryptionKey?: string;
+    masterKey?: string;
   };
 }
 
@@ -94,7 +95,8 @@ export function loadConfig(): AppConfig {
       analyticsId: process.env.ANALYTICS_ID,
     },
     security: {
-      encryptionKey: process.env.ENCRYPTION_KEY,
+      encryptionKey: process.env.ENCRYPTION_KEY, // Passphrase of the old CryptoJS API key format, until migrated
+      masterKey: process.env.ENCRYPTION_MASTER_KEY,
     },
   };
 }
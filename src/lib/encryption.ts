@@ -1,16 +1,57 @@
+import crypto from 'crypto';
 import CryptoJS from 'crypto-js';
+import { logger } from '@/lib/logger';
+import {
+  EnvelopeEncryption,
+  KeyProvider,
+  isSerializedEnvelope,
+  parseKey,
+  parseSerializedEnvelope,
+  serializeEnvelope,
+} from '@/services/security/EnvelopeEncryption';
+import { getKeyring } from '@/services/security/keyring';
+import {
+  API_KEY_FIELD,
+  EncryptedFieldStore,
+  fieldContext,
+  getEncryptedFieldStore,
+} from '@/services/security/field-encryption';
 
-// Encryption service for API keys using AES-256
+// What the CryptoJS scheme encrypted with when ENCRYPTION_KEY was unset
+const LEGACY_FALLBACK_PASSPHRASE = 'fallback-key-change-in-production';
+
+// Provider API keys are printable ASCII. CryptoJS passphrase mode has no MAC, so a wrong passphrase
+// can only be told apart by the garbage it produces.
+const API_KEY_PATTERN = /^[\x21-\x7e]+$/;
+
+/**
+ * Decrypts a value from the old CryptoJS passphrase scheme, trying ENCRYPTION_KEY and then the
+ * fallback passphrase it used when unset. Returns null if neither opens it.
+ */
+export function decryptLegacyApiKey(ciphertext: string): string | null {
+  const passphrases = [process.env.ENCRYPTION_KEY, LEGACY_FALLBACK_PASSPHRASE].filter((value): value is string => !!value);
+
+  for (const passphrase of passphrases) {
+    try {
+      const plaintext = CryptoJS.AES.decrypt(ciphertext, passphrase).toString(CryptoJS.enc.Utf8);
+      if (API_KEY_PATTERN.test(plaintext)) {
+        return plaintext;
+      }
+    } catch {
+      // Malformed UTF-8: the wrong passphrase
+    }
+  }
+  return null;
+}
+
+// Encryption service for provider API keys: AES-256-GCM envelopes under the `credentials` keyring,
+// stored with a versioned `enc:v2:<keyId>:` prefix
 export class EncryptionService {
   private static instance: EncryptionService;
-  private encryptionKey: string;
+  private envelopes: EnvelopeEncryption;
 
-  private constructor() {
-    // Get encryption key from environment
-    this.encryptionKey = process.env.ENCRYPTION_KEY || 'fallback-key-change-in-production';
-    if (this.encryptionKey === 'fallback-key-change-in-production') {
-      console.warn('WARNING: Using fallback encryption key. Set ENCRYPTION_KEY environment variable in production.');
-    }
+  constructor(keys: KeyProvider = getKeyring('credentials')) {
+    this.envelopes = new EnvelopeEncryption(keys);
   }
 
   static getInstance(): EncryptionService {
@@ -21,27 +62,103 @@ export class EncryptionService {
   }
 
   // Encrypt API key
-  encrypt(text: string): string {
-    return CryptoJS.AES.encrypt(text, this.encryptionKey).toString();
+  async encrypt(text: string): Promise<string> {
+    return serializeEnvelope(await this.envelopes.encrypt(text, fieldContext(API_KEY_FIELD)));
   }
 
-  // Decrypt API key
-  decrypt(ciphertext: string): string {
-    const bytes = CryptoJS.AES.decrypt(ciphertext, this.encryptionKey);
-    return bytes.toString(CryptoJS.enc.Utf8);
+  // Decrypt API key. Values from the old scheme are still read until the migration has re-encrypted them.
+  async decrypt(ciphertext: string): Promise<string> {
+    if (isSerializedEnvelope(ciphertext)) {
+      return this.envelopes.decryptString(parseSerializedEnvelope(ciphertext), fieldContext(API_KEY_FIELD));
+    }
+
+    const plaintext = decryptLegacyApiKey(ciphertext);
+    if (plaintext === null) {
+      throw new Error('API key is not an envelope and no legacy passphrase decrypts it');
+    }
+    logger.warn('Read an API key in the legacy CryptoJS format; run `npm run db:migrate-api-keys` to re-encrypt it');
+    return plaintext;
   }
 
-  // Generate a secure random key for encryption
+  // Generate a key suitable for ENCRYPTION_MASTER_KEY
   static generateEncryptionKey(): string {
-    return CryptoJS.lib.WordArray.random(256/8).toString();
+    return crypto.randomBytes(32).toString('base64');
   }
 
-  // Validate encryption key format
+  // Validate encryption key format: 32 bytes, base64 or hex
   static isValidKey(key: string): boolean {
-    return key.length >= 32; // Minimum 256-bit key
+    try {
+      parseKey(key, 'key');
+      return true;
+    } catch {
+      return false;
+    }
   }
 }
 
+export interface ApiKeyMigrationResult {
+  pending: number; // Rows in the legacy format before the run
+  migrated: number;
+  skipped: number; // Changed by someone else during the run
+  failed: number;
+}
+
+/**
+ * Re-encrypts every `ApiKey` row still in the CryptoJS format. Each row is only replaced if it still
+ * holds the value that was read, so it can run alongside the app and be re-run after an interruption.
+ */
+export async function migrateLegacyApiKeys(
+  options: { dryRun?: boolean; batchSize?: number } = {},
+  store: EncryptedFieldStore = getEncryptedFieldStore(),
+  encryption: EncryptionService = EncryptionService.getInstance()
+): Promise<ApiKeyMigrationResult> {
+  const { dryRun = false, batchSize = 100 } = options;
+  const result: ApiKeyMigrationResult = {
+    pending: await store.countPlaintext(API_KEY_FIELD),
+    migrated: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  if (dryRun || result.pending === 0) {
+    return result;
+  }
+
+  let afterId: string | undefined;
+  for (;;) {
+    const rows = await store.findPlaintext(API_KEY_FIELD, batchSize, afterId);
+
+    for (const row of rows) {
+      const plaintext = decryptLegacyApiKey(String(row.value));
+      if (plaintext === null) {
+        result.failed++;
+        logger.error({ keyId: row.id }, 'Legacy API key could not be decrypted with ENCRYPTION_KEY or the fallback passphrase');
+        continue;
+      }
+
+      try {
+        if (await store.replace(API_KEY_FIELD, row.id, row.value, await encryption.encrypt(plaintext))) {
+          result.migrated++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error({
+          keyId: row.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Legacy API key migration failed for record');
+      }
+    }
+
+    if (rows.length < batchSize) break;
+    afterId = rows[rows.length - 1].id;
+  }
+
+  logger.info({ ...result }, 'Legacy API key migration finished');
+  return result;
+}
+
 // API Key validation utilities
 export class ApiKeyValidator {
   // Validate OpenAI API key format
@@ -1,3 +1,6 @@
+import { parseKey } from '@/services/security/EnvelopeEncryption';
+import { getLegacyKeysFromEnv } from '@/services/security/LegacyEncryption';
+
 // Environment variable validation utilities
 export class EnvValidationError extends Error {
   constructor(message: string, public missingVars: string[]) {
@@ -17,6 +20,32 @@ export function validateRequiredEnvVars(requiredVars: string[]): void {
   }
 }
 
+/**
+ * Checks the encryption keys at startup, so a production server without ENCRYPTION_MASTER_KEY (or with
+ * a malformed one) refuses to boot instead of failing on the first encrypted read or write
+ */
+export function validateEncryptionEnv(): void {
+  const masterKey = process.env.ENCRYPTION_MASTER_KEY;
+
+  if (!masterKey) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new EnvValidationError('ENCRYPTION_MASTER_KEY must be set in production', ['ENCRYPTION_MASTER_KEY']);
+    }
+  } else {
+    try {
+      parseKey(masterKey, 'ENCRYPTION_MASTER_KEY');
+    } catch (error) {
+      throw new EnvValidationError(error instanceof Error ? error.message : 'Invalid ENCRYPTION_MASTER_KEY', ['ENCRYPTION_MASTER_KEY']);
+    }
+  }
+
+  try {
+    getLegacyKeysFromEnv();
+  } catch (error) {
+    throw new EnvValidationError(error instanceof Error ? error.message : 'Invalid LEGACY_ENCRYPTION_KEYS', ['LEGACY_ENCRYPTION_KEYS']);
+  }
+}
+
 export function validateOptionalEnvVars(vars: Record<string, [string, ((value: string) => boolean) | undefined]>): Record<string, string | undefined> {
   const result: Record<string, string | undefined> = {};
 
@@ -0,0 +1,86 @@
+// Roles, what each may do, and which content they may read
+
+export const ROLES = ['user', 'professional', 'moderator', 'content_reviewer', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// Roles held through a user_roles row; 'user' is implied by being signed in
+export const GRANTABLE_ROLES: Role[] = ['professional', 'moderator', 'content_reviewer', 'admin'];
+
+export const PERMISSIONS = [
+  'content.read_professional', // Read content with accessLevel 'professional'
+  'content.review', // Work the content review queue and decide reviews
+  'content.publish',
+  'content.manage', // Edit or delete anyone's content
+  'escalations.manage', // See, acknowledge and resolve crisis escalations
+  'community.moderate',
+  'knowledge.manage',
+  'escalation_protocols.manage',
+  'audit_log.read',
+  'encryption_keys.manage',
+  'retention.manage',
+  'roles.manage',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  professional: ['content.read_professional', 'escalations.manage'],
+  moderator: ['community.moderate'],
+  content_reviewer: ['content.read_professional', 'content.review', 'content.publish'],
+  admin: PERMISSIONS,
+};
+
+export type ContentAccessLevel = 'public' | 'authenticated' | 'professional';
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+// Unknown role names, e.g. from a token issued before a role was removed, grant nothing
+export function permissionsFor(roles: readonly string[] | undefined): Set<Permission> {
+  return new Set((roles ?? []).filter(isRole).flatMap(role => ROLE_PERMISSIONS[role]));
+}
+
+export function hasPermission(roles: readonly string[] | undefined, permission: Permission): boolean {
+  return permissionsFor(roles).has(permission);
+}
+
+/**
+ * Content access levels readable by a signed-in user with `roles`, or by an anonymous visitor when
+ * `roles` is null
+ */
+export function readableAccessLevels(roles: readonly string[] | null): ContentAccessLevel[] {
+  if (!roles) return ['public'];
+  return hasPermission(roles, 'content.read_professional')
+    ? ['public', 'authenticated', 'professional']
+    : ['public', 'authenticated'];
+}
+
+export type ContentAction = 'read' | 'update' | 'delete' | 'publish';
+
+export interface ContentViewer {
+  id: string;
+  roles: readonly string[];
+}
+
+/**
+ * Whether a signed-in user (or an anonymous visitor, when `viewer` is null) may act on one piece of
+ * content. Authors can read, edit and archive their own; publishing goes through a reviewer.
+ */
+export function canAccessContent(
+  viewer: ContentViewer | null,
+  action: ContentAction,
+  content: { accessLevel: string; createdBy?: string | null }
+): boolean {
+  const isAuthor = Boolean(viewer && content.createdBy === viewer.id);
+
+  switch (action) {
+    case 'read':
+      return isAuthor || (readableAccessLevels(viewer?.roles ?? null) as string[]).includes(content.accessLevel);
+    case 'update':
+    case 'delete':
+      return isAuthor || hasPermission(viewer?.roles, 'content.manage');
+    case 'publish':
+      return hasPermission(viewer?.roles, 'content.publish');
+  }
+}
@@ -0,0 +1,125 @@
+// Audit trail for API routes that read or change protected health information
+
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import type { Role } from '@/lib/permissions';
+import { AuditActorType, AuditOutcome, AuditPurpose, AuditQuery, getAuditLog } from '@/services/compliance/audit';
+
+/**
+ * What a request touched. The route sets the defaults; the handler fills in what it only learns
+ * from the request, such as whose records they were.
+ */
+export interface PhiAccess {
+  action: string;
+  resourceType: string;
+  purpose: AuditPurpose;
+  resourceId?: string;
+  subjectId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+type RouteContext = { params: Promise<Record<string, string | string[]>> };
+
+export function auditOutcome(status: number): AuditOutcome {
+  if (status === 401 || status === 403) return 'denied';
+  return status < 400 ? 'success' : 'failure';
+}
+
+// Records who acted in what capacity, by the most privileged role they hold
+export function auditActorType(roles: readonly Role[] | undefined): AuditActorType {
+  if (roles?.includes('admin')) return 'admin';
+  if (roles?.includes('professional')) return 'professional';
+  return 'user';
+}
+
+function clientIp(request: NextRequest): string | undefined {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || undefined;
+}
+
+/**
+ * Wrap a route handler so every request to it lands in the audit log with who made it, what it
+ * touched and why, whatever the handler returns or throws. A failed audit write is logged and does
+ * not fail the request, so a crisis check never goes unanswered because of the audit store.
+ */
+export function withPhiAudit<C = RouteContext>(
+  defaults: PhiAccess,
+  handler: (request: NextRequest, access: PhiAccess, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const access: PhiAccess = { ...defaults };
+    let outcome: AuditOutcome = 'failure';
+
+    try {
+      const response = await handler(request, access, context);
+      outcome = auditOutcome(response.status);
+      return response;
+    } finally {
+      try {
+        const session = await getServerSession(authOptions);
+        const actor = session?.user?.id ? session.user : null;
+
+        await getAuditLog().record({
+          actorId: actor?.id ?? 'anonymous',
+          actorType: actor ? auditActorType(actor.roles) : 'anonymous',
+          action: access.action,
+          resourceType: access.resourceType,
+          resourceId: access.resourceId,
+          subjectId: access.subjectId,
+          purpose: access.purpose,
+          outcome,
+          ipAddress: clientIp(request),
+          userAgent: request.headers.get('user-agent') || undefined,
+          metadata: { method: request.method, path: request.nextUrl.pathname, ...access.metadata },
+        });
+      } catch (error) {
+        logger.error({
+          action: access.action,
+          path: request.nextUrl.pathname,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Failed to write PHI access audit entry');
+      }
+    }
+  };
+}
+
+const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'denied', 'failure'];
+
+/**
+ * Audit log filters from a query string: actorId, subjectId, action, resourceType, resourceId,
+ * outcome, since and until (ISO timestamps), before (sequence cursor) and limit.
+ */
+export function parseAuditQuery(searchParams: URLSearchParams): { query: AuditQuery } | { error: string } {
+  const since = searchParams.get('since');
+  const until = searchParams.get('until');
+  const before = searchParams.get('before');
+  const outcome = searchParams.get('outcome');
+
+  if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+    return { error: 'Invalid since or until parameter, expected an ISO timestamp' };
+  }
+  if (before && !/^\d+$/.test(before)) {
+    return { error: 'Invalid before parameter, expected a sequence number' };
+  }
+  if (outcome && !AUDIT_OUTCOMES.includes(outcome as AuditOutcome)) {
+    return { error: `Invalid outcome parameter, expected one of ${AUDIT_OUTCOMES.join(', ')}` };
+  }
+
+  return {
+    query: {
+      actorId: searchParams.get('actorId') || undefined,
+      subjectId: searchParams.get('subjectId') || undefined,
+      action: searchParams.get('action') || undefined,
+      resourceType: searchParams.get('resourceType') || undefined,
+      resourceId: searchParams.get('resourceId') || undefined,
+      outcome: (outcome as AuditOutcome | null) || undefined,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      before: before ? parseInt(before, 10) : undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 500)
+    }
+  };
+}
@@ -0,0 +1,13 @@
+// Postgres-backed stores load Prisma through here instead of importing @/lib/prisma, so tests that use
+// their in-memory counterparts never pull in the generated client (it only exists after `prisma generate`)
+
+export async function loadPrisma() {
+  const { prisma } = await import('./prisma');
+  return prisma;
+}
+
+// The generated `Prisma` namespace, for stores that build raw SQL fragments
+export async function loadPrismaNamespace() {
+  const { Prisma } = await import('../generated/prisma/client');
+  return Prisma;
+}
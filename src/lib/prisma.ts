@@ -1,13 +1,26 @@
 import { PrismaClient } from '../generated/prisma/client'
+import { getFieldEncryption } from '../services/security/field-encryption'
+
+// Encrypts the columns listed in ENCRYPTED_FIELDS on write and decrypts them on read
+function createPrismaClient() {
+  return new PrismaClient({
+    log: ['query'],
+  }).$extends({
+    name: 'field-encryption',
+    query: {
+      $allModels: {
+        $allOperations({ model, operation, args, query }) {
+          return getFieldEncryption().run(model, operation, args, query)
+        },
+      },
+    },
+  })
+}
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ReturnType<typeof createPrismaClient> | undefined
 }
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    log: ['query'],
-  })
+export const prisma = globalForPrisma.prisma ?? createPrismaClient()
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
\ No newline at end of file
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
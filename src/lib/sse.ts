@@ -0,0 +1,82 @@
+// Server-sent event helpers shared by streaming API routes and their clients
+
+export interface SseEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single SSE frame (`event:` + JSON `data:` line, blank-line terminated)
+ */
+export function encodeSseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable proxy buffering so tokens are flushed immediately
+};
+
+/**
+ * Read an SSE response body and invoke `onEvent` for each complete frame.
+ * Resolves when the stream ends; rejects with an AbortError if the fetch was aborted.
+ */
+export async function readSseStream(
+  response: Response,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const parsed = parseSseFrame(frame);
+      if (parsed) {
+        onEvent(parsed);
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+function parseSseFrame(frame: string): SseEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+}
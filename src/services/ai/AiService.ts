@@ -4,11 +4,15 @@ import {
   AiRequest,
   AiResponse,
   ProviderConfig,
-  ConversationContext
+  ConversationContext,
+  IEmbeddingProvider,
+  EmbeddingOptions,
+  EmbeddingResponse
 } from './providers/IAiProvider';
 import { OpenAiProvider } from './providers/OpenAiProvider';
 import { AnthropicProvider } from './providers/AnthropicProvider';
 import { GoogleAiProvider } from './providers/GoogleAiProvider';
+import { LocalEmbeddingProvider } from './providers/LocalEmbeddingProvider';
 import { AiProviderFactory } from './AiProviderFactory';
 import { logger } from '../../lib/logger';
 
@@ -119,6 +123,76 @@ export class AiService {
     }
   }
 
+  /**
+   * Embed texts, splitting them into batches that respect the provider's per-request limit.
+   * Falls back to the local hashing embedder when no configured provider supports embeddings.
+   */
+  async embed(
+    texts: string[],
+    options: EmbeddingOptions & { provider?: string } = {}
+  ): Promise<EmbeddingResponse> {
+    const provider = this.getEmbeddingProvider(options.provider);
+    const { maxBatchSize, dimensions, id: model } = provider.getEmbeddingModel(options.model);
+    const startTime = Date.now();
+
+    const response: EmbeddingResponse = {
+      embeddings: [],
+      usage: { promptTokens: 0, totalTokens: 0 },
+      metadata: {
+        provider: provider.id,
+        model,
+        dimensions,
+        processingTime: 0,
+      },
+    };
+
+    logger.info({
+      provider: provider.id,
+      model,
+      textCount: texts.length,
+      batchCount: Math.ceil(texts.length / maxBatchSize)
+    }, 'Generating embeddings');
+
+    for (let start = 0; start < texts.length; start += maxBatchSize) {
+      const batch = await provider.embed(texts.slice(start, start + maxBatchSize), options);
+
+      response.embeddings.push(...batch.embeddings);
+      response.usage.promptTokens += batch.usage.promptTokens;
+      response.usage.totalTokens += batch.usage.totalTokens;
+      response.metadata.model = batch.metadata.model;
+      response.metadata.dimensions = batch.metadata.dimensions;
+    }
+
+    response.metadata.processingTime = Date.now() - startTime;
+    return response;
+  }
+
+  /**
+   * Resolve an embedding-capable provider, preferring OpenAI, then Google, then the local embedder
+   */
+  getEmbeddingProvider(providerId?: string): IEmbeddingProvider {
+    if (providerId === 'local') {
+      return new LocalEmbeddingProvider();
+    }
+
+    const candidates = providerId
+      ? [this.providers.get(providerId)]
+      : [this.providers.get('openai'), this.providers.get('google')];
+
+    for (const candidate of candidates) {
+      if (candidate?.embed && candidate.getEmbeddingModel) {
+        return candidate as IAiProvider & IEmbeddingProvider;
+      }
+    }
+
+    if (providerId) {
+      throw new Error(`Provider ${providerId} does not support embeddings`);
+    }
+
+    logger.warn('No embedding-capable provider configured, using local hashing embedder');
+    return new LocalEmbeddingProvider();
+  }
+
   getAvailableProviders(): string[] {
     return Array.from(this.providers.keys());
   }
@@ -12,9 +12,14 @@ export type {
   ConversationContext,
   ModelInfo,
   ProviderConfig,
+  IEmbeddingProvider,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  EmbeddingModelInfo,
 } from './providers/IAiProvider';
 
 // Provider implementations
 export { OpenAiProvider } from './providers/OpenAiProvider';
 export { AnthropicProvider } from './providers/AnthropicProvider';
-export { GoogleAiProvider } from './providers/GoogleAiProvider';
\ No newline at end of file
+export { GoogleAiProvider } from './providers/GoogleAiProvider';
+export { LocalEmbeddingProvider } from './providers/LocalEmbeddingProvider';
\ No newline at end of file
@@ -35,8 +35,9 @@ export class AnthropicProvider implements IAiProvider {
         model: request.model || 'claude-3-sonnet-20240229',
         max_tokens: request.maxTokens || 1000,
         temperature: request.temperature || 0.7,
+        system: this.buildSystemPrompt(request),
         messages,
-      });
+      }, { signal: request.signal });
 
       const response = message.content
         .filter((block: any) => block.type === 'text')
@@ -76,9 +77,10 @@ export class AnthropicProvider implements IAiProvider {
         model: request.model || 'claude-3-sonnet-20240229',
         max_tokens: request.maxTokens || 1000,
         temperature: request.temperature || 0.7,
+        system: this.buildSystemPrompt(request),
         messages,
         stream: true,
-      });
+      }, { signal: request.signal });
 
       let accumulatedText = '';
       let usage: TokenUsage = {
@@ -156,7 +158,8 @@ export class AnthropicProvider implements IAiProvider {
     const messages: Anthropic.Messages.MessageParam[] = [];
 
     if (request.context?.messages) {
-      messages.push(...request.context.messages.map(msg => ({
+      // System messages go in the top-level `system` parameter instead
+      messages.push(...request.context.messages.filter(msg => msg.role !== 'system').map(msg => ({
         role: msg.role === 'assistant' ? 'assistant' as const : 'user' as const,
         content: msg.content,
       })));
@@ -170,6 +173,15 @@ export class AnthropicProvider implements IAiProvider {
     return messages;
   }
 
+  private buildSystemPrompt(request: AiRequest): string | undefined {
+    const system = request.context?.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    return system || undefined;
+  }
+
   private calculateCost(usage: TokenUsage, model: string): number {
     const costPerMillionTokens = this.getCostPerToken(model);
     return (usage.totalTokens / 1000000) * costPerMillionTokens;
@@ -7,9 +7,14 @@ import {
   ResponseMetadata,
   ModelInfo,
   ProviderConfig,
-  ConversationContext
+  ConversationContext,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  EmbeddingModelInfo
 } from './IAiProvider';
 
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
 export class GoogleAiProvider implements IAiProvider {
   id = 'google';
   name = 'Google AI';
@@ -28,6 +33,7 @@ export class GoogleAiProvider implements IAiProvider {
     try {
       const model = this.client.getGenerativeModel({
         model: request.model || 'gemini-pro',
+        systemInstruction: this.buildSystemInstruction(request),
       });
 
       const generationConfig = {
@@ -44,7 +50,7 @@ export class GoogleAiProvider implements IAiProvider {
         request.context.messages[request.context.messages.length - 1]?.content || request.prompt :
         request.prompt;
 
-      const result = await chat.sendMessage(prompt);
+      const result = await chat.sendMessage(prompt, { signal: request.signal });
       const response = result.response.text();
 
       // Google AI doesn't provide token usage in the same way, so we estimate
@@ -79,6 +85,7 @@ export class GoogleAiProvider implements IAiProvider {
     try {
       const model = this.client.getGenerativeModel({
         model: request.model || 'gemini-pro',
+        systemInstruction: this.buildSystemInstruction(request),
       });
 
       const generationConfig = {
@@ -95,7 +102,7 @@ export class GoogleAiProvider implements IAiProvider {
         request.context.messages[request.context.messages.length - 1]?.content || request.prompt :
         request.prompt;
 
-      const streamingResponse = await chat.sendMessageStream(prompt);
+      const streamingResponse = await chat.sendMessageStream(prompt, { signal: request.signal });
 
       let accumulatedText = '';
       let totalTokens = 0;
@@ -131,6 +138,50 @@ export class GoogleAiProvider implements IAiProvider {
     }
   }
 
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const modelInfo = this.getEmbeddingModel(options.model);
+
+    try {
+      const model = this.client.getGenerativeModel({ model: modelInfo.id });
+
+      const result = await model.batchEmbedContents({
+        requests: texts.map(text => ({
+          content: { role: 'user', parts: [{ text }] },
+        })),
+      }, { signal: options.signal });
+
+      const embeddings = result.embeddings.map(embedding => embedding.values);
+
+      // Google AI doesn't report token usage for embeddings, so we estimate
+      const estimatedTokens = texts.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+
+      return {
+        embeddings,
+        usage: {
+          promptTokens: estimatedTokens,
+          totalTokens: estimatedTokens,
+        },
+        metadata: {
+          provider: this.id,
+          model: modelInfo.id,
+          dimensions: embeddings[0]?.length || modelInfo.dimensions,
+          processingTime: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      throw new Error(`Google AI embedding error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  getEmbeddingModel(model: string = DEFAULT_EMBEDDING_MODEL): EmbeddingModelInfo {
+    return {
+      id: model,
+      dimensions: 768,
+      maxBatchSize: 100,
+    };
+  }
+
   async getModels(): Promise<ModelInfo[]> {
     // Google AI doesn't have a public models API, so return known models
     return [
@@ -170,6 +221,7 @@ export class GoogleAiProvider implements IAiProvider {
 
     if (request.context?.messages) {
       for (const message of request.context.messages.slice(0, -1)) { // Exclude the last message as it's the prompt
+        if (message.role === 'system') continue; // Passed as the system instruction
         history.push({
           role: message.role === 'assistant' ? 'model' : 'user',
           parts: [{ text: message.content }],
@@ -180,6 +232,15 @@ export class GoogleAiProvider implements IAiProvider {
     return history;
   }
 
+  private buildSystemInstruction(request: AiRequest): string | undefined {
+    const system = request.context?.messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    return system || undefined;
+  }
+
   private estimateTokens(text: string): number {
     // Rough estimation: ~4 characters per token for English text
     return Math.ceil(text.length / 4);
@@ -4,6 +4,7 @@ export interface AiRequest {
   temperature?: number;
   maxTokens?: number;
   context?: ConversationContext;
+  signal?: AbortSignal; // Aborts the upstream provider request (e.g. when a streaming client disconnects)
 }
 
 export interface AiResponse {
@@ -48,6 +49,38 @@ export interface ProviderConfig {
   maxRetries?: number;
 }
 
+export interface EmbeddingOptions {
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][]; // One vector per input text, in input order
+  usage: {
+    promptTokens: number;
+    totalTokens: number;
+  };
+  metadata: {
+    provider: string;
+    model: string;
+    dimensions: number;
+    processingTime: number;
+  };
+}
+
+export interface EmbeddingModelInfo {
+  id: string;
+  dimensions: number;
+  maxBatchSize: number; // Maximum number of inputs accepted by a single embed request
+}
+
+export interface IEmbeddingProvider {
+  id: string;
+  name: string;
+  embed(texts: string[], options?: EmbeddingOptions): Promise<EmbeddingResponse>;
+  getEmbeddingModel(model?: string): EmbeddingModelInfo;
+}
+
 export interface IAiProvider {
   id: string;
   name: string;
@@ -55,4 +88,8 @@ export interface IAiProvider {
   generateStream(request: AiRequest): AsyncIterable<AiResponse>;
   getModels(): Promise<ModelInfo[]>;
   validateConfig(config: ProviderConfig): boolean;
+
+  // Optional embedding capability (not every provider offers an embeddings API)
+  embed?(texts: string[], options?: EmbeddingOptions): Promise<EmbeddingResponse>;
+  getEmbeddingModel?(model?: string): EmbeddingModelInfo;
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import {
+  IEmbeddingProvider,
+  EmbeddingResponse,
+  EmbeddingModelInfo
+} from './IAiProvider';
+
+const DEFAULT_DIMENSIONS = 384;
+
+/**
+ * Offline embedder using the hashing trick: unigrams and bigrams are hashed into a
+ * fixed-size vector with sublinear term-frequency weights, then L2-normalised.
+ * Deterministic and dependency-free, so it works without API keys and in tests,
+ * but only captures lexical overlap rather than meaning.
+ */
+export class LocalEmbeddingProvider implements IEmbeddingProvider {
+  id = 'local';
+  name = 'Local Hashing Embedder';
+
+  private dimensions: number;
+
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions || DEFAULT_DIMENSIONS;
+  }
+
+  // The hashing embedder has a single model, so `options.model` is ignored
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const modelInfo = this.getEmbeddingModel();
+
+    let totalTokens = 0;
+    const embeddings = texts.map(text => {
+      const tokens = this.tokenize(text);
+      totalTokens += tokens.length;
+      return this.embedTokens(tokens);
+    });
+
+    return {
+      embeddings,
+      usage: {
+        promptTokens: totalTokens,
+        totalTokens,
+      },
+      metadata: {
+        provider: this.id,
+        model: modelInfo.id,
+        dimensions: this.dimensions,
+        processingTime: Date.now() - startTime,
+      },
+    };
+  }
+
+  getEmbeddingModel(): EmbeddingModelInfo {
+    return {
+      id: `hashing-${this.dimensions}`,
+      dimensions: this.dimensions,
+      maxBatchSize: 1000,
+    };
+  }
+
+  private tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[a-z0-9\u00c0-\u024f']+/g) || [];
+  }
+
+  private embedTokens(tokens: string[]): number[] {
+    const termFrequencies = new Map<string, number>();
+    const addTerm = (term: string, weight: number) => {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      addTerm(tokens[i], 1);
+      if (i > 0) {
+        addTerm(`${tokens[i - 1]} ${tokens[i]}`, 0.5);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [term, frequency] of termFrequencies.entries()) {
+      const hash = fnv1a(term);
+      const index = hash % this.dimensions;
+      const sign = (hash >>> 31) === 0 ? 1 : -1; // Signed hashing keeps collisions from only adding up
+      vector[index] += sign * (1 + Math.log(frequency));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+// 32-bit FNV-1a hash
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -7,9 +7,14 @@ import {
   ResponseMetadata,
   ModelInfo,
   ProviderConfig,
-  ConversationContext
+  ConversationContext,
+  EmbeddingOptions,
+  EmbeddingResponse,
+  EmbeddingModelInfo
 } from './IAiProvider';
 
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
 export class OpenAiProvider implements IAiProvider {
   id = 'openai';
   name = 'OpenAI';
@@ -38,7 +43,7 @@ export class OpenAiProvider implements IAiProvider {
         messages,
         temperature: request.temperature || 0.7,
         max_tokens: request.maxTokens || 1000,
-      });
+      }, { signal: request.signal });
 
       const response = completion.choices[0]?.message?.content || '';
       const usage = completion.usage;
@@ -80,7 +85,7 @@ export class OpenAiProvider implements IAiProvider {
         temperature: request.temperature || 0.7,
         max_tokens: request.maxTokens || 1000,
         stream: true,
-      });
+      }, { signal: request.signal });
 
       let accumulatedText = '';
       let model = '';
@@ -141,6 +146,52 @@ export class OpenAiProvider implements IAiProvider {
     }
   }
 
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const modelInfo = this.getEmbeddingModel(options.model);
+
+    try {
+      const result = await this.client.embeddings.create({
+        model: modelInfo.id,
+        input: texts,
+      }, { signal: options.signal });
+
+      // The API may return items out of order; restore input order by index
+      const embeddings = [...result.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+
+      return {
+        embeddings,
+        usage: {
+          promptTokens: result.usage?.prompt_tokens || 0,
+          totalTokens: result.usage?.total_tokens || 0,
+        },
+        metadata: {
+          provider: this.id,
+          model: result.model || modelInfo.id,
+          dimensions: embeddings[0]?.length || modelInfo.dimensions,
+          processingTime: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      throw new Error(`OpenAI embedding error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  getEmbeddingModel(model: string = DEFAULT_EMBEDDING_MODEL): EmbeddingModelInfo {
+    const dimensions: Record<string, number> = {
+      'text-embedding-3-small': 1536,
+      'text-embedding-3-large': 3072,
+      'text-embedding-ada-002': 1536,
+    };
+    return {
+      id: model,
+      dimensions: dimensions[model] || 1536,
+      maxBatchSize: 2048,
+    };
+  }
+
   validateConfig(config: ProviderConfig): boolean {
     return !!(config.apiKey && config.apiKey.length > 0);
   }
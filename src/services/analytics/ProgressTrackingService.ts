@@ -1,4 +1,5 @@
 import { logger } from '@/lib/logger';
+import type { UserDataSource } from '@/services/compliance/data-rights/UserDataSource';
 
 export interface ProgressMetric {
   id: string;
@@ -138,7 +139,8 @@ export type InsightType =
   | 'strength_recognition'
   | 'habit_formation';
 
-export class ProgressTrackingService {
+export class ProgressTrackingService implements UserDataSource {
+  readonly name = 'progress';
   private metrics: Map<string, ProgressMetric[]> = new Map();
   private goals: Map<string, Goal[]> = new Map();
   private insights: Map<string, ProgressInsight[]> = new Map();
@@ -617,6 +619,27 @@ export class ProgressTrackingService {
     return this.insights.get(userId) || [];
   }
 
+  // Data subject requests
+  async exportUserData(userId: string) {
+    return {
+      metrics: this.getUserMetrics(userId),
+      goals: this.getUserGoals(userId),
+      insights: this.getUserInsights(userId),
+      achievements: this.getUserAchievements(userId)
+    };
+  }
+
+  async eraseUserData(userId: string): Promise<number> {
+    let erased = 0;
+    for (const store of [this.metrics, this.goals, this.insights, this.achievements] as Map<string, unknown[]>[]) {
+      erased += store.get(userId)?.length ?? 0;
+      store.delete(userId);
+    }
+
+    logger.info({ userId, erased }, 'Progress data erased');
+    return erased;
+  }
+
   private async analyzeMetricImpact(metric: ProgressMetric): Promise<void> {
     // Analyze the impact of a new metric and potentially generate insights
     const userMetrics = this.metrics.get(metric.userId) || [];
@@ -732,4 +755,16 @@ export class ProgressTrackingService {
       completionRate: totalGoals > 0 ? completedGoals / totalGoals : 0
     };
   }
-}
\ No newline at end of file
+}
+
+let defaultService: ProgressTrackingService | null = null;
+
+/**
+ * Shared service for this process, so the API routes and account data requests see the same progress
+ */
+export function getProgressTrackingService(): ProgressTrackingService {
+  if (!defaultService) {
+    defaultService = new ProgressTrackingService();
+  }
+  return defaultService;
+}
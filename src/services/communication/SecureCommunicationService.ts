@@ -1,5 +1,9 @@
 import { logger } from '@/lib/logger';
 import crypto from 'crypto';
+import { EnvelopeEncryption, isEnvelope } from '@/services/security/EnvelopeEncryption';
+import { decryptLegacy, getLegacyKeysFromEnv } from '@/services/security/LegacyEncryption';
+import { Keyring, getKeyring } from '@/services/security/keyring';
+import { AuditEntry, AuditLog, getAuditLog } from '@/services/compliance/audit';
 
 export interface CommunicationChannel {
   id: string;
@@ -19,7 +23,7 @@ export interface CommunicationChannel {
     createdAt: Date;
     expiresAt?: Date;
   };
-  audit: CommunicationAudit[];
+  audit: CommunicationAudit[]; // Entries written by this process; getChannelAudit reads the persisted log
 }
 
 export interface CommunicationParticipant {
@@ -61,6 +65,11 @@ export interface EncryptedContent {
   iv: string;
   tag?: string;
   keyId: string;
+  // Envelope fields; content from the old createCipher scheme lacks them until `migrateLegacyMessage`
+  version?: number;
+  algorithm?: string;
+  wrappedKey?: string;
+  aad?: string;
 }
 
 export interface CommunicationAudit {
@@ -74,6 +83,21 @@ export interface CommunicationAudit {
   userAgent?: string;
 }
 
+const AUDIT_ACTION_PREFIX = 'communication.';
+
+function toCommunicationAudit(entry: AuditEntry): CommunicationAudit {
+  return {
+    id: `audit-${entry.sequence}`,
+    timestamp: entry.occurredAt,
+    action: entry.action.slice(AUDIT_ACTION_PREFIX.length) as CommunicationAudit['action'],
+    actorId: entry.actorId,
+    actorType: entry.actorType as CommunicationAudit['actorType'],
+    details: entry.metadata ?? {},
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent
+  };
+}
+
 export interface CommunicationSession {
   id: string;
   channelId: string;
@@ -94,26 +118,15 @@ export interface CommunicationSession {
 export class SecureCommunicationService {
   private channels: Map<string, CommunicationChannel> = new Map();
   private sessions: Map<string, CommunicationSession> = new Map();
-  private encryptionKeys: Map<string, { key: Buffer; createdAt: Date }> = new Map();
-
-  constructor() {
-    this.initializeEncryptionKeys();
-  }
-
-  private initializeEncryptionKeys() {
-    // Generate initial encryption keys for HIPAA compliance
-    const keyId = `key-${Date.now()}`;
-    const key = crypto.randomBytes(32); // 256-bit key for AES-256-GCM
-
-    this.encryptionKeys.set(keyId, {
-      key,
-      createdAt: new Date()
-    });
-
-    logger.info({
-      keyId,
-      algorithm: 'AES-256-GCM'
-    }, 'Encryption keys initialized for secure communication');
+  private keyring: Keyring;
+  private envelopes: EnvelopeEncryption;
+  private legacyKeys: Map<string, Buffer> | null = null;
+  private auditLog: AuditLog;
+
+  constructor(keyring?: Keyring, auditLog?: AuditLog) {
+    this.keyring = keyring || getKeyring('communication');
+    this.envelopes = new EnvelopeEncryption(this.keyring);
+    this.auditLog = auditLog || getAuditLog();
   }
 
   async createCommunicationChannel(
@@ -124,7 +137,7 @@ export class SecureCommunicationService {
   ): Promise<CommunicationChannel> {
     try {
       const channelId = `channel-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
-      const keyId = Array.from(this.encryptionKeys.keys())[0]; // Use latest key
+      const keyId = (await this.keyring.activeKey()).id;
 
       const channel: CommunicationChannel = {
         id: channelId,
@@ -171,20 +184,18 @@ export class SecureCommunicationService {
           createdAt: new Date(),
           expiresAt: new Date(Date.now() + (24 * 60 * 60 * 1000)) // 24 hours
         },
-        audit: [
-          {
-            id: `audit-${Date.now()}`,
-            timestamp: new Date(),
-            action: 'channel_created',
-            actorId: 'system',
-            actorType: 'system',
-            details: { channelId, professionalId, userId, crisisId }
-          }
-        ]
+        audit: []
       };
 
       this.channels.set(channelId, channel);
 
+      await this.addAuditEntry(channel, {
+        action: 'channel_created',
+        actorId: 'system',
+        actorType: 'system',
+        details: { channelId, professionalId, userId, crisisId }
+      });
+
       // Create communication session
       await this.createCommunicationSession(channelId, professionalId, userId);
 
@@ -263,7 +274,7 @@ export class SecureCommunicationService {
       }
 
       // Encrypt message content
-      const encryptedContent = await this.encryptContent(content, channel.encryption.keyId);
+      const encryptedContent = await this.encryptContent(content, channelId);
 
       const message: CommunicationMessage = {
         id: `msg-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
@@ -293,9 +304,7 @@ export class SecureCommunicationService {
       }
 
       // Add audit entry
-      channel.audit.push({
-        id: `audit-${Date.now()}`,
-        timestamp: new Date(),
+      await this.addAuditEntry(channel, {
         action: 'message_sent',
         actorId: senderId,
         actorType: senderType,
@@ -337,7 +346,7 @@ export class SecureCommunicationService {
 
   async decryptMessage(message: CommunicationMessage): Promise<string> {
     try {
-      return await this.decryptContent(message.content);
+      return await this.decryptContent(message.content, message.channelId);
     } catch (error) {
       logger.error({
         messageId: message.id,
@@ -348,42 +357,64 @@ export class SecureCommunicationService {
     }
   }
 
-  private async encryptContent(content: string, keyId: string): Promise<EncryptedContent> {
-    const keyData = this.encryptionKeys.get(keyId);
-    if (!keyData) {
-      throw new Error('Encryption key not found');
+  /**
+   * Re-encrypts a message from the old createCipher scheme as an envelope under the current key.
+   * Messages already in envelopes are returned as they are.
+   */
+  async migrateLegacyMessage(message: CommunicationMessage): Promise<CommunicationMessage> {
+    if (isEnvelope(message.content)) {
+      return message;
     }
 
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipher('aes-256-gcm', keyData.key);
+    try {
+      const content = await this.encryptContent(this.decryptLegacyContent(message.content), message.channelId);
 
-    let encrypted = cipher.update(content, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+      logger.info({
+        messageId: message.id,
+        fromKeyId: message.content.keyId,
+        toKeyId: content.keyId
+      }, 'Legacy message migrated');
 
-    const tag = cipher.getAuthTag();
+      return { ...message, content };
 
-    return {
-      ciphertext: encrypted,
-      iv: iv.toString('hex'),
-      tag: tag.toString('hex'),
-      keyId
-    };
+    } catch (error) {
+      logger.error({
+        messageId: message.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Failed to migrate legacy message');
+
+      throw new Error('Failed to migrate legacy message content');
+    }
   }
 
-  private async decryptContent(encryptedContent: EncryptedContent): Promise<string> {
-    const keyData = this.encryptionKeys.get(encryptedContent.keyId);
-    if (!keyData) {
-      throw new Error('Decryption key not found');
+  // Bound to the channel, so a message can't be replayed into another one
+  private async encryptContent(content: string, channelId: string): Promise<EncryptedContent> {
+    return this.envelopes.encrypt(content, `channel:${channelId}`);
+  }
+
+  private async decryptContent(encryptedContent: EncryptedContent, channelId: string): Promise<string> {
+    if (isEnvelope(encryptedContent)) {
+      return this.envelopes.decryptString(encryptedContent, `channel:${channelId}`);
     }
+    return this.decryptLegacyContent(encryptedContent);
+  }
 
-    const decipher = crypto.createDecipher('aes-256-gcm', keyData.key);
-    decipher.setAuthTag(Buffer.from(encryptedContent.tag!, 'hex'));
-    decipher.setAAD(Buffer.from(encryptedContent.iv, 'hex'));
+  private decryptLegacyContent(encryptedContent: EncryptedContent): string {
+    if (!this.legacyKeys) {
+      this.legacyKeys = getLegacyKeysFromEnv();
+    }
 
-    let decrypted = decipher.update(encryptedContent.ciphertext, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+    const password = this.legacyKeys.get(encryptedContent.keyId);
+    if (!password) {
+      throw new Error('Decryption key not found');
+    }
 
-    return decrypted;
+    // The old scheme used no AAD
+    const legacy = decryptLegacy(password, encryptedContent);
+    if (!legacy) {
+      throw new Error('Legacy message failed authentication');
+    }
+    return legacy.data;
   }
 
   async endCommunicationSession(sessionId: string, reason: string): Promise<boolean> {
@@ -401,9 +432,7 @@ export class SecureCommunicationService {
         channel.metadata.expiresAt = new Date();
 
         // Add audit entry
-        channel.audit.push({
-          id: `audit-${Date.now()}`,
-          timestamp: new Date(),
+        await this.addAuditEntry(channel, {
           action: 'channel_left',
           actorId: 'system',
           actorType: 'system',
@@ -430,9 +459,46 @@ export class SecureCommunicationService {
     }
   }
 
+  // Oldest first, from the persisted audit log, so a channel's history outlives the process
   async getChannelAudit(channelId: string): Promise<CommunicationAudit[]> {
-    const channel = this.channels.get(channelId);
-    return channel?.audit || [];
+    const entries = await this.auditLog.query({
+      resourceType: 'communication_channel',
+      resourceId: channelId,
+      limit: 1000
+    });
+    return entries.reverse().map(toCommunicationAudit);
+  }
+
+  /**
+   * Channel events go to the audit log as PHI access by their actor. A failed audit write is logged
+   * rather than thrown so it can't cut off a crisis conversation.
+   */
+  private async addAuditEntry(
+    channel: CommunicationChannel,
+    audit: Omit<CommunicationAudit, 'id' | 'timestamp'>
+  ): Promise<void> {
+    try {
+      const entry = await this.auditLog.record({
+        actorId: audit.actorId,
+        actorType: audit.actorType,
+        action: `${AUDIT_ACTION_PREFIX}${audit.action}`,
+        resourceType: 'communication_channel',
+        resourceId: channel.id,
+        subjectId: channel.metadata.userId,
+        purpose: 'crisis_response',
+        outcome: 'success',
+        ipAddress: audit.ipAddress,
+        userAgent: audit.userAgent,
+        metadata: audit.details
+      });
+      channel.audit.push(toCommunicationAudit(entry));
+    } catch (error) {
+      logger.error({
+        channelId: channel.id,
+        action: audit.action,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Failed to write communication audit entry');
+    }
   }
 
   async getSessionQualityMetrics(sessionId: string): Promise<CommunicationSession['quality'] | null> {
@@ -448,15 +514,9 @@ export class SecureCommunicationService {
     return Array.from(this.sessions.values()).filter(session => session.status === 'active');
   }
 
-  // HIPAA compliance: Key rotation
+  // HIPAA compliance: Key rotation. Earlier messages are moved onto the new key by the re-encryption job.
   async rotateEncryptionKeys(): Promise<void> {
-    const newKeyId = `key-${Date.now()}`;
-    const newKey = crypto.randomBytes(32);
-
-    this.encryptionKeys.set(newKeyId, {
-      key: newKey,
-      createdAt: new Date()
-    });
+    const { id: newKeyId } = await this.keyring.rotate();
 
     // Update active channels to use new key
     for (const channel of this.channels.values()) {
@@ -496,9 +556,7 @@ export class SecureCommunicationService {
       channel.participants.push(adminParticipant);
 
       // Add audit entry
-      channel.audit.push({
-        id: `audit-${Date.now()}`,
-        timestamp: new Date(),
+      await this.addAuditEntry(channel, {
         action: 'channel_joined',
         actorId: adminId,
         actorType: 'system',
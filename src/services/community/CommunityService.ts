@@ -1,4 +1,17 @@
 import { logger } from '@/lib/logger';
+import { ModerationService, NewModerationAction, Screening, createModerationService, getModerationService } from './moderation';
+import {
+  FEED_CHANNEL,
+  RealtimeBroker,
+  RealtimeEventType,
+  ReactionEventData,
+  commentEventData,
+  getRealtimeBroker,
+  groupChannel,
+  postEventData,
+  sessionChannel,
+} from './realtime';
+import { CommunityStore, CursorPage, PageQuery, PostQuery, getCommunityStore } from './store';
 
 export interface UserProfile {
   userId: string;
@@ -97,6 +110,26 @@ export interface PeerSupportSession {
   moderatedBy?: string;
 }
 
+export interface PeerSessionMessage {
+  id: string;
+  sessionId: string;
+  senderId: string;
+  content: string;
+  createdAt: Date;
+}
+
+export const REACTION_KINDS = ['like', 'support', 'hug'] as const;
+
+export type ReactionKind = typeof REACTION_KINDS[number];
+
+export interface Reaction {
+  targetType: 'post' | 'comment';
+  targetId: string;
+  userId: string;
+  kind: ReactionKind; // Every kind counts towards the target's likes
+  createdAt: Date;
+}
+
 export interface CommunityEvent {
   id: string;
   title: string;
@@ -147,105 +180,43 @@ export type SupportGroupCategory =
   | 'peer_support'
   | 'professional_guidance';
 
-export class CommunityService {
-  private users: Map<string, UserProfile> = new Map();
-  private groups: Map<string, SupportGroup> = new Map();
-  private posts: Map<string, CommunityPost> = new Map();
-  private comments: Map<string, Comment[]> = new Map();
-  private connections: Map<string, UserConnection[]> = new Map();
-  private sessions: Map<string, PeerSupportSession> = new Map();
-  private events: Map<string, CommunityEvent> = new Map();
-  private moderationActions: Map<string, ModerationAction[]> = new Map();
-
-  constructor() {
-    this.initializeCommunityService();
-  }
-
-  private initializeCommunityService() {
-    // Initialize default support groups
-    this.createDefaultSupportGroups();
-    // Create demo user profile
-    this.createDemoUserProfile();
-    logger.info('Community service initialized');
-  }
-
-  private createDefaultSupportGroups() {
-    const defaultGroups: Omit<SupportGroup, 'id' | 'memberCount' | 'createdAt'>[] = [
-      {
-        name: 'Anxiety Support Circle',
-        description: 'A safe space for sharing experiences and coping strategies related to anxiety.',
-        category: 'anxiety',
-        privacyLevel: 'public',
-        rules: [
-          'Be respectful and supportive',
-          'No unsolicited advice unless asked',
-          'Maintain confidentiality',
-          'Use trigger warnings when appropriate'
-        ],
-        moderators: [],
-        createdBy: 'system',
-        isActive: true,
-        tags: ['anxiety', 'support', 'coping']
-      },
-      {
-        name: 'Depression Warriors',
-        description: 'Connecting with others who understand the challenges of depression.',
-        category: 'depression',
-        privacyLevel: 'public',
-        rules: [
-          'Share your experiences openly',
-          'Offer hope and understanding',
-          'Respect different coping mechanisms',
-          'Seek professional help when needed'
-        ],
-        moderators: [],
-        createdBy: 'system',
-        isActive: true,
-        tags: ['depression', 'mental_health', 'recovery']
-      },
-      {
-        name: 'Peer Support Network',
-        description: 'General peer support for anyone needing to talk and connect.',
-        category: 'peer_support',
-        privacyLevel: 'public',
-        rules: [
-          'Everyone\'s experience is valid',
-          'Listen actively and empathetically',
-          'Share resources when helpful',
-          'Respect boundaries and privacy'
-        ],
-        moderators: [],
-        createdBy: 'system',
-        isActive: true,
-        tags: ['peer_support', 'community', 'listening']
-      }
-    ];
+// What members see; pending and rejected content is only shown to moderators
+const VISIBLE_STATUSES: CommunityPost['moderationStatus'][] = ['approved', 'flagged'];
 
-    for (const groupData of defaultGroups) {
-      const group: SupportGroup = {
-        ...groupData,
-        id: this.generateGroupId(),
-        memberCount: 0,
-        createdAt: new Date()
-      };
-      this.groups.set(group.id, group);
-    }
-  }
+export const MAX_SESSION_MESSAGE_LENGTH = 4000;
 
-  private createDemoUserProfile() {
-    const demoProfile: UserProfile = {
-      userId: 'user_demo',
-      displayName: 'Demo User',
-      bio: 'Exploring mental health support and community features',
-      interests: ['mindfulness', 'peer_support', 'anxiety_management'],
-      supportAreas: ['anxiety', 'general_wellbeing'],
-      anonymityLevel: 'pseudonymous',
-      joinedAt: new Date('2024-01-15'),
-      lastActive: new Date(),
-      isActive: true
-    };
+export type CommunityErrorCode = 'not_found' | 'forbidden' | 'conflict';
 
-    this.users.set('user_demo', demoProfile);
+export class CommunityError extends Error {
+  constructor(public code: CommunityErrorCode, message: string) {
+    super(message);
+    this.name = 'CommunityError';
+  }
+}
+
+// Response status for each code in the community routes
+export const COMMUNITY_ERROR_STATUS: Record<CommunityErrorCode, number> = {
+  not_found: 404,
+  forbidden: 403,
+  conflict: 409,
+};
+
+/**
+ * Profiles, support groups, posts and comments, connections, peer support sessions, events and
+ * moderation. State lives in the community store, so it survives restarts and is shared by every
+ * instance of the app. New posts and comments are screened by the moderation service, and banned
+ * members can't post, comment, react or join groups. Approved posts, comments, reactions and
+ * session messages are published to the realtime broker as they happen.
+ */
+export class CommunityService {
+  private store: CommunityStore;
+  private moderation: ModerationService;
+  private broker: RealtimeBroker;
+
+  constructor(store?: CommunityStore, moderation?: ModerationService, broker?: RealtimeBroker) {
+    this.store = store || getCommunityStore();
+    this.moderation = moderation || (store ? createModerationService(store) : getModerationService());
+    this.broker = broker || getRealtimeBroker();
   }
 
   async createUserProfile(profileData: Omit<UserProfile, 'joinedAt' | 'lastActive' | 'isActive'>): Promise<UserProfile> {
@@ -257,7 +228,7 @@ export class CommunityService {
         isActive: true
       };
 
-      this.users.set(profile.userId, profile);
+      await this.store.saveProfile(profile);
 
       logger.info({
         userId: profile.userId,
@@ -277,16 +248,18 @@ export class CommunityService {
 
   async updateUserProfile(userId: string, updates: Partial<UserProfile>): Promise<UserProfile | null> {
     try {
-      const profile = this.users.get(userId);
+      const profile = await this.store.getProfile(userId);
       if (!profile) return null;
 
       const updatedProfile: UserProfile = {
         ...profile,
         ...updates,
+        userId,
+        joinedAt: profile.joinedAt,
         lastActive: new Date()
       };
 
-      this.users.set(userId, updatedProfile);
+      await this.store.saveProfile(updatedProfile);
 
       logger.debug({ userId }, 'User profile updated');
       return updatedProfile;
@@ -302,14 +275,11 @@ export class CommunityService {
 
   async createSupportGroup(groupData: Omit<SupportGroup, 'id' | 'memberCount' | 'createdAt'>): Promise<SupportGroup> {
     try {
-      const group: SupportGroup = {
+      const group = await this.store.createGroup({
         ...groupData,
         id: this.generateGroupId(),
-        memberCount: 0,
         createdAt: new Date()
-      };
-
-      this.groups.set(group.id, group);
+      });
 
       logger.info({
         groupId: group.id,
@@ -330,27 +300,23 @@ export class CommunityService {
 
   async joinSupportGroup(userId: string, groupId: string): Promise<boolean> {
     try {
-      const group = this.groups.get(groupId);
+      const group = await this.store.getGroup(groupId);
       if (!group || !group.isActive) return false;
 
+      if (await this.moderation.getActiveBan(userId)) return false;
+
       // Check privacy and membership limits
       if (group.privacyLevel === 'private' || group.privacyLevel === 'invite-only') {
         // In a real implementation, check invitations/approvals
         return false;
       }
 
-      if (group.maxMembers && group.memberCount >= group.maxMembers) {
+      const result = await this.store.addGroupMember(groupId, userId, group.maxMembers);
+      if (result === 'full') {
         return false;
       }
 
-      group.memberCount += 1;
-      this.groups.set(group.id, group);
-
-      logger.info({
-        userId,
-        groupId,
-        newMemberCount: group.memberCount
-      }, 'User joined support group');
+      logger.info({ userId, groupId, result }, 'User joined support group');
 
       return true;
 
@@ -364,35 +330,52 @@ export class CommunityService {
     }
   }
 
-  async createPost(postData: Omit<CommunityPost, 'id' | 'createdAt' | 'updatedAt' | 'likes' | 'replies' | 'isModerated' | 'moderationStatus'>): Promise<CommunityPost> {
+  /**
+   * Screened before it is saved: held posts are saved as pending and only shown once a moderator
+   * approves them. Throws UserBannedError or ContentRejectedError.
+   */
+  async createPost(
+    postData: Omit<CommunityPost, 'id' | 'createdAt' | 'updatedAt' | 'likes' | 'replies' | 'isModerated' | 'moderationStatus'>,
+    language?: string
+  ): Promise<{ post: CommunityPost; screening: Screening }> {
     try {
-      // Content moderation check
-      const moderationResult = await this.moderateContent(postData.content, postData.triggerWarnings);
-      if (!moderationResult.approved) {
-        throw new Error(`Post rejected: ${moderationResult.reason}`);
-      }
+      await this.moderation.assertNotBanned(postData.authorId);
+
+      const id = this.generatePostId();
+      const screening = await this.moderation.screen({
+        targetType: 'post',
+        targetId: id,
+        authorId: postData.authorId,
+        text: postData.title ? `${postData.title}\n${postData.content}` : postData.content,
+        language
+      });
 
       const post: CommunityPost = {
         ...postData,
-        id: this.generatePostId(),
+        id,
         createdAt: new Date(),
         updatedAt: new Date(),
         likes: 0,
         replies: 0,
         isModerated: false,
-        moderationStatus: 'approved'
+        moderationStatus: screening.status
       };
 
-      this.posts.set(post.id, post);
+      await this.store.createPost(post);
 
       logger.info({
         postId: post.id,
         authorId: post.authorId,
         groupId: post.groupId,
-        contentType: post.contentType
+        contentType: post.contentType,
+        moderationStatus: post.moderationStatus
       }, 'Community post created');
 
-      return post;
+      if (post.moderationStatus === 'approved') {
+        await this.publish(await this.postChannels(post), 'post.created', postEventData(post));
+      }
+
+      return { post, screening };
 
     } catch (error) {
       logger.error({
@@ -403,42 +386,55 @@ export class CommunityService {
     }
   }
 
-  async createComment(commentData: Omit<Comment, 'id' | 'createdAt' | 'updatedAt' | 'likes' | 'isModerated' | 'moderationStatus'>): Promise<Comment> {
+  /**
+   * Screened like a post. Throws UserBannedError or ContentRejectedError.
+   */
+  async createComment(
+    commentData: Omit<Comment, 'id' | 'createdAt' | 'updatedAt' | 'likes' | 'isModerated' | 'moderationStatus'>,
+    language?: string
+  ): Promise<{ comment: Comment; screening: Screening }> {
     try {
-      // Content moderation check
-      const moderationResult = await this.moderateContent(commentData.content, []);
-      if (!moderationResult.approved) {
-        throw new Error(`Comment rejected: ${moderationResult.reason}`);
+      await this.moderation.assertNotBanned(commentData.authorId);
+
+      const post = await this.store.getPost(commentData.postId);
+      if (!post) {
+        throw new CommunityError('not_found', 'Post not found');
       }
 
+      const id = this.generateCommentId();
+      const screening = await this.moderation.screen({
+        targetType: 'comment',
+        targetId: id,
+        authorId: commentData.authorId,
+        text: commentData.content,
+        language
+      });
+
       const comment: Comment = {
         ...commentData,
-        id: this.generateCommentId(),
+        id,
         createdAt: new Date(),
         updatedAt: new Date(),
         likes: 0,
         isModerated: false,
-        moderationStatus: 'approved'
+        moderationStatus: screening.status
       };
 
-      const postComments = this.comments.get(comment.postId) || [];
-      postComments.push(comment);
-      this.comments.set(comment.postId, postComments);
-
-      // Update post reply count
-      const post = this.posts.get(comment.postId);
-      if (post) {
-        post.replies += 1;
-        this.posts.set(post.id, post);
-      }
+      // Also counts the comment in the post's replies
+      await this.store.createComment(comment);
 
       logger.debug({
         commentId: comment.id,
         postId: comment.postId,
-        authorId: comment.authorId
+        authorId: comment.authorId,
+        moderationStatus: comment.moderationStatus
       }, 'Comment created');
 
-      return comment;
+      if (comment.moderationStatus === 'approved' && VISIBLE_STATUSES.includes(post.moderationStatus)) {
+        await this.publish(await this.postChannels(post), 'comment.created', commentEventData(comment));
+      }
+
+      return { comment, screening };
 
     } catch (error) {
       logger.error({
@@ -450,40 +446,62 @@ export class CommunityService {
     }
   }
 
+  /**
+   * One reaction per member per post or comment; returns the target's new likes, or null if the
+   * member had already reacted. Throws UserBannedError, or CommunityError when the target isn't
+   * visible to members.
+   */
+  async react(
+    userId: string,
+    targetType: Reaction['targetType'],
+    targetId: string,
+    kind: ReactionKind
+  ): Promise<number | null> {
+    await this.moderation.assertNotBanned(userId);
+
+    const target = targetType === 'post' ? await this.store.getPost(targetId) : await this.store.getComment(targetId);
+    const post = target && 'postId' in target ? await this.store.getPost(target.postId) : target;
+    if (!target || !post || !VISIBLE_STATUSES.includes(target.moderationStatus) || !VISIBLE_STATUSES.includes(post.moderationStatus)) {
+      throw new CommunityError('not_found', `${targetType} ${targetId} not found`);
+    }
+
+    const likes = await this.store.addReaction({ targetType, targetId, userId, kind, createdAt: new Date() });
+    if (likes === null) return null;
+
+    logger.debug({ userId, targetType, targetId, kind }, 'Reaction added');
+
+    const profile = await this.store.getProfile(userId);
+    const data: ReactionEventData = {
+      targetType,
+      targetId,
+      postId: post.id,
+      ...(profile?.anonymityLevel !== 'anonymous' && { userId }),
+      kind,
+      likes
+    };
+    await this.publish(await this.postChannels(post), 'reaction', data);
+    return likes;
+  }
+
   async createUserConnection(connectionData: Omit<UserConnection, 'id' | 'createdAt'>): Promise<UserConnection> {
     try {
-      // Validate connection doesn't already exist
-      const existingConnections = this.connections.get(connectionData.userId) || [];
-      const existingConnection = existingConnections.find(
-        c => c.connectedUserId === connectionData.connectedUserId
-      );
-
-      if (existingConnection) {
-        throw new Error('Connection already exists');
-      }
-
       const connection: UserConnection = {
         ...connectionData,
         id: this.generateConnectionId(),
         createdAt: new Date()
       };
 
-      // Add to both users' connection lists
-      const userConnections = this.connections.get(connectionData.userId) || [];
-      userConnections.push(connection);
-      this.connections.set(connectionData.userId, userConnections);
-
       // Create reciprocal connection
       const reciprocalConnection: UserConnection = {
         ...connection,
+        id: this.generateConnectionId(),
         userId: connectionData.connectedUserId,
         connectedUserId: connectionData.userId,
         status: 'pending' // Wait for acceptance
       };
 
-      const connectedUserConnections = this.connections.get(connectionData.connectedUserId) || [];
-      connectedUserConnections.push(reciprocalConnection);
-      this.connections.set(connectionData.connectedUserId, connectedUserConnections);
+      // Throws ConnectionExistsError if the users are already connected
+      await this.store.createConnection(connection, reciprocalConnection);
 
       logger.info({
         connectionId: connection.id,
@@ -511,7 +529,7 @@ export class CommunityService {
         id: this.generateSessionId()
       };
 
-      this.sessions.set(session.id, session);
+      await this.store.createSession(session);
 
       logger.info({
         sessionId: session.id,
@@ -529,6 +547,36 @@ export class CommunityService {
     }
   }
 
+  /**
+   * Messages go to the session's participants and moderator while it is scheduled or active.
+   * Throws CommunityError when the session is missing, closed or the sender isn't in it.
+   */
+  async sendSessionMessage(sessionId: string, senderId: string, content: string): Promise<PeerSessionMessage> {
+    await this.assertInSession(sessionId, senderId, true);
+
+    const message: PeerSessionMessage = {
+      id: this.generateMessageId(),
+      sessionId,
+      senderId,
+      content: content.substring(0, MAX_SESSION_MESSAGE_LENGTH),
+      createdAt: new Date()
+    };
+
+    await this.store.createSessionMessage(message);
+    logger.debug({ sessionId, messageId: message.id }, 'Session message sent');
+
+    await this.publish([sessionChannel(sessionId)], 'session.message', message);
+    return message;
+  }
+
+  /**
+   * Newest first, a page at a time, for the session's participants and moderator
+   */
+  async getSessionMessages(sessionId: string, userId: string, query: PageQuery = {}): Promise<CursorPage<PeerSessionMessage>> {
+    await this.assertInSession(sessionId, userId, false);
+    return this.store.listSessionMessages(sessionId, query);
+  }
+
   async createCommunityEvent(eventData: Omit<CommunityEvent, 'id' | 'currentParticipants' | 'participants' | 'createdAt'>): Promise<CommunityEvent> {
     try {
       const event: CommunityEvent = {
@@ -539,7 +587,7 @@ export class CommunityService {
         createdAt: new Date()
       };
 
-      this.events.set(event.id, event);
+      await this.store.createEvent(event);
 
       logger.info({
         eventId: event.id,
@@ -559,54 +607,46 @@ export class CommunityService {
     }
   }
 
-  private async moderateContent(content: string, triggerWarnings: string[]): Promise<{ approved: boolean; reason?: string }> {
-    // Basic content moderation (in production, use advanced ML models)
-    const prohibitedWords = ['harm', 'suicide', 'kill', 'die']; // Simplified
-    const lowerContent = content.toLowerCase();
-
-    for (const word of prohibitedWords) {
-      if (lowerContent.includes(word) && !triggerWarnings.includes(word)) {
-        return {
-          approved: false,
-          reason: `Content contains sensitive topic "${word}" without trigger warning`
-        };
-      }
+  /**
+   * RSVP for a published event that hasn't started. Throws CommunityError when the event is missing
+   * or not open, or already has its maximum participants.
+   */
+  async rsvpEvent(eventId: string, userId: string): Promise<CommunityEvent> {
+    const event = await this.store.getEvent(eventId);
+    if (!event || event.status !== 'published') {
+      throw new CommunityError('not_found', `Event ${eventId} not found`);
+    }
+    if (event.startTime <= new Date()) {
+      throw new CommunityError('conflict', `Event ${eventId} has already started`);
     }
 
-    // Check content length
-    if (content.length > 10000) {
-      return {
-        approved: false,
-        reason: 'Content exceeds maximum length'
-      };
+    const result = await this.store.addEventParticipant(eventId, userId, event.maxParticipants);
+    if (result === 'full') {
+      throw new CommunityError('conflict', `Event ${eventId} is full`);
     }
 
-    return { approved: true };
+    logger.info({ eventId, userId, result }, 'Event RSVP recorded');
+    return (await this.store.getEvent(eventId))!;
   }
 
-  async performModerationAction(action: Omit<ModerationAction, 'id' | 'createdAt'>): Promise<ModerationAction> {
-    try {
-      const moderationAction: ModerationAction = {
-        ...action,
-        id: this.generateModerationId(),
-        createdAt: new Date()
-      };
-
-      const targetActions = this.moderationActions.get(action.targetId) || [];
-      targetActions.push(moderationAction);
-      this.moderationActions.set(action.targetId, targetActions);
-
-      // Apply the moderation action
-      await this.applyModerationAction(moderationAction);
+  /**
+   * Withdraw an RSVP. Throws CommunityError if the event is missing or the member hadn't RSVPed.
+   */
+  async cancelRsvp(eventId: string, userId: string): Promise<CommunityEvent> {
+    if (!await this.store.removeEventParticipant(eventId, userId)) {
+      throw new CommunityError('not_found', `No RSVP for event ${eventId}`);
+    }
 
-      logger.info({
-        actionId: moderationAction.id,
-        moderatorId: moderationAction.moderatorId,
-        targetType: moderationAction.targetType,
-        action: moderationAction.action
-      }, 'Moderation action performed');
+    logger.info({ eventId, userId }, 'Event RSVP cancelled');
+    return (await this.store.getEvent(eventId))!;
+  }
 
-      return moderationAction;
+  /**
+   * Records and applies the action; see ModerationService.takeAction
+   */
+  async performModerationAction(action: NewModerationAction): Promise<ModerationAction> {
+    try {
+      return await this.moderation.takeAction(action);
 
     } catch (error) {
       logger.error({
@@ -617,45 +657,44 @@ export class CommunityService {
     }
   }
 
-  private async applyModerationAction(action: ModerationAction): Promise<void> {
-    switch (action.targetType) {
-      case 'post':
-        const post = this.posts.get(action.targetId);
-        if (post) {
-          switch (action.action) {
-            case 'approve':
-              post.moderationStatus = 'approved';
-              post.isModerated = true;
-              break;
-            case 'reject':
-            case 'delete':
-              post.moderationStatus = 'rejected';
-              post.isModerated = true;
-              // In production, would mark for deletion
-              break;
-            case 'flag':
-              post.moderationStatus = 'flagged';
-              break;
-          }
-          this.posts.set(post.id, post);
-        }
-        break;
-
-      case 'comment':
-        // Similar logic for comments
-        break;
-
-      case 'user':
-        // User moderation (ban, warn, etc.)
-        break;
-
-      case 'group':
-        // Group moderation
-        break;
+  // Utility methods
+  private async assertInSession(sessionId: string, userId: string, open: boolean): Promise<void> {
+    const session = await this.store.getSession(sessionId);
+    if (!session) {
+      throw new CommunityError('not_found', `Session ${sessionId} not found`);
+    }
+    if (!session.participants.includes(userId) && session.moderatedBy !== userId) {
+      throw new CommunityError('forbidden', `Not a participant in session ${sessionId}`);
+    }
+    if (open && (session.status === 'completed' || session.status === 'cancelled')) {
+      throw new CommunityError('conflict', `Session ${sessionId} is ${session.status}`);
+    }
+  }
+
+  // Group posts go to the group; posts outside groups and in public groups also reach the feed
+  private async postChannels(post: CommunityPost): Promise<string[]> {
+    if (!post.groupId) return [FEED_CHANNEL];
+
+    const group = await this.store.getGroup(post.groupId);
+    return group?.privacyLevel === 'public'
+      ? [groupChannel(post.groupId), FEED_CHANNEL]
+      : [groupChannel(post.groupId)];
+  }
+
+  // Delivery is best effort: the content is already saved and shows up on the next fetch
+  private async publish(channels: string[], type: RealtimeEventType, data: unknown): Promise<void> {
+    const at = new Date().toISOString();
+    try {
+      await Promise.all(channels.map(channel => this.broker.publish({ type, channel, data, at })));
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type,
+        channels
+      }, 'Failed to publish realtime event');
     }
   }
 
-  // Utility methods
   private generateGroupId(): string {
     return `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -680,76 +719,137 @@ export class CommunityService {
     return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private generateModerationId(): string {
-    return `moderation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private generateMessageId(): string {
+    return `message_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   // Data access methods
-  getUserProfile(userId: string): UserProfile | null {
-    return this.users.get(userId) || null;
+  getUserProfile(userId: string): Promise<UserProfile | null> {
+    return this.store.getProfile(userId);
+  }
+
+  getActiveProfiles(): Promise<UserProfile[]> {
+    return this.store.listActiveProfiles();
+  }
+
+  getSupportGroup(groupId: string): Promise<SupportGroup | null> {
+    return this.store.getGroup(groupId);
   }
 
-  getSupportGroup(groupId: string): SupportGroup | null {
-    return this.groups.get(groupId) || null;
+  getSupportGroups(category?: SupportGroupCategory): Promise<SupportGroup[]> {
+    return this.store.listGroups(category);
   }
 
-  getSupportGroups(category?: SupportGroupCategory): SupportGroup[] {
-    const groups = Array.from(this.groups.values());
-    return category ? groups.filter(g => g.category === category) : groups;
+  /**
+   * A group the member may read and post in: any active public group, otherwise only as a member,
+   * moderator or its creator. Throws CommunityError.
+   */
+  async getAccessibleGroup(groupId: string, userId: string): Promise<SupportGroup> {
+    const group = await this.store.getGroup(groupId);
+    if (!group || !group.isActive) {
+      throw new CommunityError('not_found', `Group ${groupId} not found`);
+    }
+
+    const allowed = group.privacyLevel === 'public'
+      || group.createdBy === userId
+      || group.moderators.includes(userId)
+      || await this.store.isGroupMember(groupId, userId);
+    if (!allowed) {
+      throw new CommunityError('forbidden', `Not a member of group ${groupId}`);
+    }
+    return group;
   }
 
-  getCommunityPosts(groupId?: string, limit: number = 50): CommunityPost[] {
-    const posts = Array.from(this.posts.values())
-      .filter(p => !groupId || p.groupId === groupId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+  /**
+   * A post members may see, in a group the member may access. Throws CommunityError.
+   */
+  async getAccessiblePost(postId: string, userId: string): Promise<CommunityPost> {
+    const post = await this.store.getPost(postId);
+    if (!post || !VISIBLE_STATUSES.includes(post.moderationStatus)) {
+      throw new CommunityError('not_found', 'Post not found');
+    }
+    if (post.groupId) {
+      await this.getAccessibleGroup(post.groupId, userId);
+    }
+    return post;
+  }
 
-    return posts;
+  /**
+   * Newest first, a page at a time; pass the previous page's `nextCursor` for the next one.
+   * Only what members may see unless `statuses` says otherwise.
+   */
+  getCommunityPosts(query: PostQuery = {}): Promise<CursorPage<CommunityPost>> {
+    return this.store.listPosts({ statuses: VISIBLE_STATUSES, ...query });
   }
 
-  getPostComments(postId: string): Comment[] {
-    return this.comments.get(postId) || [];
+  /**
+   * Newest first: posts outside any group and in public groups, as on the realtime feed
+   */
+  async getFeed(query: PageQuery = {}): Promise<CursorPage<CommunityPost>> {
+    const closedGroups = (await this.store.listGroups())
+      .filter(group => group.privacyLevel !== 'public')
+      .map(group => group.id);
+    return this.getCommunityPosts({ ...query, excludeGroupIds: closedGroups });
   }
 
-  getUserConnections(userId: string): UserConnection[] {
-    return this.connections.get(userId) || [];
+  /**
+   * Oldest first, a page at a time, leaving out pending and rejected comments
+   */
+  getPostComments(postId: string, query: PageQuery = {}): Promise<CursorPage<Comment>> {
+    return this.store.listComments(postId, { ...query, statuses: VISIBLE_STATUSES });
   }
 
-  getCommunityEvents(upcomingOnly: boolean = true): CommunityEvent[] {
-    const events = Array.from(this.events.values());
-    const now = new Date();
+  getUserConnections(userId: string): Promise<UserConnection[]> {
+    return this.store.listConnections(userId);
+  }
 
-    return upcomingOnly
-      ? events.filter(e => e.startTime > now && e.status === 'published')
-      : events;
+  getPeerSupportSession(sessionId: string): Promise<PeerSupportSession | null> {
+    return this.store.getSession(sessionId);
+  }
+
+  getCommunityEvents(upcomingOnly: boolean = true): Promise<CommunityEvent[]> {
+    return this.store.listEvents(upcomingOnly ? new Date() : undefined);
+  }
+
+  getCommunityEvent(eventId: string): Promise<CommunityEvent | null> {
+    return this.store.getEvent(eventId);
+  }
+
+  getModerationActions(targetType: ModerationAction['targetType'], targetId: string): Promise<ModerationAction[]> {
+    return this.store.listModerationActions(targetType, targetId);
   }
 
   // Analytics methods
-  getCommunityStats(): {
+  async getCommunityStats(): Promise<{
     totalUsers: number;
     totalGroups: number;
     totalPosts: number;
     totalComments: number;
     activeUsers: number;
     engagementRate: number;
-  } {
-    const totalUsers = this.users.size;
-    const totalGroups = this.groups.size;
-    const totalPosts = this.posts.size;
-    const totalComments = Array.from(this.comments.values()).reduce((sum, comments) => sum + comments.length, 0);
-
-    const activeUsers = Array.from(this.users.values())
-      .filter(u => u.isActive && (Date.now() - u.lastActive.getTime()) < 7 * 24 * 60 * 60 * 1000).length;
-
-    const engagementRate = totalUsers > 0 ? (totalPosts + totalComments) / totalUsers : 0;
+  }> {
+    const counts = await this.store.countAll(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+    const engagementRate = counts.users > 0 ? (counts.posts + counts.comments) / counts.users : 0;
 
     return {
-      totalUsers,
-      totalGroups,
-      totalPosts,
-      totalComments,
-      activeUsers,
+      totalUsers: counts.users,
+      totalGroups: counts.groups,
+      totalPosts: counts.posts,
+      totalComments: counts.comments,
+      activeUsers: counts.activeUsers,
       engagementRate
     };
   }
-}
\ No newline at end of file
+}
+
+let defaultService: CommunityService | null = null;
+
+/**
+ * Shared service for this process, on the shared community store
+ */
+export function getCommunityService(): CommunityService {
+  if (!defaultService) {
+    defaultService = new CommunityService();
+  }
+  return defaultService;
+}
@@ -1,4 +1,4 @@
-import { CommunityService, UserProfile, UserConnection, PeerSupportSession } from './CommunityService';
+import { CommunityError, CommunityService, UserProfile, UserConnection, PeerSupportSession, getCommunityService } from './CommunityService';
 import { logger } from '@/lib/logger';
 
 export interface SupportMatch {
@@ -133,9 +133,9 @@ export class PeerSupportService {
     maxMatches?: number;
   }): Promise<SupportMatch[]> {
     try {
-      const userProfile = this.communityService.getUserProfile(userId);
+      const userProfile = await this.communityService.getUserProfile(userId);
       if (!userProfile) {
-        throw new Error('User profile not found');
+        throw new CommunityError('not_found', 'User profile not found');
       }
 
       const potentialMatches = await this.findPotentialSupporters(userId, criteria);
@@ -180,9 +180,8 @@ export class PeerSupportService {
 
   private async findPotentialSupporters(userId: string, criteria?: any): Promise<UserProfile[]> {
     // Get all users who have indicated they're willing to provide peer support
-    // In a real implementation, this would query the database
-    const allUsers = Array.from(this.communityService['users'].values())
-      .filter(u => u.userId !== userId && u.isActive);
+    const allUsers = (await this.communityService.getActiveProfiles())
+      .filter(u => u.userId !== userId);
 
     // Filter by criteria
     let supporters = allUsers.filter(u =>
@@ -203,8 +202,10 @@ export class PeerSupportService {
     supporterId: string,
     criteria?: any
   ): Promise<SupportMatch> {
-    const seekerProfile = this.communityService.getUserProfile(seekerId);
-    const supporterProfile = this.communityService.getUserProfile(supporterId);
+    const [seekerProfile, supporterProfile] = await Promise.all([
+      this.communityService.getUserProfile(seekerId),
+      this.communityService.getUserProfile(supporterId)
+    ]);
 
     if (!seekerProfile || !supporterProfile) {
       throw new Error('User profile not found');
@@ -505,24 +506,26 @@ export class PeerSupportService {
 
   async buildSupportNetwork(userId: string): Promise<SupportNetwork> {
     try {
-      const connections = this.communityService.getUserConnections(userId);
-      const userProfile = this.communityService.getUserProfile(userId);
+      const [connections, userProfile] = await Promise.all([
+        this.communityService.getUserConnections(userId),
+        this.communityService.getUserProfile(userId)
+      ]);
 
       if (!userProfile) {
-        throw new Error('User profile not found');
+        throw new CommunityError('not_found', 'User profile not found');
       }
 
-      const networkConnections = connections
+      const networkConnections = await Promise.all(connections
         .filter(c => c.status === 'accepted')
-        .map(connection => ({
+        .map(async connection => ({
           connectionId: connection.id,
           userId: connection.connectedUserId,
           relationshipType: connection.connectionType,
           trustLevel: connection.trustLevel,
           lastInteraction: connection.lastInteraction || connection.createdAt,
           interactionFrequency: this.calculateInteractionFrequency(connection),
-          supportAreas: this.getConnectionSupportAreas(connection)
-        }));
+          supportAreas: await this.getConnectionSupportAreas(connection)
+        })));
 
       const networkStrength = this.calculateNetworkStrength(networkConnections);
       const diversityScore = this.calculateNetworkDiversity(networkConnections);
@@ -569,9 +572,9 @@ export class PeerSupportService {
     return 0.1; // Rarely
   }
 
-  private getConnectionSupportAreas(connection: UserConnection): string[] {
+  private async getConnectionSupportAreas(connection: UserConnection): Promise<string[]> {
     // Get support areas from connected user's profile
-    const connectedProfile = this.communityService.getUserProfile(connection.connectedUserId);
+    const connectedProfile = await this.communityService.getUserProfile(connection.connectedUserId);
     return connectedProfile?.supportAreas || [];
   }
 
@@ -629,15 +632,15 @@ export class PeerSupportService {
   }
 
   // Analytics methods
-  getPeerSupportStats(): {
+  async getPeerSupportStats(): Promise<{
     totalUsers: number;
     activeSupporters: number;
     totalSessions: number;
     avgResponseTime: number;
     crisisResolutionRate: number;
     avgSatisfaction: number;
-  } {
-    const totalUsers = this.communityService.getCommunityStats().totalUsers;
+  }> {
+    const { totalUsers } = await this.communityService.getCommunityStats();
     const activeSupporters = Array.from(this.peerMetrics.values())
       .filter(m => (Date.now() - m.lastActivity.getTime()) < 30 * 24 * 60 * 60 * 1000).length;
 
@@ -660,4 +663,17 @@ export class PeerSupportService {
       avgSatisfaction
     };
   }
-}
\ No newline at end of file
+}
+
+let defaultService: PeerSupportService | null = null;
+
+/**
+ * Shared service for this process, on the shared community service. Matches, crisis requests,
+ * networks and feedback are held in memory, so every route must use this one.
+ */
+export function getPeerSupportService(): PeerSupportService {
+  if (!defaultService) {
+    defaultService = new PeerSupportService(getCommunityService());
+  }
+  return defaultService;
+}
@@ -0,0 +1,14 @@
+export * from './schemas';
+export {
+  toCommentResource,
+  toConnectionResource,
+  toCrisisRequestResource,
+  toEventResource,
+  toGroupResource,
+  toModerationResult,
+  toPostResource,
+  toProfileResource,
+  toSessionFeedbackResource,
+  toSupportMatchResource,
+  toSupportNetworkResource,
+} from './serializers';
@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import { MAX_PAGE_SIZE } from '../store/CommunityStore';
+
+// Request and response schemas for the community REST routes. Shared with the client, so this module
+// only depends on zod: responses parse on the server before they are sent and again in the browser,
+// where the date fields turn back into Dates.
+
+const date = z.coerce.date();
+
+const GROUP_CATEGORIES = [
+  'anxiety', 'depression', 'ptsd', 'ocd', 'eating_disorders',
+  'addiction', 'grief', 'relationships', 'lgbtq', 'general_wellbeing',
+  'peer_support', 'professional_guidance'
+] as const;
+
+const MODERATION_STATUSES = ['pending', 'approved', 'rejected', 'flagged'] as const;
+
+// Requests
+
+export const pageQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional()
+});
+
+export const createProfileSchema = z.object({
+  displayName: z.string().min(1, 'Display name is required').max(100),
+  avatar: z.string().url().optional(),
+  bio: z.string().max(2000).optional(),
+  interests: z.array(z.string()).default([]),
+  supportAreas: z.array(z.string()).default([]),
+  anonymityLevel: z.enum(['anonymous', 'pseudonymous', 'identified']).default('pseudonymous')
+});
+
+// No defaults, so fields left out keep their current values
+export const updateProfileSchema = z.object({
+  displayName: z.string().min(1, 'Display name is required').max(100).optional(),
+  avatar: z.string().url().optional(),
+  bio: z.string().max(2000).optional(),
+  interests: z.array(z.string()).optional(),
+  supportAreas: z.array(z.string()).optional(),
+  anonymityLevel: z.enum(['anonymous', 'pseudonymous', 'identified']).optional()
+});
+
+export const groupQuerySchema = z.object({
+  category: z.enum(GROUP_CATEGORIES).optional()
+});
+
+export const createGroupSchema = z.object({
+  name: z.string().min(1, 'Group name is required').max(200),
+  description: z.string().min(1, 'Group description is required'),
+  category: z.enum(GROUP_CATEGORIES),
+  privacyLevel: z.enum(['public', 'private', 'invite-only']).default('public'),
+  rules: z.array(z.string()).default([]),
+  maxMembers: z.number().int().positive().optional(),
+  tags: z.array(z.string()).default([])
+});
+
+export const createPostSchema = z.object({
+  title: z.string().max(300).optional(),
+  content: z.string().min(1, 'Content is required'),
+  contentType: z.enum(['text', 'image', 'link', 'poll']).default('text'),
+  tags: z.array(z.string()).default([]),
+  mood: z.string().optional(),
+  triggerWarnings: z.array(z.string()).default([]),
+  isAnonymous: z.boolean().default(false),
+  locale: z.string().optional() // Client locale such as "es-MX", for screening and any crisis resources
+});
+
+export const createCommentSchema = z.object({
+  content: z.string().min(1, 'Content is required'),
+  parentId: z.string().optional(),
+  isAnonymous: z.boolean().default(false),
+  locale: z.string().optional()
+});
+
+export const createConnectionSchema = z.object({
+  connectedUserId: z.string().min(1, 'Connected user ID is required'),
+  connectionType: z.enum(['friend', 'mentor', 'mentee', 'peer_support']).default('peer_support'),
+  message: z.string().max(1000).optional()
+});
+
+export const eventQuerySchema = z.object({
+  upcomingOnly: z.enum(['true', 'false']).default('true').transform(value => value === 'true')
+});
+
+export const createEventSchema = z.object({
+  title: z.string().min(1, 'Event title is required'),
+  description: z.string().min(1, 'Event description is required'),
+  eventType: z.enum(['workshop', 'support_group', 'social', 'educational']).default('support_group'),
+  startTime: z.string().datetime('Start time must be a valid ISO date'),
+  endTime: z.string().datetime('End time must be a valid ISO date'),
+  maxParticipants: z.number().int().positive().optional(),
+  location: z.enum(['virtual', 'in-person']).default('virtual'),
+  meetingLink: z.string().url().optional(),
+  address: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  prerequisites: z.array(z.string()).default([]),
+  isPublic: z.boolean().default(true)
+}).refine(event => new Date(event.endTime) > new Date(event.startTime), {
+  message: 'End time must be after the start time',
+  path: ['endTime']
+});
+
+export const supportMatchQuerySchema = z.object({
+  supportType: z.string().optional(),
+  urgency: z.enum(['low', 'medium', 'high']).optional(),
+  topics: z.array(z.string()).optional(),
+  maxMatches: z.number().int().positive().max(20).default(5)
+});
+
+export const crisisRequestSchema = z.object({
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  crisisType: z.string().min(1, 'Crisis type is required'),
+  description: z.string().min(1, 'Description is required'),
+  immediateNeeds: z.array(z.string()).default([]),
+  preferredSupportType: z.enum(['chat', 'call', 'in-person', 'professional']).default('chat'),
+  location: z.object({
+    type: z.enum(['virtual', 'physical']),
+    details: z.string().optional()
+  }).optional()
+});
+
+const rating = z.number().min(1).max(5);
+
+export const sessionFeedbackSchema = z.object({
+  receiverId: z.string().min(1, 'Receiver ID is required'),
+  rating: rating,
+  categories: z.object({
+    empathy: rating,
+    helpfulness: rating,
+    activeListening: rating,
+    appropriateAdvice: rating,
+    safety: rating
+  }),
+  comments: z.string().max(2000).optional(),
+  wouldRecommend: z.boolean().default(true)
+});
+
+// Responses
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.array(z.unknown()).optional(), // zod issues when validation failed
+  until: date.optional() // When a ban ends
+});
+
+export const profileSchema = z.object({
+  userId: z.string(),
+  displayName: z.string(),
+  avatar: z.string().optional(),
+  bio: z.string().optional(),
+  interests: z.array(z.string()),
+  supportAreas: z.array(z.string()),
+  anonymityLevel: z.enum(['anonymous', 'pseudonymous', 'identified']),
+  joinedAt: date,
+  lastActive: date,
+  isActive: z.boolean()
+});
+
+export const groupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  category: z.enum(GROUP_CATEGORIES),
+  privacyLevel: z.enum(['public', 'private', 'invite-only']),
+  memberCount: z.number(),
+  maxMembers: z.number().optional(),
+  rules: z.array(z.string()),
+  tags: z.array(z.string()),
+  isActive: z.boolean(),
+  createdAt: date
+});
+
+export const postSchema = z.object({
+  id: z.string(),
+  authorId: z.string().optional(), // Anonymous posts show it only to their author and moderators
+  groupId: z.string().optional(),
+  title: z.string().optional(),
+  content: z.string(),
+  contentType: z.enum(['text', 'image', 'link', 'poll']),
+  tags: z.array(z.string()),
+  mood: z.string().optional(),
+  triggerWarnings: z.array(z.string()),
+  likes: z.number(),
+  replies: z.number(),
+  isAnonymous: z.boolean(),
+  moderationStatus: z.enum(MODERATION_STATUSES),
+  createdAt: date
+});
+
+export const commentSchema = z.object({
+  id: z.string(),
+  postId: z.string(),
+  parentId: z.string().optional(),
+  authorId: z.string().optional(), // As on posts
+  content: z.string(),
+  likes: z.number(),
+  isAnonymous: z.boolean(),
+  moderationStatus: z.enum(MODERATION_STATUSES),
+  createdAt: date,
+  updatedAt: date
+});
+
+// What the author is told about a new post or comment
+export const moderationResultSchema = z.object({
+  status: z.enum(['approved', 'pending']),
+  crisisResources: z.object({
+    locale: z.string(),
+    items: z.array(z.unknown()),
+    disclaimer: z.string()
+  }).optional()
+});
+
+export const connectionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  connectedUserId: z.string(),
+  connectionType: z.enum(['friend', 'mentor', 'mentee', 'peer_support']),
+  status: z.enum(['pending', 'accepted', 'blocked']),
+  trustLevel: z.number(),
+  lastInteraction: date.optional(),
+  createdAt: date
+});
+
+export const eventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  eventType: z.enum(['workshop', 'support_group', 'social', 'educational']),
+  startTime: date,
+  endTime: date,
+  maxParticipants: z.number().optional(),
+  currentParticipants: z.number(),
+  attending: z.boolean(), // Whether the signed-in member has RSVPed
+  location: z.enum(['virtual', 'in-person']),
+  meetingLink: z.string().optional(),
+  address: z.string().optional(),
+  tags: z.array(z.string()),
+  prerequisites: z.array(z.string()),
+  isPublic: z.boolean(),
+  status: z.enum(['draft', 'published', 'cancelled', 'completed']),
+  createdAt: date
+});
+
+export const supportMatchSchema = z.object({
+  matchedUserId: z.string(),
+  matchScore: z.number(),
+  matchReasons: z.array(z.string()),
+  recommendedSessionType: z.enum(['one-on-one', 'group', 'crisis_support']),
+  confidence: z.number(),
+  expiresAt: date
+});
+
+export const crisisSupportRequestSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  status: z.enum(['pending', 'matched', 'resolved', 'escalated']),
+  assignedSupporters: z.array(z.string()),
+  createdAt: date
+});
+
+export const sessionFeedbackResultSchema = z.object({
+  sessionId: z.string(),
+  giverId: z.string(),
+  receiverId: z.string(),
+  rating: z.number(),
+  createdAt: date
+});
+
+export const supportNetworkSchema = z.object({
+  userId: z.string(),
+  networkType: z.enum(['personal', 'community', 'professional']),
+  connectionsCount: z.number(),
+  networkStrength: z.number(),
+  diversityScore: z.number(),
+  lastUpdated: date
+});
+
+export const communityStatsSchema = z.object({
+  community: z.object({
+    totalUsers: z.number(),
+    totalGroups: z.number(),
+    totalPosts: z.number(),
+    totalComments: z.number(),
+    activeUsers: z.number(),
+    engagementRate: z.number()
+  }),
+  peerSupport: z.object({
+    totalUsers: z.number(),
+    activeSupporters: z.number(),
+    totalSessions: z.number(),
+    avgResponseTime: z.number(),
+    crisisResolutionRate: z.number(),
+    avgSatisfaction: z.number()
+  })
+});
+
+// Response bodies, one per route and method
+
+const ok = z.literal(true);
+const nextCursor = z.string().nullable();
+
+export const profileResponseSchema = z.object({ success: ok, profile: profileSchema });
+export const groupResponseSchema = z.object({ success: ok, group: groupSchema });
+export const groupListResponseSchema = z.object({ success: ok, groups: z.array(groupSchema) });
+export const membershipResponseSchema = z.object({ success: ok, groupId: z.string(), memberCount: z.number() });
+export const postResponseSchema = z.object({ success: ok, post: postSchema, moderation: moderationResultSchema });
+export const postPageResponseSchema = z.object({ success: ok, posts: z.array(postSchema), nextCursor });
+export const commentResponseSchema = z.object({ success: ok, comment: commentSchema, moderation: moderationResultSchema });
+export const commentPageResponseSchema = z.object({ success: ok, comments: z.array(commentSchema), nextCursor });
+export const connectionResponseSchema = z.object({ success: ok, connection: connectionSchema });
+export const connectionListResponseSchema = z.object({ success: ok, connections: z.array(connectionSchema) });
+export const eventResponseSchema = z.object({ success: ok, event: eventSchema });
+export const eventListResponseSchema = z.object({ success: ok, events: z.array(eventSchema) });
+export const supportMatchListResponseSchema = z.object({ success: ok, matches: z.array(supportMatchSchema) });
+export const crisisRequestResponseSchema = z.object({ success: ok, crisisRequest: crisisSupportRequestSchema });
+export const sessionFeedbackResponseSchema = z.object({ success: ok, feedback: sessionFeedbackResultSchema });
+export const supportNetworkResponseSchema = z.object({ success: ok, network: supportNetworkSchema });
+export const statsResponseSchema = z.object({ success: ok, stats: communityStatsSchema });
+
+export type ApiError = z.infer<typeof apiErrorSchema>;
+export type ProfileInput = z.input<typeof createProfileSchema>;
+export type ProfileUpdate = z.input<typeof updateProfileSchema>;
+export type GroupInput = z.input<typeof createGroupSchema>;
+export type PostInput = z.input<typeof createPostSchema>;
+export type CommentInput = z.input<typeof createCommentSchema>;
+export type ConnectionInput = z.input<typeof createConnectionSchema>;
+export type EventInput = z.input<typeof createEventSchema>;
+export type SupportMatchQuery = z.input<typeof supportMatchQuerySchema>;
+export type CrisisRequestInput = z.input<typeof crisisRequestSchema>;
+export type SessionFeedbackInput = z.input<typeof sessionFeedbackSchema>;
+export type ProfileResource = z.output<typeof profileSchema>;
+export type GroupResource = z.output<typeof groupSchema>;
+export type PostResource = z.output<typeof postSchema>;
+export type CommentResource = z.output<typeof commentSchema>;
+export type ModerationResult = z.output<typeof moderationResultSchema>;
+export type ConnectionResource = z.output<typeof connectionSchema>;
+export type EventResource = z.output<typeof eventSchema>;
+export type SupportMatchResource = z.output<typeof supportMatchSchema>;
+export type CrisisSupportRequestResource = z.output<typeof crisisSupportRequestSchema>;
+export type SessionFeedbackResource = z.output<typeof sessionFeedbackResultSchema>;
+export type SupportNetworkResource = z.output<typeof supportNetworkSchema>;
+export type CommunityStatsResource = z.output<typeof communityStatsSchema>;
@@ -0,0 +1,114 @@
+import { ContentViewer, hasPermission } from '@/lib/permissions';
+import { CrisisResourceService, crisisLocale } from '@/services/safety/CrisisResourceService';
+import type {
+  Comment,
+  CommunityEvent,
+  CommunityPost,
+  SupportGroup,
+  UserConnection,
+  UserProfile,
+} from '../CommunityService';
+import type { Screening } from '../moderation';
+import type { CrisisSupportRequest, SupportMatch, SupportNetwork, SupportSessionFeedback } from '../PeerSupportService';
+import {
+  CommentResource,
+  ConnectionResource,
+  CrisisSupportRequestResource,
+  EventResource,
+  GroupResource,
+  ModerationResult,
+  PostResource,
+  ProfileResource,
+  SessionFeedbackResource,
+  SupportMatchResource,
+  SupportNetworkResource,
+  commentSchema,
+  connectionSchema,
+  crisisSupportRequestSchema,
+  eventSchema,
+  groupSchema,
+  moderationResultSchema,
+  postSchema,
+  profileSchema,
+  sessionFeedbackResultSchema,
+  supportMatchSchema,
+  supportNetworkSchema,
+} from './schemas';
+
+// Listings show the start of each post; realtime events carry the same preview
+const PREVIEW_LENGTH = 500;
+
+const resourceService = new CrisisResourceService();
+
+export function toProfileResource(profile: UserProfile): ProfileResource {
+  return profileSchema.parse(profile);
+}
+
+export function toGroupResource(group: SupportGroup): GroupResource {
+  return groupSchema.parse(group);
+}
+
+// Content posted anonymously names its author only to the author and to community moderators
+function withAuthor<T extends { authorId: string; isAnonymous: boolean }>(content: T, viewer: ContentViewer | null) {
+  const { authorId, ...rest } = content;
+  const shown = !content.isAnonymous
+    || (viewer !== null && (viewer.id === authorId || hasPermission(viewer.roles, 'community.moderate')));
+  return shown ? content : rest;
+}
+
+/**
+ * `viewer` is who the post is shown to; null for everyone, as in realtime events
+ */
+export function toPostResource(post: CommunityPost, viewer: ContentViewer | null, preview = false): PostResource {
+  return postSchema.parse({
+    ...withAuthor(post, viewer),
+    content: preview ? post.content.substring(0, PREVIEW_LENGTH) : post.content
+  });
+}
+
+export function toCommentResource(comment: Comment, viewer: ContentViewer | null): CommentResource {
+  return commentSchema.parse(withAuthor(comment, viewer));
+}
+
+/**
+ * Held crisis disclosures come back with crisis resources in the language they were written in
+ */
+export function toModerationResult(screening: Screening, locale?: string): ModerationResult {
+  if (!screening.crisis) {
+    return moderationResultSchema.parse({ status: screening.status });
+  }
+
+  const resources = resourceService.forLocale(crisisLocale(screening.language || 'en', locale));
+  return moderationResultSchema.parse({
+    status: screening.status,
+    crisisResources: {
+      locale: resources.locale,
+      items: resources.resources,
+      disclaimer: resources.disclaimer
+    }
+  });
+}
+
+export function toConnectionResource(connection: UserConnection): ConnectionResource {
+  return connectionSchema.parse(connection);
+}
+
+export function toEventResource(event: CommunityEvent, viewerId: string): EventResource {
+  return eventSchema.parse({ ...event, attending: event.participants.includes(viewerId) });
+}
+
+export function toSupportMatchResource(match: SupportMatch): SupportMatchResource {
+  return supportMatchSchema.parse(match);
+}
+
+export function toCrisisRequestResource(request: CrisisSupportRequest): CrisisSupportRequestResource {
+  return crisisSupportRequestSchema.parse(request);
+}
+
+export function toSessionFeedbackResource(feedback: SupportSessionFeedback): SessionFeedbackResource {
+  return sessionFeedbackResultSchema.parse(feedback);
+}
+
+export function toSupportNetworkResource(network: SupportNetwork): SupportNetworkResource {
+  return supportNetworkSchema.parse({ ...network, connectionsCount: network.connections.length });
+}
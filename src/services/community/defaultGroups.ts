@@ -0,0 +1,59 @@
+import type { SupportGroup } from './CommunityService';
+
+/**
+ * Groups every deployment starts with, created by `npm run db:seed`. The IDs are fixed so seeding
+ * again updates them in place.
+ */
+export const DEFAULT_SUPPORT_GROUPS: Omit<SupportGroup, 'memberCount' | 'createdAt'>[] = [
+  {
+    id: 'group_anxiety_support_circle',
+    name: 'Anxiety Support Circle',
+    description: 'A safe space for sharing experiences and coping strategies related to anxiety.',
+    category: 'anxiety',
+    privacyLevel: 'public',
+    rules: [
+      'Be respectful and supportive',
+      'No unsolicited advice unless asked',
+      'Maintain confidentiality',
+      'Use trigger warnings when appropriate'
+    ],
+    moderators: [],
+    createdBy: 'system',
+    isActive: true,
+    tags: ['anxiety', 'support', 'coping']
+  },
+  {
+    id: 'group_depression_warriors',
+    name: 'Depression Warriors',
+    description: 'Connecting with others who understand the challenges of depression.',
+    category: 'depression',
+    privacyLevel: 'public',
+    rules: [
+      'Share your experiences openly',
+      'Offer hope and understanding',
+      'Respect different coping mechanisms',
+      'Seek professional help when needed'
+    ],
+    moderators: [],
+    createdBy: 'system',
+    isActive: true,
+    tags: ['depression', 'mental_health', 'recovery']
+  },
+  {
+    id: 'group_peer_support_network',
+    name: 'Peer Support Network',
+    description: 'General peer support for anyone needing to talk and connect.',
+    category: 'peer_support',
+    privacyLevel: 'public',
+    rules: [
+      'Everyone\'s experience is valid',
+      'Listen actively and empathetically',
+      'Share resources when helpful',
+      'Respect boundaries and privacy'
+    ],
+    moderators: [],
+    createdBy: 'system',
+    isActive: true,
+    tags: ['peer_support', 'community', 'listening']
+  }
+];
@@ -0,0 +1,77 @@
+import type { CrisisAssessment, CrisisDetectionEngine } from '@/services/crisis-detection';
+import { activeCategories } from '@/services/crisis-detection';
+import type { ModeratedContentType } from './ModerationStore';
+
+export const MAX_CONTENT_LENGTH = 10000;
+
+/**
+ * - allow: publish straight away
+ * - hold: publish only once a moderator approves
+ * - crisis: the author may be at risk; hold for urgent review and start a safety escalation
+ * - reject: never publishable
+ */
+export type ContentVerdict = 'allow' | 'hold' | 'crisis' | 'reject';
+
+export interface ClassifiedContent {
+  targetType: ModeratedContentType;
+  targetId: string;
+  authorId: string;
+  text: string;
+  language?: string; // The author's preferred language
+}
+
+export interface ContentClassification {
+  verdict: ContentVerdict;
+  labels: string[];
+  reason?: string;
+  assessment?: CrisisAssessment;
+}
+
+// Abuse aimed at another member. These are held for review rather than treated as the author's own crisis.
+const HARASSMENT_PATTERNS: RegExp[] = [
+  /\b(go\s+)?(kill|hurt|cut)\s+your\s*self\b/i,
+  /\bkys\b/i,
+  /\bgo\s+(and\s+)?die\b/i,
+  /\byou\s+should\s+(just\s+)?die\b/i,
+  /\bno\s*(one|body)\s+would\s+miss\s+you\b/i,
+];
+
+/**
+ * Classifies community content with the crisis detection engine, so a post about self-harm or
+ * suicidal thoughts reaches someone who can help instead of being rejected for its wording.
+ * Trigger warnings are for readers and don't change the verdict.
+ */
+export class ContentClassifier {
+  constructor(private engine: Pick<CrisisDetectionEngine, 'assess'>) {}
+
+  async classify(content: ClassifiedContent): Promise<ContentClassification> {
+    if (content.text.length > MAX_CONTENT_LENGTH) {
+      return { verdict: 'reject', labels: ['too_long'], reason: 'Content exceeds maximum length' };
+    }
+
+    if (HARASSMENT_PATTERNS.some(pattern => pattern.test(content.text))) {
+      return { verdict: 'hold', labels: ['harassment'], reason: 'Content may be directed at another member' };
+    }
+
+    const assessment = await this.engine.assess({
+      userId: content.authorId,
+      sessionId: `community-${content.targetType}-${content.targetId}`,
+      message: content.text,
+      language: content.language,
+    });
+
+    if (!assessment) {
+      return { verdict: 'allow', labels: [] };
+    }
+
+    const labels = activeCategories(assessment.indicators);
+    const atRisk = assessment.indicators.selfHarm
+      || assessment.indicators.suicideIdeation
+      || assessment.severity === 'high'
+      || assessment.severity === 'critical';
+
+    return atRisk
+      ? { verdict: 'crisis', labels, reason: `Possible crisis disclosure (${assessment.severity})`, assessment }
+      : { verdict: 'allow', labels, assessment };
+  }
+}
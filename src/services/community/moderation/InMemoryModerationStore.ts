@@ -0,0 +1,152 @@
+import type { CursorPage } from '../store';
+import { pageSize } from '../store/CommunityStore';
+import {
+  AppealDecision,
+  AppealExistsError,
+  AppealStatus,
+  ContentReport,
+  ModeratedContentType,
+  ModerationAppeal,
+  ModerationQueueItem,
+  ModerationStore,
+  NewQueueItem,
+  QueueQuery,
+  QueueResolution,
+  mergeLabels,
+} from './ModerationStore';
+
+function byReviewOrder(a: ModerationQueueItem, b: ModerationQueueItem): number {
+  return Number(b.urgent) - Number(a.urgent)
+    || a.createdAt.getTime() - b.createdAt.getTime()
+    || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * Process-local store used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryModerationStore implements ModerationStore {
+  private items: Map<string, ModerationQueueItem> = new Map();
+  private reports: ContentReport[] = [];
+  private appeals: Map<string, ModerationAppeal> = new Map();
+  private nextItemId = 1;
+
+  async upsertOpenItem(item: NewQueueItem): Promise<ModerationQueueItem> {
+    const open = this.findPending(item.targetType, item.targetId);
+
+    if (open) {
+      open.labels = mergeLabels(open.labels, item.labels);
+      open.reportCount += item.reportCount ?? 0;
+      open.urgent = open.urgent || !!item.urgent;
+      open.escalationId = open.escalationId ?? item.escalationId;
+      if (item.source === 'crisis') open.source = 'crisis';
+      return structuredClone(open);
+    }
+
+    const created: ModerationQueueItem = {
+      id: `queue_${this.nextItemId++}`,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      authorId: item.authorId,
+      source: item.source,
+      labels: mergeLabels([], item.labels),
+      reportCount: item.reportCount ?? 0,
+      urgent: !!item.urgent,
+      escalationId: item.escalationId,
+      status: 'pending',
+      createdAt: new Date(),
+    };
+    this.items.set(created.id, created);
+    return structuredClone(created);
+  }
+
+  async getItem(itemId: string): Promise<ModerationQueueItem | null> {
+    const item = this.items.get(itemId);
+    return item ? structuredClone(item) : null;
+  }
+
+  async findOpenItem(targetType: ModeratedContentType, targetId: string): Promise<ModerationQueueItem | null> {
+    const item = this.findPending(targetType, targetId);
+    return item ? structuredClone(item) : null;
+  }
+
+  async listItems(query: QueueQuery): Promise<CursorPage<ModerationQueueItem>> {
+    const status = query.status ?? 'pending';
+    const sorted = Array.from(this.items.values())
+      .filter(item => item.status === status)
+      .sort(byReviewOrder);
+
+    const limit = pageSize(query.limit);
+    const start = query.cursor ? sorted.findIndex(item => item.id === query.cursor) + 1 : 0;
+    if (query.cursor && start === 0) {
+      return { items: [], nextCursor: null };
+    }
+
+    const items = sorted.slice(start, start + limit);
+    return {
+      items: items.map(item => structuredClone(item)),
+      nextCursor: sorted.length > start + limit ? items[items.length - 1].id : null,
+    };
+  }
+
+  async resolveItem(itemId: string, resolution: QueueResolution, resolvedBy: string): Promise<ModerationQueueItem | null> {
+    const item = this.items.get(itemId);
+    if (!item || item.status !== 'pending') return null;
+
+    Object.assign(item, { status: 'resolved', resolution, resolvedBy, resolvedAt: new Date() });
+    return structuredClone(item);
+  }
+
+  async countPending(): Promise<number> {
+    return Array.from(this.items.values()).filter(item => item.status === 'pending').length;
+  }
+
+  async addReport(report: ContentReport): Promise<boolean> {
+    const duplicate = this.reports.some(existing =>
+      existing.targetType === report.targetType
+      && existing.targetId === report.targetId
+      && existing.reporterId === report.reporterId
+    );
+    if (duplicate) return false;
+
+    this.reports.push(structuredClone(report));
+    return true;
+  }
+
+  async countReports(targetType: ModeratedContentType, targetId: string): Promise<number> {
+    return this.reports.filter(report => report.targetType === targetType && report.targetId === targetId).length;
+  }
+
+  async createAppeal(appeal: ModerationAppeal): Promise<void> {
+    if (Array.from(this.appeals.values()).some(existing => existing.actionId === appeal.actionId)) {
+      throw new AppealExistsError(appeal.actionId);
+    }
+    this.appeals.set(appeal.id, structuredClone(appeal));
+  }
+
+  async getAppeal(appealId: string): Promise<ModerationAppeal | null> {
+    const appeal = this.appeals.get(appealId);
+    return appeal ? structuredClone(appeal) : null;
+  }
+
+  async listAppeals(status?: AppealStatus): Promise<ModerationAppeal[]> {
+    return Array.from(this.appeals.values())
+      .filter(appeal => !status || appeal.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(appeal => structuredClone(appeal));
+  }
+
+  async decideAppeal(appealId: string, decision: AppealDecision): Promise<ModerationAppeal | null> {
+    const appeal = this.appeals.get(appealId);
+    if (!appeal || appeal.status !== 'pending') return null;
+
+    Object.assign(appeal, decision, { decidedAt: new Date() });
+    return structuredClone(appeal);
+  }
+
+  private findPending(targetType: ModeratedContentType, targetId: string): ModerationQueueItem | undefined {
+    return Array.from(this.items.values()).find(item =>
+      item.status === 'pending' && item.targetType === targetType && item.targetId === targetId
+    );
+  }
+}
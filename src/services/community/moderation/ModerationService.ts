@@ -0,0 +1,596 @@
+import { logger } from '@/lib/logger';
+import type { CrisisAssessment } from '@/services/crisis-detection';
+import type { Comment, CommunityPost, ModerationAction } from '../CommunityService';
+import type { CommentChanges, CommunityStore, CursorPage } from '../store';
+import { ContentClassification, ContentClassifier, ClassifiedContent } from './ContentClassifier';
+import {
+  AppealExistsError,
+  AppealStatus,
+  ModeratedContentType,
+  ModerationAppeal,
+  ModerationQueueItem,
+  ModerationStore,
+  QueueQuery,
+  QueueResolution,
+  ReportReason,
+} from './ModerationStore';
+
+export interface ModerationConfig {
+  hideAfterReports: number; // Reports from different members before reported content is hidden pending review
+}
+
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  hideAfterReports: 3,
+};
+
+/**
+ * Starts a safety escalation for an at-risk author, as SafetyEscalationService does
+ */
+export interface ContentEscalator {
+  evaluateEscalation(userId: string, sessionId: string, assessment: CrisisAssessment): Promise<{ id: string } | null>;
+}
+
+export interface Screening {
+  status: 'approved' | 'pending';
+  labels: string[];
+  crisis: boolean; // The author may be at risk; show them crisis resources
+  language?: string; // Language the content was written in, for those resources
+  escalationId?: string;
+}
+
+export type NewModerationAction = Pick<ModerationAction, 'moderatorId' | 'targetType' | 'targetId' | 'action' | 'reason' | 'duration'>;
+
+export interface ReportInput {
+  targetType: ModeratedContentType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface ReportOutcome {
+  reportId: string;
+  queueItemId: string;
+  hidden: boolean;
+}
+
+export interface QueueResolutionInput {
+  decision: QueueResolution;
+  reason: string;
+  banHours?: number; // Also ban the author; 0 bans permanently
+}
+
+export interface QueueEntry extends ModerationQueueItem {
+  content: {
+    text: string;
+    title?: string;
+    postId?: string; // For comments
+    groupId?: string;
+    moderationStatus: CommunityPost['moderationStatus'];
+    createdAt: Date;
+  } | null; // Null if the content has since been removed
+}
+
+export interface AppealEntry extends ModerationAppeal {
+  action: ModerationAction | null;
+}
+
+export class ContentRejectedError extends Error {
+  constructor(public reason: string) {
+    super(`Content rejected: ${reason}`);
+    this.name = 'ContentRejectedError';
+  }
+}
+
+export class UserBannedError extends Error {
+  constructor(public userId: string, public until?: Date) {
+    super(until ? `User ${userId} is banned until ${until.toISOString()}` : `User ${userId} is banned`);
+    this.name = 'UserBannedError';
+  }
+}
+
+export type ModerationErrorCode = 'not_found' | 'conflict' | 'forbidden' | 'invalid';
+
+export class ModerationError extends Error {
+  constructor(public code: ModerationErrorCode, message: string) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+// Response status for each code in the moderation routes
+export const MODERATION_ERROR_STATUS: Record<ModerationErrorCode, number> = {
+  not_found: 404,
+  conflict: 409,
+  forbidden: 403,
+  invalid: 400,
+};
+
+// Which actions make sense for each target
+const ALLOWED_ACTIONS: Record<ModerationAction['targetType'], ModerationAction['action'][]> = {
+  post: ['approve', 'reject', 'flag', 'delete', 'warn'],
+  comment: ['approve', 'reject', 'flag', 'delete', 'warn'],
+  user: ['ban', 'warn'],
+  group: ['approve', 'reject', 'delete'],
+};
+
+// Queue items close once content is approved or taken down; flags and warnings leave them open
+const CLOSING_ACTIONS: Partial<Record<ModerationAction['action'], QueueResolution>> = {
+  approve: 'approve',
+  reject: 'reject',
+  delete: 'delete',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Screens new posts and comments, takes member reports, keeps the review queue, and applies
+ * moderator actions including temporary bans and their appeals. Content that looks like a crisis
+ * disclosure is held for urgent review and escalated to the safety team rather than rejected.
+ */
+export class ModerationService {
+  private config: ModerationConfig;
+
+  constructor(
+    private community: CommunityStore,
+    private store: ModerationStore,
+    private classifier: ContentClassifier,
+    private escalator: ContentEscalator,
+    config: Partial<ModerationConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_MODERATION_CONFIG, ...config };
+  }
+
+  /**
+   * Decide whether new content is published straight away or waits in the queue. Throws
+   * ContentRejectedError for content that can never be published.
+   */
+  async screen(content: ClassifiedContent): Promise<Screening> {
+    const classification = await this.classifier.classify(content);
+
+    switch (classification.verdict) {
+      case 'reject':
+        throw new ContentRejectedError(classification.reason || 'Content not allowed');
+
+      case 'allow':
+        return { status: 'approved', labels: classification.labels, crisis: false };
+
+      case 'hold':
+        await this.store.upsertOpenItem({
+          targetType: content.targetType,
+          targetId: content.targetId,
+          authorId: content.authorId,
+          source: 'classifier',
+          labels: classification.labels,
+        });
+        return { status: 'pending', labels: classification.labels, crisis: false };
+
+      case 'crisis': {
+        const escalationId = await this.escalate(content, classification);
+        await this.store.upsertOpenItem({
+          targetType: content.targetType,
+          targetId: content.targetId,
+          authorId: content.authorId,
+          source: 'crisis',
+          labels: classification.labels,
+          urgent: true,
+          escalationId,
+        });
+
+        logger.warn({
+          targetType: content.targetType,
+          targetId: content.targetId,
+          authorId: content.authorId,
+          severity: classification.assessment?.severity,
+          escalationId
+        }, 'Community content held as a possible crisis disclosure');
+
+        return {
+          status: 'pending',
+          labels: classification.labels,
+          crisis: true,
+          language: classification.assessment?.language,
+          escalationId,
+        };
+      }
+    }
+  }
+
+  /**
+   * A member reports a post or comment. Once enough members have reported it, it is hidden until
+   * a moderator reviews it. A self-harm report is checked for a crisis straight away.
+   */
+  async report(reporterId: string, input: ReportInput): Promise<ReportOutcome> {
+    const target = await this.getContent(input.targetType, input.targetId);
+    if (!target) {
+      throw new ModerationError('not_found', `${input.targetType} ${input.targetId} not found`);
+    }
+
+    const reportId = this.generateId('report');
+    const added = await this.store.addReport({
+      id: reportId,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      reporterId,
+      reason: input.reason,
+      details: input.details,
+      createdAt: new Date(),
+    });
+    if (!added) {
+      throw new ModerationError('conflict', `You have already reported this ${input.targetType}`);
+    }
+
+    let labels: string[] = [input.reason];
+    let escalationId: string | undefined;
+    let urgent = false;
+
+    if (input.reason === 'self_harm') {
+      const content = { targetType: input.targetType, targetId: input.targetId, authorId: target.authorId, text: target.content };
+      const classification = await this.classifier.classify(content);
+      if (classification.verdict === 'crisis') {
+        escalationId = await this.escalate(content, classification);
+        labels = [...labels, ...classification.labels];
+        urgent = true;
+      }
+    }
+
+    const item = await this.store.upsertOpenItem({
+      targetType: input.targetType,
+      targetId: input.targetId,
+      authorId: target.authorId,
+      source: urgent ? 'crisis' : 'report',
+      labels,
+      reportCount: 1,
+      urgent,
+      escalationId,
+    });
+
+    const reports = await this.store.countReports(input.targetType, input.targetId);
+    const hidden = reports >= this.config.hideAfterReports;
+
+    if (target.moderationStatus === 'approved' || target.moderationStatus === 'flagged') {
+      await this.updateContent(input.targetType, input.targetId, { moderationStatus: hidden ? 'pending' : 'flagged' });
+    }
+
+    logger.info({
+      reportId,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      reason: input.reason,
+      reports,
+      hidden
+    }, 'Community content reported');
+
+    return { reportId, queueItemId: item.id, hidden: hidden || target.moderationStatus === 'pending' };
+  }
+
+  async takeAction(input: NewModerationAction): Promise<ModerationAction> {
+    if (!ALLOWED_ACTIONS[input.targetType].includes(input.action)) {
+      throw new ModerationError('invalid', `Cannot ${input.action} a ${input.targetType}`);
+    }
+    if (input.duration !== undefined && !(input.duration > 0)) {
+      throw new ModerationError('invalid', 'Ban duration must be a positive number of hours');
+    }
+    if (!await this.targetExists(input.targetType, input.targetId)) {
+      throw new ModerationError('not_found', `${input.targetType} ${input.targetId} not found`);
+    }
+
+    const createdAt = new Date();
+    const action: ModerationAction = {
+      ...input,
+      id: this.generateId('moderation'),
+      createdAt,
+      // A ban without a duration is permanent
+      expiresAt: input.action === 'ban' && input.duration
+        ? new Date(createdAt.getTime() + input.duration * HOUR_MS)
+        : undefined,
+      appealed: false,
+      appealResolved: false,
+    };
+
+    await this.community.recordModerationAction(action);
+    await this.apply(action);
+
+    const resolution = CLOSING_ACTIONS[action.action];
+    if (resolution && (action.targetType === 'post' || action.targetType === 'comment')) {
+      const open = await this.store.findOpenItem(action.targetType, action.targetId);
+      if (open) {
+        await this.store.resolveItem(open.id, resolution, action.moderatorId);
+      }
+    }
+
+    logger.info({
+      actionId: action.id,
+      moderatorId: action.moderatorId,
+      targetType: action.targetType,
+      action: action.action,
+      expiresAt: action.expiresAt?.toISOString()
+    }, 'Moderation action performed');
+
+    return action;
+  }
+
+  /**
+   * Decide a queue item, optionally banning its author as well
+   */
+  async resolve(itemId: string, moderatorId: string, input: QueueResolutionInput): Promise<{ item: ModerationQueueItem; actions: ModerationAction[] }> {
+    const item = await this.store.getItem(itemId);
+    if (!item) {
+      throw new ModerationError('not_found', `Queue item ${itemId} not found`);
+    }
+    if (item.status !== 'pending') {
+      throw new ModerationError('conflict', `Queue item ${itemId} has already been resolved`);
+    }
+
+    const actions: ModerationAction[] = [];
+    if (await this.getContent(item.targetType, item.targetId)) {
+      actions.push(await this.takeAction({
+        moderatorId,
+        targetType: item.targetType,
+        targetId: item.targetId,
+        action: input.decision,
+        reason: input.reason,
+      }));
+    }
+
+    if (input.banHours !== undefined) {
+      actions.push(await this.takeAction({
+        moderatorId,
+        targetType: 'user',
+        targetId: item.authorId,
+        action: 'ban',
+        reason: input.reason,
+        duration: input.banHours || undefined,
+      }));
+    }
+
+    // Already closed by the action on the content, unless the content has since been removed
+    const resolved = await this.store.resolveItem(item.id, input.decision, moderatorId)
+      ?? await this.store.getItem(item.id);
+
+    return { item: resolved!, actions };
+  }
+
+  async listQueue(query: QueueQuery = {}): Promise<CursorPage<QueueEntry> & { pending: number }> {
+    const [page, pending] = await Promise.all([this.store.listItems(query), this.store.countPending()]);
+
+    const items = await Promise.all(page.items.map(async item => {
+      const content = await this.getContent(item.targetType, item.targetId);
+      return {
+        ...item,
+        content: content && {
+          text: content.content,
+          title: 'title' in content ? content.title : undefined,
+          postId: 'postId' in content ? content.postId : undefined,
+          groupId: 'groupId' in content ? content.groupId : undefined,
+          moderationStatus: content.moderationStatus,
+          createdAt: content.createdAt,
+        },
+      };
+    }));
+
+    return { items, nextCursor: page.nextCursor, pending };
+  }
+
+  /**
+   * The user's current ban, if any. A ban ends when it expires or its appeal is upheld for the user.
+   */
+  async getActiveBan(userId: string, now: Date = new Date()): Promise<ModerationAction | null> {
+    const actions = await this.community.listModerationActions('user', userId);
+    const active = actions.filter(action => action.action === 'ban' && (!action.expiresAt || action.expiresAt > now));
+
+    // A permanent ban outlasts any temporary one
+    return active.find(action => !action.expiresAt)
+      ?? active.sort((a, b) => b.expiresAt!.getTime() - a.expiresAt!.getTime())[0]
+      ?? null;
+  }
+
+  async assertNotBanned(userId: string): Promise<void> {
+    const ban = await this.getActiveBan(userId);
+    if (ban) {
+      throw new UserBannedError(userId, ban.expiresAt);
+    }
+  }
+
+  /**
+   * Appeal an action taken against the user's own content or account. Each action can be appealed once.
+   */
+  async fileAppeal(userId: string, actionId: string, statement: string): Promise<ModerationAppeal> {
+    const action = await this.community.getModerationAction(actionId);
+    if (!action) {
+      throw new ModerationError('not_found', `Moderation action ${actionId} not found`);
+    }
+    if (action.action === 'approve') {
+      throw new ModerationError('invalid', 'Approvals cannot be appealed');
+    }
+    if (await this.subjectOf(action) !== userId) {
+      throw new ModerationError('forbidden', 'Only the member the action was taken against can appeal it');
+    }
+    if (!statement.trim()) {
+      throw new ModerationError('invalid', 'An appeal needs a statement');
+    }
+
+    const appeal: ModerationAppeal = {
+      id: this.generateId('appeal'),
+      actionId,
+      userId,
+      statement: statement.trim(),
+      status: 'pending',
+      createdAt: new Date(),
+    };
+
+    try {
+      await this.store.createAppeal(appeal);
+    } catch (error) {
+      if (error instanceof AppealExistsError) {
+        throw new ModerationError('conflict', 'This action has already been appealed');
+      }
+      throw error;
+    }
+    await this.community.updateModerationAction(actionId, { appealed: true });
+
+    logger.info({ appealId: appeal.id, actionId, userId }, 'Moderation appeal filed');
+    return appeal;
+  }
+
+  /**
+   * Decide an appeal. The moderator who took the action can't decide its appeal. Overturning ends
+   * a ban or restores the content.
+   */
+  async decideAppeal(
+    appealId: string,
+    moderatorId: string,
+    decision: { status: Exclude<AppealStatus, 'pending'>; note?: string }
+  ): Promise<ModerationAppeal> {
+    const appeal = await this.store.getAppeal(appealId);
+    if (!appeal) {
+      throw new ModerationError('not_found', `Appeal ${appealId} not found`);
+    }
+
+    const action = await this.community.getModerationAction(appeal.actionId);
+    if (!action) {
+      throw new ModerationError('not_found', `Moderation action ${appeal.actionId} not found`);
+    }
+    if (action.moderatorId === moderatorId) {
+      throw new ModerationError('forbidden', 'An appeal must be decided by a different moderator');
+    }
+
+    const decided = await this.store.decideAppeal(appealId, {
+      status: decision.status,
+      decidedBy: moderatorId,
+      decisionNote: decision.note,
+    });
+    if (!decided) {
+      throw new ModerationError('conflict', `Appeal ${appealId} has already been decided`);
+    }
+
+    if (decision.status === 'overturned') {
+      await this.reverse(action);
+    }
+    await this.community.updateModerationAction(action.id, { appealResolved: true });
+
+    logger.info({
+      appealId,
+      actionId: action.id,
+      moderatorId,
+      status: decision.status
+    }, 'Moderation appeal decided');
+
+    return decided;
+  }
+
+  async listAppeals(status?: AppealStatus): Promise<AppealEntry[]> {
+    const appeals = await this.store.listAppeals(status);
+    return Promise.all(appeals.map(async appeal => ({
+      ...appeal,
+      action: await this.community.getModerationAction(appeal.actionId),
+    })));
+  }
+
+  private async apply(action: ModerationAction): Promise<void> {
+    switch (action.targetType) {
+      case 'post':
+      case 'comment':
+        switch (action.action) {
+          case 'approve':
+            await this.updateContent(action.targetType, action.targetId, { moderationStatus: 'approved', isModerated: true });
+            break;
+          case 'reject':
+          case 'delete':
+            await this.updateContent(action.targetType, action.targetId, { moderationStatus: 'rejected', isModerated: true });
+            break;
+          case 'flag':
+            await this.updateContent(action.targetType, action.targetId, { moderationStatus: 'flagged' });
+            break;
+        }
+        break;
+
+      case 'user':
+        // Bans take effect through getActiveBan; warnings are kept on record
+        break;
+
+      case 'group':
+        await this.community.updateGroup(action.targetId, { isActive: action.action === 'approve' });
+        break;
+    }
+  }
+
+  private async reverse(action: ModerationAction): Promise<void> {
+    switch (action.targetType) {
+      case 'post':
+      case 'comment':
+        if (action.action !== 'warn') {
+          await this.updateContent(action.targetType, action.targetId, { moderationStatus: 'approved', isModerated: true });
+        }
+        break;
+
+      case 'user':
+        if (action.action === 'ban') {
+          await this.community.updateModerationAction(action.id, { expiresAt: new Date() });
+        }
+        break;
+
+      case 'group':
+        await this.community.updateGroup(action.targetId, { isActive: true });
+        break;
+    }
+  }
+
+  private async escalate(content: ClassifiedContent, classification: ContentClassification): Promise<string | undefined> {
+    if (!classification.assessment) return undefined;
+
+    try {
+      const escalation = await this.escalator.evaluateEscalation(
+        content.authorId,
+        classification.assessment.sessionId,
+        classification.assessment
+      );
+      return escalation?.id;
+    } catch (error) {
+      // The content is still held for urgent review, so a moderator sees it either way
+      logger.error({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        targetType: content.targetType,
+        targetId: content.targetId
+      }, 'Failed to escalate community crisis disclosure');
+      return undefined;
+    }
+  }
+
+  private async subjectOf(action: ModerationAction): Promise<string | null> {
+    switch (action.targetType) {
+      case 'user':
+        return action.targetId;
+      case 'group':
+        return (await this.community.getGroup(action.targetId))?.createdBy ?? null;
+      default:
+        return (await this.getContent(action.targetType, action.targetId))?.authorId ?? null;
+    }
+  }
+
+  private async targetExists(targetType: ModerationAction['targetType'], targetId: string): Promise<boolean> {
+    switch (targetType) {
+      case 'user':
+        return true; // Accounts live outside the community store
+      case 'group':
+        return !!await this.community.getGroup(targetId);
+      default:
+        return !!await this.getContent(targetType, targetId);
+    }
+  }
+
+  private getContent(targetType: ModeratedContentType, targetId: string): Promise<CommunityPost | Comment | null> {
+    return targetType === 'post' ? this.community.getPost(targetId) : this.community.getComment(targetId);
+  }
+
+  private async updateContent(targetType: ModeratedContentType, targetId: string, changes: CommentChanges): Promise<void> {
+    if (targetType === 'post') {
+      await this.community.updatePost(targetId, changes);
+    } else {
+      await this.community.updateComment(targetId, changes);
+    }
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,139 @@
+import type { CursorPage, PageQuery } from '../store';
+
+export type ModeratedContentType = 'post' | 'comment';
+
+export type QueueSource = 'classifier' | 'report' | 'crisis';
+
+export type QueueResolution = 'approve' | 'reject' | 'delete';
+
+/**
+ * A post or comment waiting for a moderator. A target has at most one pending item; later
+ * reports and flags are merged into it.
+ */
+export interface ModerationQueueItem {
+  id: string;
+  targetType: ModeratedContentType;
+  targetId: string;
+  authorId: string;
+  source: QueueSource; // What opened the item
+  labels: string[]; // Classifier categories and report reasons
+  reportCount: number;
+  urgent: boolean; // Crisis disclosures, reviewed first
+  escalationId?: string;
+  status: 'pending' | 'resolved';
+  resolution?: QueueResolution;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface NewQueueItem {
+  targetType: ModeratedContentType;
+  targetId: string;
+  authorId: string;
+  source: QueueSource;
+  labels: string[];
+  reportCount?: number; // Added to the open item's count
+  urgent?: boolean;
+  escalationId?: string;
+}
+
+export interface QueueQuery extends PageQuery {
+  status?: ModerationQueueItem['status']; // Pending when left out
+}
+
+export const REPORT_REASONS = ['harassment', 'spam', 'self_harm', 'misinformation', 'other'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export interface ContentReport {
+  id: string;
+  targetType: ModeratedContentType;
+  targetId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+  createdAt: Date;
+}
+
+export type AppealStatus = 'pending' | 'upheld' | 'overturned';
+
+export interface ModerationAppeal {
+  id: string;
+  actionId: string;
+  userId: string;
+  statement: string;
+  status: AppealStatus;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionNote?: string;
+  createdAt: Date;
+}
+
+export interface AppealDecision {
+  status: Exclude<AppealStatus, 'pending'>;
+  decidedBy: string;
+  decisionNote?: string;
+}
+
+export class AppealExistsError extends Error {
+  constructor(public actionId: string) {
+    super(`Moderation action ${actionId} has already been appealed`);
+    this.name = 'AppealExistsError';
+  }
+}
+
+/**
+ * Durable moderation state: the review queue, user reports and appeals. Moderation actions
+ * themselves are kept in the community store alongside what they act on.
+ */
+export interface ModerationStore {
+  /**
+   * Open an item for the target, or merge into its pending one: labels are combined, report
+   * counts added, and an urgent or crisis flag is never cleared.
+   */
+  upsertOpenItem(item: NewQueueItem): Promise<ModerationQueueItem>;
+  getItem(itemId: string): Promise<ModerationQueueItem | null>;
+  findOpenItem(targetType: ModeratedContentType, targetId: string): Promise<ModerationQueueItem | null>;
+
+  /**
+   * Urgent items first, then oldest first
+   */
+  listItems(query: QueueQuery): Promise<CursorPage<ModerationQueueItem>>;
+
+  /**
+   * Close a pending item. Returns null if it doesn't exist or was already resolved.
+   */
+  resolveItem(itemId: string, resolution: QueueResolution, resolvedBy: string): Promise<ModerationQueueItem | null>;
+  countPending(): Promise<number>;
+
+  /**
+   * False if the reporter has already reported the target
+   */
+  addReport(report: ContentReport): Promise<boolean>;
+  countReports(targetType: ModeratedContentType, targetId: string): Promise<number>;
+
+  /**
+   * Throws AppealExistsError if the action has already been appealed
+   */
+  createAppeal(appeal: ModerationAppeal): Promise<void>;
+  getAppeal(appealId: string): Promise<ModerationAppeal | null>;
+
+  /**
+   * Oldest first
+   */
+  listAppeals(status?: AppealStatus): Promise<ModerationAppeal[]>;
+
+  /**
+   * Record the decision on a pending appeal. Returns null if it doesn't exist or was already decided.
+   */
+  decideAppeal(appealId: string, decision: AppealDecision): Promise<ModerationAppeal | null>;
+}
+
+export function openTargetKey(targetType: ModeratedContentType, targetId: string): string {
+  return `${targetType}:${targetId}`;
+}
+
+export function mergeLabels(existing: string[], added: string[]): string[] {
+  return Array.from(new Set([...existing, ...added]));
+}
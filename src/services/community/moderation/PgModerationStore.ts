@@ -0,0 +1,223 @@
+import type {
+  CommunityModerationAppeal as AppealRow,
+  CommunityModerationQueueItem as QueueRow,
+} from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type { CursorPage } from '../store';
+import { pageSize } from '../store/CommunityStore';
+import {
+  AppealDecision,
+  AppealExistsError,
+  AppealStatus,
+  ContentReport,
+  ModeratedContentType,
+  ModerationAppeal,
+  ModerationQueueItem,
+  ModerationStore,
+  NewQueueItem,
+  QueueQuery,
+  QueueResolution,
+  mergeLabels,
+  openTargetKey,
+} from './ModerationStore';
+
+function formatItem(row: QueueRow): ModerationQueueItem {
+  return {
+    id: row.id,
+    targetType: row.targetType as ModeratedContentType,
+    targetId: row.targetId,
+    authorId: row.authorId,
+    source: row.source as ModerationQueueItem['source'],
+    labels: row.labels,
+    reportCount: row.reportCount,
+    urgent: row.urgent,
+    escalationId: row.escalationId ?? undefined,
+    status: row.status as ModerationQueueItem['status'],
+    resolution: (row.resolution as QueueResolution | null) ?? undefined,
+    resolvedBy: row.resolvedBy ?? undefined,
+    resolvedAt: row.resolvedAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+function formatAppeal(row: AppealRow): ModerationAppeal {
+  return {
+    id: row.id,
+    actionId: row.actionId,
+    userId: row.userId,
+    statement: row.statement,
+    status: row.status as AppealStatus,
+    decidedBy: row.decidedBy ?? undefined,
+    decidedAt: row.decidedAt ?? undefined,
+    decisionNote: row.decisionNote ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Store backed by the `community_moderation_queue`, `community_reports` and
+ * `community_moderation_appeals` tables. The unique `openTargetId` keeps one pending item per target.
+ */
+export class PgModerationStore implements ModerationStore {
+  async upsertOpenItem(item: NewQueueItem): Promise<ModerationQueueItem> {
+    const prisma = await loadPrisma();
+    const openTargetId = openTargetKey(item.targetType, item.targetId);
+
+    const merge = () => prisma.$transaction(async tx => {
+      const open = await tx.communityModerationQueueItem.findUnique({ where: { openTargetId } });
+      if (!open) {
+        return tx.communityModerationQueueItem.create({
+          data: {
+            targetType: item.targetType,
+            targetId: item.targetId,
+            openTargetId,
+            authorId: item.authorId,
+            source: item.source,
+            labels: mergeLabels([], item.labels),
+            reportCount: item.reportCount ?? 0,
+            urgent: !!item.urgent,
+            escalationId: item.escalationId ?? null,
+          },
+        });
+      }
+
+      return tx.communityModerationQueueItem.update({
+        where: { id: open.id },
+        data: {
+          labels: mergeLabels(open.labels, item.labels),
+          reportCount: { increment: item.reportCount ?? 0 },
+          urgent: open.urgent || !!item.urgent,
+          escalationId: open.escalationId ?? item.escalationId ?? null,
+          ...(item.source === 'crisis' && { source: 'crisis' }),
+        },
+      });
+    });
+
+    try {
+      return formatItem(await merge());
+    } catch (error) {
+      // Two flags for the same target at once: the second merges into the item the first created
+      if ((error as { code?: string }).code === 'P2002') {
+        return formatItem(await merge());
+      }
+      throw error;
+    }
+  }
+
+  async getItem(itemId: string): Promise<ModerationQueueItem | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityModerationQueueItem.findUnique({ where: { id: itemId } });
+    return row ? formatItem(row) : null;
+  }
+
+  async findOpenItem(targetType: ModeratedContentType, targetId: string): Promise<ModerationQueueItem | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityModerationQueueItem.findUnique({
+      where: { openTargetId: openTargetKey(targetType, targetId) },
+    });
+    return row ? formatItem(row) : null;
+  }
+
+  async listItems(query: QueueQuery): Promise<CursorPage<ModerationQueueItem>> {
+    const prisma = await loadPrisma();
+    const limit = pageSize(query.limit);
+    const rows = await prisma.communityModerationQueueItem.findMany({
+      where: { status: query.status ?? 'pending' },
+      orderBy: [{ urgent: 'desc' }, { createdAt: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const page = rows.slice(0, limit);
+    return {
+      items: page.map(formatItem),
+      nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  async resolveItem(itemId: string, resolution: QueueResolution, resolvedBy: string): Promise<ModerationQueueItem | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityModerationQueueItem.updateMany({
+      where: { id: itemId, status: 'pending' },
+      data: { status: 'resolved', openTargetId: null, resolution, resolvedBy, resolvedAt: new Date() },
+    });
+    return result.count === 0 ? null : this.getItem(itemId);
+  }
+
+  async countPending(): Promise<number> {
+    const prisma = await loadPrisma();
+    return prisma.communityModerationQueueItem.count({ where: { status: 'pending' } });
+  }
+
+  async addReport(report: ContentReport): Promise<boolean> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityReport.createMany({
+      data: [{
+        id: report.id,
+        targetType: report.targetType,
+        targetId: report.targetId,
+        reporterId: report.reporterId,
+        reason: report.reason,
+        details: report.details ?? null,
+        createdAt: report.createdAt,
+      }],
+      skipDuplicates: true,
+    });
+    return result.count > 0;
+  }
+
+  async countReports(targetType: ModeratedContentType, targetId: string): Promise<number> {
+    const prisma = await loadPrisma();
+    return prisma.communityReport.count({ where: { targetType, targetId } });
+  }
+
+  async createAppeal(appeal: ModerationAppeal): Promise<void> {
+    const prisma = await loadPrisma();
+    try {
+      await prisma.communityModerationAppeal.create({
+        data: {
+          id: appeal.id,
+          actionId: appeal.actionId,
+          userId: appeal.userId,
+          statement: appeal.statement,
+          status: appeal.status,
+          createdAt: appeal.createdAt,
+        },
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        throw new AppealExistsError(appeal.actionId);
+      }
+      throw error;
+    }
+  }
+
+  async getAppeal(appealId: string): Promise<ModerationAppeal | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityModerationAppeal.findUnique({ where: { id: appealId } });
+    return row ? formatAppeal(row) : null;
+  }
+
+  async listAppeals(status?: AppealStatus): Promise<ModerationAppeal[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.communityModerationAppeal.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(formatAppeal);
+  }
+
+  async decideAppeal(appealId: string, decision: AppealDecision): Promise<ModerationAppeal | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityModerationAppeal.updateMany({
+      where: { id: appealId, status: 'pending' },
+      data: {
+        status: decision.status,
+        decidedBy: decision.decidedBy,
+        decisionNote: decision.decisionNote ?? null,
+        decidedAt: new Date(),
+      },
+    });
+    return result.count === 0 ? null : this.getAppeal(appealId);
+  }
+}
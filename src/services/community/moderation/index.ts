@@ -0,0 +1,91 @@
+import { getCrisisDetectionEngine } from '@/services/crisis-detection';
+import { getSafetyEscalationService } from '@/services/safety/SafetyEscalationService';
+import { CommunityStore, getCommunityStore } from '../store';
+import { ContentClassifier } from './ContentClassifier';
+import { InMemoryModerationStore } from './InMemoryModerationStore';
+import { ModerationService } from './ModerationService';
+import { ModerationStore } from './ModerationStore';
+import { PgModerationStore } from './PgModerationStore';
+
+export type {
+  AppealDecision,
+  AppealStatus,
+  ContentReport,
+  ModeratedContentType,
+  ModerationAppeal,
+  ModerationQueueItem,
+  ModerationStore,
+  NewQueueItem,
+  QueueQuery,
+  QueueResolution,
+  QueueSource,
+  ReportReason,
+} from './ModerationStore';
+export { AppealExistsError, REPORT_REASONS } from './ModerationStore';
+export { InMemoryModerationStore } from './InMemoryModerationStore';
+export { PgModerationStore } from './PgModerationStore';
+export { ContentClassifier, MAX_CONTENT_LENGTH } from './ContentClassifier';
+export type { ClassifiedContent, ContentClassification, ContentVerdict } from './ContentClassifier';
+export {
+  ContentRejectedError,
+  DEFAULT_MODERATION_CONFIG,
+  MODERATION_ERROR_STATUS,
+  ModerationError,
+  ModerationService,
+  UserBannedError,
+} from './ModerationService';
+export type {
+  AppealEntry,
+  ContentEscalator,
+  ModerationConfig,
+  ModerationErrorCode,
+  NewModerationAction,
+  QueueEntry,
+  QueueResolutionInput,
+  ReportInput,
+  ReportOutcome,
+  Screening,
+} from './ModerationService';
+
+let defaultStore: ModerationStore | null = null;
+let defaultService: ModerationService | null = null;
+
+/**
+ * Store selected by MODERATION_STORE ('postgres' | 'memory'). Defaults to Postgres, except under test
+ * where the in-memory store is used.
+ */
+export function getModerationStore(): ModerationStore {
+  if (!defaultStore) {
+    const backend = process.env.MODERATION_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryModerationStore() : new PgModerationStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Moderation over the given community store, screening with the shared crisis detection engine and
+ * escalating through the shared safety escalation service
+ */
+export function createModerationService(communityStore: CommunityStore, store: ModerationStore = getModerationStore()): ModerationService {
+  const threshold = parseInt(process.env.COMMUNITY_REPORT_HIDE_THRESHOLD || '', 10);
+
+  return new ModerationService(
+    communityStore,
+    store,
+    new ContentClassifier(getCrisisDetectionEngine()),
+    getSafetyEscalationService(),
+    Number.isFinite(threshold) && threshold > 0 ? { hideAfterReports: threshold } : {}
+  );
+}
+
+/**
+ * Shared service for this process, on the shared community and moderation stores
+ */
+export function getModerationService(): ModerationService {
+  if (!defaultService) {
+    defaultService = createModerationService(getCommunityStore());
+  }
+  return defaultService;
+}
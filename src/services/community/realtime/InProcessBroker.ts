@@ -0,0 +1,41 @@
+import { logger } from '@/lib/logger';
+import { RealtimeBroker, RealtimeEvent, RealtimeListener } from './RealtimeBroker';
+
+/**
+ * Delivers events to subscribers in this process only. Enough for a single instance and for tests.
+ */
+export class InProcessBroker implements RealtimeBroker {
+  private listeners: Map<string, Set<RealtimeListener>> = new Map();
+
+  async publish(event: RealtimeEvent): Promise<void> {
+    for (const listener of this.listeners.get(event.channel) ?? []) {
+      // One broken connection must not stop delivery to the rest
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({
+          error: error instanceof Error ? error.message : 'Unknown error',
+          channel: event.channel,
+          type: event.type
+        }, 'Realtime listener failed');
+      }
+    }
+  }
+
+  async subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>> {
+    const listeners = this.listeners.get(channel) ?? new Set<RealtimeListener>();
+    listeners.add(listener);
+    this.listeners.set(channel, listeners);
+
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(channel) === listeners) {
+        this.listeners.delete(channel);
+      }
+    };
+  }
+
+  subscriberCount(channel: string): number {
+    return this.listeners.get(channel)?.size ?? 0;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Who is connected to each channel, counting connections so a member with two tabs open only goes
+ * offline when the last one closes. Tracks this process's connections only.
+ */
+export class PresenceTracker {
+  private connections: Map<string, Map<string, number>> = new Map();
+
+  /**
+   * True when this is the member's first connection to the channel
+   */
+  join(channel: string, userId: string): boolean {
+    const users = this.connections.get(channel) ?? new Map<string, number>();
+    const count = users.get(userId) ?? 0;
+    users.set(userId, count + 1);
+    this.connections.set(channel, users);
+    return count === 0;
+  }
+
+  /**
+   * True when this was the member's last connection to the channel
+   */
+  leave(channel: string, userId: string): boolean {
+    const users = this.connections.get(channel);
+    const count = users?.get(userId) ?? 0;
+    if (!users || count === 0) return false;
+
+    if (count > 1) {
+      users.set(userId, count - 1);
+      return false;
+    }
+
+    users.delete(userId);
+    if (users.size === 0) {
+      this.connections.delete(channel);
+    }
+    return true;
+  }
+
+  online(channel: string): string[] {
+    return Array.from(this.connections.get(channel)?.keys() ?? []);
+  }
+}
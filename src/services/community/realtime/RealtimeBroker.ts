@@ -0,0 +1,52 @@
+export type RealtimeEventType =
+  | 'post.created'
+  | 'comment.created'
+  | 'reaction'
+  | 'typing'
+  | 'presence'
+  | 'session.message';
+
+export interface RealtimeEvent<T = unknown> {
+  type: RealtimeEventType;
+  channel: string;
+  data: T;
+  at: string; // ISO timestamp, so events cross process boundaries as plain JSON
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * Pub/sub for community events. The in-process broker only reaches subscribers in the same process;
+ * a Redis-backed broker implementing this interface fans events out across instances.
+ */
+export interface RealtimeBroker {
+  publish(event: RealtimeEvent): Promise<void>;
+
+  /**
+   * Resolves once the subscription is live, with a function that ends it
+   */
+  subscribe(channel: string, listener: RealtimeListener): Promise<() => Promise<void>>;
+}
+
+// Posts in public groups and outside any group
+export const FEED_CHANNEL = 'feed';
+
+export type ParsedChannel =
+  | { kind: 'feed' }
+  | { kind: 'group'; id: string }
+  | { kind: 'session'; id: string };
+
+export const groupChannel = (groupId: string) => `group:${groupId}`;
+
+export const sessionChannel = (sessionId: string) => `session:${sessionId}`;
+
+/**
+ * `feed`, `group:<id>` or `session:<id>`; null for anything else
+ */
+export function parseChannel(channel: string): ParsedChannel | null {
+  if (channel === FEED_CHANNEL) return { kind: 'feed' };
+
+  const match = /^(group|session):([\w-]{1,100})$/.exec(channel);
+  if (!match) return null;
+  return { kind: match[1] as 'group' | 'session', id: match[2] };
+}
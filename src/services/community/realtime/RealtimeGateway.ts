@@ -0,0 +1,172 @@
+import { logger } from '@/lib/logger';
+import type { CommunityStore } from '../store';
+import type { PresenceEventData, TypingEventData } from './events';
+import { PresenceTracker } from './PresenceTracker';
+import { RealtimeBroker, RealtimeEvent, RealtimeEventType, parseChannel } from './RealtimeBroker';
+
+export class ChannelAccessError extends Error {
+  constructor(public channel: string) {
+    super(`Not allowed to subscribe to ${channel}`);
+    this.name = 'ChannelAccessError';
+  }
+}
+
+export interface RealtimeConnection {
+  // Members online in each subscribed group or session when the connection opened
+  online: Record<string, string[]>;
+
+  /**
+   * Call periodically while the connection is open; keeps the member's lastActive current
+   */
+  heartbeat(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface RealtimeGatewayConfig {
+  touchIntervalMs: number; // How often a connected member's lastActive is written
+}
+
+export const DEFAULT_REALTIME_CONFIG: RealtimeGatewayConfig = {
+  touchIntervalMs: 5 * 60 * 1000,
+};
+
+/**
+ * Authenticated subscriptions to community channels. The feed is open to every signed-in member,
+ * public groups too; other groups only to their members, moderators and creator, and sessions only to
+ * their participants and moderator. Presence and typing are shown in groups and sessions, except for
+ * members whose profile is anonymous.
+ */
+export class RealtimeGateway {
+  private presence = new PresenceTracker();
+  private lastTouched: Map<string, number> = new Map();
+  private config: RealtimeGatewayConfig;
+
+  constructor(
+    private store: CommunityStore,
+    private broker: RealtimeBroker,
+    config: Partial<RealtimeGatewayConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_REALTIME_CONFIG, ...config };
+  }
+
+  async authorize(userId: string, channel: string): Promise<boolean> {
+    const parsed = parseChannel(channel);
+    if (!parsed) return false;
+
+    switch (parsed.kind) {
+      case 'feed':
+        return true;
+
+      case 'group': {
+        const group = await this.store.getGroup(parsed.id);
+        if (!group || !group.isActive) return false;
+        return group.privacyLevel === 'public'
+          || group.createdBy === userId
+          || group.moderators.includes(userId)
+          || this.store.isGroupMember(parsed.id, userId);
+      }
+
+      case 'session': {
+        const session = await this.store.getSession(parsed.id);
+        return !!session && (session.participants.includes(userId) || session.moderatedBy === userId);
+      }
+    }
+  }
+
+  /**
+   * Subscribes `send` to every channel, or throws ChannelAccessError for the first one the member
+   * may not see. Announces the member in groups and sessions they weren't already connected to.
+   */
+  async connect(
+    userId: string,
+    channels: string[],
+    send: (event: RealtimeEvent) => void
+  ): Promise<RealtimeConnection> {
+    const unique = Array.from(new Set(channels));
+    for (const channel of unique) {
+      if (!await this.authorize(userId, channel)) {
+        throw new ChannelAccessError(channel);
+      }
+    }
+
+    const unsubscribes = await Promise.all(unique.map(channel => this.broker.subscribe(channel, send)));
+    const visible = await this.isVisible(userId);
+    const presenceChannels = visible ? unique.filter(channel => parseChannel(channel)!.kind !== 'feed') : [];
+
+    for (const channel of presenceChannels) {
+      if (this.presence.join(channel, userId)) {
+        await this.publish<PresenceEventData>(channel, 'presence', { userId, online: true });
+      }
+    }
+
+    const online: Record<string, string[]> = {};
+    for (const channel of unique.filter(channel => parseChannel(channel)!.kind !== 'feed')) {
+      online[channel] = this.presence.online(channel);
+    }
+
+    await this.touch(userId);
+    logger.debug({ userId, channels: unique }, 'Realtime connection opened');
+
+    let closed = false;
+    return {
+      online,
+      heartbeat: () => this.touch(userId),
+      close: async () => {
+        if (closed) return;
+        closed = true;
+
+        await Promise.all(unsubscribes.map(unsubscribe => unsubscribe()));
+        for (const channel of presenceChannels) {
+          if (this.presence.leave(channel, userId)) {
+            await this.publish<PresenceEventData>(channel, 'presence', { userId, online: false });
+          }
+        }
+        logger.debug({ userId }, 'Realtime connection closed');
+      },
+    };
+  }
+
+  /**
+   * Typing indicators for a group or session the member may see. False when the member isn't allowed
+   * to post one there.
+   */
+  async typing(userId: string, channel: string, typing: boolean): Promise<boolean> {
+    if (parseChannel(channel)?.kind === 'feed' || !await this.authorize(userId, channel)) {
+      return false;
+    }
+
+    if (await this.isVisible(userId)) {
+      await this.publish<TypingEventData>(channel, 'typing', { userId, typing });
+    }
+    return true;
+  }
+
+  online(channel: string): string[] {
+    return this.presence.online(channel);
+  }
+
+  private async isVisible(userId: string): Promise<boolean> {
+    const profile = await this.store.getProfile(userId);
+    return profile?.anonymityLevel !== 'anonymous';
+  }
+
+  // Writes lastActive at most once per interval, however many connections the member has open
+  private async touch(userId: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastTouched.get(userId) ?? 0) < this.config.touchIntervalMs) return;
+
+    this.lastTouched.set(userId, now);
+    try {
+      await this.store.touchProfile(userId, new Date(now));
+    } catch (error) {
+      logger.warn({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId
+      }, 'Failed to update last active time');
+    }
+  }
+
+  private publish<T>(channel: string, type: RealtimeEventType, data: T): Promise<void> {
+    return this.broker.publish({ type, channel, data, at: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,35 @@
+import type { Comment, CommunityPost, PeerSessionMessage, ReactionKind } from '../CommunityService';
+import { toCommentResource, toPostResource } from '../api/serializers';
+
+// Event payloads are the same resources the community routes return, so clients merge them into
+// what they already fetched. Everyone on a channel gets the same payload, so anonymous authors are
+// never named.
+
+export function postEventData(post: CommunityPost) {
+  return toPostResource(post, null, true);
+}
+
+export function commentEventData(comment: Comment) {
+  return toCommentResource(comment, null);
+}
+
+export interface ReactionEventData {
+  targetType: 'post' | 'comment';
+  targetId: string;
+  postId: string;
+  userId?: string; // Left out for members with anonymous profiles
+  kind: ReactionKind;
+  likes: number;
+}
+
+export interface TypingEventData {
+  userId: string;
+  typing: boolean;
+}
+
+export interface PresenceEventData {
+  userId: string;
+  online: boolean;
+}
+
+export type SessionMessageEventData = PeerSessionMessage;
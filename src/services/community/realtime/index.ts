@@ -0,0 +1,43 @@
+import { getCommunityStore } from '../store';
+import { InProcessBroker } from './InProcessBroker';
+import { RealtimeBroker } from './RealtimeBroker';
+import { RealtimeGateway } from './RealtimeGateway';
+
+export type {
+  ParsedChannel,
+  RealtimeBroker,
+  RealtimeEvent,
+  RealtimeEventType,
+  RealtimeListener,
+} from './RealtimeBroker';
+export { FEED_CHANNEL, groupChannel, parseChannel, sessionChannel } from './RealtimeBroker';
+export { InProcessBroker } from './InProcessBroker';
+export { PresenceTracker } from './PresenceTracker';
+export { ChannelAccessError, DEFAULT_REALTIME_CONFIG, RealtimeGateway } from './RealtimeGateway';
+export type { RealtimeConnection, RealtimeGatewayConfig } from './RealtimeGateway';
+export { commentEventData, postEventData } from './events';
+export type { PresenceEventData, ReactionEventData, SessionMessageEventData, TypingEventData } from './events';
+
+let defaultBroker: RealtimeBroker | null = null;
+let defaultGateway: RealtimeGateway | null = null;
+
+/**
+ * Broker for this process. In-process only, so every instance behind a load balancer only sees its
+ * own events; swap in a Redis-backed RealtimeBroker here to fan out across instances.
+ */
+export function getRealtimeBroker(): RealtimeBroker {
+  if (!defaultBroker) {
+    defaultBroker = new InProcessBroker();
+  }
+  return defaultBroker;
+}
+
+/**
+ * Shared gateway for this process, on the shared community store and broker
+ */
+export function getRealtimeGateway(): RealtimeGateway {
+  if (!defaultGateway) {
+    defaultGateway = new RealtimeGateway(getCommunityStore(), getRealtimeBroker());
+  }
+  return defaultGateway;
+}
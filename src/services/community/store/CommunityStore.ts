@@ -0,0 +1,167 @@
+import type {
+  Comment,
+  CommunityEvent,
+  CommunityPost,
+  ModerationAction,
+  PeerSessionMessage,
+  PeerSupportSession,
+  Reaction,
+  SupportGroup,
+  SupportGroupCategory,
+  UserConnection,
+  UserProfile,
+} from '../CommunityService';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * `cursor` is the `nextCursor` of the previous page; leave it out for the first page
+ */
+export interface PageQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+type ModerationStatus = CommunityPost['moderationStatus'];
+
+export interface PostQuery extends PageQuery {
+  groupId?: string;
+  excludeGroupIds?: string[]; // Posts outside any group are always kept
+  statuses?: ModerationStatus[]; // Every status when left out
+}
+
+export interface CommentQuery extends PageQuery {
+  statuses?: ModerationStatus[];
+}
+
+// Groups come back with memberCount filled in from their memberships
+export type NewSupportGroup = Omit<SupportGroup, 'memberCount'>;
+
+export type JoinResult = 'joined' | 'already_member' | 'full';
+
+export type PostChanges = Partial<Pick<CommunityPost, 'moderationStatus' | 'isModerated' | 'isPinned'>>;
+export type CommentChanges = Partial<Pick<Comment, 'moderationStatus' | 'isModerated'>>;
+export type GroupChanges = Partial<Pick<SupportGroup, 'isActive'>>;
+export type ModerationActionChanges = Partial<Pick<ModerationAction, 'appealed' | 'appealResolved' | 'expiresAt'>>;
+
+export interface CommunityCounts {
+  users: number;
+  activeUsers: number; // Active since `activeSince`
+  groups: number;
+  posts: number;
+  comments: number;
+}
+
+export class ConnectionExistsError extends Error {
+  constructor(public userId: string, public connectedUserId: string) {
+    super(`User ${userId} is already connected to ${connectedUserId}`);
+    this.name = 'ConnectionExistsError';
+  }
+}
+
+/**
+ * Durable community state: profiles, support groups and their members, posts, comments and
+ * reactions, connections, peer support sessions and their messages, events and moderation actions.
+ */
+export interface CommunityStore {
+  saveProfile(profile: UserProfile): Promise<void>;
+  getProfile(userId: string): Promise<UserProfile | null>;
+  listActiveProfiles(): Promise<UserProfile[]>;
+
+  /**
+   * Record that the member was seen; does nothing without a profile
+   */
+  touchProfile(userId: string, lastActive: Date): Promise<void>;
+
+  createGroup(group: NewSupportGroup): Promise<SupportGroup>;
+  getGroup(groupId: string): Promise<SupportGroup | null>;
+  listGroups(category?: SupportGroupCategory): Promise<SupportGroup[]>;
+
+  /**
+   * Add the user to the group unless it already has `maxMembers`. Joining twice is a no-op.
+   */
+  addGroupMember(groupId: string, userId: string, maxMembers?: number): Promise<JoinResult>;
+  isGroupMember(groupId: string, userId: string): Promise<boolean>;
+  updateGroup(groupId: string, changes: GroupChanges): Promise<SupportGroup | null>;
+
+  createPost(post: CommunityPost): Promise<void>;
+  getPost(postId: string): Promise<CommunityPost | null>;
+  updatePost(postId: string, changes: PostChanges): Promise<CommunityPost | null>;
+
+  /**
+   * Newest first
+   */
+  listPosts(query: PostQuery): Promise<CursorPage<CommunityPost>>;
+
+  /**
+   * Adds the comment and counts it in the post's replies together
+   */
+  createComment(comment: Comment): Promise<void>;
+  getComment(commentId: string): Promise<Comment | null>;
+  updateComment(commentId: string, changes: CommentChanges): Promise<Comment | null>;
+
+  /**
+   * Oldest first, so a thread reads top to bottom
+   */
+  listComments(postId: string, query: CommentQuery): Promise<CursorPage<Comment>>;
+
+  /**
+   * Record the reaction and count it in the target's likes together. Returns the new count, or
+   * null if the member has already reacted to the target.
+   */
+  addReaction(reaction: Reaction): Promise<number | null>;
+
+  /**
+   * Save both sides of a new connection. Throws ConnectionExistsError if the users are already connected.
+   */
+  createConnection(connection: UserConnection, reciprocal: UserConnection): Promise<void>;
+  listConnections(userId: string): Promise<UserConnection[]>;
+
+  createSession(session: PeerSupportSession): Promise<void>;
+  getSession(sessionId: string): Promise<PeerSupportSession | null>;
+  createSessionMessage(message: PeerSessionMessage): Promise<void>;
+
+  /**
+   * Newest first
+   */
+  listSessionMessages(sessionId: string, query: PageQuery): Promise<CursorPage<PeerSessionMessage>>;
+
+  createEvent(event: CommunityEvent): Promise<void>;
+  getEvent(eventId: string): Promise<CommunityEvent | null>;
+
+  /**
+   * RSVP for the event, unless it already has `maxParticipants`. The check and the insert are atomic.
+   */
+  addEventParticipant(eventId: string, userId: string, maxParticipants?: number): Promise<JoinResult>;
+
+  /**
+   * False if the member hadn't RSVPed
+   */
+  removeEventParticipant(eventId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Soonest first. With `startingAfter`, only published events that haven't started.
+   */
+  listEvents(startingAfter?: Date): Promise<CommunityEvent[]>;
+
+  recordModerationAction(action: ModerationAction): Promise<void>;
+  getModerationAction(actionId: string): Promise<ModerationAction | null>;
+  updateModerationAction(actionId: string, changes: ModerationActionChanges): Promise<ModerationAction | null>;
+
+  /**
+   * Oldest first
+   */
+  listModerationActions(targetType: ModerationAction['targetType'], targetId: string): Promise<ModerationAction[]>;
+
+  countAll(activeSince: Date): Promise<CommunityCounts>;
+}
+
+export function pageSize(limit?: number): number {
+  return Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
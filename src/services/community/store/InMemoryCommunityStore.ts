@@ -0,0 +1,315 @@
+import type {
+  Comment,
+  CommunityEvent,
+  CommunityPost,
+  ModerationAction,
+  PeerSessionMessage,
+  PeerSupportSession,
+  Reaction,
+  SupportGroup,
+  SupportGroupCategory,
+  UserConnection,
+  UserProfile,
+} from '../CommunityService';
+import {
+  CommentChanges,
+  CommentQuery,
+  CommunityCounts,
+  CommunityStore,
+  ConnectionExistsError,
+  CursorPage,
+  GroupChanges,
+  JoinResult,
+  ModerationActionChanges,
+  NewSupportGroup,
+  PageQuery,
+  PostChanges,
+  PostQuery,
+  pageSize,
+} from './CommunityStore';
+
+// Items after the cursor, plus whether any remain. An unknown cursor gives an empty page, as in Postgres.
+function paginate<T extends { id: string }>(sorted: T[], query: PageQuery): CursorPage<T> {
+  const limit = pageSize(query.limit);
+  const start = query.cursor ? sorted.findIndex(item => item.id === query.cursor) + 1 : 0;
+  if (query.cursor && start === 0) {
+    return { items: [], nextCursor: null };
+  }
+
+  const items = sorted.slice(start, start + limit);
+  const hasMore = sorted.length > start + limit;
+  return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+}
+
+function byCreatedAt(a: { createdAt: Date; id: string }, b: { createdAt: Date; id: string }): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * Process-local store used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryCommunityStore implements CommunityStore {
+  private profiles: Map<string, UserProfile> = new Map();
+  private groups: Map<string, NewSupportGroup> = new Map();
+  private members: Map<string, Set<string>> = new Map();
+  private posts: Map<string, CommunityPost> = new Map();
+  private comments: Map<string, Comment[]> = new Map();
+  private connections: Map<string, UserConnection[]> = new Map();
+  private sessions: Map<string, PeerSupportSession> = new Map();
+  private sessionMessages: Map<string, PeerSessionMessage[]> = new Map();
+  private reactions: Map<string, Reaction> = new Map();
+  private events: Map<string, CommunityEvent> = new Map();
+  private moderationActions: ModerationAction[] = [];
+
+  async saveProfile(profile: UserProfile): Promise<void> {
+    this.profiles.set(profile.userId, structuredClone(profile));
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const profile = this.profiles.get(userId);
+    return profile ? structuredClone(profile) : null;
+  }
+
+  async listActiveProfiles(): Promise<UserProfile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => profile.isActive)
+      .map(profile => structuredClone(profile));
+  }
+
+  async touchProfile(userId: string, lastActive: Date): Promise<void> {
+    const profile = this.profiles.get(userId);
+    if (profile) {
+      profile.lastActive = lastActive;
+    }
+  }
+
+  async createGroup(group: NewSupportGroup): Promise<SupportGroup> {
+    this.groups.set(group.id, structuredClone(group));
+    this.members.set(group.id, new Set());
+    return this.withMemberCount(group);
+  }
+
+  async getGroup(groupId: string): Promise<SupportGroup | null> {
+    const group = this.groups.get(groupId);
+    return group ? this.withMemberCount(group) : null;
+  }
+
+  async listGroups(category?: SupportGroupCategory): Promise<SupportGroup[]> {
+    return Array.from(this.groups.values())
+      .filter(group => !category || group.category === category)
+      .map(group => this.withMemberCount(group));
+  }
+
+  async addGroupMember(groupId: string, userId: string, maxMembers?: number): Promise<JoinResult> {
+    const members = this.members.get(groupId) ?? new Set<string>();
+    if (members.has(userId)) return 'already_member';
+    if (maxMembers !== undefined && members.size >= maxMembers) return 'full';
+
+    members.add(userId);
+    this.members.set(groupId, members);
+    return 'joined';
+  }
+
+  async isGroupMember(groupId: string, userId: string): Promise<boolean> {
+    return this.members.get(groupId)?.has(userId) ?? false;
+  }
+
+  async updateGroup(groupId: string, changes: GroupChanges): Promise<SupportGroup | null> {
+    const group = this.groups.get(groupId);
+    if (!group) return null;
+
+    const updated = { ...group, ...changes };
+    this.groups.set(groupId, updated);
+    return this.withMemberCount(updated);
+  }
+
+  async createPost(post: CommunityPost): Promise<void> {
+    this.posts.set(post.id, structuredClone(post));
+  }
+
+  async getPost(postId: string): Promise<CommunityPost | null> {
+    const post = this.posts.get(postId);
+    return post ? structuredClone(post) : null;
+  }
+
+  async updatePost(postId: string, changes: PostChanges): Promise<CommunityPost | null> {
+    const post = this.posts.get(postId);
+    if (!post) return null;
+
+    const updated = { ...post, ...changes, updatedAt: new Date() };
+    this.posts.set(postId, updated);
+    return structuredClone(updated);
+  }
+
+  async listPosts(query: PostQuery): Promise<CursorPage<CommunityPost>> {
+    const sorted = Array.from(this.posts.values())
+      .filter(post => !query.groupId || post.groupId === query.groupId)
+      .filter(post => !post.groupId || !query.excludeGroupIds?.includes(post.groupId))
+      .filter(post => !query.statuses || query.statuses.includes(post.moderationStatus))
+      .sort((a, b) => byCreatedAt(b, a));
+
+    const page = paginate(sorted, query);
+    return { ...page, items: page.items.map(post => structuredClone(post)) };
+  }
+
+  async createComment(comment: Comment): Promise<void> {
+    const comments = this.comments.get(comment.postId) || [];
+    this.comments.set(comment.postId, [...comments, structuredClone(comment)]);
+
+    const post = this.posts.get(comment.postId);
+    if (post) {
+      post.replies += 1;
+    }
+  }
+
+  async getComment(commentId: string): Promise<Comment | null> {
+    const comment = this.findComment(commentId);
+    return comment ? structuredClone(comment) : null;
+  }
+
+  async updateComment(commentId: string, changes: CommentChanges): Promise<Comment | null> {
+    const comment = this.findComment(commentId);
+    if (!comment) return null;
+
+    Object.assign(comment, changes, { updatedAt: new Date() });
+    return structuredClone(comment);
+  }
+
+  async listComments(postId: string, query: CommentQuery): Promise<CursorPage<Comment>> {
+    const sorted = (this.comments.get(postId) || [])
+      .filter(comment => !query.statuses || query.statuses.includes(comment.moderationStatus))
+      .sort(byCreatedAt);
+    const page = paginate(sorted, query);
+    return { ...page, items: page.items.map(comment => structuredClone(comment)) };
+  }
+
+  async addReaction(reaction: Reaction): Promise<number | null> {
+    const key = `${reaction.targetType}:${reaction.targetId}:${reaction.userId}`;
+    const target = reaction.targetType === 'post' ? this.posts.get(reaction.targetId) : this.findComment(reaction.targetId);
+    if (this.reactions.has(key) || !target) return null;
+
+    this.reactions.set(key, structuredClone(reaction));
+    target.likes += 1;
+    return target.likes;
+  }
+
+  async createConnection(connection: UserConnection, reciprocal: UserConnection): Promise<void> {
+    const existing = this.connections.get(connection.userId) || [];
+    if (existing.some(c => c.connectedUserId === connection.connectedUserId)) {
+      throw new ConnectionExistsError(connection.userId, connection.connectedUserId);
+    }
+
+    for (const side of [connection, reciprocal]) {
+      const connections = this.connections.get(side.userId) || [];
+      this.connections.set(side.userId, [...connections, structuredClone(side)]);
+    }
+  }
+
+  async listConnections(userId: string): Promise<UserConnection[]> {
+    return (this.connections.get(userId) || []).map(connection => structuredClone(connection));
+  }
+
+  async createSession(session: PeerSupportSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async getSession(sessionId: string): Promise<PeerSupportSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async createSessionMessage(message: PeerSessionMessage): Promise<void> {
+    const messages = this.sessionMessages.get(message.sessionId) || [];
+    this.sessionMessages.set(message.sessionId, [...messages, structuredClone(message)]);
+  }
+
+  async listSessionMessages(sessionId: string, query: PageQuery): Promise<CursorPage<PeerSessionMessage>> {
+    const sorted = (this.sessionMessages.get(sessionId) || []).slice().sort((a, b) => byCreatedAt(b, a));
+    const page = paginate(sorted, query);
+    return { ...page, items: page.items.map(message => structuredClone(message)) };
+  }
+
+  async createEvent(event: CommunityEvent): Promise<void> {
+    this.events.set(event.id, structuredClone(event));
+  }
+
+  async getEvent(eventId: string): Promise<CommunityEvent | null> {
+    const event = this.events.get(eventId);
+    return event ? structuredClone(event) : null;
+  }
+
+  async addEventParticipant(eventId: string, userId: string, maxParticipants?: number): Promise<JoinResult> {
+    const event = this.events.get(eventId);
+    if (!event) return 'full';
+    if (event.participants.includes(userId)) return 'already_member';
+    if (maxParticipants !== undefined && event.participants.length >= maxParticipants) return 'full';
+
+    event.participants.push(userId);
+    event.currentParticipants = event.participants.length;
+    return 'joined';
+  }
+
+  async removeEventParticipant(eventId: string, userId: string): Promise<boolean> {
+    const event = this.events.get(eventId);
+    if (!event || !event.participants.includes(userId)) return false;
+
+    event.participants = event.participants.filter(participant => participant !== userId);
+    event.currentParticipants = event.participants.length;
+    return true;
+  }
+
+  async listEvents(startingAfter?: Date): Promise<CommunityEvent[]> {
+    return Array.from(this.events.values())
+      .filter(event => !startingAfter || (event.startTime > startingAfter && event.status === 'published'))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .map(event => structuredClone(event));
+  }
+
+  async recordModerationAction(action: ModerationAction): Promise<void> {
+    this.moderationActions.push(structuredClone(action));
+  }
+
+  async getModerationAction(actionId: string): Promise<ModerationAction | null> {
+    const action = this.moderationActions.find(existing => existing.id === actionId);
+    return action ? structuredClone(action) : null;
+  }
+
+  async updateModerationAction(actionId: string, changes: ModerationActionChanges): Promise<ModerationAction | null> {
+    const action = this.moderationActions.find(existing => existing.id === actionId);
+    if (!action) return null;
+
+    Object.assign(action, changes);
+    return structuredClone(action);
+  }
+
+  async listModerationActions(targetType: ModerationAction['targetType'], targetId: string): Promise<ModerationAction[]> {
+    return this.moderationActions
+      .filter(action => action.targetType === targetType && action.targetId === targetId)
+      .map(action => structuredClone(action));
+  }
+
+  async countAll(activeSince: Date): Promise<CommunityCounts> {
+    const profiles = Array.from(this.profiles.values());
+
+    return {
+      users: profiles.length,
+      activeUsers: profiles.filter(profile => profile.isActive && profile.lastActive >= activeSince).length,
+      groups: this.groups.size,
+      posts: this.posts.size,
+      comments: Array.from(this.comments.values()).reduce((sum, comments) => sum + comments.length, 0),
+    };
+  }
+
+  private findComment(commentId: string): Comment | undefined {
+    for (const comments of this.comments.values()) {
+      const comment = comments.find(existing => existing.id === commentId);
+      if (comment) return comment;
+    }
+    return undefined;
+  }
+
+  private withMemberCount(group: NewSupportGroup): SupportGroup {
+    return { ...structuredClone(group), memberCount: this.members.get(group.id)?.size ?? 0 };
+  }
+}
@@ -0,0 +1,685 @@
+import type {
+  Prisma,
+  CommunityComment as CommentRow,
+  CommunityEvent as EventRow,
+  CommunityModerationAction as ModerationRow,
+  CommunityPost as PostRow,
+  CommunityProfile as ProfileRow,
+  PeerSupportMessage as MessageRow,
+  PeerSupportSession as SessionRow,
+  SupportGroup as GroupRow,
+  UserConnection as ConnectionRow,
+} from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type {
+  Comment,
+  CommunityEvent,
+  CommunityPost,
+  ModerationAction,
+  PeerSessionMessage,
+  PeerSupportSession,
+  Reaction,
+  SupportGroup,
+  SupportGroupCategory,
+  UserConnection,
+  UserProfile,
+} from '../CommunityService';
+import {
+  CommentChanges,
+  CommentQuery,
+  CommunityCounts,
+  CommunityStore,
+  ConnectionExistsError,
+  CursorPage,
+  GroupChanges,
+  JoinResult,
+  ModerationActionChanges,
+  NewSupportGroup,
+  PageQuery,
+  PostChanges,
+  PostQuery,
+  pageSize,
+} from './CommunityStore';
+
+// One row past the page tells whether another page follows; the cursor is the last row's id
+async function fetchPage<Row extends { id: string }, Item>(
+  query: PageQuery,
+  fetch: (args: { take: number; cursor?: { id: string }; skip?: number }) => Promise<Row[]>,
+  format: (row: Row) => Item
+): Promise<CursorPage<Item>> {
+  const limit = pageSize(query.limit);
+  const rows = await fetch({
+    take: limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  });
+
+  const page = rows.slice(0, limit);
+  return {
+    items: page.map(format),
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+  };
+}
+
+function formatProfile(row: ProfileRow): UserProfile {
+  return {
+    userId: row.userId,
+    displayName: row.displayName,
+    avatar: row.avatar ?? undefined,
+    bio: row.bio ?? undefined,
+    interests: row.interests,
+    supportAreas: row.supportAreas,
+    anonymityLevel: row.anonymityLevel as UserProfile['anonymityLevel'],
+    joinedAt: row.joinedAt,
+    lastActive: row.lastActive,
+    isActive: row.isActive,
+  };
+}
+
+function formatGroup(row: GroupRow & { _count: { members: number } }): SupportGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    category: row.category as SupportGroupCategory,
+    privacyLevel: row.privacyLevel as SupportGroup['privacyLevel'],
+    memberCount: row._count.members,
+    maxMembers: row.maxMembers ?? undefined,
+    rules: row.rules,
+    moderators: row.moderators,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    isActive: row.isActive,
+    tags: row.tags,
+  };
+}
+
+function formatPost(row: PostRow): CommunityPost {
+  return {
+    id: row.id,
+    authorId: row.authorId,
+    groupId: row.groupId ?? undefined,
+    title: row.title ?? undefined,
+    content: row.content,
+    contentType: row.contentType as CommunityPost['contentType'],
+    tags: row.tags,
+    mood: row.mood ?? undefined,
+    triggerWarnings: row.triggerWarnings,
+    isAnonymous: row.isAnonymous,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    likes: row.likes,
+    replies: row.replies,
+    isPinned: row.isPinned,
+    isModerated: row.isModerated,
+    moderationStatus: row.moderationStatus as CommunityPost['moderationStatus'],
+    metadata: (row.metadata as Record<string, unknown> | null) ?? {},
+  };
+}
+
+function formatComment(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    postId: row.postId,
+    authorId: row.authorId,
+    content: row.content,
+    isAnonymous: row.isAnonymous,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    likes: row.likes,
+    parentId: row.parentId ?? undefined,
+    isModerated: row.isModerated,
+    moderationStatus: row.moderationStatus as Comment['moderationStatus'],
+  };
+}
+
+function formatConnection(row: ConnectionRow): UserConnection {
+  return {
+    id: row.id,
+    userId: row.userId,
+    connectedUserId: row.connectedUserId,
+    connectionType: row.connectionType as UserConnection['connectionType'],
+    status: row.status as UserConnection['status'],
+    initiatedBy: row.initiatedBy,
+    createdAt: row.createdAt,
+    lastInteraction: row.lastInteraction ?? undefined,
+    trustLevel: row.trustLevel,
+    sharedGoals: row.sharedGoals,
+    mutualInterests: row.mutualInterests,
+  };
+}
+
+function formatSession(row: SessionRow): PeerSupportSession {
+  return {
+    id: row.id,
+    participants: row.participants,
+    sessionType: row.sessionType as PeerSupportSession['sessionType'],
+    status: row.status as PeerSupportSession['status'],
+    scheduledAt: row.scheduledAt,
+    startedAt: row.startedAt ?? undefined,
+    endedAt: row.endedAt ?? undefined,
+    topics: row.topics,
+    outcomes: row.outcomes,
+    feedback: row.feedback as unknown as PeerSupportSession['feedback'],
+    isAnonymous: row.isAnonymous,
+    moderatedBy: row.moderatedBy ?? undefined,
+  };
+}
+
+function formatMessage(row: MessageRow): PeerSessionMessage {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    senderId: row.senderId,
+    content: row.content,
+    createdAt: row.createdAt,
+  };
+}
+
+function formatEvent(row: EventRow): CommunityEvent {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    eventType: row.eventType as CommunityEvent['eventType'],
+    startTime: row.startTime,
+    endTime: row.endTime,
+    maxParticipants: row.maxParticipants ?? undefined,
+    currentParticipants: row.participants.length,
+    participants: row.participants,
+    hostId: row.hostId,
+    coHosts: row.coHosts,
+    location: row.location as CommunityEvent['location'],
+    meetingLink: row.meetingLink ?? undefined,
+    address: row.address ?? undefined,
+    tags: row.tags,
+    prerequisites: row.prerequisites,
+    isPublic: row.isPublic,
+    createdAt: row.createdAt,
+    status: row.status as CommunityEvent['status'],
+  };
+}
+
+function formatModerationAction(row: ModerationRow): ModerationAction {
+  return {
+    id: row.id,
+    moderatorId: row.moderatorId,
+    targetType: row.targetType as ModerationAction['targetType'],
+    targetId: row.targetId,
+    action: row.action as ModerationAction['action'],
+    reason: row.reason,
+    duration: row.duration ?? undefined,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt ?? undefined,
+    appealed: row.appealed,
+    appealResolved: row.appealResolved,
+  };
+}
+
+function connectionData(connection: UserConnection) {
+  return {
+    id: connection.id,
+    userId: connection.userId,
+    connectedUserId: connection.connectedUserId,
+    connectionType: connection.connectionType,
+    status: connection.status,
+    initiatedBy: connection.initiatedBy,
+    trustLevel: connection.trustLevel,
+    sharedGoals: connection.sharedGoals,
+    mutualInterests: connection.mutualInterests,
+    lastInteraction: connection.lastInteraction,
+    createdAt: connection.createdAt,
+  };
+}
+
+const withMemberCount = { _count: { select: { members: true } } } as const;
+
+/**
+ * Store backed by the `community_profiles`, `support_groups`, `support_group_members`,
+ * `community_posts`, `community_comments`, `community_reactions`, `user_connections`,
+ * `peer_support_sessions`, `peer_support_messages`, `community_events` and
+ * `community_moderation_actions` tables.
+ */
+export class PgCommunityStore implements CommunityStore {
+  async saveProfile(profile: UserProfile): Promise<void> {
+    const prisma = await loadPrisma();
+    const data = {
+      displayName: profile.displayName,
+      avatar: profile.avatar ?? null,
+      bio: profile.bio ?? null,
+      interests: profile.interests,
+      supportAreas: profile.supportAreas,
+      anonymityLevel: profile.anonymityLevel,
+      isActive: profile.isActive,
+      lastActive: profile.lastActive,
+    };
+
+    await prisma.communityProfile.upsert({
+      where: { userId: profile.userId },
+      create: { userId: profile.userId, joinedAt: profile.joinedAt, ...data },
+      update: data,
+    });
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityProfile.findUnique({ where: { userId } });
+    return row ? formatProfile(row) : null;
+  }
+
+  async listActiveProfiles(): Promise<UserProfile[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.communityProfile.findMany({ where: { isActive: true } });
+    return rows.map(formatProfile);
+  }
+
+  async touchProfile(userId: string, lastActive: Date): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.communityProfile.updateMany({ where: { userId }, data: { lastActive } });
+  }
+
+  async createGroup(group: NewSupportGroup): Promise<SupportGroup> {
+    const prisma = await loadPrisma();
+    const row = await prisma.supportGroup.create({
+      data: {
+        id: group.id,
+        name: group.name,
+        description: group.description,
+        category: group.category,
+        privacyLevel: group.privacyLevel,
+        maxMembers: group.maxMembers,
+        rules: group.rules,
+        moderators: group.moderators,
+        tags: group.tags,
+        isActive: group.isActive,
+        createdBy: group.createdBy,
+        createdAt: group.createdAt,
+      },
+      include: withMemberCount,
+    });
+    return formatGroup(row);
+  }
+
+  async getGroup(groupId: string): Promise<SupportGroup | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.supportGroup.findUnique({ where: { id: groupId }, include: withMemberCount });
+    return row ? formatGroup(row) : null;
+  }
+
+  async listGroups(category?: SupportGroupCategory): Promise<SupportGroup[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.supportGroup.findMany({
+      where: category ? { category } : {},
+      include: withMemberCount,
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(formatGroup);
+  }
+
+  async addGroupMember(groupId: string, userId: string, maxMembers?: number): Promise<JoinResult> {
+    const prisma = await loadPrisma();
+
+    // Serializable, so two joins racing for the last place can't both take it
+    try {
+      return await prisma.$transaction(async tx => {
+        const existing = await tx.supportGroupMember.findUnique({ where: { groupId_userId: { groupId, userId } } });
+        if (existing) return 'already_member';
+
+        if (maxMembers !== undefined && await tx.supportGroupMember.count({ where: { groupId } }) >= maxMembers) {
+          return 'full';
+        }
+
+        await tx.supportGroupMember.create({ data: { groupId, userId } });
+        return 'joined';
+      }, { isolationLevel: 'Serializable' });
+    } catch (error) {
+      // The same user joining twice at once
+      if ((error as { code?: string }).code === 'P2002') {
+        return 'already_member';
+      }
+      throw error;
+    }
+  }
+
+  async isGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const prisma = await loadPrisma();
+    const member = await prisma.supportGroupMember.findUnique({ where: { groupId_userId: { groupId, userId } } });
+    return member !== null;
+  }
+
+  async updateGroup(groupId: string, changes: GroupChanges): Promise<SupportGroup | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.supportGroup.updateMany({ where: { id: groupId }, data: changes });
+    return result.count === 0 ? null : this.getGroup(groupId);
+  }
+
+  async createPost(post: CommunityPost): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.communityPost.create({
+      data: {
+        id: post.id,
+        authorId: post.authorId,
+        groupId: post.groupId,
+        title: post.title,
+        content: post.content,
+        contentType: post.contentType,
+        tags: post.tags,
+        mood: post.mood,
+        triggerWarnings: post.triggerWarnings,
+        isAnonymous: post.isAnonymous,
+        metadata: post.metadata as Prisma.InputJsonValue,
+        likes: post.likes,
+        replies: post.replies,
+        isPinned: post.isPinned,
+        isModerated: post.isModerated,
+        moderationStatus: post.moderationStatus,
+        createdAt: post.createdAt,
+        updatedAt: post.updatedAt,
+      },
+    });
+  }
+
+  async getPost(postId: string): Promise<CommunityPost | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityPost.findUnique({ where: { id: postId } });
+    return row ? formatPost(row) : null;
+  }
+
+  async updatePost(postId: string, changes: PostChanges): Promise<CommunityPost | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityPost.updateMany({ where: { id: postId }, data: changes });
+    return result.count === 0 ? null : this.getPost(postId);
+  }
+
+  async listPosts(query: PostQuery): Promise<CursorPage<CommunityPost>> {
+    const prisma = await loadPrisma();
+    return fetchPage(query, args => prisma.communityPost.findMany({
+      where: {
+        ...(query.groupId && { groupId: query.groupId }),
+        // NOT IN alone would drop the posts without a group
+        ...(query.excludeGroupIds?.length && {
+          OR: [{ groupId: null }, { groupId: { notIn: query.excludeGroupIds } }],
+        }),
+        ...(query.statuses && { moderationStatus: { in: query.statuses } }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...args,
+    }), formatPost);
+  }
+
+  async createComment(comment: Comment): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.$transaction([
+      prisma.communityComment.create({
+        data: {
+          id: comment.id,
+          postId: comment.postId,
+          authorId: comment.authorId,
+          parentId: comment.parentId,
+          content: comment.content,
+          isAnonymous: comment.isAnonymous,
+          likes: comment.likes,
+          isModerated: comment.isModerated,
+          moderationStatus: comment.moderationStatus,
+          createdAt: comment.createdAt,
+          updatedAt: comment.updatedAt,
+        },
+      }),
+      prisma.communityPost.update({
+        where: { id: comment.postId },
+        data: { replies: { increment: 1 } },
+      }),
+    ]);
+  }
+
+  async getComment(commentId: string): Promise<Comment | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityComment.findUnique({ where: { id: commentId } });
+    return row ? formatComment(row) : null;
+  }
+
+  async updateComment(commentId: string, changes: CommentChanges): Promise<Comment | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityComment.updateMany({ where: { id: commentId }, data: changes });
+    return result.count === 0 ? null : this.getComment(commentId);
+  }
+
+  async listComments(postId: string, query: CommentQuery): Promise<CursorPage<Comment>> {
+    const prisma = await loadPrisma();
+    return fetchPage(query, args => prisma.communityComment.findMany({
+      where: {
+        postId,
+        ...(query.statuses && { moderationStatus: { in: query.statuses } }),
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      ...args,
+    }), formatComment);
+  }
+
+  async addReaction(reaction: Reaction): Promise<number | null> {
+    const prisma = await loadPrisma();
+
+    try {
+      return await prisma.$transaction(async tx => {
+        const where = { id: reaction.targetId };
+        const data = { likes: { increment: 1 } };
+        const updated = reaction.targetType === 'post'
+          ? await tx.communityPost.updateMany({ where, data })
+          : await tx.communityComment.updateMany({ where, data });
+        if (updated.count === 0) return null;
+
+        await tx.communityReaction.create({
+          data: {
+            targetType: reaction.targetType,
+            targetId: reaction.targetId,
+            userId: reaction.userId,
+            kind: reaction.kind,
+            createdAt: reaction.createdAt,
+          },
+        });
+
+        const target = reaction.targetType === 'post'
+          ? await tx.communityPost.findUniqueOrThrow({ where, select: { likes: true } })
+          : await tx.communityComment.findUniqueOrThrow({ where, select: { likes: true } });
+        return target.likes;
+      });
+    } catch (error) {
+      // Already reacted: the failed insert rolls back the increment with it
+      if ((error as { code?: string }).code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createConnection(connection: UserConnection, reciprocal: UserConnection): Promise<void> {
+    const prisma = await loadPrisma();
+
+    try {
+      await prisma.userConnection.createMany({
+        data: [connectionData(connection), connectionData(reciprocal)],
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        throw new ConnectionExistsError(connection.userId, connection.connectedUserId);
+      }
+      throw error;
+    }
+  }
+
+  async listConnections(userId: string): Promise<UserConnection[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.userConnection.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } });
+    return rows.map(formatConnection);
+  }
+
+  async createSession(session: PeerSupportSession): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.peerSupportSession.create({
+      data: {
+        id: session.id,
+        participants: session.participants,
+        sessionType: session.sessionType,
+        status: session.status,
+        topics: session.topics,
+        outcomes: session.outcomes,
+        feedback: session.feedback as unknown as Prisma.InputJsonValue,
+        isAnonymous: session.isAnonymous,
+        moderatedBy: session.moderatedBy,
+        scheduledAt: session.scheduledAt,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+      },
+    });
+  }
+
+  async getSession(sessionId: string): Promise<PeerSupportSession | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.peerSupportSession.findUnique({ where: { id: sessionId } });
+    return row ? formatSession(row) : null;
+  }
+
+  async createSessionMessage(message: PeerSessionMessage): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.peerSupportMessage.create({
+      data: {
+        id: message.id,
+        sessionId: message.sessionId,
+        senderId: message.senderId,
+        content: message.content,
+        createdAt: message.createdAt,
+      },
+    });
+  }
+
+  async listSessionMessages(sessionId: string, query: PageQuery): Promise<CursorPage<PeerSessionMessage>> {
+    const prisma = await loadPrisma();
+    return fetchPage(query, args => prisma.peerSupportMessage.findMany({
+      where: { sessionId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...args,
+    }), formatMessage);
+  }
+
+  async createEvent(event: CommunityEvent): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.communityEvent.create({
+      data: {
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        eventType: event.eventType,
+        status: event.status,
+        hostId: event.hostId,
+        coHosts: event.coHosts,
+        participants: event.participants,
+        maxParticipants: event.maxParticipants,
+        location: event.location,
+        meetingLink: event.meetingLink,
+        address: event.address,
+        tags: event.tags,
+        prerequisites: event.prerequisites,
+        isPublic: event.isPublic,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        createdAt: event.createdAt,
+      },
+    });
+  }
+
+  async getEvent(eventId: string): Promise<CommunityEvent | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityEvent.findUnique({ where: { id: eventId } });
+    return row ? formatEvent(row) : null;
+  }
+
+  async addEventParticipant(eventId: string, userId: string, maxParticipants?: number): Promise<JoinResult> {
+    const prisma = await loadPrisma();
+
+    // Serializable, so two RSVPs racing for the last place can't both take it
+    return prisma.$transaction(async tx => {
+      const event = await tx.communityEvent.findUnique({ where: { id: eventId }, select: { participants: true } });
+      if (!event) return 'full';
+      if (event.participants.includes(userId)) return 'already_member';
+      if (maxParticipants !== undefined && event.participants.length >= maxParticipants) return 'full';
+
+      await tx.communityEvent.update({ where: { id: eventId }, data: { participants: { push: userId } } });
+      return 'joined';
+    }, { isolationLevel: 'Serializable' });
+  }
+
+  async removeEventParticipant(eventId: string, userId: string): Promise<boolean> {
+    const prisma = await loadPrisma();
+
+    return prisma.$transaction(async tx => {
+      const event = await tx.communityEvent.findUnique({ where: { id: eventId }, select: { participants: true } });
+      if (!event || !event.participants.includes(userId)) return false;
+
+      await tx.communityEvent.update({
+        where: { id: eventId },
+        data: { participants: event.participants.filter(participant => participant !== userId) },
+      });
+      return true;
+    }, { isolationLevel: 'Serializable' });
+  }
+
+  async listEvents(startingAfter?: Date): Promise<CommunityEvent[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.communityEvent.findMany({
+      where: startingAfter ? { status: 'published', startTime: { gt: startingAfter } } : {},
+      orderBy: { startTime: 'asc' },
+    });
+    return rows.map(formatEvent);
+  }
+
+  async recordModerationAction(action: ModerationAction): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.communityModerationAction.create({
+      data: {
+        id: action.id,
+        moderatorId: action.moderatorId,
+        targetType: action.targetType,
+        targetId: action.targetId,
+        action: action.action,
+        reason: action.reason,
+        duration: action.duration,
+        appealed: action.appealed,
+        appealResolved: action.appealResolved,
+        expiresAt: action.expiresAt,
+        createdAt: action.createdAt,
+      },
+    });
+  }
+
+  async getModerationAction(actionId: string): Promise<ModerationAction | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.communityModerationAction.findUnique({ where: { id: actionId } });
+    return row ? formatModerationAction(row) : null;
+  }
+
+  async updateModerationAction(actionId: string, changes: ModerationActionChanges): Promise<ModerationAction | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.communityModerationAction.updateMany({ where: { id: actionId }, data: changes });
+    return result.count === 0 ? null : this.getModerationAction(actionId);
+  }
+
+  async listModerationActions(targetType: ModerationAction['targetType'], targetId: string): Promise<ModerationAction[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.communityModerationAction.findMany({
+      where: { targetType, targetId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(formatModerationAction);
+  }
+
+  async countAll(activeSince: Date): Promise<CommunityCounts> {
+    const prisma = await loadPrisma();
+    const [users, activeUsers, groups, posts, comments] = await Promise.all([
+      prisma.communityProfile.count(),
+      prisma.communityProfile.count({ where: { isActive: true, lastActive: { gte: activeSince } } }),
+      prisma.supportGroup.count(),
+      prisma.communityPost.count(),
+      prisma.communityComment.count(),
+    ]);
+    return { users, activeUsers, groups, posts, comments };
+  }
+}
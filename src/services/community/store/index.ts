@@ -0,0 +1,37 @@
+import { CommunityStore } from './CommunityStore';
+import { InMemoryCommunityStore } from './InMemoryCommunityStore';
+import { PgCommunityStore } from './PgCommunityStore';
+
+export type {
+  CommunityStore,
+  CommentChanges,
+  CommentQuery,
+  CommunityCounts,
+  CursorPage,
+  GroupChanges,
+  JoinResult,
+  ModerationActionChanges,
+  NewSupportGroup,
+  PageQuery,
+  PostChanges,
+  PostQuery,
+} from './CommunityStore';
+export { ConnectionExistsError, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './CommunityStore';
+export { InMemoryCommunityStore } from './InMemoryCommunityStore';
+export { PgCommunityStore } from './PgCommunityStore';
+
+let defaultStore: CommunityStore | null = null;
+
+/**
+ * Store selected by COMMUNITY_STORE ('postgres' | 'memory'). Defaults to Postgres, except under test
+ * where the in-memory store is used.
+ */
+export function getCommunityStore(): CommunityStore {
+  if (!defaultStore) {
+    const backend = process.env.COMMUNITY_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryCommunityStore() : new PgCommunityStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import { logger } from '@/lib/logger';
+import { AuditEntry, AuditEvent, AuditLogStore, AuditQuery } from './AuditLogStore';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const VERIFY_BATCH_SIZE = 1000;
+const EXPORT_BATCH_SIZE = 500;
+
+export type AuditExportFormat = 'json' | 'csv';
+
+export const AUDIT_EXPORT_COLUMNS = [
+  'sequence',
+  'occurredAt',
+  'actorId',
+  'actorType',
+  'action',
+  'resourceType',
+  'resourceId',
+  'subjectId',
+  'purpose',
+  'outcome',
+  'ipAddress',
+  'userAgent',
+  'metadata',
+  'previousHash',
+  'hash',
+] as const;
+
+export interface AuditChainBreak {
+  sequence: number;
+  reason: 'sequence_gap' | 'previous_hash_mismatch' | 'hash_mismatch';
+}
+
+/**
+ * `headHash` is the hash of the last entry checked. Dropping entries off the end of the log leaves a
+ * valid chain, so keep heads from earlier verifications and check they are still in it.
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  fromSequence: number;
+  headSequence: number | null;
+  headHash: string | null;
+  break?: AuditChainBreak;
+}
+
+// JSON with object keys sorted at every level, so a value hashes the same however it was stored
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const fields = {
+    sequence: entry.sequence,
+    occurredAt: entry.occurredAt.toISOString(),
+    actorId: entry.actorId,
+    actorType: entry.actorType,
+    action: entry.action,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId ?? null,
+    subjectId: entry.subjectId ?? null,
+    purpose: entry.purpose,
+    outcome: entry.outcome,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    metadata: entry.metadata ?? null,
+    previousHash: entry.previousHash,
+  };
+  return crypto.createHash('sha256').update(canonicalJson(fields)).digest('hex');
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? canonicalJson(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The tamper-evident record of access to protected health information. Each entry's hash chains
+ * from the one before it, so rewriting or deleting an entry is caught by `verify`.
+ */
+export class AuditLog {
+  constructor(private store: AuditLogStore) {}
+
+  async record(event: AuditEvent, occurredAt: Date = new Date()): Promise<AuditEntry> {
+    // Round-tripped through JSON up front so the hash matches the metadata as it reads back
+    const metadata = event.metadata
+      ? JSON.parse(JSON.stringify(event.metadata)) as Record<string, unknown>
+      : undefined;
+
+    return this.store.append(last => {
+      const unhashed: Omit<AuditEntry, 'hash'> = {
+        ...event,
+        metadata,
+        sequence: (last?.sequence ?? 0) + 1,
+        occurredAt,
+        previousHash: last?.hash ?? GENESIS_HASH,
+      };
+      return { ...unhashed, hash: hashAuditEntry(unhashed) };
+    });
+  }
+
+  query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.store.query(query);
+  }
+
+  count(query: Omit<AuditQuery, 'before' | 'limit'>): Promise<number> {
+    return this.store.count(query);
+  }
+
+  /**
+   * Walk the chain from `fromSequence` (the start by default) to the current head. Starting part way
+   * trusts the entry before `fromSequence`; only a walk from 1 checks the whole log.
+   */
+  async verify(fromSequence: number = 1): Promise<AuditChainVerification> {
+    const start = Math.max(1, fromSequence);
+    const result: AuditChainVerification = {
+      valid: true,
+      checked: 0,
+      fromSequence: start,
+      headSequence: null,
+      headHash: null,
+    };
+
+    let previousHash = GENESIS_HASH;
+    if (start > 1) {
+      const [anchor] = await this.store.range(start - 1, 1);
+      if (!anchor || anchor.sequence !== start - 1) {
+        return { ...result, valid: false, break: { sequence: start - 1, reason: 'sequence_gap' } };
+      }
+      previousHash = anchor.hash;
+    }
+
+    let expected = start;
+    while (true) {
+      const batch = await this.store.range(expected, VERIFY_BATCH_SIZE);
+
+      for (const entry of batch) {
+        const reason: AuditChainBreak['reason'] | null = entry.sequence !== expected ? 'sequence_gap'
+          : entry.previousHash !== previousHash ? 'previous_hash_mismatch'
+          : hashAuditEntry(entry) !== entry.hash ? 'hash_mismatch'
+          : null;
+
+        if (reason) {
+          logger.error({ sequence: expected, reason }, 'Audit log chain is broken');
+          return { ...result, valid: false, break: { sequence: expected, reason } };
+        }
+
+        result.checked++;
+        result.headSequence = entry.sequence;
+        result.headHash = entry.hash;
+        previousHash = entry.hash;
+        expected++;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Every entry matching `query`, oldest first, with its hashes so the export can be verified on its own
+   */
+  async export(query: Omit<AuditQuery, 'before' | 'limit'>, format: AuditExportFormat): Promise<string> {
+    const entries: AuditEntry[] = [];
+    let before: number | undefined;
+
+    while (true) {
+      const batch = await this.store.query({ ...query, before, limit: EXPORT_BATCH_SIZE });
+      entries.push(...batch);
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      before = batch[batch.length - 1].sequence;
+    }
+    entries.reverse();
+
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    const rows = entries.map(entry => AUDIT_EXPORT_COLUMNS
+      .map(column => csvCell(column === 'occurredAt' ? entry.occurredAt.toISOString() : entry[column]))
+      .join(','));
+    return [AUDIT_EXPORT_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+}
@@ -0,0 +1,62 @@
+export type AuditActorType = 'user' | 'professional' | 'admin' | 'system' | 'anonymous';
+export type AuditOutcome = 'success' | 'denied' | 'failure';
+
+/**
+ * Why the information was touched, in the terms of the HIPAA permitted uses: care of the user,
+ * a crisis response, the user's own request, running the service, or compliance work such as this log.
+ */
+export type AuditPurpose = 'treatment' | 'crisis_response' | 'user_request' | 'operations' | 'compliance';
+
+export interface AuditEvent {
+  actorId: string;
+  actorType: AuditActorType;
+  action: string; // Dotted, resource first: 'chat.message.create', 'progress.report.read'
+  resourceType: string;
+  resourceId?: string;
+  subjectId?: string; // The user whose health information was touched
+  purpose: AuditPurpose;
+  outcome: AuditOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>; // Identifiers and counts only, never the information itself
+}
+
+/**
+ * An event as appended to the log. `hash` covers every other field, including `previousHash`,
+ * the hash of the entry at `sequence - 1`.
+ */
+export interface AuditEntry extends AuditEvent {
+  sequence: number;
+  occurredAt: Date;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  subjectId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date; // Exclusive
+  before?: number; // Sequence cursor; only entries older than it
+  limit?: number;
+}
+
+export interface AuditLogStore {
+  /**
+   * Append the entry `build` makes from the current last entry (null when the log is empty). No other
+   * append can land between reading the last entry and writing the new one.
+   */
+  append(build: (last: AuditEntry | null) => AuditEntry): Promise<AuditEntry>;
+
+  query(query: AuditQuery): Promise<AuditEntry[]>; // Newest first
+  count(query: Omit<AuditQuery, 'before' | 'limit'>): Promise<number>;
+
+  // Oldest first, starting at `fromSequence`; a gap shows up as a jump in sequence
+  range(fromSequence: number, limit: number): Promise<AuditEntry[]>;
+
+  last(): Promise<AuditEntry | null>;
+}
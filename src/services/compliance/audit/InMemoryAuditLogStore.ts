@@ -0,0 +1,51 @@
+import { AuditEntry, AuditLogStore, AuditQuery } from './AuditLogStore';
+
+function matches(entry: AuditEntry, query: Omit<AuditQuery, 'limit'>): boolean {
+  return (!query.actorId || entry.actorId === query.actorId)
+    && (!query.subjectId || entry.subjectId === query.subjectId)
+    && (!query.action || entry.action === query.action)
+    && (!query.resourceType || entry.resourceType === query.resourceType)
+    && (!query.resourceId || entry.resourceId === query.resourceId)
+    && (!query.outcome || entry.outcome === query.outcome)
+    && (!query.since || entry.occurredAt >= query.since)
+    && (!query.until || entry.occurredAt < query.until)
+    && (query.before === undefined || entry.sequence < query.before);
+}
+
+/**
+ * Process-local store used by tests and local development without Postgres. Appends are synchronous
+ * between reading the last entry and pushing the next, so they can't interleave.
+ */
+export class InMemoryAuditLogStore implements AuditLogStore {
+  private entries: AuditEntry[] = [];
+
+  async append(build: (last: AuditEntry | null) => AuditEntry): Promise<AuditEntry> {
+    const entry = build(this.entries[this.entries.length - 1] ?? null);
+    this.entries.push(structuredClone(entry));
+    return entry;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.entries
+      .filter(entry => matches(entry, query))
+      .reverse()
+      .slice(0, query.limit ?? 100)
+      .map(entry => structuredClone(entry));
+  }
+
+  async count(query: Omit<AuditQuery, 'before' | 'limit'>): Promise<number> {
+    return this.entries.filter(entry => matches(entry, query)).length;
+  }
+
+  async range(fromSequence: number, limit: number): Promise<AuditEntry[]> {
+    return this.entries
+      .filter(entry => entry.sequence >= fromSequence)
+      .slice(0, limit)
+      .map(entry => structuredClone(entry));
+  }
+
+  async last(): Promise<AuditEntry | null> {
+    const entry = this.entries[this.entries.length - 1];
+    return entry ? structuredClone(entry) : null;
+  }
+}
@@ -0,0 +1,106 @@
+import type { AuditLogEntry as EntryRow, Prisma } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import { AuditActorType, AuditEntry, AuditLogStore, AuditOutcome, AuditPurpose, AuditQuery } from './AuditLogStore';
+
+function formatEntry(row: EntryRow): AuditEntry {
+  return {
+    sequence: row.sequence,
+    actorId: row.actorId,
+    actorType: row.actorType as AuditActorType,
+    action: row.action,
+    resourceType: row.resourceType,
+    resourceId: row.resourceId ?? undefined,
+    subjectId: row.subjectId ?? undefined,
+    purpose: row.purpose as AuditPurpose,
+    outcome: row.outcome as AuditOutcome,
+    ipAddress: row.ipAddress ?? undefined,
+    userAgent: row.userAgent ?? undefined,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    occurredAt: row.occurredAt,
+    previousHash: row.previousHash,
+    hash: row.hash,
+  };
+}
+
+function toWhere(query: Omit<AuditQuery, 'limit'>): Prisma.AuditLogEntryWhereInput {
+  return {
+    actorId: query.actorId,
+    subjectId: query.subjectId,
+    action: query.action,
+    resourceType: query.resourceType,
+    resourceId: query.resourceId,
+    outcome: query.outcome,
+    occurredAt: query.since || query.until ? { gte: query.since, lt: query.until } : undefined,
+    sequence: query.before !== undefined ? { lt: query.before } : undefined,
+  };
+}
+
+/**
+ * Store backed by the `audit_log` table. Appends take a transaction-scoped advisory lock, so app
+ * instances append one at a time and each sees the entry it chains from; the unique sequence is
+ * the backstop if anything writes to the table without it.
+ */
+export class PgAuditLogStore implements AuditLogStore {
+  async append(build: (last: AuditEntry | null) => AuditEntry): Promise<AuditEntry> {
+    const prisma = await loadPrisma();
+
+    return prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('audit_log'))`;
+
+      const last = await tx.auditLogEntry.findFirst({ orderBy: { sequence: 'desc' } });
+      const entry = build(last ? formatEntry(last) : null);
+
+      await tx.auditLogEntry.create({
+        data: {
+          sequence: entry.sequence,
+          actorId: entry.actorId,
+          actorType: entry.actorType,
+          action: entry.action,
+          resourceType: entry.resourceType,
+          resourceId: entry.resourceId,
+          subjectId: entry.subjectId,
+          purpose: entry.purpose,
+          outcome: entry.outcome,
+          ipAddress: entry.ipAddress,
+          userAgent: entry.userAgent,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+          occurredAt: entry.occurredAt,
+          previousHash: entry.previousHash,
+          hash: entry.hash,
+        },
+      });
+      return entry;
+    });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.auditLogEntry.findMany({
+      where: toWhere(query),
+      orderBy: { sequence: 'desc' },
+      take: query.limit ?? 100,
+    });
+    return rows.map(formatEntry);
+  }
+
+  async count(query: Omit<AuditQuery, 'before' | 'limit'>): Promise<number> {
+    const prisma = await loadPrisma();
+    return prisma.auditLogEntry.count({ where: toWhere(query) });
+  }
+
+  async range(fromSequence: number, limit: number): Promise<AuditEntry[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.auditLogEntry.findMany({
+      where: { sequence: { gte: fromSequence } },
+      orderBy: { sequence: 'asc' },
+      take: limit,
+    });
+    return rows.map(formatEntry);
+  }
+
+  async last(): Promise<AuditEntry | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.auditLogEntry.findFirst({ orderBy: { sequence: 'desc' } });
+    return row ? formatEntry(row) : null;
+  }
+}
@@ -0,0 +1,42 @@
+import { AuditLog } from './AuditLog';
+import { AuditLogStore } from './AuditLogStore';
+import { InMemoryAuditLogStore } from './InMemoryAuditLogStore';
+import { PgAuditLogStore } from './PgAuditLogStore';
+
+export type {
+  AuditActorType,
+  AuditEntry,
+  AuditEvent,
+  AuditLogStore,
+  AuditOutcome,
+  AuditPurpose,
+  AuditQuery,
+} from './AuditLogStore';
+export { InMemoryAuditLogStore } from './InMemoryAuditLogStore';
+export { PgAuditLogStore } from './PgAuditLogStore';
+export { AuditLog, AUDIT_EXPORT_COLUMNS, GENESIS_HASH, hashAuditEntry } from './AuditLog';
+export type { AuditChainBreak, AuditChainVerification, AuditExportFormat } from './AuditLog';
+
+let defaultStore: AuditLogStore | null = null;
+let defaultLog: AuditLog | null = null;
+
+/**
+ * Store selected by AUDIT_LOG_STORE ('postgres' | 'memory'). Defaults to Postgres, except under test
+ * where the in-memory store is used.
+ */
+export function getAuditLogStore(): AuditLogStore {
+  if (!defaultStore) {
+    const backend = process.env.AUDIT_LOG_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryAuditLogStore() : new PgAuditLogStore();
+  }
+  return defaultStore;
+}
+
+export function getAuditLog(): AuditLog {
+  if (!defaultLog) {
+    defaultLog = new AuditLog(getAuditLogStore());
+  }
+  return defaultLog;
+}
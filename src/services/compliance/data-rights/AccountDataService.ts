@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { logger } from '@/lib/logger';
+import type { AuditLog } from '../audit';
+import { AccountDeletionRequest, AccountDeletionStore, DeletionAlreadyPendingError } from './AccountDeletionStore';
+import type { UserDataSource } from './UserDataSource';
+
+export const ACCOUNT_EXPORT_FORMAT = 'account-export/v1';
+
+export interface AccountExport {
+  format: typeof ACCOUNT_EXPORT_FORMAT;
+  userId: string;
+  exportedAt: Date;
+  sources: Record<string, unknown>; // Keyed by data source name
+}
+
+export interface AccountDataServiceConfig {
+  gracePeriodMs: number; // Between the request and the erasure; the user can cancel until then
+  pollIntervalMs: number;
+  leaseMs: number; // Must outlast erasing one account across every source
+  batchSize: number;
+}
+
+const DEFAULT_CONFIG: AccountDataServiceConfig = {
+  gracePeriodMs: 30 * 24 * 60 * 60 * 1000,
+  pollIntervalMs: 60 * 60 * 1000,
+  leaseMs: 10 * 60 * 1000,
+  batchSize: 10,
+};
+
+/**
+ * Data subject requests: a copy of everything held about a user, and erasure of their account after
+ * a grace period. Erasure runs across every data source, and its completion goes to the audit log.
+ */
+export class AccountDataService {
+  private config: AccountDataServiceConfig;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private sources: UserDataSource[],
+    private store: AccountDeletionStore,
+    private auditLog: AuditLog,
+    config: Partial<AccountDataServiceConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Fails as a whole if any source does, rather than hand over an export that silently lacks a part
+   */
+  async exportAccount(userId: string): Promise<AccountExport> {
+    const sources: Record<string, unknown> = {};
+
+    for (const source of this.sources) {
+      try {
+        sources[source.name] = await source.exportUserData(userId);
+      } catch (error) {
+        logger.error({
+          userId,
+          source: source.name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Account export failed');
+        throw error;
+      }
+    }
+
+    return { format: ACCOUNT_EXPORT_FORMAT, userId, exportedAt: new Date(), sources };
+  }
+
+  /**
+   * Schedule the account for erasure once the grace period ends. Asking again while a request is
+   * pending returns that request rather than restarting the grace period.
+   */
+  async requestDeletion(userId: string, reason?: string, now: Date = new Date()): Promise<AccountDeletionRequest> {
+    const pending = await this.store.findPending(userId);
+    if (pending) return pending;
+
+    const request: AccountDeletionRequest = {
+      id: `deletion-${randomUUID()}`,
+      userId,
+      status: 'pending',
+      reason,
+      requestedAt: now,
+      scheduledFor: new Date(now.getTime() + this.config.gracePeriodMs),
+      attempts: 0,
+    };
+
+    try {
+      await this.store.create(request);
+    } catch (error) {
+      if (error instanceof DeletionAlreadyPendingError) {
+        return (await this.store.findPending(userId))!;
+      }
+      throw error;
+    }
+
+    logger.info({ userId, requestId: request.id, scheduledFor: request.scheduledFor }, 'Account deletion requested');
+    return request;
+  }
+
+  async cancelDeletion(userId: string, now: Date = new Date()): Promise<AccountDeletionRequest | null> {
+    const cancelled = await this.store.cancel(userId, now);
+    if (cancelled) {
+      logger.info({ userId, requestId: cancelled.id }, 'Account deletion cancelled');
+    }
+    return cancelled;
+  }
+
+  // The user's most recent request, whatever its status
+  getDeletionStatus(userId: string): Promise<AccountDeletionRequest | null> {
+    return this.store.findLatest(userId);
+  }
+
+  /**
+   * Erase every account whose grace period has ended. Returns how many were claimed.
+   */
+  async processDueDeletions(now: Date = new Date()): Promise<number> {
+    const due = await this.store.claimDue(now, this.config.leaseMs, this.config.batchSize);
+    for (const request of due) {
+      await this.eraseAccount(request);
+    }
+    return due.length;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info({ pollIntervalMs: this.config.pollIntervalMs }, 'Account deletion job started');
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async eraseAccount(request: AccountDeletionRequest): Promise<void> {
+    const summary: Record<string, number> = {};
+    const completedAt = new Date();
+
+    try {
+      // Every source is idempotent, so a retry after a partial failure finishes the job
+      for (const source of this.sources) {
+        summary[source.name] = await source.eraseUserData(request.userId);
+      }
+
+      // Recorded before the request is closed, so a completed erasure always has its audit entry
+      await this.auditLog.record({
+        actorId: 'system',
+        actorType: 'system',
+        action: 'account.deletion.complete',
+        resourceType: 'account',
+        resourceId: request.id,
+        subjectId: request.userId,
+        purpose: 'user_request',
+        outcome: 'success',
+        metadata: { requestedAt: request.requestedAt, erased: summary },
+      }, completedAt);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ userId: request.userId, requestId: request.id, error: message }, 'Account erasure failed');
+      await this.store.recordFailure(request.id, message);
+      return;
+    }
+
+    await this.store.complete(request.id, summary, completedAt);
+    logger.info({ userId: request.userId, requestId: request.id, erased: summary }, 'Account erased');
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    try {
+      while (this.running && await this.processDueDeletions() === this.config.batchSize) {
+        // A full batch means more may be due; keep draining before sleeping
+      }
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Account deletion poll failed');
+    } finally {
+      if (this.running) {
+        this.schedule(this.config.pollIntervalMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+export type AccountDeletionStatus = 'pending' | 'cancelled' | 'completed';
+
+export interface AccountDeletionRequest {
+  id: string;
+  userId: string;
+  status: AccountDeletionStatus;
+  reason?: string;
+  requestedAt: Date;
+  scheduledFor: Date; // End of the grace period
+  cancelledAt?: Date;
+  completedAt?: Date;
+  summary?: Record<string, number>; // Records erased per data source
+  attempts: number;
+  lastError?: string;
+}
+
+export class DeletionAlreadyPendingError extends Error {
+  constructor(public userId: string) {
+    super(`User ${userId} already has a pending account deletion`);
+    this.name = 'DeletionAlreadyPendingError';
+  }
+}
+
+export interface AccountDeletionStore {
+  // Throws DeletionAlreadyPendingError if the user already has a pending request
+  create(request: AccountDeletionRequest): Promise<void>;
+
+  findPending(userId: string): Promise<AccountDeletionRequest | null>;
+  findLatest(userId: string): Promise<AccountDeletionRequest | null>;
+
+  // Pending → cancelled; null if nothing was pending
+  cancel(userId: string, at: Date): Promise<AccountDeletionRequest | null>;
+
+  /**
+   * Claim up to `limit` pending requests whose grace period has ended and that no other worker holds,
+   * holding each for `leaseMs`. A worker that dies mid-erasure leaves its claims to expire.
+   */
+  claimDue(now: Date, leaseMs: number, limit: number): Promise<AccountDeletionRequest[]>;
+
+  complete(id: string, summary: Record<string, number>, at: Date): Promise<void>;
+
+  // Counts the attempt and keeps the request pending for a retry once the claim expires
+  recordFailure(id: string, error: string): Promise<void>;
+}
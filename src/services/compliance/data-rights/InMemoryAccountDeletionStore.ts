@@ -0,0 +1,67 @@
+import { AccountDeletionRequest, AccountDeletionStore, DeletionAlreadyPendingError } from './AccountDeletionStore';
+
+/**
+ * Process-local store used by tests and local development without Postgres
+ */
+export class InMemoryAccountDeletionStore implements AccountDeletionStore {
+  private requests: AccountDeletionRequest[] = [];
+  private claims: Map<string, Date> = new Map();
+
+  async create(request: AccountDeletionRequest): Promise<void> {
+    if (await this.findPending(request.userId)) {
+      throw new DeletionAlreadyPendingError(request.userId);
+    }
+    this.requests.push(structuredClone(request));
+  }
+
+  async findPending(userId: string): Promise<AccountDeletionRequest | null> {
+    const request = this.requests.find(existing => existing.userId === userId && existing.status === 'pending');
+    return request ? structuredClone(request) : null;
+  }
+
+  async findLatest(userId: string): Promise<AccountDeletionRequest | null> {
+    const request = this.requests.filter(existing => existing.userId === userId).pop();
+    return request ? structuredClone(request) : null;
+  }
+
+  async cancel(userId: string, at: Date): Promise<AccountDeletionRequest | null> {
+    const request = this.requests.find(existing => existing.userId === userId && existing.status === 'pending');
+    if (!request) return null;
+
+    request.status = 'cancelled';
+    request.cancelledAt = at;
+    this.claims.delete(request.id);
+    return structuredClone(request);
+  }
+
+  async claimDue(now: Date, leaseMs: number, limit: number): Promise<AccountDeletionRequest[]> {
+    const due = this.requests
+      .filter(request => request.status === 'pending' && request.scheduledFor <= now)
+      .filter(request => !this.claims.has(request.id) || this.claims.get(request.id)! <= now)
+      .slice(0, limit);
+
+    for (const request of due) {
+      this.claims.set(request.id, new Date(now.getTime() + leaseMs));
+    }
+    return due.map(request => structuredClone(request));
+  }
+
+  async complete(id: string, summary: Record<string, number>, at: Date): Promise<void> {
+    const request = this.requests.find(existing => existing.id === id);
+    if (!request) return;
+
+    request.status = 'completed';
+    request.completedAt = at;
+    request.summary = { ...summary };
+    request.attempts++;
+    this.claims.delete(id);
+  }
+
+  async recordFailure(id: string, error: string): Promise<void> {
+    const request = this.requests.find(existing => existing.id === id);
+    if (!request) return;
+
+    request.attempts++;
+    request.lastError = error;
+  }
+}
@@ -0,0 +1,131 @@
+import type { AccountDeletionRequest as RequestRow } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import {
+  AccountDeletionRequest,
+  AccountDeletionStatus,
+  AccountDeletionStore,
+  DeletionAlreadyPendingError,
+} from './AccountDeletionStore';
+
+function formatRequest(row: RequestRow): AccountDeletionRequest {
+  return {
+    id: row.id,
+    userId: row.userId,
+    status: row.status as AccountDeletionStatus,
+    reason: row.reason ?? undefined,
+    requestedAt: row.requestedAt,
+    scheduledFor: row.scheduledFor,
+    cancelledAt: row.cancelledAt ?? undefined,
+    completedAt: row.completedAt ?? undefined,
+    summary: (row.summary as Record<string, number> | null) ?? undefined,
+    attempts: row.attempts,
+    lastError: row.lastError ?? undefined,
+  };
+}
+
+/**
+ * Store backed by the `account_deletion_requests` table. The unique `pendingUserId` column holds the
+ * user only while their request is pending, so two requests made at once can't both be pending.
+ */
+export class PgAccountDeletionStore implements AccountDeletionStore {
+  async create(request: AccountDeletionRequest): Promise<void> {
+    const prisma = await loadPrisma();
+
+    try {
+      await prisma.accountDeletionRequest.create({
+        data: {
+          id: request.id,
+          userId: request.userId,
+          status: 'pending',
+          pendingUserId: request.userId,
+          reason: request.reason,
+          requestedAt: request.requestedAt,
+          scheduledFor: request.scheduledFor,
+        },
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        throw new DeletionAlreadyPendingError(request.userId);
+      }
+      throw error;
+    }
+  }
+
+  async findPending(userId: string): Promise<AccountDeletionRequest | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.accountDeletionRequest.findUnique({ where: { pendingUserId: userId } });
+    return row ? formatRequest(row) : null;
+  }
+
+  async findLatest(userId: string): Promise<AccountDeletionRequest | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.accountDeletionRequest.findFirst({
+      where: { userId },
+      orderBy: { requestedAt: 'desc' },
+    });
+    return row ? formatRequest(row) : null;
+  }
+
+  async cancel(userId: string, at: Date): Promise<AccountDeletionRequest | null> {
+    const prisma = await loadPrisma();
+    const pending = await prisma.accountDeletionRequest.findUnique({ where: { pendingUserId: userId } });
+    if (!pending) return null;
+
+    const result = await prisma.accountDeletionRequest.updateMany({
+      where: { id: pending.id, status: 'pending' },
+      data: { status: 'cancelled', pendingUserId: null, cancelledAt: at, claimedUntil: null },
+    });
+    if (result.count === 0) return null;
+
+    const row = await prisma.accountDeletionRequest.findUnique({ where: { id: pending.id } });
+    return row ? formatRequest(row) : null;
+  }
+
+  async claimDue(now: Date, leaseMs: number, limit: number): Promise<AccountDeletionRequest[]> {
+    const prisma = await loadPrisma();
+    const unclaimed = { status: 'pending', OR: [{ claimedUntil: null }, { claimedUntil: { lte: now } }] };
+
+    const candidates = await prisma.accountDeletionRequest.findMany({
+      where: { ...unclaimed, scheduledFor: { lte: now } },
+      orderBy: { scheduledFor: 'asc' },
+      take: limit,
+    });
+
+    const claimed: AccountDeletionRequest[] = [];
+    for (const candidate of candidates) {
+      // Conditional on still being unclaimed, so only one worker wins each request
+      const result = await prisma.accountDeletionRequest.updateMany({
+        where: { id: candidate.id, ...unclaimed },
+        data: { claimedUntil: new Date(now.getTime() + leaseMs) },
+      });
+      if (result.count === 1) {
+        claimed.push(formatRequest(candidate));
+      }
+    }
+    return claimed;
+  }
+
+  async complete(id: string, summary: Record<string, number>, at: Date): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.accountDeletionRequest.update({
+      where: { id },
+      data: {
+        status: 'completed',
+        pendingUserId: null,
+        completedAt: at,
+        summary,
+        attempts: { increment: 1 },
+        lastError: null,
+        claimedUntil: null,
+      },
+    });
+  }
+
+  async recordFailure(id: string, error: string): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.accountDeletionRequest.update({
+      where: { id },
+      data: { attempts: { increment: 1 }, lastError: error },
+    });
+  }
+}
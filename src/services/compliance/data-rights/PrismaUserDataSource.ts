@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type { UserDataSource } from './UserDataSource';
+
+/**
+ * The user's rows in the database. Reads go through the client extension, so encrypted columns come
+ * back decrypted. Deleting the user cascades to everything owned through a foreign key; records that
+ * outlive the account (escalations, published content, content analytics) are detached instead.
+ */
+export class PrismaUserDataSource implements UserDataSource {
+  readonly name = 'database';
+
+  async exportUserData(userId: string): Promise<unknown> {
+    const prisma = await loadPrisma();
+
+    const [
+      account,
+      conversations,
+      crisisAssessments,
+      escalations,
+      contentInteractions,
+      contentRecommendations,
+      contentAccess,
+      authoredContent,
+      notifications,
+      community
+    ] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          image: true,
+          emailVerified: true,
+          createdAt: true,
+          updatedAt: true,
+          profile: true,
+          preferences: true,
+          accounts: { select: { provider: true, type: true } },
+          // Key metadata only; the keys are the user's own and can be re-created from their provider
+          apiKeys: {
+            select: {
+              id: true,
+              name: true,
+              provider: true,
+              usageCount: true,
+              lastUsed: true,
+              usageLimit: true,
+              isActive: true,
+              expiresAt: true,
+              createdAt: true,
+            },
+          },
+        },
+      }),
+      prisma.conversation.findMany({
+        where: { userId },
+        include: { messages: { orderBy: { timestamp: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      // Reviewer and escalation notes are the clinicians' working notes, not part of the user's record
+      prisma.crisisAssessment.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          conversationId: true,
+          language: true,
+          riskLevel: true,
+          riskFactors: true,
+          immediate: true,
+          recommendedActions: true,
+          flaggedAt: true,
+          reviewed: true,
+          reviewedAt: true,
+          escalated: true,
+          escalatedAt: true,
+        },
+        orderBy: { flaggedAt: 'asc' },
+      }),
+      prisma.escalation.findMany({
+        where: { userId },
+        select: { id: true, status: true, priority: true, startedAt: true, acknowledgedAt: true, resolvedAt: true },
+        orderBy: { startedAt: 'asc' },
+      }),
+      prisma.userContentInteraction.findMany({
+        where: { userId },
+        include: { content: { select: { id: true, title: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.contentRecommendation.findMany({ where: { userId } }),
+      prisma.contentAccess.findMany({
+        where: { userId },
+        select: { contentId: true, action: true, duration: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.content.findMany({
+        where: { authorId: userId },
+        select: { id: true, title: true, slug: true, status: true, publishedAt: true, createdAt: true },
+      }),
+      prisma.inboxNotification.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          communityProfile: true,
+          groupMemberships: { select: { groupId: true, joinedAt: true } },
+          communityPosts: { orderBy: { createdAt: 'asc' } },
+          communityComments: { orderBy: { createdAt: 'asc' } },
+          connections: { orderBy: { createdAt: 'asc' } },
+          communityReports: { orderBy: { createdAt: 'asc' } },
+          communityReactions: { orderBy: { createdAt: 'asc' } },
+          peerSupportMessages: { orderBy: { createdAt: 'asc' } },
+        },
+      }),
+    ]);
+
+    return {
+      account,
+      conversations,
+      crisisAssessments,
+      escalations,
+      contentInteractions,
+      contentRecommendations,
+      contentAccess,
+      authoredContent,
+      notifications,
+      community,
+    };
+  }
+
+  async eraseUserData(userId: string): Promise<number> {
+    const prisma = await loadPrisma();
+    // One pseudonym per erasure, so a user's escalations still read as one person's history
+    const pseudonym = `erased-${randomUUID()}`;
+
+    return prisma.$transaction(async tx => {
+      const owned = await Promise.all([
+        tx.conversation.count({ where: { userId } }),
+        tx.message.count({ where: { conversation: { userId } } }),
+        tx.crisisAssessment.count({ where: { userId } }),
+        tx.userContentInteraction.count({ where: { userId } }),
+        tx.contentRecommendation.count({ where: { userId } }),
+        tx.apiKey.count({ where: { userId } }),
+        tx.communityPost.count({ where: { authorId: userId } }),
+        tx.communityComment.count({ where: { authorId: userId } }),
+        tx.userConnection.count({ where: { OR: [{ userId }, { connectedUserId: userId }] } }),
+        tx.communityReport.count({ where: { reporterId: userId } }),
+        tx.communityReaction.count({ where: { userId } }),
+        tx.peerSupportMessage.count({ where: { senderId: userId } }),
+      ]);
+
+      const detached = await Promise.all([
+        tx.escalation.updateMany({ where: { userId }, data: { userId: pseudonym } }),
+        tx.content.updateMany({ where: { authorId: userId }, data: { authorId: null } }),
+        tx.contentAccess.updateMany({ where: { userId }, data: { userId: null, ipAddress: null, userAgent: null } }),
+        tx.inboxNotification.deleteMany({ where: { userId } }),
+        tx.communityModerationAppeal.deleteMany({ where: { userId } }),
+        tx.user.deleteMany({ where: { id: userId } }),
+      ]);
+
+      return owned.reduce((sum, count) => sum + count, 0)
+        + detached.reduce((sum, result) => sum + result.count, 0);
+    });
+  }
+}
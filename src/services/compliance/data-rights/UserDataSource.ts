@@ -0,0 +1,9 @@
+/**
+ * Somewhere a user's data lives. Each source exports what the user is entitled to a copy of, and
+ * erases everything tied to them: deleted, or anonymised where a record has to outlive the account.
+ */
+export interface UserDataSource {
+  readonly name: string;
+  exportUserData(userId: string): Promise<unknown>;
+  eraseUserData(userId: string): Promise<number>; // Records deleted or anonymised
+}
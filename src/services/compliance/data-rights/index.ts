@@ -0,0 +1,59 @@
+import { getProgressTrackingService } from '@/services/analytics/ProgressTrackingService';
+import { getEmotionDetectionService } from '@/services/emotion/EmotionDetectionService';
+import { getEmotionalUXService } from '@/services/ux/EmotionalUXService';
+import { getAuditLog } from '../audit';
+import { AccountDataService } from './AccountDataService';
+import { AccountDeletionStore } from './AccountDeletionStore';
+import { InMemoryAccountDeletionStore } from './InMemoryAccountDeletionStore';
+import { PgAccountDeletionStore } from './PgAccountDeletionStore';
+import { PrismaUserDataSource } from './PrismaUserDataSource';
+import type { UserDataSource } from './UserDataSource';
+
+export type { AccountDeletionRequest, AccountDeletionStatus, AccountDeletionStore } from './AccountDeletionStore';
+export { DeletionAlreadyPendingError } from './AccountDeletionStore';
+export { InMemoryAccountDeletionStore } from './InMemoryAccountDeletionStore';
+export { PgAccountDeletionStore } from './PgAccountDeletionStore';
+export { PrismaUserDataSource } from './PrismaUserDataSource';
+export type { UserDataSource } from './UserDataSource';
+export { AccountDataService, ACCOUNT_EXPORT_FORMAT } from './AccountDataService';
+export type { AccountDataServiceConfig, AccountExport } from './AccountDataService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let defaultStore: AccountDeletionStore | null = null;
+let defaultService: AccountDataService | null = null;
+
+/**
+ * Store selected by ACCOUNT_DELETION_STORE ('postgres' | 'memory'). Defaults to Postgres, except under
+ * test where the in-memory store is used.
+ */
+export function getAccountDeletionStore(): AccountDeletionStore {
+  if (!defaultStore) {
+    const backend = process.env.ACCOUNT_DELETION_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryAccountDeletionStore() : new PgAccountDeletionStore();
+  }
+  return defaultStore;
+}
+
+// Everywhere user data lives, including the services that only hold it in memory
+export function getUserDataSources(): UserDataSource[] {
+  return [
+    new PrismaUserDataSource(),
+    getProgressTrackingService(),
+    getEmotionDetectionService(),
+    getEmotionalUXService(),
+  ];
+}
+
+export function getAccountDataService(): AccountDataService {
+  if (!defaultService) {
+    defaultService = new AccountDataService(getUserDataSources(), getAccountDeletionStore(), getAuditLog(), {
+      ...(process.env.ACCOUNT_DELETION_GRACE_DAYS && {
+        gracePeriodMs: parseFloat(process.env.ACCOUNT_DELETION_GRACE_DAYS) * DAY_MS,
+      }),
+    });
+  }
+  return defaultService;
+}
@@ -0,0 +1,105 @@
+import type { Prisma } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type { RetentionPolicy } from './RetentionPolicy';
+import { ExpiredRecordCount, LegalHolds, RetentionStore } from './RetentionStore';
+
+// Escalated crisis assessments, and the conversations they were raised in, are kept under legal hold
+function heldAssessment(holds: LegalHolds): Prisma.CrisisAssessmentWhereInput {
+  return { OR: [{ escalated: true }, { id: { in: holds.crisisAssessmentIds } }] };
+}
+
+function heldMessage(holds: LegalHolds): Prisma.MessageWhereInput {
+  return { conversation: { crisisAssessments: { some: heldAssessment(holds) } } };
+}
+
+// Rows that still identify someone; anonymized rows are left alone
+const IDENTIFIED_ACCESS: Prisma.ContentAccessWhereInput = {
+  OR: [{ userId: { not: null } }, { ipAddress: { not: null } }, { userAgent: { not: null } }],
+};
+
+function messageWhere(cutoff: Date, holds: LegalHolds, held: boolean): Prisma.MessageWhereInput {
+  return { timestamp: { lt: cutoff }, ...(held ? heldMessage(holds) : { NOT: heldMessage(holds) }) };
+}
+
+function assessmentWhere(cutoff: Date, holds: LegalHolds, held: boolean): Prisma.CrisisAssessmentWhereInput {
+  return { flaggedAt: { lt: cutoff }, ...(held ? heldAssessment(holds) : { NOT: heldAssessment(holds) }) };
+}
+
+function accessWhere(policy: RetentionPolicy, cutoff: Date): Prisma.ContentAccessWhereInput {
+  return { createdAt: { lt: cutoff }, ...(policy.action === 'anonymize' ? IDENTIFIED_ACCESS : {}) };
+}
+
+/**
+ * Purges through the Prisma client. Batches are selected by ID first, since neither `deleteMany` nor
+ * `updateMany` takes a limit.
+ */
+export class PgRetentionStore implements RetentionStore {
+  async countExpired(policy: RetentionPolicy, cutoff: Date, holds: LegalHolds): Promise<ExpiredRecordCount> {
+    const prisma = await loadPrisma();
+
+    switch (policy.model) {
+      case 'Message': {
+        const [eligible, held] = await Promise.all([
+          prisma.message.count({ where: messageWhere(cutoff, holds, false) }),
+          prisma.message.count({ where: messageWhere(cutoff, holds, true) }),
+        ]);
+        return { eligible, held };
+      }
+      case 'CrisisAssessment': {
+        const [eligible, held] = await Promise.all([
+          prisma.crisisAssessment.count({ where: assessmentWhere(cutoff, holds, false) }),
+          prisma.crisisAssessment.count({ where: assessmentWhere(cutoff, holds, true) }),
+        ]);
+        return { eligible, held };
+      }
+      case 'ContentAccess':
+        return { eligible: await prisma.contentAccess.count({ where: accessWhere(policy, cutoff) }), held: 0 };
+      case 'Session':
+        return { eligible: await prisma.session.count({ where: { expires: { lt: cutoff } } }), held: 0 };
+      case 'VerificationToken':
+        return { eligible: await prisma.verificationToken.count({ where: { expires: { lt: cutoff } } }), held: 0 };
+    }
+  }
+
+  async purgeExpired(policy: RetentionPolicy, cutoff: Date, limit: number, holds: LegalHolds): Promise<number> {
+    const prisma = await loadPrisma();
+
+    switch (policy.model) {
+      // Deletes re-check the hold, in case an assessment was escalated since the batch was selected
+      case 'Message': {
+        const batch = await prisma.message.findMany({ where: messageWhere(cutoff, holds, false), select: { id: true }, take: limit });
+        const result = await prisma.message.deleteMany({
+          where: { id: { in: batch.map(row => row.id) }, NOT: heldMessage(holds) },
+        });
+        return result.count;
+      }
+      case 'CrisisAssessment': {
+        const batch = await prisma.crisisAssessment.findMany({ where: assessmentWhere(cutoff, holds, false), select: { id: true }, take: limit });
+        const result = await prisma.crisisAssessment.deleteMany({
+          where: { id: { in: batch.map(row => row.id) }, NOT: heldAssessment(holds) },
+        });
+        return result.count;
+      }
+      case 'ContentAccess': {
+        const where = accessWhere(policy, cutoff);
+        const batch = await prisma.contentAccess.findMany({ where, select: { id: true }, take: limit });
+        const ids = { id: { in: batch.map(row => row.id) } };
+
+        const result = policy.action === 'anonymize'
+          ? await prisma.contentAccess.updateMany({ where: ids, data: { userId: null, ipAddress: null, userAgent: null } })
+          : await prisma.contentAccess.deleteMany({ where: ids });
+        return result.count;
+      }
+      case 'Session': {
+        const batch = await prisma.session.findMany({ where: { expires: { lt: cutoff } }, select: { id: true }, take: limit });
+        const result = await prisma.session.deleteMany({ where: { id: { in: batch.map(row => row.id) } } });
+        return result.count;
+      }
+      case 'VerificationToken': {
+        const batch = await prisma.verificationToken.findMany({ where: { expires: { lt: cutoff } }, select: { token: true }, take: limit });
+        const result = await prisma.verificationToken.deleteMany({ where: { token: { in: batch.map(row => row.token) } } });
+        return result.count;
+      }
+    }
+  }
+}
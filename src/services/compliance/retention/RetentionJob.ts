@@ -0,0 +1,178 @@
+import { logger } from '@/lib/logger';
+import type { AuditLog } from '../audit';
+import type { RetentionAction, RetentionModel, RetentionPolicy } from './RetentionPolicy';
+import type { LegalHolds, LegalHoldSource, RetentionStore } from './RetentionStore';
+
+export interface RetentionJobConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  dryRun: boolean; // Scheduled runs only report what they would purge
+}
+
+export interface RetentionPolicyResult {
+  model: RetentionModel;
+  action: RetentionAction;
+  retentionDays: number;
+  cutoff: Date;
+  eligible: number;
+  held: number;
+  purged: number; // Always 0 on a dry run
+  error?: string;
+}
+
+export interface RetentionRun {
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+  results: RetentionPolicyResult[];
+}
+
+export interface RetentionRunOptions {
+  dryRun?: boolean; // The job's configured mode unless given
+  requestedBy?: string; // User who asked for the run; scheduled runs are the system's
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_CONFIG: RetentionJobConfig = {
+  pollIntervalMs: 24 * 60 * 60 * 1000,
+  batchSize: 500,
+  dryRun: false,
+};
+
+/**
+ * Purges records past their retention period, per policy, on a schedule or on request. Every run,
+ * dry runs included, is recorded in the audit log with its counts per model; the compliance report
+ * reads them back from there.
+ */
+export class RetentionJob {
+  private config: RetentionJobConfig;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private policies: RetentionPolicy[],
+    private store: RetentionStore,
+    private holds: LegalHoldSource,
+    private auditLog: AuditLog,
+    config: Partial<RetentionJobConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getPolicies(): RetentionPolicy[] {
+    return this.policies.map(policy => ({ ...policy }));
+  }
+
+  /**
+   * Apply every enabled policy. A policy that fails is reported in its result and the rest still run.
+   */
+  async run(options: RetentionRunOptions = {}, now: Date = new Date()): Promise<RetentionRun> {
+    const dryRun = options.dryRun ?? this.config.dryRun;
+    const startedAt = new Date();
+    const results: RetentionPolicyResult[] = [];
+
+    for (const policy of this.policies.filter(candidate => candidate.enabled)) {
+      results.push(await this.applyPolicy(policy, now, dryRun));
+    }
+
+    const run: RetentionRun = { dryRun, startedAt, finishedAt: new Date(), results };
+    const failed = results.filter(result => result.error);
+
+    await this.auditLog.record({
+      actorId: options.requestedBy ?? 'system',
+      actorType: options.requestedBy ? 'user' : 'system',
+      action: dryRun ? 'retention.dry_run' : 'retention.purge',
+      resourceType: 'retention_policy',
+      purpose: 'compliance',
+      outcome: failed.length > 0 ? 'failure' : 'success',
+      metadata: { results },
+    });
+
+    logger.info({
+      dryRun,
+      purged: results.reduce((sum, result) => sum + result.purged, 0),
+      held: results.reduce((sum, result) => sum + result.held, 0),
+      failed: failed.map(result => result.model)
+    }, 'Retention run finished');
+
+    return run;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info({ pollIntervalMs: this.config.pollIntervalMs, dryRun: this.config.dryRun }, 'Retention job started');
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async applyPolicy(policy: RetentionPolicy, now: Date, dryRun: boolean): Promise<RetentionPolicyResult> {
+    const cutoff = new Date(now.getTime() - policy.retentionDays * DAY_MS);
+    const result: RetentionPolicyResult = {
+      model: policy.model,
+      action: policy.action,
+      retentionDays: policy.retentionDays,
+      cutoff,
+      eligible: 0,
+      held: 0,
+      purged: 0,
+    };
+
+    try {
+      Object.assign(result, await this.store.countExpired(policy, cutoff, await this.currentHolds()));
+
+      if (!dryRun) {
+        let purged: number;
+        do {
+          // Re-read per batch so an escalation started mid-run is held from the next batch on
+          purged = await this.store.purgeExpired(policy, cutoff, this.config.batchSize, await this.currentHolds());
+          result.purged += purged;
+          // A full batch means more may be expired
+        } while (purged === this.config.batchSize);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ model: policy.model, error: result.error }, 'Retention policy failed');
+    }
+
+    return result;
+  }
+
+  private async currentHolds(): Promise<LegalHolds> {
+    return { crisisAssessmentIds: await this.holds.listEscalatedAssessmentIds() };
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    try {
+      await this.run();
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Retention poll failed');
+    } finally {
+      if (this.running) {
+        this.schedule(this.config.pollIntervalMs);
+      }
+    }
+  }
+}
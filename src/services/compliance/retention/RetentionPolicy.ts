@@ -0,0 +1,67 @@
+export type RetentionModel = 'Message' | 'ContentAccess' | 'CrisisAssessment' | 'Session' | 'VerificationToken';
+
+// 'anonymize' keeps the row for aggregate reporting and clears who it was about
+export type RetentionAction = 'delete' | 'anonymize';
+
+/**
+ * How long a model's records are kept. Age is measured from when the record was made, except for
+ * sessions and verification tokens, where it is measured from their expiry.
+ */
+export interface RetentionPolicy {
+  model: RetentionModel;
+  retentionDays: number;
+  action: RetentionAction;
+  enabled: boolean;
+}
+
+export const RETENTION_MODELS: RetentionModel[] = ['Message', 'ContentAccess', 'CrisisAssessment', 'Session', 'VerificationToken'];
+
+// Only models with identifying columns that can be cleared support 'anonymize'
+const ANONYMIZABLE_MODELS: RetentionModel[] = ['ContentAccess'];
+
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicy[] = [
+  { model: 'Message', retentionDays: 730, action: 'delete', enabled: true },
+  { model: 'ContentAccess', retentionDays: 90, action: 'anonymize', enabled: true },
+  // Six years, as for HIPAA documentation; escalated assessments are held regardless
+  { model: 'CrisisAssessment', retentionDays: 2190, action: 'delete', enabled: true },
+  { model: 'Session', retentionDays: 0, action: 'delete', enabled: true },
+  { model: 'VerificationToken', retentionDays: 0, action: 'delete', enabled: true },
+];
+
+/**
+ * The default policies with overrides per model from DATA_RETENTION_POLICIES, e.g.
+ * `{"Message":{"retentionDays":365},"ContentAccess":{"action":"delete"},"Session":{"enabled":false}}`
+ */
+export function resolveRetentionPolicies(overrides: string | undefined = process.env.DATA_RETENTION_POLICIES): RetentionPolicy[] {
+  if (!overrides) {
+    return DEFAULT_RETENTION_POLICIES.map(policy => ({ ...policy }));
+  }
+
+  let parsed: Record<string, Partial<RetentionPolicy>>;
+  try {
+    parsed = JSON.parse(overrides);
+  } catch {
+    throw new Error('DATA_RETENTION_POLICIES must be a JSON object keyed by model');
+  }
+
+  for (const model of Object.keys(parsed)) {
+    if (!RETENTION_MODELS.includes(model as RetentionModel)) {
+      throw new Error(`DATA_RETENTION_POLICIES names unknown model ${model}`);
+    }
+  }
+
+  return DEFAULT_RETENTION_POLICIES.map(defaults => {
+    const policy: RetentionPolicy = { ...defaults, ...parsed[defaults.model], model: defaults.model };
+
+    if (typeof policy.retentionDays !== 'number' || !(policy.retentionDays >= 0)) {
+      throw new Error(`Retention period for ${policy.model} must be a non-negative number of days`);
+    }
+    if (policy.action !== 'delete' && policy.action !== 'anonymize') {
+      throw new Error(`Retention action for ${policy.model} must be delete or anonymize`);
+    }
+    if (policy.action === 'anonymize' && !ANONYMIZABLE_MODELS.includes(policy.model)) {
+      throw new Error(`${policy.model} records can only be deleted`);
+    }
+    return policy;
+  });
+}
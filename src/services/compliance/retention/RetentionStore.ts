@@ -0,0 +1,32 @@
+import type { RetentionPolicy } from './RetentionPolicy';
+
+export interface ExpiredRecordCount {
+  eligible: number; // Older than the cutoff and purgeable
+  held: number; // Older than the cutoff but under legal hold
+}
+
+/**
+ * Records kept past their retention period. An escalated crisis assessment is held, and so is every
+ * message in the conversation it was raised in.
+ */
+export interface LegalHolds {
+  crisisAssessmentIds: string[];
+}
+
+/**
+ * Where holds come from; the escalation store, which knows which assessments were escalated
+ */
+export interface LegalHoldSource {
+  listEscalatedAssessmentIds(): Promise<string[]>;
+}
+
+/**
+ * Where a policy's records live. A record is expired once it is older than the cutoff; expired
+ * records under legal hold are never purged.
+ */
+export interface RetentionStore {
+  countExpired(policy: RetentionPolicy, cutoff: Date, holds: LegalHolds): Promise<ExpiredRecordCount>;
+
+  // Delete or anonymize up to `limit` expired records that aren't held; returns how many
+  purgeExpired(policy: RetentionPolicy, cutoff: Date, limit: number, holds: LegalHolds): Promise<number>;
+}
@@ -0,0 +1,28 @@
+import { getEscalationStore } from '@/services/safety/escalation';
+import { getAuditLog } from '../audit';
+import { PgRetentionStore } from './PgRetentionStore';
+import { RetentionJob } from './RetentionJob';
+import { resolveRetentionPolicies } from './RetentionPolicy';
+
+export type { RetentionAction, RetentionModel, RetentionPolicy } from './RetentionPolicy';
+export { DEFAULT_RETENTION_POLICIES, RETENTION_MODELS, resolveRetentionPolicies } from './RetentionPolicy';
+export type { ExpiredRecordCount, LegalHolds, LegalHoldSource, RetentionStore } from './RetentionStore';
+export { PgRetentionStore } from './PgRetentionStore';
+export { RetentionJob } from './RetentionJob';
+export type { RetentionJobConfig, RetentionPolicyResult, RetentionRun, RetentionRunOptions } from './RetentionJob';
+
+let defaultJob: RetentionJob | null = null;
+
+/**
+ * The process-wide retention job, with policies from DATA_RETENTION_POLICIES over the defaults.
+ * Assessments with an escalation in the escalation store are under legal hold.
+ * RETENTION_DRY_RUN=true makes scheduled runs report without purging.
+ */
+export function getRetentionJob(): RetentionJob {
+  if (!defaultJob) {
+    defaultJob = new RetentionJob(resolveRetentionPolicies(), new PgRetentionStore(), getEscalationStore(), getAuditLog(), {
+      dryRun: process.env.RETENTION_DRY_RUN === 'true',
+    });
+  }
+  return defaultJob;
+}
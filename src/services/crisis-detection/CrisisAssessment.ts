@@ -0,0 +1,95 @@
+import type { Framing } from './LinguisticContext';
+
+export type CrisisSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface CrisisIndicators {
+  suicideIdeation: boolean;
+  selfHarm: boolean;
+  severeDepression: boolean;
+  acuteAnxiety: boolean;
+  substanceAbuse: boolean;
+  eatingDisorders: boolean;
+  domesticViolence: boolean;
+  other: string[];
+}
+
+export type CrisisCategory = Exclude<keyof CrisisIndicators, 'other'>;
+
+export const CRISIS_CATEGORIES: CrisisCategory[] = [
+  'suicideIdeation',
+  'selfHarm',
+  'severeDepression',
+  'acuteAnxiety',
+  'substanceAbuse',
+  'eatingDisorders',
+  'domesticViolence',
+];
+
+export interface CrisisAction {
+  type: 'escalate' | 'resources' | 'monitor' | 'intervene';
+  priority: 'immediate' | 'urgent' | 'routine';
+  description: string;
+  target: 'professional' | 'emergency_services' | 'user';
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A matched phrase whose weight was discounted because of how it was used
+ * (negated, reported, hypothetical or about someone else)
+ */
+export interface FramingAdjustment {
+  detector: string;
+  term: string;
+  framings: Framing[];
+  cues: string[];
+  multiplier: number;
+}
+
+/**
+ * What a single detector contributed to an assessment
+ */
+export interface CrisisSignal {
+  detector: string;
+  score: number; // 0-1 before the detector's weight is applied
+  categories: CrisisCategory[];
+  evidence: string[]; // Matched terms, pattern names or model findings
+}
+
+/**
+ * The one assessment shape produced by the crisis detection engine and consumed by chat,
+ * the safety API, escalation and monitoring.
+ */
+export interface CrisisAssessment {
+  id?: string; // Set once the assessment has been persisted
+  userId: string;
+  sessionId: string;
+  conversationId?: string;
+  language: string; // ISO 639-1 code the message was analysed in; selects locale-appropriate resources
+  severity: CrisisSeverity;
+  confidence: number; // 0-1, after false positive filtering
+  indicators: CrisisIndicators;
+  signals: CrisisSignal[];
+  riskFactors: string[];
+  adjustments: FramingAdjustment[]; // Why matched phrases counted for less than their face value
+  recommendedActions: CrisisAction[];
+  immediate: boolean; // Requires intervention without waiting for review
+  context: string; // The analysed message
+  detectedAt: Date;
+}
+
+export function emptyIndicators(): CrisisIndicators {
+  return {
+    suicideIdeation: false,
+    selfHarm: false,
+    severeDepression: false,
+    acuteAnxiety: false,
+    substanceAbuse: false,
+    eatingDisorders: false,
+    domesticViolence: false,
+    other: [],
+  };
+}
+
+export function activeCategories(indicators: CrisisIndicators): CrisisCategory[] {
+  return CRISIS_CATEGORIES.filter(category => indicators[category]);
+}
@@ -0,0 +1,155 @@
+import { logger } from '@/lib/logger';
+import type { Prisma, CrisisAssessment as CrisisAssessmentRow } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type { CrisisAssessment, CrisisIndicators, CrisisSeverity, CrisisSignal } from './CrisisAssessment';
+
+export type ReviewStatus = 'unreviewed' | 'reviewed' | 'escalated';
+
+export interface StoredCrisisAssessment {
+  id: string;
+  conversationId: string;
+  userId: string;
+  sessionId?: string;
+  language?: string;
+  severity: CrisisSeverity;
+  confidence: number;
+  indicators: CrisisIndicators;
+  signals: CrisisSignal[];
+  riskFactors: string[];
+  recommendedActions: string[];
+  immediate: boolean;
+  flaggedAt: Date;
+  reviewed: boolean;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  escalated: boolean;
+  escalationLevel?: string;
+  escalationNotes?: string;
+  escalatedAt?: Date;
+}
+
+export interface AssessmentHistoryQuery {
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Persistence and professional review of assessments in the `crisis_assessments` table
+ */
+export class CrisisAssessmentRepository {
+  async save(assessment: CrisisAssessment & { conversationId: string }): Promise<string> {
+    const prisma = await loadPrisma();
+    const row = await prisma.crisisAssessment.create({
+      data: {
+        conversationId: assessment.conversationId,
+        userId: assessment.userId,
+        sessionId: assessment.sessionId,
+        language: assessment.language,
+        riskLevel: assessment.severity,
+        indicators: assessment.indicators as unknown as Prisma.InputJsonValue,
+        signals: assessment.signals as unknown as Prisma.InputJsonValue,
+        riskFactors: assessment.riskFactors,
+        overallScore: assessment.confidence,
+        immediate: assessment.immediate,
+        recommendedActions: assessment.recommendedActions.map(action => action.description),
+        flaggedAt: assessment.detectedAt,
+      },
+    });
+
+    return row.id;
+  }
+
+  async getAssessmentsForReview(status: ReviewStatus = 'unreviewed', limit: number = 50): Promise<StoredCrisisAssessment[]> {
+    const prisma = await loadPrisma();
+    const where = status === 'unreviewed' ? { reviewed: false }
+      : status === 'escalated' ? { escalated: true }
+      : { reviewed: true };
+
+    const rows = await prisma.crisisAssessment.findMany({
+      where,
+      orderBy: { flaggedAt: 'desc' },
+      take: limit,
+    });
+
+    return rows.map(formatAssessmentFromDb);
+  }
+
+  /**
+   * Assessments flagged in a time window, newest first, e.g. to replay them against a draft protocol
+   */
+  async listAssessments(query: AssessmentHistoryQuery = {}): Promise<StoredCrisisAssessment[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.crisisAssessment.findMany({
+      where: {
+        ...((query.since || query.until) && {
+          flaggedAt: {
+            ...(query.since && { gte: query.since }),
+            ...(query.until && { lt: query.until }),
+          },
+        }),
+      },
+      orderBy: { flaggedAt: 'desc' },
+      take: query.limit ?? 500,
+    });
+
+    return rows.map(formatAssessmentFromDb);
+  }
+
+  async markAsReviewed(assessmentId: string, reviewerId: string, notes?: string): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.crisisAssessment.update({
+      where: { id: assessmentId },
+      data: {
+        reviewed: true,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: notes,
+      },
+    });
+
+    logger.info({ assessmentId, reviewerId }, 'Crisis assessment marked as reviewed');
+  }
+
+  async escalateAssessment(assessmentId: string, escalationLevel: string, notes?: string): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.crisisAssessment.update({
+      where: { id: assessmentId },
+      data: {
+        escalated: true,
+        escalationLevel,
+        escalationNotes: notes,
+        escalatedAt: new Date(),
+      },
+    });
+
+    logger.warn({ assessmentId, escalationLevel }, 'Crisis assessment escalated');
+  }
+}
+
+function formatAssessmentFromDb(row: CrisisAssessmentRow): StoredCrisisAssessment {
+  return {
+    id: row.id,
+    conversationId: row.conversationId,
+    userId: row.userId,
+    sessionId: row.sessionId ?? undefined,
+    language: row.language ?? undefined,
+    severity: row.riskLevel as CrisisSeverity,
+    confidence: row.overallScore,
+    indicators: row.indicators as unknown as CrisisIndicators,
+    signals: (row.signals ?? []) as unknown as CrisisSignal[],
+    riskFactors: row.riskFactors,
+    recommendedActions: row.recommendedActions,
+    immediate: row.immediate,
+    flaggedAt: row.flaggedAt,
+    reviewed: row.reviewed,
+    reviewedBy: row.reviewedBy ?? undefined,
+    reviewedAt: row.reviewedAt ?? undefined,
+    reviewNotes: row.reviewNotes ?? undefined,
+    escalated: row.escalated,
+    escalationLevel: row.escalationLevel ?? undefined,
+    escalationNotes: row.escalationNotes ?? undefined,
+    escalatedAt: row.escalatedAt ?? undefined,
+  };
+}
@@ -0,0 +1,293 @@
+import { logger } from '@/lib/logger';
+import {
+  CrisisAction,
+  CrisisAssessment,
+  CrisisCategory,
+  CrisisIndicators,
+  CrisisSeverity,
+  CrisisSignal,
+  FramingAdjustment,
+  activeCategories,
+  emptyIndicators,
+} from './CrisisAssessment';
+import type { CrisisAssessmentRepository } from './CrisisAssessmentRepository';
+import { detectLanguage } from './LanguageDetection';
+import { FRAMING_RISK_FACTORS } from './LinguisticContext';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './detectors/CrisisDetector';
+
+export interface CrisisDetectionEngineConfig {
+  minConfidence: number; // Assessments below this (after filtering) are not reported
+  severityThresholds: {
+    critical: number; // Minimum confidence for suicide or self-harm indicators no detector saw disclosed to be critical
+    high: number;
+    medium: number;
+  };
+}
+
+const DEFAULT_CONFIG: CrisisDetectionEngineConfig = {
+  minConfidence: 0.3,
+  severityThresholds: {
+    critical: 0.6,
+    high: 0.8,
+    medium: 0.5,
+  },
+};
+
+// Stated by the member about themselves, these are critical whatever else the message says, and
+// reported even when negated or framed as a joke
+const DISCLOSED_CATEGORIES: CrisisCategory[] = ['suicideIdeation', 'selfHarm'];
+
+interface ContextFilter {
+  riskFactor: string;
+  multiplier: number;
+  patterns: RegExp[];
+}
+
+// Clinical or educational discussion of a topic, discounted across the whole message. How individual
+// phrases are used (negated, reported, hypothetical, third person) is handled per match by the detectors.
+// Never applied to a first-person suicide or self-harm disclosure: "I'm going to take all my medication
+// and end my life" mentions medication and is still a plan.
+const CONTEXT_FILTERS: ContextFilter[] = [
+  {
+    riskFactor: 'professional_context',
+    multiplier: 0.5,
+    patterns: [
+      /\b(therapist|psychologist|counselor|doctor|psychiatrist)\b/i,
+      /\b(treatment|therapy|medication|counseling)\b/i,
+      /\b(diagnosis|assessment|evaluation)\b/i,
+      /\b(clinical|professional|medical)\b/i,
+      /\b(suicide\s+prevention|crisis\s+intervention)\b/i,
+    ],
+  },
+];
+
+/**
+ * Single source of crisis verdicts. Every detector in the pipeline scores the message independently;
+ * weighted scores are combined so that independent evidence reinforces (noisy-OR), then clinical
+ * discussion is discounted. A member disclosing suicidal intent or self-harm in the first person is
+ * always critical. Detectors report how they discounted negated, reported, hypothetical
+ * or third-person phrases, and those reasons are carried on the assessment. The message's language
+ * is detected first so detectors use the matching lexicon pack. The chat route and the
+ * safety API both call this engine so a message gets the same verdict wherever it is analysed.
+ */
+export class CrisisDetectionEngine {
+  private detectors: CrisisDetector[];
+  private repository?: CrisisAssessmentRepository;
+  private config: CrisisDetectionEngineConfig;
+
+  constructor(
+    detectors: CrisisDetector[],
+    options: { repository?: CrisisAssessmentRepository; config?: Partial<CrisisDetectionEngineConfig> } = {}
+  ) {
+    this.detectors = detectors;
+    this.repository = options.repository;
+    this.config = { ...DEFAULT_CONFIG, ...options.config };
+  }
+
+  getDetector<T extends CrisisDetector>(name: string): T | undefined {
+    return this.detectors.find(detector => detector.name === name) as T | undefined;
+  }
+
+  /**
+   * Assess a message. Returns null when no crisis is detected.
+   */
+  async assess(request: CrisisDetectionRequest): Promise<CrisisAssessment | null> {
+    if (!request.message || !request.message.trim()) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    const { language } = detectLanguage(request.message, request.language || 'en');
+    const signals = await this.runDetectors({ ...request, language });
+
+    if (signals.length === 0) {
+      return null;
+    }
+
+    const indicators = emptyIndicators();
+    const riskFactors = new Set<string>();
+    const adjustments: FramingAdjustment[] = [];
+    let remaining = 1;
+    let disclosed = false;
+    let framedDisclosure = false;
+
+    for (const { detector, result } of signals) {
+      disclosed ||= (result.disclosures || []).some(category => DISCLOSED_CATEGORIES.includes(category));
+      framedDisclosure ||= (result.framedDisclosures || []).some(category => DISCLOSED_CATEGORIES.includes(category));
+      remaining *= 1 - Math.min(result.score, 1) * detector.weight;
+      result.categories.forEach(category => { indicators[category] = true; });
+      for (const concern of result.other || []) {
+        if (!indicators.other.includes(concern)) indicators.other.push(concern);
+      }
+      result.riskFactors.forEach(factor => riskFactors.add(factor));
+
+      for (const adjustment of result.adjustments || []) {
+        adjustments.push(adjustment);
+        adjustment.framings.forEach(framing => riskFactors.add(FRAMING_RISK_FACTORS[framing]));
+      }
+    }
+
+    let confidence = 1 - remaining;
+
+    for (const filter of disclosed ? [] : CONTEXT_FILTERS) {
+      if (filter.patterns.some(pattern => pattern.test(request.message))) {
+        confidence *= filter.multiplier;
+        riskFactors.add(filter.riskFactor);
+      }
+    }
+
+    // Framing can be misread ("I can't promise I won't hurt myself"), so a first-person suicide or
+    // self-harm statement it discounted is still reported; framing only lowers its severity
+    if (framedDisclosure) {
+      confidence = Math.max(confidence, this.config.minConfidence);
+    }
+
+    if (confidence < this.config.minConfidence) {
+      logger.info({
+        userId: request.userId,
+        sessionId: request.sessionId,
+        language,
+        confidence,
+        riskFactors: Array.from(riskFactors),
+      }, 'Crisis indicators below reporting threshold');
+      return null;
+    }
+
+    const severity = disclosed ? 'critical' : this.determineSeverity(confidence, indicators);
+    const assessment: CrisisAssessment = {
+      userId: request.userId,
+      sessionId: request.sessionId,
+      conversationId: request.conversationId,
+      language,
+      severity,
+      confidence,
+      indicators,
+      signals: signals.map(({ detector, result }): CrisisSignal => ({
+        detector: detector.name,
+        score: result.score,
+        categories: result.categories,
+        evidence: result.evidence,
+      })),
+      riskFactors: Array.from(riskFactors),
+      adjustments,
+      recommendedActions: this.generateRecommendedActions(severity, confidence),
+      immediate: severity === 'critical',
+      context: request.message,
+      detectedAt: new Date(),
+    };
+
+    await this.persist(assessment);
+
+    logger.info({
+      userId: request.userId,
+      sessionId: request.sessionId,
+      assessmentId: assessment.id,
+      language,
+      severity,
+      confidence,
+      detectors: assessment.signals.map(signal => signal.detector),
+      indicators: activeCategories(indicators),
+      analysisTime: Date.now() - startTime,
+    }, 'Crisis assessment completed');
+
+    return assessment;
+  }
+
+  private async runDetectors(
+    request: CrisisDetectionRequest
+  ): Promise<Array<{ detector: CrisisDetector; result: DetectorResult }>> {
+    const results = await Promise.all(this.detectors.map(async detector => {
+      try {
+        return { detector, result: await detector.detect(request) };
+      } catch (error) {
+        // One broken detector must not silence the others
+        logger.error({
+          detector: detector.name,
+          userId: request.userId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Crisis detector failed');
+        return { detector, result: null };
+      }
+    }));
+
+    return results.filter((r): r is { detector: CrisisDetector; result: DetectorResult } =>
+      r.result !== null && r.result.score > 0);
+  }
+
+  private determineSeverity(confidence: number, indicators: CrisisIndicators): CrisisSeverity {
+    const { severityThresholds } = this.config;
+    const categoryCount = activeCategories(indicators).length;
+
+    if ((indicators.suicideIdeation || indicators.selfHarm) && confidence >= severityThresholds.critical) {
+      return 'critical';
+    }
+    if (confidence >= severityThresholds.high || categoryCount >= 3) {
+      return 'high';
+    }
+    if (confidence >= severityThresholds.medium || categoryCount >= 2) {
+      return 'medium';
+    }
+    return 'low';
+  }
+
+  private generateRecommendedActions(severity: CrisisSeverity, confidence: number): CrisisAction[] {
+    const actions: CrisisAction[] = [];
+
+    if (severity === 'critical') {
+      actions.push({
+        type: 'escalate',
+        priority: 'immediate',
+        description: 'Immediate professional intervention required',
+        target: 'professional',
+        metadata: { escalationLevel: 'critical' }
+      });
+    } else if (severity === 'high') {
+      actions.push({
+        type: 'escalate',
+        priority: 'urgent',
+        description: 'Urgent professional consultation recommended',
+        target: 'professional',
+        metadata: { escalationLevel: 'high' }
+      });
+    }
+
+    // Always provide crisis resources
+    actions.push({
+      type: 'resources',
+      priority: 'immediate',
+      description: 'Provide immediate crisis resources and hotlines',
+      target: 'user',
+      metadata: { resourceType: 'crisis_hotlines' }
+    });
+
+    if (severity !== 'low' || confidence > 0.4) {
+      actions.push({
+        type: 'monitor',
+        priority: 'urgent',
+        description: 'Increase monitoring for continued risk assessment',
+        target: 'professional',
+        metadata: { monitoringLevel: 'elevated' }
+      });
+    }
+
+    return actions;
+  }
+
+  private async persist(assessment: CrisisAssessment): Promise<void> {
+    const { conversationId } = assessment;
+    if (!this.repository || !conversationId) {
+      return;
+    }
+
+    try {
+      assessment.id = await this.repository.save({ ...assessment, conversationId });
+    } catch (error) {
+      // The verdict still reaches the caller; losing the audit row is logged rather than dropping the detection
+      logger.error({
+        userId: assessment.userId,
+        conversationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Failed to store crisis assessment');
+    }
+  }
+}
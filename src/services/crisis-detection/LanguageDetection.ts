@@ -0,0 +1,40 @@
+import { normalizeText } from './detectors/LexicalDetector';
+import { LEXICON_PACKS, LexiconPack } from './lexicons';
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1
+  confidence: number; // Share of the language evidence that pointed at this language, 0 when falling back
+  detected: boolean; // False when the message was inconclusive and the fallback was used
+}
+
+// Language-specific letters are weaker evidence than a whole function word
+const CHARACTER_WEIGHT = 0.5;
+
+/**
+ * Identify the language of a message from the function words and letters each lexicon pack lists.
+ * Crisis messages are short and often typed in a hurry, so this is a vote over common words
+ * rather than a statistical model; a tie or no evidence at all keeps the fallback, which callers
+ * set to the user's preferred language.
+ */
+export function detectLanguage(
+  text: string,
+  fallback = 'en',
+  packs: LexiconPack[] = LEXICON_PACKS
+): LanguageDetection {
+  const tokens = normalizeText(text).match(/[a-z0-9\u00c0-\u024f']+/g) || [];
+  const lower = text.toLowerCase();
+
+  const scores = packs.map(pack => {
+    const words = tokens.filter(token => pack.markers.includes(token)).length;
+    const characters = pack.characters ? (lower.match(pack.characters) || []).length : 0;
+    return { language: pack.language, score: words + characters * CHARACTER_WEIGHT };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (!best || best.score === 0 || (runnerUp && runnerUp.score === best.score)) {
+    return { language: fallback, confidence: 0, detected: false };
+  }
+
+  const total = scores.reduce((sum, { score }) => sum + score, 0);
+  return { language: best.language, confidence: best.score / total, detected: true };
+}
@@ -0,0 +1,351 @@
+/**
+ * Linguistic preprocessing for crisis detection. A lexicon match only says a phrase occurred;
+ * this works out how it was used: negated ("I would never kill myself"), reported or quoted
+ * ("my friend said she wants to die", song lyrics), hypothetical ("what if", fiction, jokes)
+ * or about someone other than the user. Detectors discount framed matches instead of scoring
+ * them like first-person statements.
+ */
+
+export type Framing = 'negated' | 'reported' | 'hypothetical' | 'third_person';
+
+export type Subject = 'self' | 'other' | 'unknown';
+
+export const FRAMING_MULTIPLIERS: Record<Framing, number> = {
+  negated: 0.15,
+  reported: 0.3,
+  hypothetical: 0.5,
+  third_person: 0.35,
+};
+
+export const FRAMING_RISK_FACTORS: Record<Framing, string> = {
+  negated: 'negation_detected',
+  reported: 'reported_speech',
+  hypothetical: 'hypothetical_content',
+  third_person: 'third_person_subject',
+};
+
+export interface LinguisticCues {
+  negations: string[];
+  negationWindow: number; // Max tokens between a negation cue and the phrase it negates
+  // Words that start a new clause, so a negation before them doesn't reach past them ("I don't care I
+  // want to die"): subject pronouns, and in languages that drop the subject, first-person verbs. A cue
+  // directly in front of one still negates it ("no quiero morir").
+  clauseOpeners: string[];
+  negationCancellers?: string[]; // Before a negated clause, these undo it: "I can't promise I won't"
+  clauseBreakers: string[]; // Words that end negation and subject scope ("I'm fine but I want to die")
+  reportingVerbs: string[];
+  selfSubjects: string[]; // First-person words, also looked for inside the matched phrase
+  otherSubjects: string[];
+  hypothetical: RegExp; // Tested against the clause before the match
+  fiction: RegExp; // Tested against the whole sentence
+  quotation: RegExp; // Lyrics, poems and quotes, tested against the whole sentence
+  joking: RegExp; // Tested against the whole sentence, and ignored when negated ("I'm not joking")
+}
+
+export const ENGLISH_CUES: LinguisticCues = {
+  negations: ['not', 'never', "don't", 'dont', "doesn't", "didn't", "won't", 'wont', "wouldn't", "isn't", "aren't", "i'm not", 'no', 'nor', 'no longer', 'nobody'],
+  negationWindow: 3,
+  clauseOpeners: ['i', "i'm", 'im', "i've", "i'd", "i'll", 'we', "we're", 'then'],
+  negationCancellers: ["can't", 'cant', 'cannot'],
+  clauseBreakers: ['but', 'and', 'because', 'though', 'although', 'however', 'except', 'yet'],
+  reportingVerbs: ['said', 'say', 'says', 'told', 'tell', 'tells', 'wrote', 'writes', 'posted', 'posts', 'texted', 'saying', 'claims', 'claimed'],
+  selfSubjects: ['i', "i'm", 'im', "i've", "i'd", "i'll", 'me', 'my', 'myself', 'we', "we're"],
+  otherSubjects: [
+    'he', 'she', 'they', "he's", "she's", "they're", 'him', 'her', 'them', 'himself', 'herself', 'themselves',
+    'someone', 'somebody', 'people', 'everyone', 'anyone', 'character', 'hero', 'protagonist', 'narrator',
+    'friend', 'brother', 'sister', 'mom', 'mum', 'dad', 'mother', 'father', 'son', 'daughter', 'partner',
+    'wife', 'husband', 'boyfriend', 'girlfriend', 'cousin', 'roommate', 'classmate', 'coworker', 'colleague',
+    'kid', 'child', 'teen', 'student', 'patient', 'client', 'neighbor', 'neighbour',
+  ],
+  hypothetical: /\b(what\s+if|suppose|supposing|imagine|hypothetical(ly)?|pretend)\b/,
+  fiction: /\b(in|from)\s+(the|a|this|that)\s+(movie|film|book|novel|show|series|game|story|episode|play)\b|\bthe\s+character\b/,
+  quotation: /\b(lyrics?|song|sings?|singing|sang|verse|poem|quote)\b/,
+  joking: /\b(joking|kidding|jk)\b/,
+};
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export interface LinguisticContext {
+  text: string; // Normalized text every match offset refers to
+  tokens: Token[];
+  sentences: Span[];
+  quotes: Span[];
+  cues: LinguisticCues;
+}
+
+export interface MatchFraming {
+  framings: Framing[];
+  subject: Subject;
+  cues: string[]; // The words or constructions that triggered each framing
+  multiplier: number; // Product of the framing multipliers; 1 when the match is a plain statement
+}
+
+const PUNCTUATION = /[,.;:!?\n]/;
+
+/**
+ * Tokenize and segment text once so every match in it can be framed cheaply.
+ * `text` must already be normalized (see `normalizeText`).
+ */
+export function analyzeLinguisticContext(text: string, cues: LinguisticCues = ENGLISH_CUES): LinguisticContext {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(/[a-z0-9\u00c0-\u024f']+|[,.;:!?\n]/g))) {
+    tokens.push({ text: match[0], start: match.index!, end: match.index! + match[0].length });
+  }
+
+  const sentences: Span[] = [];
+  let sentenceStart = 0;
+  for (const match of Array.from(text.matchAll(/[.!?;\n]+/g))) {
+    sentences.push({ start: sentenceStart, end: match.index! });
+    sentenceStart = match.index! + match[0].length;
+  }
+  sentences.push({ start: sentenceStart, end: text.length });
+
+  const quotes: Span[] = [];
+  for (const match of Array.from(text.matchAll(/"[^"]*"|“[^”]*”/g))) {
+    quotes.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+
+  return { text, tokens, sentences, quotes, cues };
+}
+
+/**
+ * Decide how the phrase at [start, end) is framed within its sentence
+ */
+export function frameMatch(context: LinguisticContext, start: number, end: number): MatchFraming {
+  const { text, cues } = context;
+  const framings = new Set<Framing>();
+  const found: string[] = [];
+
+  const sentence = context.sentences.find(s => start >= s.start && start <= s.end) || { start: 0, end: text.length };
+  const sentenceText = text.slice(sentence.start, sentence.end);
+
+  // Tokens of the clause leading up to the match, nearest last
+  const before = context.tokens.filter(t => t.start >= sentence.start && t.end <= start);
+  const clauseStart = lastIndexWhere(before, t => cues.clauseBreakers.includes(t.text)) + 1;
+  const clause = before.slice(clauseStart);
+  const clauseText = clause.map(t => t.text).join(' ');
+  const matchText = text.slice(start, end);
+
+  const negation = findNegation(clause, firstWord(matchText), cues);
+  if (negation) {
+    framings.add('negated');
+    found.push(negation);
+  }
+
+  if (context.quotes.some(q => start > q.start && end < q.end)) {
+    framings.add('reported');
+    found.push('quotation');
+  } else if (cues.quotation.test(sentenceText)) {
+    framings.add('reported');
+    found.push(sentenceText.match(cues.quotation)![0]);
+  }
+
+  const speaker = findReportingSpeaker(clause, cues);
+  if (speaker) {
+    framings.add('reported');
+    found.push(`${speaker} said`);
+  }
+
+  if (cues.hypothetical.test(clauseText)) {
+    framings.add('hypothetical');
+    found.push(clauseText.match(cues.hypothetical)![0]);
+  } else if (cues.fiction.test(sentenceText)) {
+    framings.add('hypothetical');
+    found.push(sentenceText.match(cues.fiction)![0]);
+  } else {
+    const joke = unnegatedCue(context, sentence, cues.joking);
+    if (joke) {
+      framings.add('hypothetical');
+      found.push(joke);
+    }
+  }
+
+  const subject = findSubject(context, clause, matchText, sentence, end);
+  if (subject === 'other') {
+    framings.add('third_person');
+    found.push('third-person subject');
+  }
+
+  const list = Array.from(framings);
+  return {
+    framings: list,
+    subject,
+    cues: found,
+    multiplier: list.reduce((product, framing) => product * FRAMING_MULTIPLIERS[framing], 1),
+  };
+}
+
+/**
+ * Frame every occurrence of a phrase and keep the least discounted one, so a negated mention
+ * never hides a plain statement elsewhere in the message
+ */
+export function strongestFraming(context: LinguisticContext, occurrences: Array<{ start: number; end: number }>): MatchFraming | null {
+  let best: MatchFraming | null = null;
+
+  for (const { start, end } of occurrences) {
+    const framing = frameMatch(context, start, end);
+    if (!best || framing.multiplier > best.multiplier) {
+      best = framing;
+    }
+    if (best.multiplier === 1) break;
+  }
+  return best;
+}
+
+/**
+ * A negation cue within the window before the phrase, in the same clause: no punctuation and no
+ * clause opener in between. A negated clause that is itself negated ("I can't promise I won't hurt
+ * myself") is not negated.
+ */
+function findNegation(clause: Token[], phraseStart: string, cues: LinguisticCues): string | null {
+  if (cues.clauseOpeners.includes(phraseStart)) {
+    return directNegation(clause, clause.length, cues);
+  }
+
+  const windowStart = Math.max(0, clause.length - (cues.negationWindow + 1));
+  for (let i = clause.length - 1; i >= windowStart; i--) {
+    const token = clause[i].text;
+    if (PUNCTUATION.test(token)) {
+      return null;
+    }
+    const cue = negationAt(clause, i, cues.negations);
+    if (cue) {
+      return isCancelled(clause, i - cue.split(' ').length + 1, cues) ? null : cue;
+    }
+    if (cues.clauseOpeners.includes(token)) {
+      return directNegation(clause, i, cues);
+    }
+  }
+  return null;
+}
+
+/**
+ * A negation cue right before the clause opener at `index`, with only first-person pronouns (Spanish
+ * "no me quiero morir") in between
+ */
+function directNegation(clause: Token[], index: number, cues: LinguisticCues): string | null {
+  let i = index - 1;
+  while (i >= 0 && cues.selfSubjects.includes(clause[i].text) && !cues.clauseOpeners.includes(clause[i].text)) {
+    i--;
+  }
+  if (i < 0) return null;
+
+  const cue = negationAt(clause, i, cues.negations);
+  return cue && !isCancelled(clause, i - cue.split(' ').length + 1, cues) ? cue : null;
+}
+
+/**
+ * Whether the clause negated by the cue at `cueStart` opens right after another negation
+ */
+function isCancelled(clause: Token[], cueStart: number, cues: LinguisticCues): boolean {
+  const opener = cueStart - 1;
+  if (opener < 0 || !cues.clauseOpeners.includes(clause[opener].text)) {
+    return false;
+  }
+
+  const cancellers = [...cues.negations, ...(cues.negationCancellers || [])];
+  const windowStart = Math.max(0, opener - (cues.negationWindow + 1));
+  for (let i = opener - 1; i >= windowStart; i--) {
+    if (PUNCTUATION.test(clause[i].text) || cues.clauseOpeners.includes(clause[i].text)) {
+      return false;
+    }
+    if (negationAt(clause, i, cancellers)) return true;
+  }
+  return false;
+}
+
+// The cue ending at token `index`, preferring two-word cues ("no longer", "i'm not")
+function negationAt(clause: Token[], index: number, negations: string[]): string | null {
+  const token = clause[index].text;
+  const pair = index > 0 ? `${clause[index - 1].text} ${token}` : '';
+  if (negations.includes(pair)) return pair;
+  if (negations.includes(token)) return token;
+  return null;
+}
+
+/**
+ * The first match of `cue` in the sentence, unless it is negated itself
+ */
+function unnegatedCue(context: LinguisticContext, sentence: Span, cue: RegExp): string | null {
+  const match = context.text.slice(sentence.start, sentence.end).match(cue);
+  if (!match) {
+    return null;
+  }
+
+  const at = sentence.start + match.index!;
+  const before = context.tokens.filter(t => t.start >= sentence.start && t.end <= at);
+  return findNegation(before, firstWord(match[0]), context.cues) ? null : match[0];
+}
+
+function firstWord(phrase: string): string {
+  return phrase.split(/[^a-z0-9\u00c0-\u024f']+/).find(Boolean) || '';
+}
+
+/**
+ * The speaker when the clause reports someone else's words ("my friend keeps saying ..");
+ * null for the user's own ("I keep saying ...")
+ */
+function findReportingSpeaker(clause: Token[], cues: LinguisticCues): string | null {
+  const verbIndex = lastIndexWhere(clause, t => cues.reportingVerbs.includes(t.text));
+  if (verbIndex <= 0) {
+    return null;
+  }
+
+  for (let i = verbIndex - 1; i >= 0; i--) {
+    const subject = classifySubject(clause[i].text, cues);
+    if (subject === 'self') return null;
+    if (subject === 'other') return clause[i].text;
+  }
+  return null;
+}
+
+/**
+ * Whose state the phrase describes. A first-person word inside the phrase itself ("kill myself",
+ * "end my life") settles it; otherwise the nearest subject before it in the clause, then after it.
+ */
+function findSubject(context: LinguisticContext, clause: Token[], matchText: string, sentence: Span, end: number): Subject {
+  const { cues } = context;
+  const matchTokens = matchText.split(/[^a-z0-9\u00c0-\u024f']+/);
+
+  if (matchTokens.some(t => cues.selfSubjects.includes(t))) {
+    return 'self';
+  }
+
+  for (let i = clause.length - 1; i >= 0; i--) {
+    const subject = classifySubject(clause[i].text, cues);
+    if (subject) return subject;
+  }
+
+  const after = context.tokens.filter(t => t.start >= end && t.end <= sentence.end);
+  for (const token of after) {
+    if (cues.clauseBreakers.includes(token.text)) break;
+    const subject = classifySubject(token.text, cues);
+    if (subject) return subject;
+  }
+
+  return 'unknown';
+}
+
+function classifySubject(token: string, cues: LinguisticCues): Subject | null {
+  if (cues.selfSubjects.includes(token)) return 'self';
+  if (cues.otherSubjects.includes(token)) return 'other';
+  // Plural relations ("friends", "kids")
+  if (token.endsWith('s') && cues.otherSubjects.includes(token.slice(0, -1))) return 'other';
+  return null;
+}
+
+function lastIndexWhere<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,132 @@
+import type { AiService } from '../../ai/AiService';
+import { logger } from '@/lib/logger';
+import { CRISIS_CATEGORIES, CrisisCategory } from '../CrisisAssessment';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './CrisisDetector';
+
+export interface AiDetectorConfig {
+  model: string;
+  timeoutMs: number; // The chat reply waits on detection, so a slow model is skipped rather than awaited
+  contextMessages: number; // Earlier user messages included in the prompt
+}
+
+const DEFAULT_CONFIG: Omit<AiDetectorConfig, 'model'> = {
+  timeoutMs: 5000,
+  contextMessages: 3,
+};
+
+interface AiAnalysis {
+  score?: number; // 0-10
+  confidence?: number; // 0-1
+  categories?: string[];
+  concerns?: string[];
+}
+
+/**
+ * Semantic analysis by a language model, catching risk expressed in ways no lexicon anticipates.
+ * Any failure (no provider, timeout, unparseable reply) drops this detector from the verdict
+ * instead of failing the assessment.
+ */
+export class AiDetector implements CrisisDetector {
+  readonly name = 'ai';
+  readonly weight: number;
+
+  private config: AiDetectorConfig;
+  private aiService: Promise<AiService> | null = null;
+
+  constructor(config: Partial<AiDetectorConfig> & { model: string }, weight = 0.9) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.weight = weight;
+  }
+
+  async detect(request: CrisisDetectionRequest): Promise<DetectorResult | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const controller = new AbortController();
+
+    try {
+      const aiService = await this.getAiService();
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`AI crisis analysis timed out after ${this.config.timeoutMs}ms`));
+        }, this.config.timeoutMs);
+      });
+
+      const response = await Promise.race([
+        aiService.generateText({
+          prompt: this.buildPrompt(request),
+          model: this.config.model,
+          temperature: 0.1, // Low temperature for consistent analysis
+          signal: controller.signal,
+        }),
+        timeout,
+      ]);
+
+      return parseAnalysis(response.text);
+    } catch (error) {
+      logger.warn({
+        userId: request.userId,
+        sessionId: request.sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'AI crisis detection failed, continuing with rule-based detectors');
+
+      return null;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  private buildPrompt(request: CrisisDetectionRequest): string {
+    const history = (request.conversationHistory || []).slice(-this.config.contextMessages);
+
+    return `
+Analyze this message for mental health crisis indicators. Consider the context of the conversation.
+
+Message: "${request.message}"
+${history.length > 0 ? `Recent context: ${history.join(' | ')}` : ''}
+
+Respond with a JSON object containing:
+- score: risk score from 0-10
+- confidence: confidence in the score from 0-1
+- categories: any of ${CRISIS_CATEGORIES.map(c => `"${c}"`).join(', ')} that apply
+- concerns: short phrases describing what you identified
+
+Only respond with valid JSON.
+    `;
+  }
+
+  private getAiService(): Promise<AiService> {
+    if (!this.aiService) {
+      // Imported lazily: AiService loads API keys through Prisma, which rule-based detection never needs
+      this.aiService = import('../../ai/AiService').then(async ({ AiService }) => {
+        const aiService = new AiService({});
+        await aiService.initialize();
+        return aiService;
+      });
+      // Let a later request retry if provider initialisation failed
+      this.aiService.catch(() => { this.aiService = null; });
+    }
+    return this.aiService;
+  }
+}
+
+function parseAnalysis(text: string): DetectorResult | null {
+  // Models sometimes wrap JSON in a code fence
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  const analysis: AiAnalysis = JSON.parse(json);
+
+  if (typeof analysis.score !== 'number' || analysis.score <= 0) {
+    return null;
+  }
+
+  const confidence = typeof analysis.confidence === 'number' ? analysis.confidence : 0.5;
+  const categories = (analysis.categories || [])
+    .filter((c): c is CrisisCategory => CRISIS_CATEGORIES.includes(c as CrisisCategory));
+  const concerns = (analysis.concerns || []).filter(c => typeof c === 'string');
+
+  return {
+    score: Math.min(Math.max((analysis.score / 10) * confidence, 0), 1),
+    categories,
+    evidence: concerns,
+    riskFactors: concerns.length > 0 ? concerns.map(c => `ai:${c}`) : ['ai_analysis'],
+  };
+}
@@ -0,0 +1,51 @@
+import type { CrisisCategory } from '../CrisisAssessment';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './CrisisDetector';
+
+/**
+ * Session behaviour that correlates with acute distress. Weak on its own, it only tips
+ * borderline messages over the threshold.
+ */
+export class BehavioralDetector implements CrisisDetector {
+  readonly name = 'behavioral';
+  readonly weight: number;
+
+  constructor(weight = 0.4) {
+    this.weight = weight;
+  }
+
+  async detect(request: CrisisDetectionRequest): Promise<DetectorResult | null> {
+    const metadata = request.sessionMetadata;
+    if (!metadata) {
+      return null;
+    }
+
+    let score = 0;
+    const categories: CrisisCategory[] = [];
+    const riskFactors: string[] = [];
+
+    // Late night sessions (2-6 AM) may indicate higher risk
+    if (metadata.hour !== undefined && metadata.hour >= 2 && metadata.hour <= 6) {
+      score += 0.1;
+      riskFactors.push('late_night_session');
+    }
+
+    // Rapid message frequency may indicate acute distress
+    if (metadata.messagesPerMinute !== undefined && metadata.messagesPerMinute > 5) {
+      score += 0.15;
+      categories.push('acuteAnxiety');
+      riskFactors.push('rapid_messaging');
+    }
+
+    // Very short sessions (under a minute) that reach the detector at all
+    if (metadata.sessionDuration !== undefined && metadata.sessionDuration < 60) {
+      score += 0.1;
+      riskFactors.push('brief_crisis_session');
+    }
+
+    if (riskFactors.length === 0) {
+      return null;
+    }
+
+    return { score, categories, evidence: riskFactors, riskFactors };
+  }
+}
@@ -0,0 +1,58 @@
+import type { CrisisCategory } from '../CrisisAssessment';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './CrisisDetector';
+import { LexicalDetector } from './LexicalDetector';
+
+export interface ConversationHistoryConfig {
+  window: number; // Most recent messages considered
+  messageThreshold: number; // Lexical score for an earlier message to count as distressed
+  minDistressedMessages: number; // Fewer than this is not treated as a trend
+}
+
+const DEFAULT_CONFIG: ConversationHistoryConfig = {
+  window: 5,
+  messageThreshold: 0.5,
+  minDistressedMessages: 2,
+};
+
+/**
+ * Raises risk when distress has been building over the conversation, so a short message like
+ * "I give up" is read in light of what came before it.
+ */
+export class ConversationHistoryDetector implements CrisisDetector {
+  readonly name = 'conversation_history';
+  readonly weight: number;
+
+  private lexical: LexicalDetector;
+  private config: ConversationHistoryConfig;
+
+  constructor(lexical: LexicalDetector, config: Partial<ConversationHistoryConfig> = {}, weight = 0.7) {
+    this.lexical = lexical;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.weight = weight;
+  }
+
+  async detect(request: CrisisDetectionRequest): Promise<DetectorResult | null> {
+    const recent = (request.conversationHistory || []).slice(-this.config.window);
+    const categories = new Set<CrisisCategory>();
+    let distressed = 0;
+
+    for (const message of recent) {
+      const result = this.lexical.match(message, request.language);
+      if (result && result.score >= this.config.messageThreshold) {
+        distressed++;
+        result.categories.forEach(category => categories.add(category));
+      }
+    }
+
+    if (distressed < this.config.minDistressedMessages) {
+      return null;
+    }
+
+    return {
+      score: Math.min(0.3 + distressed * 0.2, 0.9),
+      categories: Array.from(categories),
+      evidence: [`${distressed} of last ${recent.length} messages distressed`],
+      riskFactors: ['repeated_crisis_indicators'],
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import type { CrisisCategory, FramingAdjustment } from '../CrisisAssessment';
+
+export interface SessionMetadata {
+  hour?: number; // Local hour of day the message was sent
+  messagesPerMinute?: number;
+  sessionDuration?: number; // Seconds
+  [key: string]: unknown;
+}
+
+export interface CrisisDetectionRequest {
+  userId: string;
+  sessionId: string;
+  conversationId?: string; // Assessments are only persisted when they belong to a conversation
+  message: string;
+  // ISO 639-1 code. Callers pass the user's preferred language; the engine replaces it with the
+  // language detected in the message, keeping the preference when the message is inconclusive.
+  language?: string;
+  conversationHistory?: string[]; // Earlier user messages, oldest first
+  sessionMetadata?: SessionMetadata;
+}
+
+export interface DetectorResult {
+  score: number; // 0-1
+  categories: CrisisCategory[];
+  evidence: string[];
+  riskFactors: string[];
+  other?: string[]; // Concerns that don't map onto a category
+  adjustments?: FramingAdjustment[];
+  // Categories the writer states about themselves in a plain statement ("I want to end my life"), as
+  // opposed to naming the topic ("suicide"). Clinical context never discounts these.
+  disclosures?: CrisisCategory[];
+  // The same statements when framing discounted them ("I would never kill myself", "I want to die
+  // lol"). Always reported, at whatever severity the discounted score earns.
+  framedDisclosures?: CrisisCategory[];
+}
+
+/**
+ * One stage of the detection pipeline. Detectors are independent: each scores the request on its own
+ * and the engine combines their weighted scores, so adding or removing one never changes another's output.
+ */
+export interface CrisisDetector {
+  readonly name: string;
+
+  /**
+   * How much a full-confidence result from this detector should count towards the combined verdict (0-1)
+   */
+  readonly weight: number;
+
+  /**
+   * Return null when the detector found nothing
+   */
+  detect(request: CrisisDetectionRequest): Promise<DetectorResult | null>;
+}
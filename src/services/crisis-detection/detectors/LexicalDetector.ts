@@ -0,0 +1,238 @@
+import type { CrisisCategory, FramingAdjustment } from '../CrisisAssessment';
+import { ENGLISH_CUES, LinguisticCues, analyzeLinguisticContext, strongestFraming } from '../LinguisticContext';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './CrisisDetector';
+
+export interface LexiconEntry {
+  term: string;
+  weight: number; // Probability-like risk weight of the term on its own (0-1)
+  category: CrisisCategory | null; // null for general distress that doesn't map onto a category
+  topic?: boolean; // Names the subject ("suicide") rather than saying anything about the writer
+}
+
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  // Suicide ideation
+  { term: 'kill myself', weight: 0.95, category: 'suicideIdeation' },
+  { term: 'hang myself', weight: 0.95, category: 'suicideIdeation' },
+  { term: 'end my life', weight: 0.95, category: 'suicideIdeation' },
+  { term: 'take my life', weight: 0.9, category: 'suicideIdeation' },
+  { term: 'suicidal', weight: 0.9, category: 'suicideIdeation' },
+  { term: 'suicide', weight: 0.85, category: 'suicideIdeation', topic: true },
+  { term: 'want to die', weight: 0.85, category: 'suicideIdeation' },
+  { term: 'end it all', weight: 0.85, category: 'suicideIdeation' },
+  { term: 'better off dead', weight: 0.85, category: 'suicideIdeation' },
+  { term: 'wish i was dead', weight: 0.85, category: 'suicideIdeation' },
+  { term: 'wish i were dead', weight: 0.85, category: 'suicideIdeation' },
+  { term: "don't want to live", weight: 0.85, category: 'suicideIdeation' },
+  { term: 'no reason to live', weight: 0.8, category: 'suicideIdeation' },
+  { term: 'not worth living', weight: 0.8, category: 'suicideIdeation' },
+  { term: 'tired of living', weight: 0.75, category: 'suicideIdeation' },
+
+  // Self-harm
+  { term: 'cutting myself', weight: 0.85, category: 'selfHarm' },
+  { term: 'cut myself', weight: 0.8, category: 'selfHarm' },
+  { term: 'self harm', weight: 0.75, category: 'selfHarm', topic: true },
+  { term: 'self-harm', weight: 0.75, category: 'selfHarm', topic: true },
+  { term: 'hurt myself', weight: 0.7, category: 'selfHarm' },
+  { term: 'hurting myself', weight: 0.7, category: 'selfHarm' },
+  { term: 'burn myself', weight: 0.7, category: 'selfHarm' },
+
+  // Severe depression
+  { term: 'hopeless', weight: 0.65, category: 'severeDepression' },
+  { term: "don't see a future", weight: 0.65, category: 'severeDepression' },
+  { term: 'worthless', weight: 0.6, category: 'severeDepression' },
+  { term: 'no future', weight: 0.6, category: 'severeDepression' },
+  { term: 'nothing seems worth it', weight: 0.6, category: 'severeDepression' },
+  { term: 'give up', weight: 0.55, category: 'severeDepression' },
+  { term: 'empty inside', weight: 0.55, category: 'severeDepression' },
+  { term: 'meaningless', weight: 0.5, category: 'severeDepression' },
+  { term: 'feeling down', weight: 0.5, category: 'severeDepression' },
+  { term: 'really down', weight: 0.5, category: 'severeDepression' },
+
+  // Acute anxiety
+  { term: 'panic attack', weight: 0.6, category: 'acuteAnxiety' },
+  { term: 'panicking', weight: 0.6, category: 'acuteAnxiety' },
+  { term: 'severe anxiety', weight: 0.6, category: 'acuteAnxiety' },
+  { term: "can't breathe", weight: 0.55, category: 'acuteAnxiety' },
+  { term: 'terrified', weight: 0.5, category: 'acuteAnxiety' },
+  { term: 'heart racing', weight: 0.45, category: 'acuteAnxiety' },
+
+  // Substance abuse
+  { term: 'drink myself to death', weight: 0.8, category: 'substanceAbuse' },
+  { term: 'overdose', weight: 0.7, category: 'substanceAbuse' },
+  { term: 'drugs', weight: 0.25, category: 'substanceAbuse' }, // Low on its own; context matters
+
+  // Eating disorders
+  { term: 'starve myself', weight: 0.6, category: 'eatingDisorders' },
+  { term: 'make myself throw up', weight: 0.6, category: 'eatingDisorders' },
+  { term: 'purge', weight: 0.45, category: 'eatingDisorders' },
+  { term: 'binge', weight: 0.35, category: 'eatingDisorders' },
+
+  // Domestic violence
+  { term: 'abusing me', weight: 0.65, category: 'domesticViolence' },
+  { term: 'afraid of my partner', weight: 0.6, category: 'domesticViolence' },
+  { term: 'hits me', weight: 0.6, category: 'domesticViolence' },
+
+  // General distress
+  { term: "can't take it anymore", weight: 0.6, category: null },
+  { term: "can't take this anymore", weight: 0.6, category: null },
+  { term: "can't cope", weight: 0.5, category: null },
+  { term: 'hard time', weight: 0.35, category: null },
+  { term: 'need help', weight: 0.3, category: null },
+];
+
+interface CompiledEntry extends LexiconEntry {
+  regex: RegExp;
+}
+
+interface LanguageLexicon {
+  entries: CompiledEntry[];
+  cues: LinguisticCues;
+}
+
+/**
+ * Weighted phrase matching against per-language lexicons. Several matches reinforce each other
+ * (noisy-OR), so "worthless and hopeless" scores higher than either word alone.
+ * Each match is weighted by its linguistic framing; only plain first-person statements
+ * set indicator categories. English is always scanned alongside the message's language,
+ * since people often switch to English for exactly these phrases.
+ */
+export class LexicalDetector implements CrisisDetector {
+  readonly name = 'lexical';
+  readonly weight: number;
+
+  private lexicons = new Map<string, LanguageLexicon>();
+
+  constructor(lexicon: LexiconEntry[] = DEFAULT_LEXICON, weight = 1.0) {
+    this.weight = weight;
+    this.addLanguage('en', lexicon, ENGLISH_CUES);
+  }
+
+  /**
+   * Register (or replace) the lexicon and framing cues for a language
+   */
+  addLanguage(language: string, entries: LexiconEntry[], cues: LinguisticCues): void {
+    this.lexicons.set(language, { entries: [], cues });
+    this.addEntries(entries, language);
+  }
+
+  addEntries(entries: LexiconEntry[], language = 'en'): void {
+    const lexicon = this.lexicons.get(language);
+    if (!lexicon) {
+      throw new Error(`No lexicon registered for language "${language}"`);
+    }
+
+    for (const entry of entries) {
+      const compiled = { ...entry, regex: compileTerm(entry.term) };
+      const existing = lexicon.entries.findIndex(e => e.term === entry.term);
+
+      if (existing >= 0) {
+        lexicon.entries[existing] = compiled;
+      } else {
+        lexicon.entries.push(compiled);
+      }
+    }
+  }
+
+  get languages(): string[] {
+    return Array.from(this.lexicons.keys());
+  }
+
+  async detect(request: CrisisDetectionRequest): Promise<DetectorResult | null> {
+    return this.match(request.message, request.language);
+  }
+
+  /**
+   * Synchronous match, also used by the conversation history detector to score earlier messages
+   */
+  match(text: string, language = 'en'): DetectorResult | null {
+    const normalized = normalizeText(text);
+    const categories = new Set<CrisisCategory>();
+    const disclosures = new Set<CrisisCategory>();
+    const framedDisclosures = new Set<CrisisCategory>();
+    const terms: string[] = [];
+    const other: string[] = [];
+    const adjustments: FramingAdjustment[] = [];
+    let remaining = 1;
+
+    for (const lexicon of this.lexiconsFor(language)) {
+      const context = analyzeLinguisticContext(normalized, lexicon.cues);
+
+      for (const entry of lexicon.entries) {
+        const occurrences = Array.from(normalized.matchAll(entry.regex)).map(m => ({
+          start: m.index! + m[1].length,
+          end: m.index! + m[0].length,
+        }));
+        const framing = strongestFraming(context, occurrences);
+        if (!framing) continue;
+
+        terms.push(entry.term);
+        remaining *= 1 - entry.weight * framing.multiplier;
+
+        if (framing.multiplier < 1) {
+          adjustments.push({
+            detector: this.name,
+            term: entry.term,
+            framings: framing.framings,
+            cues: framing.cues,
+            multiplier: framing.multiplier,
+          });
+          if (framing.framings.includes('third_person') && !other.includes('third_party_concern')) {
+            other.push('third_party_concern');
+          }
+          if (framing.subject === 'self' && entry.category && !entry.topic) {
+            framedDisclosures.add(entry.category);
+          }
+        } else if (entry.category) {
+          categories.add(entry.category);
+          if (!entry.topic) disclosures.add(entry.category);
+        } else {
+          other.push(entry.term);
+        }
+      }
+    }
+
+    if (terms.length === 0) {
+      return null;
+    }
+
+    return {
+      score: 1 - remaining,
+      categories: Array.from(categories),
+      evidence: terms,
+      riskFactors: terms,
+      other,
+      adjustments,
+      disclosures: Array.from(disclosures),
+      framedDisclosures: Array.from(framedDisclosures),
+    };
+  }
+
+  private lexiconsFor(language: string): LanguageLexicon[] {
+    const codes = language === 'en' ? ['en'] : [language, 'en'];
+    return codes
+      .map(code => this.lexicons.get(code))
+      .filter((lexicon): lexicon is LanguageLexicon => lexicon !== undefined);
+  }
+}
+
+/**
+ * Lowercase, straighten typographic apostrophes so "can’t" matches "can't", and drop accents so
+ * "no quiero vivir mas" matches "más" (messages are often typed without them). Lexicon terms,
+ * patterns and linguistic cues are all compared against text normalized this way.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function compileTerm(term: string): RegExp {
+  const escaped = normalizeText(term)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+
+  // Word boundaries so "drugs" doesn't match "drugstore"
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?=$|[^a-z0-9])`, 'g');
+}
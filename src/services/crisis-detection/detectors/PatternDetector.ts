@@ -0,0 +1,134 @@
+import type { CrisisCategory, FramingAdjustment } from '../CrisisAssessment';
+import { ENGLISH_CUES, LinguisticCues, analyzeLinguisticContext, strongestFraming } from '../LinguisticContext';
+import type { CrisisDetector, CrisisDetectionRequest, DetectorResult } from './CrisisDetector';
+import { normalizeText } from './LexicalDetector';
+
+export interface RiskPattern {
+  name: string;
+  regex: RegExp;
+  score: number;
+  category: CrisisCategory | null;
+}
+
+export const DEFAULT_RISK_PATTERNS: RiskPattern[] = [
+  { name: 'kill_self', regex: /\bkill(ing)?\s+myself\b/, score: 0.9, category: 'suicideIdeation' },
+  { name: 'end_life', regex: /\b(end|take|ending|taking)\s+my\s+(own\s+)?life\b/, score: 0.9, category: 'suicideIdeation' },
+  { name: 'suicide_plan', regex: /\bsuicid(e|al)\s+(thoughts?|ideation|plans?)\b/, score: 0.9, category: 'suicideIdeation' },
+  { name: 'no_will_to_live', regex: /\b(no\s+reason|don'?t\s+want)\s+to\s+live\b/, score: 0.85, category: 'suicideIdeation' },
+  { name: 'better_dead', regex: /\b(better|easier)\s+(off\s+)?dead\b/, score: 0.85, category: 'suicideIdeation' },
+  { name: 'tired_of_living', regex: /\b(tired|done)\s+(of|with)\s+(living|life)\b/, score: 0.75, category: 'suicideIdeation' },
+  { name: 'harm_self', regex: /\b(hurt(ing)?|harm(ing)?|cut(ting)?|burn(ing)?)\s+myself\b/, score: 0.8, category: 'selfHarm' },
+  { name: 'stated_intent', regex: /\b(going|gonna|planning|plan)\s+to\s+(kill|end|hurt|harm|cut)\b/, score: 0.9, category: null },
+  { name: 'urgent_language', regex: /\b(immediately|right\s+now|can'?t\s+take\s+(it|this)(\s+any\s*more)?|at\s+my\s+limit)\b/, score: 0.4, category: null },
+];
+
+// Repeated violent or pain-related English words read as distress even without a specific phrase
+const NEGATIVE_WORDS = /\b(hate|die|dying|kill|hurt|pain|suffering)\b/g;
+const REPETITION_THRESHOLD = 3;
+
+interface LanguagePatterns {
+  patterns: RiskPattern[];
+  cues: LinguisticCues;
+}
+
+/**
+ * Structural phrasing the lexicon can't capture: intent statements, urgency and repetition.
+ * Like the lexical detector, English patterns run alongside those of the message's language.
+ */
+export class PatternDetector implements CrisisDetector {
+  readonly name = 'pattern';
+  readonly weight: number;
+
+  private languages = new Map<string, LanguagePatterns>();
+
+  constructor(patterns: RiskPattern[] = DEFAULT_RISK_PATTERNS, weight = 0.9) {
+    this.weight = weight;
+    this.addLanguage('en', patterns, ENGLISH_CUES);
+  }
+
+  /**
+   * Register (or replace) the patterns and framing cues for a language. Patterns are matched
+   * against normalized text, so they are written in lowercase without accents.
+   */
+  addLanguage(language: string, patterns: RiskPattern[], cues: LinguisticCues): void {
+    this.languages.set(language, { patterns: patterns.map(withGlobalFlag), cues });
+  }
+
+  addPatterns(patterns: RiskPattern[], language = 'en'): void {
+    const registered = this.languages.get(language);
+    if (!registered) {
+      throw new Error(`No patterns registered for language "${language}"`);
+    }
+    registered.patterns.push(...patterns.map(withGlobalFlag));
+  }
+
+  async detect(request: CrisisDetectionRequest): Promise<DetectorResult | null> {
+    const text = normalizeText(request.message);
+    const categories = new Set<CrisisCategory>();
+    const framedCategories = new Set<CrisisCategory>();
+    const adjustments: FramingAdjustment[] = [];
+    const matched: string[] = [];
+    let score = 0;
+
+    const language = request.language || 'en';
+    const codes = language === 'en' ? ['en'] : [language, 'en'];
+
+    for (const code of codes) {
+      const registered = this.languages.get(code);
+      if (!registered) continue;
+      const context = analyzeLinguisticContext(text, registered.cues);
+
+      for (const pattern of registered.patterns) {
+        const occurrences = Array.from(text.matchAll(pattern.regex)).map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+        const framing = strongestFraming(context, occurrences);
+        if (!framing) continue;
+
+        matched.push(pattern.name);
+        // Patterns overlap heavily (most intent statements also match a phrase pattern), so take the strongest
+        score = Math.max(score, pattern.score * framing.multiplier);
+
+        if (framing.multiplier < 1) {
+          adjustments.push({
+            detector: this.name,
+            term: pattern.name,
+            framings: framing.framings,
+            cues: framing.cues,
+            multiplier: framing.multiplier,
+          });
+          if (framing.subject === 'self' && pattern.category) {
+            framedCategories.add(pattern.category);
+          }
+        } else if (pattern.category) {
+          categories.add(pattern.category);
+        }
+      }
+    }
+
+    const negativeCount = (text.match(NEGATIVE_WORDS) || []).length;
+    if (negativeCount >= REPETITION_THRESHOLD) {
+      matched.push('negative_repetition');
+      score = Math.max(score, Math.min(negativeCount * 0.1, 0.6));
+    }
+
+    if (matched.length === 0) {
+      return null;
+    }
+
+    const names = Array.from(new Set(matched));
+    return {
+      score,
+      categories: Array.from(categories),
+      evidence: names,
+      riskFactors: names.map(name => `pattern:${name}`),
+      adjustments,
+      disclosures: Array.from(categories), // Every pattern is a statement about the writer
+      framedDisclosures: Array.from(framedCategories),
+    };
+  }
+}
+
+// Every occurrence is framed, so patterns are matched globally
+function withGlobalFlag(pattern: RiskPattern): RiskPattern {
+  const { regex } = pattern;
+  return regex.global ? pattern : { ...pattern, regex: new RegExp(regex.source, `${regex.flags}g`) };
+}
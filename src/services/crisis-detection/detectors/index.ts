@@ -0,0 +1,15 @@
+export type {
+  CrisisDetector,
+  CrisisDetectionRequest,
+  DetectorResult,
+  SessionMetadata,
+} from './CrisisDetector';
+export { LexicalDetector, DEFAULT_LEXICON, normalizeText } from './LexicalDetector';
+export type { LexiconEntry } from './LexicalDetector';
+export { PatternDetector, DEFAULT_RISK_PATTERNS } from './PatternDetector';
+export type { RiskPattern } from './PatternDetector';
+export { ConversationHistoryDetector } from './ConversationHistoryDetector';
+export type { ConversationHistoryConfig } from './ConversationHistoryDetector';
+export { BehavioralDetector } from './BehavioralDetector';
+export { AiDetector } from './AiDetector';
+export type { AiDetectorConfig } from './AiDetector';
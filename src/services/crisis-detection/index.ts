@@ -0,0 +1,77 @@
+import { CrisisDetectionEngine } from './CrisisDetectionEngine';
+import { CrisisAssessmentRepository } from './CrisisAssessmentRepository';
+import {
+  AiDetector,
+  BehavioralDetector,
+  ConversationHistoryDetector,
+  CrisisDetector,
+  LexicalDetector,
+  PatternDetector,
+} from './detectors';
+import { LEXICON_PACKS } from './lexicons';
+
+export type {
+  CrisisAssessment,
+  CrisisAction,
+  CrisisCategory,
+  CrisisIndicators,
+  CrisisSeverity,
+  CrisisSignal,
+} from './CrisisAssessment';
+export { CRISIS_CATEGORIES, activeCategories, emptyIndicators } from './CrisisAssessment';
+export { CrisisDetectionEngine } from './CrisisDetectionEngine';
+export type { CrisisDetectionEngineConfig } from './CrisisDetectionEngine';
+export { CrisisAssessmentRepository } from './CrisisAssessmentRepository';
+export type { StoredCrisisAssessment, ReviewStatus, AssessmentHistoryQuery } from './CrisisAssessmentRepository';
+export * from './detectors';
+export { LEXICON_PACKS, SUPPORTED_LANGUAGES, getLexiconPack } from './lexicons';
+export type { LexiconPack } from './lexicons';
+export { detectLanguage } from './LanguageDetection';
+export type { LanguageDetection } from './LanguageDetection';
+
+let defaultEngine: CrisisDetectionEngine | null = null;
+
+/**
+ * Lexical, pattern, conversation-history and behavioural detectors, plus the AI detector
+ * when CRISIS_DETECTION_AI_MODEL is set. Lexical and pattern detectors load every lexicon pack.
+ */
+export function createDefaultDetectors(): CrisisDetector[] {
+  const lexical = new LexicalDetector();
+  const pattern = new PatternDetector();
+
+  for (const pack of LEXICON_PACKS) {
+    lexical.addLanguage(pack.language, pack.lexicon, pack.cues);
+    pattern.addLanguage(pack.language, pack.patterns, pack.cues);
+  }
+
+  const detectors: CrisisDetector[] = [
+    lexical,
+    pattern,
+    new ConversationHistoryDetector(lexical),
+    new BehavioralDetector(),
+  ];
+
+  if (process.env.CRISIS_DETECTION_AI_MODEL) {
+    detectors.push(new AiDetector({
+      model: process.env.CRISIS_DETECTION_AI_MODEL,
+      ...(process.env.CRISIS_DETECTION_AI_TIMEOUT_MS && {
+        timeoutMs: parseInt(process.env.CRISIS_DETECTION_AI_TIMEOUT_MS, 10)
+      }),
+    }));
+  }
+
+  return detectors;
+}
+
+/**
+ * Shared engine for this process. Assessments tied to a conversation are persisted,
+ * except under test where there is no database.
+ */
+export function getCrisisDetectionEngine(): CrisisDetectionEngine {
+  if (!defaultEngine) {
+    defaultEngine = new CrisisDetectionEngine(createDefaultDetectors(), {
+      repository: process.env.NODE_ENV === 'test' ? undefined : new CrisisAssessmentRepository(),
+    });
+  }
+  return defaultEngine;
+}
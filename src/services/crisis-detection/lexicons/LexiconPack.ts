@@ -0,0 +1,17 @@
+import type { LinguisticCues } from '../LinguisticContext';
+import type { LexiconEntry } from '../detectors/LexicalDetector';
+import type { RiskPattern } from '../detectors/PatternDetector';
+
+/**
+ * Everything crisis detection needs for one language. Terms may be written with accents; patterns,
+ * cues and markers are compared against normalized text (lowercase, no accents), so they are not.
+ */
+export interface LexiconPack {
+  language: string; // ISO 639-1
+  name: string;
+  lexicon: LexiconEntry[];
+  patterns: RiskPattern[];
+  cues: LinguisticCues;
+  markers: string[]; // Common words that are rare in the other supported languages, for language detection
+  characters?: RegExp; // Letters or punctuation only this language uses, tested against the raw lowercase message
+}
@@ -0,0 +1,96 @@
+import type { LexiconPack } from './LexiconPack';
+
+export const GERMAN: LexiconPack = {
+  language: 'de',
+  name: 'Deutsch',
+  lexicon: [
+    // Suicide ideation
+    { term: 'mich umbringen', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'mich töten', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'mir das leben nehmen', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'meinem leben ein ende setzen', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'suizidal', weight: 0.9, category: 'suicideIdeation' },
+    { term: 'suizidgedanken', weight: 0.9, category: 'suicideIdeation' },
+    { term: 'selbstmord', weight: 0.85, category: 'suicideIdeation', topic: true },
+    { term: 'suizid', weight: 0.85, category: 'suicideIdeation', topic: true },
+    { term: 'will sterben', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'sterben will', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'nicht mehr leben', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'besser tot', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'lebensmüde', weight: 0.8, category: 'suicideIdeation' },
+    { term: 'keinen grund zu leben', weight: 0.8, category: 'suicideIdeation' },
+
+    // Self-harm
+    { term: 'mich ritzen', weight: 0.85, category: 'selfHarm' },
+    { term: 'ritze mich', weight: 0.85, category: 'selfHarm' },
+    { term: 'selbstverletzung', weight: 0.75, category: 'selfHarm', topic: true },
+    { term: 'mich verletzen', weight: 0.7, category: 'selfHarm' },
+    { term: 'mir wehtun', weight: 0.7, category: 'selfHarm' },
+
+    // Severe depression
+    { term: 'hoffnungslos', weight: 0.65, category: 'severeDepression' },
+    { term: 'wertlos', weight: 0.6, category: 'severeDepression' },
+    { term: 'keine zukunft', weight: 0.6, category: 'severeDepression' },
+    { term: 'ich gebe auf', weight: 0.55, category: 'severeDepression' },
+    { term: 'innerlich leer', weight: 0.55, category: 'severeDepression' },
+    { term: 'sinnlos', weight: 0.5, category: 'severeDepression' },
+
+    // Acute anxiety
+    { term: 'panikattacke', weight: 0.6, category: 'acuteAnxiety' },
+    { term: 'kriege keine luft', weight: 0.55, category: 'acuteAnxiety' },
+    { term: 'bekomme keine luft', weight: 0.55, category: 'acuteAnxiety' },
+    { term: 'todesangst', weight: 0.5, category: 'acuteAnxiety' },
+
+    // Substance abuse
+    { term: 'überdosis', weight: 0.7, category: 'substanceAbuse' },
+    { term: 'drogen', weight: 0.25, category: 'substanceAbuse' },
+
+    // Eating disorders
+    { term: 'mich übergeben', weight: 0.5, category: 'eatingDisorders' },
+    { term: 'hungern', weight: 0.5, category: 'eatingDisorders' },
+
+    // Domestic violence
+    { term: 'misshandelt mich', weight: 0.65, category: 'domesticViolence' },
+    { term: 'schlägt mich', weight: 0.6, category: 'domesticViolence' },
+    { term: 'angst vor meinem partner', weight: 0.6, category: 'domesticViolence' },
+    { term: 'angst vor meiner partnerin', weight: 0.6, category: 'domesticViolence' },
+
+    // General distress
+    { term: 'halte es nicht mehr aus', weight: 0.6, category: null },
+    { term: 'kann nicht mehr', weight: 0.6, category: null },
+    { term: 'brauche hilfe', weight: 0.3, category: null },
+  ],
+  patterns: [
+    { name: 'kill_self', regex: /\bmich\s+(umbringen|umzubringen|toten)\b|\bbringe\s+mich\s+um\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'end_life', regex: /\b(mir\s+das\s+leben\s+(zu\s+)?nehmen|(meinem\s+leben|allem)\s+ein\s+ende\s+(zu\s+)?(setzen|machen))\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'no_will_to_live', regex: /\b(will|mochte)\s+nicht\s+mehr\s+leben\b|\bkeinen\s+grund\s+(mehr\s+)?zu\s+leben\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'better_dead', regex: /\bbesser\s+tot\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'harm_self', regex: /\b(mich\s+(ritzen|verletzen|schneiden)|ritze\s+mich|mir\s+weh\s*(zu\s*)?tun)\b/, score: 0.8, category: 'selfHarm' },
+    { name: 'stated_intent', regex: /\b(werde|plane)\s+mich\s+(umbringen|toten|ritzen|verletzen)\b/, score: 0.9, category: null },
+    { name: 'urgent_language', regex: /\b(sofort|jetzt\s+gleich|halte\s+es\s+nicht\s+mehr\s+aus)\b/, score: 0.4, category: null },
+  ],
+  cues: {
+    negations: ['nicht', 'nie', 'niemals', 'kein', 'keine', 'keinen', 'nichts', 'niemand'],
+    negationWindow: 3,
+    clauseOpeners: ['ich', 'dann'],
+    clauseBreakers: ['aber', 'und', 'weil', 'denn', 'obwohl', 'doch', 'sondern', 'ausser'],
+    reportingVerbs: ['sagte', 'sagt', 'sagen', 'erzahlte', 'erzahlt', 'schrieb', 'schreibt', 'postete', 'meinte', 'meint'],
+    selfSubjects: ['ich', 'mich', 'mir', 'mein', 'meine', 'meinen', 'meinem', 'meiner', 'wir'],
+    otherSubjects: [
+      'er', 'sie', 'ihn', 'ihm', 'jemand', 'leute', 'alle', 'figur',
+      'freund', 'freundin', 'bruder', 'schwester', 'mutter', 'vater', 'mama', 'papa', 'sohn', 'tochter',
+      'partner', 'partnerin', 'frau', 'mann', 'cousin', 'cousine', 'mitbewohner', 'mitbewohnerin',
+      'kollege', 'kollegin', 'nachbar', 'nachbarin', 'patient', 'patientin', 'klient', 'klientin',
+    ],
+    hypothetical: /\b(was\s+ware\s+wenn|angenommen|stell\s+dir\s+vor|hypothetisch)\b/,
+    fiction: /\b(im|in\s+dem|in\s+der|in\s+einem|in\s+einer)\s+(film|buch|roman|serie|spiel|geschichte|folge|theaterstuck)\b|\bdie\s+figur\b/,
+    quotation: /\b(songtext|liedtext|lied|song|singt|sang|strophe|gedicht|zitat)\b/,
+    // "ß" is not a word character, so "spaß" can't end on a word boundary
+    joking: /\b(witz|scherz|haha+)\b|\bspa(ss|ß)/,
+  },
+  markers: [
+    'ich', 'bin', 'nicht', 'und', 'der', 'das', 'mein', 'meine', 'mich', 'mir', 'sehr', 'aber', 'ist',
+    'habe', 'kann', 'nichts', 'niemand', 'leben', 'sterben', 'mehr', 'auch', 'ein', 'eine', 'keine',
+  ],
+  characters: /[äöüß]/g,
+};
@@ -0,0 +1,16 @@
+import { ENGLISH_CUES } from '../LinguisticContext';
+import { DEFAULT_LEXICON } from '../detectors/LexicalDetector';
+import { DEFAULT_RISK_PATTERNS } from '../detectors/PatternDetector';
+import type { LexiconPack } from './LexiconPack';
+
+export const ENGLISH: LexiconPack = {
+  language: 'en',
+  name: 'English',
+  lexicon: DEFAULT_LEXICON,
+  patterns: DEFAULT_RISK_PATTERNS,
+  cues: ENGLISH_CUES,
+  markers: [
+    'the', 'and', 'i', "i'm", 'im', 'you', 'is', 'are', 'to', 'my', 'it', 'this', 'that', 'with',
+    'have', 'what', 'just', 'want', 'feel', 'of', "don't", "can't", 'anymore', 'myself', 'really',
+  ],
+};
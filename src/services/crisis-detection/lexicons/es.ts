@@ -0,0 +1,97 @@
+import type { LexiconPack } from './LexiconPack';
+
+export const SPANISH: LexiconPack = {
+  language: 'es',
+  name: 'Español',
+  lexicon: [
+    // Suicide ideation
+    { term: 'matarme', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'suicidarme', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'quitarme la vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'acabar con mi vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'pensamientos suicidas', weight: 0.9, category: 'suicideIdeation' },
+    { term: 'suicida', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'suicidio', weight: 0.85, category: 'suicideIdeation', topic: true },
+    { term: 'quiero morir', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'quiero morirme', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'no quiero vivir', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'mejor muerto', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'mejor muerta', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'no vale la pena vivir', weight: 0.8, category: 'suicideIdeation' },
+    { term: 'cansado de vivir', weight: 0.75, category: 'suicideIdeation' },
+    { term: 'cansada de vivir', weight: 0.75, category: 'suicideIdeation' },
+
+    // Self-harm
+    { term: 'cortarme', weight: 0.85, category: 'selfHarm' },
+    { term: 'autolesión', weight: 0.75, category: 'selfHarm', topic: true },
+    { term: 'hacerme daño', weight: 0.7, category: 'selfHarm' },
+    { term: 'lastimarme', weight: 0.7, category: 'selfHarm' },
+    { term: 'quemarme', weight: 0.7, category: 'selfHarm' },
+
+    // Severe depression
+    { term: 'sin esperanza', weight: 0.65, category: 'severeDepression' },
+    { term: 'desesperanza', weight: 0.6, category: 'severeDepression' },
+    { term: 'no valgo nada', weight: 0.6, category: 'severeDepression' },
+    { term: 'sin futuro', weight: 0.6, category: 'severeDepression' },
+    { term: 'me rindo', weight: 0.55, category: 'severeDepression' },
+    { term: 'vacío por dentro', weight: 0.55, category: 'severeDepression' },
+    { term: 'vacía por dentro', weight: 0.55, category: 'severeDepression' },
+    { term: 'inútil', weight: 0.5, category: 'severeDepression' },
+
+    // Acute anxiety
+    { term: 'ataque de pánico', weight: 0.6, category: 'acuteAnxiety' },
+    { term: 'no puedo respirar', weight: 0.55, category: 'acuteAnxiety' },
+    { term: 'aterrado', weight: 0.5, category: 'acuteAnxiety' },
+    { term: 'aterrada', weight: 0.5, category: 'acuteAnxiety' },
+
+    // Substance abuse
+    { term: 'sobredosis', weight: 0.7, category: 'substanceAbuse' },
+    { term: 'drogas', weight: 0.25, category: 'substanceAbuse' },
+
+    // Eating disorders
+    { term: 'vomitar a propósito', weight: 0.6, category: 'eatingDisorders' },
+    { term: 'dejar de comer', weight: 0.5, category: 'eatingDisorders' },
+
+    // Domestic violence
+    { term: 'me maltrata', weight: 0.65, category: 'domesticViolence' },
+    { term: 'me pega', weight: 0.6, category: 'domesticViolence' },
+    { term: 'miedo de mi pareja', weight: 0.6, category: 'domesticViolence' },
+
+    // General distress
+    { term: 'no puedo más', weight: 0.6, category: null },
+    { term: 'no aguanto más', weight: 0.6, category: null },
+    { term: 'necesito ayuda', weight: 0.3, category: null },
+  ],
+  patterns: [
+    { name: 'kill_self', regex: /\b(matarme|suicidarme|quitarme\s+la\s+vida)\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'end_life', regex: /\b(acabar|terminar)\s+con\s+(mi\s+vida|todo)\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'no_will_to_live', regex: /\b(no\s+quiero\s+(seguir\s+)?vivir|no\s+tengo\s+(razones|motivos)\s+para\s+vivir)\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'better_dead', regex: /\bmejor\s+muert[oa]s?\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'harm_self', regex: /\b(cortarme|lastimarme|quemarme|hacerme\s+dano)\b/, score: 0.8, category: 'selfHarm' },
+    { name: 'stated_intent', regex: /\b(voy\s+a|planeo|pienso)\s+(matarme|suicidarme|cortarme|acabar)\b/, score: 0.9, category: null },
+    { name: 'urgent_language', regex: /\b(ahora\s+mismo|no\s+(puedo|aguanto)\s+mas)\b/, score: 0.4, category: null },
+  ],
+  cues: {
+    negations: ['no', 'nunca', 'jamas', 'ni', 'tampoco', 'nadie', 'ya no'],
+    negationWindow: 3,
+    clauseOpeners: ['yo', 'entonces', 'quiero', 'voy', 'tengo', 'estoy', 'pienso', 'planeo', 'necesito', 'siento'], // The subject is usually dropped
+    clauseBreakers: ['pero', 'y', 'porque', 'aunque', 'sino', 'excepto'],
+    reportingVerbs: ['dijo', 'dice', 'dicen', 'dijeron', 'conto', 'cuenta', 'escribio', 'publico', 'diciendo', 'afirma'],
+    selfSubjects: ['yo', 'me', 'mi', 'mis', 'nosotros', 'nosotras'],
+    otherSubjects: [
+      'ella', 'ellos', 'ellas', 'alguien', 'gente', 'todos', 'personaje',
+      'amigo', 'amiga', 'hermano', 'hermana', 'mama', 'papa', 'madre', 'padre', 'hijo', 'hija', 'pareja',
+      'esposa', 'esposo', 'novio', 'novia', 'primo', 'prima', 'companero', 'companera', 'vecino', 'vecina',
+      'paciente', 'cliente',
+    ],
+    hypothetical: /\b(que\s+pasaria\s+si|y\s+si|supongamos|imagina|imaginemos|hipoteticamente)\b/,
+    fiction: /\b(en|de)\s+(la|el|esta|esa|una|un)\s+(pelicula|libro|novela|serie|juego|historia|episodio|obra)\b|\bel\s+personaje\b/,
+    quotation: /\b(letra|cancion|canta|cantaba|verso|poema|cita)\b/,
+    joking: /\b(broma|bromeando|jaja+)\b/,
+  },
+  markers: [
+    'el', 'los', 'las', 'yo', 'estoy', 'quiero', 'pero', 'tengo', 'una', 'del', 'mi', 'siento', 'hay',
+    'muy', 'nadie', 'puedo', 'soy', 'aguanto', 'vivir', 'morir', 'nunca', 'y',
+  ],
+  characters: /[ñ¿¡]/g,
+};
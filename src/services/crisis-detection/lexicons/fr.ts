@@ -0,0 +1,99 @@
+import type { LexiconPack } from './LexiconPack';
+
+export const FRENCH: LexiconPack = {
+  language: 'fr',
+  name: 'Français',
+  lexicon: [
+    // Suicide ideation
+    { term: 'me tuer', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'me suicider', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'mettre fin à mes jours', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'mettre fin à ma vie', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'suicidaire', weight: 0.9, category: 'suicideIdeation' },
+    { term: 'suicide', weight: 0.85, category: 'suicideIdeation', topic: true },
+    { term: 'envie de mourir', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'veux mourir', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'en finir', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'plus envie de vivre', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'mieux mort', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'mieux morte', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'aucune raison de vivre', weight: 0.8, category: 'suicideIdeation' },
+    { term: 'fatigué de vivre', weight: 0.75, category: 'suicideIdeation' },
+    { term: 'fatiguée de vivre', weight: 0.75, category: 'suicideIdeation' },
+
+    // Self-harm
+    { term: 'me scarifier', weight: 0.85, category: 'selfHarm' },
+    { term: 'me couper', weight: 0.8, category: 'selfHarm' },
+    { term: 'automutilation', weight: 0.75, category: 'selfHarm', topic: true },
+    { term: 'me faire du mal', weight: 0.7, category: 'selfHarm' },
+    { term: 'me brûler', weight: 0.7, category: 'selfHarm' },
+
+    // Severe depression
+    { term: 'sans espoir', weight: 0.65, category: 'severeDepression' },
+    { term: 'désespéré', weight: 0.6, category: 'severeDepression' },
+    { term: 'désespérée', weight: 0.6, category: 'severeDepression' },
+    { term: 'je ne vaux rien', weight: 0.6, category: 'severeDepression' },
+    { term: 'aucun avenir', weight: 0.6, category: 'severeDepression' },
+    { term: "j'abandonne", weight: 0.55, category: 'severeDepression' },
+    { term: "vide à l'intérieur", weight: 0.55, category: 'severeDepression' },
+    { term: 'inutile', weight: 0.45, category: 'severeDepression' },
+
+    // Acute anxiety
+    { term: 'crise de panique', weight: 0.6, category: 'acuteAnxiety' },
+    { term: "crise d'angoisse", weight: 0.6, category: 'acuteAnxiety' },
+    { term: "n'arrive pas à respirer", weight: 0.55, category: 'acuteAnxiety' },
+    { term: 'terrifié', weight: 0.5, category: 'acuteAnxiety' },
+    { term: 'terrifiée', weight: 0.5, category: 'acuteAnxiety' },
+
+    // Substance abuse
+    { term: 'overdose', weight: 0.7, category: 'substanceAbuse' },
+    { term: 'surdose', weight: 0.7, category: 'substanceAbuse' },
+    { term: 'drogues', weight: 0.25, category: 'substanceAbuse' },
+
+    // Eating disorders
+    { term: 'me faire vomir', weight: 0.6, category: 'eatingDisorders' },
+    { term: 'arrêter de manger', weight: 0.5, category: 'eatingDisorders' },
+
+    // Domestic violence
+    { term: 'me frappe', weight: 0.6, category: 'domesticViolence' },
+    { term: 'me bat', weight: 0.6, category: 'domesticViolence' },
+    { term: 'peur de mon conjoint', weight: 0.6, category: 'domesticViolence' },
+    { term: 'peur de ma conjointe', weight: 0.6, category: 'domesticViolence' },
+
+    // General distress
+    { term: "n'en peux plus", weight: 0.6, category: null },
+    { term: "besoin d'aide", weight: 0.3, category: null },
+  ],
+  patterns: [
+    { name: 'kill_self', regex: /\bme\s+(tuer|suicider)\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'end_life', regex: /\b(mettre\s+fin\s+a\s+(mes\s+jours|ma\s+vie)|en\s+finir(\s+avec\s+la\s+vie)?)\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'no_will_to_live', regex: /\b(plus\s+envie\s+de\s+vivre|aucune\s+raison\s+de\s+vivre)\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'better_dead', regex: /\bmieux\s+mort(e|s|es)?\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'harm_self', regex: /\bme\s+(couper|scarifier|bruler|faire\s+du\s+mal)\b/, score: 0.8, category: 'selfHarm' },
+    { name: 'stated_intent', regex: /\b(je\s+vais|je\s+compte|je\s+prevois\s+de)\s+(me\s+)?(tuer|suicider|couper|en\s+finir)\b/, score: 0.9, category: null },
+    { name: 'urgent_language', regex: /\b(tout\s+de\s+suite|n'en\s+peux\s+plus)\b/, score: 0.4, category: null },
+  ],
+  cues: {
+    negations: ['ne', 'pas', 'jamais', 'aucun', 'aucune', 'ni', 'plus jamais'],
+    negationWindow: 3,
+    clauseOpeners: ['je', "j'ai", "j'en", "j'y", 'alors'],
+    clauseBreakers: ['mais', 'et', 'parce', 'car', 'pourtant', 'cependant', 'sauf'],
+    reportingVerbs: ['dit', 'dis', 'disent', 'disait', 'raconte', 'ecrit', 'poste', 'affirme', 'pretend'],
+    selfSubjects: ['je', "j'ai", "j'en", "j'y", 'moi', 'me', 'mon', 'ma', 'mes', 'nous'],
+    otherSubjects: [
+      'il', 'elle', 'ils', 'elles', 'lui', 'eux', "quelqu'un", 'gens', 'personnage',
+      'ami', 'amie', 'frere', 'soeur', 'sœur', 'mere', 'pere', 'fils', 'fille', 'conjoint', 'conjointe',
+      'femme', 'mari', 'copain', 'copine', 'cousin', 'cousine', 'colocataire', 'collegue', 'voisin', 'voisine',
+      'patient', 'patiente', 'client', 'cliente',
+    ],
+    hypothetical: /\b(et\s+si|imagine|imaginons|supposons|hypothetiquement)\b/,
+    fiction: /\b(dans|de)\s+(le|la|ce|cette|un|une)\s+(film|livre|roman|serie|jeu|histoire|episode|piece)\b|\ble\s+personnage\b/,
+    quotation: /\b(paroles|chanson|chante|chantait|couplet|poeme|citation)\b/,
+    joking: /\b(blague|rigole|plaisante|mdr|lol)\b/,
+  },
+  markers: [
+    'je', 'suis', 'pas', 'le', 'les', 'et', 'ne', 'mon', 'moi', 'veux', 'tres', 'pour', 'avec', 'est',
+    "c'est", "j'ai", 'rien', 'tout', 'peux', 'vivre', 'mourir', 'plus', "n'en",
+  ],
+  characters: /[èœ]|\b[jcn]'/g,
+};
@@ -0,0 +1,21 @@
+import { GERMAN } from './de';
+import { ENGLISH } from './en';
+import { SPANISH } from './es';
+import { FRENCH } from './fr';
+import type { LexiconPack } from './LexiconPack';
+import { PORTUGUESE } from './pt';
+
+export type { LexiconPack } from './LexiconPack';
+export { ENGLISH, SPANISH, PORTUGUESE, FRENCH, GERMAN };
+
+export const LEXICON_PACKS: LexiconPack[] = [ENGLISH, SPANISH, PORTUGUESE, FRENCH, GERMAN];
+
+export const SUPPORTED_LANGUAGES = LEXICON_PACKS.map(pack => pack.language);
+
+/**
+ * Pack for an ISO 639-1 code or a locale such as "pt-BR"
+ */
+export function getLexiconPack(language: string): LexiconPack | undefined {
+  const code = language.toLowerCase().split(/[-_]/)[0];
+  return LEXICON_PACKS.find(pack => pack.language === code);
+}
@@ -0,0 +1,97 @@
+import type { LexiconPack } from './LexiconPack';
+
+export const PORTUGUESE: LexiconPack = {
+  language: 'pt',
+  name: 'Português',
+  lexicon: [
+    // Suicide ideation
+    { term: 'me matar', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'matar-me', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'me suicidar', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'tirar minha vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'tirar a minha vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'acabar com a minha vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'acabar com minha vida', weight: 0.95, category: 'suicideIdeation' },
+    { term: 'pensamentos suicidas', weight: 0.9, category: 'suicideIdeation' },
+    { term: 'suicida', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'suicídio', weight: 0.85, category: 'suicideIdeation', topic: true },
+    { term: 'quero morrer', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'não quero viver', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'melhor morto', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'melhor morta', weight: 0.85, category: 'suicideIdeation' },
+    { term: 'sem razão para viver', weight: 0.8, category: 'suicideIdeation' },
+    { term: 'cansado de viver', weight: 0.75, category: 'suicideIdeation' },
+    { term: 'cansada de viver', weight: 0.75, category: 'suicideIdeation' },
+
+    // Self-harm
+    { term: 'me cortar', weight: 0.85, category: 'selfHarm' },
+    { term: 'me cortando', weight: 0.85, category: 'selfHarm' },
+    { term: 'automutilação', weight: 0.75, category: 'selfHarm', topic: true },
+    { term: 'me machucar', weight: 0.7, category: 'selfHarm' },
+    { term: 'me ferir', weight: 0.7, category: 'selfHarm' },
+
+    // Severe depression
+    { term: 'sem esperança', weight: 0.65, category: 'severeDepression' },
+    { term: 'não valho nada', weight: 0.6, category: 'severeDepression' },
+    { term: 'sem futuro', weight: 0.6, category: 'severeDepression' },
+    { term: 'desisto', weight: 0.55, category: 'severeDepression' },
+    { term: 'vazio por dentro', weight: 0.55, category: 'severeDepression' },
+    { term: 'vazia por dentro', weight: 0.55, category: 'severeDepression' },
+    { term: 'inútil', weight: 0.5, category: 'severeDepression' },
+
+    // Acute anxiety
+    { term: 'ataque de pânico', weight: 0.6, category: 'acuteAnxiety' },
+    { term: 'crise de pânico', weight: 0.6, category: 'acuteAnxiety' },
+    { term: 'não consigo respirar', weight: 0.55, category: 'acuteAnxiety' },
+
+    // Substance abuse
+    { term: 'overdose', weight: 0.7, category: 'substanceAbuse' },
+    { term: 'drogas', weight: 0.25, category: 'substanceAbuse' },
+
+    // Eating disorders
+    { term: 'vomitar de propósito', weight: 0.6, category: 'eatingDisorders' },
+    { term: 'parar de comer', weight: 0.5, category: 'eatingDisorders' },
+
+    // Domestic violence
+    { term: 'me agride', weight: 0.65, category: 'domesticViolence' },
+    { term: 'me bate', weight: 0.6, category: 'domesticViolence' },
+    { term: 'medo do meu parceiro', weight: 0.6, category: 'domesticViolence' },
+    { term: 'medo da minha parceira', weight: 0.6, category: 'domesticViolence' },
+
+    // General distress
+    { term: 'não aguento mais', weight: 0.6, category: null },
+    { term: 'preciso de ajuda', weight: 0.3, category: null },
+  ],
+  patterns: [
+    { name: 'kill_self', regex: /\b(me\s+matar|matar-me|me\s+suicidar|suicidar-me)\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'end_life', regex: /\b(acabar|terminar)\s+com\s+(a\s+)?minha\s+vida\b|\btirar\s+(a\s+)?minha\s+(propria\s+)?vida\b/, score: 0.9, category: 'suicideIdeation' },
+    { name: 'no_will_to_live', regex: /\b(nao\s+quero\s+(mais\s+)?viver|sem\s+(razao|motivo)\s+para\s+viver)\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'better_dead', regex: /\bmelhor\s+mort[oa]s?\b/, score: 0.85, category: 'suicideIdeation' },
+    { name: 'harm_self', regex: /\bme\s+(cortar|cortando|machucar|machucando|ferir|queimar)\b/, score: 0.8, category: 'selfHarm' },
+    { name: 'stated_intent', regex: /\b(vou|pretendo|planejo)\s+(me\s+)?(matar|suicidar|cortar|acabar)\b/, score: 0.9, category: null },
+    { name: 'urgent_language', regex: /\b(agora\s+mesmo|nao\s+aguento\s+mais)\b/, score: 0.4, category: null },
+  ],
+  cues: {
+    negations: ['nao', 'nunca', 'jamais', 'nem', 'ninguem', 'tampouco'],
+    negationWindow: 3,
+    clauseOpeners: ['eu', 'entao', 'quero', 'vou', 'tenho', 'estou', 'penso', 'preciso', 'sinto'], // The subject is usually dropped
+    clauseBreakers: ['mas', 'e', 'porque', 'porem', 'embora', 'exceto'],
+    reportingVerbs: ['disse', 'diz', 'dizem', 'disseram', 'contou', 'escreveu', 'postou', 'dizendo', 'falou', 'fala'],
+    selfSubjects: ['eu', 'me', 'meu', 'meus', 'minha', 'minhas', 'mim', 'nos'],
+    otherSubjects: [
+      'ele', 'ela', 'eles', 'elas', 'alguem', 'pessoas', 'todos', 'personagem',
+      'amigo', 'amiga', 'irmao', 'irma', 'mae', 'pai', 'filho', 'filha', 'parceiro', 'parceira',
+      'esposa', 'marido', 'namorado', 'namorada', 'primo', 'prima', 'colega', 'vizinho', 'vizinha',
+      'paciente', 'cliente',
+    ],
+    hypothetical: /\b(e\s+se|suponha|supondo|imagine|imagina|hipoteticamente)\b/,
+    fiction: /\b(no|na|neste|nesse|num|numa)\s+(filme|livro|romance|serie|jogo|historia|episodio|peca)\b|\bo\s+personagem\b/,
+    quotation: /\b(letra|musica|canta|cantava|verso|poema|citacao)\b/,
+    joking: /\b(brincadeira|brincando|zoando|kkk+|haha+)\b/,
+  },
+  markers: [
+    'eu', 'nao', 'estou', 'quero', 'muito', 'mas', 'tenho', 'uma', 'meu', 'minha', 'voce', 'com', 'isso',
+    'sinto', 'ninguem', 'consigo', 'sou', 'aguento', 'viver', 'morrer', 'e',
+  ],
+  characters: /[ãõ]/g,
+};
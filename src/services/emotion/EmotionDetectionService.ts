@@ -1,4 +1,5 @@
 import { logger } from '@/lib/logger';
+import type { UserDataSource } from '@/services/compliance/data-rights/UserDataSource';
 
 export interface EmotionState {
   primaryEmotion: EmotionType;
@@ -81,7 +82,8 @@ export interface ContentAdaptation {
   pacing: 'slow' | 'normal' | 'fast';
 }
 
-export class EmotionDetectionService {
+export class EmotionDetectionService implements UserDataSource {
+  readonly name = 'emotion';
   private emotionHistory: Map<string, EmotionState[]> = new Map();
   private adaptationCache: Map<string, EmotionalUXAdaptation> = new Map();
 
@@ -558,4 +560,34 @@ export class EmotionDetectionService {
     this.emotionHistory.delete(userId);
     logger.info({ userId }, 'Emotion history cleared');
   }
-}
\ No newline at end of file
+
+  // Data subject requests
+  async exportUserData(userId: string) {
+    return { history: this.emotionHistory.get(userId) || [] };
+  }
+
+  async eraseUserData(userId: string): Promise<number> {
+    const erased = this.emotionHistory.get(userId)?.length ?? 0;
+    this.clearEmotionHistory(userId);
+
+    // Cached adaptations are keyed by user, emotion and intensity
+    for (const key of this.adaptationCache.keys()) {
+      if (key.startsWith(`${userId}-`)) {
+        this.adaptationCache.delete(key);
+      }
+    }
+    return erased;
+  }
+}
+
+let defaultService: EmotionDetectionService | null = null;
+
+/**
+ * Shared service for this process, so the API routes and account data requests see the same history
+ */
+export function getEmotionDetectionService(): EmotionDetectionService {
+  if (!defaultService) {
+    defaultService = new EmotionDetectionService();
+  }
+  return defaultService;
+}
@@ -1,5 +1,24 @@
 import { readFile } from 'fs/promises';
 import { logger } from '@/lib/logger';
+import {
+  VectorStore,
+  KnowledgeDocumentRecord,
+  DocumentStatus,
+  DocumentUpdate,
+  ScoredChunk,
+  getDefaultVectorStore,
+} from './stores';
+import { KnowledgeEmbedder, embeddingModelKey } from './KnowledgeEmbedder';
+import type { EmbeddingResponse } from '../ai/providers/IAiProvider';
+import { extractDocument, ExtractedDocument } from './extraction';
+import {
+  StructuredChunker,
+  ChunkingOptions,
+  ChunkingOverrides,
+  DocumentChunk,
+  getChunkingOptions,
+  getChunkingOverridesFromEnv,
+} from './chunking';
 
 export interface DocumentMetadata {
   filename: string;
@@ -15,98 +34,114 @@ export interface ChunkData {
   documentId: string;
   content: string;
   embedding: number[];
+  embeddingModel?: string; // 'provider:model' that produced `embedding`
   metadata: {
     chunkIndex: number;
-    startPosition: number;
+    startPosition: number; // Character offsets into the extracted document text
     endPosition: number;
+    tokenCount?: number;
+    page?: number; // Source page for paginated formats (PDF)
+    headingPath?: string[]; // Section headings enclosing the chunk, outermost first
   };
 }
 
 export class KnowledgeBaseService {
-  private vectorStore: Map<string, ChunkData[]> = new Map();
-  private documentStore: Map<string, DocumentMetadata & { status: string; chunkCount?: number }> = new Map();
-
-  async extractText(filePath: string, contentType: string): Promise<string> {
-    try {
-      // For now, just read text files directly
-      // In production, you'd use libraries like pdf-parse, mammoth, etc.
-      if (contentType === 'txt' || contentType === 'md' || contentType === 'html') {
-        const buffer = await readFile(filePath);
-        return buffer.toString('utf-8');
-      }
+  private store: VectorStore;
+  private embedder: KnowledgeEmbedder;
+  private chunking: ChunkingOverrides;
+
+  constructor(
+    store: VectorStore = getDefaultVectorStore(),
+    embedder: KnowledgeEmbedder = new KnowledgeEmbedder(),
+    chunking: ChunkingOverrides = getChunkingOverridesFromEnv()
+  ) {
+    this.store = store;
+    this.embedder = embedder;
+    this.chunking = chunking;
+  }
 
-      // Placeholder for PDF and DOCX processing
-      // TODO: Implement proper document parsing
-      logger.warn({ contentType }, 'Document type not fully supported yet, using placeholder');
-      return 'Document content extraction not implemented for this file type yet.';
+  async registerDocument(
+    documentId: string,
+    metadata: DocumentMetadata,
+    filePath?: string
+  ): Promise<KnowledgeDocumentRecord> {
+    const document: KnowledgeDocumentRecord = {
+      ...metadata,
+      id: documentId,
+      status: 'uploaded',
+      filePath,
+      uploadedAt: metadata.uploadedAt || new Date().toISOString(),
+    };
+
+    await this.store.createDocument(document);
+    return document;
+  }
 
-    } catch (error) {
-      logger.error({ error, filePath }, 'Failed to extract text from document');
-      throw new Error('Failed to extract text from document');
-    }
+  /**
+   * Extract text and section structure from an uploaded file. Throws an `ExtractionError`
+   * when the format is unsupported, the file is corrupt, or it has no text layer.
+   */
+  async extractDocument(filePath: string, contentType: string): Promise<ExtractedDocument> {
+    const buffer = await readFile(filePath);
+    const document = await extractDocument(buffer, contentType);
+
+    logger.info({
+      contentType,
+      blockCount: document.blocks.length,
+      pageCount: document.pageCount
+    }, 'Extracted text from document');
+
+    return document;
   }
 
-  async chunkText(text: string, options: { chunkSize: number; chunkOverlap: number }): Promise<string[]> {
-    const { chunkSize, chunkOverlap } = options;
-    const chunks: string[] = [];
-
-    // Simple text chunking by sentences/paragraphs
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-
-    let currentChunk = '';
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (!trimmedSentence) continue;
-
-      // If adding this sentence would exceed chunk size, save current chunk
-      if (currentChunk.length + trimmedSentence.length > chunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        // Start new chunk with overlap from previous chunk
-        const words = currentChunk.split(' ');
-        const overlapWords = words.slice(-Math.floor(chunkOverlap / 6)); // Rough word count estimate
-        currentChunk = overlapWords.join(' ') + ' ' + trimmedSentence;
-      } else {
-        currentChunk += (currentChunk ? ' ' : '') + trimmedSentence;
-      }
-    }
+  /**
+   * Split an extracted document into token-bounded chunks using the strategy configured for its format
+   */
+  async chunkDocument(document: ExtractedDocument, options?: Partial<ChunkingOptions>): Promise<DocumentChunk[]> {
+    const chunkingOptions = { ...getChunkingOptions(document.format, this.chunking), ...options };
+    const chunks = new StructuredChunker(chunkingOptions).chunk(document);
 
-    // Add remaining chunk
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
+    logger.info({
+      format: document.format,
+      strategy: chunkingOptions.strategy,
+      chunkCount: chunks.length
+    }, 'Chunked document');
 
     return chunks;
   }
 
-  async generateEmbeddings(chunks: string[]): Promise<number[][]> {
-    // Placeholder for embedding generation
-    // In production, you'd use OpenAI embeddings, Cohere, or other embedding services
-    logger.info({ chunkCount: chunks.length }, 'Generating embeddings (placeholder)');
+  async generateEmbeddings(chunks: string[]): Promise<EmbeddingResponse> {
+    logger.info({ chunkCount: chunks.length }, 'Generating embeddings');
 
-    // Return dummy embeddings for now
-    return chunks.map(() => Array.from({ length: 1536 }, () => Math.random() - 0.5));
+    return this.embedder.embed(chunks);
   }
 
   async storeChunks(
     documentId: string,
-    chunks: string[],
-    embeddings: number[][],
+    chunks: DocumentChunk[],
+    embeddings: EmbeddingResponse,
     metadata: DocumentMetadata
   ): Promise<void> {
+    const embeddingModel = embeddingModelKey(embeddings.metadata.provider, embeddings.metadata.model);
+
     const chunkData: ChunkData[] = chunks.map((chunk, index) => ({
       id: `${documentId}-chunk-${index}`,
       documentId,
-      content: chunk,
-      embedding: embeddings[index],
+      content: chunk.content,
+      embedding: embeddings.embeddings[index],
+      embeddingModel,
       metadata: {
         chunkIndex: index,
-        startPosition: index * 1000, // Placeholder
-        endPosition: (index + 1) * 1000,
+        startPosition: chunk.startPosition,
+        endPosition: chunk.endPosition,
+        tokenCount: chunk.tokenCount,
+        page: chunk.page,
+        headingPath: chunk.headingPath,
       }
     }));
 
-    // Store in memory (in production, use a vector database like Pinecone, Weaviate, etc.)
-    this.vectorStore.set(documentId, chunkData);
+    await this.store.replaceChunks(documentId, chunkData);
+    await this.store.updateDocument(documentId, { embeddingModel });
 
     logger.info({
       documentId,
@@ -116,56 +151,92 @@ export class KnowledgeBaseService {
 
   async updateDocumentStatus(
     documentId: string,
-    status: string,
-    additionalData?: { chunkCount?: number }
+    status: DocumentStatus,
+    additionalData?: Omit<DocumentUpdate, 'status'>
   ): Promise<void> {
-    const existingDoc = this.documentStore.get(documentId);
-    if (existingDoc) {
-      this.documentStore.set(documentId, {
-        ...existingDoc,
-        status,
-        ...additionalData
-      });
-    }
+    await this.store.updateDocument(documentId, {
+      status,
+      ...additionalData
+    });
   }
 
-  async searchSimilar(query: string, limit: number = 5): Promise<ChunkData[]> {
-    // Placeholder for vector similarity search
-    // In production, use proper vector similarity search
+  /**
+   * Rank stored chunks by cosine similarity to the query embedding
+   */
+  async searchSimilar(
+    query: string,
+    limit: number = 5,
+    options: { documentIds?: string[]; minSimilarity?: number } = {}
+  ): Promise<ScoredChunk[]> {
     logger.info({ query, limit }, 'Performing similarity search');
 
-    const allChunks: ChunkData[] = [];
-    for (const chunks of this.vectorStore.values()) {
-      allChunks.push(...chunks);
-    }
+    const queryEmbedding = await this.embedder.embed([query]);
 
-    // Simple keyword matching as placeholder
-    const queryWords = query.toLowerCase().split(' ');
-    const scoredChunks = allChunks.map(chunk => {
-      const content = chunk.content.toLowerCase();
-      let score = 0;
-      for (const word of queryWords) {
-        if (content.includes(word)) {
-          score += 1;
-        }
-      }
-      return { chunk, score };
+    return this.store.similaritySearch(queryEmbedding.embeddings[0], {
+      limit,
+      embeddingModel: embeddingModelKey(queryEmbedding.metadata.provider, queryEmbedding.metadata.model),
+      ...options
     });
+  }
+
+  /**
+   * Re-embed every ready document whose chunks were produced by a different embedding model
+   * than the one currently configured. Chunk text and offsets are kept as-is.
+   */
+  async reembedStaleDocuments(): Promise<{ model: string; reembedded: string[]; failed: string[] }> {
+    const currentModel = await this.embedder.getModelKey();
+    const documents = await this.store.listDocuments();
+    const stale = documents.filter(doc => doc.status === 'ready' && doc.embeddingModel !== currentModel);
+
+    const reembedded: string[] = [];
+    const failed: string[] = [];
+
+    for (const document of stale) {
+      try {
+        const chunks = await this.store.getChunks(document.id);
+        const embeddings = await this.embedder.embed(chunks.map(chunk => chunk.content));
+        const embeddingModel = embeddingModelKey(embeddings.metadata.provider, embeddings.metadata.model);
+
+        await this.store.replaceChunks(document.id, chunks.map((chunk, index) => ({
+          ...chunk,
+          embedding: embeddings.embeddings[index],
+          embeddingModel,
+        })));
+        await this.store.updateDocument(document.id, { embeddingModel });
+
+        reembedded.push(document.id);
+      } catch (error) {
+        logger.error({
+          documentId: document.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Failed to re-embed knowledge document');
+        failed.push(document.id);
+      }
+    }
+
+    logger.info({
+      model: currentModel,
+      staleCount: stale.length,
+      reembeddedCount: reembedded.length,
+      failedCount: failed.length
+    }, 'Re-embedded stale knowledge documents');
 
-    return scoredChunks
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(item => item.chunk);
+    return { model: currentModel, reembedded, failed };
   }
 
-  getDocumentStatus(documentId: string) {
-    return this.documentStore.get(documentId);
+  async getDocumentStatus(documentId: string): Promise<KnowledgeDocumentRecord | null> {
+    return this.store.getDocument(documentId);
   }
 
-  getAllDocuments() {
-    return Array.from(this.documentStore.entries()).map(([id, data]) => ({
-      id,
-      ...data
-    }));
+  async getAllDocuments(): Promise<KnowledgeDocumentRecord[]> {
+    return this.store.listDocuments();
+  }
+
+  async deleteDocument(documentId: string): Promise<KnowledgeDocumentRecord | null> {
+    const document = await this.store.getDocument(documentId);
+    if (document) {
+      await this.store.deleteDocument(documentId);
+    }
+    return document;
   }
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import type { AiService } from '../ai/AiService';
+import type { EmbeddingResponse } from '../ai/providers/IAiProvider';
+import { LocalEmbeddingProvider } from '../ai/providers/LocalEmbeddingProvider';
+
+export interface KnowledgeEmbedderConfig {
+  provider?: string; // 'openai' | 'google' | 'local'; unset picks the best platform provider
+  model?: string;
+}
+
+/**
+ * Embeds knowledge chunks and search queries with the configured provider.
+ * Both sides of a similarity search must go through the same embedder so vectors are comparable.
+ */
+export class KnowledgeEmbedder {
+  private config: KnowledgeEmbedderConfig;
+  private aiService: Promise<AiService> | null = null;
+
+  constructor(config: KnowledgeEmbedderConfig = getEmbedderConfigFromEnv()) {
+    this.config = config;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    if (this.config.provider === 'local') {
+      return new LocalEmbeddingProvider().embed(texts);
+    }
+
+    const aiService = await this.getAiService();
+    return aiService.embed(texts, {
+      provider: this.config.provider,
+      model: this.config.model,
+    });
+  }
+
+  /**
+   * Key identifying the model new embeddings will be produced with ('provider:model')
+   */
+  async getModelKey(): Promise<string> {
+    const provider = this.config.provider === 'local'
+      ? new LocalEmbeddingProvider()
+      : (await this.getAiService()).getEmbeddingProvider(this.config.provider);
+
+    return embeddingModelKey(provider.id, provider.getEmbeddingModel(this.config.model).id);
+  }
+
+  private getAiService(): Promise<AiService> {
+    if (!this.aiService) {
+      // Imported lazily: AiService loads API keys through Prisma, which local/test embedding never needs
+      this.aiService = import('../ai/AiService').then(async ({ AiService }) => {
+        const aiService = new AiService({});
+        await aiService.initialize();
+        return aiService;
+      });
+    }
+    return this.aiService;
+  }
+}
+
+export function embeddingModelKey(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+function getEmbedderConfigFromEnv(): KnowledgeEmbedderConfig {
+  return {
+    provider: process.env.KNOWLEDGE_EMBEDDING_PROVIDER
+      || (process.env.NODE_ENV === 'test' ? 'local' : undefined),
+    model: process.env.KNOWLEDGE_EMBEDDING_MODEL,
+  };
+}
@@ -0,0 +1,124 @@
+import { logger } from '@/lib/logger';
+import { KnowledgeBaseService } from './KnowledgeBaseService';
+import { estimateTokens } from './chunking';
+
+export interface KnowledgeCitation {
+  marker: number; // The [n] the model is asked to cite the excerpt with
+  documentId: string;
+  documentTitle: string;
+  chunkId: string;
+  chunkIndex: number;
+  startPosition: number; // Offsets into the extracted document text
+  endPosition: number;
+  headingPath: string[];
+  page?: number;
+  excerpt: string;
+  similarity: number;
+}
+
+export interface RetrievedKnowledge {
+  systemMessage: string | null; // Null when nothing relevant was found
+  citations: KnowledgeCitation[];
+  tokenCount: number;
+}
+
+export interface KnowledgeRetrieverConfig {
+  topK: number;
+  minSimilarity: number;
+  tokenBudget: number; // Upper bound on excerpt tokens injected into the conversation
+}
+
+const DEFAULT_CONFIG: KnowledgeRetrieverConfig = {
+  topK: 5,
+  minSimilarity: 0.25,
+  tokenBudget: 1200,
+};
+
+/**
+ * Retrieves knowledge base excerpts for a user message and formats them as a system message
+ * the model can cite. Retrieval failures degrade to an answer without knowledge rather than an error.
+ */
+export class KnowledgeRetriever {
+  private knowledgeService: KnowledgeBaseService;
+  private config: KnowledgeRetrieverConfig;
+
+  constructor(knowledgeService = new KnowledgeBaseService(), config: Partial<KnowledgeRetrieverConfig> = {}) {
+    this.knowledgeService = knowledgeService;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async retrieve(query: string): Promise<RetrievedKnowledge> {
+    try {
+      const results = await this.knowledgeService.searchSimilar(query, this.config.topK, {
+        minSimilarity: this.config.minSimilarity,
+      });
+
+      const titles = new Map<string, string>();
+      const citations: KnowledgeCitation[] = [];
+      let tokenCount = 0;
+
+      for (const chunk of results) {
+        // Results are ranked, so stop at the first excerpt that would overflow the budget
+        const chunkTokens = chunk.metadata.tokenCount ?? estimateTokens(chunk.content);
+        if (tokenCount + chunkTokens > this.config.tokenBudget) break;
+
+        if (!titles.has(chunk.documentId)) {
+          const document = await this.knowledgeService.getDocumentStatus(chunk.documentId);
+          titles.set(chunk.documentId, document?.filename ?? 'Untitled document');
+        }
+
+        tokenCount += chunkTokens;
+        citations.push({
+          marker: citations.length + 1,
+          documentId: chunk.documentId,
+          documentTitle: titles.get(chunk.documentId)!,
+          chunkId: chunk.id,
+          chunkIndex: chunk.metadata.chunkIndex,
+          startPosition: chunk.metadata.startPosition,
+          endPosition: chunk.metadata.endPosition,
+          headingPath: chunk.metadata.headingPath ?? [],
+          page: chunk.metadata.page,
+          excerpt: chunk.content,
+          similarity: chunk.similarity,
+        });
+      }
+
+      return {
+        systemMessage: citations.length > 0 ? buildSystemMessage(citations) : null,
+        citations,
+        tokenCount,
+      };
+    } catch (error) {
+      logger.error({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Knowledge retrieval failed; answering without knowledge base context');
+
+      return { systemMessage: null, citations: [], tokenCount: 0 };
+    }
+  }
+}
+
+function formatCitationSource(citation: Pick<KnowledgeCitation, 'documentTitle' | 'headingPath' | 'page'>): string {
+  const parts = [citation.documentTitle];
+  if (citation.headingPath.length > 0) {
+    parts.push(citation.headingPath.join(' › '));
+  }
+  if (citation.page !== undefined) {
+    parts.push(`page ${citation.page}`);
+  }
+  return parts.join(' — ');
+}
+
+function buildSystemMessage(citations: KnowledgeCitation[]): string {
+  const excerpts = citations
+    .map(citation => `[${citation.marker}] ${formatCitationSource(citation)}\n${citation.excerpt}`)
+    .join('\n\n');
+
+  return [
+    'The following excerpts come from the curated mental health knowledge base.',
+    'Use them when they are relevant to the user\'s message and cite them inline by number, e.g. [1].',
+    'Do not cite excerpts you did not use, and never invent sources. If none are relevant, answer normally.',
+    '',
+    excerpts,
+  ].join('\n');
+}
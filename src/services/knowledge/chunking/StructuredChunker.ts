@@ -0,0 +1,251 @@
+import type { ExtractedDocument, TextBlock } from '../extraction';
+
+/**
+ * - `section`: chunks never span two sections; a heading always starts a chunk with its body
+ * - `page`: chunks never span two pages (paginated formats such as PDF)
+ * - `paragraph`: blocks are packed greedily regardless of headings (unstructured text)
+ */
+export type ChunkingStrategy = 'section' | 'page' | 'paragraph';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  maxTokens: number;
+  overlapTokens: number; // Trailing context repeated at the start of the next chunk in the same boundary
+}
+
+export interface DocumentChunk {
+  content: string; // Exactly ExtractedDocument.text.slice(startPosition, endPosition)
+  startPosition: number;
+  endPosition: number;
+  tokenCount: number;
+  headingPath: string[];
+  page?: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: Record<string, ChunkingOptions> = {
+  pdf: { strategy: 'page', maxTokens: 300, overlapTokens: 40 },
+  docx: { strategy: 'section', maxTokens: 300, overlapTokens: 40 },
+  html: { strategy: 'section', maxTokens: 300, overlapTokens: 40 },
+  md: { strategy: 'section', maxTokens: 300, overlapTokens: 40 },
+  txt: { strategy: 'paragraph', maxTokens: 300, overlapTokens: 60 },
+};
+
+const FALLBACK_OPTIONS: ChunkingOptions = { strategy: 'paragraph', maxTokens: 300, overlapTokens: 40 };
+
+export type ChunkingOverrides = Partial<Record<string, Partial<ChunkingOptions>>>; // Keyed by document format
+
+export function getChunkingOptions(format: string, overrides: ChunkingOverrides = {}): ChunkingOptions {
+  return { ...(DEFAULT_CHUNKING_OPTIONS[format] || FALLBACK_OPTIONS), ...overrides[format] };
+}
+
+/**
+ * Per-format overrides from KNOWLEDGE_CHUNKING, e.g. `{"pdf":{"maxTokens":500}}`
+ */
+export function getChunkingOverridesFromEnv(): ChunkingOverrides {
+  if (!process.env.KNOWLEDGE_CHUNKING) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(process.env.KNOWLEDGE_CHUNKING);
+  } catch {
+    throw new Error('KNOWLEDGE_CHUNKING must be a JSON object keyed by document format');
+  }
+}
+
+/**
+ * Approximate BPE token count: roughly one token per four characters of a word, one per symbol
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[A-Za-z0-9\u00c0-\u024f']+|[^\sA-Za-z0-9\u00c0-\u024f']/g) || [];
+  return pieces.reduce((total, piece) => total + Math.ceil(piece.length / 4), 0);
+}
+
+// A contiguous span of the document text that is never split further
+interface Unit {
+  start: number;
+  end: number;
+  tokens: number;
+  block: TextBlock;
+}
+
+/**
+ * Packs extracted blocks into token-bounded chunks. Blocks are kept whole where possible;
+ * oversized blocks are split at sentence (or line, for code) boundaries, then at word boundaries.
+ * Offsets refer to the extracted document text so a chunk can be traced back to its exact passage.
+ */
+export class StructuredChunker {
+  constructor(private options: ChunkingOptions) {}
+
+  chunk(document: ExtractedDocument): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const group of this.groupUnits(document)) {
+      this.packGroup(document.text, group, chunks);
+    }
+
+    return chunks;
+  }
+
+  private groupUnits(document: ExtractedDocument): Unit[][] {
+    const groups: Unit[][] = [];
+    let previousKey: string | null = null;
+
+    for (const block of document.blocks) {
+      const key = this.boundaryKey(block);
+      if (key !== previousKey || groups.length === 0) {
+        groups.push([]);
+        previousKey = key;
+      }
+      groups[groups.length - 1].push(...this.splitBlock(document.text, block));
+    }
+
+    // A section holding nothing but its heading (e.g. a chapter title directly followed by a subsection)
+    // is folded into the next section rather than becoming a chunk on its own
+    const merged: Unit[][] = [];
+    let pendingHeadings: Unit[] = [];
+    for (const group of groups) {
+      if (group.every(unit => unit.block.type === 'heading')) {
+        pendingHeadings.push(...group);
+        continue;
+      }
+      merged.push([...pendingHeadings, ...group]);
+      pendingHeadings = [];
+    }
+    if (pendingHeadings.length > 0) {
+      merged.push(pendingHeadings);
+    }
+
+    return merged;
+  }
+
+  private boundaryKey(block: TextBlock): string {
+    switch (this.options.strategy) {
+      case 'section':
+        return `${block.page ?? ''}|${block.headingPath.join('\u0000')}`;
+      case 'page':
+        return String(block.page ?? '');
+      default:
+        return '';
+    }
+  }
+
+  private packGroup(text: string, units: Unit[], chunks: DocumentChunk[]): void {
+    const { maxTokens, overlapTokens } = this.options;
+    let current: Unit[] = [];
+    let tokens = 0;
+
+    for (const unit of units) {
+      if (current.length > 0 && tokens + unit.tokens > maxTokens) {
+        // Never end a chunk on a heading; move trailing headings to the next chunk instead
+        const headings: Unit[] = [];
+        while (current.length > 1 && current[current.length - 1].block.type === 'heading') {
+          headings.unshift(current.pop()!);
+        }
+
+        chunks.push(this.toChunk(text, current));
+
+        const overlap: Unit[] = [];
+        if (headings.length === 0) {
+          let overlapSize = 0;
+          for (let i = current.length - 1; i > 0; i--) {
+            const candidate = current[i];
+            if (candidate.block.type === 'heading'
+              || overlapSize + candidate.tokens > overlapTokens
+              || overlapSize + candidate.tokens + unit.tokens > maxTokens) {
+              break;
+            }
+            overlap.unshift(candidate);
+            overlapSize += candidate.tokens;
+          }
+        }
+
+        current = [...overlap, ...headings];
+        tokens = current.reduce((total, item) => total + item.tokens, 0);
+      }
+
+      current.push(unit);
+      tokens += unit.tokens;
+    }
+
+    if (current.length > 0) {
+      chunks.push(this.toChunk(text, current));
+    }
+  }
+
+  private toChunk(text: string, units: Unit[]): DocumentChunk {
+    const startPosition = units[0].start;
+    const endPosition = units[units.length - 1].end;
+    const content = text.slice(startPosition, endPosition);
+    const body = units.find(unit => unit.block.type !== 'heading') || units[0];
+
+    return {
+      content,
+      startPosition,
+      endPosition,
+      tokenCount: estimateTokens(content),
+      headingPath: body.block.headingPath,
+      page: units[0].block.page,
+    };
+  }
+
+  private splitBlock(text: string, block: TextBlock): Unit[] {
+    const tokens = estimateTokens(block.text);
+    if (tokens <= this.options.maxTokens) {
+      return [{ start: block.start, end: block.end, tokens, block }];
+    }
+
+    const pattern = block.type === 'code' ? /[^\n]+/g : /[^.!?]+(?:[.!?]+["')\]]*|$)/g;
+    const units: Unit[] = [];
+
+    for (const span of matchSpans(text, block.start, block.end, pattern)) {
+      const spanTokens = estimateTokens(text.slice(span.start, span.end));
+      if (spanTokens <= this.options.maxTokens) {
+        units.push({ ...span, tokens: spanTokens, block });
+      } else {
+        units.push(...this.splitWords(text, span, block));
+      }
+    }
+
+    return units;
+  }
+
+  private splitWords(text: string, span: { start: number; end: number }, block: TextBlock): Unit[] {
+    const units: Unit[] = [];
+    let current: { start: number; end: number; tokens: number } | null = null;
+
+    for (const word of matchSpans(text, span.start, span.end, /\S+/g)) {
+      const wordTokens = estimateTokens(text.slice(word.start, word.end));
+      if (current && current.tokens + wordTokens > this.options.maxTokens) {
+        units.push({ ...current, block });
+        current = null;
+      }
+      current = current
+        ? { start: current.start, end: word.end, tokens: current.tokens + wordTokens }
+        : { ...word, tokens: wordTokens };
+    }
+
+    if (current) {
+      units.push({ ...current, block });
+    }
+    return units;
+  }
+}
+
+// Trimmed spans of `pattern` matches within text[start, end), as absolute offsets
+function matchSpans(text: string, start: number, end: number, pattern: RegExp): Array<{ start: number; end: number }> {
+  const slice = text.slice(start, end);
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const match of Array.from(slice.matchAll(pattern))) {
+    const value = match[0];
+    const leading = value.length - value.trimStart().length;
+    const trimmed = value.trim();
+    if (!trimmed) continue;
+
+    const spanStart = start + (match.index ?? 0) + leading;
+    spans.push({ start: spanStart, end: spanStart + trimmed.length });
+  }
+
+  return spans;
+}
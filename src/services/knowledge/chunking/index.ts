@@ -0,0 +1,8 @@
+export type { ChunkingStrategy, ChunkingOptions, ChunkingOverrides, DocumentChunk } from './StructuredChunker';
+export {
+  StructuredChunker,
+  DEFAULT_CHUNKING_OPTIONS,
+  getChunkingOptions,
+  getChunkingOverridesFromEnv,
+  estimateTokens,
+} from './StructuredChunker';
@@ -0,0 +1,95 @@
+export type TextBlockType = 'heading' | 'paragraph' | 'list_item' | 'code';
+
+export interface TextBlock {
+  type: TextBlockType;
+  text: string;
+  start: number; // Offset of the block in ExtractedDocument.text
+  end: number;
+  level?: number; // Heading level (1-6)
+  headingPath: string[]; // Enclosing headings, outermost first (includes the block itself for headings)
+  page?: number; // 1-based page number for paginated formats
+}
+
+export interface ExtractedDocument {
+  format: string;
+  text: string; // Blocks joined with blank lines
+  blocks: TextBlock[];
+  pageCount?: number;
+}
+
+export interface DocumentExtractor {
+  formats: string[];
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
+
+export type ExtractionErrorCode = 'unsupported_format' | 'corrupt_document' | 'no_text_content';
+
+export class ExtractionError extends Error {
+  constructor(message: string, public code: ExtractionErrorCode, public format: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
+
+/**
+ * Accumulates blocks into a single text while tracking offsets and the heading hierarchy
+ */
+export class DocumentBuilder {
+  private text = '';
+  private blocks: TextBlock[] = [];
+  private headings: Array<{ level: number; text: string }> = [];
+
+  constructor(private format: string) {}
+
+  addHeading(text: string, level: number, page?: number): void {
+    const normalized = normalizeWhitespace(text);
+    if (!normalized) return;
+
+    this.headings = this.headings.filter(heading => heading.level < level);
+    this.headings.push({ level, text: normalized });
+    this.append('heading', normalized, page, level);
+  }
+
+  addBlock(type: Exclude<TextBlockType, 'heading'>, text: string, page?: number): void {
+    const normalized = type === 'code' ? text.replace(/^\n+|\s+$/g, '') : normalizeWhitespace(text);
+    if (!normalized) return;
+
+    this.append(type, normalized, page);
+  }
+
+  build(pageCount?: number): ExtractedDocument {
+    if (this.blocks.length === 0) {
+      throw new ExtractionError('Document contains no extractable text', 'no_text_content', this.format);
+    }
+
+    return {
+      format: this.format,
+      text: this.text,
+      blocks: this.blocks,
+      pageCount,
+    };
+  }
+
+  private append(type: TextBlockType, text: string, page?: number, level?: number): void {
+    if (this.text) {
+      this.text += '\n\n';
+    }
+
+    const start = this.text.length;
+    this.text += text;
+
+    this.blocks.push({
+      type,
+      text,
+      start,
+      end: this.text.length,
+      level,
+      headingPath: this.headings.map(heading => heading.text),
+      page,
+    });
+  }
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
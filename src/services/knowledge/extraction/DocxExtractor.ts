@@ -0,0 +1,29 @@
+import mammoth from 'mammoth';
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './DocumentExtractor';
+import { HtmlExtractor } from './HtmlExtractor';
+
+/**
+ * Converts the DOCX document XML to semantic HTML (Word heading styles become h1-h6,
+ * numbered and bulleted paragraphs become list items), then reuses the HTML extractor.
+ */
+export class DocxExtractor implements DocumentExtractor {
+  formats = ['docx'];
+
+  private htmlExtractor = new HtmlExtractor();
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    let html: string;
+    try {
+      const result = await mammoth.convertToHtml({ buffer });
+      html = result.value;
+    } catch (error) {
+      throw new ExtractionError(
+        `Could not read DOCX: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'corrupt_document',
+        'docx'
+      );
+    }
+
+    return this.htmlExtractor.extractHtml(html, 'docx');
+  }
+}
@@ -0,0 +1,107 @@
+import { DocumentExtractor, DocumentBuilder, ExtractedDocument } from './DocumentExtractor';
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav',
+  'blockquote', 'br', 'hr', 'table', 'tr', 'ul', 'ol', 'dl', 'dt', 'dd', 'figure', 'figcaption',
+]);
+
+const SKIPPED_TAGS = ['script', 'style', 'noscript', 'template', 'head', 'svg'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+/**
+ * Converts HTML to text blocks, keeping h1-h6 as headings and li as list items.
+ * Also used for DOCX, which is converted to HTML first.
+ */
+export class HtmlExtractor implements DocumentExtractor {
+  formats = ['html'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return this.extractHtml(buffer.toString('utf-8'), 'html');
+  }
+
+  extractHtml(html: string, format: string): ExtractedDocument {
+    const builder = new DocumentBuilder(format);
+    const cleaned = stripSkippedContent(html);
+
+    let current = '';
+    let currentType: 'paragraph' | 'list_item' | 'code' | { heading: number } = 'paragraph';
+    let preDepth = 0;
+
+    const flush = () => {
+      if (typeof currentType === 'object') {
+        builder.addHeading(decodeEntities(current), currentType.heading);
+      } else {
+        builder.addBlock(currentType, decodeEntities(current));
+      }
+      current = '';
+      currentType = 'paragraph';
+    };
+
+    const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(cleaned)) !== null) {
+      current += cleaned.slice(lastIndex, match.index);
+      lastIndex = tagPattern.lastIndex;
+
+      const isClosing = match[1] === '/';
+      const tag = match[2].toLowerCase();
+      const headingLevel = /^h([1-6])$/.exec(tag);
+
+      if (headingLevel) {
+        flush();
+        if (!isClosing) {
+          currentType = { heading: Number(headingLevel[1]) };
+        }
+      } else if (tag === 'li') {
+        flush();
+        if (!isClosing) {
+          currentType = 'list_item';
+        }
+      } else if (tag === 'pre') {
+        flush();
+        preDepth += isClosing ? -1 : 1;
+        if (!isClosing) {
+          currentType = 'code';
+        }
+      } else if (tag === 'td' || tag === 'th') {
+        current += ' ';
+      } else if (BLOCK_TAGS.has(tag)) {
+        if (preDepth > 0 && tag === 'br') {
+          current += '\n';
+        } else {
+          flush();
+        }
+      }
+    }
+
+    current += cleaned.slice(lastIndex);
+    flush();
+
+    return builder.build();
+  }
+}
+
+function stripSkippedContent(html: string): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of SKIPPED_TAGS) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+  return result;
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out-of-range code points are left as written rather than failing the whole document
+      return Number.isFinite(value) && value <= 0x10FFFF ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,103 @@
+import { DocumentExtractor, DocumentBuilder, ExtractedDocument } from './DocumentExtractor';
+
+/**
+ * Parses Markdown structure (ATX/setext headings, lists, fenced code, paragraphs)
+ * and strips inline formatting so chunks contain readable text.
+ */
+export class MarkdownExtractor implements DocumentExtractor {
+  formats = ['md'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const builder = new DocumentBuilder('md');
+    const lines = buffer.toString('utf-8').replace(/\r\n?/g, '\n').split('\n');
+
+    let paragraph: string[] = [];
+    let listItem: string[] | null = null;
+    let codeFence: string | null = null;
+    let code: string[] = [];
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        builder.addBlock('paragraph', stripInline(paragraph.join(' ')));
+        paragraph = [];
+      }
+      if (listItem) {
+        builder.addBlock('list_item', stripInline(listItem.join(' ')));
+        listItem = null;
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (codeFence) {
+        if (line.trim().startsWith(codeFence)) {
+          builder.addBlock('code', code.join('\n'));
+          codeFence = null;
+          code = [];
+        } else {
+          code.push(line);
+        }
+        continue;
+      }
+
+      const fence = /^\s*(```|~~~)/.exec(line);
+      if (fence) {
+        flushParagraph();
+        codeFence = fence[1];
+        continue;
+      }
+
+      const atxHeading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+      if (atxHeading) {
+        flushParagraph();
+        builder.addHeading(stripInline(atxHeading[2]), atxHeading[1].length);
+        continue;
+      }
+
+      // Setext heading: a paragraph line underlined with === or ---
+      const next = lines[i + 1];
+      if (line.trim() && !listItem && paragraph.length === 0 && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next)) {
+        builder.addHeading(stripInline(line), next.trim().startsWith('=') ? 1 : 2);
+        i++;
+        continue;
+      }
+
+      const bullet = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+      if (bullet) {
+        flushParagraph();
+        listItem = [bullet[1]];
+        continue;
+      }
+
+      if (!line.trim()) {
+        flushParagraph();
+        continue;
+      }
+
+      if (listItem && /^\s+/.test(line)) {
+        listItem.push(line.trim()); // Continuation of the current list item
+      } else {
+        if (listItem) flushParagraph();
+        paragraph.push(line.trim());
+      }
+    }
+
+    if (codeFence && code.length > 0) {
+      builder.addBlock('code', code.join('\n'));
+    }
+    flushParagraph();
+
+    return builder.build();
+  }
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links -> link text
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/^\s*>\s?/, ''); // Blockquote marker
+}
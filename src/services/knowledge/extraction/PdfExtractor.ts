@@ -0,0 +1,43 @@
+import { PDFParse } from 'pdf-parse';
+import { DocumentExtractor, DocumentBuilder, ExtractedDocument, ExtractionError } from './DocumentExtractor';
+
+/**
+ * Reads the PDF text layer page by page. Scanned PDFs without a text layer fail with
+ * `no_text_content`, since OCR is out of scope.
+ */
+export class PdfExtractor implements DocumentExtractor {
+  formats = ['pdf'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+    try {
+      const result = await parser.getText();
+      const builder = new DocumentBuilder('pdf');
+
+      for (const page of result.pages) {
+        for (const paragraph of page.text.split(/\n\s*\n/)) {
+          builder.addBlock('paragraph', paragraph, page.num);
+        }
+      }
+
+      try {
+        return builder.build(result.total);
+      } catch (error) {
+        if (error instanceof ExtractionError) {
+          throw new ExtractionError('PDF has no text layer (it may be a scanned image)', 'no_text_content', 'pdf');
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof ExtractionError) throw error;
+      throw new ExtractionError(
+        `Could not read PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'corrupt_document',
+        'pdf'
+      );
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { DocumentExtractor, DocumentBuilder, ExtractedDocument } from './DocumentExtractor';
+
+/**
+ * Splits plain text into paragraphs on blank lines
+ */
+export class PlainTextExtractor implements DocumentExtractor {
+  formats = ['txt'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const builder = new DocumentBuilder('txt');
+    const paragraphs = buffer.toString('utf-8').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+    for (const paragraph of paragraphs) {
+      builder.addBlock('paragraph', paragraph);
+    }
+
+    return builder.build();
+  }
+}
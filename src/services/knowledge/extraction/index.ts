@@ -0,0 +1,36 @@
+import { DocumentExtractor, ExtractedDocument, ExtractionError } from './DocumentExtractor';
+import { PlainTextExtractor } from './PlainTextExtractor';
+import { MarkdownExtractor } from './MarkdownExtractor';
+import { HtmlExtractor } from './HtmlExtractor';
+import { DocxExtractor } from './DocxExtractor';
+import { PdfExtractor } from './PdfExtractor';
+
+export type {
+  DocumentExtractor,
+  ExtractedDocument,
+  TextBlock,
+  TextBlockType,
+  ExtractionErrorCode,
+} from './DocumentExtractor';
+export { ExtractionError, DocumentBuilder } from './DocumentExtractor';
+
+const extractors: DocumentExtractor[] = [
+  new PlainTextExtractor(),
+  new MarkdownExtractor(),
+  new HtmlExtractor(),
+  new DocxExtractor(),
+  new PdfExtractor(),
+];
+
+export function getExtractor(format: string): DocumentExtractor | undefined {
+  return extractors.find(extractor => extractor.formats.includes(format));
+}
+
+export async function extractDocument(buffer: Buffer, format: string): Promise<ExtractedDocument> {
+  const extractor = getExtractor(format);
+  if (!extractor) {
+    throw new ExtractionError(`Unsupported document format: ${format}`, 'unsupported_format', format);
+  }
+
+  return extractor.extract(buffer);
+}
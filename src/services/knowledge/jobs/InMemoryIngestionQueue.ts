@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import {
+  IngestionQueue,
+  IngestionJob,
+  IngestionStage,
+  EnqueueOptions,
+  DEFAULT_MAX_ATTEMPTS,
+} from './IngestionQueue';
+
+/**
+ * Process-local queue used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryIngestionQueue implements IngestionQueue {
+  private jobs: Map<string, IngestionJob> = new Map();
+
+  async enqueue(documentId: string, options: EnqueueOptions = {}): Promise<IngestionJob> {
+    const now = new Date();
+    const job: IngestionJob = {
+      id: randomUUID(),
+      documentId,
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async lease(workerId: string, leaseMs: number): Promise<IngestionJob | null> {
+    const now = Date.now();
+    const due = Array.from(this.jobs.values())
+      .filter(job =>
+        (job.status === 'queued' && job.runAt.getTime() <= now)
+        || (job.status === 'processing'
+          && job.leaseExpiresAt !== undefined
+          && job.leaseExpiresAt.getTime() < now
+          && job.attempts < job.maxAttempts))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+
+    const job = due[0];
+    if (!job) {
+      return null;
+    }
+
+    Object.assign(job, {
+      status: 'processing',
+      stage: undefined,
+      progress: 0,
+      attempts: job.attempts + 1,
+      leasedBy: workerId,
+      leaseExpiresAt: new Date(now + leaseMs),
+      updatedAt: new Date(now),
+    });
+    return { ...job };
+  }
+
+  async reportProgress(
+    jobId: string,
+    workerId: string,
+    progress: number,
+    stage: IngestionStage,
+    leaseMs: number
+  ): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing' || job.leasedBy !== workerId) {
+      return false;
+    }
+
+    Object.assign(job, {
+      progress,
+      stage,
+      leaseExpiresAt: new Date(Date.now() + leaseMs),
+      updatedAt: new Date(),
+    });
+    return true;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.leasedBy !== workerId) return;
+
+    Object.assign(job, {
+      status: 'completed',
+      progress: 100,
+      leasedBy: undefined,
+      leaseExpiresAt: undefined,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async fail(jobId: string, workerId: string, error: string, retryAt: Date | null): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.leasedBy !== workerId) return;
+
+    Object.assign(job, {
+      status: retryAt ? 'queued' : 'failed',
+      runAt: retryAt ?? job.runAt,
+      lastError: error,
+      leasedBy: undefined,
+      leaseExpiresAt: undefined,
+      updatedAt: new Date(),
+    });
+  }
+
+  async reapExpired(): Promise<IngestionJob[]> {
+    const now = Date.now();
+    const reaped: IngestionJob[] = [];
+
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status === 'processing'
+        && job.leaseExpiresAt !== undefined
+        && job.leaseExpiresAt.getTime() < now
+        && job.attempts >= job.maxAttempts) {
+        Object.assign(job, {
+          status: 'failed',
+          lastError: job.lastError ?? 'Worker lease expired on the final attempt',
+          leasedBy: undefined,
+          leaseExpiresAt: undefined,
+          updatedAt: new Date(now),
+        });
+        reaped.push({ ...job });
+      }
+    }
+
+    return reaped;
+  }
+
+  async getLatestJob(documentId: string): Promise<IngestionJob | null> {
+    // Map iteration follows insertion order, so the last match is the newest job
+    const jobs = Array.from(this.jobs.values()).filter(job => job.documentId === documentId);
+    const latest = jobs[jobs.length - 1];
+
+    return latest ? { ...latest } : null;
+  }
+}
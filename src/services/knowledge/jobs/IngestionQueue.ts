@@ -0,0 +1,74 @@
+export type IngestionJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export type IngestionStage = 'extracting' | 'chunking' | 'embedding' | 'storing';
+
+export interface IngestionJob {
+  id: string;
+  documentId: string;
+  status: IngestionJobStatus;
+  stage?: IngestionStage;
+  progress: number; // Percent complete of the current attempt
+  attempts: number; // Attempts started so far, including the current one
+  maxAttempts: number;
+  lastError?: string;
+  runAt: Date; // Earliest time a queued job may be leased
+  leasedBy?: string;
+  leaseExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Durable work queue for document ingestion. Workers lease one job at a time; a lease must be
+ * renewed through `reportProgress` or it expires and the job becomes claimable by another worker.
+ */
+export interface IngestionQueue {
+  enqueue(documentId: string, options?: EnqueueOptions): Promise<IngestionJob>;
+
+  /**
+   * Claim the oldest due job (queued and due, or processing with an expired lease and attempts left).
+   * Increments `attempts` and resets progress.
+   */
+  lease(workerId: string, leaseMs: number): Promise<IngestionJob | null>;
+
+  /**
+   * Record progress and extend the lease. Returns false if the worker no longer holds the lease.
+   */
+  reportProgress(
+    jobId: string,
+    workerId: string,
+    progress: number,
+    stage: IngestionStage,
+    leaseMs: number
+  ): Promise<boolean>;
+
+  complete(jobId: string, workerId: string): Promise<void>;
+
+  /**
+   * Release a failed attempt: requeue it for `retryAt`, or fail the job permanently when `retryAt` is null
+   */
+  fail(jobId: string, workerId: string, error: string, retryAt: Date | null): Promise<void>;
+
+  /**
+   * Permanently fail processing jobs whose lease expired on their final attempt (e.g. the worker crashed)
+   */
+  reapExpired(): Promise<IngestionJob[]>;
+
+  getLatestJob(documentId: string): Promise<IngestionJob | null>;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Exponential backoff with +/-20% jitter so retries of jobs that failed together spread out
+ */
+export function computeBackoff(attempt: number, baseMs: number, maxMs: number): number {
+  const delay = Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
@@ -0,0 +1,262 @@
+import { randomUUID } from 'crypto';
+import { logger } from '@/lib/logger';
+import type { EmbeddingResponse } from '../../ai/providers/IAiProvider';
+import { KnowledgeBaseService } from '../KnowledgeBaseService';
+import { ExtractionError } from '../extraction';
+import { IngestionQueue, IngestionJob, IngestionStage, computeBackoff } from './IngestionQueue';
+
+export interface IngestionWorkerConfig {
+  pollIntervalMs: number;
+  leaseMs: number; // Renewed on every progress report
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  embeddingBatchSize: number; // Chunks embedded per provider call; progress is reported between batches
+}
+
+const DEFAULT_CONFIG: IngestionWorkerConfig = {
+  pollIntervalMs: 2000,
+  leaseMs: 2 * 60 * 1000,
+  baseBackoffMs: 30 * 1000,
+  maxBackoffMs: 15 * 60 * 1000,
+  embeddingBatchSize: 64,
+};
+
+// Thrown when another worker reclaimed the job after our lease expired; the attempt is abandoned silently
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease lost for ingestion job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Polls the ingestion queue and runs extraction, chunking, embedding and storage for each leased job.
+ * Failed attempts are retried with exponential backoff; documents that can never be ingested
+ * (unsupported, corrupt or empty files) fail immediately without retrying.
+ */
+export class IngestionWorker {
+  readonly workerId = `ingestion-${randomUUID()}`;
+
+  private queue: IngestionQueue;
+  private knowledgeService: KnowledgeBaseService;
+  private config: IngestionWorkerConfig;
+  private running = false;
+  private polling = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    queue: IngestionQueue,
+    knowledgeService: KnowledgeBaseService,
+    config: Partial<IngestionWorkerConfig> = {}
+  ) {
+    this.queue = queue;
+    this.knowledgeService = knowledgeService;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Queue a registered document for ingestion (also used to retry a failed document)
+   */
+  async enqueue(documentId: string): Promise<IngestionJob> {
+    const job = await this.queue.enqueue(documentId);
+    await this.knowledgeService.updateDocumentStatus(documentId, 'queued', { error: null, errorCode: null });
+
+    logger.info({ documentId, jobId: job.id }, 'Knowledge document queued for ingestion');
+
+    this.wake();
+    return job;
+  }
+
+  async getLatestJob(documentId: string): Promise<IngestionJob | null> {
+    return this.queue.getLatestJob(documentId);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info({ workerId: this.workerId }, 'Knowledge ingestion worker started');
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Lease and process a single job. Returns false when no job was due.
+   */
+  async processNext(): Promise<boolean> {
+    await this.reapExpiredJobs();
+
+    const job = await this.queue.lease(this.workerId, this.config.leaseMs);
+    if (!job) {
+      return false;
+    }
+
+    const document = await this.knowledgeService.getDocumentStatus(job.documentId);
+    if (!document?.filePath) {
+      await this.queue.fail(job.id, this.workerId, 'Document or its uploaded file no longer exists', null);
+      return true;
+    }
+
+    await this.knowledgeService.updateDocumentStatus(job.documentId, 'processing');
+
+    try {
+      const { chunkCount, pageCount } = await this.ingest(job, document.filePath, document.contentType);
+
+      await this.queue.complete(job.id, this.workerId);
+      await this.knowledgeService.updateDocumentStatus(job.documentId, 'ready', {
+        chunkCount,
+        pageCount,
+        error: null,
+        errorCode: null
+      });
+
+      logger.info({
+        documentId: job.documentId,
+        jobId: job.id,
+        attempt: job.attempts,
+        chunkCount
+      }, 'Knowledge document ingested');
+    } catch (error) {
+      await this.handleFailure(job, error);
+    }
+
+    return true;
+  }
+
+  private async ingest(
+    job: IngestionJob,
+    filePath: string,
+    contentType: string
+  ): Promise<{ chunkCount: number; pageCount?: number }> {
+    await this.reportProgress(job, 5, 'extracting');
+    const extracted = await this.knowledgeService.extractDocument(filePath, contentType);
+
+    await this.reportProgress(job, 20, 'chunking');
+    const chunks = await this.knowledgeService.chunkDocument(extracted);
+
+    // Embedding dominates ingestion time, so it spans 25-90% and advances per batch
+    await this.reportProgress(job, 25, 'embedding');
+    const texts = chunks.map(chunk => chunk.content);
+    let embeddings: EmbeddingResponse | null = null;
+
+    for (let i = 0; i < texts.length; i += this.config.embeddingBatchSize) {
+      const batch = await this.knowledgeService.generateEmbeddings(texts.slice(i, i + this.config.embeddingBatchSize));
+      embeddings = embeddings ? mergeEmbeddings(embeddings, batch) : batch;
+
+      const embedded = Math.min(texts.length, i + this.config.embeddingBatchSize);
+      await this.reportProgress(job, 25 + Math.round((embedded / texts.length) * 65), 'embedding');
+    }
+
+    await this.reportProgress(job, 95, 'storing');
+    const document = await this.knowledgeService.getDocumentStatus(job.documentId);
+    if (!document) {
+      throw new Error('Document was deleted during ingestion');
+    }
+    await this.knowledgeService.storeChunks(job.documentId, chunks, embeddings!, document);
+
+    return { chunkCount: chunks.length, pageCount: extracted.pageCount };
+  }
+
+  private async reportProgress(job: IngestionJob, progress: number, stage: IngestionStage): Promise<void> {
+    const held = await this.queue.reportProgress(job.id, this.workerId, progress, stage, this.config.leaseMs);
+    if (!held) {
+      throw new LeaseLostError(job.id);
+    }
+  }
+
+  private async handleFailure(job: IngestionJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (error instanceof LeaseLostError) {
+      logger.warn({ documentId: job.documentId, jobId: job.id }, message);
+      return;
+    }
+
+    // Re-running extraction on an unsupported, corrupt or empty file can never succeed
+    const permanent = error instanceof ExtractionError || job.attempts >= job.maxAttempts;
+    const retryAt = permanent
+      ? null
+      : new Date(Date.now() + computeBackoff(job.attempts, this.config.baseBackoffMs, this.config.maxBackoffMs));
+
+    await this.queue.fail(job.id, this.workerId, message, retryAt);
+    await this.knowledgeService.updateDocumentStatus(job.documentId, retryAt ? 'queued' : 'error', {
+      error: message,
+      errorCode: error instanceof ExtractionError ? error.code : 'processing_failed'
+    });
+
+    logger.error({
+      documentId: job.documentId,
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      retryAt: retryAt?.toISOString(),
+      error: message
+    }, retryAt ? 'Knowledge ingestion attempt failed, will retry' : 'Knowledge ingestion failed');
+  }
+
+  private async reapExpiredJobs(): Promise<void> {
+    for (const job of await this.queue.reapExpired()) {
+      await this.knowledgeService.updateDocumentStatus(job.documentId, 'error', {
+        error: job.lastError,
+        errorCode: 'processing_failed'
+      });
+    }
+  }
+
+  private wake(): void {
+    if (this.running && !this.polling) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    this.polling = true;
+
+    try {
+      while (this.running && await this.processNext()) {
+        // Drain every due job before sleeping
+      }
+    } catch (error) {
+      logger.error({
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Knowledge ingestion worker poll failed');
+    } finally {
+      this.polling = false;
+      if (this.running) {
+        this.schedule(this.config.pollIntervalMs);
+      }
+    }
+  }
+}
+
+function mergeEmbeddings(a: EmbeddingResponse, b: EmbeddingResponse): EmbeddingResponse {
+  return {
+    embeddings: [...a.embeddings, ...b.embeddings],
+    usage: {
+      promptTokens: a.usage.promptTokens + b.usage.promptTokens,
+      totalTokens: a.usage.totalTokens + b.usage.totalTokens,
+    },
+    metadata: {
+      ...b.metadata,
+      processingTime: a.metadata.processingTime + b.metadata.processingTime,
+    },
+  };
+}
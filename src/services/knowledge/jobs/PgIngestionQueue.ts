@@ -0,0 +1,165 @@
+import { loadPrisma } from '@/lib/prisma-loader';
+import {
+  IngestionQueue,
+  IngestionJob,
+  IngestionJobStatus,
+  IngestionStage,
+  EnqueueOptions,
+  DEFAULT_MAX_ATTEMPTS,
+} from './IngestionQueue';
+
+interface JobRow {
+  id: string;
+  documentId: string;
+  status: string;
+  stage: string | null;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: Date;
+  leasedBy: string | null;
+  leaseExpiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Queue backed by the `knowledge_ingestion_jobs` table. Leasing uses `FOR UPDATE SKIP LOCKED`
+ * so several workers (or app instances) can poll concurrently without claiming the same job.
+ */
+export class PgIngestionQueue implements IngestionQueue {
+  async enqueue(documentId: string, options: EnqueueOptions = {}): Promise<IngestionJob> {
+    const prisma = await loadPrisma();
+    const job = await prisma.knowledgeIngestionJob.create({
+      data: {
+        documentId,
+        maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAt: options.runAt,
+      },
+    });
+
+    return formatJob(job);
+  }
+
+  async lease(workerId: string, leaseMs: number): Promise<IngestionJob | null> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.$queryRaw<JobRow[]>`
+      UPDATE "knowledge_ingestion_jobs"
+      SET "status" = 'processing',
+          "stage" = NULL,
+          "progress" = 0,
+          "attempts" = "attempts" + 1,
+          "leasedBy" = ${workerId},
+          "leaseExpiresAt" = now() + (${leaseMs} * interval '1 millisecond'),
+          "updatedAt" = now()
+      WHERE "id" = (
+        SELECT "id" FROM "knowledge_ingestion_jobs"
+        WHERE ("status" = 'queued' AND "runAt" <= now())
+           OR ("status" = 'processing' AND "leaseExpiresAt" < now() AND "attempts" < "maxAttempts")
+        ORDER BY "runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return rows[0] ? formatJob(rows[0]) : null;
+  }
+
+  async reportProgress(
+    jobId: string,
+    workerId: string,
+    progress: number,
+    stage: IngestionStage,
+    leaseMs: number
+  ): Promise<boolean> {
+    const prisma = await loadPrisma();
+    const result = await prisma.knowledgeIngestionJob.updateMany({
+      where: { id: jobId, leasedBy: workerId, status: 'processing' },
+      data: {
+        progress,
+        stage,
+        leaseExpiresAt: new Date(Date.now() + leaseMs),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.knowledgeIngestionJob.updateMany({
+      where: { id: jobId, leasedBy: workerId },
+      data: {
+        status: 'completed',
+        progress: 100,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  async fail(jobId: string, workerId: string, error: string, retryAt: Date | null): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.knowledgeIngestionJob.updateMany({
+      where: { id: jobId, leasedBy: workerId },
+      data: {
+        status: retryAt ? 'queued' : 'failed',
+        ...(retryAt && { runAt: retryAt }),
+        lastError: error,
+        leasedBy: null,
+        leaseExpiresAt: null,
+      },
+    });
+  }
+
+  async reapExpired(): Promise<IngestionJob[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.$queryRaw<JobRow[]>`
+      UPDATE "knowledge_ingestion_jobs"
+      SET "status" = 'failed',
+          "lastError" = COALESCE("lastError", 'Worker lease expired on the final attempt'),
+          "leasedBy" = NULL,
+          "leaseExpiresAt" = NULL,
+          "updatedAt" = now()
+      WHERE "status" = 'processing'
+        AND "leaseExpiresAt" < now()
+        AND "attempts" >= "maxAttempts"
+      RETURNING *
+    `;
+
+    return rows.map(formatJob);
+  }
+
+  async getLatestJob(documentId: string): Promise<IngestionJob | null> {
+    const prisma = await loadPrisma();
+    const job = await prisma.knowledgeIngestionJob.findFirst({
+      where: { documentId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return job ? formatJob(job) : null;
+  }
+}
+
+function formatJob(row: JobRow): IngestionJob {
+  return {
+    id: row.id,
+    documentId: row.documentId,
+    status: row.status as IngestionJobStatus,
+    stage: (row.stage ?? undefined) as IngestionStage | undefined,
+    progress: row.progress,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    lastError: row.lastError ?? undefined,
+    runAt: row.runAt,
+    leasedBy: row.leasedBy ?? undefined,
+    leaseExpiresAt: row.leaseExpiresAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt ?? undefined,
+  };
+}
@@ -0,0 +1,46 @@
+import { IngestionQueue } from './IngestionQueue';
+import { InMemoryIngestionQueue } from './InMemoryIngestionQueue';
+import { PgIngestionQueue } from './PgIngestionQueue';
+import { IngestionWorker } from './IngestionWorker';
+import { KnowledgeBaseService } from '../KnowledgeBaseService';
+
+export type {
+  IngestionQueue,
+  IngestionJob,
+  IngestionJobStatus,
+  IngestionStage,
+  EnqueueOptions,
+} from './IngestionQueue';
+export { computeBackoff, DEFAULT_MAX_ATTEMPTS } from './IngestionQueue';
+export { InMemoryIngestionQueue } from './InMemoryIngestionQueue';
+export { PgIngestionQueue } from './PgIngestionQueue';
+export { IngestionWorker } from './IngestionWorker';
+export type { IngestionWorkerConfig } from './IngestionWorker';
+
+let defaultWorker: IngestionWorker | null = null;
+
+/**
+ * Queue selected by KNOWLEDGE_JOB_QUEUE ('postgres' | 'memory').
+ * Defaults to Postgres, except under test where the in-memory queue is used.
+ */
+export function createDefaultIngestionQueue(): IngestionQueue {
+  const backend = process.env.KNOWLEDGE_JOB_QUEUE
+    || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+  return backend === 'memory' ? new InMemoryIngestionQueue() : new PgIngestionQueue();
+}
+
+/**
+ * Shared worker for this process. Polling starts on first use unless KNOWLEDGE_INGESTION_WORKER=false,
+ * which lets deployments enqueue from the web tier while a separate process does the work.
+ */
+export function getIngestionWorker(): IngestionWorker {
+  if (!defaultWorker) {
+    defaultWorker = new IngestionWorker(createDefaultIngestionQueue(), new KnowledgeBaseService());
+
+    if (process.env.KNOWLEDGE_INGESTION_WORKER !== 'false') {
+      defaultWorker.start();
+    }
+  }
+  return defaultWorker;
+}
@@ -0,0 +1,78 @@
+import type { ChunkData } from '../KnowledgeBaseService';
+import {
+  VectorStore,
+  KnowledgeDocumentRecord,
+  DocumentUpdate,
+  ScoredChunk,
+  SimilaritySearchOptions,
+  cosineSimilarity,
+} from './VectorStore';
+
+/**
+ * Process-local store used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private documents: Map<string, KnowledgeDocumentRecord> = new Map();
+  private chunks: Map<string, ChunkData[]> = new Map();
+
+  async createDocument(document: KnowledgeDocumentRecord): Promise<void> {
+    this.documents.set(document.id, { ...document });
+  }
+
+  async updateDocument(documentId: string, updates: DocumentUpdate): Promise<void> {
+    const existing = this.documents.get(documentId);
+    if (existing) {
+      this.documents.set(documentId, {
+        ...existing,
+        ...updates,
+        error: updates.error === null ? undefined : updates.error ?? existing.error,
+        errorCode: updates.errorCode === null ? undefined : updates.errorCode ?? existing.errorCode,
+      });
+    }
+  }
+
+  async getDocument(documentId: string): Promise<KnowledgeDocumentRecord | null> {
+    return this.documents.get(documentId) || null;
+  }
+
+  async listDocuments(): Promise<KnowledgeDocumentRecord[]> {
+    return Array.from(this.documents.values());
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    this.documents.delete(documentId);
+    this.chunks.delete(documentId);
+  }
+
+  async replaceChunks(documentId: string, chunks: ChunkData[]): Promise<void> {
+    this.chunks.set(documentId, chunks);
+  }
+
+  async getChunks(documentId: string): Promise<ChunkData[]> {
+    return this.chunks.get(documentId) || [];
+  }
+
+  async similaritySearch(embedding: number[], options: SimilaritySearchOptions): Promise<ScoredChunk[]> {
+    const { limit, documentIds, minSimilarity, embeddingModel } = options;
+    const scored: ScoredChunk[] = [];
+
+    for (const [documentId, chunks] of this.chunks.entries()) {
+      if (documentIds && !documentIds.includes(documentId)) continue;
+      if (this.documents.get(documentId)?.status !== 'ready') continue;
+
+      for (const chunk of chunks) {
+        if (embeddingModel && chunk.embeddingModel !== embeddingModel) continue;
+
+        const similarity = cosineSimilarity(embedding, chunk.embedding);
+        if (minSimilarity === undefined || similarity >= minSimilarity) {
+          scored.push({ ...chunk, similarity });
+        }
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+}
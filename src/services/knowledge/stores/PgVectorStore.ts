@@ -0,0 +1,224 @@
+import { logger } from '@/lib/logger';
+import { loadPrisma, loadPrismaNamespace } from '@/lib/prisma-loader';
+import type { ChunkData } from '../KnowledgeBaseService';
+import {
+  VectorStore,
+  KnowledgeDocumentRecord,
+  DocumentUpdate,
+  DocumentStatus,
+  ScoredChunk,
+  SimilaritySearchOptions,
+} from './VectorStore';
+
+interface ChunkRow {
+  id: string;
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  embedding: string | null;
+  embeddingModel: string | null;
+  startPosition: number;
+  endPosition: number;
+  metadata: Record<string, unknown> | null;
+  similarity?: number;
+}
+
+/**
+ * Postgres store backed by the `knowledge_documents` / `knowledge_chunks` tables.
+ * Embeddings live in a pgvector column and are ranked with the `<=>` cosine distance operator.
+ */
+export class PgVectorStore implements VectorStore {
+  async createDocument(document: KnowledgeDocumentRecord): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.knowledgeDocument.create({
+      data: {
+        id: document.id,
+        filename: document.filename,
+        contentType: document.contentType,
+        categories: document.categories,
+        filePath: document.filePath,
+        fileSize: document.fileSize,
+        status: document.status,
+        uploadedBy: document.uploadedBy,
+        uploadedAt: document.uploadedAt ? new Date(document.uploadedAt) : undefined,
+      },
+    });
+  }
+
+  async updateDocument(documentId: string, updates: DocumentUpdate): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.knowledgeDocument.updateMany({
+      where: { id: documentId },
+      data: updates,
+    });
+  }
+
+  async getDocument(documentId: string): Promise<KnowledgeDocumentRecord | null> {
+    const prisma = await loadPrisma();
+    const document = await prisma.knowledgeDocument.findUnique({
+      where: { id: documentId },
+    });
+
+    return document ? this.formatDocumentFromDb(document) : null;
+  }
+
+  async listDocuments(): Promise<KnowledgeDocumentRecord[]> {
+    const prisma = await loadPrisma();
+    const documents = await prisma.knowledgeDocument.findMany({
+      orderBy: { uploadedAt: 'desc' },
+    });
+
+    return documents.map(document => this.formatDocumentFromDb(document));
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const prisma = await loadPrisma();
+    // Chunks are removed by the ON DELETE CASCADE relation
+    await prisma.knowledgeDocument.deleteMany({
+      where: { id: documentId },
+    });
+  }
+
+  async replaceChunks(documentId: string, chunks: ChunkData[]): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.$transaction(async (tx) => {
+      await tx.knowledgeChunk.deleteMany({ where: { documentId } });
+
+      // The embedding column is not writable through the generated client, so insert with raw SQL
+      for (const chunk of chunks) {
+        await tx.$executeRaw`
+          INSERT INTO "knowledge_chunks"
+            ("id", "documentId", "chunkIndex", "content", "embedding", "embeddingModel", "embeddingDimensions",
+             "startPosition", "endPosition", "metadata")
+          VALUES (
+            ${chunk.id},
+            ${documentId},
+            ${chunk.metadata.chunkIndex},
+            ${chunk.content},
+            ${toVectorLiteral(chunk.embedding)}::vector,
+            ${chunk.embeddingModel ?? null},
+            ${chunk.embedding.length},
+            ${chunk.metadata.startPosition},
+            ${chunk.metadata.endPosition},
+            ${JSON.stringify(chunk.metadata)}::jsonb
+          )
+        `;
+      }
+    });
+
+    logger.info({ documentId, chunkCount: chunks.length }, 'Chunks written to pgvector store');
+  }
+
+  async getChunks(documentId: string): Promise<ChunkData[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.$queryRaw<ChunkRow[]>`
+      SELECT "id", "documentId", "chunkIndex", "content", "embedding"::text AS "embedding", "embeddingModel",
+             "startPosition", "endPosition", "metadata"
+      FROM "knowledge_chunks"
+      WHERE "documentId" = ${documentId}
+      ORDER BY "chunkIndex" ASC
+    `;
+
+    return rows.map(row => this.formatChunkFromDb(row));
+  }
+
+  async similaritySearch(embedding: number[], options: SimilaritySearchOptions): Promise<ScoredChunk[]> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { limit, documentIds, minSimilarity, embeddingModel } = options;
+    const queryVector = toVectorLiteral(embedding);
+
+    const documentFilter = documentIds && documentIds.length > 0
+      ? Prisma.sql`AND c."documentId" IN (${Prisma.join(documentIds)})`
+      : Prisma.empty;
+    const similarityFilter = minSimilarity !== undefined
+      ? Prisma.sql`AND 1 - (c."embedding" <=> ${queryVector}::vector) >= ${minSimilarity}`
+      : Prisma.empty;
+    // Vectors from different models (or dimensions) are not comparable, and pgvector rejects mismatched dimensions
+    const modelFilter = embeddingModel
+      ? Prisma.sql`AND c."embeddingModel" = ${embeddingModel}`
+      : Prisma.sql`AND c."embeddingDimensions" = ${embedding.length}`;
+
+    const rows = await prisma.$queryRaw<ChunkRow[]>`
+      SELECT c."id", c."documentId", c."chunkIndex", c."content", c."embedding"::text AS "embedding",
+             c."embeddingModel", c."startPosition", c."endPosition", c."metadata",
+             1 - (c."embedding" <=> ${queryVector}::vector) AS "similarity"
+      FROM "knowledge_chunks" c
+      JOIN "knowledge_documents" d ON d."id" = c."documentId"
+      WHERE d."status" = 'ready'
+        AND c."embedding" IS NOT NULL
+        ${modelFilter}
+        ${documentFilter}
+        ${similarityFilter}
+      ORDER BY c."embedding" <=> ${queryVector}::vector ASC
+      LIMIT ${limit}
+    `;
+
+    return rows.map(row => ({
+      ...this.formatChunkFromDb(row),
+      similarity: Number(row.similarity ?? 0),
+    }));
+  }
+
+  private formatDocumentFromDb(document: {
+    id: string;
+    filename: string;
+    contentType: string;
+    categories: string[];
+    filePath: string | null;
+    fileSize: number;
+    status: string;
+    chunkCount: number | null;
+    error: string | null;
+    errorCode: string | null;
+    pageCount: number | null;
+    embeddingModel: string | null;
+    uploadedBy: string;
+    uploadedAt: Date;
+  }): KnowledgeDocumentRecord {
+    return {
+      id: document.id,
+      filename: document.filename,
+      contentType: document.contentType,
+      categories: document.categories,
+      filePath: document.filePath ?? undefined,
+      fileSize: document.fileSize,
+      status: document.status as DocumentStatus,
+      chunkCount: document.chunkCount ?? undefined,
+      error: document.error ?? undefined,
+      errorCode: document.errorCode ?? undefined,
+      pageCount: document.pageCount ?? undefined,
+      embeddingModel: document.embeddingModel ?? undefined,
+      uploadedBy: document.uploadedBy,
+      uploadedAt: document.uploadedAt.toISOString(),
+    };
+  }
+
+  private formatChunkFromDb(row: ChunkRow): ChunkData {
+    return {
+      id: row.id,
+      documentId: row.documentId,
+      content: row.content,
+      embedding: row.embedding ? parseVectorLiteral(row.embedding) : [],
+      embeddingModel: row.embeddingModel ?? undefined,
+      metadata: {
+        ...(row.metadata || {}),
+        chunkIndex: row.chunkIndex,
+        startPosition: row.startPosition,
+        endPosition: row.endPosition,
+      },
+    };
+  }
+}
+
+// pgvector accepts and returns vectors in the `[1,2,3]` text form
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+function parseVectorLiteral(value: string): number[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .filter(part => part.length > 0)
+    .map(Number);
+}
@@ -0,0 +1,69 @@
+import type { ChunkData, DocumentMetadata } from '../KnowledgeBaseService';
+
+export type DocumentStatus = 'uploaded' | 'queued' | 'processing' | 'ready' | 'error';
+
+export interface KnowledgeDocumentRecord extends DocumentMetadata {
+  id: string;
+  status: DocumentStatus;
+  filePath?: string;
+  chunkCount?: number;
+  error?: string;
+  errorCode?: string;
+  pageCount?: number;
+  embeddingModel?: string;
+}
+
+export type DocumentUpdate = Partial<
+  Pick<KnowledgeDocumentRecord, 'status' | 'chunkCount' | 'pageCount' | 'embeddingModel'>
+> & {
+  error?: string | null; // null clears a previous failure
+  errorCode?: string | null;
+};
+
+export interface ScoredChunk extends ChunkData {
+  similarity: number; // Cosine similarity in [-1, 1]
+}
+
+export interface SimilaritySearchOptions {
+  limit: number;
+  documentIds?: string[];
+  minSimilarity?: number;
+  embeddingModel?: string; // Only compare against chunks embedded with this model
+}
+
+/**
+ * Storage backend for knowledge documents, their chunks and chunk embeddings.
+ * Implementations must rank `similaritySearch` results by descending cosine similarity.
+ */
+export interface VectorStore {
+  createDocument(document: KnowledgeDocumentRecord): Promise<void>;
+  updateDocument(documentId: string, updates: DocumentUpdate): Promise<void>;
+  getDocument(documentId: string): Promise<KnowledgeDocumentRecord | null>;
+  listDocuments(): Promise<KnowledgeDocumentRecord[]>;
+  deleteDocument(documentId: string): Promise<void>;
+
+  replaceChunks(documentId: string, chunks: ChunkData[]): Promise<void>;
+  getChunks(documentId: string): Promise<ChunkData[]>;
+  similaritySearch(embedding: number[], options: SimilaritySearchOptions): Promise<ScoredChunk[]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,31 @@
+import { VectorStore } from './VectorStore';
+import { InMemoryVectorStore } from './InMemoryVectorStore';
+import { PgVectorStore } from './PgVectorStore';
+
+export type {
+  VectorStore,
+  KnowledgeDocumentRecord,
+  DocumentUpdate,
+  DocumentStatus,
+  ScoredChunk,
+  SimilaritySearchOptions,
+} from './VectorStore';
+export { cosineSimilarity } from './VectorStore';
+export { InMemoryVectorStore } from './InMemoryVectorStore';
+export { PgVectorStore } from './PgVectorStore';
+
+let defaultStore: VectorStore | null = null;
+
+/**
+ * Shared store selected by KNOWLEDGE_VECTOR_STORE ('pgvector' | 'memory').
+ * Defaults to pgvector, except under test where the in-memory store is used.
+ */
+export function getDefaultVectorStore(): VectorStore {
+  if (!defaultStore) {
+    const backend = process.env.KNOWLEDGE_VECTOR_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'pgvector');
+
+    defaultStore = backend === 'memory' ? new InMemoryVectorStore() : new PgVectorStore();
+  }
+  return defaultStore;
+}
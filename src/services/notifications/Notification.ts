@@ -0,0 +1,58 @@
+export type NotificationChannelType = 'email' | 'sms' | 'push' | 'in_app';
+
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'critical';
+
+export interface NotificationRecipient {
+  id: string;
+  name?: string;
+  email?: string;
+  phone?: string; // E.164
+  pushToken?: string;
+  userId?: string; // In-app inbox owner
+}
+
+export interface Notification {
+  id: string;
+  recipient: NotificationRecipient;
+  subject: string;
+  body: string;
+  priority: NotificationPriority;
+  escalationId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// 'skipped' means the channel was never attempted: it isn't configured or the recipient has no address on it
+export type DeliveryStatus = 'delivered' | 'failed' | 'skipped';
+
+export interface DeliveryReceipt {
+  notificationId: string;
+  channel: NotificationChannelType;
+  recipientId: string;
+  status: DeliveryStatus;
+  attempts: number;
+  providerMessageId?: string;
+  error?: string;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export interface ChannelSendResult {
+  providerMessageId?: string;
+}
+
+/**
+ * A single delivery mechanism. `send` makes one attempt and throws on failure; retries and
+ * timeouts are the dispatcher's job. `signal` is aborted when the attempt runs out of time.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  canDeliver(recipient: NotificationRecipient): boolean;
+  send(notification: Notification, signal: AbortSignal): Promise<ChannelSendResult>;
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public retryable: boolean = true) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
@@ -0,0 +1,178 @@
+import { logger } from '@/lib/logger';
+import { computeBackoff } from '@/services/knowledge/jobs/IngestionQueue';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+  DeliveryReceipt,
+  ChannelSendResult,
+  NotificationDeliveryError,
+} from './Notification';
+
+export interface NotificationDispatcherConfig {
+  maxAttempts: number; // Per channel
+  attemptTimeoutMs: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+}
+
+export interface DispatchOptions {
+  channels: NotificationChannelType[];
+  timeoutMs?: number; // Budget for every attempt and retry across all channels; unset means no deadline
+}
+
+export interface DispatchResult {
+  notificationId: string;
+  delivered: boolean; // At least one channel delivered
+  receipts: DeliveryReceipt[];
+}
+
+const DEFAULT_CONFIG: NotificationDispatcherConfig = {
+  maxAttempts: 3,
+  attemptTimeoutMs: 10000,
+  retryBaseMs: 1000,
+  retryMaxMs: 15000,
+};
+
+/**
+ * Fans a notification out to the requested channels in parallel. Each channel is retried with
+ * backoff until it delivers, fails permanently, runs out of attempts or hits the dispatch deadline.
+ */
+export class NotificationDispatcher {
+  private channels: Map<NotificationChannelType, NotificationChannel> = new Map();
+  private config: NotificationDispatcherConfig;
+
+  constructor(channels: NotificationChannel[] = [], config: Partial<NotificationDispatcherConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    channels.forEach(channel => this.register(channel));
+  }
+
+  register(channel: NotificationChannel): void {
+    this.channels.set(channel.type, channel);
+  }
+
+  getChannelTypes(): NotificationChannelType[] {
+    return Array.from(this.channels.keys());
+  }
+
+  async dispatch(notification: Notification, options: DispatchOptions): Promise<DispatchResult> {
+    const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity;
+    const requested = Array.from(new Set(options.channels));
+
+    const receipts = await Promise.all(requested.map(type => {
+      const channel = this.channels.get(type);
+      if (!channel) {
+        return Promise.resolve(this.skipped(notification, type, `No ${type} channel configured`));
+      }
+      if (!channel.canDeliver(notification.recipient)) {
+        return Promise.resolve(this.skipped(notification, type, `Recipient has no ${type} address`));
+      }
+      return this.deliver(channel, notification, deadline);
+    }));
+
+    const delivered = receipts.some(receipt => receipt.status === 'delivered');
+
+    logger[delivered ? 'info' : 'warn']({
+      notificationId: notification.id,
+      escalationId: notification.escalationId,
+      recipientId: notification.recipient.id,
+      receipts: receipts.map(({ channel, status, attempts, error }) => ({ channel, status, attempts, error })),
+    }, delivered ? 'Notification delivered' : 'Notification not delivered on any channel');
+
+    return { notificationId: notification.id, delivered, receipts };
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    notification: Notification,
+    deadline: number
+  ): Promise<DeliveryReceipt> {
+    const startedAt = new Date();
+    let attempts = 0;
+    let lastError = 'Delivery deadline passed before the first attempt';
+
+    while (attempts < this.config.maxAttempts) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+
+      attempts++;
+      try {
+        const result = await this.attempt(channel, notification, Math.min(remaining, this.config.attemptTimeoutMs));
+        return {
+          notificationId: notification.id,
+          channel: channel.type,
+          recipientId: notification.recipient.id,
+          status: 'delivered',
+          attempts,
+          providerMessageId: result.providerMessageId,
+          startedAt,
+          completedAt: new Date(),
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+
+        if (error instanceof NotificationDeliveryError && !error.retryable) {
+          break;
+        }
+
+        if (attempts < this.config.maxAttempts) {
+          const delay = computeBackoff(attempts, this.config.retryBaseMs, this.config.retryMaxMs);
+          if (Date.now() + delay >= deadline) {
+            break;
+          }
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    return {
+      notificationId: notification.id,
+      channel: channel.type,
+      recipientId: notification.recipient.id,
+      status: 'failed',
+      attempts,
+      error: lastError,
+      startedAt,
+      completedAt: new Date(),
+    };
+  }
+
+  private async attempt(
+    channel: NotificationChannel,
+    notification: Notification,
+    timeoutMs: number
+  ): Promise<ChannelSendResult> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Channels that ignore the signal still lose the race, so a hung provider can't stall the step
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new NotificationDeliveryError(`${channel.type} delivery timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([channel.send(notification, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private skipped(notification: Notification, channel: NotificationChannelType, reason: string): DeliveryReceipt {
+    const now = new Date();
+    return {
+      notificationId: notification.id,
+      channel,
+      recipientId: notification.recipient.id,
+      status: 'skipped',
+      attempts: 0,
+      error: reason,
+      startedAt: now,
+      completedAt: now,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import type { InboxStore } from '../inbox/InboxStore';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationRecipient,
+  ChannelSendResult,
+  NotificationDeliveryError,
+} from '../Notification';
+
+/**
+ * Writes the notification to the recipient's in-app inbox, served by /api/notifications
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly type = 'in_app' as const;
+
+  constructor(private store: InboxStore) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.userId);
+  }
+
+  async send(notification: Notification, signal: AbortSignal): Promise<ChannelSendResult> {
+    if (signal.aborted) {
+      throw new NotificationDeliveryError('In-app delivery aborted');
+    }
+
+    const item = await this.store.add({
+      userId: notification.recipient.userId!,
+      notificationId: notification.id,
+      escalationId: notification.escalationId,
+      title: notification.subject,
+      body: notification.body,
+      priority: notification.priority,
+      metadata: notification.metadata,
+    });
+
+    return { providerMessageId: item.id };
+  }
+}
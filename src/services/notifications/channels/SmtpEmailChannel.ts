@@ -0,0 +1,72 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationRecipient,
+  ChannelSendResult,
+  NotificationDeliveryError,
+} from '../Notification';
+
+export interface SmtpEmailConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+  secure?: boolean; // Implicit TLS; defaults to true on port 465 only
+}
+
+const MAIL_PRIORITY = { low: 'low', normal: 'normal', high: 'high', critical: 'high' } as const;
+
+/**
+ * Email over SMTP. Point it at a local catcher such as Mailpit (`SMTP_HOST=localhost SMTP_PORT=1025`)
+ * to inspect escalation mail without a real relay.
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly type = 'email' as const;
+  private transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(private config: SmtpEmailConfig, transporter?: Transporter<SMTPTransport.SentMessageInfo>) {
+    this.transporter = transporter || nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure ?? config.port === 465,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+  }
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.email);
+  }
+
+  async send(notification: Notification, signal: AbortSignal): Promise<ChannelSendResult> {
+    const { recipient } = notification;
+    if (signal.aborted) {
+      throw new NotificationDeliveryError('Email delivery aborted');
+    }
+
+    let info: SMTPTransport.SentMessageInfo;
+    try {
+      info = await this.transporter.sendMail({
+        from: this.config.from,
+        to: recipient.name ? { name: recipient.name, address: recipient.email! } : recipient.email,
+        subject: notification.priority === 'critical' ? `[URGENT] ${notification.subject}` : notification.subject,
+        text: notification.body,
+        priority: MAIL_PRIORITY[notification.priority],
+        headers: { 'X-Notification-Id': notification.id },
+      });
+    } catch (error) {
+      const smtpError = error as { message?: string; responseCode?: number };
+      // 5xx replies are permanent (bad mailbox, rejected content); connection errors and 4xx are worth retrying
+      const permanent = smtpError.responseCode !== undefined && smtpError.responseCode >= 500;
+      throw new NotificationDeliveryError(`SMTP delivery failed: ${smtpError.message || 'Unknown error'}`, !permanent);
+    }
+
+    if (info.rejected.length > 0) {
+      throw new NotificationDeliveryError(`SMTP server rejected ${recipient.email}`, false);
+    }
+
+    return { providerMessageId: info.messageId };
+  }
+}
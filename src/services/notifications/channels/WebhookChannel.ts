@@ -0,0 +1,74 @@
+import { createHmac } from 'crypto';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationRecipient,
+  ChannelSendResult,
+  NotificationDeliveryError,
+} from '../Notification';
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string; // Signs each request when set
+  headers?: Record<string, string>;
+}
+
+/**
+ * SMS or push delivery through an HTTP gateway. The gateway (a provider bridge, or a local stand-in
+ * that just logs requests) receives a JSON POST and must answer 2xx once it has accepted the message;
+ * an `id` in the response body is recorded as the provider message id.
+ *
+ * With a secret, requests carry `X-Notification-Timestamp` and
+ * `X-Notification-Signature: sha256=HMAC(secret, "<timestamp>.<body>")`.
+ */
+export class WebhookChannel implements NotificationChannel {
+  constructor(readonly type: 'sms' | 'push', private config: WebhookChannelConfig) {}
+
+  canDeliver(recipient: NotificationRecipient): boolean {
+    return Boolean(this.type === 'sms' ? recipient.phone : recipient.pushToken);
+  }
+
+  async send(notification: Notification, signal: AbortSignal): Promise<ChannelSendResult> {
+    const { recipient } = notification;
+    const body = JSON.stringify({
+      id: notification.id,
+      channel: this.type,
+      to: this.type === 'sms' ? recipient.phone : recipient.pushToken,
+      subject: notification.subject,
+      body: notification.body,
+      priority: notification.priority,
+      escalationId: notification.escalationId,
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Notification-Id': notification.id,
+      ...this.config.headers,
+    };
+    if (this.config.secret) {
+      const timestamp = Date.now().toString();
+      headers['X-Notification-Timestamp'] = timestamp;
+      headers['X-Notification-Signature'] = `sha256=${createHmac('sha256', this.config.secret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex')}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, { method: 'POST', headers, body, signal });
+    } catch (error) {
+      throw new NotificationDeliveryError(
+        `${this.type} webhook request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!response.ok) {
+      // Other 4xx responses mean the gateway refused this message; sending it again won't help
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      throw new NotificationDeliveryError(`${this.type} webhook responded with HTTP ${response.status}`, retryable);
+    }
+
+    const data = await response.json().catch(() => null);
+    return { providerMessageId: typeof data?.id === 'string' ? data.id : undefined };
+  }
+}
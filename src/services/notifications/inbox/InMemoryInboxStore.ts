@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto';
+import { InboxStore, InboxItem, NewInboxItem, InboxListOptions, DEFAULT_INBOX_LIMIT } from './InboxStore';
+
+/**
+ * Process-local inbox used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryInboxStore implements InboxStore {
+  private items: InboxItem[] = [];
+
+  async add(item: NewInboxItem): Promise<InboxItem> {
+    const stored: InboxItem = { ...item, id: randomUUID(), createdAt: new Date() };
+    this.items.unshift(stored);
+    return { ...stored };
+  }
+
+  async list(userId: string, options: InboxListOptions = {}): Promise<InboxItem[]> {
+    return this.items
+      .filter(item => item.userId === userId && (!options.unreadOnly || !item.readAt))
+      .slice(0, options.limit ?? DEFAULT_INBOX_LIMIT)
+      .map(item => ({ ...item }));
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.items.filter(item => item.userId === userId && !item.readAt).length;
+  }
+
+  async markRead(userId: string, itemId: string): Promise<boolean> {
+    const item = this.items.find(candidate => candidate.id === itemId && candidate.userId === userId);
+    if (!item) {
+      return false;
+    }
+
+    item.readAt = item.readAt ?? new Date();
+    return true;
+  }
+}
@@ -0,0 +1,37 @@
+import type { NotificationPriority } from '../Notification';
+
+export interface InboxItem {
+  id: string;
+  userId: string;
+  notificationId: string;
+  title: string;
+  body: string;
+  priority: NotificationPriority;
+  escalationId?: string;
+  metadata?: Record<string, unknown>;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export type NewInboxItem = Omit<InboxItem, 'id' | 'readAt' | 'createdAt'>;
+
+export interface InboxListOptions {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * Storage behind the in-app notification channel. Items are listed newest first.
+ */
+export interface InboxStore {
+  add(item: NewInboxItem): Promise<InboxItem>;
+  list(userId: string, options?: InboxListOptions): Promise<InboxItem[]>;
+  countUnread(userId: string): Promise<number>;
+
+  /**
+   * Returns false if the item doesn't exist or belongs to another user
+   */
+  markRead(userId: string, itemId: string): Promise<boolean>;
+}
+
+export const DEFAULT_INBOX_LIMIT = 50;
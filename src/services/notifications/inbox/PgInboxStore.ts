@@ -0,0 +1,70 @@
+import type { Prisma, InboxNotification as InboxNotificationRow } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type { NotificationPriority } from '../Notification';
+import { InboxStore, InboxItem, NewInboxItem, InboxListOptions, DEFAULT_INBOX_LIMIT } from './InboxStore';
+
+/**
+ * Inbox backed by the `inbox_notifications` table
+ */
+export class PgInboxStore implements InboxStore {
+  async add(item: NewInboxItem): Promise<InboxItem> {
+    const prisma = await loadPrisma();
+    const row = await prisma.inboxNotification.create({
+      data: {
+        userId: item.userId,
+        notificationId: item.notificationId,
+        escalationId: item.escalationId,
+        title: item.title,
+        body: item.body,
+        priority: item.priority,
+        metadata: item.metadata as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    return formatItem(row);
+  }
+
+  async list(userId: string, options: InboxListOptions = {}): Promise<InboxItem[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.inboxNotification.findMany({
+      where: { userId, ...(options.unreadOnly && { readAt: null }) },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? DEFAULT_INBOX_LIMIT,
+    });
+
+    return rows.map(formatItem);
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const prisma = await loadPrisma();
+    return prisma.inboxNotification.count({ where: { userId, readAt: null } });
+  }
+
+  async markRead(userId: string, itemId: string): Promise<boolean> {
+    const prisma = await loadPrisma();
+    const existing = await prisma.inboxNotification.findFirst({ where: { id: itemId, userId } });
+    if (!existing) {
+      return false;
+    }
+
+    if (!existing.readAt) {
+      await prisma.inboxNotification.update({ where: { id: itemId }, data: { readAt: new Date() } });
+    }
+    return true;
+  }
+}
+
+function formatItem(row: InboxNotificationRow): InboxItem {
+  return {
+    id: row.id,
+    userId: row.userId,
+    notificationId: row.notificationId,
+    title: row.title,
+    body: row.body,
+    priority: row.priority as NotificationPriority,
+    escalationId: row.escalationId ?? undefined,
+    metadata: (row.metadata ?? undefined) as Record<string, unknown> | undefined,
+    readAt: row.readAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
@@ -0,0 +1,93 @@
+import { NotificationChannel } from './Notification';
+import { NotificationDispatcher } from './NotificationDispatcher';
+import { InboxStore } from './inbox/InboxStore';
+import { InMemoryInboxStore } from './inbox/InMemoryInboxStore';
+import { PgInboxStore } from './inbox/PgInboxStore';
+import { SmtpEmailChannel } from './channels/SmtpEmailChannel';
+import { WebhookChannel } from './channels/WebhookChannel';
+import { InAppChannel } from './channels/InAppChannel';
+
+export type {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationPriority,
+  NotificationRecipient,
+  DeliveryReceipt,
+  DeliveryStatus,
+  ChannelSendResult,
+} from './Notification';
+export { NotificationDeliveryError } from './Notification';
+export { NotificationDispatcher } from './NotificationDispatcher';
+export type { NotificationDispatcherConfig, DispatchOptions, DispatchResult } from './NotificationDispatcher';
+export type { InboxStore, InboxItem, NewInboxItem, InboxListOptions } from './inbox/InboxStore';
+export { InMemoryInboxStore } from './inbox/InMemoryInboxStore';
+export { PgInboxStore } from './inbox/PgInboxStore';
+export { SmtpEmailChannel } from './channels/SmtpEmailChannel';
+export type { SmtpEmailConfig } from './channels/SmtpEmailChannel';
+export { WebhookChannel } from './channels/WebhookChannel';
+export type { WebhookChannelConfig } from './channels/WebhookChannel';
+export { InAppChannel } from './channels/InAppChannel';
+
+let defaultInboxStore: InboxStore | null = null;
+let defaultDispatcher: NotificationDispatcher | null = null;
+
+/**
+ * Inbox selected by NOTIFICATION_INBOX_STORE ('postgres' | 'memory').
+ * Defaults to Postgres, except under test where the in-memory inbox is used.
+ */
+export function getInboxStore(): InboxStore {
+  if (!defaultInboxStore) {
+    const backend = process.env.NOTIFICATION_INBOX_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultInboxStore = backend === 'memory' ? new InMemoryInboxStore() : new PgInboxStore();
+  }
+  return defaultInboxStore;
+}
+
+/**
+ * Channels configured in the environment. In-app delivery is always available; email needs SMTP_HOST,
+ * SMS and push need NOTIFICATION_SMS_WEBHOOK_URL / NOTIFICATION_PUSH_WEBHOOK_URL.
+ */
+export function createChannelsFromEnv(inbox: InboxStore = getInboxStore()): NotificationChannel[] {
+  const channels: NotificationChannel[] = [new InAppChannel(inbox)];
+
+  if (process.env.SMTP_HOST) {
+    channels.push(new SmtpEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || process.env.SMTP_USER || 'no-reply@localhost',
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : undefined,
+    }));
+  }
+
+  const secret = process.env.NOTIFICATION_WEBHOOK_SECRET;
+  if (process.env.NOTIFICATION_SMS_WEBHOOK_URL) {
+    channels.push(new WebhookChannel('sms', { url: process.env.NOTIFICATION_SMS_WEBHOOK_URL, secret }));
+  }
+  if (process.env.NOTIFICATION_PUSH_WEBHOOK_URL) {
+    channels.push(new WebhookChannel('push', { url: process.env.NOTIFICATION_PUSH_WEBHOOK_URL, secret }));
+  }
+
+  return channels;
+}
+
+/**
+ * Shared dispatcher for this process
+ */
+export function getNotificationDispatcher(): NotificationDispatcher {
+  if (!defaultDispatcher) {
+    defaultDispatcher = new NotificationDispatcher(createChannelsFromEnv(), {
+      ...(process.env.NOTIFICATION_MAX_ATTEMPTS && {
+        maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS, 10),
+      }),
+      ...(process.env.NOTIFICATION_ATTEMPT_TIMEOUT_MS && {
+        attemptTimeoutMs: parseInt(process.env.NOTIFICATION_ATTEMPT_TIMEOUT_MS, 10),
+      }),
+    });
+  }
+  return defaultDispatcher;
+}
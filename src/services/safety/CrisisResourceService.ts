@@ -0,0 +1,525 @@
+export interface CrisisResource {
+  id: string;
+  name: string;
+  type: 'hotline' | 'chat' | 'text' | 'website' | 'app';
+  description: string;
+  contact: {
+    primary: string;
+    secondary?: string;
+    website?: string;
+  };
+  availability: '24/7' | 'business_hours' | 'limited';
+  languages: string[];
+  countries: string[]; // ISO 3166-1 alpha-2; empty for services reachable from anywhere
+  specialty: string[];
+  crisisTypes: string[];
+  waitTime?: string;
+  confidential: boolean;
+  free: boolean;
+  verified: boolean;
+}
+
+export interface CrisisResourceFilters {
+  crisisType?: string | null;
+  specialty?: string | null;
+  language?: string | null; // Language name ("Spanish") or ISO 639-1 code ("es")
+  availability?: string | null;
+}
+
+export interface LocalizedCrisisResources {
+  locale: string;
+  language: string;
+  country: string | null;
+  resources: CrisisResource[];
+  disclaimer: string;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+};
+
+const EMERGENCY_NUMBERS: Record<string, string> = {
+  US: '911',
+  CA: '911',
+  MX: '911',
+  BR: '192',
+};
+const DEFAULT_EMERGENCY_NUMBER = '112'; // EU-wide, and redirected by most GSM networks
+
+export const DEFAULT_DISCLAIMER = 'These resources are provided for informational purposes. In case of immediate danger, please call emergency services (911 in the US).';
+
+const DISCLAIMERS: Record<string, { number: string; generic: string }> = {
+  en: {
+    number: 'These resources are provided for informational purposes. In case of immediate danger, please call emergency services ({number}).',
+    generic: 'These resources are provided for informational purposes. In case of immediate danger, please call your local emergency number.',
+  },
+  es: {
+    number: 'Estos recursos se ofrecen con fines informativos. Si estás en peligro inmediato, llama a los servicios de emergencia ({number}).',
+    generic: 'Estos recursos se ofrecen con fines informativos. Si estás en peligro inmediato, llama al número de emergencias de tu país.',
+  },
+  pt: {
+    number: 'Estes recursos são fornecidos para fins informativos. Em caso de perigo imediato, ligue para os serviços de emergência ({number}).',
+    generic: 'Estes recursos são fornecidos para fins informativos. Em caso de perigo imediato, ligue para o número de emergência do seu país.',
+  },
+  fr: {
+    number: "Ces ressources sont fournies à titre informatif. En cas de danger immédiat, appelez les services d'urgence ({number}).",
+    generic: "Ces ressources sont fournies à titre informatif. En cas de danger immédiat, appelez le numéro d'urgence de votre pays.",
+  },
+  de: {
+    number: 'Diese Angebote dienen der Information. Bei akuter Gefahr rufen Sie bitte den Notruf ({number}) an.',
+    generic: 'Diese Angebote dienen der Information. Bei akuter Gefahr rufen Sie bitte den örtlichen Notruf an.',
+  },
+};
+
+export const CRISIS_RESOURCES: CrisisResource[] = [
+  {
+    id: 'national-suicide-prevention-lifeline',
+    name: 'National Suicide Prevention Lifeline',
+    type: 'hotline',
+    description: 'Free and confidential emotional support 24/7 for people in distress, prevention and crisis resources.',
+    contact: {
+      primary: '988',
+      secondary: '1-800-273-8255',
+      website: 'https://988lifeline.org'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish'],
+    countries: ['US'],
+    specialty: ['suicide_prevention', 'crisis_intervention', 'mental_health'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'crisis-text-line',
+    name: 'Crisis Text Line',
+    type: 'text',
+    description: 'Free, 24/7 support for anyone in crisis. Text HOME to 741741 to connect with a Crisis Counselor.',
+    contact: {
+      primary: 'Text HOME to 741741',
+      website: 'https://www.crisistextline.org'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese'],
+    countries: ['US'],
+    specialty: ['crisis_intervention', 'mental_health', 'emotional_support'],
+    crisisTypes: ['suicidal_thoughts', 'anxiety', 'depression', 'relationship_issues', 'self_harm'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'trans-lifeline',
+    name: 'Trans Lifeline',
+    type: 'hotline',
+    description: 'A hotline staffed by transgender people, for transgender people. Support for the trans community.',
+    contact: {
+      primary: '877-565-8860',
+      website: 'https://translifeline.org'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish'],
+    countries: ['US', 'CA'],
+    specialty: ['transgender_support', 'LGBTQ_crisis', 'gender_identity'],
+    crisisTypes: ['gender_identity_crisis', 'transphobia', 'coming_out_support'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'veterans-crisis-line',
+    name: 'Veterans Crisis Line',
+    type: 'hotline',
+    description: 'Free, confidential support for veterans and their families. Available 24/7.',
+    contact: {
+      primary: '988 then press 1',
+      secondary: '1-800-273-8255 (press 1)',
+      website: 'https://www.veteranscrisisline.net'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish'],
+    countries: ['US'],
+    specialty: ['veterans_support', 'military_mental_health', 'PTSD'],
+    crisisTypes: ['PTSD', 'military_trauma', 'veteran_suicide_prevention'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'rainn-national-sexual-assault-hotline',
+    name: 'RAINN National Sexual Assault Hotline',
+    type: 'hotline',
+    description: 'Confidential support for survivors of sexual assault, their friends and families.',
+    contact: {
+      primary: '1-800-656-4673',
+      website: 'https://www.rainn.org'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish'],
+    countries: ['US'],
+    specialty: ['sexual_assault_support', 'trauma_recovery', 'domestic_violence'],
+    crisisTypes: ['sexual_assault', 'rape', 'domestic_violence', 'stalking'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'eating-disorders-helpline',
+    name: 'National Eating Disorders Association Helpline',
+    type: 'chat',
+    description: 'Free and confidential support for anyone struggling with an eating disorder.',
+    contact: {
+      primary: '1-800-931-2237',
+      website: 'https://www.nationaleatingdisorders.org/learn/general-information/helpline'
+    },
+    availability: 'business_hours',
+    languages: ['English'],
+    countries: ['US'],
+    specialty: ['eating_disorders', 'body_image', 'food_addiction'],
+    crisisTypes: ['eating_disorders', 'anorexia', 'bulimia', 'binge_eating'],
+    waitTime: 'Usually immediate during business hours',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'substance-abuse-helpline',
+    name: 'SAMHSA National Helpline',
+    type: 'hotline',
+    description: 'Free, confidential, 24/7 treatment referral and information service for individuals and families facing mental and/or substance use disorders.',
+    contact: {
+      primary: '1-800-662-HELP (4357)',
+      website: 'https://www.samhsa.gov/find-help/national-helpline'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish'],
+    countries: ['US'],
+    specialty: ['substance_abuse', 'addiction', 'mental_health_dual_diagnosis'],
+    crisisTypes: ['substance_abuse', 'addiction', 'overdose', 'dual_diagnosis'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'canada-suicide-crisis-helpline',
+    name: '9-8-8 Suicide Crisis Helpline',
+    type: 'hotline',
+    description: 'Call or text 988 any time for free, confidential support in English or French.',
+    contact: {
+      primary: '988',
+      website: 'https://988.ca'
+    },
+    availability: '24/7',
+    languages: ['English', 'French'],
+    countries: ['CA'],
+    specialty: ['suicide_prevention', 'crisis_intervention', 'mental_health'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'linea-024-spain',
+    name: 'Línea 024',
+    type: 'hotline',
+    description: 'Spanish Ministry of Health line for people with suicidal thoughts and those close to them. Free, confidential and available around the clock.',
+    contact: {
+      primary: '024',
+      website: 'https://www.sanidad.gob.es/linea024/'
+    },
+    availability: '24/7',
+    languages: ['Spanish'],
+    countries: ['ES'],
+    specialty: ['suicide_prevention', 'crisis_intervention', 'mental_health'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'linea-de-la-vida-mexico',
+    name: 'Línea de la Vida',
+    type: 'hotline',
+    description: 'National Mexican line for emotional crises, suicide prevention and substance use. Free and confidential.',
+    contact: {
+      primary: '800 911 2000'
+    },
+    availability: '24/7',
+    languages: ['Spanish'],
+    countries: ['MX'],
+    specialty: ['suicide_prevention', 'crisis_intervention', 'substance_abuse'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress', 'substance_abuse'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'cvv-brazil',
+    name: 'CVV - Centro de Valorização da Vida',
+    type: 'hotline',
+    description: 'Free emotional support and suicide prevention by phone, chat and email, staffed by trained volunteers.',
+    contact: {
+      primary: '188',
+      website: 'https://cvv.org.br'
+    },
+    availability: '24/7',
+    languages: ['Portuguese'],
+    countries: ['BR'],
+    specialty: ['suicide_prevention', 'emotional_support', 'crisis_intervention'],
+    crisisTypes: ['suicidal_thoughts', 'emotional_distress', 'depression'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'sns24-portugal',
+    name: 'SNS 24 - Aconselhamento Psicológico',
+    type: 'hotline',
+    description: 'Psychological counselling from the Portuguese National Health Service. Choose the psychological support option when calling.',
+    contact: {
+      primary: '808 24 24 24',
+      website: 'https://www.sns24.gov.pt'
+    },
+    availability: '24/7',
+    languages: ['Portuguese', 'English'],
+    countries: ['PT'],
+    specialty: ['crisis_intervention', 'mental_health', 'emotional_support'],
+    crisisTypes: ['mental_health_crisis', 'emotional_distress', 'anxiety', 'depression'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: false,
+    verified: true
+  },
+  {
+    id: 'sos-voz-amiga-portugal',
+    name: 'SOS Voz Amiga',
+    type: 'hotline',
+    description: 'Volunteer listening line for loneliness, distress and suicidal thoughts. Open every afternoon and evening.',
+    contact: {
+      primary: '213 544 545',
+      website: 'https://www.sosvozamiga.org'
+    },
+    availability: 'limited',
+    languages: ['Portuguese'],
+    countries: ['PT'],
+    specialty: ['suicide_prevention', 'emotional_support'],
+    crisisTypes: ['suicidal_thoughts', 'emotional_distress'],
+    confidential: true,
+    free: false,
+    verified: true
+  },
+  {
+    id: 'numero-national-prevention-suicide-france',
+    name: '3114 - Numéro national de prévention du suicide',
+    type: 'hotline',
+    description: 'Free national line answered by health professionals trained in suicide prevention, for people in distress and those worried about someone.',
+    contact: {
+      primary: '3114',
+      website: 'https://3114.fr'
+    },
+    availability: '24/7',
+    languages: ['French'],
+    countries: ['FR'],
+    specialty: ['suicide_prevention', 'crisis_intervention', 'mental_health'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'telefonseelsorge-germany',
+    name: 'TelefonSeelsorge',
+    type: 'hotline',
+    description: 'Anonymous, free counselling by phone, chat and email for anyone in a crisis.',
+    contact: {
+      primary: '0800 111 0 111',
+      secondary: '0800 111 0 222',
+      website: 'https://www.telefonseelsorge.de'
+    },
+    availability: '24/7',
+    languages: ['German'],
+    countries: ['DE'],
+    specialty: ['crisis_intervention', 'suicide_prevention', 'emotional_support'],
+    crisisTypes: ['suicidal_thoughts', 'emotional_distress', 'depression', 'relationship_issues'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'telefonseelsorge-austria',
+    name: 'TelefonSeelsorge Österreich',
+    type: 'hotline',
+    description: 'Anonymous, free crisis counselling by phone, available day and night.',
+    contact: {
+      primary: '142',
+      website: 'https://www.telefonseelsorge.at'
+    },
+    availability: '24/7',
+    languages: ['German'],
+    countries: ['AT'],
+    specialty: ['crisis_intervention', 'suicide_prevention', 'emotional_support'],
+    crisisTypes: ['suicidal_thoughts', 'emotional_distress', 'depression'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'dargebotene-hand-switzerland',
+    name: 'Die Dargebotene Hand / La Main Tendue',
+    type: 'hotline',
+    description: 'Anonymous listening and crisis support by phone and chat across Switzerland.',
+    contact: {
+      primary: '143',
+      website: 'https://www.143.ch'
+    },
+    availability: '24/7',
+    languages: ['German', 'French', 'Italian'],
+    countries: ['CH'],
+    specialty: ['crisis_intervention', 'suicide_prevention', 'emotional_support'],
+    crisisTypes: ['suicidal_thoughts', 'emotional_distress', 'depression'],
+    waitTime: 'Usually immediate',
+    confidential: true,
+    free: true,
+    verified: true
+  },
+  {
+    id: 'find-a-helpline',
+    name: 'Find A Helpline',
+    type: 'website',
+    description: 'Directory of free, confidential crisis lines by country and language, for anyone not covered by a national service listed here.',
+    contact: {
+      primary: 'https://findahelpline.com',
+      website: 'https://findahelpline.com'
+    },
+    availability: '24/7',
+    languages: ['English', 'Spanish', 'Portuguese', 'French', 'German', 'Italian'],
+    countries: [],
+    specialty: ['crisis_intervention', 'suicide_prevention', 'mental_health'],
+    crisisTypes: ['suicidal_thoughts', 'mental_health_crisis', 'emotional_distress'],
+    confidential: true,
+    free: true,
+    verified: true
+  }
+];
+
+/**
+ * Crisis lines and services, filtered by need and matched to the user's locale so someone who
+ * writes in Portuguese from Brazil is pointed at CVV rather than a US hotline.
+ */
+export class CrisisResourceService {
+  constructor(private resources: CrisisResource[] = CRISIS_RESOURCES) {}
+
+  get totalCount(): number {
+    return this.resources.length;
+  }
+
+  find(filters: CrisisResourceFilters = {}): CrisisResource[] {
+    const { crisisType, specialty, availability } = filters;
+    const language = filters.language ? toLanguageName(filters.language) : null;
+
+    return this.resources
+      .filter(resource => !crisisType || resource.crisisTypes.includes(crisisType))
+      .filter(resource => !specialty || resource.specialty.includes(specialty))
+      .filter(resource => !language || resource.languages.includes(language))
+      .filter(resource => !availability || resource.availability === availability)
+      .sort(byPriority);
+  }
+
+  /**
+   * Resources for a locale such as "pt-BR", "fr" or "de_AT". National services in the user's
+   * language come first, then international ones in that language, then national services in
+   * other languages. A crisis response must never come back empty, so the filters are relaxed
+   * (language first) until something matches.
+   */
+  forLocale(locale: string, filters: Omit<CrisisResourceFilters, 'language'> = {}): LocalizedCrisisResources {
+    const { language, country } = parseLocale(locale);
+
+    let resources = this.rankForCountry(this.find({ ...filters, language }), country);
+    if (resources.length === 0 && country) {
+      resources = this.find(filters).filter(resource => resource.countries.includes(country));
+    }
+    if (resources.length === 0) {
+      resources = this.rankForCountry(this.find({ language }), country);
+    }
+    if (resources.length === 0) {
+      resources = this.find();
+    }
+
+    return {
+      locale,
+      language,
+      country,
+      resources,
+      disclaimer: localizedDisclaimer(language, country),
+    };
+  }
+
+  private rankForCountry(resources: CrisisResource[], country: string | null): CrisisResource[] {
+    if (!country) {
+      return resources;
+    }
+
+    const national = resources.filter(resource => resource.countries.includes(country));
+    const international = resources.filter(resource => resource.countries.length === 0);
+
+    // Another country's hotline is only useful when nothing local or international exists
+    return national.length + international.length > 0 ? [...national, ...international] : resources;
+  }
+}
+
+export function parseLocale(locale: string): { language: string; country: string | null } {
+  const [language, region] = locale.trim().split(/[-_]/);
+  return {
+    language: (language || 'en').toLowerCase(),
+    country: region && /^[a-z]{2}$/i.test(region) ? region.toUpperCase() : null,
+  };
+}
+
+/**
+ * Locale for resources shown alongside an assessment: the language the message was written in,
+ * keeping the country from the client's locale when it sent one
+ */
+export function crisisLocale(language: string, clientLocale?: string | null): string {
+  const country = clientLocale ? parseLocale(clientLocale).country : null;
+  return country ? `${language}-${country}` : language;
+}
+
+function toLanguageName(language: string): string {
+  return LANGUAGE_NAMES[language.toLowerCase()] || language;
+}
+
+function localizedDisclaimer(language: string, country: string | null): string {
+  const messages = DISCLAIMERS[language] || DISCLAIMERS.en;
+  if (!country) {
+    return messages.generic;
+  }
+  return messages.number.replace('{number}', EMERGENCY_NUMBERS[country] || DEFAULT_EMERGENCY_NUMBER);
+}
+
+// 24/7 first, then verified status
+function byPriority(a: CrisisResource, b: CrisisResource): number {
+  if (a.availability === '24/7' && b.availability !== '24/7') return -1;
+  if (b.availability === '24/7' && a.availability !== '24/7') return 1;
+  if (a.verified && !b.verified) return -1;
+  if (b.verified && !a.verified) return 1;
+  return 0;
+}
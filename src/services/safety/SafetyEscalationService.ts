@@ -1,6 +1,29 @@
+import { randomUUID } from 'crypto';
 import { logger } from '@/lib/logger';
-import { ProfessionalNetworkService } from '@/services/professional/ProfessionalNetworkService';
+import { ProfessionalNetworkService, Professional } from '@/services/professional/ProfessionalNetworkService';
 import { SecureCommunicationService } from '@/services/communication/SecureCommunicationService';
+import type { CrisisSeverity } from '@/services/crisis-detection/CrisisAssessment';
+import {
+  NotificationDispatcher,
+  NotificationRecipient,
+  NotificationChannelType,
+  NotificationPriority,
+  DeliveryReceipt,
+  getNotificationDispatcher,
+} from '@/services/notifications';
+import {
+  EscalationStore,
+  EscalationHistoryQuery,
+  EscalationScheduler,
+  ProtocolVersion,
+  ProtocolAuditEntry,
+  ProtocolAuditQuery,
+  ProtocolValidationError,
+  ACTIVE_ESCALATION_STATUSES,
+  getEscalationStore,
+  matchProtocol,
+  validateProtocol,
+} from './escalation';
 
 export interface EscalationProtocol {
   id: string;
@@ -12,6 +35,7 @@ export interface EscalationProtocol {
   requiredApprovals: string[];
   complianceRequirements: string[];
   active: boolean;
+  version: number; // The published ProtocolVersion these settings come from
 }
 
 export interface CrisisCondition {
@@ -37,6 +61,7 @@ export interface EscalationRecord {
   sessionId: string;
   crisisAssessmentId: string;
   protocolId: string;
+  protocolVersion?: number; // Runs to completion on this version even if a newer one is published
   status: 'initiated' | 'in_progress' | 'escalated' | 'resolved' | 'failed';
   priority: 'routine' | 'urgent' | 'emergency';
   startedAt: Date;
@@ -47,6 +72,24 @@ export interface EscalationRecord {
   professionalId?: string;
   channelId?: string;
   estimatedResponseTime?: number;
+  assessment: EscalationAssessment;
+
+  // Where the protocol run stands: the current step is either waiting to run, or has reached someone
+  // and is waiting for an acknowledgement until nextRunAt, when it times out and the fallback runs
+  currentStepId?: string;
+  stepState?: 'pending' | 'awaiting_acknowledgement';
+  nextRunAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+}
+
+// What the protocol matched on, kept with the escalation so a resumed run has the same context
+export interface EscalationAssessment {
+  id?: string;
+  severity?: CrisisSeverity;
+  confidence?: number;
+  indicators: Record<string, boolean>;
+  riskFactors: string[];
 }
 
 export interface EscalationStepExecution {
@@ -66,21 +109,177 @@ export interface ComplianceRecord {
   accessLogged: boolean;
 }
 
+// Who to contact for each step target other than the assigned professional
+export type EscalationContacts = Partial<Record<EscalationStep['target'], NotificationRecipient[]>>;
+
+interface StepOutcome {
+  success: boolean;
+  error?: string;
+  channels?: NotificationChannelType[];
+  receipts?: DeliveryReceipt[];
+}
+
+// Channels tried for a step when its metadata doesn't list them. There is no voice channel,
+// so 'call' falls back to the fastest text channels.
+const METHOD_CHANNELS: Record<EscalationStep['method'], NotificationChannelType[]> = {
+  message: ['in_app', 'email'],
+  alert: ['sms', 'push', 'email', 'in_app'],
+  call: ['sms', 'email'],
+  transfer: ['in_app'],
+};
+
+const NOTIFICATION_PRIORITY: Record<EscalationRecord['priority'], NotificationPriority> = {
+  routine: 'normal',
+  urgent: 'high',
+  emergency: 'critical',
+};
+
+// How long protocols are cached before being re-read, so versions published on another instance take effect
+const PROTOCOL_REFRESH_MS = 60 * 1000;
+
+// The actor recorded for changes made by the service itself rather than through the admin API
+const SYSTEM_ACTOR = 'system';
+
+const AUDITED_FIELDS: (keyof EscalationProtocol)[] = [
+  'name',
+  'priority',
+  'responseTime',
+  'triggerConditions',
+  'escalationPath',
+  'requiredApprovals',
+  'complianceRequirements',
+  'active',
+];
+
+/**
+ * Contacts from ESCALATION_CONTACTS, e.g.
+ * `{"crisis_team":[{"id":"oncall","email":"oncall@example.org","phone":"+15550100"}]}`
+ */
+export function getEscalationContactsFromEnv(): EscalationContacts {
+  if (!process.env.ESCALATION_CONTACTS) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(process.env.ESCALATION_CONTACTS);
+  } catch {
+    throw new Error('ESCALATION_CONTACTS must be a JSON object keyed by escalation target');
+  }
+}
+
+export function professionalRecipient(professional: Professional): NotificationRecipient {
+  return {
+    id: professional.id,
+    name: professional.name,
+    email: professional.contactMethods.email || professional.email,
+    phone: professional.contactMethods.sms,
+    pushToken: professional.contactMethods.pushToken,
+    userId: professional.contactMethods.appId,
+  };
+}
+
+let defaultService: SafetyEscalationService | null = null;
+
+/**
+ * Shared service for this process, so routes and the step scheduler use the same protocols and store
+ */
+export function getSafetyEscalationService(): SafetyEscalationService {
+  if (!defaultService) {
+    defaultService = new SafetyEscalationService();
+  }
+  return defaultService;
+}
+
+/**
+ * Finds a step anywhere in the protocol, including nested fallbacks
+ */
+function findStep(protocol: EscalationProtocol, stepId?: string): EscalationStep | null {
+  for (const root of protocol.escalationPath) {
+    for (let step: EscalationStep | null = root; step; step = step.fallback) {
+      if (step.stepId === stepId) return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fields that differ between two definitions of a protocol, for the audit trail
+ */
+function protocolChanges(
+  before: EscalationProtocol | undefined,
+  after: EscalationProtocol
+): ProtocolAuditEntry['changes'] {
+  const changes: ProtocolAuditEntry['changes'] = {};
+  for (const field of AUDITED_FIELDS) {
+    if (JSON.stringify(before?.[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before?.[field], to: after[field] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * The step to try after `stepId` fails or times out: its fallback, otherwise the next step on the path
+ */
+function nextStep(protocol: EscalationProtocol, stepId: string): EscalationStep | null {
+  for (let i = 0; i < protocol.escalationPath.length; i++) {
+    for (let step: EscalationStep | null = protocol.escalationPath[i]; step; step = step.fallback) {
+      if (step.stepId === stepId) {
+        return step.fallback || protocol.escalationPath[i + 1] || null;
+      }
+    }
+  }
+  return null;
+}
+
 export class SafetyEscalationService {
   private protocols: Map<string, EscalationProtocol> = new Map();
-  private activeEscalations: Map<string, EscalationRecord> = new Map();
+  private protocolsLoaded: Promise<void> | null = null;
+  private protocolsLoadedAt = 0;
   private professionalService: ProfessionalNetworkService;
   private communicationService: SecureCommunicationService;
+  private dispatcher: NotificationDispatcher;
+  private contacts: EscalationContacts;
+  private store: EscalationStore;
+  private scheduler: EscalationScheduler;
 
   constructor(
     professionalService?: ProfessionalNetworkService,
-    communicationService?: SecureCommunicationService
+    communicationService?: SecureCommunicationService,
+    dispatcher?: NotificationDispatcher,
+    contacts?: EscalationContacts,
+    store?: EscalationStore
   ) {
     this.professionalService = professionalService || new ProfessionalNetworkService();
     this.communicationService = communicationService || new SecureCommunicationService();
+    this.dispatcher = dispatcher || getNotificationDispatcher();
+    this.contacts = contacts || getEscalationContactsFromEnv();
+    this.store = store || getEscalationStore();
+    this.scheduler = new EscalationScheduler(
+      this.store,
+      (escalation, workerId, leaseMs) => this.advance(escalation, workerId, leaseMs)
+    );
     this.initializeDefaultProtocols();
   }
 
+  /**
+   * Start running step timers, including ones left pending by a previous process
+   */
+  start(): void {
+    this.scheduler.start();
+  }
+
+  stop(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * Run every step or acknowledgement deadline that is due now. Returns how many escalations advanced.
+   */
+  async processDueEscalations(): Promise<number> {
+    return this.scheduler.processDue();
+  }
+
   private initializeDefaultProtocols() {
     // Critical suicide ideation protocol
     const criticalProtocol: EscalationProtocol = {
@@ -115,7 +314,8 @@ export class SafetyEscalationService {
       ],
       requiredApprovals: [],
       complianceRequirements: ['hipaa', 'crisis_response', 'audit_trail'],
-      active: true
+      active: true,
+      version: 1
     };
 
     // High-risk protocol
@@ -149,7 +349,8 @@ export class SafetyEscalationService {
       ],
       requiredApprovals: [],
       complianceRequirements: ['hipaa', 'professional_standards'],
-      active: true
+      active: true,
+      version: 1
     };
 
     // Medium-risk protocol
@@ -175,7 +376,8 @@ export class SafetyEscalationService {
       ],
       requiredApprovals: [],
       complianceRequirements: ['hipaa'],
-      active: true
+      active: true,
+      version: 1
     };
 
     this.protocols.set(criticalProtocol.id, criticalProtocol);
@@ -183,14 +385,58 @@ export class SafetyEscalationService {
     this.protocols.set(mediumRiskProtocol.id, mediumRiskProtocol);
   }
 
+  /**
+   * Merge persisted protocols over the built-in defaults, seeding any default the store doesn't have yet
+   * as published version 1. Re-read periodically; retried on the next call if the store was unreachable.
+   */
+  private loadProtocols(): Promise<void> {
+    if (!this.protocolsLoaded || Date.now() - this.protocolsLoadedAt > PROTOCOL_REFRESH_MS) {
+      this.protocolsLoadedAt = Date.now();
+      this.protocolsLoaded = (async () => {
+        const persisted = await this.store.listProtocols();
+        const persistedIds = new Set(persisted.map(protocol => protocol.id));
+
+        for (const protocol of this.protocols.values()) {
+          if (!persistedIds.has(protocol.id)) {
+            const now = new Date();
+            await this.store.saveProtocolVersion({
+              protocolId: protocol.id,
+              version: protocol.version,
+              definition: protocol,
+              status: 'published',
+              note: 'Built-in default',
+              createdBy: SYSTEM_ACTOR,
+              createdAt: now,
+              publishedBy: SYSTEM_ACTOR,
+              publishedAt: now
+            });
+            await this.store.saveProtocol(protocol);
+          }
+        }
+        persisted.forEach(protocol => this.protocols.set(protocol.id, protocol));
+      })().catch(error => {
+        this.protocolsLoaded = null;
+        throw error;
+      });
+    }
+    return this.protocolsLoaded;
+  }
+
   async evaluateEscalation(
     userId: string,
     sessionId: string,
     crisisAssessment: any
   ): Promise<EscalationRecord | null> {
     try {
+      await this.loadProtocols();
+
       // Find matching protocol
-      const matchingProtocol = this.findMatchingProtocol(crisisAssessment);
+      const matchingProtocol = matchProtocol(this.protocols.values(), {
+        severity: crisisAssessment.severity,
+        confidence: crisisAssessment.confidence,
+        indicators: crisisAssessment.indicators || {},
+        riskFactors: crisisAssessment.riskFactors || []
+      })?.protocol;
 
       if (!matchingProtocol) {
         logger.info({
@@ -204,15 +450,17 @@ export class SafetyEscalationService {
 
       // Create escalation record
       const escalationId = `escalation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const startedAt = new Date();
       const escalationRecord: EscalationRecord = {
         id: escalationId,
         userId,
         sessionId,
         crisisAssessmentId: crisisAssessment.id || `assessment-${Date.now()}`,
         protocolId: matchingProtocol.id,
+        protocolVersion: matchingProtocol.version,
         status: 'initiated',
         priority: matchingProtocol.priority,
-        startedAt: new Date(),
+        startedAt,
         steps: [],
         outcome: 'pending',
         compliance: {
@@ -221,17 +469,28 @@ export class SafetyEscalationService {
           dataEncrypted: true,
           retentionPolicy: '7_years_crisis_data',
           accessLogged: true
-        }
+        },
+        assessment: {
+          id: crisisAssessment.id,
+          severity: crisisAssessment.severity,
+          confidence: crisisAssessment.confidence,
+          indicators: crisisAssessment.indicators || {},
+          riskFactors: crisisAssessment.riskFactors || []
+        },
+        currentStepId: matchingProtocol.escalationPath[0]?.stepId,
+        stepState: 'pending',
+        nextRunAt: startedAt
       };
 
-      this.activeEscalations.set(escalationId, escalationRecord);
+      // Persisted before anything runs, so the scheduler finishes the protocol if this process dies
+      await this.store.create(escalationRecord);
 
-      // Execute escalation protocol asynchronously
-      this.executeEscalation(escalationRecord, matchingProtocol, crisisAssessment)
+      // Run the first step now instead of waiting for the next scheduler poll
+      this.scheduler.runNow(escalationId)
         .catch(error => {
           logger.error({
             escalationId,
-            error: error.message
+            error: error instanceof Error ? error.message : 'Unknown error'
           }, 'Escalation execution failed');
         });
 
@@ -255,124 +514,123 @@ export class SafetyEscalationService {
     }
   }
 
-  private findMatchingProtocol(crisisAssessment: any): EscalationProtocol | null {
-    let bestMatch: EscalationProtocol | null = null;
-    let bestScore = 0;
-
-    for (const protocol of this.protocols.values()) {
-      if (!protocol.active) continue;
-
-      const score = this.evaluateProtocolMatch(protocol, crisisAssessment);
-      if (score > bestScore && score >= 0.5) { // Minimum threshold for match
-        bestMatch = protocol;
-        bestScore = score;
-      }
+  /**
+   * The protocol version the escalation started on, or the live protocol if that version is gone
+   */
+  private async protocolFor(escalation: EscalationRecord): Promise<EscalationProtocol | undefined> {
+    const live = this.protocols.get(escalation.protocolId);
+    if (!escalation.protocolVersion || live?.version === escalation.protocolVersion) {
+      return live;
     }
 
-    return bestMatch;
+    const pinned = await this.store.getProtocolVersion(escalation.protocolId, escalation.protocolVersion);
+    return pinned?.definition ?? live;
   }
 
-  private evaluateProtocolMatch(protocol: EscalationProtocol, assessment: any): number {
-    let totalScore = 0;
-    let totalWeight = 0;
-
-    for (const condition of protocol.triggerConditions) {
-      const conditionMet = this.evaluateCondition(condition, assessment);
-      if (conditionMet) {
-        totalScore += condition.weight;
-      }
-      totalWeight += condition.weight;
-    }
-
-    return totalWeight > 0 ? totalScore / totalWeight : 0;
-  }
-
-  private evaluateCondition(condition: CrisisCondition, assessment: any): boolean {
-    const { type, operator, value } = condition;
-    let actualValue: any;
-
-    switch (type) {
-      case 'confidence':
-        actualValue = assessment.confidence;
-        break;
-      case 'severity':
-        actualValue = assessment.severity;
-        break;
-      case 'indicator':
-        actualValue = assessment.indicators[value];
-        break;
-      case 'pattern':
-        actualValue = assessment.riskFactors.some((factor: string) =>
-          factor.toLowerCase().includes(value.toLowerCase())
-        );
-        break;
-      default:
-        return false;
-    }
-
-    switch (operator) {
-      case 'gt': return actualValue > value;
-      case 'gte': return actualValue >= value;
-      case 'lt': return actualValue < value;
-      case 'lte': return actualValue <= value;
-      case 'eq': return actualValue === value;
-      case 'contains': return actualValue === true; // For boolean indicators
-      default: return false;
-    }
-  }
+  /**
+   * Runs the escalation forward until it has to wait: a step reached someone and awaits acknowledgement,
+   * or the protocol is finished. Every step is checkpointed, so a crash resumes at the step in progress.
+   */
+  private async advance(escalation: EscalationRecord, workerId: string, leaseMs: number): Promise<void> {
+    await this.loadProtocols();
+    const protocol = await this.protocolFor(escalation);
+
+    while (
+      ACTIVE_ESCALATION_STATUSES.includes(escalation.status)
+      && escalation.nextRunAt
+      && escalation.nextRunAt.getTime() <= Date.now()
+    ) {
+      const step = protocol ? findStep(protocol, escalation.currentStepId) : null;
+      const executedBefore = escalation.steps.length;
+
+      if (!protocol || !step) {
+        logger.error({
+          escalationId: escalation.id,
+          protocolId: escalation.protocolId,
+          stepId: escalation.currentStepId
+        }, 'Escalation step no longer exists in its protocol');
+        this.moveTo(escalation, null);
 
-  private async executeEscalation(
-    escalation: EscalationRecord,
-    protocol: EscalationProtocol,
-    assessment: any
-  ): Promise<void> {
-    escalation.status = 'in_progress';
+      } else if (escalation.stepState === 'awaiting_acknowledgement') {
+        escalation.steps.push({
+          stepId: step.stepId,
+          executedAt: new Date(),
+          success: false,
+          error: `Not acknowledged within ${step.timeout} minute(s)`,
+          metadata: { timedOut: true }
+        });
 
-    for (const step of protocol.escalationPath) {
-      try {
-        const stepExecution = await this.executeEscalationStep(step, escalation, assessment);
+        logger.warn({
+          escalationId: escalation.id,
+          stepId: step.stepId,
+          timeout: step.timeout
+        }, 'Escalation step not acknowledged in time');
+        this.moveTo(escalation, nextStep(protocol, step.stepId));
 
+      } else {
+        escalation.status = 'in_progress';
+        const stepExecution = await this.executeEscalationStep(step, escalation);
         escalation.steps.push(stepExecution);
 
-        if (!stepExecution.success && step.fallback) {
-          // Execute fallback step
-          const fallbackExecution = await this.executeEscalationStep(step.fallback, escalation, assessment);
-          escalation.steps.push(fallbackExecution);
-        }
-
-        // Check if escalation should continue based on priority and timeouts
-        if (protocol.priority === 'emergency' && stepExecution.success) {
-          break; // Emergency protocols may stop at first successful contact
+        if (stepExecution.success) {
+          escalation.stepState = 'awaiting_acknowledgement';
+          escalation.nextRunAt = new Date(Date.now() + step.timeout * 60 * 1000);
+        } else {
+          if (step.fallback) {
+            logger.warn({
+              escalationId: escalation.id,
+              stepId: step.stepId,
+              fallbackStepId: step.fallback.stepId,
+              error: stepExecution.error
+            }, 'Escalation step failed, running fallback');
+          }
+          this.moveTo(escalation, nextStep(protocol, step.stepId));
         }
+      }
 
-      } catch (error) {
-        logger.error({
+      const saved = await this.store.checkpoint(escalation, workerId, escalation.steps.slice(executedBefore), leaseMs);
+      if (!saved) {
+        logger.warn({
           escalationId: escalation.id,
-          stepId: step.stepId,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        }, 'Escalation step failed');
-
-        // Continue to next step even if current step fails
+          workerId
+        }, 'Escalation was closed or reclaimed while running, stopping');
+        return;
       }
     }
+  }
 
-    // Mark escalation as completed
-    escalation.status = 'escalated';
+  /**
+   * Queue `step` to run immediately, or finish the protocol when there is nothing left to try
+   */
+  private moveTo(escalation: EscalationRecord, step: EscalationStep | null): void {
+    if (step) {
+      escalation.currentStepId = step.stepId;
+      escalation.stepState = 'pending';
+      escalation.nextRunAt = new Date();
+      return;
+    }
+
+    // Someone was reached along the way, but nobody acknowledged before the last step timed out
+    const contactMade = escalation.steps.some(execution => execution.success);
+    escalation.status = contactMade ? 'escalated' : 'failed';
+    escalation.outcome = contactMade ? 'unacknowledged' : 'no_contact_made';
     escalation.resolvedAt = new Date();
-    escalation.outcome = 'protocol_executed';
+    escalation.currentStepId = undefined;
+    escalation.stepState = undefined;
+    escalation.nextRunAt = undefined;
 
-    logger.info({
+    logger[contactMade ? 'warn' : 'error']({
       escalationId: escalation.id,
       stepsExecuted: escalation.steps.length,
       outcome: escalation.outcome
-    }, 'Escalation protocol completed');
+    }, contactMade ? 'Escalation protocol completed without acknowledgement' : 'Escalation protocol reached nobody');
   }
 
   private async executeEscalationStep(
     step: EscalationStep,
-    escalation: EscalationRecord,
-    assessment: any
+    escalation: EscalationRecord
   ): Promise<EscalationStepExecution> {
+    const { assessment } = escalation;
     const execution: EscalationStepExecution = {
       stepId: step.stepId,
       executedAt: new Date(),
@@ -381,27 +639,31 @@ export class SafetyEscalationService {
     };
 
     try {
+      let outcome: StepOutcome;
+
       switch (step.action) {
-        case 'alert':
-          execution.success = await this.sendAlert(step, escalation, assessment);
-          break;
-        case 'notify':
-          execution.success = await this.sendNotification(step, escalation, assessment);
-          break;
         case 'assign':
-          execution.success = await this.assignProfessional(step, escalation, assessment);
+          // An assignment nobody is told about hasn't reached anyone, so the assignee must be notified too
+          outcome = await this.assignProfessional(step, escalation, assessment)
+            ? await this.notifyTarget(step, escalation, assessment)
+            : { success: false, error: 'No professional could be assigned' };
           break;
+        case 'alert':
+        case 'notify':
         case 'escalate':
-          execution.success = await this.escalateToSupervisor(step, escalation, assessment);
-          break;
         case 'intervene':
-          execution.success = await this.initiateIntervention(step, escalation, assessment);
+          outcome = await this.notifyTarget(step, escalation, assessment);
           break;
         default:
-          execution.success = false;
-          execution.error = `Unknown action: ${step.action}`;
+          outcome = { success: false, error: `Unknown action: ${step.action}` };
       }
 
+      execution.success = outcome.success;
+      execution.error = outcome.error;
+      if (outcome.receipts) {
+        execution.metadata.channels = outcome.channels;
+        execution.metadata.receipts = outcome.receipts;
+      }
       execution.response = execution.success ? 'Action completed successfully' : 'Action failed';
 
     } catch (error) {
@@ -412,34 +674,101 @@ export class SafetyEscalationService {
     return execution;
   }
 
-  private async sendAlert(step: EscalationStep, escalation: EscalationRecord, assessment: any): Promise<boolean> {
-    // Implementation for sending alerts via multiple channels
-    // This would integrate with SMS, email, push notification services
-    logger.info({
-      escalationId: escalation.id,
-      stepId: step.stepId,
-      channels: step.metadata.channels,
-      target: step.target
-    }, 'Sending crisis alert');
+  /**
+   * Notifies everyone behind the step's target over the step's channels, bounded by the step timeout.
+   * The step succeeds if any recipient received it on any channel.
+   */
+  private async notifyTarget(
+    step: EscalationStep,
+    escalation: EscalationRecord,
+    assessment: EscalationAssessment
+  ): Promise<StepOutcome> {
+    const recipients = this.resolveRecipients(step, escalation);
+    if (recipients.length === 0) {
+      return {
+        success: false,
+        error: step.target === 'professional'
+          ? 'No professional assigned to notify'
+          : `No ${step.target} contacts configured`
+      };
+    }
 
-    // Placeholder implementation
-    return true;
-  }
+    const channels: NotificationChannelType[] = step.metadata.channels || METHOD_CHANNELS[step.method];
+    const results = await Promise.all(recipients.map(recipient =>
+      this.dispatcher.dispatch({
+        id: randomUUID(),
+        recipient,
+        escalationId: escalation.id,
+        priority: NOTIFICATION_PRIORITY[escalation.priority],
+        subject: `Crisis escalation (${escalation.priority}) requires your attention`,
+        body: this.composeNotificationBody(step, escalation, assessment),
+        metadata: { stepId: step.stepId, action: step.action, target: step.target }
+      }, { channels, timeoutMs: step.timeout * 60 * 1000 })
+    ));
+
+    const receipts = results.flatMap(result => result.receipts);
+    const success = results.some(result => result.delivered);
 
-  private async sendNotification(step: EscalationStep, escalation: EscalationRecord, assessment: any): Promise<boolean> {
-    // Implementation for notifications (calls, messages, etc.)
     logger.info({
       escalationId: escalation.id,
       stepId: step.stepId,
-      method: step.method,
-      target: step.target
-    }, 'Sending crisis notification');
+      target: step.target,
+      recipients: recipients.length,
+      channels,
+      delivered: success
+    }, 'Escalation notifications dispatched');
+
+    return {
+      success,
+      channels,
+      receipts,
+      error: success ? undefined : receipts
+        .map(receipt => `${receipt.recipientId}/${receipt.channel}: ${receipt.error}`)
+        .join('; ')
+    };
+  }
 
-    // Placeholder implementation
-    return true;
+  private resolveRecipients(step: EscalationStep, escalation: EscalationRecord): NotificationRecipient[] {
+    if (step.target !== 'professional') {
+      return this.contacts[step.target] || [];
+    }
+
+    const professional = escalation.professionalId
+      ? this.professionalService.getProfessionalById(escalation.professionalId)
+      : null;
+    return professional ? [professionalRecipient(professional)] : [];
+  }
+
+  // Identifiers and the assessment summary only; message content stays in the secure channel
+  private composeNotificationBody(
+    step: EscalationStep,
+    escalation: EscalationRecord,
+    assessment: EscalationAssessment
+  ): string {
+    const indicators = Object.keys(assessment.indicators || {}).filter(key => assessment.indicators[key]);
+
+    return [
+      `A crisis escalation (${escalation.priority}) needs a response within ${step.timeout} minute(s).`,
+      '',
+      `Escalation: ${escalation.id}`,
+      `User: ${escalation.userId}`,
+      `Severity: ${assessment.severity || 'unknown'}`,
+      `Confidence: ${typeof assessment.confidence === 'number' ? assessment.confidence.toFixed(2) : 'unknown'}`,
+      ...(indicators.length > 0 ? [`Indicators: ${indicators.join(', ')}`] : []),
+      ...(escalation.channelId ? [`Secure channel: ${escalation.channelId}`] : []),
+    ].join('\n');
   }
 
-  private async assignProfessional(step: EscalationStep, escalation: EscalationRecord, assessment: any): Promise<boolean> {
+  private async assignProfessional(
+    step: EscalationStep,
+    escalation: EscalationRecord,
+    assessment: EscalationAssessment
+  ): Promise<boolean> {
+    // Already assigned before a restart interrupted this step; don't assign a second professional
+    if (escalation.professionalId) {
+      return true;
+    }
+
     try {
       // Use professional network service to find best match
       const matchCriteria = {
@@ -522,47 +851,48 @@ export class SafetyEscalationService {
     return specialties;
   }
 
-  private async escalateToSupervisor(step: EscalationStep, escalation: EscalationRecord, assessment: any): Promise<boolean> {
-    // Implementation for supervisor escalation
-    logger.info({
-      escalationId: escalation.id,
-      stepId: step.stepId
-    }, 'Escalating to supervisor');
-
-    // Placeholder implementation
-    return true;
+  // Public methods for managing protocols and escalations
+  async getActiveEscalations(): Promise<EscalationRecord[]> {
+    return this.store.list({ status: ACTIVE_ESCALATION_STATUSES });
   }
 
-  private async initiateIntervention(step: EscalationStep, escalation: EscalationRecord, assessment: any): Promise<boolean> {
-    // Implementation for direct intervention
-    logger.info({
-      escalationId: escalation.id,
-      stepId: step.stepId
-    }, 'Initiating direct intervention');
-
-    // Placeholder implementation
-    return true;
+  async getEscalationById(id: string): Promise<EscalationRecord | null> {
+    return this.store.get(id);
   }
 
-  // Public methods for managing protocols and escalations
-  getActiveEscalations(): EscalationRecord[] {
-    return Array.from(this.activeEscalations.values()).filter(
-      escalation => escalation.status === 'initiated' || escalation.status === 'in_progress'
-    );
+  async getEscalationHistory(query: EscalationHistoryQuery = {}): Promise<EscalationRecord[]> {
+    return this.store.list(query);
   }
 
-  getEscalationById(id: string): EscalationRecord | null {
-    return this.activeEscalations.get(id) || null;
+  /**
+   * A responder has picked the escalation up. Stops the step timer so no further steps or fallbacks run.
+   */
+  async acknowledgeEscalation(id: string, acknowledgedBy: string): Promise<boolean> {
+    const escalation = await this.store.transition(id, ACTIVE_ESCALATION_STATUSES, {
+      status: 'escalated',
+      outcome: 'acknowledged',
+      acknowledgedAt: new Date(),
+      acknowledgedBy
+    });
+    if (!escalation) return false;
+
+    logger.info({
+      escalationId: id,
+      stepId: escalation.currentStepId,
+      acknowledgedBy
+    }, 'Escalation acknowledged');
+
+    return true;
   }
 
-  resolveEscalation(id: string, outcome: string): boolean {
-    const escalation = this.activeEscalations.get(id);
+  async resolveEscalation(id: string, outcome: string): Promise<boolean> {
+    const escalation = await this.store.transition(id, ['initiated', 'in_progress', 'escalated', 'failed'], {
+      status: 'resolved',
+      resolvedAt: new Date(),
+      outcome
+    });
     if (!escalation) return false;
 
-    escalation.status = 'resolved';
-    escalation.resolvedAt = new Date();
-    escalation.outcome = outcome;
-
     logger.info({
       escalationId: id,
       outcome
@@ -571,19 +901,182 @@ export class SafetyEscalationService {
     return true;
   }
 
-  getAllProtocols(): EscalationProtocol[] {
+  async getAllProtocols(): Promise<EscalationProtocol[]> {
+    await this.loadProtocols();
     return Array.from(this.protocols.values());
   }
 
-  updateProtocol(protocol: EscalationProtocol): boolean {
+  async getProtocol(id: string): Promise<EscalationProtocol | null> {
+    await this.loadProtocols();
+    return this.protocols.get(id) || null;
+  }
+
+  /**
+   * Publish a changed definition of an existing protocol straight away, as a new version.
+   * Throws ProtocolValidationError.
+   */
+  async updateProtocol(protocol: EscalationProtocol, actorId: string = SYSTEM_ACTOR): Promise<boolean> {
+    await this.loadProtocols();
     if (!this.protocols.has(protocol.id)) return false;
 
-    this.protocols.set(protocol.id, protocol);
+    // Its own version, so an open draft isn't overwritten
+    const version = await this.writeVersion(protocol, actorId);
+    await this.publishProtocolVersion(protocol.id, version.version, actorId);
+    return true;
+  }
+
+  async getProtocolVersions(protocolId: string): Promise<ProtocolVersion[]> {
+    return this.store.listProtocolVersions(protocolId);
+  }
+
+  async getProtocolVersion(protocolId: string, version: number): Promise<ProtocolVersion | null> {
+    return this.store.getProtocolVersion(protocolId, version);
+  }
+
+  /**
+   * Save an edit without affecting live escalations. A protocol has at most one open draft, which
+   * further edits overwrite; a new protocol's first draft creates it. Throws ProtocolValidationError.
+   */
+  async saveProtocolDraft(definition: EscalationProtocol, actorId: string, note?: string): Promise<ProtocolVersion> {
+    await this.loadProtocols();
+    const [latest] = await this.store.listProtocolVersions(definition.id);
+    const openDraft = latest?.status === 'draft' ? latest : undefined;
+
+    const draft = await this.writeVersion(definition, actorId, note, openDraft);
+    await this.store.appendProtocolAudit({
+      protocolId: definition.id,
+      version: draft.version,
+      action: 'draft_saved',
+      actorId,
+      changes: protocolChanges(openDraft?.definition ?? this.protocols.get(definition.id), draft.definition)
+    });
+
     logger.info({
-      protocolId: protocol.id,
-      protocolName: protocol.name
-    }, 'Escalation protocol updated');
+      protocolId: definition.id,
+      version: draft.version,
+      actorId
+    }, 'Escalation protocol draft saved');
 
-    return true;
+    return draft;
   }
-}
\ No newline at end of file
+
+  /**
+   * Make a draft the live protocol. New escalations use it at once; running ones finish on the
+   * version they started with. Returns null if the version doesn't exist or isn't a draft.
+   */
+  async publishProtocolVersion(
+    protocolId: string,
+    version: number,
+    actorId: string
+  ): Promise<EscalationProtocol | null> {
+    await this.loadProtocols();
+    const previous = this.protocols.get(protocolId);
+    const published = await this.publishVersion(protocolId, version, actorId);
+    if (!published) return null;
+
+    await this.store.appendProtocolAudit({
+      protocolId,
+      version,
+      action: 'published',
+      actorId,
+      changes: protocolChanges(previous, published)
+    });
+
+    logger.info({
+      protocolId,
+      protocolName: published.name,
+      version,
+      previousVersion: previous?.version,
+      actorId
+    }, 'Escalation protocol published');
+
+    return published;
+  }
+
+  /**
+   * Switch a live protocol on or off, published at once as a new version. An open draft is left
+   * alone and still carries the setting it was drafted with.
+   */
+  async setProtocolActive(protocolId: string, active: boolean, actorId: string): Promise<EscalationProtocol | null> {
+    await this.loadProtocols();
+    const live = this.protocols.get(protocolId);
+    if (!live) return null;
+    if (live.active === active) return live;
+
+    const version = await this.writeVersion({ ...live, active }, actorId, active ? 'Activated' : 'Deactivated');
+    const published = await this.publishVersion(protocolId, version.version, actorId);
+    if (!published) return null;
+
+    await this.store.appendProtocolAudit({
+      protocolId,
+      version: version.version,
+      action: active ? 'activated' : 'deactivated',
+      actorId,
+      changes: { active: { from: live.active, to: active } }
+    });
+
+    logger.info({
+      protocolId,
+      version: version.version,
+      active,
+      actorId
+    }, active ? 'Escalation protocol activated' : 'Escalation protocol deactivated');
+
+    return published;
+  }
+
+  /**
+   * Validate and store a draft, overwriting `openDraft` if given, otherwise as the next version number
+   */
+  private async writeVersion(
+    definition: EscalationProtocol,
+    actorId: string,
+    note?: string,
+    openDraft?: ProtocolVersion
+  ): Promise<ProtocolVersion> {
+    const issues = validateProtocol(definition);
+    if (issues.length > 0) {
+      throw new ProtocolValidationError(issues);
+    }
+
+    let version = openDraft?.version;
+    if (!version) {
+      // Protocols persisted before versioning have a live version but no version rows
+      const [latest] = await this.store.listProtocolVersions(definition.id);
+      version = Math.max(latest?.version ?? 0, this.protocols.get(definition.id)?.version ?? 0) + 1;
+    }
+
+    const draft: ProtocolVersion = {
+      protocolId: definition.id,
+      version,
+      definition: { ...definition, version },
+      status: 'draft',
+      note,
+      createdBy: openDraft?.createdBy ?? actorId,
+      createdAt: openDraft?.createdAt ?? new Date()
+    };
+    await this.store.saveProtocolVersion(draft);
+    return draft;
+  }
+
+  private async publishVersion(protocolId: string, version: number, actorId: string): Promise<EscalationProtocol | null> {
+    const draft = await this.store.getProtocolVersion(protocolId, version);
+    if (!draft || draft.status !== 'draft') return null;
+
+    // Drafts are validated when saved, but may predate a rule
+    const issues = validateProtocol(draft.definition);
+    if (issues.length > 0) {
+      throw new ProtocolValidationError(issues);
+    }
+
+    const published = await this.store.publishProtocolVersion(protocolId, version, actorId);
+    if (published) {
+      this.protocols.set(protocolId, published);
+    }
+    return published;
+  }
+
+  async getProtocolAuditTrail(query: ProtocolAuditQuery = {}): Promise<ProtocolAuditEntry[]> {
+    return this.store.listProtocolAudit(query);
+  }
+}
@@ -1,5 +1,5 @@
 import { logger } from '@/lib/logger';
-import { CrisisDetectionService } from './CrisisDetectionService';
+import { CrisisDetectionEngine, getCrisisDetectionEngine } from '@/services/crisis-detection';
 import { SafetyEscalationService } from './SafetyEscalationService';
 
 export interface SafetyMetrics {
@@ -70,14 +70,14 @@ export class SafetyMonitoringService {
   private safetyEvents: SafetyEvent[] = [];
   private activeAlerts: SafetyAlert[] = [];
   private thresholds: SafetyThresholds;
-  private crisisService: CrisisDetectionService;
+  private crisisEngine: CrisisDetectionEngine;
   private escalationService: SafetyEscalationService;
 
   constructor(
-    crisisService?: CrisisDetectionService,
+    crisisEngine?: CrisisDetectionEngine,
     escalationService?: SafetyEscalationService
   ) {
-    this.crisisService = crisisService || new CrisisDetectionService();
+    this.crisisEngine = crisisEngine || getCrisisDetectionEngine();
     this.escalationService = escalationService || new SafetyEscalationService();
 
     this.thresholds = {
@@ -0,0 +1,131 @@
+import type { CrisisCondition } from '../SafetyEscalationService';
+import { CONDITION_TYPES } from './ProtocolDefinition';
+
+/**
+ * A one-condition-per-line syntax for trigger conditions, used by the protocol editor:
+ *
+ *   # Lines starting with # are comments
+ *   indicator contains suicideIdeation weight 1
+ *   severity >= high weight 0.9
+ *   confidence > 0.8
+ *   pattern contains "recent loss" weight 0.5
+ *
+ * Weight defaults to 1. Parsing only checks syntax; `validateConditions` checks that
+ * operators suit the condition type and values are in range.
+ */
+
+export interface ConditionDslError {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface ConditionDslResult {
+  conditions: CrisisCondition[];
+  errors: ConditionDslError[];
+}
+
+const OPERATOR_ALIASES: Record<string, CrisisCondition['operator']> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  '=': 'eq',
+  '==': 'eq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  eq: 'eq',
+  contains: 'contains',
+};
+
+const OPERATOR_SYMBOLS: Partial<Record<CrisisCondition['operator'], string>> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+};
+
+const LINE_PATTERN = /^(\S+)\s+(\S+)\s+("(?:[^"\\]|\\.)*"|\S+)(?:\s+weight\s+(\S+))?$/i;
+
+function parseValue(type: CrisisCondition['type'], raw: string): string | number {
+  if (raw.startsWith('"')) {
+    return JSON.parse(raw);
+  }
+  return type === 'confidence' ? Number(raw) : raw;
+}
+
+export function parseConditionDsl(source: string): ConditionDslResult {
+  const conditions: CrisisCondition[] = [];
+  const errors: ConditionDslError[] = [];
+
+  source.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) return;
+
+    const match = LINE_PATTERN.exec(line);
+    if (!match) {
+      errors.push({ line: index + 1, message: 'Expected "<type> <operator> <value> [weight <number>]"' });
+      return;
+    }
+
+    const [, type, operator, rawValue, rawWeight] = match;
+    if (!CONDITION_TYPES.includes(type as CrisisCondition['type'])) {
+      errors.push({ line: index + 1, message: `Unknown condition type "${type}"; use ${CONDITION_TYPES.join(', ')}` });
+      return;
+    }
+
+    const normalizedOperator = OPERATOR_ALIASES[operator.toLowerCase()];
+    if (!normalizedOperator) {
+      errors.push({ line: index + 1, message: `Unknown operator "${operator}"` });
+      return;
+    }
+
+    let value: string | number;
+    try {
+      value = parseValue(type as CrisisCondition['type'], rawValue);
+    } catch {
+      errors.push({ line: index + 1, message: `Malformed quoted value ${rawValue}` });
+      return;
+    }
+    if (typeof value === 'number' && Number.isNaN(value)) {
+      errors.push({ line: index + 1, message: `"${rawValue}" is not a number` });
+      return;
+    }
+
+    const weight = rawWeight === undefined ? 1 : Number(rawWeight);
+    if (Number.isNaN(weight)) {
+      errors.push({ line: index + 1, message: `Weight "${rawWeight}" is not a number` });
+      return;
+    }
+
+    conditions.push({ type: type as CrisisCondition['type'], operator: normalizedOperator, value, weight });
+  });
+
+  return { conditions, errors };
+}
+
+export function formatConditionDsl(conditions: CrisisCondition[]): string {
+  return conditions.map(condition => {
+    const operator = OPERATOR_SYMBOLS[condition.operator] || condition.operator;
+    const value = typeof condition.value === 'string' && !/^[^\s"]\S*$/.test(condition.value)
+      ? JSON.stringify(condition.value)
+      : String(condition.value);
+    const weight = condition.weight === 1 ? '' : ` weight ${condition.weight}`;
+    return `${condition.type} ${operator} ${value}${weight}`;
+  }).join('\n');
+}
+
+/**
+ * Trigger conditions from an API body, which may send them as DSL text or as a list
+ */
+export function readTriggerConditions(input: unknown): ConditionDslResult {
+  if (typeof input === 'string') {
+    return parseConditionDsl(input);
+  }
+  if (Array.isArray(input)) {
+    return { conditions: input as CrisisCondition[], errors: [] };
+  }
+  return { conditions: [], errors: [{ line: 0, message: 'Trigger conditions must be DSL text or a list' }] };
+}
@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { logger } from '@/lib/logger';
+import type { EscalationRecord } from '../SafetyEscalationService';
+import { EscalationStore } from './EscalationStore';
+
+export interface EscalationSchedulerConfig {
+  pollIntervalMs: number;
+  leaseMs: number; // Must outlast one step's notification dispatch; renewed on every checkpoint
+  batchSize: number;
+}
+
+const DEFAULT_CONFIG: EscalationSchedulerConfig = {
+  pollIntervalMs: 5000,
+  leaseMs: 5 * 60 * 1000,
+  batchSize: 10,
+};
+
+/**
+ * Advances one leased escalation as far as it can go right now.
+ * Persists through `EscalationStore.checkpoint` with the given worker id.
+ */
+export type EscalationRunner = (escalation: EscalationRecord, workerId: string, leaseMs: number) => Promise<void>;
+
+/**
+ * Drives escalation step timers. Polls the store for escalations whose next step or acknowledgement
+ * deadline is due, including ones left mid-step by a crashed process once their lease expires.
+ */
+export class EscalationScheduler {
+  readonly workerId = `escalation-${randomUUID()}`;
+
+  private config: EscalationSchedulerConfig;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private store: EscalationStore,
+    private runner: EscalationRunner,
+    config: Partial<EscalationSchedulerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info({ workerId: this.workerId }, 'Escalation scheduler started');
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and advance a specific escalation now, without waiting for the next poll.
+   * Returns false if another worker holds it or it is no longer active.
+   */
+  async runNow(escalationId: string): Promise<boolean> {
+    const escalation = await this.store.claim(escalationId, this.workerId, this.config.leaseMs);
+    if (!escalation) {
+      return false;
+    }
+
+    await this.run(escalation);
+    return true;
+  }
+
+  /**
+   * Advance every due escalation. Returns how many were claimed.
+   */
+  async processDue(): Promise<number> {
+    const due = await this.store.claimDue(this.workerId, this.config.leaseMs, this.config.batchSize);
+    for (const escalation of due) {
+      await this.run(escalation);
+    }
+    return due.length;
+  }
+
+  private async run(escalation: EscalationRecord): Promise<void> {
+    try {
+      await this.runner(escalation, this.workerId, this.config.leaseMs);
+    } catch (error) {
+      // The lease is kept, so the escalation is retried once it expires rather than immediately
+      logger.error({
+        escalationId: escalation.id,
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Escalation run failed');
+      return;
+    }
+
+    await this.store.release(escalation.id, this.workerId);
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    try {
+      while (this.running && await this.processDue() === this.config.batchSize) {
+        // A full batch means more may be due; keep draining before sleeping
+      }
+    } catch (error) {
+      logger.error({
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Escalation scheduler poll failed');
+    } finally {
+      if (this.running) {
+        this.schedule(this.config.pollIntervalMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import type {
+  EscalationProtocol,
+  EscalationRecord,
+  EscalationStepExecution,
+} from '../SafetyEscalationService';
+
+export const ACTIVE_ESCALATION_STATUSES: EscalationRecord['status'][] = ['initiated', 'in_progress'];
+
+export interface EscalationHistoryQuery {
+  userId?: string;
+  professionalId?: string;
+  status?: EscalationRecord['status'][];
+  before?: Date; // startedAt cursor for paging back through history
+  limit?: number;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export type ProtocolVersionStatus = 'draft' | 'published' | 'superseded';
+
+/**
+ * One saved edit of a protocol. At most one version per protocol is published: the live one.
+ */
+export interface ProtocolVersion {
+  protocolId: string;
+  version: number;
+  definition: EscalationProtocol;
+  status: ProtocolVersionStatus;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+  publishedBy?: string;
+  publishedAt?: Date;
+}
+
+export type ProtocolAuditAction = 'draft_saved' | 'published' | 'activated' | 'deactivated';
+
+export interface ProtocolAuditEntry {
+  id: string;
+  protocolId: string;
+  version?: number;
+  action: ProtocolAuditAction;
+  actorId: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: Date;
+}
+
+export type NewProtocolAuditEntry = Omit<ProtocolAuditEntry, 'id' | 'createdAt'>;
+
+export interface ProtocolAuditQuery {
+  protocolId?: string;
+  actorId?: string;
+  before?: Date; // createdAt cursor
+  limit?: number;
+}
+
+/**
+ * Durable escalation state. Only a worker holding an escalation's lease may advance it; the lease
+ * lets a scheduler on another process pick up escalations abandoned by a crashed one.
+ */
+export interface EscalationStore {
+  listProtocols(): Promise<EscalationProtocol[]>;
+  saveProtocol(protocol: EscalationProtocol): Promise<void>;
+
+  /**
+   * Insert or overwrite a version, keyed by protocol ID and version number
+   */
+  saveProtocolVersion(version: ProtocolVersion): Promise<void>;
+
+  /**
+   * Newest version first
+   */
+  listProtocolVersions(protocolId: string): Promise<ProtocolVersion[]>;
+  getProtocolVersion(protocolId: string, version: number): Promise<ProtocolVersion | null>;
+
+  /**
+   * Make a draft the live protocol: supersede the published version and copy the draft's definition
+   * onto the protocol. Returns null if the version doesn't exist or isn't a draft.
+   */
+  publishProtocolVersion(protocolId: string, version: number, publishedBy: string): Promise<EscalationProtocol | null>;
+
+  appendProtocolAudit(entry: NewProtocolAuditEntry): Promise<ProtocolAuditEntry>;
+
+  /**
+   * Newest first
+   */
+  listProtocolAudit(query?: ProtocolAuditQuery): Promise<ProtocolAuditEntry[]>;
+
+  create(escalation: EscalationRecord): Promise<void>;
+
+  /**
+   * The escalation with its executed steps, oldest first
+   */
+  get(id: string): Promise<EscalationRecord | null>;
+
+  /**
+   * Newest first
+   */
+  list(query?: EscalationHistoryQuery): Promise<EscalationRecord[]>;
+
+  /**
+   * Every crisis assessment an escalation was started for, closed escalations included
+   */
+  listEscalatedAssessmentIds(): Promise<string[]>;
+
+  /**
+   * Lease one active escalation regardless of when it is due. Returns null if another worker holds it.
+   */
+  claim(id: string, workerId: string, leaseMs: number): Promise<EscalationRecord | null>;
+
+  /**
+   * Lease active escalations whose nextRunAt has passed and that nobody holds (or whose lease expired)
+   */
+  claimDue(workerId: string, leaseMs: number, limit: number): Promise<EscalationRecord[]>;
+
+  /**
+   * Persist progress and new step executions while holding the lease, extending it.
+   * Returns false if the lease was lost (expired and reclaimed, or the escalation was closed).
+   */
+  checkpoint(
+    escalation: EscalationRecord,
+    workerId: string,
+    newSteps: EscalationStepExecution[],
+    leaseMs: number
+  ): Promise<boolean>;
+
+  release(id: string, workerId: string): Promise<void>;
+
+  /**
+   * Apply a change made outside the scheduler (acknowledgement, resolution) if the escalation is
+   * currently in one of `from`. Clears the step timer and any lease so a running worker stops.
+   */
+  transition(
+    id: string,
+    from: EscalationRecord['status'][],
+    changes: Partial<Pick<EscalationRecord, 'status' | 'outcome' | 'resolvedAt' | 'acknowledgedAt' | 'acknowledgedBy'>>
+  ): Promise<EscalationRecord | null>;
+}
@@ -0,0 +1,196 @@
+import type {
+  EscalationProtocol,
+  EscalationRecord,
+  EscalationStepExecution,
+} from '../SafetyEscalationService';
+import { randomUUID } from 'crypto';
+import {
+  EscalationStore,
+  EscalationHistoryQuery,
+  ProtocolVersion,
+  ProtocolAuditEntry,
+  NewProtocolAuditEntry,
+  ProtocolAuditQuery,
+  ACTIVE_ESCALATION_STATUSES,
+  DEFAULT_HISTORY_LIMIT,
+} from './EscalationStore';
+
+interface Lease {
+  workerId: string;
+  expiresAt: number;
+}
+
+/**
+ * Process-local store used by tests and local development without Postgres.
+ * Nothing survives a restart.
+ */
+export class InMemoryEscalationStore implements EscalationStore {
+  private protocols: Map<string, EscalationProtocol> = new Map();
+  private versions: Map<string, ProtocolVersion[]> = new Map();
+  private audit: ProtocolAuditEntry[] = [];
+  private escalations: Map<string, EscalationRecord> = new Map();
+  private leases: Map<string, Lease> = new Map();
+
+  async listProtocols(): Promise<EscalationProtocol[]> {
+    return Array.from(this.protocols.values()).map(protocol => structuredClone(protocol));
+  }
+
+  async saveProtocol(protocol: EscalationProtocol): Promise<void> {
+    this.protocols.set(protocol.id, structuredClone(protocol));
+  }
+
+  async saveProtocolVersion(version: ProtocolVersion): Promise<void> {
+    const versions = (this.versions.get(version.protocolId) || [])
+      .filter(existing => existing.version !== version.version);
+    this.versions.set(version.protocolId, [...versions, structuredClone(version)]);
+  }
+
+  async listProtocolVersions(protocolId: string): Promise<ProtocolVersion[]> {
+    return (this.versions.get(protocolId) || [])
+      .slice()
+      .sort((a, b) => b.version - a.version)
+      .map(version => structuredClone(version));
+  }
+
+  async getProtocolVersion(protocolId: string, version: number): Promise<ProtocolVersion | null> {
+    const found = (this.versions.get(protocolId) || []).find(existing => existing.version === version);
+    return found ? structuredClone(found) : null;
+  }
+
+  async publishProtocolVersion(
+    protocolId: string,
+    version: number,
+    publishedBy: string
+  ): Promise<EscalationProtocol | null> {
+    const versions = this.versions.get(protocolId) || [];
+    const draft = versions.find(existing => existing.version === version);
+    if (!draft || draft.status !== 'draft') {
+      return null;
+    }
+
+    versions
+      .filter(existing => existing.status === 'published')
+      .forEach(existing => { existing.status = 'superseded'; });
+    Object.assign(draft, { status: 'published', publishedBy, publishedAt: new Date() });
+
+    const protocol = { ...structuredClone(draft.definition), version };
+    this.protocols.set(protocolId, protocol);
+    return structuredClone(protocol);
+  }
+
+  async appendProtocolAudit(entry: NewProtocolAuditEntry): Promise<ProtocolAuditEntry> {
+    const saved = { ...structuredClone(entry), id: randomUUID(), createdAt: new Date() };
+    this.audit.push(saved);
+    return structuredClone(saved);
+  }
+
+  async listProtocolAudit(query: ProtocolAuditQuery = {}): Promise<ProtocolAuditEntry[]> {
+    return this.audit
+      .filter(entry =>
+        (!query.protocolId || entry.protocolId === query.protocolId)
+        && (!query.actorId || entry.actorId === query.actorId)
+        && (!query.before || entry.createdAt < query.before))
+      .reverse()
+      .slice(0, query.limit ?? DEFAULT_HISTORY_LIMIT)
+      .map(entry => structuredClone(entry));
+  }
+
+  async create(escalation: EscalationRecord): Promise<void> {
+    this.escalations.set(escalation.id, structuredClone(escalation));
+  }
+
+  async get(id: string): Promise<EscalationRecord | null> {
+    const escalation = this.escalations.get(id);
+    return escalation ? structuredClone(escalation) : null;
+  }
+
+  async list(query: EscalationHistoryQuery = {}): Promise<EscalationRecord[]> {
+    return Array.from(this.escalations.values())
+      .filter(escalation =>
+        (!query.userId || escalation.userId === query.userId)
+        && (!query.professionalId || escalation.professionalId === query.professionalId)
+        && (!query.status || query.status.includes(escalation.status))
+        && (!query.before || escalation.startedAt < query.before))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, query.limit ?? DEFAULT_HISTORY_LIMIT)
+      .map(escalation => structuredClone(escalation));
+  }
+
+  async listEscalatedAssessmentIds(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.escalations.values(), escalation => escalation.crisisAssessmentId)));
+  }
+
+  async claim(id: string, workerId: string, leaseMs: number): Promise<EscalationRecord | null> {
+    const escalation = this.escalations.get(id);
+    if (!escalation || !this.isClaimable(escalation, workerId)) {
+      return null;
+    }
+
+    this.leases.set(id, { workerId, expiresAt: Date.now() + leaseMs });
+    return structuredClone(escalation);
+  }
+
+  async claimDue(workerId: string, leaseMs: number, limit: number): Promise<EscalationRecord[]> {
+    const now = Date.now();
+    const due = Array.from(this.escalations.values())
+      .filter(escalation =>
+        escalation.nextRunAt !== undefined
+        && escalation.nextRunAt.getTime() <= now
+        && this.isClaimable(escalation, workerId))
+      .sort((a, b) => a.nextRunAt!.getTime() - b.nextRunAt!.getTime())
+      .slice(0, limit);
+
+    due.forEach(escalation => this.leases.set(escalation.id, { workerId, expiresAt: now + leaseMs }));
+    return due.map(escalation => structuredClone(escalation));
+  }
+
+  async checkpoint(
+    escalation: EscalationRecord,
+    workerId: string,
+    newSteps: EscalationStepExecution[],
+    leaseMs: number
+  ): Promise<boolean> {
+    const lease = this.leases.get(escalation.id);
+    const stored = this.escalations.get(escalation.id);
+    if (!stored || lease?.workerId !== workerId) {
+      return false;
+    }
+
+    this.escalations.set(escalation.id, structuredClone({
+      ...escalation,
+      steps: [...stored.steps, ...newSteps],
+    }));
+    lease.expiresAt = Date.now() + leaseMs;
+    return true;
+  }
+
+  async release(id: string, workerId: string): Promise<void> {
+    if (this.leases.get(id)?.workerId === workerId) {
+      this.leases.delete(id);
+    }
+  }
+
+  async transition(
+    id: string,
+    from: EscalationRecord['status'][],
+    changes: Partial<EscalationRecord>
+  ): Promise<EscalationRecord | null> {
+    const escalation = this.escalations.get(id);
+    if (!escalation || !from.includes(escalation.status)) {
+      return null;
+    }
+
+    Object.assign(escalation, changes, { nextRunAt: undefined, stepState: undefined });
+    this.leases.delete(id);
+    return structuredClone(escalation);
+  }
+
+  private isClaimable(escalation: EscalationRecord, workerId: string): boolean {
+    if (!ACTIVE_ESCALATION_STATUSES.includes(escalation.status)) {
+      return false;
+    }
+
+    const lease = this.leases.get(escalation.id);
+    return !lease || lease.workerId === workerId || lease.expiresAt < Date.now();
+  }
+}
@@ -0,0 +1,423 @@
+import type {
+  Prisma,
+  EscalationProtocol as ProtocolRow,
+  Escalation as EscalationRow,
+  EscalationStepExecution as StepRow,
+  EscalationProtocolVersion as VersionRow,
+  EscalationProtocolAudit as AuditRow,
+} from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import type {
+  EscalationProtocol,
+  EscalationRecord,
+  EscalationStepExecution,
+} from '../SafetyEscalationService';
+import {
+  EscalationStore,
+  EscalationHistoryQuery,
+  ProtocolVersion,
+  ProtocolAuditEntry,
+  NewProtocolAuditEntry,
+  ProtocolAuditQuery,
+  ACTIVE_ESCALATION_STATUSES,
+  DEFAULT_HISTORY_LIMIT,
+} from './EscalationStore';
+
+/**
+ * Store backed by the `escalations`, `escalation_step_executions`, `escalation_protocols`,
+ * `escalation_protocol_versions` and `escalation_protocol_audit` tables. Claiming uses `FOR UPDATE SKIP LOCKED` so schedulers on several app instances never run the same step.
+ */
+export class PgEscalationStore implements EscalationStore {
+  async listProtocols(): Promise<EscalationProtocol[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.escalationProtocol.findMany({ orderBy: { createdAt: 'asc' } });
+    return rows.map(formatProtocol);
+  }
+
+  async saveProtocol(protocol: EscalationProtocol): Promise<void> {
+    const prisma = await loadPrisma();
+    const data = protocolData(protocol);
+
+    await prisma.escalationProtocol.upsert({
+      where: { id: protocol.id },
+      create: { id: protocol.id, ...data },
+      update: data,
+    });
+  }
+
+  async saveProtocolVersion(version: ProtocolVersion): Promise<void> {
+    const prisma = await loadPrisma();
+    const data = {
+      definition: version.definition as unknown as Prisma.InputJsonValue,
+      status: version.status,
+      note: version.note ?? null,
+      createdBy: version.createdBy,
+      publishedBy: version.publishedBy ?? null,
+      publishedAt: version.publishedAt ?? null,
+    };
+
+    await prisma.escalationProtocolVersion.upsert({
+      where: { protocolId_version: { protocolId: version.protocolId, version: version.version } },
+      create: { protocolId: version.protocolId, version: version.version, createdAt: version.createdAt, ...data },
+      update: data,
+    });
+  }
+
+  async listProtocolVersions(protocolId: string): Promise<ProtocolVersion[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.escalationProtocolVersion.findMany({
+      where: { protocolId },
+      orderBy: { version: 'desc' },
+    });
+    return rows.map(formatVersion);
+  }
+
+  async getProtocolVersion(protocolId: string, version: number): Promise<ProtocolVersion | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.escalationProtocolVersion.findUnique({
+      where: { protocolId_version: { protocolId, version } },
+    });
+    return row ? formatVersion(row) : null;
+  }
+
+  async publishProtocolVersion(
+    protocolId: string,
+    version: number,
+    publishedBy: string
+  ): Promise<EscalationProtocol | null> {
+    const prisma = await loadPrisma();
+
+    return prisma.$transaction(async tx => {
+      // Claiming the draft first means two concurrent publishes of the same draft can't both win
+      const claimed = await tx.escalationProtocolVersion.updateMany({
+        where: { protocolId, version, status: 'draft' },
+        data: { status: 'published', publishedBy, publishedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.escalationProtocolVersion.updateMany({
+        where: { protocolId, status: 'published', version: { not: version } },
+        data: { status: 'superseded' },
+      });
+
+      const row = await tx.escalationProtocolVersion.findUniqueOrThrow({
+        where: { protocolId_version: { protocolId, version } },
+      });
+      const protocol = { ...formatVersion(row).definition, version };
+      const data = protocolData(protocol);
+      await tx.escalationProtocol.upsert({
+        where: { id: protocolId },
+        create: { id: protocolId, ...data },
+        update: data,
+      });
+
+      return protocol;
+    });
+  }
+
+  async appendProtocolAudit(entry: NewProtocolAuditEntry): Promise<ProtocolAuditEntry> {
+    const prisma = await loadPrisma();
+    const row = await prisma.escalationProtocolAudit.create({
+      data: {
+        protocolId: entry.protocolId,
+        version: entry.version,
+        action: entry.action,
+        actorId: entry.actorId,
+        changes: entry.changes as unknown as Prisma.InputJsonValue,
+      },
+    });
+    return formatAudit(row);
+  }
+
+  async listProtocolAudit(query: ProtocolAuditQuery = {}): Promise<ProtocolAuditEntry[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.escalationProtocolAudit.findMany({
+      where: {
+        ...(query.protocolId && { protocolId: query.protocolId }),
+        ...(query.actorId && { actorId: query.actorId }),
+        ...(query.before && { createdAt: { lt: query.before } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? DEFAULT_HISTORY_LIMIT,
+    });
+    return rows.map(formatAudit);
+  }
+
+  async create(escalation: EscalationRecord): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.escalation.create({
+      data: {
+        id: escalation.id,
+        userId: escalation.userId,
+        sessionId: escalation.sessionId,
+        crisisAssessmentId: escalation.crisisAssessmentId,
+        protocolId: escalation.protocolId,
+        protocolVersion: escalation.protocolVersion,
+        startedAt: escalation.startedAt,
+        ...progressData(escalation),
+        compliance: escalation.compliance as unknown as Prisma.InputJsonValue,
+        assessment: escalation.assessment as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async get(id: string): Promise<EscalationRecord | null> {
+    const prisma = await loadPrisma();
+    const row = await prisma.escalation.findUnique({
+      where: { id },
+      include: { steps: { orderBy: { executedAt: 'asc' } } },
+    });
+
+    return row ? formatEscalation(row, row.steps) : null;
+  }
+
+  async list(query: EscalationHistoryQuery = {}): Promise<EscalationRecord[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.escalation.findMany({
+      where: {
+        ...(query.userId && { userId: query.userId }),
+        ...(query.professionalId && { professionalId: query.professionalId }),
+        ...(query.status && { status: { in: query.status } }),
+        ...(query.before && { startedAt: { lt: query.before } }),
+      },
+      include: { steps: { orderBy: { executedAt: 'asc' } } },
+      orderBy: { startedAt: 'desc' },
+      take: query.limit ?? DEFAULT_HISTORY_LIMIT,
+    });
+
+    return rows.map(row => formatEscalation(row, row.steps));
+  }
+
+  async listEscalatedAssessmentIds(): Promise<string[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.escalation.findMany({
+      select: { crisisAssessmentId: true },
+      distinct: ['crisisAssessmentId'],
+    });
+
+    return rows.map(row => row.crisisAssessmentId);
+  }
+
+  async claim(id: string, workerId: string, leaseMs: number): Promise<EscalationRecord | null> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.$queryRaw<EscalationRow[]>`
+      UPDATE "escalations"
+      SET "leasedBy" = ${workerId},
+          "leaseExpiresAt" = now() + (${leaseMs} * interval '1 millisecond'),
+          "updatedAt" = now()
+      WHERE "id" = ${id}
+        AND "status" = ANY(${ACTIVE_ESCALATION_STATUSES})
+        AND ("leasedBy" IS NULL OR "leasedBy" = ${workerId} OR "leaseExpiresAt" < now())
+      RETURNING *
+    `;
+
+    return rows[0] ? this.withSteps(rows[0]) : null;
+  }
+
+  async claimDue(workerId: string, leaseMs: number, limit: number): Promise<EscalationRecord[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.$queryRaw<EscalationRow[]>`
+      UPDATE "escalations"
+      SET "leasedBy" = ${workerId},
+          "leaseExpiresAt" = now() + (${leaseMs} * interval '1 millisecond'),
+          "updatedAt" = now()
+      WHERE "id" IN (
+        SELECT "id" FROM "escalations"
+        WHERE "status" = ANY(${ACTIVE_ESCALATION_STATUSES})
+          AND "nextRunAt" <= now()
+          AND ("leasedBy" IS NULL OR "leaseExpiresAt" < now())
+        ORDER BY "nextRunAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return Promise.all(rows.map(row => this.withSteps(row)));
+  }
+
+  async checkpoint(
+    escalation: EscalationRecord,
+    workerId: string,
+    newSteps: EscalationStepExecution[],
+    leaseMs: number
+  ): Promise<boolean> {
+    const prisma = await loadPrisma();
+
+    return prisma.$transaction(async tx => {
+      const result = await tx.escalation.updateMany({
+        where: { id: escalation.id, leasedBy: workerId },
+        data: {
+          ...progressData(escalation),
+          leaseExpiresAt: new Date(Date.now() + leaseMs),
+        },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      if (newSteps.length > 0) {
+        await tx.escalationStepExecution.createMany({
+          data: newSteps.map(step => ({
+            escalationId: escalation.id,
+            stepId: step.stepId,
+            success: step.success,
+            response: step.response,
+            error: step.error,
+            metadata: step.metadata as Prisma.InputJsonValue,
+            executedAt: step.executedAt,
+          })),
+        });
+      }
+      return true;
+    });
+  }
+
+  async release(id: string, workerId: string): Promise<void> {
+    const prisma = await loadPrisma();
+    await prisma.escalation.updateMany({
+      where: { id, leasedBy: workerId },
+      data: { leasedBy: null, leaseExpiresAt: null },
+    });
+  }
+
+  async transition(
+    id: string,
+    from: EscalationRecord['status'][],
+    changes: Partial<EscalationRecord>
+  ): Promise<EscalationRecord | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.escalation.updateMany({
+      where: { id, status: { in: from } },
+      data: {
+        status: changes.status,
+        outcome: changes.outcome,
+        resolvedAt: changes.resolvedAt,
+        acknowledgedAt: changes.acknowledgedAt,
+        acknowledgedBy: changes.acknowledgedBy,
+        stepState: null,
+        nextRunAt: null,
+        leasedBy: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    return result.count > 0 ? this.get(id) : null;
+  }
+
+  private async withSteps(row: EscalationRow): Promise<EscalationRecord> {
+    const prisma = await loadPrisma();
+    const steps = await prisma.escalationStepExecution.findMany({
+      where: { escalationId: row.id },
+      orderBy: { executedAt: 'asc' },
+    });
+    return formatEscalation(row, steps);
+  }
+}
+
+function protocolData(protocol: EscalationProtocol) {
+  return {
+    name: protocol.name,
+    priority: protocol.priority,
+    responseTime: protocol.responseTime,
+    triggerConditions: protocol.triggerConditions as unknown as Prisma.InputJsonValue,
+    escalationPath: protocol.escalationPath as unknown as Prisma.InputJsonValue,
+    requiredApprovals: protocol.requiredApprovals,
+    complianceRequirements: protocol.complianceRequirements,
+    active: protocol.active,
+    version: protocol.version,
+  };
+}
+
+// Fields the scheduler changes as an escalation advances
+function progressData(escalation: EscalationRecord) {
+  return {
+    status: escalation.status,
+    priority: escalation.priority,
+    outcome: escalation.outcome,
+    professionalId: escalation.professionalId ?? null,
+    channelId: escalation.channelId ?? null,
+    estimatedResponseTime: escalation.estimatedResponseTime ?? null,
+    currentStepId: escalation.currentStepId ?? null,
+    stepState: escalation.stepState ?? null,
+    nextRunAt: escalation.nextRunAt ?? null,
+    resolvedAt: escalation.resolvedAt ?? null,
+  };
+}
+
+function formatProtocol(row: ProtocolRow): EscalationProtocol {
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority as EscalationProtocol['priority'],
+    responseTime: row.responseTime,
+    triggerConditions: row.triggerConditions as unknown as EscalationProtocol['triggerConditions'],
+    escalationPath: row.escalationPath as unknown as EscalationProtocol['escalationPath'],
+    requiredApprovals: row.requiredApprovals,
+    complianceRequirements: row.complianceRequirements,
+    active: row.active,
+    version: row.version,
+  };
+}
+
+function formatVersion(row: VersionRow): ProtocolVersion {
+  return {
+    protocolId: row.protocolId,
+    version: row.version,
+    definition: row.definition as unknown as EscalationProtocol,
+    status: row.status as ProtocolVersion['status'],
+    note: row.note ?? undefined,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    publishedBy: row.publishedBy ?? undefined,
+    publishedAt: row.publishedAt ?? undefined,
+  };
+}
+
+function formatAudit(row: AuditRow): ProtocolAuditEntry {
+  return {
+    id: row.id,
+    protocolId: row.protocolId,
+    version: row.version ?? undefined,
+    action: row.action as ProtocolAuditEntry['action'],
+    actorId: row.actorId,
+    changes: row.changes as unknown as ProtocolAuditEntry['changes'],
+    createdAt: row.createdAt,
+  };
+}
+
+function formatEscalation(row: EscalationRow, steps: StepRow[]): EscalationRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    sessionId: row.sessionId,
+    crisisAssessmentId: row.crisisAssessmentId,
+    protocolId: row.protocolId,
+    protocolVersion: row.protocolVersion ?? undefined,
+    status: row.status as EscalationRecord['status'],
+    priority: row.priority as EscalationRecord['priority'],
+    startedAt: row.startedAt,
+    resolvedAt: row.resolvedAt ?? undefined,
+    steps: steps.map(step => ({
+      stepId: step.stepId,
+      executedAt: step.executedAt,
+      success: step.success,
+      response: step.response ?? undefined,
+      error: step.error ?? undefined,
+      metadata: step.metadata as EscalationStepExecution['metadata'],
+    })),
+    outcome: row.outcome,
+    compliance: row.compliance as unknown as EscalationRecord['compliance'],
+    assessment: row.assessment as unknown as EscalationRecord['assessment'],
+    professionalId: row.professionalId ?? undefined,
+    channelId: row.channelId ?? undefined,
+    estimatedResponseTime: row.estimatedResponseTime ?? undefined,
+    currentStepId: row.currentStepId ?? undefined,
+    stepState: (row.stepState ?? undefined) as EscalationRecord['stepState'],
+    nextRunAt: row.nextRunAt ?? undefined,
+    acknowledgedAt: row.acknowledgedAt ?? undefined,
+    acknowledgedBy: row.acknowledgedBy ?? undefined,
+  };
+}
@@ -0,0 +1,280 @@
+import { CRISIS_CATEGORIES } from '@/services/crisis-detection/CrisisAssessment';
+import type { CrisisSeverity } from '@/services/crisis-detection/CrisisAssessment';
+import type { NotificationChannelType } from '@/services/notifications';
+import type {
+  CrisisCondition,
+  EscalationAssessment,
+  EscalationProtocol,
+  EscalationStep,
+} from '../SafetyEscalationService';
+
+export const CONDITION_TYPES: CrisisCondition['type'][] = ['confidence', 'severity', 'indicator', 'pattern'];
+
+// Comparisons only make sense on ordered values; indicators and patterns are membership tests
+export const CONDITION_OPERATORS: Record<CrisisCondition['type'], CrisisCondition['operator'][]> = {
+  confidence: ['gt', 'gte', 'lt', 'lte', 'eq'],
+  severity: ['gt', 'gte', 'lt', 'lte', 'eq'],
+  indicator: ['contains'],
+  pattern: ['contains'],
+};
+
+export const SEVERITY_ORDER: CrisisSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Share of a protocol's condition weight an assessment must meet to trigger it
+export const PROTOCOL_MATCH_THRESHOLD = 0.5;
+
+// Deepest chain of fallbacks under a single path step
+export const MAX_FALLBACK_DEPTH = 5;
+
+const PRIORITIES: EscalationProtocol['priority'][] = ['routine', 'urgent', 'emergency'];
+const ACTIONS: EscalationStep['action'][] = ['notify', 'assign', 'escalate', 'intervene', 'alert'];
+const TARGETS: EscalationStep['target'][] = ['professional', 'supervisor', 'emergency_services', 'crisis_team'];
+const METHODS: EscalationStep['method'][] = ['message', 'call', 'alert', 'transfer'];
+const CHANNELS: NotificationChannelType[] = ['email', 'sms', 'push', 'in_app'];
+
+/**
+ * A problem with a protocol definition. `path` points at the offending field,
+ * e.g. `triggerConditions[1].operator` or `escalationPath[0].fallback.timeout`.
+ */
+export interface ProtocolIssue {
+  path: string;
+  message: string;
+}
+
+export class ProtocolValidationError extends Error {
+  constructor(public issues: ProtocolIssue[]) {
+    super(`Invalid escalation protocol: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'ProtocolValidationError';
+  }
+}
+
+// The parts of an assessment trigger conditions look at
+export type ConditionSubject = Pick<EscalationAssessment, 'severity' | 'confidence' | 'indicators' | 'riskFactors'>;
+
+function compare(actual: number, operator: CrisisCondition['operator'], expected: number): boolean {
+  switch (operator) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'eq': return actual === expected;
+    default: return false;
+  }
+}
+
+export function evaluateCondition(condition: CrisisCondition, subject: ConditionSubject): boolean {
+  const { type, operator, value } = condition;
+
+  switch (type) {
+    case 'confidence':
+      return typeof subject.confidence === 'number' && compare(subject.confidence, operator, value);
+    case 'severity': {
+      // Severities compare by rank, so `severity >= high` also matches critical
+      const actual = subject.severity ? SEVERITY_ORDER.indexOf(subject.severity) : -1;
+      const expected = SEVERITY_ORDER.indexOf(value);
+      return actual >= 0 && expected >= 0 && compare(actual, operator, expected);
+    }
+    case 'indicator':
+      return operator === 'contains' && subject.indicators?.[value] === true;
+    case 'pattern':
+      return operator === 'contains' && (subject.riskFactors || []).some(factor =>
+        factor.toLowerCase().includes(String(value).toLowerCase())
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Share of the protocol's condition weight the assessment meets, 0-1
+ */
+export function scoreProtocol(protocol: EscalationProtocol, subject: ConditionSubject): number {
+  let totalScore = 0;
+  let totalWeight = 0;
+
+  for (const condition of protocol.triggerConditions) {
+    if (evaluateCondition(condition, subject)) {
+      totalScore += condition.weight;
+    }
+    totalWeight += condition.weight;
+  }
+
+  return totalWeight > 0 ? totalScore / totalWeight : 0;
+}
+
+/**
+ * The active protocol with the highest score at or above the match threshold.
+ * Ties go to the protocol listed first.
+ */
+export function matchProtocol(
+  protocols: Iterable<EscalationProtocol>,
+  subject: ConditionSubject
+): { protocol: EscalationProtocol; score: number } | null {
+  let best: { protocol: EscalationProtocol; score: number } | null = null;
+
+  for (const protocol of protocols) {
+    if (!protocol.active) continue;
+
+    const score = scoreProtocol(protocol, subject);
+    if (score >= PROTOCOL_MATCH_THRESHOLD && score > (best?.score ?? 0)) {
+      best = { protocol, score };
+    }
+  }
+
+  return best;
+}
+
+export function validateConditions(conditions: CrisisCondition[], path = 'triggerConditions'): ProtocolIssue[] {
+  const issues: ProtocolIssue[] = [];
+  if (!Array.isArray(conditions) || conditions.length === 0) {
+    return [{ path, message: 'At least one trigger condition is required' }];
+  }
+
+  conditions.forEach((condition, index) => {
+    const at = `${path}[${index}]`;
+    if (!CONDITION_TYPES.includes(condition.type)) {
+      issues.push({ path: `${at}.type`, message: `Unknown condition type "${condition.type}"` });
+      return;
+    }
+
+    if (!CONDITION_OPERATORS[condition.type].includes(condition.operator)) {
+      issues.push({
+        path: `${at}.operator`,
+        message: `"${condition.operator}" can't be used with ${condition.type}; use one of ${CONDITION_OPERATORS[condition.type].join(', ')}`,
+      });
+    }
+
+    const { value } = condition;
+    switch (condition.type) {
+      case 'confidence':
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+          issues.push({ path: `${at}.value`, message: 'Confidence must be a number between 0 and 1' });
+        }
+        break;
+      case 'severity':
+        if (!SEVERITY_ORDER.includes(value)) {
+          issues.push({ path: `${at}.value`, message: `Severity must be one of ${SEVERITY_ORDER.join(', ')}` });
+        }
+        break;
+      case 'indicator':
+        if (!(CRISIS_CATEGORIES as string[]).includes(value)) {
+          issues.push({ path: `${at}.value`, message: `Indicator must be one of ${CRISIS_CATEGORIES.join(', ')}` });
+        }
+        break;
+      case 'pattern':
+        if (typeof value !== 'string' || value.trim() === '') {
+          issues.push({ path: `${at}.value`, message: 'Pattern must be a non-empty string' });
+        }
+        break;
+    }
+
+    if (typeof condition.weight !== 'number' || !Number.isFinite(condition.weight) || condition.weight <= 0) {
+      issues.push({ path: `${at}.weight`, message: 'Weight must be a positive number' });
+    }
+  });
+
+  return issues;
+}
+
+function validateStep(
+  step: EscalationStep,
+  path: string,
+  depth: number,
+  stepIds: Set<string>,
+  issues: ProtocolIssue[]
+): void {
+  if (!step || typeof step !== 'object') {
+    issues.push({ path, message: 'Step must be an object' });
+    return;
+  }
+
+  if (typeof step.stepId !== 'string' || step.stepId.trim() === '') {
+    issues.push({ path: `${path}.stepId`, message: 'Step ID is required' });
+  } else if (stepIds.has(step.stepId)) {
+    // Escalations track their position by step ID, so IDs must be unique across fallbacks too
+    issues.push({ path: `${path}.stepId`, message: `Step ID "${step.stepId}" is used more than once` });
+  } else {
+    stepIds.add(step.stepId);
+  }
+
+  if (!ACTIONS.includes(step.action)) {
+    issues.push({ path: `${path}.action`, message: `Action must be one of ${ACTIONS.join(', ')}` });
+  }
+  if (!TARGETS.includes(step.target)) {
+    issues.push({ path: `${path}.target`, message: `Target must be one of ${TARGETS.join(', ')}` });
+  }
+  if (!METHODS.includes(step.method)) {
+    issues.push({ path: `${path}.method`, message: `Method must be one of ${METHODS.join(', ')}` });
+  }
+  if (typeof step.timeout !== 'number' || !Number.isFinite(step.timeout) || step.timeout <= 0) {
+    issues.push({ path: `${path}.timeout`, message: 'Timeout must be a positive number of minutes' });
+  }
+  if (step.action === 'assign' && step.target !== 'professional') {
+    issues.push({ path: `${path}.target`, message: 'Only a professional can be assigned' });
+  }
+
+  const channels = step.metadata?.channels;
+  if (channels !== undefined) {
+    if (!Array.isArray(channels) || channels.length === 0) {
+      issues.push({ path: `${path}.metadata.channels`, message: 'Channels must be a non-empty list' });
+    } else {
+      channels
+        .filter((channel: string) => !CHANNELS.includes(channel as NotificationChannelType))
+        .forEach((channel: string) => issues.push({
+          path: `${path}.metadata.channels`,
+          message: `Unknown channel "${channel}"; use ${CHANNELS.join(', ')}`,
+        }));
+    }
+  }
+
+  if (step.fallback) {
+    if (depth >= MAX_FALLBACK_DEPTH) {
+      issues.push({ path: `${path}.fallback`, message: `Fallbacks can be nested at most ${MAX_FALLBACK_DEPTH} deep` });
+    } else {
+      validateStep(step.fallback, `${path}.fallback`, depth + 1, stepIds, issues);
+    }
+  }
+}
+
+/**
+ * Everything wrong with a protocol definition, or an empty list if it can be published
+ */
+export function validateProtocol(protocol: EscalationProtocol): ProtocolIssue[] {
+  const issues: ProtocolIssue[] = [];
+
+  if (typeof protocol.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(protocol.id)) {
+    issues.push({ path: 'id', message: 'ID must be lowercase letters, digits and dashes' });
+  }
+  if (typeof protocol.name !== 'string' || protocol.name.trim() === '') {
+    issues.push({ path: 'name', message: 'Name is required' });
+  }
+  if (!PRIORITIES.includes(protocol.priority)) {
+    issues.push({ path: 'priority', message: `Priority must be one of ${PRIORITIES.join(', ')}` });
+  }
+  if (typeof protocol.responseTime !== 'number' || !Number.isInteger(protocol.responseTime) || protocol.responseTime <= 0) {
+    issues.push({ path: 'responseTime', message: 'Response time must be a positive whole number of minutes' });
+  }
+  if (typeof protocol.active !== 'boolean') {
+    issues.push({ path: 'active', message: 'Active must be true or false' });
+  }
+
+  for (const field of ['requiredApprovals', 'complianceRequirements'] as const) {
+    const values = protocol[field];
+    if (!Array.isArray(values) || values.some(value => typeof value !== 'string' || value.trim() === '')) {
+      issues.push({ path: field, message: 'Must be a list of non-empty strings' });
+    }
+  }
+
+  issues.push(...validateConditions(protocol.triggerConditions));
+
+  if (!Array.isArray(protocol.escalationPath) || protocol.escalationPath.length === 0) {
+    issues.push({ path: 'escalationPath', message: 'At least one escalation step is required' });
+  } else {
+    const stepIds = new Set<string>();
+    protocol.escalationPath.forEach((step, index) =>
+      validateStep(step, `escalationPath[${index}]`, 0, stepIds, issues)
+    );
+  }
+
+  return issues;
+}
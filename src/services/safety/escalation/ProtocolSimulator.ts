@@ -0,0 +1,166 @@
+import { CRISIS_CATEGORIES } from '@/services/crisis-detection/CrisisAssessment';
+import type { CrisisSeverity } from '@/services/crisis-detection/CrisisAssessment';
+import type {
+  AssessmentHistoryQuery,
+  StoredCrisisAssessment,
+} from '@/services/crisis-detection/CrisisAssessmentRepository';
+import type { EscalationProtocol } from '../SafetyEscalationService';
+import {
+  ConditionSubject,
+  ProtocolValidationError,
+  SEVERITY_ORDER,
+  matchProtocol,
+  scoreProtocol,
+  validateProtocol,
+} from './ProtocolDefinition';
+
+/**
+ * Where past assessments come from; CrisisAssessmentRepository in production
+ */
+export interface AssessmentHistorySource {
+  listAssessments(query: AssessmentHistoryQuery): Promise<StoredCrisisAssessment[]>;
+}
+
+export interface SimulationOptions {
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * An assessment that would be routed differently if the draft were published
+ */
+export interface SimulatedChange {
+  assessmentId: string;
+  flaggedAt: Date;
+  severity: CrisisSeverity;
+  confidence: number;
+  liveProtocolId: string | null;
+  draftProtocolId: string | null;
+  draftScore: number;
+}
+
+export interface SeverityBreakdown {
+  assessments: number;
+  matchedByDraft: number;
+  matchedByLive: number;
+}
+
+export interface SimulationResult {
+  protocolId: string;
+  version: number;
+  assessmentsReplayed: number;
+  // Assessments the protocol would win with the draft published, and wins today
+  matchedByDraft: number;
+  matchedByLive: number;
+  newlyMatched: number;
+  noLongerMatched: number;
+  bySeverity: Record<CrisisSeverity, SeverityBreakdown>;
+  changes: SimulatedChange[];
+  changesTruncated: boolean;
+}
+
+export const DEFAULT_SIMULATION_LIMIT = 500;
+export const MAX_SIMULATION_LIMIT = 5000;
+
+// Changes listed individually; the counts always cover every replayed assessment
+const MAX_REPORTED_CHANGES = 100;
+
+function toSubject(assessment: StoredCrisisAssessment): ConditionSubject {
+  const indicators: Record<string, boolean> = {};
+  CRISIS_CATEGORIES.forEach(category => { indicators[category] = assessment.indicators?.[category] === true; });
+
+  return {
+    severity: assessment.severity,
+    confidence: assessment.confidence,
+    indicators,
+    riskFactors: assessment.riskFactors,
+  };
+}
+
+/**
+ * Dry-runs a draft protocol: replays past assessments through protocol matching with the draft in place
+ * of the live version, alongside the other live protocols, and reports what would have been routed
+ * differently. Nothing is escalated or written.
+ */
+export class ProtocolSimulator {
+  constructor(private history: AssessmentHistorySource) {}
+
+  async simulate(
+    draft: EscalationProtocol,
+    liveProtocols: EscalationProtocol[],
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    const issues = validateProtocol(draft);
+    if (issues.length > 0) {
+      throw new ProtocolValidationError(issues);
+    }
+
+    const assessments = await this.history.listAssessments({
+      since: options.since,
+      until: options.until,
+      limit: Math.min(options.limit ?? DEFAULT_SIMULATION_LIMIT, MAX_SIMULATION_LIMIT),
+    });
+
+    // Simulated as switched on, otherwise an inactive draft would never match. Kept in the live set's
+    // order so ties resolve the same way they would after publishing.
+    const candidate = { ...draft, active: true };
+    const withDraft = liveProtocols.some(protocol => protocol.id === draft.id)
+      ? liveProtocols.map(protocol => protocol.id === draft.id ? candidate : protocol)
+      : [...liveProtocols, candidate];
+
+    const bySeverity = {} as Record<CrisisSeverity, SeverityBreakdown>;
+    SEVERITY_ORDER.forEach(severity => { bySeverity[severity] = { assessments: 0, matchedByDraft: 0, matchedByLive: 0 }; });
+
+    const result: SimulationResult = {
+      protocolId: draft.id,
+      version: draft.version,
+      assessmentsReplayed: assessments.length,
+      matchedByDraft: 0,
+      matchedByLive: 0,
+      newlyMatched: 0,
+      noLongerMatched: 0,
+      bySeverity,
+      changes: [],
+      changesTruncated: false,
+    };
+
+    for (const assessment of assessments) {
+      const subject = toSubject(assessment);
+      const liveProtocolId = matchProtocol(liveProtocols, subject)?.protocol.id ?? null;
+      const draftProtocolId = matchProtocol(withDraft, subject)?.protocol.id ?? null;
+      const matchedByDraft = draftProtocolId === draft.id;
+      const matchedByLive = liveProtocolId === draft.id;
+
+      const severity = bySeverity[assessment.severity];
+      if (severity) {
+        severity.assessments++;
+        if (matchedByDraft) severity.matchedByDraft++;
+        if (matchedByLive) severity.matchedByLive++;
+      }
+
+      if (matchedByDraft) result.matchedByDraft++;
+      if (matchedByLive) result.matchedByLive++;
+      if (matchedByDraft && !matchedByLive) result.newlyMatched++;
+      if (matchedByLive && !matchedByDraft) result.noLongerMatched++;
+
+      if (liveProtocolId !== draftProtocolId) {
+        if (result.changes.length < MAX_REPORTED_CHANGES) {
+          result.changes.push({
+            assessmentId: assessment.id,
+            flaggedAt: assessment.flaggedAt,
+            severity: assessment.severity,
+            confidence: assessment.confidence,
+            liveProtocolId,
+            draftProtocolId,
+            draftScore: scoreProtocol(candidate, subject),
+          });
+        } else {
+          result.changesTruncated = true;
+        }
+      }
+    }
+
+    return result;
+  }
+}
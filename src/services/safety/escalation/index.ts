@@ -0,0 +1,59 @@
+import { EscalationStore } from './EscalationStore';
+import { InMemoryEscalationStore } from './InMemoryEscalationStore';
+import { PgEscalationStore } from './PgEscalationStore';
+
+export type {
+  EscalationStore,
+  EscalationHistoryQuery,
+  ProtocolVersion,
+  ProtocolVersionStatus,
+  ProtocolAuditAction,
+  ProtocolAuditEntry,
+  NewProtocolAuditEntry,
+  ProtocolAuditQuery,
+} from './EscalationStore';
+export { ACTIVE_ESCALATION_STATUSES } from './EscalationStore';
+export { InMemoryEscalationStore } from './InMemoryEscalationStore';
+export { PgEscalationStore } from './PgEscalationStore';
+export { EscalationScheduler } from './EscalationScheduler';
+export type { EscalationSchedulerConfig, EscalationRunner } from './EscalationScheduler';
+export {
+  CONDITION_TYPES,
+  CONDITION_OPERATORS,
+  SEVERITY_ORDER,
+  PROTOCOL_MATCH_THRESHOLD,
+  MAX_FALLBACK_DEPTH,
+  ProtocolValidationError,
+  evaluateCondition,
+  scoreProtocol,
+  matchProtocol,
+  validateConditions,
+  validateProtocol,
+} from './ProtocolDefinition';
+export type { ProtocolIssue, ConditionSubject } from './ProtocolDefinition';
+export { parseConditionDsl, formatConditionDsl, readTriggerConditions } from './ConditionDsl';
+export { ProtocolSimulator, DEFAULT_SIMULATION_LIMIT, MAX_SIMULATION_LIMIT } from './ProtocolSimulator';
+export type {
+  AssessmentHistorySource,
+  SimulationOptions,
+  SimulationResult,
+  SimulatedChange,
+  SeverityBreakdown,
+} from './ProtocolSimulator';
+export type { ConditionDslError, ConditionDslResult } from './ConditionDsl';
+
+let defaultStore: EscalationStore | null = null;
+
+/**
+ * Store selected by ESCALATION_STORE ('postgres' | 'memory'), shared by every escalation service
+ * in the process. Defaults to Postgres, except under test where the in-memory store is used.
+ */
+export function getEscalationStore(): EscalationStore {
+  if (!defaultStore) {
+    const backend = process.env.ESCALATION_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryEscalationStore() : new PgEscalationStore();
+  }
+  return defaultStore;
+}
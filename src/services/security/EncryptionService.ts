@@ -1,15 +1,7 @@
-import crypto from 'crypto';
 import { logger } from '@/lib/logger';
-
-export interface EncryptionKey {
-  id: string;
-  key: Buffer;
-  algorithm: string;
-  createdAt: Date;
-  expiresAt: Date;
-  status: 'active' | 'expired' | 'compromised';
-  rotationCount: number;
-}
+import { EnvelopeEncryption, isEnvelope } from './EnvelopeEncryption';
+import { decryptLegacy, getLegacyKeysFromEnv, legacyClassificationAads } from './LegacyEncryption';
+import { Keyring, getKeyring } from './keyring';
 
 export interface EncryptedData {
   ciphertext: string;
@@ -18,6 +10,10 @@ export interface EncryptedData {
   keyId: string;
   algorithm: string;
   encryptedAt: Date;
+  // Envelope fields; records from the old createCipher scheme lack them until `migrateLegacyData`
+  version?: number;
+  wrappedKey?: string;
+  aad?: string;
 }
 
 export interface DataClassification {
@@ -28,37 +24,13 @@ export interface DataClassification {
 }
 
 export class EncryptionService {
-  private encryptionKeys: Map<string, EncryptionKey> = new Map();
-  private keyRotationInterval: number = 365 * 24 * 60 * 60 * 1000; // 365 days
-  private currentKeyId!: string;
-
-  constructor() {
-    this.initializeKeys();
-  }
-
-  private initializeKeys() {
-    // Generate initial encryption key
-    const keyId = `key-${Date.now()}`;
-    const key = crypto.randomBytes(32); // 256-bit key
-
-    const encryptionKey: EncryptionKey = {
-      id: keyId,
-      key,
-      algorithm: 'aes-256-gcm',
-      createdAt: new Date(),
-      expiresAt: new Date(Date.now() + this.keyRotationInterval),
-      status: 'active',
-      rotationCount: 0
-    };
-
-    this.encryptionKeys.set(keyId, encryptionKey);
-    this.currentKeyId = keyId;
+  private keyring: Keyring;
+  private envelopes: EnvelopeEncryption;
+  private legacyKeys: Map<string, Buffer> | null = null;
 
-    logger.info({
-      keyId,
-      algorithm: encryptionKey.algorithm,
-      expiresAt: encryptionKey.expiresAt.toISOString()
-    }, 'Encryption service initialized with new key');
+  constructor(keyring?: Keyring) {
+    this.keyring = keyring || getKeyring('data');
+    this.envelopes = new EnvelopeEncryption(this.keyring);
   }
 
   async encryptData(data: string, classification: DataClassification): Promise<EncryptedData> {
@@ -67,40 +39,11 @@ export class EncryptionService {
         throw new Error('Data classification does not require encryption');
       }
 
-      const key = this.encryptionKeys.get(this.currentKeyId);
-      if (!key || key.status !== 'active') {
-        throw new Error('No active encryption key available');
-      }
-
-      // Generate initialization vector
-      const iv = crypto.randomBytes(16);
-
-      // Create cipher with GCM mode
-      const cipher = crypto.createCipher('aes-256-gcm', key.key);
-      cipher.setAAD(Buffer.from(JSON.stringify({
-        classification: classification.level,
-        timestamp: Date.now()
-      })));
-
-      // Encrypt data
-      let encrypted = cipher.update(data, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-
-      // Get authentication tag
-      const tag = cipher.getAuthTag();
-
-      const encryptedData: EncryptedData = {
-        ciphertext: encrypted,
-        iv: iv.toString('hex'),
-        tag: tag.toString('hex'),
-        keyId: key.id,
-        algorithm: key.algorithm,
-        encryptedAt: new Date()
-      };
+      const encryptedData = await this.seal(data, classification.level);
 
       logger.info({
-        keyId: key.id,
-        algorithm: key.algorithm,
+        keyId: encryptedData.keyId,
+        algorithm: encryptedData.algorithm,
         dataLength: data.length,
         classification: classification.level
       }, 'Data encrypted successfully');
@@ -119,38 +62,22 @@ export class EncryptionService {
 
   async decryptData(encryptedData: EncryptedData): Promise<string> {
     try {
-      const key = this.encryptionKeys.get(encryptedData.keyId);
-      if (!key) {
-        throw new Error('Encryption key not found');
-      }
-
-      if (key.status === 'compromised') {
-        throw new Error('Encryption key has been compromised');
-      }
-
-      if (key.status === 'expired' && key.expiresAt < new Date()) {
+      const key = this.keyring.listKeys().find(candidate => candidate.id === encryptedData.keyId);
+      if (key && key.status !== 'active' && key.expiresAt < new Date()) {
         logger.warn({
           keyId: key.id,
           expiredAt: key.expiresAt.toISOString()
         }, 'Decrypting with expired key');
       }
 
-      // Create decipher with GCM mode
-      const decipher = crypto.createDecipher('aes-256-gcm', key.key);
-      decipher.setAuthTag(Buffer.from(encryptedData.tag!, 'hex'));
-      decipher.setAAD(Buffer.from(JSON.stringify({
-        classification: 'phi', // Default for decryption
-        timestamp: encryptedData.encryptedAt.getTime()
-      })));
-
-      // Decrypt data
-      let decrypted = decipher.update(encryptedData.ciphertext, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
+      const decrypted = isEnvelope(encryptedData)
+        ? await this.envelopes.decryptString(encryptedData)
+        : this.decryptLegacyData(encryptedData).data;
 
       logger.info({
-        keyId: key.id,
+        keyId: encryptedData.keyId,
         algorithm: encryptedData.algorithm,
-        encryptedAt: encryptedData.encryptedAt.toISOString()
+        encryptedAt: new Date(encryptedData.encryptedAt).toISOString()
       }, 'Data decrypted successfully');
 
       return decrypted;
@@ -165,40 +92,70 @@ export class EncryptionService {
     }
   }
 
-  async rotateEncryptionKey(): Promise<string> {
-    try {
-      // Generate new key
-      const newKeyId = `key-${Date.now()}`;
-      const newKey = crypto.randomBytes(32);
-
-      const newEncryptionKey: EncryptionKey = {
-        id: newKeyId,
-        key: newKey,
-        algorithm: 'aes-256-gcm',
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + this.keyRotationInterval),
-        status: 'active',
-        rotationCount: 0
-      };
-
-      // Mark current key as expired
-      const currentKey = this.encryptionKeys.get(this.currentKeyId);
-      if (currentKey) {
-        currentKey.status = 'expired';
-        currentKey.expiresAt = new Date();
-      }
+  /**
+   * Re-encrypts a record from the old createCipher scheme as an envelope under the current key,
+   * keeping its classification. Envelope records are returned as they are.
+   */
+  async migrateLegacyData(encryptedData: EncryptedData): Promise<EncryptedData> {
+    if (isEnvelope(encryptedData)) {
+      return encryptedData;
+    }
 
-      // Set new key as current
-      this.encryptionKeys.set(newKeyId, newEncryptionKey);
-      this.currentKeyId = newKeyId;
+    try {
+      // Compromised keys are allowed here: moving data off them is the point
+      const { data, classification } = this.decryptLegacyData(encryptedData);
+      const migrated = await this.seal(data, classification);
 
       logger.info({
-        oldKeyId: this.currentKeyId,
-        newKeyId,
-        rotationCount: currentKey ? currentKey.rotationCount + 1 : 1
-      }, 'Encryption key rotated successfully');
+        fromKeyId: encryptedData.keyId,
+        toKeyId: migrated.keyId,
+        classification
+      }, 'Legacy encrypted data migrated');
+
+      return migrated;
 
-      return newKeyId;
+    } catch (error) {
+      logger.error({
+        keyId: encryptedData.keyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'Legacy data migration failed');
+
+      throw new Error('Failed to migrate legacy encrypted data');
+    }
+  }
+
+  private async seal(data: string, level: DataClassification['level']): Promise<EncryptedData> {
+    // The classification is bound as AAD and stored with the ciphertext, so decryption never has to guess it
+    const envelope = await this.envelopes.encrypt(data, JSON.stringify({ classification: level }));
+    return { ...envelope, encryptedAt: new Date() };
+  }
+
+  private decryptLegacyData(encryptedData: EncryptedData): { data: string; classification: DataClassification['level'] } {
+    if (!this.legacyKeys) {
+      this.legacyKeys = getLegacyKeysFromEnv();
+    }
+
+    const password = this.legacyKeys.get(encryptedData.keyId);
+    if (!password) {
+      throw new Error('Encryption key not found');
+    }
+
+    // The old scheme bound an unrecorded classification and timestamp, so try the plausible ones
+    const legacy = decryptLegacy(password, encryptedData, legacyClassificationAads(encryptedData.encryptedAt));
+    if (!legacy) {
+      throw new Error('Legacy record failed authentication');
+    }
+    return { data: legacy.data, classification: JSON.parse(legacy.aad!.toString()).classification };
+  }
+
+  /**
+   * Activates a new data key. Existing records stay readable and are moved onto it by the
+   * re-encryption job.
+   */
+  async rotateEncryptionKey(): Promise<string> {
+    try {
+      const key = await this.keyring.rotate();
+      return key.id;
 
     } catch (error) {
       logger.error({
@@ -301,10 +258,7 @@ export class EncryptionService {
   }
 
   getCurrentKeyStatus(): { keyId: string; expiresAt: Date; status: string } {
-    const key = this.encryptionKeys.get(this.currentKeyId);
-    if (!key) {
-      throw new Error('No current encryption key found');
-    }
+    const key = this.keyring.getActiveKeyInfo();
 
     return {
       keyId: key.id,
@@ -314,18 +268,8 @@ export class EncryptionService {
   }
 
   getKeyRotationStatus(): { daysUntilExpiration: number; needsRotation: boolean } {
-    const key = this.encryptionKeys.get(this.currentKeyId);
-    if (!key) {
-      return { daysUntilExpiration: 0, needsRotation: true };
-    }
-
-    const now = new Date();
-    const daysUntilExpiration = Math.ceil((key.expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
-
-    return {
-      daysUntilExpiration: Math.max(0, daysUntilExpiration),
-      needsRotation: daysUntilExpiration <= 30 // Rotate if 30 days or less remaining
-    };
+    const { daysUntilExpiration, needsRotation } = this.keyring.getRotationStatus();
+    return { daysUntilExpiration, needsRotation };
   }
 
   async validateEncryptionIntegrity(testData: string = 'HIPAA_ENCRYPTION_TEST'): Promise<boolean> {
@@ -352,44 +296,30 @@ export class EncryptionService {
     }
   }
 
-  // Emergency key compromise handling
+  // Emergency key compromise handling. The re-encryption job moves its records onto fresh data keys.
   async compromiseKey(keyId: string, reason: string): Promise<void> {
-    const key = this.encryptionKeys.get(keyId);
-    if (!key) {
-      throw new Error('Key not found');
-    }
-
-    key.status = 'compromised';
-
-    // Immediately rotate to new key
-    await this.rotateEncryptionKey();
-
-    logger.warn({
-      compromisedKeyId: keyId,
-      reason,
-      newKeyId: this.currentKeyId
-    }, 'Encryption key compromised and rotated');
+    await this.keyring.compromise(keyId, reason);
   }
 
   // Get encryption statistics for compliance reporting
   getEncryptionStats(): {
     totalKeys: number;
     activeKeys: number;
-    expiredKeys: number;
+    retiredKeys: number;
     compromisedKeys: number;
     currentKeyId: string;
     lastRotation: Date;
   } {
-    const keys = Array.from(this.encryptionKeys.values());
-    const currentKey = this.encryptionKeys.get(this.currentKeyId);
+    const keys = this.keyring.listKeys();
+    const currentKey = this.keyring.getActiveKeyInfo();
 
     return {
       totalKeys: keys.length,
       activeKeys: keys.filter(k => k.status === 'active').length,
-      expiredKeys: keys.filter(k => k.status === 'expired').length,
+      retiredKeys: keys.filter(k => k.status === 'retired').length,
       compromisedKeys: keys.filter(k => k.status === 'compromised').length,
-      currentKeyId: this.currentKeyId,
-      lastRotation: currentKey?.createdAt || new Date()
+      currentKeyId: currentKey.id,
+      lastRotation: currentKey.createdAt
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { logger } from '@/lib/logger';
+
+export const ENVELOPE_ALGORITHM = 'aes-256-gcm';
+export const ENVELOPE_VERSION = 2; // Version 1 is the createCipher scheme this replaced
+
+const IV_BYTES = 12; // The GCM standard nonce size
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * A key that wraps per-record data keys. Only the active key wraps new data keys; any key
+ * still held can unwrap, except that a compromised key is only used to re-encrypt.
+ */
+export interface WrappingKey {
+  id: string;
+  key: Buffer;
+  status: 'active' | 'retired' | 'expired' | 'compromised';
+}
+
+export interface KeyProvider {
+  activeKey(): Promise<WrappingKey>;
+  key(id: string): Promise<WrappingKey | null>;
+}
+
+/**
+ * One encrypted record. The data key that encrypted it travels with it, wrapped by `keyId`.
+ * AAD is authenticated but not encrypted, and is stored so decryption doesn't have to rebuild it.
+ * Binary fields are base64.
+ */
+export interface Envelope {
+  version: typeof ENVELOPE_VERSION;
+  algorithm: typeof ENVELOPE_ALGORITHM;
+  keyId: string;
+  wrappedKey: string; // iv | tag | encrypted data key
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  aad?: string;
+}
+
+export class EnvelopeDecryptionError extends Error {
+  constructor(message: string, public keyId?: string) {
+    super(message);
+    this.name = 'EnvelopeDecryptionError';
+  }
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ENVELOPE_ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad?: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ENVELOPE_ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  if (aad) decipher.setAAD(aad);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function generateKey(): Buffer {
+  return crypto.randomBytes(KEY_BYTES);
+}
+
+/**
+ * Wraps a key as base64 `iv | tag | ciphertext`. The wrapping key's ID is the AAD, so a wrapped key
+ * can't be passed off as wrapped by another key.
+ */
+export function wrapKey(key: Buffer, wrapping: WrappingKey): string {
+  const wrapped = seal(wrapping.key, key, Buffer.from(wrapping.id, 'utf8'));
+  return Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64');
+}
+
+// Throws if the wrapped key fails authentication
+export function unwrapKey(wrappedKey: string, wrapping: WrappingKey): Buffer {
+  const wrapped = Buffer.from(wrappedKey, 'base64');
+  return open(
+    wrapping.key,
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+    wrapped.subarray(IV_BYTES + TAG_BYTES),
+    Buffer.from(wrapping.id, 'utf8')
+  );
+}
+
+/**
+ * AES-256-GCM envelope encryption. Each record gets a fresh data key and nonce, and the data key
+ * is stored wrapped by the provider's active key. Rotating the wrapping key only means re-wrapping
+ * data keys, not re-encrypting data.
+ */
+export class EnvelopeEncryption {
+  constructor(private keys: KeyProvider) {}
+
+  async encrypt(plaintext: string | Buffer, aad?: string): Promise<Envelope> {
+    const wrapping = await this.keys.activeKey();
+    if (wrapping.status !== 'active') {
+      throw new Error(`Wrapping key ${wrapping.id} is ${wrapping.status}, not active`);
+    }
+
+    const dataKey = generateKey();
+    try {
+      const sealed = seal(
+        dataKey,
+        typeof plaintext === 'string' ? Buffer.from(plaintext, 'utf8') : plaintext,
+        aad === undefined ? undefined : Buffer.from(aad, 'utf8')
+      );
+
+      return {
+        version: ENVELOPE_VERSION,
+        algorithm: ENVELOPE_ALGORITHM,
+        keyId: wrapping.id,
+        wrappedKey: wrapKey(dataKey, wrapping),
+        iv: sealed.iv.toString('base64'),
+        tag: sealed.tag.toString('base64'),
+        ciphertext: sealed.ciphertext.toString('base64'),
+        ...(aad !== undefined && { aad }),
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Pass `expectedAad` to also check the record belongs where it was found, e.g. that a stored
+   * field wasn't copied from another row.
+   */
+  async decrypt(envelope: Envelope, expectedAad?: string): Promise<Buffer> {
+    if (expectedAad !== undefined && envelope.aad !== expectedAad) {
+      throw new EnvelopeDecryptionError('Envelope AAD does not match the expected context', envelope.keyId);
+    }
+
+    const wrapping = await this.wrappingKeyFor(envelope);
+    if (wrapping.status === 'compromised') {
+      throw new EnvelopeDecryptionError(`Wrapping key ${envelope.keyId} has been compromised`, envelope.keyId);
+    }
+    return this.open(envelope, wrapping);
+  }
+
+  async decryptString(envelope: Envelope, expectedAad?: string): Promise<string> {
+    return (await this.decrypt(envelope, expectedAad)).toString('utf8');
+  }
+
+  /**
+   * Moves a record onto the active wrapping key. Normally only the data key is re-wrapped and the
+   * ciphertext is untouched; under a compromised key the data keys may have leaked too, so the record
+   * is re-encrypted with a fresh data key. Returns the envelope unchanged if it is already current.
+   */
+  async rewrap(envelope: Envelope): Promise<Envelope> {
+    const active = await this.keys.activeKey();
+    if (envelope.keyId === active.id) {
+      return envelope;
+    }
+
+    const current = await this.wrappingKeyFor(envelope);
+    if (current.status === 'compromised') {
+      return this.encrypt(this.open(envelope, current), envelope.aad);
+    }
+
+    const dataKey = this.unwrapDataKey(envelope, current);
+    try {
+      return { ...envelope, keyId: active.id, wrappedKey: wrapKey(dataKey, active) };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  private async wrappingKeyFor(envelope: Envelope): Promise<WrappingKey> {
+    if (envelope.version !== ENVELOPE_VERSION || envelope.algorithm !== ENVELOPE_ALGORITHM) {
+      throw new EnvelopeDecryptionError(`Unsupported envelope version ${envelope.version} (${envelope.algorithm})`);
+    }
+
+    const wrapping = await this.keys.key(envelope.keyId);
+    if (!wrapping) {
+      throw new EnvelopeDecryptionError(`Wrapping key ${envelope.keyId} not found`, envelope.keyId);
+    }
+    return wrapping;
+  }
+
+  private unwrapDataKey(envelope: Envelope, wrapping: WrappingKey): Buffer {
+    try {
+      return unwrapKey(envelope.wrappedKey, wrapping);
+    } catch {
+      throw new EnvelopeDecryptionError('Wrapped data key failed authentication', envelope.keyId);
+    }
+  }
+
+  private open(envelope: Envelope, wrapping: WrappingKey): Buffer {
+    const dataKey = this.unwrapDataKey(envelope, wrapping);
+    try {
+      return open(
+        dataKey,
+        Buffer.from(envelope.iv, 'base64'),
+        Buffer.from(envelope.tag, 'base64'),
+        Buffer.from(envelope.ciphertext, 'base64'),
+        envelope.aad === undefined ? undefined : Buffer.from(envelope.aad, 'utf8')
+      );
+    } catch {
+      // GCM doesn't say which part failed; tampered ciphertext and tampered AAD look the same
+      throw new EnvelopeDecryptionError('Envelope failed authentication', envelope.keyId);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+}
+
+export function isEnvelope(value: unknown): value is Envelope {
+  const candidate = value as Envelope | null;
+  return typeof candidate === 'object' && candidate !== null
+    && candidate.version === ENVELOPE_VERSION
+    && typeof candidate.wrappedKey === 'string'
+    && typeof candidate.ciphertext === 'string';
+}
+
+export const SERIALIZED_ENVELOPE_PREFIX = 'enc:';
+
+/**
+ * Packs an envelope into one string for a text column: `enc:v<version>:<keyId>:<base64 JSON>`.
+ * The key ID is kept readable so stores can find records under an old key with a prefix match.
+ */
+export function serializeEnvelope(envelope: Envelope): string {
+  const payload = Buffer.from(JSON.stringify(envelope), 'utf8').toString('base64');
+  return `${serializedEnvelopePrefix(envelope.keyId, envelope.version)}${payload}`;
+}
+
+export function serializedEnvelopePrefix(keyId: string, version: number = ENVELOPE_VERSION): string {
+  return `${SERIALIZED_ENVELOPE_PREFIX}v${version}:${keyId}:`;
+}
+
+export function isSerializedEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(SERIALIZED_ENVELOPE_PREFIX);
+}
+
+// Throws if the value isn't a serialized envelope, or its prefix doesn't match its contents
+export function parseSerializedEnvelope(value: string): Envelope {
+  const match = /^enc:v(\d+):([^:]+):(.+)$/.exec(value);
+  if (!match) {
+    throw new EnvelopeDecryptionError('Value is not a serialized envelope');
+  }
+
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(Buffer.from(match[3], 'base64').toString('utf8'));
+  } catch {
+    throw new EnvelopeDecryptionError('Serialized envelope is malformed', match[2]);
+  }
+  if (!isEnvelope(envelope) || envelope.keyId !== match[2] || String(envelope.version) !== match[1]) {
+    throw new EnvelopeDecryptionError('Serialized envelope is malformed', match[2]);
+  }
+  return envelope;
+}
+
+/**
+ * Parses a 32-byte key given as base64 or hex
+ */
+export function parseKey(value: string, name: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be a 32-byte key, base64 or hex encoded (e.g. \`openssl rand -base64 32\`)`);
+  }
+  return key;
+}
+
+// A stable ID that changes when the key does, without revealing anything about it
+export function keyFingerprint(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
+
+let ephemeralMasterKey: Buffer | null = null;
+
+/**
+ * The master key from ENCRYPTION_MASTER_KEY. Outside production a missing key is replaced by a
+ * random one for the life of the process, so anything encrypted with it is lost on restart.
+ */
+export function getMasterKeyFromEnv(): WrappingKey {
+  const configured = process.env.ENCRYPTION_MASTER_KEY;
+  let key: Buffer;
+
+  if (configured) {
+    key = parseKey(configured, 'ENCRYPTION_MASTER_KEY');
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('ENCRYPTION_MASTER_KEY must be set in production');
+  } else {
+    if (!ephemeralMasterKey) {
+      ephemeralMasterKey = generateKey();
+      logger.warn('ENCRYPTION_MASTER_KEY is not set; using an ephemeral master key. Encrypted data will not survive a restart.');
+    }
+    key = ephemeralMasterKey;
+  }
+
+  return { id: `master-${keyFingerprint(key)}`, key, status: 'active' };
+}
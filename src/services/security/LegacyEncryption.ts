@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { parseKey } from './EnvelopeEncryption';
+
+/**
+ * Reads records written by the old `crypto.createCipher('aes-256-gcm', key)` scheme, so they can be
+ * re-encrypted as envelopes. createCipher ignored the stored IV and derived the real key and nonce from
+ * the key with OpenSSL's EVP_BytesToKey (MD5, one round, no salt), which is reproduced here for
+ * createDecipheriv. Nothing new is ever written this way.
+ */
+
+export interface LegacyCiphertext {
+  ciphertext: string; // hex
+  tag?: string; // hex
+}
+
+const LEGACY_KEY_BYTES = 32;
+const LEGACY_IV_BYTES = 12;
+
+// EncryptionService bound every record to `{ classification, timestamp }`, with the timestamp taken
+// just before `encryptedAt`. Neither was stored, so decryption tries each candidate in turn.
+const LEGACY_CLASSIFICATIONS = ['phi', 'confidential', 'restricted', 'internal', 'public'];
+export const LEGACY_AAD_WINDOW_MS = 1000;
+
+function bytesToKey(password: Buffer): { key: Buffer; iv: Buffer } {
+  const blocks: Buffer[] = [];
+  let previous = Buffer.alloc(0);
+  let length = 0;
+
+  while (length < LEGACY_KEY_BYTES + LEGACY_IV_BYTES) {
+    previous = crypto.createHash('md5').update(Buffer.concat([previous, password])).digest();
+    blocks.push(previous);
+    length += previous.length;
+  }
+
+  const derived = Buffer.concat(blocks);
+  return {
+    key: derived.subarray(0, LEGACY_KEY_BYTES),
+    iv: derived.subarray(LEGACY_KEY_BYTES, LEGACY_KEY_BYTES + LEGACY_IV_BYTES),
+  };
+}
+
+export interface LegacyPlaintext {
+  data: string;
+  aad?: Buffer; // The candidate that authenticated
+}
+
+/**
+ * Tries each AAD candidate (`undefined` for none) and returns the plaintext for the first one that
+ * authenticates, or null if none does
+ */
+export function decryptLegacy(
+  password: Buffer,
+  record: LegacyCiphertext,
+  aadCandidates: Iterable<Buffer | undefined> = [undefined]
+): LegacyPlaintext | null {
+  if (!record.tag) {
+    return null;
+  }
+
+  const { key, iv } = bytesToKey(password);
+  const ciphertext = Buffer.from(record.ciphertext, 'hex');
+  const tag = Buffer.from(record.tag, 'hex');
+
+  for (const aad of aadCandidates) {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      if (aad) decipher.setAAD(aad);
+      return { data: Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8'), aad };
+    } catch {
+      // Wrong candidate; try the next
+    }
+  }
+  return null;
+}
+
+/**
+ * The AADs EncryptionService may have used for a record encrypted at `encryptedAt`, most likely first
+ */
+export function* legacyClassificationAads(encryptedAt: Date): Generator<Buffer> {
+  const end = new Date(encryptedAt).getTime();
+  for (let offset = 0; offset <= LEGACY_AAD_WINDOW_MS; offset++) {
+    for (const classification of LEGACY_CLASSIFICATIONS) {
+      yield Buffer.from(JSON.stringify({ classification, timestamp: end - offset }));
+    }
+  }
+}
+
+/**
+ * Keys from the old scheme by key ID, from LEGACY_ENCRYPTION_KEYS. Only needed until their records
+ * have been migrated.
+ */
+export function getLegacyKeysFromEnv(): Map<string, Buffer> {
+  const raw = process.env.LEGACY_ENCRYPTION_KEYS;
+  const keys = new Map<string, Buffer>();
+  if (!raw) return keys;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('LEGACY_ENCRYPTION_KEYS must be a JSON object of key IDs to keys');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('LEGACY_ENCRYPTION_KEYS must be a JSON object of key IDs to keys');
+  }
+
+  for (const [keyId, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof value !== 'string') {
+      throw new Error(`LEGACY_ENCRYPTION_KEYS.${keyId} must be a string`);
+    }
+    keys.set(keyId, parseKey(value, `LEGACY_ENCRYPTION_KEYS.${keyId}`));
+  }
+  return keys;
+}
@@ -0,0 +1,51 @@
+import { logger } from '@/lib/logger';
+import {
+  Envelope,
+  parseSerializedEnvelope,
+  serializeEnvelope,
+  serializedEnvelopePrefix,
+} from '../EnvelopeEncryption';
+import type { EncryptedRecord, EncryptedRecordSource, KeyDomain } from '../keyring';
+import type { EncryptedFieldSpec } from './EncryptedFields';
+import type { EncryptedFieldStore } from './EncryptedFieldStore';
+
+/**
+ * One encrypted column as a source for the re-encryption job. The key ID in each value's prefix is
+ * what makes a row stale, so finding them is a prefix match rather than a decrypt.
+ */
+export class EncryptedFieldSource implements EncryptedRecordSource {
+  readonly domain: KeyDomain;
+  readonly name: string;
+
+  constructor(private spec: EncryptedFieldSpec, private store: EncryptedFieldStore) {
+    this.domain = spec.domain ?? 'data';
+    this.name = `${spec.table}.${spec.field}`;
+  }
+
+  async findStale(activeKeyId: string, limit: number): Promise<EncryptedRecord[]> {
+    const rows = await this.store.findStale(this.spec, serializedEnvelopePrefix(activeKeyId), limit);
+    const records: EncryptedRecord[] = [];
+
+    for (const row of rows) {
+      try {
+        records.push({ id: row.id, envelope: parseSerializedEnvelope(String(row.value)) });
+      } catch (error) {
+        logger.error({
+          source: this.name,
+          recordId: row.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Encrypted field value is malformed');
+      }
+    }
+    return records;
+  }
+
+  countStale(activeKeyId: string): Promise<number> {
+    return this.store.countStale(this.spec, serializedEnvelopePrefix(activeKeyId));
+  }
+
+  async save(record: EncryptedRecord, envelope: Envelope): Promise<void> {
+    // Skipped if the row was rewritten since it was read; a new write is already under the active key
+    await this.store.replace(this.spec, record.id, serializeEnvelope(record.envelope), serializeEnvelope(envelope));
+  }
+}
@@ -0,0 +1,28 @@
+import type { EncryptedFieldSpec } from './EncryptedFields';
+
+/**
+ * A row's stored value for one encrypted field, as it is in the database: a serialized envelope once
+ * encrypted, plaintext (or a plain JSON value) before the backfill reaches it.
+ */
+export interface EncryptedFieldRow {
+  id: string;
+  value: unknown;
+}
+
+/**
+ * Direct access to encrypted columns, bypassing the client extension, for the backfill and the
+ * re-encryption job.
+ */
+export interface EncryptedFieldStore {
+  // Rows with a value that isn't encrypted yet, in ID order after `afterId`
+  findPlaintext(spec: EncryptedFieldSpec, limit: number, afterId?: string): Promise<EncryptedFieldRow[]>;
+  countPlaintext(spec: EncryptedFieldSpec): Promise<number>;
+  // Encrypted rows whose value doesn't start with `currentPrefix`
+  findStale(spec: EncryptedFieldSpec, currentPrefix: string, limit: number): Promise<EncryptedFieldRow[]>;
+  countStale(spec: EncryptedFieldSpec, currentPrefix: string): Promise<number>;
+  /**
+   * Writes `value` (and the blind index, if given) only if the row still holds `previous`. Returns false
+   * if it was changed or deleted in the meantime.
+   */
+  replace(spec: EncryptedFieldSpec, id: string, previous: unknown, value: string, blindIndex?: string): Promise<boolean>;
+}
@@ -0,0 +1,69 @@
+import type { KeyDomain } from '../keyring';
+
+/**
+ * A column encrypted at rest. `json` columns hold the encrypted JSON text as a JSON string.
+ * `blindIndex` names a column kept in step with an HMAC of the plaintext, so equality filters on
+ * the field can be rewritten to filters on the index.
+ */
+export interface EncryptedFieldSpec {
+  model: string;
+  field: string;
+  table: string;
+  json?: boolean;
+  blindIndex?: string;
+  domain?: KeyDomain; // The keyring its values are under; 'data' unless given
+}
+
+export const ENCRYPTED_FIELDS: EncryptedFieldSpec[] = [
+  { model: 'Message', field: 'content', table: 'messages', blindIndex: 'contentIndex' },
+  { model: 'CrisisAssessment', field: 'reviewNotes', table: 'crisis_assessments' },
+  { model: 'CrisisAssessment', field: 'escalationNotes', table: 'crisis_assessments' },
+  { model: 'UserPreferences', field: 'conversationPatterns', table: 'user_preferences', json: true },
+];
+
+/**
+ * Provider API keys are encrypted by ApiKeyService itself, so they are only decrypted when used rather
+ * than on every read through the client extension. Their column is still moved by the re-encryption job.
+ */
+export const API_KEY_FIELD: EncryptedFieldSpec = {
+  model: 'ApiKey',
+  field: 'encryptedKey',
+  table: 'api_keys',
+  domain: 'credentials',
+};
+
+/**
+ * Relation fields through which encrypted models can be reached, per model, to the related model.
+ * Nested writes, relation filters and included results are followed through these.
+ */
+export const ENCRYPTED_FIELD_RELATIONS: Record<string, Record<string, string>> = {
+  User: {
+    conversations: 'Conversation',
+    crisisAssessments: 'CrisisAssessment',
+    preferences: 'UserPreferences',
+  },
+  Conversation: {
+    user: 'User',
+    messages: 'Message',
+    crisisAssessments: 'CrisisAssessment',
+  },
+  Message: {
+    conversation: 'Conversation',
+  },
+  CrisisAssessment: {
+    conversation: 'Conversation',
+    user: 'User',
+  },
+  UserPreferences: {
+    user: 'User',
+  },
+};
+
+export function encryptedFieldsOf(model: string): EncryptedFieldSpec[] {
+  return ENCRYPTED_FIELDS.filter(spec => spec.model === model);
+}
+
+// The AAD every value of the field is bound to, so ciphertext can't be moved to another column
+export function fieldContext(spec: EncryptedFieldSpec): string {
+  return `${spec.model}.${spec.field}`;
+}
@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import {
+  EnvelopeEncryption,
+  KeyProvider,
+  WrappingKey,
+  getMasterKeyFromEnv,
+  isSerializedEnvelope,
+  parseSerializedEnvelope,
+  serializeEnvelope,
+} from '../EnvelopeEncryption';
+import { getKeyring } from '../keyring';
+import {
+  ENCRYPTED_FIELD_RELATIONS,
+  EncryptedFieldSpec,
+  encryptedFieldsOf,
+  fieldContext,
+} from './EncryptedFields';
+
+type Args = Record<string, unknown>;
+
+// Filter operators that can be answered from a blind index; anything else needs the plaintext
+const BLIND_INDEX_OPERATORS = ['equals', 'in', 'notIn', 'not'];
+const RELATION_FILTER_OPERATORS = ['some', 'every', 'none', 'is', 'isNot'];
+
+export class EncryptedFieldQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptedFieldQueryError';
+  }
+}
+
+export class FieldDecryptionError extends Error {
+  constructor(message: string, public field: string) {
+    super(message);
+    this.name = 'FieldDecryptionError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Args {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Text columns take strings and JSON columns any JSON value; Prisma's JSON null sentinels are left alone
+function isEncryptable(spec: EncryptedFieldSpec, value: unknown): boolean {
+  if (typeof value === 'string') return true;
+  return !!spec.json && value !== null && value !== undefined
+    && (typeof value !== 'object' || Array.isArray(value) || isPlainObject(value));
+}
+
+async function mapOneOrMany(value: unknown, fn: (item: unknown) => Promise<unknown> | unknown): Promise<unknown> {
+  return Array.isArray(value) ? Promise.all(value.map(fn)) : fn(value);
+}
+
+/**
+ * The HMAC key for blind indexes, derived from the master key rather than a rotating domain key so an
+ * index stays valid across rotations. Replacing the master key means rebuilding the indexes.
+ */
+export function deriveBlindIndexKey(master: WrappingKey): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', master.key, Buffer.alloc(0), 'field-encryption:blind-index', 32));
+}
+
+/**
+ * Encrypts the columns in ENCRYPTED_FIELDS on the way into Prisma and decrypts them on the way out,
+ * including through nested writes, relation filters and included relations. Values are stored as
+ * serialized envelopes under the `data` keyring, bound to their column by AAD.
+ *
+ * Rows written before a column was encrypted still read back as they are until the backfill has run.
+ * Filters on an encrypted column are limited to equality, answered through its blind index; other
+ * operators throw rather than silently matching against ciphertext.
+ */
+export class FieldEncryption {
+  private envelopes: EnvelopeEncryption;
+
+  constructor(
+    keys: KeyProvider = getKeyring('data'),
+    private blindIndexKey: Buffer = deriveBlindIndexKey(getMasterKeyFromEnv())
+  ) {
+    this.envelopes = new EnvelopeEncryption(keys);
+  }
+
+  /**
+   * Runs one Prisma operation on `model`, encrypting its writes, rewriting its filters and decrypting
+   * its result. Used as the `$allOperations` hook of the client extension.
+   */
+  async run<T>(model: string, operation: string, args: unknown, query: (args: unknown) => Promise<T>): Promise<T> {
+    if (!ENCRYPTED_FIELD_RELATIONS[model]) {
+      return query(args);
+    }
+
+    const result = await query(await this.prepareArgs(model, operation, args));
+    return await this.decryptResult(model, result) as T;
+  }
+
+  async encryptValue(spec: EncryptedFieldSpec, value: unknown): Promise<string> {
+    const plaintext = spec.json ? JSON.stringify(value) : String(value);
+    return serializeEnvelope(await this.envelopes.encrypt(plaintext, fieldContext(spec)));
+  }
+
+  /**
+   * Returns values that aren't serialized envelopes unchanged: nulls, and rows not yet backfilled
+   */
+  async decryptValue(spec: EncryptedFieldSpec, stored: unknown): Promise<unknown> {
+    if (!isSerializedEnvelope(stored)) {
+      return stored;
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = await this.envelopes.decryptString(parseSerializedEnvelope(stored), fieldContext(spec));
+    } catch (error) {
+      throw new FieldDecryptionError(
+        `Failed to decrypt ${fieldContext(spec)}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        fieldContext(spec)
+      );
+    }
+    return spec.json ? JSON.parse(plaintext) : plaintext;
+  }
+
+  blindIndex(spec: EncryptedFieldSpec, value: string): string {
+    return crypto.createHmac('sha256', this.blindIndexKey)
+      .update(`${fieldContext(spec)}\0${value.normalize('NFC')}`)
+      .digest('hex');
+  }
+
+  async prepareArgs(model: string, operation: string, args: unknown): Promise<unknown> {
+    if (!isPlainObject(args)) {
+      return args;
+    }
+
+    const prepared: Args = { ...args };
+    if ('where' in args) prepared.where = this.prepareWhere(model, args.where);
+    if ('data' in args) prepared.data = await this.prepareData(model, args.data);
+    if (operation === 'upsert') {
+      prepared.create = await this.prepareData(model, args.create);
+      prepared.update = await this.prepareData(model, args.update);
+    }
+    if ('include' in args) prepared.include = this.prepareSelection(model, args.include);
+    if ('select' in args) prepared.select = this.prepareSelection(model, args.select);
+    return prepared;
+  }
+
+  async decryptResult(model: string, result: unknown): Promise<unknown> {
+    if (Array.isArray(result)) {
+      return Promise.all(result.map(item => this.decryptResult(model, item)));
+    }
+    if (!isPlainObject(result)) {
+      return result;
+    }
+
+    const decrypted: Args = { ...result };
+    for (const spec of encryptedFieldsOf(model)) {
+      if (spec.field in decrypted) {
+        decrypted[spec.field] = await this.decryptValue(spec, decrypted[spec.field]);
+      }
+    }
+    for (const [relation, target] of Object.entries(ENCRYPTED_FIELD_RELATIONS[model] ?? {})) {
+      if (decrypted[relation]) {
+        decrypted[relation] = await this.decryptResult(target, decrypted[relation]);
+      }
+    }
+    return decrypted;
+  }
+
+  private async prepareData(model: string, data: unknown): Promise<unknown> {
+    if (Array.isArray(data)) {
+      return Promise.all(data.map(item => this.prepareData(model, item)));
+    }
+    if (!isPlainObject(data)) {
+      return data;
+    }
+
+    const prepared: Args = { ...data };
+    for (const spec of encryptedFieldsOf(model)) {
+      let value = data[spec.field];
+      if (!spec.json && isPlainObject(value) && 'set' in value) {
+        value = value.set;
+      }
+
+      if (isEncryptable(spec, value)) {
+        prepared[spec.field] = await this.encryptValue(spec, value);
+        if (spec.blindIndex) prepared[spec.blindIndex] = this.blindIndex(spec, value as string);
+      } else if (value === null) {
+        prepared[spec.field] = null;
+        if (spec.blindIndex) prepared[spec.blindIndex] = null;
+      }
+      // Anything else (undefined, Prisma.DbNull / JsonNull) passes through untouched
+    }
+
+    for (const [relation, target] of Object.entries(ENCRYPTED_FIELD_RELATIONS[model] ?? {})) {
+      if (isPlainObject(data[relation])) {
+        prepared[relation] = await this.prepareNestedWrite(target, data[relation]);
+      }
+    }
+    return prepared;
+  }
+
+  private async prepareNestedWrite(model: string, operations: Args): Promise<Args> {
+    const prepared: Args = { ...operations };
+
+    for (const [operation, value] of Object.entries(operations)) {
+      switch (operation) {
+        case 'create':
+          prepared.create = await this.prepareData(model, value);
+          break;
+        case 'createMany':
+          prepared.createMany = isPlainObject(value) ? { ...value, data: await this.prepareData(model, value.data) } : value;
+          break;
+        case 'connectOrCreate':
+          prepared.connectOrCreate = await mapOneOrMany(value, async item => isPlainObject(item)
+            ? { ...item, create: await this.prepareData(model, item.create) }
+            : item);
+          break;
+        case 'update':
+        case 'updateMany':
+          // To-one updates may give the data directly instead of `{ where, data }`
+          prepared[operation] = await mapOneOrMany(value, async item => isPlainObject(item) && isPlainObject(item.data)
+            ? { ...item, ...('where' in item && { where: this.prepareWhere(model, item.where) }), data: await this.prepareData(model, item.data) }
+            : this.prepareData(model, item));
+          break;
+        case 'upsert':
+          prepared.upsert = await mapOneOrMany(value, async item => isPlainObject(item)
+            ? {
+              ...item,
+              ...('where' in item && { where: this.prepareWhere(model, item.where) }),
+              create: await this.prepareData(model, item.create),
+              update: await this.prepareData(model, item.update),
+            }
+            : item);
+          break;
+        case 'deleteMany':
+          prepared.deleteMany = await mapOneOrMany(value, item => this.prepareWhere(model, item));
+          break;
+      }
+    }
+    return prepared;
+  }
+
+  private prepareWhere(model: string, where: unknown): unknown {
+    if (Array.isArray(where)) {
+      return where.map(item => this.prepareWhere(model, item));
+    }
+    if (!isPlainObject(where)) {
+      return where;
+    }
+
+    const prepared: Args = {};
+    for (const [key, value] of Object.entries(where)) {
+      const spec = encryptedFieldsOf(model).find(candidate => candidate.field === key);
+      const relation = ENCRYPTED_FIELD_RELATIONS[model]?.[key];
+
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        prepared[key] = this.prepareWhere(model, value);
+      } else if (spec) {
+        Object.assign(prepared, this.rewriteFieldFilter(spec, value));
+      } else if (relation && isPlainObject(value)) {
+        prepared[key] = Object.keys(value).some(operator => RELATION_FILTER_OPERATORS.includes(operator))
+          ? Object.fromEntries(Object.entries(value).map(([operator, filter]) => [operator, this.prepareWhere(relation, filter)]))
+          : this.prepareWhere(relation, value);
+      } else {
+        prepared[key] = value;
+      }
+    }
+    return prepared;
+  }
+
+  /**
+   * Null checks stay on the column itself, since nulls aren't encrypted. Equality is moved onto the
+   * blind index.
+   */
+  private rewriteFieldFilter(spec: EncryptedFieldSpec, filter: unknown): Args {
+    // null, or one of Prisma's JSON null sentinels
+    if (filter === null || (typeof filter === 'object' && !isPlainObject(filter))) {
+      return { [spec.field]: filter };
+    }
+
+    const operators: Args = typeof filter === 'string' ? { equals: filter } : isPlainObject(filter) ? filter : {};
+    const nullChecks: Args = {};
+    const indexFilter: Args = {};
+
+    for (const [operator, operand] of Object.entries(operators)) {
+      if (!BLIND_INDEX_OPERATORS.includes(operator)) {
+        throw new EncryptedFieldQueryError(`${fieldContext(spec)} is encrypted; '${operator}' filters on it are not supported`);
+      }
+
+      if (operand === null || (typeof operand === 'object' && !Array.isArray(operand) && !isPlainObject(operand))) {
+        nullChecks[operator] = operand;
+      } else if (!spec.blindIndex) {
+        throw new EncryptedFieldQueryError(`${fieldContext(spec)} is encrypted without a blind index; it can only be filtered by null`);
+      } else if (typeof operand === 'string') {
+        indexFilter[operator] = this.blindIndex(spec, operand);
+      } else if (Array.isArray(operand) && operand.every(item => typeof item === 'string')) {
+        indexFilter[operator] = operand.map(item => this.blindIndex(spec, item));
+      } else {
+        throw new EncryptedFieldQueryError(`${fieldContext(spec)} is encrypted; only string equality filters on it are supported`);
+      }
+    }
+
+    return {
+      ...(Object.keys(nullChecks).length > 0 && { [spec.field]: nullChecks }),
+      ...(Object.keys(indexFilter).length > 0 && { [spec.blindIndex!]: indexFilter }),
+    };
+  }
+
+  private prepareSelection(model: string, selection: unknown): unknown {
+    if (!isPlainObject(selection)) {
+      return selection;
+    }
+
+    const prepared: Args = { ...selection };
+    for (const [relation, target] of Object.entries(ENCRYPTED_FIELD_RELATIONS[model] ?? {})) {
+      const value = selection[relation];
+      if (!isPlainObject(value)) continue;
+
+      prepared[relation] = {
+        ...value,
+        ...('where' in value && { where: this.prepareWhere(target, value.where) }),
+        ...('include' in value && { include: this.prepareSelection(target, value.include) }),
+        ...('select' in value && { select: this.prepareSelection(target, value.select) }),
+      };
+    }
+    return prepared;
+  }
+}
@@ -0,0 +1,88 @@
+import { loadPrisma, loadPrismaNamespace } from '@/lib/prisma-loader';
+import { SERIALIZED_ENVELOPE_PREFIX } from '../EnvelopeEncryption';
+import type { EncryptedFieldSpec } from './EncryptedFields';
+import type { EncryptedFieldRow, EncryptedFieldStore } from './EncryptedFieldStore';
+
+/**
+ * Raw SQL over the encrypted columns. Raw queries don't go through the client extension, so values
+ * are read and written exactly as stored. Identifiers come from ENCRYPTED_FIELDS, never from input.
+ */
+export class PgEncryptedFieldStore implements EncryptedFieldStore {
+  async findPlaintext(spec: EncryptedFieldSpec, limit: number, afterId?: string): Promise<EncryptedFieldRow[]> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { table, column, text } = identifiers(Prisma, spec);
+
+    return prisma.$queryRaw<EncryptedFieldRow[]>`
+      SELECT "id", ${column} AS "value"
+      FROM ${table}
+      WHERE NOT starts_with(${text}, ${SERIALIZED_ENVELOPE_PREFIX})
+        ${afterId ? Prisma.sql`AND "id" > ${afterId}` : Prisma.empty}
+      ORDER BY "id" ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  async countPlaintext(spec: EncryptedFieldSpec): Promise<number> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { table, text } = identifiers(Prisma, spec);
+
+    const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count" FROM ${table} WHERE NOT starts_with(${text}, ${SERIALIZED_ENVELOPE_PREFIX})
+    `;
+    return Number(count);
+  }
+
+  async findStale(spec: EncryptedFieldSpec, currentPrefix: string, limit: number): Promise<EncryptedFieldRow[]> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { table, column, text } = identifiers(Prisma, spec);
+
+    return prisma.$queryRaw<EncryptedFieldRow[]>`
+      SELECT "id", ${column} AS "value"
+      FROM ${table}
+      WHERE starts_with(${text}, ${SERIALIZED_ENVELOPE_PREFIX})
+        AND NOT starts_with(${text}, ${currentPrefix})
+      LIMIT ${limit}
+    `;
+  }
+
+  async countStale(spec: EncryptedFieldSpec, currentPrefix: string): Promise<number> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { table, text } = identifiers(Prisma, spec);
+
+    const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count"
+      FROM ${table}
+      WHERE starts_with(${text}, ${SERIALIZED_ENVELOPE_PREFIX})
+        AND NOT starts_with(${text}, ${currentPrefix})
+    `;
+    return Number(count);
+  }
+
+  async replace(spec: EncryptedFieldSpec, id: string, previous: unknown, value: string, blindIndex?: string): Promise<boolean> {
+    const [prisma, Prisma] = await Promise.all([loadPrisma(), loadPrismaNamespace()]);
+    const { table, column } = identifiers(Prisma, spec);
+
+    const assignment = spec.json ? Prisma.sql`${column} = to_jsonb(${value}::text)` : Prisma.sql`${column} = ${value}`;
+    const current = spec.json ? Prisma.sql`${column} = ${JSON.stringify(previous)}::jsonb` : Prisma.sql`${column} = ${previous}`;
+    const index = spec.blindIndex && blindIndex !== undefined
+      ? Prisma.sql`, ${Prisma.raw(`"${spec.blindIndex}"`)} = ${blindIndex}`
+      : Prisma.empty;
+
+    const updated = await prisma.$executeRaw`
+      UPDATE ${table} SET ${assignment} ${index} WHERE "id" = ${id} AND ${current}
+    `;
+    return updated > 0;
+  }
+}
+
+type PrismaNamespace = Awaited<ReturnType<typeof loadPrismaNamespace>>;
+
+// JSON columns are compared as the text of their top-level value, which is the envelope once encrypted
+function identifiers(Prisma: PrismaNamespace, spec: EncryptedFieldSpec) {
+  const column = Prisma.raw(`"${spec.field}"`);
+  return {
+    table: Prisma.raw(`"${spec.table}"`),
+    column,
+    text: spec.json ? Prisma.raw(`("${spec.field}" #>> '{}')`) : column,
+  };
+}
@@ -0,0 +1,84 @@
+import { logger } from '@/lib/logger';
+import { ENCRYPTED_FIELDS, EncryptedFieldSpec, fieldContext } from './EncryptedFields';
+import type { EncryptedFieldStore } from './EncryptedFieldStore';
+import type { FieldEncryption } from './FieldEncryption';
+
+export interface BackfillOptions {
+  fields?: EncryptedFieldSpec[];
+  batchSize?: number;
+  dryRun?: boolean; // Only count the rows that would be encrypted
+}
+
+export interface BackfillResult {
+  field: string;
+  pending: number; // Plaintext rows found before the run
+  encrypted: number;
+  skipped: number; // Rows changed by someone else while the backfill ran; already written encrypted
+  failed: number;
+}
+
+/**
+ * Encrypts values written before their column was encrypted, filling in blind indexes on the way.
+ * Each row is only replaced if it still holds the plaintext that was read, so it is safe to run while
+ * the app is serving traffic, and to re-run after an interruption.
+ */
+export async function backfillEncryptedFields(
+  store: EncryptedFieldStore,
+  encryption: FieldEncryption,
+  options: BackfillOptions = {}
+): Promise<BackfillResult[]> {
+  const { fields = ENCRYPTED_FIELDS, batchSize = 500, dryRun = false } = options;
+  const results: BackfillResult[] = [];
+
+  for (const spec of fields) {
+    const result: BackfillResult = {
+      field: fieldContext(spec),
+      pending: await store.countPlaintext(spec),
+      encrypted: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    results.push(result);
+
+    if (dryRun || result.pending === 0) {
+      logger.info({ ...result, dryRun }, 'Encrypted field backfill checked');
+      continue;
+    }
+
+    let afterId: string | undefined;
+    for (;;) {
+      const rows = await store.findPlaintext(spec, batchSize, afterId);
+
+      for (const row of rows) {
+        try {
+          const replaced = await store.replace(
+            spec,
+            row.id,
+            row.value,
+            await encryption.encryptValue(spec, row.value),
+            spec.blindIndex ? encryption.blindIndex(spec, String(row.value)) : undefined
+          );
+          if (replaced) {
+            result.encrypted++;
+          } else {
+            result.skipped++;
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error({
+            field: result.field,
+            recordId: row.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }, 'Encrypted field backfill failed for record');
+        }
+      }
+
+      if (rows.length < batchSize) break;
+      afterId = rows[rows.length - 1].id;
+    }
+
+    logger.info({ ...result }, 'Encrypted field backfill finished');
+  }
+
+  return results;
+}
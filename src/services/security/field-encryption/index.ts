@@ -0,0 +1,49 @@
+import { getReEncryptionJob, ReEncryptionJob } from '../keyring';
+import { API_KEY_FIELD, ENCRYPTED_FIELDS } from './EncryptedFields';
+import { EncryptedFieldStore } from './EncryptedFieldStore';
+import { EncryptedFieldSource } from './EncryptedFieldSource';
+import { FieldEncryption } from './FieldEncryption';
+import { PgEncryptedFieldStore } from './PgEncryptedFieldStore';
+
+export { ENCRYPTED_FIELDS, API_KEY_FIELD, ENCRYPTED_FIELD_RELATIONS, encryptedFieldsOf, fieldContext } from './EncryptedFields';
+export type { EncryptedFieldSpec } from './EncryptedFields';
+export type { EncryptedFieldRow, EncryptedFieldStore } from './EncryptedFieldStore';
+export { PgEncryptedFieldStore } from './PgEncryptedFieldStore';
+export { EncryptedFieldSource } from './EncryptedFieldSource';
+export {
+  FieldEncryption,
+  EncryptedFieldQueryError,
+  FieldDecryptionError,
+  deriveBlindIndexKey,
+} from './FieldEncryption';
+export { backfillEncryptedFields } from './backfill';
+export type { BackfillOptions, BackfillResult } from './backfill';
+
+let defaultFieldEncryption: FieldEncryption | null = null;
+let defaultStore: EncryptedFieldStore | null = null;
+
+/**
+ * The process-wide field encryption used by the Prisma client extension, under the `data` keyring
+ */
+export function getFieldEncryption(): FieldEncryption {
+  if (!defaultFieldEncryption) {
+    defaultFieldEncryption = new FieldEncryption();
+  }
+  return defaultFieldEncryption;
+}
+
+export function getEncryptedFieldStore(): EncryptedFieldStore {
+  if (!defaultStore) {
+    defaultStore = new PgEncryptedFieldStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Hands every encrypted column to the re-encryption job, so rotations move them onto the new key
+ */
+export function registerEncryptedFieldSources(job: ReEncryptionJob = getReEncryptionJob()): void {
+  for (const spec of [...ENCRYPTED_FIELDS, API_KEY_FIELD]) {
+    job.registerSource(new EncryptedFieldSource(spec, getEncryptedFieldStore()));
+  }
+}
@@ -0,0 +1,36 @@
+import { ActiveKeyConflictError, KeyDomain, KeyStore, StoredKey } from './KeyStore';
+
+/**
+ * Process-local store used by tests and local development without Postgres.
+ * Nothing survives a restart, including the keys, so neither does anything encrypted under them.
+ */
+export class InMemoryKeyStore implements KeyStore {
+  private keys: StoredKey[] = [];
+
+  async listKeys(domain: KeyDomain): Promise<StoredKey[]> {
+    return this.keys.filter(key => key.domain === domain).map(key => structuredClone(key));
+  }
+
+  async activateKey(key: StoredKey, previousActiveId: string | null): Promise<void> {
+    const active = this.keys.find(existing => existing.domain === key.domain && existing.status === 'active');
+    if ((active?.id ?? null) !== previousActiveId) {
+      throw new ActiveKeyConflictError(key.domain);
+    }
+
+    if (active) {
+      active.status = 'retired';
+      active.retiredAt = key.createdAt;
+    }
+    this.keys.push(structuredClone({ ...key, status: 'active' }));
+  }
+
+  async markCompromised(id: string, reason: string, at: Date): Promise<StoredKey | null> {
+    const key = this.keys.find(existing => existing.id === id);
+    if (!key) return null;
+
+    key.status = 'compromised';
+    key.compromisedAt = at;
+    key.compromiseReason = reason;
+    return structuredClone(key);
+  }
+}
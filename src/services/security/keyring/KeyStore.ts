@@ -0,0 +1,44 @@
+/**
+ * Each domain has its own keyring, so rotating or compromising one doesn't touch the others
+ */
+export const KEY_DOMAINS = ['data', 'communication', 'credentials'] as const;
+export type KeyDomain = typeof KEY_DOMAINS[number];
+
+export type KeyStatus = 'active' | 'retired' | 'compromised';
+
+/**
+ * A keyring key as persisted. `wrappedKey` is the key material wrapped by the master key `masterKeyId`.
+ */
+export interface StoredKey {
+  id: string;
+  domain: KeyDomain;
+  wrappedKey: string;
+  masterKeyId: string;
+  status: KeyStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  retiredAt?: Date;
+  compromisedAt?: Date;
+  compromiseReason?: string;
+}
+
+export class ActiveKeyConflictError extends Error {
+  constructor(public domain: KeyDomain) {
+    super(`Domain ${domain} already has a different active key`);
+    this.name = 'ActiveKeyConflictError';
+  }
+}
+
+export interface KeyStore {
+  listKeys(domain: KeyDomain): Promise<StoredKey[]>; // Oldest first
+
+  /**
+   * Make `key` the domain's active key, retiring `previousActiveId` in the same write.
+   * Throws ActiveKeyConflictError if the active key is no longer `previousActiveId` (null for none),
+   * i.e. another process rotated first.
+   */
+  activateKey(key: StoredKey, previousActiveId: string | null): Promise<void>;
+
+  // Also ends the key's active status; rotate first so the domain keeps an active key
+  markCompromised(id: string, reason: string, at: Date): Promise<StoredKey | null>;
+}
@@ -0,0 +1,283 @@
+import { randomBytes } from 'crypto';
+import { logger } from '@/lib/logger';
+import {
+  KeyProvider,
+  WrappingKey,
+  generateKey,
+  getMasterKeyFromEnv,
+  unwrapKey,
+  wrapKey,
+} from '../EnvelopeEncryption';
+import { ActiveKeyConflictError, KeyDomain, KeyStatus, KeyStore, StoredKey } from './KeyStore';
+
+export const KEY_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+export const ROTATION_WARNING_DAYS = 30;
+
+// How long a process trusts its copy of the keyring before re-reading it, to see other instances' rotations
+const KEYRING_REFRESH_MS = 60 * 1000;
+
+/**
+ * A key's metadata, safe to show in the admin view; never includes key material
+ */
+export interface KeyInfo {
+  id: string;
+  domain: KeyDomain;
+  status: KeyStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  retiredAt?: Date;
+  compromisedAt?: Date;
+  compromiseReason?: string;
+  // The master key itself, which wrapped data keys directly before the keyring existed
+  master?: boolean;
+}
+
+export interface KeyRotationStatus {
+  domain: KeyDomain;
+  activeKeyId: string | null;
+  daysUntilExpiration: number;
+  needsRotation: boolean;
+}
+
+export interface KeyringEvent {
+  domain: KeyDomain;
+  type: 'rotated' | 'compromised';
+  keyId: string;
+}
+
+export type KeyringListener = (event: KeyringEvent) => void;
+
+type ManagedKey = WrappingKey & KeyInfo;
+
+/**
+ * A domain's keys, persisted in a KeyStore wrapped by the master key. Exactly one key is active and
+ * wraps new data keys; retired keys still unwrap until the re-encryption job has moved their records
+ * off them, and compromised keys are only read to move records off them.
+ *
+ * The synchronous accessors read the last loaded copy. Until the first load completes, that is just the
+ * master key.
+ */
+export class Keyring implements KeyProvider {
+  private keys: Map<string, ManagedKey> = new Map();
+  private activeId: string;
+  private loading: Promise<void> | null = null;
+  private loadedAt = 0;
+  private listeners: KeyringListener[] = [];
+
+  constructor(
+    readonly domain: KeyDomain,
+    private store: KeyStore,
+    private master: WrappingKey = getMasterKeyFromEnv()
+  ) {
+    const now = new Date();
+    this.keys.set(master.id, {
+      ...master,
+      domain,
+      status: 'active',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + KEY_LIFETIME_MS),
+      master: true,
+    });
+    this.activeId = master.id;
+  }
+
+  /**
+   * Reads the keyring from the store, creating the domain's first key if it has none. Cached for a
+   * minute; pass `force` to re-read now.
+   */
+  async load(force = false): Promise<void> {
+    if (!this.loading || force || Date.now() - this.loadedAt > KEYRING_REFRESH_MS) {
+      this.loadedAt = Date.now();
+      this.loading = this.refresh().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  async activeKey(): Promise<WrappingKey> {
+    await this.load();
+    return this.keys.get(this.activeId)!;
+  }
+
+  async key(id: string): Promise<WrappingKey | null> {
+    await this.load();
+    if (!this.keys.has(id)) {
+      // Possibly created by another instance since the last load
+      await this.load(true);
+    }
+    return this.keys.get(id) || null;
+  }
+
+  /**
+   * Activates a new key and retires the current one. Records under the retired key stay readable;
+   * the re-encryption job moves them to the new key.
+   */
+  async rotate(actorId = 'system'): Promise<KeyInfo> {
+    await this.load();
+    const previousId = this.activeId;
+    const key = await this.activate(previousId);
+
+    logger.info({ domain: this.domain, previousKeyId: previousId, newKeyId: key.id, actorId }, 'Encryption key rotated');
+    this.emit({ domain: this.domain, type: 'rotated', keyId: key.id });
+    return toInfo(key);
+  }
+
+  /**
+   * Marks a key compromised, rotating first if it is the active key. Its records can still be read
+   * by the re-encryption job, which re-encrypts them with fresh data keys.
+   */
+  async compromise(keyId: string, reason: string, actorId = 'system'): Promise<KeyInfo> {
+    await this.load();
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error('Key not found');
+    }
+    if (key.master) {
+      throw new Error('The master key is replaced through ENCRYPTION_MASTER_KEY, not compromised per domain');
+    }
+
+    if (keyId === this.activeId) {
+      await this.rotate(actorId);
+    }
+
+    const stored = await this.store.markCompromised(keyId, reason, new Date());
+    if (stored) {
+      this.keys.set(keyId, { ...this.keys.get(keyId)!, ...toInfo(stored), status: 'compromised' });
+    }
+
+    logger.warn({ domain: this.domain, keyId, reason, activeKeyId: this.activeId, actorId }, 'Encryption key compromised');
+    this.emit({ domain: this.domain, type: 'compromised', keyId });
+    return toInfo(this.keys.get(keyId)!);
+  }
+
+  onChange(listener: KeyringListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  getActiveKeyInfo(): KeyInfo {
+    return toInfo(this.keys.get(this.activeId)!);
+  }
+
+  listKeys(): KeyInfo[] {
+    return Array.from(this.keys.values()).map(toInfo);
+  }
+
+  getRotationStatus(): KeyRotationStatus {
+    const active = this.keys.get(this.activeId)!;
+    const daysUntilExpiration = Math.ceil((active.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+    return {
+      domain: this.domain,
+      activeKeyId: active.id,
+      daysUntilExpiration: Math.max(0, daysUntilExpiration),
+      needsRotation: daysUntilExpiration <= ROTATION_WARNING_DAYS,
+    };
+  }
+
+  private async refresh(): Promise<void> {
+    const stored = await this.store.listKeys(this.domain);
+    const keys: Map<string, ManagedKey> = new Map();
+
+    // Kept readable so envelopes it wrapped directly can be re-wrapped under the domain's keys
+    const master = this.keys.get(this.master.id)!;
+    keys.set(master.id, { ...master, status: 'retired' });
+
+    for (const row of stored) {
+      const key = this.unwrap(row);
+      if (key) keys.set(row.id, key);
+    }
+
+    const storedActive = stored.find(row => row.status === 'active');
+    if (storedActive && keys.has(storedActive.id)) {
+      this.keys = keys;
+      this.activeId = storedActive.id;
+      return;
+    }
+
+    // No usable active key: a new domain, or its active key was wrapped by a previous master key
+    this.keys = keys;
+    await this.activate(storedActive?.id ?? null);
+  }
+
+  private async activate(previousActiveId: string | null): Promise<ManagedKey> {
+    const material = generateKey();
+    const createdAt = new Date();
+    const stored: StoredKey = {
+      id: `${this.domain}-${createdAt.getTime()}-${randomBytes(4).toString('hex')}`,
+      domain: this.domain,
+      wrappedKey: wrapKey(material, this.master),
+      masterKeyId: this.master.id,
+      status: 'active',
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + KEY_LIFETIME_MS),
+    };
+
+    try {
+      // The master key has no row, so from the store's view the domain has no active key yet
+      await this.store.activateKey(stored, previousActiveId === this.master.id ? null : previousActiveId);
+    } catch (error) {
+      if (!(error instanceof ActiveKeyConflictError)) throw error;
+
+      // Another instance rotated first; use its key rather than rotating twice
+      logger.info({ domain: this.domain }, 'Keyring changed concurrently; reloading');
+      await this.load(true);
+      return this.keys.get(this.activeId)!;
+    }
+
+    const previous = previousActiveId ? this.keys.get(previousActiveId) : undefined;
+    if (previous && previous.status === 'active') {
+      this.keys.set(previous.id, { ...previous, status: 'retired', retiredAt: createdAt });
+    }
+
+    const key: ManagedKey = { ...toInfo(stored), key: material };
+    this.keys.set(key.id, key);
+    this.activeId = key.id;
+    return key;
+  }
+
+  private unwrap(row: StoredKey): ManagedKey | null {
+    if (row.masterKeyId !== this.master.id) {
+      logger.error({ domain: this.domain, keyId: row.id, masterKeyId: row.masterKeyId }, 'Encryption key is wrapped by a different master key');
+      return null;
+    }
+
+    try {
+      return { ...toInfo(row), key: unwrapKey(row.wrappedKey, this.master) };
+    } catch {
+      logger.error({ domain: this.domain, keyId: row.id }, 'Encryption key failed to unwrap');
+      return null;
+    }
+  }
+
+  private emit(event: KeyringEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error({
+          ...event,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Keyring listener failed');
+      }
+    }
+  }
+}
+
+function toInfo(key: KeyInfo | StoredKey): KeyInfo {
+  return {
+    id: key.id,
+    domain: key.domain,
+    status: key.status,
+    createdAt: key.createdAt,
+    expiresAt: key.expiresAt,
+    ...(key.retiredAt && { retiredAt: key.retiredAt }),
+    ...(key.compromisedAt && { compromisedAt: key.compromisedAt }),
+    ...(key.compromiseReason && { compromiseReason: key.compromiseReason }),
+    ...('master' in key && key.master && { master: true }),
+  };
+}
@@ -0,0 +1,79 @@
+import type { EncryptionKey as KeyRow } from '@/generated/prisma/client';
+import { loadPrisma } from '@/lib/prisma-loader';
+import { ActiveKeyConflictError, KeyDomain, KeyStatus, KeyStore, StoredKey } from './KeyStore';
+
+function formatKey(row: KeyRow): StoredKey {
+  return {
+    id: row.id,
+    domain: row.domain as KeyDomain,
+    wrappedKey: row.wrappedKey,
+    masterKeyId: row.masterKeyId,
+    status: row.status as KeyStatus,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt,
+    retiredAt: row.retiredAt ?? undefined,
+    compromisedAt: row.compromisedAt ?? undefined,
+    compromiseReason: row.compromiseReason ?? undefined,
+  };
+}
+
+/**
+ * Store backed by the `encryption_keys` table. The unique `activeDomain` column holds the domain only
+ * while a key is active, so concurrent rotations on several app instances can't both win.
+ */
+export class PgKeyStore implements KeyStore {
+  async listKeys(domain: KeyDomain): Promise<StoredKey[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.encryptionKey.findMany({ where: { domain }, orderBy: { createdAt: 'asc' } });
+    return rows.map(formatKey);
+  }
+
+  async activateKey(key: StoredKey, previousActiveId: string | null): Promise<void> {
+    const prisma = await loadPrisma();
+
+    try {
+      await prisma.$transaction(async tx => {
+        if (previousActiveId) {
+          const retired = await tx.encryptionKey.updateMany({
+            where: { id: previousActiveId, status: 'active' },
+            data: { status: 'retired', activeDomain: null, retiredAt: key.createdAt },
+          });
+          if (retired.count === 0) {
+            throw new ActiveKeyConflictError(key.domain);
+          }
+        }
+
+        await tx.encryptionKey.create({
+          data: {
+            id: key.id,
+            domain: key.domain,
+            wrappedKey: key.wrappedKey,
+            masterKeyId: key.masterKeyId,
+            status: 'active',
+            activeDomain: key.domain,
+            createdAt: key.createdAt,
+            expiresAt: key.expiresAt,
+          },
+        });
+      });
+    } catch (error) {
+      // Unique violation on activeDomain: a key was activated without retiring ours
+      if ((error as { code?: string }).code === 'P2002') {
+        throw new ActiveKeyConflictError(key.domain);
+      }
+      throw error;
+    }
+  }
+
+  async markCompromised(id: string, reason: string, at: Date): Promise<StoredKey | null> {
+    const prisma = await loadPrisma();
+    const result = await prisma.encryptionKey.updateMany({
+      where: { id },
+      data: { status: 'compromised', activeDomain: null, compromisedAt: at, compromiseReason: reason },
+    });
+    if (result.count === 0) return null;
+
+    const row = await prisma.encryptionKey.findUnique({ where: { id } });
+    return row ? formatKey(row) : null;
+  }
+}
@@ -0,0 +1,224 @@
+import { logger } from '@/lib/logger';
+import { Envelope, EnvelopeEncryption } from '../EnvelopeEncryption';
+import type { Keyring } from './Keyring';
+import type { KeyDomain } from './KeyStore';
+
+export interface EncryptedRecord {
+  id: string;
+  envelope: Envelope;
+}
+
+/**
+ * Somewhere envelopes are stored, e.g. an encrypted column. The job asks it for records wrapped by
+ * anything other than the domain's active key and writes back their re-wrapped envelopes.
+ */
+export interface EncryptedRecordSource {
+  name: string;
+  domain: KeyDomain;
+  findStale(activeKeyId: string, limit: number): Promise<EncryptedRecord[]>;
+  countStale(activeKeyId: string): Promise<number>;
+  save(record: EncryptedRecord, envelope: Envelope): Promise<void>;
+}
+
+export interface ReEncryptionJobConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export interface ReEncryptionRun {
+  domain: KeyDomain;
+  activeKeyId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  reEncrypted: number;
+  failed: number;
+}
+
+export interface ReEncryptionProgress {
+  domain: KeyDomain;
+  activeKeyId: string;
+  pending: number; // Records still under a retired, compromised or master key
+  sources: string[];
+  running: boolean;
+  lastRun?: ReEncryptionRun;
+}
+
+const DEFAULT_CONFIG: ReEncryptionJobConfig = {
+  pollIntervalMs: 15 * 60 * 1000,
+  batchSize: 100,
+};
+
+/**
+ * Moves records onto each domain's active key: after a rotation their data keys are re-wrapped, and
+ * records under a compromised key are re-encrypted with fresh data keys. Runs straight after a rotation
+ * or compromise in this process and otherwise polls, which also picks up rotations made by other
+ * instances and work left unfinished by a restart. Nothing about a run is persisted; the records' key
+ * IDs are the only state.
+ */
+export class ReEncryptionJob {
+  private config: ReEncryptionJobConfig;
+  private keyrings: Map<KeyDomain, Keyring> = new Map();
+  private envelopes: Map<KeyDomain, EnvelopeEncryption> = new Map();
+  private sources: EncryptedRecordSource[] = [];
+  private lastRuns: Map<KeyDomain, ReEncryptionRun> = new Map();
+  private runningDomains: Set<KeyDomain> = new Set();
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(keyrings: Keyring[], config: Partial<ReEncryptionJobConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    for (const keyring of keyrings) {
+      this.keyrings.set(keyring.domain, keyring);
+      this.envelopes.set(keyring.domain, new EnvelopeEncryption(keyring));
+      keyring.onChange(() => {
+        if (this.running) this.schedule(0);
+      });
+    }
+  }
+
+  registerSource(source: EncryptedRecordSource): void {
+    if (!this.keyrings.has(source.domain)) {
+      throw new Error(`No keyring for domain ${source.domain}`);
+    }
+    this.sources = [...this.sources.filter(existing => existing.name !== source.name), source];
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info({ sources: this.sources.map(source => source.name) }, 'Re-encryption job started');
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Move every record in the domain onto its active key now. Records that fail are logged and left
+   * for the next run.
+   */
+  async runDomain(domain: KeyDomain): Promise<ReEncryptionRun> {
+    const keyring = this.requireKeyring(domain);
+    const envelopes = this.envelopes.get(domain)!;
+    const run: ReEncryptionRun = {
+      domain,
+      activeKeyId: (await keyring.activeKey()).id,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      reEncrypted: 0,
+      failed: 0,
+    };
+
+    if (this.runningDomains.has(domain)) {
+      return run;
+    }
+    this.runningDomains.add(domain);
+
+    try {
+      for (const source of this.sources.filter(candidate => candidate.domain === domain)) {
+        const failedIds: Set<string> = new Set();
+
+        for (;;) {
+          // Re-read each batch: after a rotation mid-run, "stale" has to mean stale against the newest key
+          run.activeKeyId = (await keyring.activeKey()).id;
+          // Look past records that already failed this run; they are retried on the next one
+          const batch = (await source.findStale(run.activeKeyId, this.config.batchSize + failedIds.size))
+            .filter(record => !failedIds.has(record.id));
+
+          for (const record of batch) {
+            try {
+              await source.save(record, await envelopes.rewrap(record.envelope));
+              run.reEncrypted++;
+            } catch (error) {
+              failedIds.add(record.id);
+              run.failed++;
+              logger.error({
+                domain,
+                source: source.name,
+                recordId: record.id,
+                keyId: record.envelope.keyId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+              }, 'Record re-encryption failed');
+            }
+          }
+
+          if (batch.length < this.config.batchSize) break;
+        }
+      }
+    } finally {
+      this.runningDomains.delete(domain);
+    }
+
+    run.finishedAt = new Date();
+    this.lastRuns.set(domain, run);
+
+    if (run.reEncrypted > 0 || run.failed > 0) {
+      logger.info({ ...run }, 'Re-encryption run completed');
+    }
+    return run;
+  }
+
+  async getProgress(domain: KeyDomain): Promise<ReEncryptionProgress> {
+    const keyring = this.requireKeyring(domain);
+    const activeKeyId = (await keyring.activeKey()).id;
+    const sources = this.sources.filter(source => source.domain === domain);
+
+    let pending = 0;
+    for (const source of sources) {
+      pending += await source.countStale(activeKeyId);
+    }
+
+    return {
+      domain,
+      activeKeyId,
+      pending,
+      sources: sources.map(source => source.name),
+      running: this.runningDomains.has(domain),
+      lastRun: this.lastRuns.get(domain),
+    };
+  }
+
+  private requireKeyring(domain: KeyDomain): Keyring {
+    const keyring = this.keyrings.get(domain);
+    if (!keyring) {
+      throw new Error(`No keyring for domain ${domain}`);
+    }
+    return keyring;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    for (const domain of this.keyrings.keys()) {
+      if (!this.running) break;
+      try {
+        await this.runDomain(domain);
+      } catch (error) {
+        logger.error({
+          domain,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Re-encryption run failed');
+      }
+    }
+
+    if (this.running) {
+      this.schedule(this.config.pollIntervalMs);
+    }
+  }
+}
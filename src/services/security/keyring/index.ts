@@ -0,0 +1,61 @@
+import { KEY_DOMAINS, KeyDomain, KeyStore } from './KeyStore';
+import { InMemoryKeyStore } from './InMemoryKeyStore';
+import { PgKeyStore } from './PgKeyStore';
+import { Keyring } from './Keyring';
+import { ReEncryptionJob } from './ReEncryptionJob';
+
+export type { KeyStore, KeyDomain, KeyStatus, StoredKey } from './KeyStore';
+export { KEY_DOMAINS, ActiveKeyConflictError } from './KeyStore';
+export { InMemoryKeyStore } from './InMemoryKeyStore';
+export { PgKeyStore } from './PgKeyStore';
+export { Keyring, KEY_LIFETIME_MS, ROTATION_WARNING_DAYS } from './Keyring';
+export type { KeyInfo, KeyRotationStatus, KeyringEvent, KeyringListener } from './Keyring';
+export { ReEncryptionJob } from './ReEncryptionJob';
+export type {
+  EncryptedRecord,
+  EncryptedRecordSource,
+  ReEncryptionJobConfig,
+  ReEncryptionRun,
+  ReEncryptionProgress,
+} from './ReEncryptionJob';
+
+let defaultStore: KeyStore | null = null;
+const keyrings: Map<KeyDomain, Keyring> = new Map();
+let defaultJob: ReEncryptionJob | null = null;
+
+/**
+ * Store selected by ENCRYPTION_KEY_STORE ('postgres' | 'memory'). Defaults to Postgres, except under
+ * test where the in-memory store is used.
+ */
+export function getKeyStore(): KeyStore {
+  if (!defaultStore) {
+    const backend = process.env.ENCRYPTION_KEY_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryKeyStore() : new PgKeyStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * The process-wide keyring for a domain, wrapped by the master key from ENCRYPTION_MASTER_KEY
+ */
+export function getKeyring(domain: KeyDomain): Keyring {
+  let keyring = keyrings.get(domain);
+  if (!keyring) {
+    keyring = new Keyring(domain, getKeyStore());
+    keyrings.set(domain, keyring);
+  }
+  return keyring;
+}
+
+/**
+ * The process-wide re-encryption job over every domain's keyring. Stores of encrypted records
+ * register themselves as sources.
+ */
+export function getReEncryptionJob(): ReEncryptionJob {
+  if (!defaultJob) {
+    defaultJob = new ReEncryptionJob(KEY_DOMAINS.map(getKeyring));
+  }
+  return defaultJob;
+}
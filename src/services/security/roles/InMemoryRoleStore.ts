@@ -0,0 +1,33 @@
+import type { Role } from '@/lib/permissions';
+import { RoleGrant, RoleStore } from './RoleStore';
+
+/**
+ * Process-local store used by tests and local development without Postgres
+ */
+export class InMemoryRoleStore implements RoleStore {
+  private grants: RoleGrant[] = [];
+
+  async listGrants(userId: string): Promise<RoleGrant[]> {
+    return this.grants.filter(grant => grant.userId === userId).map(grant => structuredClone(grant));
+  }
+
+  async listUserIds(role: Role): Promise<string[]> {
+    return this.grants.filter(grant => grant.role === role).map(grant => grant.userId);
+  }
+
+  async grant(userId: string, role: Role, grantedBy: string | undefined, at: Date): Promise<boolean> {
+    if (this.grants.some(grant => grant.userId === userId && grant.role === role)) {
+      return false;
+    }
+    this.grants.push({ userId, role, grantedBy, grantedAt: at });
+    return true;
+  }
+
+  async revoke(userId: string, role: Role): Promise<boolean> {
+    const index = this.grants.findIndex(grant => grant.userId === userId && grant.role === role);
+    if (index === -1) return false;
+
+    this.grants.splice(index, 1);
+    return true;
+  }
+}
@@ -0,0 +1,54 @@
+import type { UserRole as UserRoleRow } from '@/generated/prisma/client';
+import { isRole, Role } from '@/lib/permissions';
+import { loadPrisma } from '@/lib/prisma-loader';
+import { RoleGrant, RoleStore } from './RoleStore';
+
+function formatGrant(row: UserRoleRow & { role: Role }): RoleGrant {
+  return {
+    userId: row.userId,
+    role: row.role,
+    grantedBy: row.grantedBy ?? undefined,
+    grantedAt: row.grantedAt,
+  };
+}
+
+/**
+ * Store backed by the `user_roles` table
+ */
+export class PgRoleStore implements RoleStore {
+  async listGrants(userId: string): Promise<RoleGrant[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.userRole.findMany({ where: { userId }, orderBy: { grantedAt: 'asc' } });
+
+    // Rows for roles that no longer exist grant nothing
+    return rows
+      .filter((row): row is UserRoleRow & { role: Role } => isRole(row.role))
+      .map(formatGrant);
+  }
+
+  async listUserIds(role: Role): Promise<string[]> {
+    const prisma = await loadPrisma();
+    const rows = await prisma.userRole.findMany({ where: { role }, select: { userId: true } });
+    return rows.map(row => row.userId);
+  }
+
+  async grant(userId: string, role: Role, grantedBy: string | undefined, at: Date): Promise<boolean> {
+    const prisma = await loadPrisma();
+
+    try {
+      await prisma.userRole.create({ data: { userId, role, grantedBy, grantedAt: at } });
+      return true;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async revoke(userId: string, role: Role): Promise<boolean> {
+    const prisma = await loadPrisma();
+    const result = await prisma.userRole.deleteMany({ where: { userId, role } });
+    return result.count > 0;
+  }
+}
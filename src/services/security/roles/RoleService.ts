@@ -0,0 +1,75 @@
+import { logger } from '@/lib/logger';
+import { GRANTABLE_ROLES, Role } from '@/lib/permissions';
+import type { AuditLog } from '@/services/compliance/audit';
+import type { RoleGrant, RoleStore } from './RoleStore';
+
+export class RoleChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoleChangeError';
+  }
+}
+
+export interface RoleChange {
+  granted: Role[];
+  revoked: Role[];
+}
+
+/**
+ * Grants and revokes roles. Every change is recorded in the audit log; signed-in users pick it up the
+ * next time their session token's roles are refreshed.
+ */
+export class RoleService {
+  constructor(private store: RoleStore, private auditLog: AuditLog) {}
+
+  listGrants(userId: string): Promise<RoleGrant[]> {
+    return this.store.listGrants(userId);
+  }
+
+  /**
+   * Make `roles` the user's granted roles. `changedBy` is the admin making the change, or undefined
+   * from the command line.
+   */
+  async setRoles(userId: string, roles: Role[], changedBy?: string, now: Date = new Date()): Promise<RoleChange> {
+    const invalid = roles.filter(role => !GRANTABLE_ROLES.includes(role));
+    if (invalid.length > 0) {
+      throw new RoleChangeError(`Roles that can't be granted: ${invalid.join(', ')}`);
+    }
+
+    const current = (await this.store.listGrants(userId)).map(grant => grant.role);
+    const change: RoleChange = {
+      granted: roles.filter(role => !current.includes(role)),
+      revoked: current.filter(role => !roles.includes(role)),
+    };
+
+    // Otherwise an admin could leave the deployment without one by mistake
+    if (changedBy === userId && change.revoked.includes('admin')) {
+      throw new RoleChangeError('Admins cannot revoke their own admin role');
+    }
+
+    for (const role of change.granted) {
+      await this.store.grant(userId, role, changedBy, now);
+    }
+    for (const role of change.revoked) {
+      await this.store.revoke(userId, role);
+    }
+
+    if (change.granted.length > 0 || change.revoked.length > 0) {
+      await this.auditLog.record({
+        actorId: changedBy ?? 'system',
+        actorType: changedBy ? 'admin' : 'system',
+        action: 'roles.update',
+        resourceType: 'user_roles',
+        resourceId: userId,
+        subjectId: userId,
+        purpose: 'operations',
+        outcome: 'success',
+        metadata: { granted: change.granted, revoked: change.revoked },
+      }, now);
+
+      logger.info({ userId, changedBy, ...change }, 'User roles changed');
+    }
+
+    return change;
+  }
+}
@@ -0,0 +1,19 @@
+import type { Role } from '@/lib/permissions';
+
+export interface RoleGrant {
+  userId: string;
+  role: Role;
+  grantedBy?: string;
+  grantedAt: Date;
+}
+
+export interface RoleStore {
+  listGrants(userId: string): Promise<RoleGrant[]>;
+  listUserIds(role: Role): Promise<string[]>;
+
+  // False if the user already has the role
+  grant(userId: string, role: Role, grantedBy: string | undefined, at: Date): Promise<boolean>;
+
+  // False if the user didn't have the role
+  revoke(userId: string, role: Role): Promise<boolean>;
+}
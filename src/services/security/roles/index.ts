@@ -0,0 +1,76 @@
+import type { Role } from '@/lib/permissions';
+import { getAuditLog } from '@/services/compliance/audit';
+import { InMemoryRoleStore } from './InMemoryRoleStore';
+import { PgRoleStore } from './PgRoleStore';
+import { RoleService } from './RoleService';
+import { RoleStore } from './RoleStore';
+
+export type { RoleGrant, RoleStore } from './RoleStore';
+export { InMemoryRoleStore } from './InMemoryRoleStore';
+export { PgRoleStore } from './PgRoleStore';
+export { RoleChangeError, RoleService } from './RoleService';
+export type { RoleChange } from './RoleService';
+
+let defaultStore: RoleStore | null = null;
+let defaultService: RoleService | null = null;
+
+/**
+ * Store selected by ROLE_STORE ('postgres' | 'memory'). Defaults to Postgres, except under test
+ * where the in-memory store is used.
+ */
+export function getRoleStore(): RoleStore {
+  if (!defaultStore) {
+    const backend = process.env.ROLE_STORE
+      || (process.env.NODE_ENV === 'test' ? 'memory' : 'postgres');
+
+    defaultStore = backend === 'memory' ? new InMemoryRoleStore() : new PgRoleStore();
+  }
+  return defaultStore;
+}
+
+export function getRoleService(): RoleService {
+  if (!defaultService) {
+    defaultService = new RoleService(getRoleStore(), getAuditLog());
+  }
+  return defaultService;
+}
+
+// Every role the user holds, starting with the 'user' role everyone signed in has
+export async function loadUserRoles(userId: string, store: RoleStore = getRoleStore()): Promise<Role[]> {
+  const grants = await store.listGrants(userId);
+  return ['user', ...grants.map(grant => grant.role).filter(role => role !== 'user')];
+}
+
+export const ROLE_REFRESH_MS = 5 * 60 * 1000;
+
+export interface RoleToken {
+  sub?: string;
+  roles?: Role[];
+  rolesLoadedAt?: number;
+}
+
+/**
+ * Keep a session token's roles current: loaded at sign-in and reloaded once ROLE_REFRESH_MS old, so
+ * grants and revocations reach signed-in users within minutes rather than when the token expires.
+ * A failed reload leaves only the 'user' role until the next attempt, never roles since revoked.
+ */
+export async function refreshTokenRoles<T extends RoleToken>(
+  token: T,
+  signingIn: boolean,
+  now: number = Date.now(),
+  store: RoleStore = getRoleStore()
+): Promise<T> {
+  if (!token.sub) return token;
+  if (!signingIn && token.rolesLoadedAt && now - token.rolesLoadedAt < ROLE_REFRESH_MS) {
+    return token;
+  }
+
+  try {
+    token.roles = await loadUserRoles(token.sub, store);
+    token.rolesLoadedAt = now;
+  } catch {
+    token.roles = ['user'];
+    token.rolesLoadedAt = undefined;
+  }
+  return token;
+}
@@ -1,5 +1,12 @@
-import { EmotionDetectionService, EmotionState, EmotionalUXAdaptation, EmotionContext } from '@/services/emotion/EmotionDetectionService';
+import {
+  EmotionDetectionService,
+  EmotionState,
+  EmotionalUXAdaptation,
+  EmotionContext,
+  getEmotionDetectionService
+} from '@/services/emotion/EmotionDetectionService';
 import { logger } from '@/lib/logger';
+import type { UserDataSource } from '@/services/compliance/data-rights/UserDataSource';
 
 export interface EmotionalUXPreferences {
   userId: string;
@@ -22,15 +29,16 @@ export interface UXTransition {
   startTime: Date;
 }
 
-export class EmotionalUXService {
+export class EmotionalUXService implements UserDataSource {
+  readonly name = 'emotional_ux';
   private emotionService: EmotionDetectionService;
   private userPreferences: Map<string, EmotionalUXPreferences> = new Map();
   private activeTransitions: Map<string, UXTransition> = new Map();
   private adaptationHistory: Map<string, EmotionalUXAdaptation[]> = new Map();
   private defaultPreferences: EmotionalUXPreferences;
 
-  constructor() {
-    this.emotionService = new EmotionDetectionService();
+  constructor(emotionService?: EmotionDetectionService) {
+    this.emotionService = emotionService || new EmotionDetectionService();
     this.defaultPreferences = {
       userId: '',
       enabled: true,
@@ -301,6 +309,26 @@ export class EmotionalUXService {
     return history.slice(-limit);
   }
 
+  // Data subject requests. Emotion history is the emotion service's own source.
+  async exportUserData(userId: string) {
+    return {
+      preferences: this.userPreferences.get(userId) || null,
+      adaptations: this.adaptationHistory.get(userId) || []
+    };
+  }
+
+  async eraseUserData(userId: string): Promise<number> {
+    const erased = (this.userPreferences.has(userId) ? 1 : 0)
+      + (this.adaptationHistory.get(userId)?.length ?? 0);
+
+    this.userPreferences.delete(userId);
+    this.adaptationHistory.delete(userId);
+    this.activeTransitions.delete(userId);
+
+    logger.info({ userId, erased }, 'Emotional UX data erased');
+    return erased;
+  }
+
   async generateEmotionalUXReport(userId: string, timeRange: { start: Date; end: Date }): Promise<{
     totalAdaptations: number;
     emotionDistribution: Record<string, number>;
@@ -460,4 +488,16 @@ export class EmotionalUXService {
       };
     }
   }
-}
\ No newline at end of file
+}
+
+let defaultService: EmotionalUXService | null = null;
+
+/**
+ * Shared service for this process, on the shared emotion detection service
+ */
+export function getEmotionalUXService(): EmotionalUXService {
+  if (!defaultService) {
+    defaultService = new EmotionalUXService(getEmotionDetectionService());
+  }
+  return defaultService;
+}
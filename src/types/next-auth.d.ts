@@ -1,4 +1,5 @@
 import NextAuth from 'next-auth';
+import type { Role } from '@/lib/permissions';
 
 declare module 'next-auth' {
   interface Session {
@@ -8,6 +9,7 @@ declare module 'next-auth' {
       email?: string | null;
       image?: string | null;
       profile?: any;
+      roles: Role[];
     };
   }
 
@@ -23,5 +25,7 @@ declare module 'next-auth' {
 declare module 'next-auth/jwt' {
   interface JWT {
     profile?: any;
+    roles?: Role[];
+    rolesLoadedAt?: number; // Epoch ms the roles were last read from the database
   }
 }
\ No newline at end of file